@@ -25,6 +25,7 @@ interface Following {
     bio: string | null;
     category: CreatorCategory;
     subscriptionPrice: SubscriptionPriceTier;
+    customPriceCents: number | null;
     trialEnabled: boolean;
     isVerified: boolean;
     stats: {
@@ -172,6 +173,7 @@ export function FollowingClient({
                 coverImageUrl={follow.creator.coverImageUrl}
                 category={follow.creator.category}
                 subscriptionPrice={follow.creator.subscriptionPrice}
+                customPriceCents={follow.creator.customPriceCents}
                 trialEnabled={follow.creator.trialEnabled}
                 isVerified={follow.creator.isVerified}
                 subscriberCount={follow.creator.stats.subscriberCount}
@@ -7,21 +7,12 @@ import { CreatorCategory, SubscriptionPriceTier } from "@prisma/client";
 import { Heart, UserMinus, Loader2, CheckCircle2, Video } from "lucide-react";
 
 import { cn } from "@/lib/utils";
+import { getPriceDisplay } from "@/lib/pricing";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 
-/**
- * Maps subscription price tiers to display values
- */
-const PRICE_DISPLAY: Record<SubscriptionPriceTier, string> = {
-  TIER_500: "$5",
-  TIER_1000: "$10",
-  TIER_2000: "$20",
-  TIER_3000: "$30",
-};
-
 /**
  * Maps category enums to human-readable labels
  */
@@ -53,6 +44,8 @@ export interface FollowingCreatorCardProps {
   category: CreatorCategory;
   /** Subscription price tier */
   subscriptionPrice: SubscriptionPriceTier;
+  /** Custom monthly price in cents (overrides the tier when set) */
+  customPriceCents?: number | null;
   /** Whether trial is enabled */
   trialEnabled?: boolean;
   /** Whether creator is verified */
@@ -81,6 +74,7 @@ export function FollowingCreatorCard({
   coverImageUrl,
   category,
   subscriptionPrice,
+  customPriceCents = null,
   trialEnabled = false,
   isVerified = false,
   subscriberCount,
@@ -98,6 +92,8 @@ export function FollowingCreatorCard({
     .toUpperCase()
     .slice(0, 2);
 
+  const price = getPriceDisplay({ subscriptionPrice, customPriceCents });
+
   const handleUnfollowClick = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -192,12 +188,12 @@ export function FollowingCreatorCard({
         <div className="flex items-center justify-between mt-4 pt-4 border-t border-border gap-3">
           <div className="flex-1 min-w-0">
             <span className="font-semibold text-foreground">
-              {PRICE_DISPLAY[subscriptionPrice]}
+              {price.amount}
             </span>
             <span className="text-muted-foreground">/month</span>
             {trialEnabled && (
               <span className="text-xs text-muted-foreground block">
-                7-day free trial
+                Free trial available
               </span>
             )}
           </div>
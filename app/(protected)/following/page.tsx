@@ -56,6 +56,7 @@ export default async function FollowingPage() {
           bio: true,
           category: true,
           subscriptionPrice: true,
+          customPriceCents: true,
           trialEnabled: true,
           isVerified: true,
           _count: {
@@ -95,6 +96,7 @@ export default async function FollowingPage() {
       bio: follow.creator.bio,
       category: follow.creator.category,
       subscriptionPrice: follow.creator.subscriptionPrice,
+      customPriceCents: follow.creator.customPriceCents,
       trialEnabled: follow.creator.trialEnabled,
       isVerified: follow.creator.isVerified,
       stats: {
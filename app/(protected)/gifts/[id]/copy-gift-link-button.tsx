@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Copy } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface CopyGiftLinkButtonProps {
+  code: string;
+}
+
+/**
+ * CopyGiftLinkButton - Copy the redeem link for a gift code
+ */
+export function CopyGiftLinkButton({ code }: CopyGiftLinkButtonProps) {
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    const url = `${window.location.origin}/gifts/redeem?code=${code}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setError(null);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch {
+      setError("Couldn't copy the link. Your browser blocked clipboard access.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" onClick={handleCopy} className="min-h-[44px]">
+        {isCopied ? (
+          <Check className="mr-1.5 size-4" />
+        ) : (
+          <Copy className="mr-1.5 size-4" />
+        )}
+        {isCopied ? "Copied" : "Copy redeem link"}
+      </Button>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
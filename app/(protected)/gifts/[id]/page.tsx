@@ -0,0 +1,146 @@
+import { Metadata } from "next";
+import { currentUser } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { CheckCircle2, Gift, Loader2 } from "lucide-react";
+
+import { prisma } from "@/lib/prisma";
+import { formatPriceCents } from "@/lib/pricing";
+import { buttonVariants } from "@/lib/button-variants";
+import { cn } from "@/lib/utils";
+import { CopyGiftLinkButton } from "./copy-gift-link-button";
+
+export const metadata: Metadata = {
+  title: "Your Gift | breathwithmagic",
+  description: "Share your gift membership",
+};
+
+interface GiftPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GiftPage - Shows a purchased gift and its code
+ *
+ * Buyers land here after checkout. Only the buyer can see the code; the
+ * gift is marked paid by the Stripe webhook, so a fresh purchase may still
+ * show as processing for a moment.
+ */
+export default async function GiftPage({ params }: GiftPageProps) {
+  const { id } = await params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect(`/sign-in?redirect_url=/gifts/${id}`);
+  }
+
+  const dbUser = await prisma.user.findUnique({
+    where: { clerkId: user.id },
+    select: { id: true },
+  });
+
+  if (!dbUser) {
+    redirect("/sign-in");
+  }
+
+  const gift = await prisma.gift.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      purchaserId: true,
+      months: true,
+      amount: true,
+      code: true,
+      status: true,
+      redeemedAt: true,
+      creator: { select: { handle: true, displayName: true } },
+      tier: { select: { name: true } },
+    },
+  });
+
+  if (!gift || gift.purchaserId !== dbUser.id) {
+    notFound();
+  }
+
+  const membership = `${gift.months} month${gift.months === 1 ? "" : "s"} of ${
+    gift.creator.displayName
+  }${gift.tier ? ` (${gift.tier.name})` : ""}`;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-lg mx-auto px-4 py-12">
+        <div className="rounded-xl border border-border bg-card p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <Gift className="size-6 text-primary" />
+            <h1 className="text-xl font-semibold text-foreground">
+              Gift membership
+            </h1>
+          </div>
+          <p className="text-muted-foreground mb-6">
+            {membership}, paid {formatPriceCents(gift.amount)}
+          </p>
+
+          {gift.status === "pending" && (
+            <div className="flex items-start gap-3 rounded-lg bg-muted/50 p-4">
+              <Loader2 className="size-5 shrink-0 animate-spin text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                We&apos;re confirming your payment. Refresh this page in a
+                moment to see your gift code.
+              </p>
+            </div>
+          )}
+
+          {gift.status === "paid" && (
+            <div className="space-y-4">
+              <div className="rounded-lg bg-primary/10 border border-primary/30 p-4 text-center">
+                <p className="text-sm text-muted-foreground mb-1">Gift code</p>
+                <p className="font-mono text-2xl font-semibold tracking-wider text-foreground">
+                  {gift.code}
+                </p>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Share the code or the redeem link. The membership starts when
+                it&apos;s redeemed and doesn&apos;t renew.
+              </p>
+              <CopyGiftLinkButton code={gift.code} />
+            </div>
+          )}
+
+          {gift.status === "redeemed" && (
+            <div className="flex items-start gap-3 rounded-lg bg-primary/10 p-4">
+              <CheckCircle2 className="size-5 shrink-0 text-primary" />
+              <p className="text-sm text-foreground">
+                This gift was redeemed
+                {gift.redeemedAt &&
+                  ` on ${gift.redeemedAt.toLocaleDateString("en-US", {
+                    month: "long",
+                    day: "numeric",
+                    year: "numeric",
+                  })}`}
+                .
+              </p>
+            </div>
+          )}
+
+          {gift.status === "refunded" && (
+            <div className="rounded-lg bg-destructive/10 border border-destructive/20 p-4">
+              <p className="text-sm text-destructive">
+                This gift was refunded and can no longer be redeemed.
+              </p>
+            </div>
+          )}
+
+          <Link
+            href={`/${gift.creator.handle}`}
+            className={cn(
+              buttonVariants({ variant: "ghost" }),
+              "mt-6 min-h-[44px]",
+            )}
+          >
+            Back to {gift.creator.displayName}
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,43 @@
+import { Metadata } from "next";
+import { Gift } from "lucide-react";
+
+import { RedeemGiftForm } from "./redeem-gift-form";
+
+export const metadata: Metadata = {
+  title: "Redeem a Gift | breathwithmagic",
+  description: "Redeem a gift membership",
+};
+
+interface RedeemGiftPageProps {
+  searchParams: Promise<{ code?: string }>;
+}
+
+/**
+ * RedeemGiftPage - Redeem a gift membership code
+ *
+ * Shared redeem links prefill the code via ?code=.
+ */
+export default async function RedeemGiftPage({
+  searchParams,
+}: RedeemGiftPageProps) {
+  const { code } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="rounded-xl border border-border bg-card p-6">
+          <div className="flex items-center gap-3 mb-2">
+            <Gift className="size-6 text-primary" />
+            <h1 className="text-xl font-semibold text-foreground">
+              Redeem a gift
+            </h1>
+          </div>
+          <p className="text-muted-foreground mb-6">
+            Enter the code you were sent to start your gifted membership.
+          </p>
+          <RedeemGiftForm initialCode={code?.toUpperCase() ?? ""} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface RedeemGiftFormProps {
+  /** Code from the redeem link, if any */
+  initialCode: string;
+}
+
+/**
+ * RedeemGiftForm - Redeem a gift code and go to the creator's profile
+ */
+export function RedeemGiftForm({ initialCode }: RedeemGiftFormProps) {
+  const router = useRouter();
+  const [code, setCode] = useState(initialCode);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/gifts/redeem", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Unable to redeem gift");
+      }
+
+      router.push(`/${data.creator.handle}?gift=redeemed`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="giftCode">Gift code</Label>
+        <Input
+          id="giftCode"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="GIFT-XXXX-XXXX"
+          autoComplete="off"
+          className="font-mono"
+          disabled={isLoading}
+        />
+      </div>
+
+      {error && (
+        <div
+          className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        disabled={isLoading || !code.trim()}
+        className="w-full min-h-[44px]"
+      >
+        {isLoading ? <Loader2 className="size-4 animate-spin" /> : "Redeem"}
+      </Button>
+    </form>
+  );
+}
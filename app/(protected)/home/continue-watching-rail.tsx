@@ -0,0 +1,94 @@
+/**
+ * ContinueWatchingRail - Horizontally scrolling row of in-progress content
+ *
+ * Each card links back to the post, where the player resumes from the
+ * saved position.
+ */
+
+import Image from "next/image";
+import Link from "next/link";
+import { Play, Music } from "lucide-react";
+
+import { Progress } from "@/components/ui/progress";
+import { formatDuration } from "@/lib/validations/content";
+import type { ContinueWatchingItem } from "@/lib/watch-progress";
+
+interface ContinueWatchingRailProps {
+  items: ContinueWatchingItem[];
+}
+
+export function ContinueWatchingRail({ items }: ContinueWatchingRailProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-10" aria-labelledby="continue-watching">
+      <h2
+        id="continue-watching"
+        className="text-lg font-semibold text-foreground mb-4"
+      >
+        Continue watching
+      </h2>
+      <ul className="flex gap-4 overflow-x-auto pb-2 snap-x">
+        {items.map((item) => (
+          <li key={item.id} className="w-64 shrink-0 snap-start">
+            <ContinueWatchingCard item={item} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function ContinueWatchingCard({ item }: { item: ContinueWatchingItem }) {
+  const TypeIcon = item.type === "audio" ? Music : Play;
+  const progressPercent = item.duration
+    ? Math.min(100, Math.round((item.position / item.duration) * 100))
+    : 0;
+  const remaining = item.duration
+    ? Math.max(0, item.duration - item.position)
+    : null;
+
+  return (
+    <Link
+      href={`/${item.creator.handle}/post/${item.id}`}
+      className="group block rounded-xl border border-border bg-card overflow-hidden"
+    >
+      <div className="relative aspect-video bg-muted">
+        {item.thumbnailUrl ? (
+          <Image
+            src={item.thumbnailUrl}
+            alt={item.title}
+            fill
+            className="object-cover transition-transform duration-300 group-hover:scale-105"
+            sizes="256px"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-muted to-accent/50">
+            <TypeIcon className="size-10 text-muted-foreground/50" />
+          </div>
+        )}
+        <div className="absolute inset-0 flex items-center justify-center opacity-0 transition-opacity group-hover:opacity-100">
+          <div className="p-3 rounded-full bg-background/80 backdrop-blur-sm">
+            <Play className="size-5" aria-hidden="true" />
+          </div>
+        </div>
+        <Progress
+          value={progressPercent}
+          className="absolute bottom-0 inset-x-0"
+          aria-label={`${progressPercent}% watched`}
+        />
+      </div>
+      <div className="p-3">
+        <p className="font-medium text-foreground line-clamp-1">
+          {item.title}
+        </p>
+        <p className="text-sm text-muted-foreground line-clamp-1">
+          {item.creator.displayName}
+          {remaining !== null && ` · ${formatDuration(remaining)} left`}
+        </p>
+      </div>
+    </Link>
+  );
+}
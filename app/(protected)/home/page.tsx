@@ -11,8 +11,12 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { SkipLink } from "@/components/ui/skip-link";
 import { NotificationBell } from "@/components/notifications";
 import { PaymentRecoveryBanner } from "@/components/subscription/payment-recovery-banner";
+import { CreatorCard } from "@/components/browse";
 import { prisma } from "@/lib/prisma";
+import { getStoredRecommendations } from "@/lib/recommendations";
+import { getContinueWatching } from "@/lib/watch-progress";
 import { HomeFeed } from "./home-feed";
+import { ContinueWatchingRail } from "./continue-watching-rail";
 
 /**
  * Home Page - Unified feed for authenticated users
@@ -20,6 +24,8 @@ import { HomeFeed } from "./home-feed";
  * Features:
  * - Content from subscribed creators (all content)
  * - Content from followed creators (free content only)
+ * - Continue watching rail of in-progress videos and audio
+ * - Personalized creator picks from the onboarding quiz
  * - Empty state with explore CTA
  * - Infinite scroll pagination
  * - Mobile-optimized with bottom navigation in layout
@@ -35,9 +41,35 @@ export default async function HomePage() {
   // Check for past_due subscriptions to show payment recovery banner
   const dbUser = await prisma.user.findUnique({
     where: { clerkId: user.id },
-    select: { id: true },
+    select: {
+      id: true,
+      onboarding: { select: { status: true } },
+      _count: { select: { follows: true, subscriptions: true } },
+    },
   });
 
+  // New users with an empty feed go through the quiz first.
+  // Skipped or completed quizzes never redirect again.
+  if (dbUser) {
+    const onboardingStatus = dbUser.onboarding?.status ?? "NOT_STARTED";
+    const hasEmptyFeed =
+      dbUser._count.follows === 0 && dbUser._count.subscriptions === 0;
+
+    if (
+      hasEmptyFeed &&
+      (onboardingStatus === "NOT_STARTED" || onboardingStatus === "IN_PROGRESS")
+    ) {
+      redirect("/onboarding");
+    }
+  }
+
+  const [recommendedCreators, continueWatching] = dbUser
+    ? await Promise.all([
+        getStoredRecommendations(dbUser.id),
+        getContinueWatching(dbUser.id, 10),
+      ])
+    : [[], []];
+
   let hasPastDueSubscription = false;
   let pastDueCreatorName: string | undefined;
 
@@ -198,6 +230,34 @@ export default async function HomePage() {
             </p>
           </div>
 
+          {/* Continue watching */}
+          <ContinueWatchingRail items={continueWatching} />
+
+          {/* Picked for you (from the onboarding quiz) */}
+          {recommendedCreators.length > 0 && (
+            <section className="mb-10" aria-labelledby="picked-for-you">
+              <div className="flex items-baseline justify-between mb-4">
+                <h2
+                  id="picked-for-you"
+                  className="text-lg font-semibold text-foreground"
+                >
+                  Picked for you
+                </h2>
+                <Link
+                  href="/onboarding"
+                  className="text-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline"
+                >
+                  Retake quiz
+                </Link>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {recommendedCreators.slice(0, 3).map((creator) => (
+                  <CreatorCard key={creator.id} {...creator} />
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Feed */}
           <Suspense fallback={<FeedSkeleton />}>
             <HomeFeed />
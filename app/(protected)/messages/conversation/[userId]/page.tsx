@@ -5,8 +5,17 @@ import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 
 import { prisma } from "@/lib/prisma";
+import { toMessageAttachmentInfo } from "@/lib/message-attachments";
+import { publishToUser } from "@/lib/realtime";
+import { dmPolicyCreatorSelect, getDmPolicyDecision } from "@/lib/dm-policy";
+import {
+  getBlockStatus,
+  getBlockedReason,
+  isConversationMuted,
+} from "@/lib/message-safety";
 import { SkipLink } from "@/components/ui/skip-link";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ConversationMenu } from "@/components/messages";
 import { ConversationThreadClient } from "./conversation-thread-client";
 
 interface PageProps {
@@ -72,13 +81,7 @@ export default async function ConversationPage({ params }: PageProps) {
     where: { id: partnerUserId },
     include: {
       creatorProfile: {
-        select: {
-          id: true,
-          handle: true,
-          displayName: true,
-          avatarUrl: true,
-          dmEnabled: true,
-        },
+        select: { ...dmPolicyCreatorSelect, handle: true, avatarUrl: true },
       },
     },
   });
@@ -131,6 +134,13 @@ export default async function ConversationPage({ params }: PageProps) {
       },
       data: { isRead: true },
     });
+
+    // Show the read receipt in the sender's open thread
+    await publishToUser(partnerUserId, {
+      type: "message.read",
+      readerId: dbUser.id,
+      messageIds: unreadMessageIds,
+    });
   }
 
   const hasMore = messages.length > limit;
@@ -138,6 +148,9 @@ export default async function ConversationPage({ params }: PageProps) {
 
   // Determine if user can send messages
   let canSendMessage = false;
+  let canSendRequest = false;
+  // Price of a request, null when requests are free
+  let requestPriceCents: number | null = null;
   let dmDisabledReason: string | null = null;
 
   const userIsCreator = !!dbUser.creatorProfile?.id;
@@ -147,32 +160,40 @@ export default async function ConversationPage({ params }: PageProps) {
     // Creator messaging subscriber - can always reply
     canSendMessage = true;
   } else if (!userIsCreator && partnerIsCreator) {
-    // Subscriber messaging creator
-    if (!partner.creatorProfile!.dmEnabled) {
-      canSendMessage = false;
-      dmDisabledReason = "This creator has disabled direct messages";
-    } else {
-      const subscription = await prisma.subscription.findFirst({
-        where: {
-          userId: dbUser.id,
-          creatorId: partner.creatorProfile!.id,
-          status: { in: ["active", "trialing"] },
-        },
-      });
-      if (subscription) {
-        canSendMessage = true;
-      } else {
-        canSendMessage = false;
-        dmDisabledReason = "Subscribe to send messages";
-      }
+    // Subscriber or follower messaging creator
+    const decision = await getDmPolicyDecision(
+      dbUser.id,
+      partner.creatorProfile!,
+    );
+    canSendMessage = decision.status === "allowed";
+    canSendRequest = decision.status === "request";
+    if (decision.status === "request") {
+      requestPriceCents = decision.priceCents;
+    }
+    if (decision.status === "denied") {
+      dmDisabledReason = decision.reason;
     }
   }
 
+  const [blockStatus, isMuted] = await Promise.all([
+    getBlockStatus(dbUser.id, partner.id),
+    isConversationMuted(dbUser.id, partner.id),
+  ]);
+
+  // A block in either direction stops messages both ways
+  const blockedReason = getBlockedReason(blockStatus);
+  if (blockedReason) {
+    canSendMessage = false;
+    canSendRequest = false;
+    dmDisabledReason = blockedReason;
+  }
+
   // Format messages for client
   const formattedMessages = items.map((message) => ({
     id: message.id,
     content: message.content,
-    isRead: true, // Already marked as read
+    attachment: toMessageAttachmentInfo(message),
+    isRead: message.isRead || unreadMessageIds.includes(message.id),
     createdAt: message.createdAt.toISOString(),
     isFromMe: message.senderId === dbUser.id,
     sender: {
@@ -257,6 +278,13 @@ export default async function ConversationPage({ params }: PageProps) {
                   </h1>
                 </div>
               )}
+
+              <ConversationMenu
+                partnerId={partnerInfo.id}
+                partnerName={partnerInfo.name}
+                isBlocked={blockStatus.blockedByMe}
+                isMuted={isMuted}
+              />
             </div>
           </div>
         </header>
@@ -272,6 +300,8 @@ export default async function ConversationPage({ params }: PageProps) {
               initialHasMore={hasMore}
               partner={partnerInfo}
               canSendMessage={canSendMessage}
+              canSendRequest={canSendRequest}
+              requestPriceCents={requestPriceCents}
               dmDisabledReason={dmDisabledReason}
             />
           </div>
@@ -14,13 +14,23 @@ import {
   MessageCircle,
   Radio,
 } from "lucide-react";
-import { formatMessageTime, truncateMessage } from "@/lib/validations/message";
+import {
+  formatMessageTime,
+  getAttachmentLabel,
+  truncateMessage,
+} from "@/lib/validations/message";
 import { cn } from "@/lib/utils";
 import { stripHtml } from "@/lib/sanitize";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
+import { MessageAttachment } from "@/components/messages";
+import { ReportButton } from "@/components/content/report-button";
+import type { MessageAttachmentInfo } from "@/lib/message-attachments";
+import type { RealtimeMessage } from "@/lib/realtime";
 
 interface MessageItem {
   id: string;
   content: string;
+  attachment: MessageAttachmentInfo | null;
   isRead: boolean;
   isBroadcast: boolean;
   createdAt: string;
@@ -45,6 +55,7 @@ interface ConversationItem {
   lastMessage: {
     id: string;
     content: string;
+    attachment: MessageAttachmentInfo | null;
     createdAt: string;
     isFromMe: boolean;
   };
@@ -67,6 +78,7 @@ interface MessagesInboxClientProps {
  * - Message list with unread indicators
  * - Mark as read functionality
  * - Pagination
+ * - Live updates for new broadcasts and direct messages
  */
 export function MessagesInboxClient({
   initialBroadcasts,
@@ -88,8 +100,9 @@ export function MessagesInboxClient({
   const [broadcastUnreadCount, setBroadcastUnreadCount] = useState(
     initialBroadcastUnreadCount,
   );
-  const [conversations] = useState<ConversationItem[]>(initialConversations);
-  const [dmUnreadCount] = useState(initialDmUnreadCount);
+  const [conversations, setConversations] =
+    useState<ConversationItem[]>(initialConversations);
+  const [dmUnreadCount, setDmUnreadCount] = useState(initialDmUnreadCount);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -192,6 +205,97 @@ export function MessagesInboxClient({
     }
   }, [broadcastCursor, hasMoreBroadcasts, isLoading]);
 
+  /**
+   * Add a broadcast that arrived over the realtime stream
+   */
+  const addBroadcast = useCallback(
+    (message: RealtimeMessage) => {
+      if (broadcasts.some((msg) => msg.id === message.id)) return;
+
+      setBroadcasts((prev) => [{ ...message, isRead: false }, ...prev]);
+      setBroadcastUnreadCount((prev) => prev + 1);
+    },
+    [broadcasts],
+  );
+
+  /**
+   * Move a conversation to the top when a direct message arrives
+   */
+  const addDirectMessage = useCallback((message: RealtimeMessage) => {
+    setConversations((prev) => {
+      const existing = prev.find(
+        (conv) => conv.partnerId === message.sender.id,
+      );
+      const updated: ConversationItem = {
+        partnerId: message.sender.id,
+        partner: existing?.partner ?? message.sender,
+        lastMessage: {
+          id: message.id,
+          content: message.content,
+          attachment: message.attachment,
+          createdAt: message.createdAt,
+          isFromMe: false,
+        },
+        unreadCount: (existing?.unreadCount ?? 0) + 1,
+      };
+
+      return [
+        updated,
+        ...prev.filter((conv) => conv.partnerId !== message.sender.id),
+      ];
+    });
+    setDmUnreadCount((prev) => prev + 1);
+  }, []);
+
+  /**
+   * Refetch the newest broadcasts and conversations, to catch up after the
+   * realtime stream reconnects
+   */
+  const fetchLatest = useCallback(async () => {
+    try {
+      const [messagesResponse, conversationsResponse] = await Promise.all([
+        fetch("/api/messages"),
+        fetch("/api/messages/conversations"),
+      ]);
+      if (!messagesResponse.ok || !conversationsResponse.ok) {
+        throw new Error("Failed to fetch messages");
+      }
+
+      const [messagesData, conversationsData] = await Promise.all([
+        messagesResponse.json(),
+        conversationsResponse.json(),
+      ]);
+
+      const knownIds = new Set(broadcasts.map((msg) => msg.id));
+      const newBroadcasts = messagesData.items.filter(
+        (item: MessageItem) => item.isBroadcast && !knownIds.has(item.id),
+      );
+
+      setBroadcasts((prev) => [...newBroadcasts, ...prev]);
+      setBroadcastUnreadCount(
+        (prev) =>
+          prev +
+          newBroadcasts.filter((item: MessageItem) => !item.isRead).length,
+      );
+      setConversations(conversationsData.items);
+      setDmUnreadCount(conversationsData.totalUnreadCount);
+    } catch (err) {
+      console.error("Error fetching latest messages:", err);
+    }
+  }, [broadcasts]);
+
+  useRealtimeEvents((event) => {
+    if (event.type === "message.new") {
+      if (event.message.isBroadcast) {
+        addBroadcast(event.message);
+      } else {
+        addDirectMessage(event.message);
+      }
+    } else if (event.type === "reconnected") {
+      fetchLatest();
+    }
+  });
+
   return (
     <div className="space-y-6">
       <Tabs defaultValue="broadcasts" className="w-full">
@@ -432,9 +536,25 @@ function BroadcastCard({
               ) : (
                 <Mail className="size-4 text-primary" />
               )}
+              {/* Keep clicks and keys in the report dialog off the card */}
+              <div
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+              >
+                <ReportButton messageId={message.id} />
+              </div>
             </div>
           </div>
 
+          {/* Attachment - voice note, audio or photo */}
+          {message.attachment && (
+            <MessageAttachment
+              messageId={message.id}
+              attachment={message.attachment}
+              className="mt-2"
+            />
+          )}
+
           {/* Message Content - rendered as HTML since it's sanitized with DOMPurify on storage */}
           <div
             className="mt-2 max-w-none text-sm text-foreground [&_a]:text-primary [&_a]:underline [&_a:hover]:text-primary/80 [&_p]:mb-2 [&_ul]:list-disc [&_ul]:pl-4 [&_ol]:list-decimal [&_ol]:pl-4 [&_li]:mb-1 [&_blockquote]:border-l-2 [&_blockquote]:border-muted-foreground/30 [&_blockquote]:pl-4 [&_blockquote]:italic"
@@ -479,7 +599,10 @@ function ConversationCard({
     .slice(0, 2);
 
   // Strip HTML from preview
-  const previewText = stripHtml(conversation.lastMessage.content);
+  const { attachment } = conversation.lastMessage;
+  const previewText =
+    stripHtml(conversation.lastMessage.content) ||
+    (attachment ? getAttachmentLabel(attachment.type) : "");
   const truncatedPreview = truncateMessage(previewText, 80);
 
   return (
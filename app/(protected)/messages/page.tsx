@@ -5,6 +5,10 @@ import Link from "next/link";
 import { Mail } from "lucide-react";
 
 import { prisma } from "@/lib/prisma";
+import {
+  toMessageAttachmentInfo,
+  type MessageAttachmentInfo,
+} from "@/lib/message-attachments";
 import { Button } from "@/components/ui/button";
 import { SkipLink } from "@/components/ui/skip-link";
 import { MessagesInboxClient } from "./messages-inbox-client";
@@ -113,6 +117,7 @@ export default async function MessagesPage() {
     content: message.content,
     isRead: message.isRead,
     isBroadcast: true,
+    attachment: toMessageAttachmentInfo(message),
     createdAt: message.createdAt.toISOString(),
     sender: {
       id: message.sender.id,
@@ -256,6 +261,7 @@ async function fetchConversations(userId: string, limit: number) {
       lastMessage: {
         id: string;
         content: string;
+        attachment: MessageAttachmentInfo | null;
         createdAt: string;
         isFromMe: boolean;
       };
@@ -289,6 +295,7 @@ async function fetchConversations(userId: string, limit: number) {
       lastMessage: {
         id: message.id,
         content: message.content,
+        attachment: toMessageAttachmentInfo(message),
         createdAt: message.createdAt.toISOString(),
         isFromMe,
       },
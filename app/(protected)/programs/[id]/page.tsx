@@ -0,0 +1,97 @@
+import { Metadata } from "next";
+import { currentUser } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+
+import { prisma } from "@/lib/prisma";
+import { checkProgramAccess } from "@/lib/middleware/subscription-check";
+import { getProgramProgress } from "@/lib/programs";
+import { ProgramProgressClient } from "./program-progress-client";
+
+export const metadata: Metadata = {
+  title: "Program | breathwithmagic",
+  description: "Your progress through a program",
+};
+
+interface ProgramPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * ProgramPage - A subscriber's progress through a program
+ *
+ * Lists the program's items by the day they unlock, counted from when the
+ * subscriber started, with the items they've completed checked off.
+ * Subscribers who haven't started yet can start from here.
+ */
+export default async function ProgramPage({ params }: ProgramPageProps) {
+  const { id } = await params;
+  const user = await currentUser();
+
+  if (!user) {
+    redirect(`/sign-in?redirect_url=/programs/${id}`);
+  }
+
+  const dbUser = await prisma.user.findUnique({
+    where: { clerkId: user.id },
+    select: { id: true },
+  });
+
+  if (!dbUser) {
+    redirect("/sign-in");
+  }
+
+  const program = await prisma.program.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      isFree: true,
+      creatorId: true,
+      publishedAt: true,
+      minTier: { select: { rank: true } },
+      creator: {
+        select: { handle: true, displayName: true, status: true },
+      },
+    },
+  });
+
+  if (!program || !program.publishedAt || program.creator.status !== "active") {
+    notFound();
+  }
+
+  const [hasAccess, progress] = await Promise.all([
+    checkProgramAccess(dbUser.id, program),
+    getProgramProgress(dbUser.id, program.id),
+  ]);
+
+  return (
+    <ProgramProgressClient
+      program={{
+        id: program.id,
+        title: program.title,
+        description: program.description,
+        creator: {
+          handle: program.creator.handle,
+          displayName: program.creator.displayName,
+        },
+      }}
+      hasAccess={hasAccess}
+      enrollment={
+        progress.enrollment && {
+          startedAt: progress.enrollment.startedAt.toISOString(),
+          completedAt: progress.enrollment.completedAt?.toISOString() ?? null,
+        }
+      }
+      items={progress.items.map((item) => ({
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        unlockOffsetDays: item.unlockOffsetDays,
+        unlocksAt: item.unlocksAt?.toISOString() ?? null,
+        isUnlocked: item.isUnlocked,
+        completedAt: item.completedAt?.toISOString() ?? null,
+      }))}
+    />
+  );
+}
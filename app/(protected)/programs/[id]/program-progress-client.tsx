@@ -0,0 +1,285 @@
+"use client";
+
+/**
+ * Program Progress Client Component
+ *
+ * Starting the program, overall progress, and each item by the day it
+ * unlocks. Text items are marked complete by hand; videos and audio are
+ * completed by playing them through.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  FileText,
+  Headphones,
+  Loader2,
+  Lock,
+  Video,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { buttonVariants } from "@/lib/button-variants";
+import { cn } from "@/lib/utils";
+import type { ContentType } from "@/lib/validations/content";
+
+interface ProgramProgressItem {
+  id: string;
+  type: ContentType;
+  title: string;
+  /** Days after starting the program that the item unlocks */
+  unlockOffsetDays: number;
+  /** Null until the program is started */
+  unlocksAt: string | null;
+  isUnlocked: boolean;
+  completedAt: string | null;
+}
+
+interface ProgramProgressClientProps {
+  program: {
+    id: string;
+    title: string;
+    description: string | null;
+    creator: { handle: string; displayName: string };
+  };
+  /** Whether the user can start the program */
+  hasAccess: boolean;
+  enrollment: { startedAt: string; completedAt: string | null } | null;
+  items: ProgramProgressItem[];
+}
+
+const TYPE_ICONS: Record<ContentType, typeof Video> = {
+  video: Video,
+  audio: Headphones,
+  text: FileText,
+};
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export function ProgramProgressClient({
+  program,
+  hasAccess,
+  enrollment,
+  items,
+}: ProgramProgressClientProps) {
+  const router = useRouter();
+  const [isStarting, setIsStarting] = useState(false);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+
+  const completedCount = items.filter((item) => item.completedAt).length;
+  const percentComplete =
+    items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0;
+
+  /**
+   * Start the program, which starts the unlock schedule
+   */
+  const handleStart = async () => {
+    setIsStarting(true);
+
+    try {
+      const response = await fetch(`/api/programs/${program.id}/enrollment`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to start program");
+      }
+
+      toast.success("Program started", {
+        description: "New items unlock as the days go by.",
+      });
+      router.refresh();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not start program", { description: message });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  /**
+   * Mark a text item complete
+   */
+  const handleComplete = async (contentId: string) => {
+    setCompletingId(contentId);
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/view`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ completed: true }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to mark complete");
+      }
+
+      router.refresh();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not mark complete", { description: message });
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-2xl px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href={`/${program.creator.handle}`}
+          className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-2 text-sm transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {program.creator.displayName}
+        </Link>
+
+        <h1 className="text-foreground text-2xl font-semibold">
+          {program.title}
+        </h1>
+        {program.description && (
+          <p className="text-muted-foreground mt-1">{program.description}</p>
+        )}
+      </div>
+
+      {/* Start or progress */}
+      <div className="mb-8 rounded-xl border border-border bg-card p-6">
+        {enrollment ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-foreground font-medium">
+                {completedCount} of {items.length} complete
+              </span>
+              <span className="text-muted-foreground">
+                {enrollment.completedAt
+                  ? `Finished ${formatDate(enrollment.completedAt)}`
+                  : `Started ${formatDate(enrollment.startedAt)}`}
+              </span>
+            </div>
+            <Progress value={percentComplete} aria-label="Program progress" />
+          </div>
+        ) : hasAccess ? (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Start when you&apos;re ready. Each day&apos;s practice unlocks
+              on its day, counted from when you start.
+            </p>
+            <Button
+              onClick={handleStart}
+              disabled={isStarting}
+              className="min-h-[44px]"
+            >
+              {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start program
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Subscribe to {program.creator.displayName} to start this
+              program.
+            </p>
+            <Link
+              href={`/${program.creator.handle}`}
+              className={cn(buttonVariants(), "min-h-[44px]")}
+            >
+              View membership options
+            </Link>
+          </div>
+        )}
+      </div>
+
+      {/* Items by unlock day */}
+      {items.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">
+          Nothing has been added to this program yet.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {items.map((item) => {
+            const Icon = TYPE_ICONS[item.type];
+            const canOpen = hasAccess && item.isUnlocked;
+
+            return (
+              <li
+                key={item.id}
+                className="flex items-center gap-3 rounded-lg border border-border bg-card p-3"
+              >
+                {item.completedAt ? (
+                  <CheckCircle2
+                    className="size-5 shrink-0 text-primary"
+                    aria-label="Complete"
+                  />
+                ) : canOpen ? (
+                  <Circle
+                    className="text-muted-foreground size-5 shrink-0"
+                    aria-label="Not complete"
+                  />
+                ) : (
+                  <Lock
+                    className="text-muted-foreground size-5 shrink-0"
+                    aria-label="Locked"
+                  />
+                )}
+
+                <div className="min-w-0 flex-1">
+                  <p className="text-muted-foreground text-xs font-medium uppercase">
+                    Day {item.unlockOffsetDays + 1}
+                  </p>
+                  {canOpen ? (
+                    <Link
+                      href={`/${program.creator.handle}/post/${item.id}`}
+                      className="text-foreground block truncate font-medium hover:underline"
+                    >
+                      {item.title}
+                    </Link>
+                  ) : (
+                    <p className="text-foreground truncate font-medium">
+                      {item.title}
+                    </p>
+                  )}
+                  <p className="text-muted-foreground flex items-center gap-1 text-sm">
+                    <Icon className="size-3.5" />
+                    <span className="capitalize">{item.type}</span>
+                    {!item.isUnlocked && item.unlocksAt && (
+                      <span>&middot; Unlocks {formatDate(item.unlocksAt)}</span>
+                    )}
+                  </p>
+                </div>
+
+                {canOpen && item.type === "text" && !item.completedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleComplete(item.id)}
+                    disabled={completingId === item.id}
+                  >
+                    {completingId === item.id && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Mark complete
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+/**
+ * Notification Schedule Card Component
+ *
+ * Digest mode, quiet hours and time zone, saved separately from the
+ * channel matrix.
+ */
+
+import { useState, useSyncExternalStore } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  DIGEST_HOUR,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  type DigestModeOption,
+  type NotificationScheduleSettings,
+} from "@/lib/validations/notification";
+
+interface NotificationScheduleCardProps {
+  initialSchedule: NotificationScheduleSettings;
+}
+
+const digestModeItems: { value: DigestModeOption; label: string }[] = [
+  { value: "immediate", label: "As it's published" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest (Mondays)" },
+];
+
+// Quiet hours suggested when they're turned on: 10pm to 7am
+const DEFAULT_QUIET_HOURS = { start: 22 * 60, end: 7 * 60 };
+
+const subscribeToNothing = () => () => {};
+
+/**
+ * The browser's time zone, or null while rendering on the server
+ */
+function useBrowserTimeZone(): string | null {
+  return useSyncExternalStore(
+    subscribeToNothing,
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    () => null,
+  );
+}
+
+export function NotificationScheduleCard({
+  initialSchedule,
+}: NotificationScheduleCardProps) {
+  const browserTimeZone = useBrowserTimeZone();
+  const [digestMode, setDigestMode] = useState(initialSchedule.digestMode);
+  const [quietHours, setQuietHours] = useState(initialSchedule.quietHours);
+  const [savedTimeZone, setSavedTimeZone] = useState(
+    initialSchedule.timeZone,
+  );
+  const [selectedTimeZone, setSelectedTimeZone] = useState<string | null>(
+    null,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  // Suggest the browser's time zone until the user saves one
+  const timeZone =
+    selectedTimeZone ?? savedTimeZone ?? browserTimeZone ?? "UTC";
+
+  const timeZoneItems = [
+    ...new Set([timeZone, ...Intl.supportedValuesOf("timeZone")]),
+  ].map((zone) => ({ value: zone, label: zone.replaceAll("_", " ") }));
+
+  const handleQuietHoursChange = (key: "start" | "end", value: string) => {
+    const minutes = parseTimeOfDay(value);
+    if (minutes === null || !quietHours) return;
+
+    setQuietHours({ ...quietHours, [key]: minutes });
+    setHasChanges(true);
+  };
+
+  /**
+   * Save the schedule to the server
+   */
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/user/notification-schedule", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ digestMode, quietHours, timeZone }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save schedule");
+      }
+
+      toast.success("Notification schedule saved", {
+        description:
+          digestMode === "immediate"
+            ? "New content will be sent as it's published."
+            : "New content will be sent in your digest.",
+      });
+
+      setSavedTimeZone(timeZone);
+      setSelectedTimeZone(null);
+      setHasChanges(false);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not save schedule", {
+        description: message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const quietHoursInvalid =
+    quietHours !== null && quietHours.start === quietHours.end;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Schedule</CardTitle>
+        <CardDescription>
+          Choose when new content reaches you, and when to keep things quiet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Digest mode */}
+        <div className="space-y-2">
+          <Label htmlFor="digest-mode">New content</Label>
+          <Select
+            items={digestModeItems}
+            value={digestMode}
+            onValueChange={(v) => {
+              if (!v) return;
+              setDigestMode(v as DigestModeOption);
+              setHasChanges(true);
+            }}
+          >
+            <SelectTrigger id="digest-mode" className="min-h-[44px] w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {digestModeItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-muted-foreground text-sm">
+            Digests bundle new posts into one notification and one email,
+            sent after {formatTimeOfDay(DIGEST_HOUR * 60)} your time.
+          </p>
+        </div>
+
+        {/* Quiet hours */}
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label
+                htmlFor="quiet-hours"
+                className="text-foreground cursor-pointer text-base font-medium"
+              >
+                Quiet hours
+              </Label>
+              <p className="text-muted-foreground text-sm">
+                No push notifications, and new content waits until quiet
+                hours end.
+              </p>
+            </div>
+            <Switch
+              id="quiet-hours"
+              checked={quietHours !== null}
+              onCheckedChange={(checked) => {
+                setQuietHours(checked ? DEFAULT_QUIET_HOURS : null);
+                setHasChanges(true);
+              }}
+              aria-label="Toggle quiet hours"
+            />
+          </div>
+
+          {quietHours && (
+            <div className="flex items-center gap-2 text-sm">
+              <Label htmlFor="quiet-hours-start" className="font-normal">
+                From
+              </Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={formatTimeOfDay(quietHours.start)}
+                onChange={(e) =>
+                  handleQuietHoursChange("start", e.target.value)
+                }
+                className="min-h-[44px] w-32"
+                aria-invalid={quietHoursInvalid}
+              />
+              <Label htmlFor="quiet-hours-end" className="font-normal">
+                to
+              </Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={formatTimeOfDay(quietHours.end)}
+                onChange={(e) => handleQuietHoursChange("end", e.target.value)}
+                className="min-h-[44px] w-32"
+                aria-invalid={quietHoursInvalid}
+              />
+            </div>
+          )}
+          {quietHoursInvalid && (
+            <p className="text-sm text-destructive" role="alert">
+              Quiet hours must start and end at different times.
+            </p>
+          )}
+        </div>
+
+        {/* Time zone */}
+        <div className="space-y-2">
+          <Label htmlFor="time-zone">Time zone</Label>
+          <Select
+            items={timeZoneItems}
+            value={timeZone}
+            onValueChange={(v) => {
+              if (!v) return;
+              setSelectedTimeZone(v);
+              setHasChanges(true);
+            }}
+          >
+            <SelectTrigger id="time-zone" className="min-h-[44px] w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZoneItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={
+            (!hasChanges && savedTimeZone !== null) ||
+            isSaving ||
+            quietHoursInvalid
+          }
+          className="min-w-[120px]"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save schedule"
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,425 @@
+"use client";
+
+/**
+ * Notification Settings Client Component
+ *
+ * A matrix of notification types against delivery channels, saved
+ * together, a switch for push notifications on this device, and the
+ * user's digest and quiet hours schedule.
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, BellRing, Loader2 } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import {
+  notificationTypeInfo,
+  type NotificationChannel,
+  type NotificationPreferenceRow,
+  type NotificationScheduleSettings,
+} from "@/lib/validations/notification";
+import { NotificationScheduleCard } from "./notification-schedule-card";
+
+interface NotificationSettingsClientProps {
+  initialPreferences: NotificationPreferenceRow[];
+  initialSchedule: NotificationScheduleSettings;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: "In-app",
+  email: "Email",
+  push: "Push",
+};
+
+const CHANNELS = Object.keys(CHANNEL_LABELS) as NotificationChannel[];
+
+/**
+ * Push on this device:
+ * - unsupported: the browser can't receive web push
+ * - unavailable: web push isn't set up for the site
+ * - blocked: the user denied notification permission
+ */
+type PushState =
+  | "loading"
+  | "unsupported"
+  | "unavailable"
+  | "blocked"
+  | "off"
+  | "on";
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+export function NotificationSettingsClient({
+  initialPreferences,
+  initialSchedule,
+}: NotificationSettingsClientProps) {
+  const router = useRouter();
+  const [preferences, setPreferences] =
+    useState<NotificationPreferenceRow[]>(initialPreferences);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  /**
+   * Handle toggle change for one type's channel
+   */
+  const handleToggle = (
+    type: NotificationPreferenceRow["type"],
+    channel: NotificationChannel,
+    checked: boolean,
+  ) => {
+    setPreferences((prev) =>
+      prev.map((pref) =>
+        pref.type === type ? { ...pref, [channel]: checked } : pref,
+      ),
+    );
+    setHasChanges(true);
+  };
+
+  /**
+   * Save preferences to the server
+   */
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/user/notification-preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          preferences: preferences.map(({ type, inApp, email, push }) => ({
+            type,
+            inApp,
+            push,
+            ...(email !== null && { email }),
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save preferences");
+      }
+
+      toast.success("Notification settings saved", {
+        description: "You'll be notified the way you chose.",
+      });
+
+      setHasChanges(false);
+      router.refresh();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not save preferences", {
+        description: message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-2xl px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href="/settings"
+          className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-2 text-sm transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to settings
+        </Link>
+
+        <h1 className="text-foreground text-2xl font-semibold">
+          Notifications
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Choose how you hear about activity on breathwithmagic.
+        </p>
+      </div>
+
+      <PushDeviceCard />
+
+      <NotificationScheduleCard initialSchedule={initialSchedule} />
+
+      {/* Preference matrix */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Delivery</CardTitle>
+          <CardDescription>
+            Turn each channel on or off for every type of notification.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th scope="col" className="pb-3 font-medium">
+                  <span className="sr-only">Notification</span>
+                </th>
+                {CHANNELS.map((channel) => (
+                  <th
+                    key={channel}
+                    scope="col"
+                    className="w-16 pb-3 text-center font-medium"
+                  >
+                    {CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preferences.map((pref) => {
+                const info = notificationTypeInfo[pref.type];
+                return (
+                  <tr key={pref.type} className="border-t">
+                    <th scope="row" className="py-3 pr-4 text-left">
+                      <span className="text-foreground block font-medium">
+                        {info.label}
+                      </span>
+                      <span className="text-muted-foreground block font-normal">
+                        {info.description}
+                      </span>
+                    </th>
+                    {CHANNELS.map((channel) => {
+                      const checked = pref[channel];
+                      return (
+                        <td key={channel} className="py-3 text-center">
+                          {checked === null ? (
+                            <span
+                              className="text-muted-foreground"
+                              aria-label={`${info.label} doesn't send emails`}
+                            >
+                              &mdash;
+                            </span>
+                          ) : (
+                            <Switch
+                              checked={checked}
+                              onCheckedChange={(value) =>
+                                handleToggle(pref.type, channel, value)
+                              }
+                              aria-label={`${info.label}: ${CHANNEL_LABELS[channel]}`}
+                            />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Actions */}
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={!hasChanges || isSaving}
+          className="min-w-[120px]"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save preferences"
+          )}
+        </Button>
+      </div>
+
+      {/* Help text */}
+      <p className="text-muted-foreground mt-8 text-center text-sm">
+        Email settings are shared with your{" "}
+        <Link
+          href="/settings/email-preferences"
+          className="text-primary hover:underline"
+        >
+          email preferences
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Push Device Card Component
+ *
+ * Registers the service worker and subscribes this browser to push, or
+ * removes its subscription.
+ */
+function PushDeviceCard() {
+  const [state, setState] = useState<PushState>("loading");
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const checkSubscription = async () => {
+      if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+        setState("unsupported");
+        return;
+      }
+      if (!VAPID_PUBLIC_KEY) {
+        setState("unavailable");
+        return;
+      }
+      if (Notification.permission === "denied") {
+        setState("blocked");
+        return;
+      }
+
+      try {
+        const registration = await navigator.serviceWorker.getRegistration();
+        const subscription = await registration?.pushManager.getSubscription();
+        setState(subscription ? "on" : "off");
+      } catch (error) {
+        console.error("Error checking push subscription:", error);
+        setState("off");
+      }
+    };
+
+    checkSubscription();
+  }, []);
+
+  /**
+   * Subscribe this browser to push
+   */
+  const enablePush = async () => {
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      setState(permission === "denied" ? "blocked" : "off");
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.register("/sw.js");
+    await navigator.serviceWorker.ready;
+
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: VAPID_PUBLIC_KEY,
+    });
+
+    const response = await fetch("/api/user/push-subscriptions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+
+    if (!response.ok) {
+      await subscription.unsubscribe();
+      const error = await response.json();
+      throw new Error(error.error || "Failed to turn on push notifications");
+    }
+
+    setState("on");
+    toast.success("Push notifications turned on", {
+      description: "This device will receive push notifications.",
+    });
+  };
+
+  /**
+   * Remove this browser's push subscription
+   */
+  const disablePush = async () => {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+
+    if (subscription) {
+      const response = await fetch("/api/user/push-subscriptions", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to turn off push notifications");
+      }
+
+      await subscription.unsubscribe();
+    }
+
+    setState("off");
+    toast.success("Push notifications turned off", {
+      description: "This device won't receive push notifications.",
+    });
+  };
+
+  const handleToggle = async (checked: boolean) => {
+    setIsUpdating(true);
+
+    try {
+      if (checked) {
+        await enablePush();
+      } else {
+        await disablePush();
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not update push notifications", {
+        description: message,
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const description: Record<PushState, string> = {
+    loading: "Checking this device...",
+    unsupported: "This browser doesn't support push notifications.",
+    unavailable: "Push notifications aren't available right now.",
+    blocked:
+      "Notifications are blocked for this site. Allow them in your browser settings to turn on push.",
+    off: "Get push notifications on this device, even when the site is closed.",
+    on: "This device receives push notifications.",
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="flex items-start justify-between gap-4 py-4">
+        <div className="flex gap-3">
+          <div className="bg-muted text-muted-foreground flex h-10 w-10 shrink-0 items-center justify-center rounded-lg">
+            <BellRing className="h-5 w-5" />
+          </div>
+          <div className="space-y-1">
+            <Label
+              htmlFor="push-device"
+              className="text-foreground cursor-pointer text-base font-medium"
+            >
+              Push on this device
+            </Label>
+            <p className="text-muted-foreground text-sm">
+              {description[state]}
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="push-device"
+          checked={state === "on"}
+          disabled={isUpdating || (state !== "on" && state !== "off")}
+          onCheckedChange={handleToggle}
+          aria-label="Toggle push notifications on this device"
+        />
+      </CardContent>
+    </Card>
+  );
+}
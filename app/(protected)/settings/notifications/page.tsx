@@ -0,0 +1,49 @@
+/**
+ * Notification Settings Page
+ *
+ * Lets users choose how they hear about each type of notification:
+ * in-app, by email and by push, and when: immediately or in a digest,
+ * outside their quiet hours.
+ *
+ * PRD Requirements:
+ * - Per-channel toggles for each notification type
+ * - Email toggles share the user's email preferences
+ * - Push can be turned on or off for the current device
+ * - Daily or weekly digests of new content, and quiet hours in the
+ *   user's time zone
+ */
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getNotificationPreferences } from "@/lib/notifications";
+import { getNotificationScheduleSettings } from "@/lib/notification-schedule";
+import { NotificationSettingsClient } from "./notification-settings-client";
+
+export default async function NotificationSettingsPage() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    redirect("/sign-in");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId },
+    select: { id: true },
+  });
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const [preferences, schedule] = await Promise.all([
+    getNotificationPreferences(user.id),
+    getNotificationScheduleSettings(user.id),
+  ]);
+
+  return (
+    <NotificationSettingsClient
+      initialPreferences={preferences}
+      initialSchedule={schedule}
+    />
+  );
+}
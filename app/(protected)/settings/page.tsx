@@ -6,7 +6,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import Link from "next/link";
-import { Mail, ChevronRight } from "lucide-react";
+import { Bell, Mail, ChevronRight } from "lucide-react";
 import { Card, CardContent, CardDescription, CardTitle } from "@/components/ui/card";
 
 /**
@@ -19,6 +19,12 @@ const SETTINGS_ITEMS = [
     title: "Email Preferences",
     description: "Choose which emails you receive from breathwithmagic",
   },
+  {
+    href: "/settings/notifications",
+    icon: Bell,
+    title: "Notifications",
+    description: "Choose how you're notified: in-app, by email or by push",
+  },
   // Future settings pages can be added here:
   // {
   //   href: "/settings/profile",
@@ -27,12 +33,6 @@ const SETTINGS_ITEMS = [
   //   description: "Update your name, avatar, and profile information",
   // },
   // {
-  //   href: "/settings/notifications",
-  //   icon: Bell,
-  //   title: "Notifications",
-  //   description: "Manage in-app notification preferences",
-  // },
-  // {
   //   href: "/settings/privacy",
   //   icon: Shield,
   //   title: "Privacy & Security",
@@ -4,6 +4,12 @@ import { redirect } from "next/navigation";
 import Link from "next/link";
 
 import { prisma } from "@/lib/prisma";
+import { getCurrentPriceForInterval } from "@/lib/pricing";
+import {
+  joinableTiersArgs,
+  tierSummarySelect,
+  toTierOptions,
+} from "@/lib/tiers";
 import { Button } from "@/components/ui/button";
 import { SubscriptionsClient } from "./subscriptions-client";
 import { BillingPortalButton } from "./billing-portal-button";
@@ -53,8 +59,12 @@ export default async function SubscriptionsPage() {
           avatarUrl: true,
           category: true,
           subscriptionPrice: true,
+          customPriceCents: true,
+          annualDiscountPercent: true,
+          membershipTiers: joinableTiersArgs,
         },
       },
+      tier: { select: tierSummarySelect },
     },
   });
 
@@ -63,16 +73,31 @@ export default async function SubscriptionsPage() {
     id: sub.id,
     status: sub.status,
     priceAtPurchase: sub.priceAtPurchase,
+    billingInterval: sub.billingInterval,
     currentPeriodStart: sub.currentPeriodStart?.toISOString() || null,
     currentPeriodEnd: sub.currentPeriodEnd?.toISOString() || null,
     cancelAtPeriodEnd: sub.cancelAtPeriodEnd,
+    pausedUntil: sub.pausedUntil?.toISOString() || null,
+    isGift: !!sub.giftId,
+    tier: sub.tier
+      ? { id: sub.tier.id, name: sub.tier.name, rank: sub.tier.rank }
+      : null,
     creator: {
       id: sub.creator.id,
       handle: sub.creator.handle,
       displayName: sub.creator.displayName,
       avatarUrl: sub.creator.avatarUrl,
       category: sub.creator.category,
-      currentPrice: sub.creator.subscriptionPrice,
+      currentPriceCents: getCurrentPriceForInterval(
+        sub.creator,
+        sub.tier,
+        sub.billingInterval,
+      ),
+      tiers: toTierOptions(
+        sub.creator.membershipTiers,
+        sub.creator.annualDiscountPercent,
+        sub.billingInterval,
+      ),
     },
   }));
 
@@ -2,7 +2,8 @@
 
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import type { CreatorCategory, SubscriptionPriceTier } from "@prisma/client";
+import type { BillingInterval, CreatorCategory } from "@prisma/client";
+import type { TierOption } from "@/lib/tiers";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -15,18 +16,23 @@ import {
  */
 interface Subscription {
   id: string;
-  status: "active" | "trialing" | "past_due" | "canceled";
+  status: "active" | "trialing" | "past_due" | "canceled" | "paused";
   priceAtPurchase: number;
+  billingInterval: BillingInterval;
   currentPeriodStart: string | null;
   currentPeriodEnd: string | null;
   cancelAtPeriodEnd: boolean;
+  pausedUntil: string | null;
+  isGift: boolean;
+  tier: { id: string; name: string; rank: number } | null;
   creator: {
     id: string;
     handle: string;
     displayName: string;
     avatarUrl: string | null;
     category: CreatorCategory;
-    currentPrice: SubscriptionPriceTier;
+    currentPriceCents: number | null;
+    tiers: TierOption[];
   };
 }
 
@@ -54,7 +60,7 @@ export function SubscriptionsClient({
   const [subscriptions, setSubscriptions] =
     useState<Subscription[]>(initialSubscriptions);
   const [filter, setFilter] = useState<
-    "all" | "active" | "trialing" | "past_due" | "canceled"
+    "all" | "active" | "trialing" | "past_due" | "canceled" | "paused"
   >("all");
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [cursor, setCursor] = useState<string | null>(
@@ -131,6 +137,7 @@ export function SubscriptionsClient({
     ).length,
     trialing: subscriptions.filter((s) => s.status === "trialing").length,
     past_due: subscriptions.filter((s) => s.status === "past_due").length,
+    paused: subscriptions.filter((s) => s.status === "paused").length,
     canceled: subscriptions.filter((s) => s.status === "canceled").length,
   };
 
@@ -170,6 +177,15 @@ export function SubscriptionsClient({
             Past due
           </FilterButton>
         )}
+        {counts.paused > 0 && (
+          <FilterButton
+            active={filter === "paused"}
+            onClick={() => setFilter("paused")}
+            count={counts.paused}
+          >
+            Paused
+          </FilterButton>
+        )}
         {counts.canceled > 0 && (
           <FilterButton
             active={filter === "canceled"}
@@ -204,9 +220,13 @@ export function SubscriptionsClient({
               id={subscription.id}
               status={subscription.status}
               priceAtPurchase={subscription.priceAtPurchase}
+              billingInterval={subscription.billingInterval}
               currentPeriodStart={subscription.currentPeriodStart}
               currentPeriodEnd={subscription.currentPeriodEnd}
               cancelAtPeriodEnd={subscription.cancelAtPeriodEnd}
+              pausedUntil={subscription.pausedUntil}
+              tier={subscription.tier}
+              isGift={subscription.isGift}
               creator={subscription.creator}
               onUpdate={handleUpdate}
             />
@@ -28,6 +28,8 @@ interface ContentItem {
   duration?: number | null;
   isFree: boolean;
   publishedAt: Date | null;
+  /** Per-item access, accounting for tier requirements */
+  hasAccess?: boolean;
 }
 
 interface CreatorContentFeedProps {
@@ -145,7 +147,7 @@ export function CreatorContentFeed({
             type={item.type}
             duration={item.duration}
             isFree={item.isFree}
-            hasAccess={hasAccess || item.isFree}
+            hasAccess={item.hasAccess ?? (hasAccess || item.isFree)}
             publishedAt={item.publishedAt}
           />
         ))}
@@ -1,20 +1,31 @@
 "use client";
 
 import { useCallback, useState, useTransition } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Heart, Check, Loader2, UserMinus } from "lucide-react";
+import { Heart, Check, Loader2, MessageCircle, UserMinus } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import { buttonVariants } from "@/lib/button-variants";
 import { cn } from "@/lib/utils";
+import { startSubscriptionCheckout } from "./subscribe-plan-options";
 
 interface CreatorProfileActionsProps {
   creatorId: string;
   creatorHandle: string;
   price: string;
-  trialEnabled: boolean;
+  /** Free trial length in days, 0 for no trial */
+  trialDays: number;
+  /** Promo code from the profile URL, already checked by the page */
+  promoCode?: string;
   isAuthenticated: boolean;
   isSubscribed: boolean;
   isFollowing: boolean;
+  /**
+   * The creator's user ID when the viewer may be able to message them,
+   * directly or with a message request; null hides the Message button
+   */
+  messageUserId: string | null;
 }
 
 /**
@@ -27,10 +38,12 @@ export function CreatorProfileActions({
   creatorId,
   creatorHandle,
   price,
-  trialEnabled,
+  trialDays,
+  promoCode,
   isAuthenticated,
   isSubscribed: initialIsSubscribed,
   isFollowing: initialIsFollowing,
+  messageUserId,
 }: CreatorProfileActionsProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -73,19 +86,29 @@ export function CreatorProfileActions({
   }, [isAuthenticated, isFollowing, creatorId, creatorHandle, router]);
 
   /**
-   * Handle subscribe click
+   * Handle subscribe click (monthly plan; annual is offered in the CTA card)
    */
-  const handleSubscribe = useCallback(() => {
+  const handleSubscribe = useCallback(async () => {
     if (!isAuthenticated) {
       // Redirect to sign up with return URL
       router.push(`/sign-up?redirect_url=/${creatorHandle}`);
       return;
     }
 
-    // Set loading state and navigate to subscribe endpoint
+    // Set loading state and redirect to Stripe Checkout
     setIsSubscribing(true);
-    router.push(`/api/creators/${creatorId}/subscribe`);
-  }, [isAuthenticated, creatorId, creatorHandle, router]);
+    try {
+      window.location.href = await startSubscriptionCheckout(
+        creatorId,
+        "month",
+        undefined,
+        promoCode,
+      );
+    } catch (error) {
+      console.error("Subscribe error:", error);
+      setIsSubscribing(false);
+    }
+  }, [isAuthenticated, creatorId, creatorHandle, promoCode, router]);
 
   return (
     <div className="flex items-center gap-3">
@@ -141,9 +164,9 @@ export function CreatorProfileActions({
         >
           {isSubscribing ? (
             <Loader2 className="size-4 animate-spin" />
-          ) : trialEnabled ? (
+          ) : trialDays > 0 ? (
             <>
-              <span>Start 7-day trial</span>
+              <span>Start {trialDays}-day trial</span>
               <span className="text-xs opacity-80 font-normal">
                 then {price}/month
               </span>
@@ -154,6 +177,18 @@ export function CreatorProfileActions({
         </Button>
       )}
 
+      {/* Message Button - the thread explains what the DM policy allows */}
+      {messageUserId && (
+        <Link
+          href={`/messages/conversation/${messageUserId}`}
+          className={buttonVariants({ variant: "outline", size: "icon" })}
+          aria-label="Message"
+          title="Send a message"
+        >
+          <MessageCircle className="size-4" />
+        </Link>
+      )}
+
       {/* Subscribed Badge */}
       {initialIsSubscribed && (
         <Button
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Gift, Loader2 } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { formatPriceCents } from "@/lib/pricing";
+import { GIFT_MONTH_OPTIONS } from "@/lib/validations/gift";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from "@/components/ui/dialog";
+
+interface GiftTierOption {
+  id: string;
+  name: string;
+  priceCents: number;
+}
+
+interface GiftMembershipDialogProps {
+  creatorId: string;
+  creatorHandle: string;
+  creatorName: string;
+  /** Creator's monthly price, used when the creator has no tiers */
+  monthlyPriceCents: number;
+  /** Joinable tiers, lowest first */
+  tiers: GiftTierOption[];
+  isAuthenticated: boolean;
+}
+
+/**
+ * GiftMembershipDialog - Buy a prepaid membership for someone else
+ *
+ * The buyer pays once through Stripe Checkout and gets a code to share.
+ * Gifts cost the monthly price times the number of months.
+ */
+export function GiftMembershipDialog({
+  creatorId,
+  creatorHandle,
+  creatorName,
+  monthlyPriceCents,
+  tiers,
+  isAuthenticated,
+}: GiftMembershipDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [months, setMonths] = useState<number>(GIFT_MONTH_OPTIONS[1]);
+  const [tierId, setTierId] = useState<string | null>(tiers[0]?.id ?? null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTier = tiers.find((tier) => tier.id === tierId);
+  const totalCents =
+    (selectedTier?.priceCents ?? monthlyPriceCents) * months;
+
+  async function handleCheckout() {
+    if (!isAuthenticated) {
+      router.push(`/sign-in?redirect_url=/${creatorHandle}`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/gifts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          creatorId,
+          months,
+          tierId: selectedTier?.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || "Unable to start checkout");
+      }
+
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger
+        render={<Button variant="ghost" className="min-h-[44px] gap-2" />}
+      >
+        <Gift className="size-4" />
+        Gift a membership
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Gift {creatorName}</DialogTitle>
+          <DialogDescription>
+            Pay once and get a code to share. The membership starts when
+            it&apos;s redeemed and doesn&apos;t renew.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div
+            role="radiogroup"
+            aria-label="Gift length"
+            className="grid grid-cols-4 gap-2"
+          >
+            {GIFT_MONTH_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={months === option}
+                disabled={isLoading}
+                onClick={() => setMonths(option)}
+                className={cn(
+                  "rounded-lg border p-3 text-center text-sm transition-colors",
+                  months === option
+                    ? "border-primary bg-primary/5 font-medium"
+                    : "border-border hover:bg-muted/50",
+                )}
+              >
+                {option} mo
+              </button>
+            ))}
+          </div>
+
+          {tiers.length > 1 && (
+            <div
+              role="radiogroup"
+              aria-label="Membership tier"
+              className="space-y-2"
+            >
+              {tiers.map((tier) => (
+                <button
+                  key={tier.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={tier.id === tierId}
+                  disabled={isLoading}
+                  onClick={() => setTierId(tier.id)}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-lg border p-3 text-left text-sm transition-colors",
+                    tier.id === tierId
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:bg-muted/50",
+                  )}
+                >
+                  <span className="font-medium text-foreground">
+                    {tier.name}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatPriceCents(tier.priceCents)}/month
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            Total:{" "}
+            <span className="font-medium text-foreground">
+              {formatPriceCents(totalCents)}
+            </span>{" "}
+            for {months} month{months === 1 ? "" : "s"}
+            {selectedTier && ` of ${selectedTier.name}`}
+          </p>
+
+          {error && (
+            <div
+              className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose
+            render={<Button variant="outline" disabled={isLoading} />}
+          >
+            Cancel
+          </DialogClose>
+          <Button onClick={handleCheckout} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              "Continue to payment"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,14 @@ import { notFound } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
-import { CheckCircle2, Users, Video, Calendar, Heart } from "lucide-react";
+import {
+  CheckCircle2,
+  Users,
+  Video,
+  Calendar,
+  Heart,
+  Tag,
+} from "lucide-react";
 
 import { prisma } from "@/lib/prisma";
 import { cn, formatCount } from "@/lib/utils";
@@ -12,7 +19,23 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { buttonVariants } from "@/lib/button-variants";
 import { SkipLink } from "@/components/ui/skip-link";
+import {
+  describePromoOffer,
+  formatPriceCents,
+  getCreatorPricing,
+  getTierPriceForInterval,
+} from "@/lib/pricing";
+import { findPromoCode } from "@/lib/promo-codes";
+import {
+  getRequiredTierRank,
+  joinableTiersArgs,
+  requiredTierSelect,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 import { CreatorProfileActions } from "./creator-profile-actions";
+import { SubscribePlanOptions } from "./subscribe-plan-options";
+import { PromoCodeForm } from "./promo-code-form";
+import { GiftMembershipDialog } from "./gift-membership-dialog";
 import {
   CreatorContentFeed,
   CreatorContentFeedSkeleton,
@@ -27,25 +50,20 @@ import {
  * - Subscription price and trial info
  * - Follow button (for logged-in users)
  * - Subscribe button with price
+ * - Promo codes via ?promo=CODE and gift memberships
  * - Content preview: 2-3 free posts, blurred thumbnails for paid
  * - Content count
  */
 
 interface CreatorProfilePageProps {
   params: Promise<{ creatorHandle: string }>;
-  searchParams: Promise<{ subscribed?: string }>;
+  searchParams: Promise<{
+    subscribed?: string;
+    promo?: string;
+    gift?: string;
+  }>;
 }
 
-/**
- * Price tier display values
- */
-const PRICE_DISPLAY: Record<string, { amount: string; cents: number }> = {
-  TIER_500: { amount: "$5", cents: 500 },
-  TIER_1000: { amount: "$10", cents: 1000 },
-  TIER_2000: { amount: "$20", cents: 2000 },
-  TIER_3000: { amount: "$30", cents: 3000 },
-};
-
 /**
  * Category display labels
  */
@@ -171,7 +189,8 @@ export default async function CreatorProfilePage(
 ) {
   const { creatorHandle } = await props.params;
   const searchParams = await props.searchParams;
-  const justSubscribed = searchParams?.subscribed === "true";
+  const justSubscribed =
+    searchParams?.subscribed === "true" || searchParams?.gift === "redeemed";
 
   // Fetch creator data
   const creator = await prisma.creatorProfile.findFirst({
@@ -189,10 +208,16 @@ export default async function CreatorProfilePage(
       coverImageUrl: true,
       category: true,
       subscriptionPrice: true,
+      customPriceCents: true,
+      annualDiscountPercent: true,
       trialEnabled: true,
+      trialDays: true,
+      userId: true,
       dmEnabled: true,
+      dmFollowerRequests: true,
       isVerified: true,
       createdAt: true,
+      membershipTiers: joinableTiersArgs,
       _count: {
         select: {
           subscriptions: {
@@ -214,17 +239,34 @@ export default async function CreatorProfilePage(
   // Check if user is authenticated
   const { userId } = await auth();
 
+  // Promo code from a shared link or the promo code form
+  const promoResult = searchParams?.promo
+    ? await findPromoCode(creator.id, searchParams.promo)
+    : null;
+  const promoCode =
+    promoResult?.promoCode && !promoResult.unavailableReason
+      ? promoResult.promoCode
+      : null;
+
+  // A promo code's trial replaces the creator's default trial
+  const trialDays =
+    promoCode?.trialDays ?? (creator.trialEnabled ? creator.trialDays : 0);
+
   // Check subscription and follow status if authenticated
   let isSubscribed = false;
+  let isOwner = false;
+  let tierRank = UNTIERED_RANK;
   let isFollowing = false;
 
   if (userId) {
     const user = await prisma.user.findUnique({
       where: { clerkId: userId },
-      select: { id: true },
+      select: { id: true, creatorProfile: { select: { id: true } } },
     });
 
     if (user) {
+      isOwner = user.creatorProfile?.id === creator.id;
+
       const [subscription, follow] = await Promise.all([
         prisma.subscription.findFirst({
           where: {
@@ -232,6 +274,7 @@ export default async function CreatorProfilePage(
             creatorId: creator.id,
             status: { in: ["active", "trialing"] },
           },
+          select: { tier: { select: { rank: true } } },
         }),
         prisma.follow.findFirst({
           where: {
@@ -242,10 +285,19 @@ export default async function CreatorProfilePage(
       ]);
 
       isSubscribed = !!subscription;
+      tierRank = subscription?.tier?.rank ?? UNTIERED_RANK;
       isFollowing = !!follow;
     }
   }
 
+  // Subscribers can message, and followers can send a message request
+  const messageUserId =
+    creator.dmEnabled &&
+    !isOwner &&
+    (isSubscribed || (isFollowing && creator.dmFollowerRequests))
+      ? creator.userId
+      : null;
+
   // Fetch first content for welcome banner CTA (only if just subscribed)
   let firstContent: { id: string } | null = null;
   if (justSubscribed) {
@@ -259,7 +311,26 @@ export default async function CreatorProfilePage(
     });
   }
 
-  const price = PRICE_DISPLAY[creator.subscriptionPrice];
+  const pricing = getCreatorPricing(creator);
+  const annualPrice =
+    pricing.annualCents !== null ? formatPriceCents(pricing.annualCents) : null;
+
+  // Creators with tiers sell tiers; the header button joins the lowest one
+  const tiers = creator.membershipTiers.map((tier) => {
+    const annualCents = getTierPriceForInterval(
+      tier,
+      creator.annualDiscountPercent,
+      "year",
+    );
+    return {
+      ...tier,
+      monthlyPrice: formatPriceCents(tier.priceCents),
+      annualPrice: annualCents !== null ? formatPriceCents(annualCents) : null,
+    };
+  });
+  const price = {
+    amount: tiers[0]?.monthlyPrice ?? formatPriceCents(pricing.monthlyCents),
+  };
   const initials = creator.displayName
     .split(" ")
     .map((n) => n[0])
@@ -361,10 +432,12 @@ export default async function CreatorProfilePage(
                   creatorId={creator.id}
                   creatorHandle={creator.handle}
                   price={price.amount}
-                  trialEnabled={creator.trialEnabled}
+                  trialDays={trialDays}
+                  promoCode={promoCode?.code}
                   isAuthenticated={!!userId}
                   isSubscribed={isSubscribed}
                   isFollowing={isFollowing}
+                  messageUserId={messageUserId}
                 />
               </div>
             </div>
@@ -376,10 +449,12 @@ export default async function CreatorProfilePage(
               creatorId={creator.id}
               creatorHandle={creator.handle}
               price={price.amount}
-              trialEnabled={creator.trialEnabled}
+              trialDays={trialDays}
+              promoCode={promoCode?.code}
               isAuthenticated={!!userId}
               isSubscribed={isSubscribed}
               isFollowing={isFollowing}
+              messageUserId={messageUserId}
             />
           </div>
 
@@ -427,21 +502,125 @@ export default async function CreatorProfilePage(
             </div>
           )}
 
+          {/* Promo Code Banner */}
+          {!isSubscribed && promoResult && (
+            <div
+              className={cn(
+                "mb-6 flex items-start gap-3 rounded-xl border p-4 max-w-lg",
+                promoCode
+                  ? "bg-primary/10 border-primary/30"
+                  : "bg-destructive/10 border-destructive/20",
+              )}
+              role={promoCode ? undefined : "alert"}
+            >
+              <Tag
+                className={cn(
+                  "size-5 shrink-0 mt-0.5",
+                  promoCode ? "text-primary" : "text-destructive",
+                )}
+              />
+              {promoCode ? (
+                <p className="text-sm text-foreground">
+                  <span className="font-mono font-medium">
+                    {promoCode.code}
+                  </span>{" "}
+                  applied: {describePromoOffer(promoCode)}
+                </p>
+              ) : (
+                <p className="text-sm text-destructive">
+                  {promoResult.unavailableReason}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Promo code and gift options */}
+          {!isOwner && (
+            <div className="mb-6 flex flex-wrap items-center gap-4">
+              {!isSubscribed && !promoCode && (
+                <PromoCodeForm creatorHandle={creator.handle} />
+              )}
+              <GiftMembershipDialog
+                creatorId={creator.id}
+                creatorHandle={creator.handle}
+                creatorName={creator.displayName}
+                monthlyPriceCents={pricing.monthlyCents}
+                tiers={creator.membershipTiers}
+                isAuthenticated={!!userId}
+              />
+            </div>
+          )}
+
+          {/* Membership Tier Cards */}
+          {!isSubscribed && tiers.length > 0 && (
+            <div className="mb-10">
+              <h3 className="font-semibold text-foreground mb-1">
+                Choose a membership
+              </h3>
+              <p className="text-muted-foreground text-sm mb-4">
+                {trialDays > 0
+                  ? `Every tier starts with ${trialDays} days free. Cancel anytime.`
+                  : "Higher tiers unlock more content. Cancel anytime."}
+              </p>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {tiers.map((tier) => (
+                  <div
+                    key={tier.id}
+                    className="flex flex-col p-6 rounded-xl bg-muted/50 border border-border"
+                  >
+                    <h4 className="font-semibold text-foreground">
+                      {tier.name}
+                    </h4>
+                    <p className="text-muted-foreground text-sm mb-3">
+                      {tier.monthlyPrice}/month
+                      {tier.annualPrice && ` or ${tier.annualPrice}/year`}
+                    </p>
+                    {tier.description && (
+                      <p className="text-sm text-foreground whitespace-pre-wrap mb-4">
+                        {tier.description}
+                      </p>
+                    )}
+                    <div className="mt-auto">
+                      <SubscribePlanOptions
+                        creatorId={creator.id}
+                        creatorHandle={creator.handle}
+                        tierId={tier.id}
+                        monthlyPrice={tier.monthlyPrice}
+                        annualPrice={tier.annualPrice}
+                        annualDiscountPercent={pricing.annualDiscountPercent}
+                        trialDays={trialDays}
+                        promoCode={promoCode?.code}
+                        isAuthenticated={!!userId}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Subscription CTA Card */}
-          {!isSubscribed && (
+          {!isSubscribed && tiers.length === 0 && (
             <div className="mb-10 p-6 rounded-xl bg-muted/50 border border-border max-w-lg">
               <h3 className="font-semibold text-foreground mb-2">
                 Subscribe for {price.amount}/month
               </h3>
-              {creator.trialEnabled ? (
+              {trialDays > 0 ? (
                 <p className="text-muted-foreground text-sm mb-4">
-                  7 days free, then {price.amount}/month unless you cancel
+                  {trialDays} days free, then {price.amount}/month unless you
+                  cancel
                 </p>
               ) : (
                 <p className="text-muted-foreground text-sm mb-4">
                   Get full access to all content
                 </p>
               )}
+              {annualPrice && (
+                <p className="text-muted-foreground text-sm -mt-2 mb-4">
+                  Or pay {annualPrice}/year and save{" "}
+                  {pricing.annualDiscountPercent}%
+                </p>
+              )}
               <ul className="space-y-2 mb-4 text-sm">
                 <li className="flex items-center gap-2 text-muted-foreground">
                   <CheckCircle2 className="size-4 text-primary" />
@@ -463,18 +642,16 @@ export default async function CreatorProfilePage(
                   </Link>
                 </li>
               </ul>
-              <Link
-                href={
-                  userId
-                    ? `/api/creators/${creator.id}/subscribe`
-                    : `/sign-up?redirect_url=/${creator.handle}`
-                }
-                className={cn(buttonVariants(), "w-full min-h-[44px]")}
-              >
-                {creator.trialEnabled
-                  ? "Start free trial"
-                  : `Subscribe for ${price.amount}/month`}
-              </Link>
+              <SubscribePlanOptions
+                creatorId={creator.id}
+                creatorHandle={creator.handle}
+                monthlyPrice={price.amount}
+                annualPrice={annualPrice}
+                annualDiscountPercent={pricing.annualDiscountPercent}
+                trialDays={trialDays}
+                promoCode={promoCode?.code}
+                isAuthenticated={!!userId}
+              />
             </div>
           )}
 
@@ -488,6 +665,7 @@ export default async function CreatorProfilePage(
                 creatorId={creator.id}
                 creatorHandle={creator.handle}
                 hasAccess={isSubscribed}
+                tierRank={tierRank}
               />
             </Suspense>
           </section>
@@ -504,10 +682,12 @@ async function ContentGridWithPagination({
   creatorId,
   creatorHandle,
   hasAccess,
+  tierRank,
 }: {
   creatorId: string;
   creatorHandle: string;
   hasAccess: boolean;
+  tierRank: number;
 }) {
   const INITIAL_LIMIT = 12;
 
@@ -526,6 +706,7 @@ async function ContentGridWithPagination({
       duration: true,
       isFree: true,
       publishedAt: true,
+      ...requiredTierSelect,
     },
     orderBy: [{ publishedAt: "desc" }],
     take: INITIAL_LIMIT + 1,
@@ -541,7 +722,14 @@ async function ContentGridWithPagination({
 
   // Determine if there are more results
   const hasMore = content.length > INITIAL_LIMIT;
-  const items = hasMore ? content.slice(0, INITIAL_LIMIT) : content;
+  const items = (hasMore ? content.slice(0, INITIAL_LIMIT) : content).map(
+    ({ minTier, program, ...item }) => ({
+      ...item,
+      hasAccess:
+        item.isFree ||
+        (hasAccess && tierRank >= getRequiredTierRank({ minTier, program })),
+    }),
+  );
   const nextCursor = hasMore ? items[items.length - 1].id : null;
 
   return (
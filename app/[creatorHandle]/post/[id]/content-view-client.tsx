@@ -7,7 +7,8 @@
  * - Secure video player for video content (with signed URLs)
  * - Secure audio player for audio content (with signed URLs)
  * - Text display for text posts
- * - Paywall overlay for non-subscribers
+ * - Paywall overlay for non-subscribers (with pay-per-view option)
+ * - Unlock date for program items that haven't unlocked yet
  *
  * Security:
  * - Uses SecureVideoPlayer/SecureAudioPlayer for paid content
@@ -19,7 +20,12 @@
 
 import dynamic from "next/dynamic";
 import { FileText } from "lucide-react";
-import { PaywallOverlay } from "@/components/content/paywall-overlay";
+import {
+  PaywallOverlay,
+  type PaywallProgramLock,
+  type PaywallPurchaseOption,
+  type PaywallTierRequirement,
+} from "@/components/content/paywall-overlay";
 import { Skeleton } from "@/components/ui/skeleton";
 
 // Lazy load secure video player for better performance
@@ -59,7 +65,12 @@ interface ContentViewClientProps {
   creatorHandle: string;
   creatorName: string;
   price: string;
-  trialEnabled: boolean;
+  /** Free trial length in days, 0 for no trial */
+  trialDays: number;
+  purchase?: PaywallPurchaseOption | null;
+  requiredTier?: PaywallTierRequirement | null;
+  needsUpgrade?: boolean;
+  programLock?: PaywallProgramLock | null;
   initialPosition?: number;
 }
 
@@ -76,7 +87,11 @@ export function ContentViewClient({
   creatorHandle,
   creatorName,
   price,
-  trialEnabled,
+  trialDays,
+  purchase,
+  requiredTier,
+  needsUpgrade,
+  programLock,
   initialPosition = 0,
 }: ContentViewClientProps) {
   // If no access, show paywall
@@ -86,9 +101,13 @@ export function ContentViewClient({
         thumbnailUrl={thumbnailUrl}
         creatorHandle={creatorHandle}
         price={price}
-        trialEnabled={trialEnabled}
+        trialDays={trialDays}
         isAuthenticated={isAuthenticated}
         contentTitle={title}
+        purchase={purchase}
+        requiredTier={requiredTier}
+        needsUpgrade={needsUpgrade}
+        programLock={programLock}
       />
     );
   }
@@ -15,6 +15,14 @@ import {
 } from "lucide-react";
 
 import { prisma } from "@/lib/prisma";
+import { formatPriceCents, getPriceDisplay } from "@/lib/pricing";
+import {
+  checkContentAccess,
+  checkSubscriptionStatus,
+} from "@/lib/middleware/subscription-check";
+import { getProgramItemLock } from "@/lib/programs";
+import { getRequiredTierRank } from "@/lib/tiers";
+import { getResumePosition } from "@/lib/watch-progress";
 import { cn } from "@/lib/utils";
 import { buttonVariants } from "@/lib/button-variants";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -31,23 +39,15 @@ import { ContentViewClient } from "./content-view-client";
  * - Audio player for audio content
  * - Text display for text posts
  * - Related content suggestions
- * - Paywall overlay for non-subscribers
+ * - Paywall overlay for non-subscribers, with a one-time purchase option
+ *   when the content or its program is sold individually
+ * - Unlock date for program items that haven't unlocked yet
  */
 
 interface ContentPageProps {
   params: Promise<{ creatorHandle: string; id: string }>;
 }
 
-/**
- * Price tier display values
- */
-const PRICE_DISPLAY: Record<string, { amount: string; cents: number }> = {
-  TIER_500: { amount: "$5", cents: 500 },
-  TIER_1000: { amount: "$10", cents: 1000 },
-  TIER_2000: { amount: "$20", cents: 2000 },
-  TIER_3000: { amount: "$30", cents: 3000 },
-};
-
 /**
  * Category display labels
  */
@@ -255,7 +255,9 @@ export default async function ContentPage({ params }: ContentPageProps) {
           avatarUrl: true,
           category: true,
           subscriptionPrice: true,
+          customPriceCents: true,
           trialEnabled: true,
+          trialDays: true,
           dmEnabled: true,
           isVerified: true,
           status: true,
@@ -265,8 +267,11 @@ export default async function ContentPage({ params }: ContentPageProps) {
         select: {
           id: true,
           title: true,
+          priceCents: true,
+          minTier: { select: { name: true, rank: true, priceCents: true } },
         },
       },
+      minTier: { select: { name: true, rank: true, priceCents: true } },
     },
   });
 
@@ -283,10 +288,16 @@ export default async function ContentPage({ params }: ContentPageProps) {
   // Check if user is authenticated
   const { userId: clerkId } = await auth();
 
-  // Determine access level
-  let hasAccess = content.isFree;
+  // The stricter of the content's and its program's tier applies
+  const programTier = content.program?.minTier ?? null;
+  const requiredTier =
+    programTier && (!content.minTier || programTier.rank > content.minTier.rank)
+      ? programTier
+      : content.minTier;
+
   let isSubscribed = false;
   let watchProgress = 0;
+  let userId: string | undefined;
 
   if (clerkId) {
     const user = await prisma.user.findUnique({
@@ -295,34 +306,72 @@ export default async function ContentPage({ params }: ContentPageProps) {
     });
 
     if (user) {
-      // Check subscription status
-      const subscription = await prisma.subscription.findFirst({
-        where: {
-          userId: user.id,
-          creatorId: content.creatorId,
-          status: { in: ["active", "trialing"] },
-        },
-      });
-      isSubscribed = !!subscription;
-
-      // Get watch progress if user has access
-      hasAccess = content.isFree || isSubscribed;
-
-      if (hasAccess) {
-        const view = await prisma.contentView.findFirst({
-          where: {
-            userId: user.id,
-            contentId: content.id,
-          },
-          orderBy: { createdAt: "desc" },
-          select: { watchDuration: true },
-        });
-        watchProgress = view?.watchDuration || 0;
-      }
+      userId = user.id;
+
+      // Paused subscribers, including those whose scheduled pause has
+      // started, aren't subscribed until the subscription resumes
+      const subscription = await checkSubscriptionStatus(
+        user.id,
+        content.creatorId,
+      );
+      isSubscribed = subscription.hasAccess;
     }
   }
 
-  const price = PRICE_DISPLAY[content.creator.subscriptionPrice];
+  // Determine access level: subscription tier, purchases, and program
+  // unlock schedules all apply
+  const access = await checkContentAccess({
+    contentId: content.id,
+    userId,
+    content: {
+      id: content.id,
+      isFree: content.isFree,
+      creatorId: content.creatorId,
+      status: content.status,
+      requiredTierRank: getRequiredTierRank(content),
+      programId: content.programId,
+      unlockOffsetDays: content.unlockOffsetDays,
+    },
+  });
+  const hasAccess = access.hasAccess;
+  const needsUpgrade = access.reason === "insufficient_tier";
+  // Signed-out visitors see free program items as locked until they sign
+  // in and start the program
+  const programLock =
+    access.programLock ??
+    (!userId && content.isFree
+      ? await getProgramItemLock(undefined, content)
+      : null);
+
+  // Get watch progress if user has access
+  if (userId && hasAccess) {
+    const view = await prisma.contentView.findFirst({
+      where: {
+        userId,
+        contentId: content.id,
+      },
+      orderBy: { createdAt: "desc" },
+      select: { position: true, watchDuration: true, completedAt: true },
+    });
+    watchProgress = getResumePosition(view, content.duration);
+  }
+
+  const price = getPriceDisplay(content.creator);
+  const trialDays = content.creator.trialEnabled
+    ? content.creator.trialDays
+    : 0;
+
+  // Offer the content itself, or else its program, for one-time purchase
+  const purchase =
+    content.priceCents !== null
+      ? { contentId: content.id, price: formatPriceCents(content.priceCents) }
+      : content.program && content.program.priceCents !== null
+        ? {
+            programId: content.program.id,
+            programTitle: content.program.title,
+            price: formatPriceCents(content.program.priceCents),
+          }
+        : null;
   const creatorInitials = content.creator.displayName
     .split(" ")
     .map((n) => n[0])
@@ -376,7 +425,23 @@ export default async function ContentPage({ params }: ContentPageProps) {
               creatorHandle={content.creator.handle}
               creatorName={content.creator.displayName}
               price={price.amount}
-              trialEnabled={content.creator.trialEnabled}
+              trialDays={trialDays}
+              purchase={purchase}
+              requiredTier={
+                requiredTier && {
+                  name: requiredTier.name,
+                  price: formatPriceCents(requiredTier.priceCents),
+                }
+              }
+              needsUpgrade={needsUpgrade}
+              programLock={
+                programLock &&
+                content.program && {
+                  programId: content.program.id,
+                  programTitle: content.program.title,
+                  unlocksAt: programLock.unlocksAt?.toISOString() ?? null,
+                }
+              }
               initialPosition={watchProgress}
             />
 
@@ -421,7 +486,7 @@ export default async function ContentPage({ params }: ContentPageProps) {
                 <p className="text-sm text-muted-foreground mb-4">
                   Part of{" "}
                   <Link
-                    href={`/${creatorHandle}?program=${content.program.id}`}
+                    href={`/programs/${content.program.id}`}
                     className="text-primary hover:underline"
                   >
                     {content.program.title}
@@ -489,13 +554,13 @@ export default async function ContentPage({ params }: ContentPageProps) {
                     }
                     className={cn(buttonVariants(), "w-full")}
                   >
-                    {content.creator.trialEnabled
+                    {trialDays > 0
                       ? "Start free trial"
                       : `Subscribe ${price.amount}/month`}
                   </Link>
-                  {content.creator.trialEnabled && (
+                  {trialDays > 0 && (
                     <p className="text-xs text-muted-foreground text-center mt-2">
-                      7 days free, then {price.amount}/month
+                      {trialDays} days free, then {price.amount}/month
                     </p>
                   )}
                 </div>
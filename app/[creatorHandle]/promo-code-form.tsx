@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Tag } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface PromoCodeFormProps {
+  creatorHandle: string;
+}
+
+/**
+ * PromoCodeForm - Apply a creator promo code to the profile's subscribe
+ * buttons
+ *
+ * The code goes in the ?promo= query param, the same as a shared promo
+ * link, and the page checks it server-side.
+ */
+export function PromoCodeForm({ creatorHandle }: PromoCodeFormProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [code, setCode] = useState("");
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Tag className="size-3.5" />
+        Have a promo code?
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="flex max-w-xs gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const trimmed = code.trim();
+        if (!trimmed) return;
+        router.push(
+          `/${creatorHandle}?promo=${encodeURIComponent(trimmed)}`,
+        );
+      }}
+    >
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+        placeholder="Promo code"
+        aria-label="Promo code"
+        maxLength={30}
+        className="font-mono"
+        autoFocus
+      />
+      <Button type="submit" variant="outline" disabled={!code.trim()}>
+        Apply
+      </Button>
+    </form>
+  );
+}
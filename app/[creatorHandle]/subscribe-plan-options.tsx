@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { formatTrialLabel } from "@/lib/pricing";
+import type { BillingInterval } from "@/lib/validations/subscription";
+
+/**
+ * Start Stripe Checkout for a creator subscription
+ * Without a tierId, creators with tiers start members on their lowest tier.
+ * A promo code is checked again by the subscribe route before it applies.
+ *
+ * @returns The checkout URL, or throws with the API's error message
+ */
+export async function startSubscriptionCheckout(
+  creatorId: string,
+  interval: BillingInterval,
+  tierId?: string,
+  promoCode?: string,
+): Promise<string> {
+  const response = await fetch(`/api/creators/${creatorId}/subscribe`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ interval, tierId, promoCode }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.url) {
+    throw new Error(data.error || "Unable to start subscription");
+  }
+
+  return data.url;
+}
+
+interface SubscribePlanOptionsProps {
+  creatorId: string;
+  creatorHandle: string;
+  /** Membership tier to join, for creators with tiers */
+  tierId?: string;
+  /** Formatted monthly price, e.g. "$10" */
+  monthlyPrice: string;
+  /** Formatted annual price, or null if the creator has no annual plan */
+  annualPrice: string | null;
+  annualDiscountPercent: number | null;
+  /** Free trial length in days, 0 for no trial */
+  trialDays: number;
+  /** Promo code from the profile URL, already checked by the page */
+  promoCode?: string;
+  isAuthenticated: boolean;
+}
+
+/**
+ * SubscribePlanOptions - Monthly/annual subscribe buttons for the profile CTA
+ */
+export function SubscribePlanOptions({
+  creatorId,
+  creatorHandle,
+  tierId,
+  monthlyPrice,
+  annualPrice,
+  annualDiscountPercent,
+  trialDays,
+  promoCode,
+  isAuthenticated,
+}: SubscribePlanOptionsProps) {
+  const router = useRouter();
+  const [pendingInterval, setPendingInterval] =
+    useState<BillingInterval | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubscribe = async (interval: BillingInterval) => {
+    if (!isAuthenticated) {
+      router.push(`/sign-up?redirect_url=/${creatorHandle}`);
+      return;
+    }
+
+    setPendingInterval(interval);
+    setError(null);
+
+    try {
+      window.location.href = await startSubscriptionCheckout(
+        creatorId,
+        interval,
+        tierId,
+        promoCode,
+      );
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Unable to start subscription",
+      );
+      setPendingInterval(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        onClick={() => handleSubscribe("month")}
+        disabled={pendingInterval !== null}
+        className="w-full min-h-[44px]"
+      >
+        {pendingInterval === "month" ? (
+          <Loader2 className="size-4 animate-spin" />
+        ) : trialDays > 0 ? (
+          `Start ${formatTrialLabel(trialDays)}`
+        ) : (
+          `Subscribe for ${monthlyPrice}/month`
+        )}
+      </Button>
+
+      {annualPrice && (
+        <Button
+          variant="outline"
+          onClick={() => handleSubscribe("year")}
+          disabled={pendingInterval !== null}
+          className="w-full min-h-[44px] border-primary/40"
+        >
+          {pendingInterval === "year" ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <>
+              {annualPrice}/year
+              {annualDiscountPercent !== null && (
+                <span className="ml-1.5 text-xs font-normal text-primary">
+                  Save {annualDiscountPercent}%
+                </span>
+              )}
+            </>
+          )}
+        </Button>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+/**
+ * Creator Admin Actions Client Component
+ *
+ * Suspend/reinstate, verify and feature buttons for the admin creator
+ * detail page. Suspending asks for a reason, which the creator sees.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type {
+  CreatorAdminActionType,
+  CreatorStatus,
+} from "@/lib/validations/admin-creator";
+
+interface CreatorAdminActionsProps {
+  creatorId: string;
+  displayName: string;
+  status: CreatorStatus;
+  isVerified: boolean;
+  isFeatured: boolean;
+  activeSubscriberCount: number;
+}
+
+export function CreatorAdminActions({
+  creatorId,
+  displayName,
+  status,
+  isVerified,
+  isFeatured,
+  activeSubscriberCount,
+}: CreatorAdminActionsProps) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] =
+    useState<CreatorAdminActionType | null>(null);
+  const [suspendDialogOpen, setSuspendDialogOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const takeAction = async (
+    action: CreatorAdminActionType,
+    actionReason?: string
+  ) => {
+    setPendingAction(action);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/admin/creators/${creatorId}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason: actionReason || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to take action");
+      }
+
+      if (data.failedSubscriptionIds.length > 0) {
+        setNotice(
+          `Billing couldn't be updated for ${data.failedSubscriptionIds.length} subscription(s). Run the action again to retry.`
+        );
+      } else if (action === "suspend" || action === "reinstate") {
+        setNotice(`Notified ${data.notifiedCount} subscriber(s).`);
+      }
+
+      setSuspendDialogOpen(false);
+      setReason("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to take action");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const isBusy = pendingAction !== null;
+
+  return (
+    <div className="space-y-2 lg:text-right">
+      <div className="flex flex-wrap gap-2 lg:justify-end">
+        <Button
+          variant="outline"
+          onClick={() => takeAction(isVerified ? "unverify" : "verify")}
+          disabled={isBusy}
+          className="min-h-[44px]"
+        >
+          {pendingAction === "verify" || pendingAction === "unverify" ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : isVerified ? (
+            "Remove verification"
+          ) : (
+            "Verify"
+          )}
+        </Button>
+
+        <Button
+          variant="outline"
+          onClick={() => takeAction(isFeatured ? "unfeature" : "feature")}
+          disabled={isBusy}
+          className="min-h-[44px]"
+        >
+          {pendingAction === "feature" || pendingAction === "unfeature" ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : isFeatured ? (
+            "Unfeature"
+          ) : (
+            "Feature"
+          )}
+        </Button>
+
+        {status === "suspended" ? (
+          <Button
+            onClick={() => takeAction("reinstate")}
+            disabled={isBusy}
+            className="min-h-[44px]"
+          >
+            {pendingAction === "reinstate" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Reinstate"
+            )}
+          </Button>
+        ) : status !== "deactivated" ? (
+          <Dialog open={suspendDialogOpen} onOpenChange={setSuspendDialogOpen}>
+            <DialogTrigger
+              render={
+                <Button
+                  variant="destructive"
+                  disabled={isBusy}
+                  className="min-h-[44px]"
+                />
+              }
+            >
+              Suspend
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Suspend {displayName}?</DialogTitle>
+                <DialogDescription>
+                  Their profile and content will be hidden from feeds and
+                  search, billing will be paused for {activeSubscriberCount}{" "}
+                  active subscriber(s), and subscribers will be notified.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2 py-4">
+                <label htmlFor="suspendReason" className="text-sm font-medium">
+                  Reason (required, shown to the creator)
+                </label>
+                <Textarea
+                  id="suspendReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Explain why this creator is being suspended..."
+                  className="min-h-[80px]"
+                  maxLength={1000}
+                />
+              </div>
+
+              {error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setSuspendDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => takeAction("suspend", reason)}
+                  disabled={!reason.trim() || isBusy}
+                >
+                  {pendingAction === "suspend" ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Suspending...
+                    </>
+                  ) : (
+                    "Suspend creator"
+                  )}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        ) : null}
+      </div>
+
+      {error && !suspendDialogOpen && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+    </div>
+  );
+}
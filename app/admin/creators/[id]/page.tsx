@@ -0,0 +1,252 @@
+/**
+ * Admin Creator Detail Page
+ *
+ * Account, revenue and report history for a single creator, with actions
+ * to suspend, reinstate, verify and feature them.
+ */
+
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft, BadgeCheck, Star } from "lucide-react";
+import { getAdminStatus } from "@/lib/middleware/admin-check";
+import { getAdminCreatorDetail } from "@/lib/admin-creators";
+import { formatPriceCents } from "@/lib/pricing";
+import { Badge } from "@/components/ui/badge";
+import {
+  getCreatorAdminActionLabel,
+  getCreatorStatusLabel,
+  getCreatorStatusVariant,
+} from "@/lib/validations/admin-creator";
+import {
+  getReportReasonLabel,
+  getReportStatusLabel,
+  getReportStatusVariant,
+} from "@/lib/validations/report";
+import { CreatorAdminActions } from "./creator-admin-actions";
+
+export const metadata = {
+  title: "Creator | Admin | breathwithmagic",
+  description: "Manage a creator account",
+};
+
+interface AdminCreatorPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AdminCreatorPage({
+  params,
+}: AdminCreatorPageProps) {
+  // Check admin access
+  const adminStatus = await getAdminStatus();
+
+  if (!adminStatus.isAdmin) {
+    redirect("/home");
+  }
+
+  const { id } = await params;
+  const creator = await getAdminCreatorDetail(id);
+
+  if (!creator) {
+    notFound();
+  }
+
+  const { stats, revenue, reportCounts } = creator;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Skip link for accessibility */}
+      <a
+        href="#main-content"
+        className="sr-only focus:not-sr-only focus:absolute focus:z-50 focus:p-4 focus:bg-background focus:text-foreground"
+      >
+        Skip to main content
+      </a>
+
+      <main id="main-content" className="container max-w-6xl py-8 space-y-8">
+        <Link
+          href="/admin/creators"
+          className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          All creators
+        </Link>
+
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+          <div>
+            <div className="flex flex-wrap items-center gap-2">
+              <h1 className="text-2xl font-semibold text-foreground">
+                {creator.displayName}
+              </h1>
+              {creator.isVerified && (
+                <BadgeCheck
+                  className="h-5 w-5 text-primary"
+                  aria-label="Verified"
+                />
+              )}
+              {creator.isFeatured && (
+                <Star className="h-5 w-5 text-primary" aria-label="Featured" />
+              )}
+              <Badge variant={getCreatorStatusVariant(creator.status)}>
+                {getCreatorStatusLabel(creator.status)}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              <Link
+                href={`/${creator.handle}`}
+                className="hover:underline hover:text-foreground"
+              >
+                @{creator.handle}
+              </Link>{" "}
+              · {creator.user.email} · Joined{" "}
+              {new Date(creator.createdAt).toLocaleDateString()}
+            </p>
+            {creator.status === "suspended" && (
+              <p className="mt-2 text-sm text-destructive">
+                Suspended
+                {creator.suspendedAt &&
+                  ` ${new Date(creator.suspendedAt).toLocaleDateString()}`}
+                {creator.suspensionReason && `: ${creator.suspensionReason}`}
+              </p>
+            )}
+          </div>
+
+          <CreatorAdminActions
+            creatorId={creator.id}
+            displayName={creator.displayName}
+            status={creator.status}
+            isVerified={creator.isVerified}
+            isFeatured={creator.isFeatured}
+            activeSubscriberCount={stats.activeSubscriberCount}
+          />
+        </div>
+
+        {/* Stats and Revenue */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Active subscribers" value={stats.activeSubscriberCount} />
+          <Stat label="MRR" value={formatPriceCents(revenue.mrrCents)} />
+          <Stat label="Published posts" value={stats.publishedContentCount} />
+          <Stat label="Followers" value={stats.followerCount} />
+          <Stat
+            label={`Purchases (${revenue.purchaseCount})`}
+            value={formatPriceCents(revenue.purchaseCents)}
+          />
+          <Stat
+            label={`Gifts (${revenue.giftCount})`}
+            value={formatPriceCents(revenue.giftCents)}
+          />
+          <Stat
+            label={`Refunds (${revenue.refundCount})`}
+            value={formatPriceCents(revenue.refundedCents)}
+          />
+          <Stat label="Disputes" value={revenue.disputeCount} />
+        </div>
+
+        <p className="text-xs text-muted-foreground -mt-4">
+          {stats.pastDueCount} past due · {stats.canceledCount} canceled ·
+          Stripe{" "}
+          {creator.stripeOnboardingComplete
+            ? `connected (${creator.stripeAccountId})`
+            : "onboarding incomplete"}
+        </p>
+
+        {/* Report History */}
+        <section>
+          <h2 className="text-lg font-semibold text-foreground mb-1">
+            Reports
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            {reportCounts.pending} pending · {reportCounts.actionTaken} action
+            taken · {reportCounts.reviewed} reviewed · {reportCounts.dismissed}{" "}
+            dismissed
+          </p>
+          {creator.reports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No reports on this creator&apos;s content.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {creator.reports.map((report) => (
+                <div
+                  key={report.id}
+                  className="bg-card border rounded-lg p-3 text-sm"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium truncate">
+                      {report.content?.title}
+                    </span>
+                    <Badge variant="outline" className="text-xs">
+                      {getReportReasonLabel(report.reason)}
+                    </Badge>
+                    <Badge variant={getReportStatusVariant(report.status)}>
+                      {getReportStatusLabel(report.status)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(report.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {report.description && (
+                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                      &quot;{report.description}&quot;
+                    </p>
+                  )}
+                  {report.reviewNotes && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Review notes: {report.reviewNotes}
+                    </p>
+                  )}
+                </div>
+              ))}
+              {reportCounts.pending > 0 && (
+                <Link
+                  href="/admin/moderation"
+                  className="inline-block text-sm text-primary hover:underline"
+                >
+                  Review pending reports
+                </Link>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* Admin Action History */}
+        <section>
+          <h2 className="text-lg font-semibold text-foreground mb-4">
+            Admin history
+          </h2>
+          {creator.actions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No admin actions yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {creator.actions.map((action) => (
+                <li key={action.id} className="text-sm">
+                  <span className="font-medium">
+                    {getCreatorAdminActionLabel(action.action)}
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    by {action.adminName} on{" "}
+                    {new Date(action.createdAt).toLocaleString()}
+                  </span>
+                  {action.reason && (
+                    <p className="text-muted-foreground">{action.reason}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-card border rounded-lg p-4">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+    </div>
+  );
+}
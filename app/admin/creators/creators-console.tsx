@@ -0,0 +1,373 @@
+"use client";
+
+/**
+ * Creators Console Client Component
+ *
+ * Searchable, filterable list of creator accounts for admins.
+ */
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import {
+  BadgeCheck,
+  ChevronDown,
+  Loader2,
+  Search,
+  Star,
+  Users,
+  CheckCircle,
+  Clock,
+  Ban,
+  Flag,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  type CreatorStatus,
+  getCreatorStatusLabel,
+  getCreatorStatusVariant,
+} from "@/lib/validations/admin-creator";
+import type {
+  AdminCreatorListItem,
+  AdminCreatorListResult,
+} from "@/lib/admin-creators";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type FlagFilter = "ALL" | "true" | "false";
+
+interface CreatorsConsoleProps {
+  initialData: AdminCreatorListResult;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STATUS_ITEMS = [
+  { value: "ALL", label: "All statuses" },
+  { value: "active", label: "Active" },
+  { value: "pending_setup", label: "Pending setup" },
+  { value: "suspended", label: "Suspended" },
+  { value: "deactivated", label: "Deactivated" },
+];
+
+const VERIFIED_ITEMS = [
+  { value: "ALL", label: "Verified or not" },
+  { value: "true", label: "Verified" },
+  { value: "false", label: "Not verified" },
+];
+
+const FEATURED_ITEMS = [
+  { value: "ALL", label: "Featured or not" },
+  { value: "true", label: "Featured" },
+  { value: "false", label: "Not featured" },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function CreatorsConsole({ initialData }: CreatorsConsoleProps) {
+  const [creators, setCreators] = useState<AdminCreatorListItem[]>(
+    initialData.items
+  );
+  const [counts, setCounts] = useState(initialData.counts);
+  const [query, setQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<CreatorStatus | "ALL">(
+    "ALL"
+  );
+  const [verifiedFilter, setVerifiedFilter] = useState<FlagFilter>("ALL");
+  const [featuredFilter, setFeaturedFilter] = useState<FlagFilter>("ALL");
+  const [loading, setLoading] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(initialData.nextCursor);
+
+  const fetchCreators = useCallback(
+    async (
+      filters: {
+        q: string;
+        status: CreatorStatus | "ALL";
+        verified: FlagFilter;
+        featured: FlagFilter;
+      },
+      append: boolean
+    ) => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (filters.q.trim()) params.set("q", filters.q.trim());
+        if (filters.status !== "ALL") params.set("status", filters.status);
+        if (filters.verified !== "ALL") {
+          params.set("verified", filters.verified);
+        }
+        if (filters.featured !== "ALL") {
+          params.set("featured", filters.featured);
+        }
+        if (append && cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/admin/creators?${params}`);
+        if (!response.ok) throw new Error("Failed to load creators");
+
+        const data: AdminCreatorListResult = await response.json();
+        setCreators((prev) => (append ? [...prev, ...data.items] : data.items));
+        setCursor(data.nextCursor);
+        setCounts(data.counts);
+      } catch (error) {
+        console.error("Error loading creators:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [cursor]
+  );
+
+  const currentFilters = {
+    q: query,
+    status: statusFilter,
+    verified: verifiedFilter,
+    featured: featuredFilter,
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Total" value={counts.total} icon={Users} />
+        <StatCard label="Active" value={counts.active} icon={CheckCircle} />
+        <StatCard
+          label="Pending setup"
+          value={counts.pendingSetup}
+          icon={Clock}
+        />
+        <StatCard
+          label="Suspended"
+          value={counts.suspended}
+          icon={Ban}
+          destructive
+        />
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-wrap gap-3">
+        <form
+          className="relative flex-1 min-w-[220px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            fetchCreators(currentFilters, false);
+          }}
+        >
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search handle, name or email"
+            aria-label="Search creators"
+            className="pl-9"
+          />
+        </form>
+
+        <Select
+          items={STATUS_ITEMS}
+          value={statusFilter}
+          onValueChange={(v) => {
+            const status = (v ?? "ALL") as CreatorStatus | "ALL";
+            setStatusFilter(status);
+            fetchCreators({ ...currentFilters, status }, false);
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_ITEMS.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          items={VERIFIED_ITEMS}
+          value={verifiedFilter}
+          onValueChange={(v) => {
+            const verified = (v ?? "ALL") as FlagFilter;
+            setVerifiedFilter(verified);
+            fetchCreators({ ...currentFilters, verified }, false);
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Verified" />
+          </SelectTrigger>
+          <SelectContent>
+            {VERIFIED_ITEMS.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          items={FEATURED_ITEMS}
+          value={featuredFilter}
+          onValueChange={(v) => {
+            const featured = (v ?? "ALL") as FlagFilter;
+            setFeaturedFilter(featured);
+            fetchCreators({ ...currentFilters, featured }, false);
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Featured" />
+          </SelectTrigger>
+          <SelectContent>
+            {FEATURED_ITEMS.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Creators List */}
+      <div className="space-y-3">
+        {creators.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? (
+              <div className="flex flex-col items-center gap-2">
+                <Loader2 className="h-6 w-6 animate-spin" />
+                <p>Loading creators...</p>
+              </div>
+            ) : (
+              <p>No creators found matching your filters.</p>
+            )}
+          </div>
+        ) : (
+          creators.map((creator) => (
+            <CreatorRow key={creator.id} creator={creator} />
+          ))
+        )}
+      </div>
+
+      {/* Load More */}
+      {cursor && (
+        <div className="flex justify-center pt-4">
+          <Button
+            variant="outline"
+            onClick={() => fetchCreators(currentFilters, true)}
+            disabled={loading}
+            className="min-w-[120px]"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Loading...
+              </>
+            ) : (
+              <>
+                Load More
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+function StatCard({
+  label,
+  value,
+  icon: Icon,
+  destructive = false,
+}: {
+  label: string;
+  value: number;
+  icon: typeof Users;
+  destructive?: boolean;
+}) {
+  return (
+    <div className="bg-card border rounded-lg p-4">
+      <div className="flex items-center gap-2">
+        <Icon
+          className={cn(
+            "h-5 w-5",
+            destructive ? "text-destructive" : "text-primary"
+          )}
+        />
+        <span className="text-sm text-muted-foreground">{label}</span>
+      </div>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+    </div>
+  );
+}
+
+function CreatorRow({ creator }: { creator: AdminCreatorListItem }) {
+  return (
+    <Link
+      href={`/admin/creators/${creator.id}`}
+      className="flex items-center gap-4 bg-card border rounded-lg p-4 hover:border-primary/50 transition-colors"
+    >
+      <Avatar className="size-10">
+        {creator.avatarUrl ? (
+          <AvatarImage src={creator.avatarUrl} alt="" />
+        ) : null}
+        <AvatarFallback>
+          {creator.displayName.slice(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm truncate">
+            {creator.displayName}
+          </span>
+          {creator.isVerified && (
+            <BadgeCheck
+              className="h-4 w-4 text-primary"
+              aria-label="Verified"
+            />
+          )}
+          {creator.isFeatured && (
+            <Star className="h-4 w-4 text-primary" aria-label="Featured" />
+          )}
+          <Badge variant={getCreatorStatusVariant(creator.status)}>
+            {getCreatorStatusLabel(creator.status)}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground truncate mt-0.5">
+          @{creator.handle} · {creator.email}
+        </p>
+      </div>
+
+      <div className="hidden sm:flex items-center gap-4 text-xs text-muted-foreground shrink-0">
+        <span>{creator.activeSubscriberCount} subscribers</span>
+        <span>{creator.publishedContentCount} posts</span>
+        {creator.pendingReportCount > 0 && (
+          <span className="flex items-center gap-1 text-destructive">
+            <Flag className="h-3 w-3" />
+            {creator.pendingReportCount} pending
+          </span>
+        )}
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Admin Creators Page
+ *
+ * Search and filter creator accounts, with links to each creator's detail
+ * view for suspension, verification and featuring.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getAdminStatus } from "@/lib/middleware/admin-check";
+import { listAdminCreators } from "@/lib/admin-creators";
+import { CreatorsConsole } from "./creators-console";
+
+export const metadata = {
+  title: "Creators | Admin | breathwithmagic",
+  description: "Manage creator accounts",
+};
+
+export default async function AdminCreatorsPage() {
+  // Check admin access
+  const adminStatus = await getAdminStatus();
+
+  if (!adminStatus.isAdmin) {
+    redirect("/home");
+  }
+
+  const initialData = await listAdminCreators({ limit: 20 });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Skip link for accessibility */}
+      <a
+        href="#main-content"
+        className="sr-only focus:not-sr-only focus:absolute focus:z-50 focus:p-4 focus:bg-background focus:text-foreground"
+      >
+        Skip to main content
+      </a>
+
+      <main id="main-content" className="container max-w-6xl py-8">
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">
+              Creators
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Search creator accounts and manage their status
+            </p>
+          </div>
+          <Link
+            href="/admin/moderation"
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Content moderation
+          </Link>
+        </div>
+
+        <CreatorsConsole initialData={initialData} />
+      </main>
+    </div>
+  );
+}
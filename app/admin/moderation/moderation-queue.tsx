@@ -3,7 +3,8 @@
 /**
  * Moderation Queue Client Component
  *
- * Interactive component for reviewing and acting on content reports.
+ * Interactive component for reviewing and acting on content and message
+ * reports.
  *
  * @see PRD Phase 6, Task 18: Content Moderation
  */
@@ -21,6 +22,7 @@ import {
   Clock,
   ChevronDown,
   Loader2,
+  MessageSquare,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -49,6 +51,7 @@ import {
   getReportStatusLabel,
   getReportStatusVariant,
 } from "@/lib/validations/report";
+import type { ReportedMessageDetails } from "@/lib/message-safety";
 
 // =============================================================================
 // TYPES
@@ -76,7 +79,15 @@ interface Report {
       displayName: string;
       avatarUrl: string | null;
     };
-  };
+  } | null;
+  /** Set for message reports, which have no content */
+  message: ReportedMessageDetails | null;
+  /** The sender of a reported message */
+  reportedUser: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
   reporter: {
     id: string;
     name: string | null;
@@ -105,6 +116,41 @@ const CONTENT_TYPE_ICONS = {
   text: FileText,
 };
 
+const CONTENT_ACTIONS = [
+  {
+    value: "warn_creator",
+    label: "Warn Creator",
+    desc: "Send a warning notification",
+  },
+  {
+    value: "archive",
+    label: "Archive Content",
+    desc: "Hide content from public view",
+  },
+  {
+    value: "delete",
+    label: "Remove Content",
+    desc: "Permanently remove content",
+  },
+] as const;
+
+const MESSAGE_ACTIONS = [
+  {
+    value: "warn_sender",
+    label: "Warn Sender",
+    desc: "Send a warning notification",
+  },
+  {
+    value: "delete",
+    label: "Remove Message",
+    desc: "Permanently delete the message",
+  },
+] as const;
+
+type ModerationActionType =
+  | (typeof CONTENT_ACTIONS)[number]["value"]
+  | (typeof MESSAGE_ACTIONS)[number]["value"];
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -353,12 +399,26 @@ function ReportCard({
 }) {
   const [actionDialogOpen, setActionDialogOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [actionType, setActionType] = useState<
-    "archive" | "delete" | "warn_creator" | null
-  >(null);
+  const [actionType, setActionType] = useState<ModerationActionType | null>(
+    null
+  );
   const [actionReason, setActionReason] = useState("");
 
-  const ContentIcon = CONTENT_TYPE_ICONS[report.content.type];
+  const { content, message } = report;
+  const ContentIcon = content
+    ? CONTENT_TYPE_ICONS[content.type]
+    : MessageSquare;
+  const title = content ? content.title : (message?.excerpt ?? "");
+  const senderName =
+    report.reportedUser?.name || report.reportedUser?.email || "Deleted user";
+  const reporterName = report.reporter.name || report.reporter.email;
+  const actions = content ? CONTENT_ACTIONS : MESSAGE_ACTIONS;
+  // Deleted messages can still be dismissed, but there's nothing to act on
+  const actionUrl = content
+    ? `/api/admin/content/${content.id}/action`
+    : message?.id
+      ? `/api/admin/messages/${message.id}/action`
+      : null;
 
   const handleDismiss = async () => {
     setIsSubmitting(true);
@@ -385,22 +445,19 @@ function ReportCard({
   };
 
   const handleTakeAction = async () => {
-    if (!actionType || !actionReason.trim()) return;
+    if (!actionUrl || !actionType || !actionReason.trim()) return;
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(
-        `/api/admin/content/${report.content.id}/action`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            action: actionType,
-            reason: actionReason,
-            notifyCreator: true,
-          }),
-        }
-      );
+      const response = await fetch(actionUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: actionType,
+          reason: actionReason,
+          ...(content ? { notifyCreator: true } : { notifySender: true }),
+        }),
+      });
 
       if (response.ok) {
         onUpdate(report.id, { status: "ACTION_TAKEN" });
@@ -423,9 +480,9 @@ function ReportCard({
         <div className="flex gap-3 flex-1 min-w-0">
           {/* Thumbnail */}
           <div className="shrink-0">
-            {report.content.thumbnailUrl ? (
+            {content?.thumbnailUrl ? (
               <Image
-                src={report.content.thumbnailUrl}
+                src={content.thumbnailUrl}
                 alt=""
                 width={80}
                 height={80}
@@ -441,9 +498,7 @@ function ReportCard({
           {/* Content Info */}
           <div className="flex-1 min-w-0">
             <div className="flex items-start gap-2">
-              <h3 className="font-medium text-sm truncate">
-                {report.content.title}
-              </h3>
+              <h3 className="font-medium text-sm truncate">{title}</h3>
               <Badge variant={getReportStatusVariant(report.status)}>
                 {getReportStatusLabel(report.status)}
               </Badge>
@@ -451,11 +506,54 @@ function ReportCard({
 
             <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
               <ContentIcon className="h-3 w-3" />
-              <span className="capitalize">{report.content.type}</span>
-              <span className="text-border">|</span>
-              <span>by {report.content.creator.displayName}</span>
+              {content ? (
+                <>
+                  <span className="capitalize">{content.type}</span>
+                  <span className="text-border">|</span>
+                  <span>by {content.creator.displayName}</span>
+                </>
+              ) : (
+                <>
+                  <span>
+                    {message?.isBroadcast ? "Broadcast" : "Direct message"}
+                  </span>
+                  <span className="text-border">|</span>
+                  <span>from {senderName}</span>
+                  {!message?.id && (
+                    <>
+                      <span className="text-border">|</span>
+                      <span>Deleted</span>
+                    </>
+                  )}
+                </>
+              )}
             </div>
 
+            {/* Conversation leading up to a reported message */}
+            {message && message.context.length > 0 && (
+              <div className="mt-2 space-y-1 rounded-md border p-2">
+                {message.context.map((item) => (
+                  <p
+                    key={item.id}
+                    className={cn(
+                      "text-xs",
+                      item.isReported
+                        ? "text-foreground"
+                        : "text-muted-foreground"
+                    )}
+                  >
+                    <span className="font-medium">
+                      {item.senderId === report.reporter.id
+                        ? reporterName
+                        : senderName}
+                      :
+                    </span>{" "}
+                    {item.text}
+                  </p>
+                ))}
+              </div>
+            )}
+
             {/* Report Details */}
             <div className="mt-2 p-2 bg-muted/50 rounded-md">
               <div className="flex items-center gap-2 text-xs">
@@ -477,7 +575,7 @@ function ReportCard({
             <div className="flex items-center gap-1.5 mt-2 text-xs text-muted-foreground">
               <User className="h-3 w-3" />
               <span>
-                Reported by {report.reporter.name || report.reporter.email}
+                Reported by {reporterName}
               </span>
             </div>
           </div>
@@ -496,104 +594,96 @@ function ReportCard({
               Dismiss
             </Button>
 
-            <Dialog open={actionDialogOpen} onOpenChange={setActionDialogOpen}>
-              <DialogTrigger
-                render={
-                  <Button variant="destructive" size="sm" className="min-h-[44px]" />
-                }
+            {actionUrl && (
+              <Dialog
+                open={actionDialogOpen}
+                onOpenChange={setActionDialogOpen}
               >
-                Take Action
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Take Moderation Action</DialogTitle>
-                  <DialogDescription>
-                    Choose an action to take on &quot;{report.content.title}
-                    &quot;
-                  </DialogDescription>
-                </DialogHeader>
-
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Action</label>
-                    <div className="grid gap-2">
-                      {(
-                        [
-                          {
-                            value: "warn_creator",
-                            label: "Warn Creator",
-                            desc: "Send a warning notification",
-                          },
-                          {
-                            value: "archive",
-                            label: "Archive Content",
-                            desc: "Hide content from public view",
-                          },
-                          {
-                            value: "delete",
-                            label: "Remove Content",
-                            desc: "Permanently remove content",
-                          },
-                        ] as const
-                      ).map((action) => (
-                        <button
-                          key={action.value}
-                          onClick={() => setActionType(action.value)}
-                          className={cn(
-                            "text-left p-3 rounded-lg border transition-colors min-h-[44px]",
-                            actionType === action.value
-                              ? "border-primary bg-primary/5"
-                              : "hover:border-primary/50"
-                          )}
-                        >
-                          <div className="font-medium text-sm">
-                            {action.label}
-                          </div>
-                          <div className="text-xs text-muted-foreground">
-                            {action.desc}
-                          </div>
-                        </button>
-                      ))}
+                <DialogTrigger
+                  render={
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="min-h-[44px]"
+                    />
+                  }
+                >
+                  Take Action
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Take Moderation Action</DialogTitle>
+                    <DialogDescription>
+                      Choose an action to take on &quot;{title}&quot;
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Action</label>
+                      <div className="grid gap-2">
+                        {actions.map((action) => (
+                          <button
+                            key={action.value}
+                            onClick={() => setActionType(action.value)}
+                            className={cn(
+                              "text-left p-3 rounded-lg border transition-colors min-h-[44px]",
+                              actionType === action.value
+                                ? "border-primary bg-primary/5"
+                                : "hover:border-primary/50"
+                            )}
+                          >
+                            <div className="font-medium text-sm">
+                              {action.label}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {action.desc}
+                            </div>
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">
-                      Reason (required)
-                    </label>
-                    <Textarea
-                      value={actionReason}
-                      onChange={(e) => setActionReason(e.target.value)}
-                      placeholder="Explain why this action is being taken..."
-                      className="min-h-[80px]"
-                    />
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">
+                        Reason (required)
+                      </label>
+                      <Textarea
+                        value={actionReason}
+                        onChange={(e) => setActionReason(e.target.value)}
+                        placeholder="Explain why this action is being taken..."
+                        className="min-h-[80px]"
+                      />
+                    </div>
                   </div>
-                </div>
 
-                <DialogFooter>
-                  <Button
-                    variant="outline"
-                    onClick={() => setActionDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    onClick={handleTakeAction}
-                    disabled={!actionType || !actionReason.trim() || isSubmitting}
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                        Taking Action...
-                      </>
-                    ) : (
-                      "Confirm Action"
-                    )}
-                  </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                  <DialogFooter>
+                    <Button
+                      variant="outline"
+                      onClick={() => setActionDialogOpen(false)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={handleTakeAction}
+                      disabled={
+                        !actionType || !actionReason.trim() || isSubmitting
+                      }
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          Taking Action...
+                        </>
+                      ) : (
+                        "Confirm Action"
+                      )}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
         )}
 
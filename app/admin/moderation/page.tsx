@@ -1,20 +1,22 @@
 /**
  * Admin Moderation Queue Page
  *
- * Displays pending content reports for admin review.
- * Provides filtering, content preview, and moderation actions.
+ * Displays pending content and message reports for admin review.
+ * Provides filtering, content and message previews, and moderation actions.
  *
  * @see PRD Phase 6, Task 18: Content Moderation
  */
 
+import Link from "next/link";
 import { redirect } from "next/navigation";
 import { getAdminStatus } from "@/lib/middleware/admin-check";
 import { prisma } from "@/lib/prisma";
+import { getReportedMessageDetails } from "@/lib/message-safety";
 import { ModerationQueue } from "./moderation-queue";
 
 export const metadata = {
   title: "Content Moderation | Admin | breathwithmagic",
-  description: "Review and moderate reported content",
+  description: "Review and moderate reported content and messages",
 };
 
 export default async function ModerationPage() {
@@ -49,6 +51,24 @@ export default async function ModerationPage() {
             },
           },
         },
+        message: {
+          select: {
+            id: true,
+            senderId: true,
+            receiverId: true,
+            content: true,
+            attachmentType: true,
+            isBroadcast: true,
+            createdAt: true,
+          },
+        },
+        reportedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
         reporter: {
           select: {
             id: true,
@@ -82,30 +102,34 @@ export default async function ModerationPage() {
   };
 
   // Format reports for client
-  const formattedReports = reports.map((report) => ({
-    id: report.id,
-    reason: report.reason,
-    description: report.description,
-    status: report.status,
-    reviewedBy: report.reviewedBy,
-    reviewedAt: report.reviewedAt?.toISOString() || null,
-    reviewNotes: report.reviewNotes,
-    createdAt: report.createdAt.toISOString(),
-    content: {
-      id: report.content.id,
-      title: report.content.title,
-      type: report.content.type,
-      thumbnailUrl: report.content.thumbnailUrl,
-      status: report.content.status,
-      description: report.content.description,
-      creator: report.content.creator,
-    },
-    reporter: {
-      id: report.reporter.id,
-      name: report.reporter.name,
-      email: report.reporter.email,
-    },
-  }));
+  const formattedReports = await Promise.all(
+    reports.map(async (report) => ({
+      id: report.id,
+      reason: report.reason,
+      description: report.description,
+      status: report.status,
+      reviewedBy: report.reviewedBy,
+      reviewedAt: report.reviewedAt?.toISOString() || null,
+      reviewNotes: report.reviewNotes,
+      createdAt: report.createdAt.toISOString(),
+      content: report.content && {
+        id: report.content.id,
+        title: report.content.title,
+        type: report.content.type,
+        thumbnailUrl: report.content.thumbnailUrl,
+        status: report.content.status,
+        description: report.content.description,
+        creator: report.content.creator,
+      },
+      message: await getReportedMessageDetails(report),
+      reportedUser: report.reportedUser,
+      reporter: {
+        id: report.reporter.id,
+        name: report.reporter.name,
+        email: report.reporter.email,
+      },
+    }))
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -118,13 +142,21 @@ export default async function ModerationPage() {
       </a>
 
       <main id="main-content" className="container max-w-6xl py-8">
-        <div className="mb-8">
-          <h1 className="text-2xl font-semibold text-foreground">
-            Content Moderation
-          </h1>
-          <p className="text-muted-foreground mt-1">
-            Review reported content and take appropriate action
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">
+              Content Moderation
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Review reported content and messages and take appropriate action
+            </p>
+          </div>
+          <Link
+            href="/admin/creators"
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Creators
+          </Link>
         </div>
 
         <ModerationQueue initialReports={formattedReports} counts={formattedCounts} />
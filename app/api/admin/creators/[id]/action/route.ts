@@ -0,0 +1,142 @@
+/**
+ * POST /api/admin/creators/[id]/action
+ *
+ * Take an admin action on a creator account.
+ * Admin-only access required.
+ *
+ * Actions:
+ * - suspend: Hides the creator's profile and content, pauses billing on
+ *   their subscriptions and notifies subscribers (reason required)
+ * - reinstate: Reverses a suspension
+ * - verify / unverify: Sets the verified badge
+ * - feature / unfeature: Sets whether the creator is featured in explore
+ *
+ * Every action is recorded in the creator's admin audit trail.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/middleware/admin-check";
+import { invalidateCreatorProfileCache } from "@/lib/cache";
+import {
+  reinstateCreator,
+  suspendCreator,
+  type SuspensionResult,
+} from "@/lib/creator-suspension";
+import { creatorAdminActionSchema } from "@/lib/validations/admin-creator";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id: creatorId } = await params;
+
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+    const adminId = adminCheck.userId || "";
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = creatorAdminActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, reason } = validationResult.data;
+
+    const creator = await prisma.creatorProfile.findUnique({
+      where: { id: creatorId },
+      select: { id: true, handle: true, status: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: "Creator not found", code: "CREATOR_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    let result: SuspensionResult | null = null;
+
+    switch (action) {
+      case "suspend": {
+        result = await suspendCreator({
+          creatorId,
+          adminId,
+          reason: reason ?? "",
+        });
+        if (!result) {
+          return NextResponse.json(
+            {
+              error: `Creator is already ${creator.status.replace("_", " ")}`,
+              code: "INVALID_STATUS",
+            },
+            { status: 409 }
+          );
+        }
+        break;
+      }
+
+      case "reinstate": {
+        result = await reinstateCreator({ creatorId, adminId, reason });
+        if (!result) {
+          return NextResponse.json(
+            { error: "Creator is not suspended", code: "INVALID_STATUS" },
+            { status: 409 }
+          );
+        }
+        break;
+      }
+
+      case "verify":
+      case "unverify":
+      case "feature":
+      case "unfeature": {
+        const data =
+          action === "verify" || action === "unverify"
+            ? { isVerified: action === "verify" }
+            : { isFeatured: action === "feature" };
+
+        await prisma.$transaction([
+          prisma.creatorProfile.update({ where: { id: creatorId }, data }),
+          prisma.creatorAdminAction.create({
+            data: { creatorId, adminId, action, reason },
+          }),
+        ]);
+        await invalidateCreatorProfileCache(creatorId, creator.handle);
+        break;
+      }
+    }
+
+    if (result && result.failedSubscriptionIds.length > 0) {
+      console.error(
+        `Creator ${creatorId} ${action}: billing update failed for ${result.failedSubscriptionIds.length} subscription(s)`
+      );
+    }
+
+    return NextResponse.json({
+      action,
+      creatorId,
+      notifiedCount: result?.notifiedCount ?? 0,
+      failedSubscriptionIds: result?.failedSubscriptionIds ?? [],
+    });
+  } catch (error) {
+    console.error("Error taking creator action:", error);
+    return NextResponse.json(
+      { error: "Failed to take creator action", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/admin/creators/[id]
+ *
+ * Creator detail for admins: account, revenue, report history and the
+ * audit trail of admin actions.
+ * Admin-only access required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/middleware/admin-check";
+import { getAdminCreatorDetail } from "@/lib/admin-creators";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id: creatorId } = await params;
+
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+
+    const creator = await getAdminCreatorDetail(creatorId);
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: "Creator not found", code: "CREATOR_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ creator });
+  } catch (error) {
+    console.error("Error fetching creator:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch creator", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
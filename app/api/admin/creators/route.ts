@@ -0,0 +1,54 @@
+/**
+ * GET /api/admin/creators
+ *
+ * List creators with search and filters, newest first.
+ * Admin-only access required.
+ *
+ * Query: q (handle, display name or email), status, verified, featured,
+ * cursor, limit
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/middleware/admin-check";
+import { listAdminCreators } from "@/lib/admin-creators";
+import { adminCreatorListQuerySchema } from "@/lib/validations/admin-creator";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const queryResult = adminCreatorListQuerySchema.safeParse({
+      q: searchParams.get("q") || undefined,
+      status: searchParams.get("status") || undefined,
+      verified: searchParams.get("verified") || undefined,
+      featured: searchParams.get("featured") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || 20,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await listAdminCreators(queryResult.data));
+  } catch (error) {
+    console.error("Error listing creators:", error);
+    return NextResponse.json(
+      { error: "Failed to list creators", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
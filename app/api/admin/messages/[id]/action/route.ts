@@ -0,0 +1,107 @@
+/**
+ * POST /api/admin/messages/[id]/action
+ *
+ * Take moderation action on a reported message.
+ * Admin-only access required.
+ *
+ * Actions:
+ * - delete: Deletes the message; its reports keep the reported text
+ * - warn_sender: Sends a warning notification to the sender
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/middleware/admin-check";
+import { notifyMessageModerated } from "@/lib/notifications";
+import { messageModerationActionSchema } from "@/lib/validations/report";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id: messageId } = await params;
+
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = messageModerationActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid action data",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, reason, notifySender } = validationResult.data;
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, senderId: true },
+    });
+
+    if (!message) {
+      return NextResponse.json(
+        { error: "Message not found", code: "MESSAGE_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    // Close pending reports first; deleting the message unlinks them
+    await prisma.contentReport.updateMany({
+      where: {
+        messageId,
+        status: "PENDING",
+      },
+      data: {
+        status: "ACTION_TAKEN",
+        reviewedBy: adminCheck.userId,
+        reviewedAt: new Date(),
+        reviewNotes: `Action taken: ${action}. Reason: ${reason}`,
+      },
+    });
+
+    let resultMessage = "";
+
+    switch (action) {
+      case "delete": {
+        await prisma.message.delete({ where: { id: messageId } });
+        resultMessage = "Message has been removed";
+        break;
+      }
+
+      case "warn_sender": {
+        // Just send the notification below - the message stays
+        resultMessage = "Warning sent to sender";
+        break;
+      }
+    }
+
+    if (notifySender) {
+      await notifyMessageModerated(message.senderId, action, reason);
+    }
+
+    return NextResponse.json({
+      message: resultMessage,
+      action,
+      messageId,
+      notifiedSender: notifySender,
+    });
+  } catch (error) {
+    console.error("Error taking message moderation action:", error);
+    return NextResponse.json(
+      { error: "Failed to take moderation action", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
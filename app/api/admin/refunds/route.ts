@@ -0,0 +1,340 @@
+/**
+ * Admin Refunds API
+ *
+ * GET /api/admin/refunds - List refunds and disputes (audit trail)
+ * POST /api/admin/refunds - Issue a full or prorated refund
+ *
+ * Admin-only access required for all endpoints.
+ *
+ * Refund Policy (PRD):
+ * - Prorated refund available within 7 days of billing
+ * - No refund after 7 days (admins can override; the override is recorded)
+ * - Platform absorbs refund (not deducted from creator)
+ *
+ * @see docs/prd.md "Refunds & Disputes"
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/middleware/admin-check";
+import {
+  REFUND_WINDOW_DAYS,
+  calculateProratedRefund,
+  createSubscriptionRefund,
+  getLatestSubscriptionPayment,
+  isWithinRefundWindow,
+} from "@/lib/stripe";
+import { endSubscriptionAccess, recordPaymentEvent } from "@/lib/payment-events";
+import { notifySubscriptionRefunded } from "@/lib/notifications";
+import {
+  createRefundSchema,
+  paymentEventListQuerySchema,
+} from "@/lib/validations/refund";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * GET /api/admin/refunds
+ *
+ * List refunds and disputes with optional filters.
+ * Returns paginated results, newest first.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const queryResult = paymentEventListQuerySchema.safeParse({
+      type: searchParams.get("type") || undefined,
+      creatorId: searchParams.get("creatorId") || undefined,
+      subscriptionId: searchParams.get("subscriptionId") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || 20,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { type, creatorId, subscriptionId, cursor, limit } =
+      queryResult.data;
+
+    const where: Prisma.PaymentEventWhereInput = {};
+
+    if (type) where.type = type;
+    if (creatorId) where.creatorId = creatorId;
+    if (subscriptionId) where.subscriptionId = subscriptionId;
+
+    const events = await prisma.paymentEvent.findMany({
+      where,
+      take: limit + 1, // Fetch one extra for cursor
+      ...(cursor && {
+        skip: 1,
+        cursor: { id: cursor },
+      }),
+      orderBy: { createdAt: "desc" },
+    });
+
+    // Determine if there are more results
+    const hasMore = events.length > limit;
+    const items = hasMore ? events.slice(0, limit) : events;
+    const nextCursor = hasMore ? items[items.length - 1].id : null;
+
+    // Get counts by type
+    const typeCounts = await prisma.paymentEvent.groupBy({
+      by: ["type"],
+      _count: { type: true },
+    });
+
+    const counts = typeCounts.reduce(
+      (acc, item) => {
+        acc[item.type] = item._count.type;
+        return acc;
+      },
+      {} as Record<string, number>
+    );
+
+    return NextResponse.json({
+      items: items.map((event) => ({
+        ...event,
+        createdAt: event.createdAt.toISOString(),
+      })),
+      nextCursor,
+      counts: {
+        refunds: counts.refund || 0,
+        disputesOpened: counts.dispute_opened || 0,
+        disputesWon: counts.dispute_won || 0,
+        disputesLost: counts.dispute_lost || 0,
+      },
+    });
+  } catch (error) {
+    console.error("Error listing payment events:", error);
+    return NextResponse.json(
+      { error: "Failed to list refunds", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/refunds
+ *
+ * Refund the latest payment on a subscription. Unless endSubscription is
+ * false, the subscription is also canceled and access ends immediately.
+ *
+ * Body: {
+ *   subscriptionId, amountType?, reason?, notes?, overridePolicy?,
+ *   endSubscription?
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify admin access
+    const adminCheck = await requireAdmin();
+    if (adminCheck.error) {
+      return adminCheck.error;
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = createRefundSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid refund data",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      subscriptionId,
+      amountType,
+      reason,
+      notes,
+      overridePolicy,
+      endSubscription,
+    } = validationResult.data;
+
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      select: {
+        id: true,
+        userId: true,
+        creatorId: true,
+        stripeSubscriptionId: true,
+        status: true,
+        user: {
+          select: { name: true },
+        },
+        creator: {
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: "Subscription not found", code: "SUBSCRIPTION_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (!subscription.stripeSubscriptionId) {
+      return NextResponse.json(
+        {
+          error: "Subscription has no Stripe billing to refund",
+          code: "NO_STRIPE_SUBSCRIPTION",
+        },
+        { status: 400 }
+      );
+    }
+
+    const payment = await getLatestSubscriptionPayment(
+      subscription.stripeSubscriptionId
+    );
+
+    if (!payment) {
+      return NextResponse.json(
+        {
+          error: "No refundable payment found for this subscription",
+          code: "NO_REFUNDABLE_PAYMENT",
+        },
+        { status: 400 }
+      );
+    }
+
+    const withinWindow = isWithinRefundWindow(payment);
+    if (!withinWindow && !overridePolicy) {
+      return NextResponse.json(
+        {
+          error: `Refunds are only available within ${REFUND_WINDOW_DAYS} days of billing`,
+          code: "REFUND_WINDOW_EXPIRED",
+        },
+        { status: 400 }
+      );
+    }
+
+    const amount =
+      amountType === "full"
+        ? payment.amountPaid
+        : calculateProratedRefund(payment);
+
+    if (amount <= 0) {
+      return NextResponse.json(
+        {
+          error: "Nothing left to refund for the current billing period",
+          code: "NOTHING_TO_REFUND",
+        },
+        { status: 400 }
+      );
+    }
+
+    const refund = await createSubscriptionRefund({
+      paymentIntentId: payment.paymentIntentId,
+      amount,
+      reason,
+      metadata: {
+        subscriptionId: subscription.id,
+        adminUserId: adminCheck.userId || "",
+      },
+    });
+
+    // Audit trail
+    const auditNotes = [
+      `${amountType === "full" ? "Full" : "Prorated"} refund of invoice ${payment.invoiceId}`,
+      !withinWindow &&
+        `Issued outside the ${REFUND_WINDOW_DAYS}-day refund window (policy override)`,
+      !endSubscription && "Subscription kept active",
+      notes,
+    ]
+      .filter(Boolean)
+      .join(". ");
+
+    const paymentEvent = await recordPaymentEvent({
+      type: "refund",
+      subscription,
+      stripeChargeId:
+        typeof refund.charge === "string" ? refund.charge : refund.charge?.id,
+      stripeRefundId: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason,
+      initiatedById: adminCheck.userId,
+      notes: auditNotes,
+    });
+
+    // The charge.refunded webhook may have ended it already, in which
+    // case the creator has been notified too
+    const ended =
+      endSubscription && (await endSubscriptionAccess(subscription));
+
+    console.log(
+      `Admin ${adminCheck.userId} refunded ${refund.amount} on subscription ${subscription.id} (${refund.id})`
+    );
+
+    if (ended) {
+      // Notify creator (fire and forget)
+      notifySubscriptionRefunded(
+        subscription.creator.userId,
+        subscription.user.name || "A subscriber",
+        refund.amount
+      ).catch((error) =>
+        console.error("Error sending refund notification:", error)
+      );
+    }
+
+    return NextResponse.json({
+      refund: {
+        id: refund.id,
+        amount: refund.amount,
+        currency: refund.currency,
+        status: refund.status,
+      },
+      paymentEventId: paymentEvent.id,
+      subscriptionId: subscription.id,
+    });
+  } catch (error) {
+    console.error("Error issuing refund:", error);
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeAPIError) {
+      return NextResponse.json(
+        {
+          error: "Payment service error. Please try again later.",
+          code: "STRIPE_API_ERROR",
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to issue refund", code: "SERVER_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Admin Reports API
  *
- * GET /api/admin/reports - List content reports with filters
+ * GET /api/admin/reports - List content and message reports with filters
  * PATCH /api/admin/reports - Update report status
  *
  * Admin-only access required for all endpoints.
@@ -12,6 +12,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAdmin } from "@/lib/middleware/admin-check";
+import { getReportedMessageDetails } from "@/lib/message-safety";
 import {
   reportListQuerySchema,
   updateReportSchema,
@@ -23,8 +24,9 @@ import type { Prisma } from "@prisma/client";
 /**
  * GET /api/admin/reports
  *
- * List content reports with optional filters.
- * Returns paginated results with content and reporter details.
+ * List content and message reports with optional filters.
+ * Returns paginated results with content or message and reporter details.
+ * Message reports include the messages sent just before the reported one.
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -90,6 +92,24 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             },
           },
         },
+        message: {
+          select: {
+            id: true,
+            senderId: true,
+            receiverId: true,
+            content: true,
+            attachmentType: true,
+            isBroadcast: true,
+            createdAt: true,
+          },
+        },
+        reportedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
         reporter: {
           select: {
             id: true,
@@ -120,29 +140,33 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     );
 
     return NextResponse.json({
-      items: items.map((report) => ({
-        id: report.id,
-        reason: report.reason,
-        description: report.description,
-        status: report.status,
-        reviewedBy: report.reviewedBy,
-        reviewedAt: report.reviewedAt?.toISOString() || null,
-        reviewNotes: report.reviewNotes,
-        createdAt: report.createdAt.toISOString(),
-        content: {
-          id: report.content.id,
-          title: report.content.title,
-          type: report.content.type,
-          thumbnailUrl: report.content.thumbnailUrl,
-          status: report.content.status,
-          creator: report.content.creator,
-        },
-        reporter: {
-          id: report.reporter.id,
-          name: report.reporter.name,
-          email: report.reporter.email,
-        },
-      })),
+      items: await Promise.all(
+        items.map(async (report) => ({
+          id: report.id,
+          reason: report.reason,
+          description: report.description,
+          status: report.status,
+          reviewedBy: report.reviewedBy,
+          reviewedAt: report.reviewedAt?.toISOString() || null,
+          reviewNotes: report.reviewNotes,
+          createdAt: report.createdAt.toISOString(),
+          content: report.content && {
+            id: report.content.id,
+            title: report.content.title,
+            type: report.content.type,
+            thumbnailUrl: report.content.thumbnailUrl,
+            status: report.content.status,
+            creator: report.content.creator,
+          },
+          message: await getReportedMessageDetails(report),
+          reportedUser: report.reportedUser,
+          reporter: {
+            id: report.reporter.id,
+            name: report.reporter.name,
+            email: report.reporter.email,
+          },
+        }))
+      ),
       nextCursor,
       counts: {
         pending: counts.PENDING || 0,
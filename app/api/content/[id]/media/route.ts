@@ -13,7 +13,7 @@
  * Response:
  * - 200: { mediaUrl, expiresAt, type } - Signed URL for authorized access
  * - 401: Unauthenticated (for paid content)
- * - 403: Not subscribed (no access)
+ * - 403: Not subscribed (no access), or a program item not unlocked yet
  * - 404: Content not found
  * - 429: Rate limited
  *
@@ -23,8 +23,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { getPriceDisplay } from "@/lib/pricing";
 import { apiRateLimiter } from "@/lib/rate-limit";
 import { checkContentAccess } from "@/lib/middleware/subscription-check";
+import { getRequiredTierRank, requiredTierSelect } from "@/lib/tiers";
 import {
   generateSignedR2Url,
   generateSignedStreamToken,
@@ -32,14 +34,6 @@ import {
   DEFAULT_URL_EXPIRATION,
 } from "@/lib/media/signed-urls";
 
-// Price display mapping
-const PRICE_DISPLAY: Record<string, { amount: string; cents: number }> = {
-  TIER_500: { amount: "$5", cents: 500 },
-  TIER_1000: { amount: "$10", cents: 1000 },
-  TIER_2000: { amount: "$20", cents: 2000 },
-  TIER_3000: { amount: "$30", cents: 3000 },
-};
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -84,11 +78,13 @@ export async function GET(
             displayName: true,
             avatarUrl: true,
             subscriptionPrice: true,
+            customPriceCents: true,
             trialEnabled: true,
             status: true,
             userId: true,
           },
         },
+        ...requiredTierSelect,
       },
     });
 
@@ -134,6 +130,9 @@ export async function GET(
         isFree: content.isFree,
         creatorId: content.creatorId,
         status: content.status,
+        requiredTierRank: getRequiredTierRank(content),
+        programId: content.programId,
+        unlockOffsetDays: content.unlockOffsetDays,
       },
     });
 
@@ -149,7 +148,22 @@ export async function GET(
         reason: accessResult.reason,
       });
 
-      const price = PRICE_DISPLAY[content.creator.subscriptionPrice];
+      // Program items unlock on a schedule once the user starts the program
+      if (accessResult.programLock) {
+        const { programId, unlocksAt } = accessResult.programLock;
+        return NextResponse.json(
+          {
+            error: "This part of the program hasn't unlocked yet",
+            code: "CONTENT_LOCKED",
+            reason: accessResult.reason,
+            programId,
+            unlocksAt: unlocksAt?.toISOString() ?? null,
+          },
+          { status: 403 },
+        );
+      }
+
+      const price = getPriceDisplay(content.creator);
 
       return NextResponse.json(
         {
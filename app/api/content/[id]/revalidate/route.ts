@@ -49,17 +49,10 @@ interface RevalidateResponse {
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { getPriceDisplay } from "@/lib/pricing";
 import { apiRateLimiter } from "@/lib/rate-limit";
 import { revalidateAccess } from "@/lib/middleware/subscription-check";
 
-// Price display mapping
-const PRICE_DISPLAY: Record<string, { amount: string; cents: number }> = {
-  TIER_500: { amount: "$5", cents: 500 },
-  TIER_1000: { amount: "$10", cents: 1000 },
-  TIER_2000: { amount: "$20", cents: 2000 },
-  TIER_3000: { amount: "$30", cents: 3000 },
-};
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -144,6 +137,7 @@ export async function GET(
               displayName: true,
               avatarUrl: true,
               subscriptionPrice: true,
+              customPriceCents: true,
               trialEnabled: true,
             },
           },
@@ -151,7 +145,7 @@ export async function GET(
       });
 
       if (content) {
-        const price = PRICE_DISPLAY[content.creator.subscriptionPrice];
+        const price = getPriceDisplay(content.creator);
 
         return NextResponse.json(
           {
@@ -321,6 +315,7 @@ export async function POST(
               handle: true,
               displayName: true,
               subscriptionPrice: true,
+              customPriceCents: true,
               trialEnabled: true,
             },
           },
@@ -337,8 +332,7 @@ export async function POST(
               id: content.creator.id,
               handle: content.creator.handle,
               displayName: content.creator.displayName,
-              subscriptionPrice:
-                PRICE_DISPLAY[content.creator.subscriptionPrice],
+              subscriptionPrice: getPriceDisplay(content.creator),
               trialEnabled: content.creator.trialEnabled,
             }
           : undefined,
@@ -5,12 +5,22 @@
  * Performs access check to determine if user can view full content.
  *
  * Returns:
- * - Full content if user has access (free content or subscribed)
- * - Limited content with hasAccess: false if paywalled
+ * - Full content if user has access (free content, subscribed at the
+ *   required tier, or purchased)
+ * - Limited content with hasAccess: false if paywalled, or if it's a
+ *   program item that hasn't unlocked for the user yet
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { getPriceDisplay } from "@/lib/pricing";
+import { hasPurchasedContent } from "@/lib/purchases";
+import { getProgramItemLock } from "@/lib/programs";
+import {
+  getRequiredTierRank,
+  getSubscriptionTierRank,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 import { apiRateLimiter } from "@/lib/rate-limit";
 import {
   getCachedSubscriptionStatus,
@@ -58,6 +68,7 @@ export async function GET(
             avatarUrl: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
             trialEnabled: true,
             status: true,
           },
@@ -66,8 +77,11 @@ export async function GET(
           select: {
             id: true,
             title: true,
+            priceCents: true,
+            minTier: { select: { rank: true } },
           },
         },
+        minTier: { select: { id: true, name: true, rank: true } },
       },
     });
 
@@ -90,6 +104,7 @@ export async function GET(
     let hasAccess = content.isFree;
     let isSubscribed = false;
     let isFollowing = false;
+    let userId: string | undefined;
 
     if (clerkId) {
       const user = await prisma.user.findUnique({
@@ -98,6 +113,8 @@ export async function GET(
       });
 
       if (user) {
+        userId = user.id;
+
         // Check cached subscription status first
         const cachedStatus = await getCachedSubscriptionStatus(
           user.id,
@@ -135,20 +152,32 @@ export async function GET(
         });
         isFollowing = !!follow;
 
-        // User has access if content is free OR they're subscribed
-        hasAccess = content.isFree || isSubscribed;
+        // Tier-gated content also needs a high enough membership tier
+        const requiredTierRank = getRequiredTierRank(content);
+        const hasRequiredTier =
+          isSubscribed &&
+          (requiredTierRank === UNTIERED_RANK ||
+            (await getSubscriptionTierRank(user.id, content.creatorId)) >=
+              requiredTierRank);
+
+        // User has access if content is free, they're subscribed at the
+        // required tier, or they bought this content (or its program)
+        hasAccess =
+          content.isFree ||
+          hasRequiredTier ||
+          (await hasPurchasedContent(user.id, content.id));
       }
     }
 
-    // Price tier mapping
-    const PRICE_DISPLAY: Record<string, { amount: string; cents: number }> = {
-      TIER_500: { amount: "$5", cents: 500 },
-      TIER_1000: { amount: "$10", cents: 1000 },
-      TIER_2000: { amount: "$20", cents: 2000 },
-      TIER_3000: { amount: "$30", cents: 3000 },
-    };
+    // Program items unlock on a schedule once the user starts the program
+    const programLock = hasAccess
+      ? await getProgramItemLock(userId, content)
+      : null;
+    if (programLock) {
+      hasAccess = false;
+    }
 
-    const price = PRICE_DISPLAY[content.creator.subscriptionPrice];
+    const price = getPriceDisplay(content.creator);
 
     // Build response based on access level
     const baseResponse = {
@@ -159,6 +188,8 @@ export async function GET(
       thumbnailUrl: content.thumbnailUrl,
       duration: content.duration,
       isFree: content.isFree,
+      priceCents: content.priceCents,
+      minTier: content.minTier,
       publishedAt: content.publishedAt?.toISOString() || null,
       hasAccess,
       isSubscribed,
@@ -176,6 +207,13 @@ export async function GET(
         ? {
             id: content.program.id,
             title: content.program.title,
+            priceCents: content.program.priceCents,
+          }
+        : null,
+      programLock: programLock
+        ? {
+            programId: programLock.programId,
+            unlocksAt: programLock.unlocksAt?.toISOString() ?? null,
           }
         : null,
     };
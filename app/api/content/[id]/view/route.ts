@@ -7,12 +7,26 @@
  * Features:
  * - Creates a view record if none exists for this user-content pair
  * - Updates watchDuration (debounced client-side, called every 30 seconds)
+ * - Saves the playback position so players can resume, and the view's
+ *   recency for the "continue watching" rail
  * - Marks content as completed when watchDuration >= duration
+ * - Rolls completions up into the user's program progress
  * - Uses Redis-based debouncing to prevent spam
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { hasPurchasedContent } from "@/lib/purchases";
+import {
+  getProgramItemLock,
+  programScheduleSelect,
+  updateProgramCompletion,
+} from "@/lib/programs";
+import {
+  getRequiredTierRank,
+  requiredTierSelect,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 import { recordContentViewSchema } from "@/lib/validations/feed";
 import { redis } from "@/lib/cache";
 
@@ -65,17 +79,21 @@ export async function POST(
       );
     }
 
-    const { watchDuration, completed } = parseResult.data;
+    const { watchDuration, position, completed } = parseResult.data;
+
+    // Finished content resumes from the start
+    const playbackPosition = completed ? 0 : (position ?? watchDuration);
 
     // Verify content exists and user has access
     const content = await prisma.content.findUnique({
       where: { id: contentId },
       select: {
-        id: true,
+        ...programScheduleSelect,
         creatorId: true,
         isFree: true,
         status: true,
         duration: true,
+        ...requiredTierSelect,
       },
     });
 
@@ -96,8 +114,14 @@ export async function POST(
           creatorId: content.creatorId,
           status: { in: ["active", "trialing"] },
         },
+        select: { tier: { select: { rank: true } } },
       });
-      hasAccess = !!subscription;
+      const hasRequiredTier =
+        !!subscription &&
+        (subscription.tier?.rank ?? UNTIERED_RANK) >=
+          getRequiredTierRank(content);
+      hasAccess =
+        hasRequiredTier || (await hasPurchasedContent(user.id, contentId));
     }
 
     if (!hasAccess) {
@@ -107,10 +131,24 @@ export async function POST(
       );
     }
 
+    // Program items can't be started before their unlock day
+    if (await getProgramItemLock(user.id, content)) {
+      return NextResponse.json(
+        {
+          error: "This part of the program hasn't unlocked yet",
+          code: "CONTENT_LOCKED",
+        },
+        { status: 403 },
+      );
+    }
+
     // Check Redis debounce for new view creation (not for progress updates)
     const debounceKey = `view:${user.id}:${contentId}`;
     const isNewViewDebounced = redis ? await redis.get(debounceKey) : null;
 
+    // Whether this update finished the content
+    let justCompleted = false;
+
     // Find or create view record
     let view = await prisma.contentView.findFirst({
       where: {
@@ -127,9 +165,11 @@ export async function POST(
           userId: user.id,
           contentId: contentId,
           watchDuration: watchDuration || 0,
+          position: playbackPosition ?? 0,
           completedAt: completed ? new Date() : null,
         },
       });
+      justCompleted = !!completed;
 
       // Set debounce key in Redis
       if (redis) {
@@ -142,6 +182,7 @@ export async function POST(
         (watchDuration &&
           content.duration &&
           watchDuration >= content.duration * 0.9); // 90% completion
+      justCompleted = !!shouldMarkComplete && !view.completedAt;
 
       view = await prisma.contentView.update({
         where: { id: view.id },
@@ -150,6 +191,8 @@ export async function POST(
             watchDuration !== undefined
               ? Math.max(view.watchDuration || 0, watchDuration)
               : view.watchDuration,
+          position: playbackPosition ?? view.position,
+          lastWatchedAt: new Date(),
           completedAt:
             shouldMarkComplete && !view.completedAt
               ? new Date()
@@ -158,10 +201,15 @@ export async function POST(
       });
     }
 
+    if (justCompleted) {
+      await updateProgramCompletion(user.id, contentId);
+    }
+
     return NextResponse.json({
       success: true,
       viewId: view?.id || null,
       watchDuration: view?.watchDuration || 0,
+      position: view?.position ?? 0,
       completed: !!view?.completedAt,
     });
   } catch (error) {
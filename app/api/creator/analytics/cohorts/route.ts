@@ -0,0 +1,87 @@
+/**
+ * /api/creator/analytics/cohorts
+ *
+ * GET - Get cohort retention, trial conversion, cancellation causes and
+ * early engagement for the creator's subscribers (see lib/cohorts.ts)
+ */
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { getCohortAnalytics } from "@/lib/cohorts";
+import { createRateLimiter } from "@/lib/rate-limit";
+
+/**
+ * Rate limiter for cohort analytics API
+ * PRD: 100 requests per minute for general API endpoints
+ */
+const apiRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 100,
+});
+
+/**
+ * GET /api/creator/analytics/cohorts
+ *
+ * Returns cohort analytics for the authenticated creator's last 12 months
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Check rate limit
+    const rateLimitResult = apiRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After":
+              rateLimitResult.retryAfterSeconds?.toString() || "60",
+          },
+        },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const cohorts = await getCohortAnalytics(user.creatorProfile.id);
+
+    return NextResponse.json(cohorts);
+  } catch (error) {
+    console.error("Error fetching cohort analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch cohort analytics", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * /api/creator/analytics/export
+ *
+ * GET - Download creator analytics as CSV or JSON
+ *
+ * Reports:
+ * - content: views, completions and completion rate for each piece of
+ *   content in the period, including content with no views
+ * - views: the views by day time series shown on the analytics chart
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import {
+  analyticsExportQuerySchema,
+  getPeriodStartDate,
+} from "@/lib/validations/analytics";
+import { createRateLimiter } from "@/lib/rate-limit";
+import {
+  createExportResponse,
+  getExportFilename,
+  type ExportColumn,
+} from "@/lib/exports";
+
+/**
+ * Rate limiter for exports
+ * Exports read the whole period, so they're limited more tightly than
+ * the analytics API
+ */
+const exportRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 10,
+});
+
+interface ContentStatsRow {
+  id: string;
+  title: string;
+  type: string;
+  publishedAt: Date | null;
+  views: number;
+  completions: number;
+}
+
+const contentColumns: ExportColumn<ContentStatsRow>[] = [
+  { key: "id", value: (row) => row.id },
+  { key: "title", value: (row) => row.title },
+  { key: "type", value: (row) => row.type },
+  {
+    key: "publishedAt",
+    value: (row) => row.publishedAt?.toISOString() ?? null,
+  },
+  { key: "views", value: (row) => row.views },
+  { key: "completions", value: (row) => row.completions },
+  {
+    key: "completionRate",
+    value: (row) =>
+      row.views > 0 ? Math.round((row.completions / row.views) * 100) : 0,
+  },
+];
+
+const viewsColumns: ExportColumn<{ date: string; views: number }>[] = [
+  { key: "date", value: (row) => row.date },
+  { key: "views", value: (row) => row.views },
+];
+
+/**
+ * Views and completions for each of a creator's content in a period,
+ * most viewed first
+ */
+async function getContentStats(
+  creatorId: string,
+  periodStart: Date | null,
+): Promise<ContentStatsRow[]> {
+  const createdAt = periodStart ? { gte: periodStart } : undefined;
+
+  const [content, viewCounts, completionCounts] = await Promise.all([
+    prisma.content.findMany({
+      where: { creatorId, status: { not: "deleted" } },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, title: true, type: true, publishedAt: true },
+    }),
+    prisma.contentView.groupBy({
+      by: ["contentId"],
+      where: { content: { creatorId }, createdAt },
+      _count: { id: true },
+    }),
+    prisma.contentView.groupBy({
+      by: ["contentId"],
+      where: {
+        content: { creatorId },
+        completedAt: { not: null },
+        createdAt,
+      },
+      _count: { id: true },
+    }),
+  ]);
+
+  const viewMap = new Map(viewCounts.map((c) => [c.contentId, c._count.id]));
+  const completionMap = new Map(
+    completionCounts.map((c) => [c.contentId, c._count.id]),
+  );
+
+  return content
+    .map((c) => ({
+      ...c,
+      views: viewMap.get(c.id) || 0,
+      completions: completionMap.get(c.id) || 0,
+    }))
+    .sort((a, b) => b.views - a.views);
+}
+
+/**
+ * Content views per day in a period
+ */
+async function getViewsByDay(creatorId: string, periodStart: Date | null) {
+  const viewsByDayRaw = await prisma.$queryRaw<
+    Array<{ date: Date; count: bigint }>
+  >`
+    SELECT DATE(cv."createdAt") as date, COUNT(*) as count
+    FROM "ContentView" cv
+    JOIN "Content" c ON cv."contentId" = c.id
+    WHERE c."creatorId" = ${creatorId}
+    ${periodStart ? prisma.$queryRaw`AND cv."createdAt" >= ${periodStart}` : prisma.$queryRaw``}
+    GROUP BY DATE(cv."createdAt")
+    ORDER BY date ASC
+  `;
+
+  return viewsByDayRaw.map((row) => ({
+    date: row.date.toISOString().split("T")[0],
+    views: Number(row.count),
+  }));
+}
+
+/**
+ * GET /api/creator/analytics/export
+ *
+ * Query params:
+ *   - report: content or views
+ *   - period: 7d|30d|90d|all (default: 30d)
+ *   - format: csv or json (default: csv)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Check rate limit
+    const rateLimitResult = exportRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After":
+              rateLimitResult.retryAfterSeconds?.toString() || "60",
+          },
+        },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true, handle: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const { id: creatorId, handle } = user.creatorProfile;
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = analyticsExportQuerySchema.safeParse({
+      report: searchParams.get("report"),
+      period: searchParams.get("period") || "30d",
+      format: searchParams.get("format") || "csv",
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { report, period, format } = queryResult.data;
+    const periodStart = getPeriodStartDate(period);
+
+    if (report === "content") {
+      return createExportResponse({
+        filename: getExportFilename(handle, `content-${period}`, format),
+        format,
+        columns: contentColumns,
+        rows: await getContentStats(creatorId, periodStart),
+      });
+    }
+
+    return createExportResponse({
+      filename: getExportFilename(handle, `views-${period}`, format),
+      format,
+      columns: viewsColumns,
+      rows: await getViewsByDay(creatorId, periodStart),
+    });
+  } catch (error) {
+    console.error("Error exporting analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to export analytics", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -12,6 +12,7 @@ import {
   type AnalyticsResponse,
 } from "@/lib/validations/analytics";
 import { createRateLimiter } from "@/lib/rate-limit";
+import { getCreatorEarnings } from "@/lib/earnings";
 
 /**
  * Rate limiter for analytics API
@@ -169,43 +170,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Calculate revenue for current period
-    // Sum of priceAtPurchase for active subscriptions created in period
-    const revenueAgg = await prisma.subscription.aggregate({
-      where: {
-        creatorId,
-        status: { in: ["active", "trialing"] },
-        createdAt: currentPeriodFilter,
-      },
-      _sum: {
-        priceAtPurchase: true,
-      },
-    });
-    const totalRevenue = revenueAgg._sum.priceAtPurchase || 0;
-
-    // Calculate previous period revenue for growth
-    let revenueGrowth = 0;
-    if (previousPeriodFilter) {
-      const previousRevenueAgg = await prisma.subscription.aggregate({
-        where: {
-          creatorId,
-          status: { in: ["active", "trialing"] },
-          createdAt: previousPeriodFilter,
-        },
-        _sum: {
-          priceAtPurchase: true,
-        },
-      });
-      const previousRevenue = previousRevenueAgg._sum.priceAtPurchase || 0;
-
-      if (previousRevenue > 0) {
-        revenueGrowth = Math.round(
-          ((totalRevenue - previousRevenue) / previousRevenue) * 100,
-        );
-      } else if (totalRevenue > 0) {
-        revenueGrowth = 100;
-      }
-    }
+    // Earnings, MRR, churn and payouts come from the earnings ledger
+    const earnings = await getCreatorEarnings(creatorId, periodStart);
 
     // Get top content by views
     const topContentRaw = await prisma.contentView.groupBy({
@@ -279,8 +245,7 @@ export async function GET(request: NextRequest) {
     const response: AnalyticsResponse = {
       totalViews,
       completionRate,
-      totalRevenue,
-      revenueGrowth,
+      ...earnings,
       subscriberCount,
       subscriberGrowth,
       topContent,
@@ -0,0 +1,102 @@
+/**
+ * /api/creator/content/[id]/media-status
+ *
+ * GET - Get a video's processing status
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { refreshVideoProcessingState } from "@/lib/media/processing";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/creator/content/[id]/media-status
+ *
+ * Get the processing status of a content item's video. Polled by the
+ * content list and editor while a video encodes. Videos that aren't
+ * settled yet are checked against Stream directly, in case a webhook was
+ * missed.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const content = await prisma.content.findFirst({
+      where: {
+        id,
+        creatorId: user.creatorProfile.id,
+      },
+      select: {
+        id: true,
+        type: true,
+        mediaUrl: true,
+        mediaStatus: true,
+        mediaProgress: true,
+        mediaError: true,
+        duration: true,
+      },
+    });
+
+    if (!content) {
+      return NextResponse.json(
+        { error: "Content not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    let { mediaStatus, mediaProgress, mediaError, duration } = content;
+    const isSettled = mediaStatus === "ready" || mediaStatus === "errored";
+
+    if (content.type === "video" && content.mediaUrl && !isSettled) {
+      try {
+        const refreshed = await refreshVideoProcessingState(content.mediaUrl);
+        if (refreshed) {
+          ({ mediaStatus, mediaProgress, mediaError, duration } = refreshed);
+        }
+      } catch (error) {
+        // Report what we have; the next poll or the webhook catches up
+        console.error("Error refreshing video processing state:", error);
+      }
+    }
+
+    return NextResponse.json({
+      mediaStatus,
+      mediaProgress,
+      mediaError,
+      duration,
+    });
+  } catch (error) {
+    console.error("Error fetching media status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch media status", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -11,10 +11,12 @@ import { prisma } from "@/lib/prisma";
 import {
   updateContentSchema,
   canPublishContent,
+  getScheduleError,
 } from "@/lib/validations/content";
 import { sanitizeHtml } from "@/lib/sanitize";
-import { sendNewContentEmailsToSubscribers } from "@/lib/email";
 import { notifyNewContent } from "@/lib/notifications";
+import { invalidateContentCache } from "@/lib/middleware/subscription-check";
+import { isCreatorTier } from "@/lib/tiers";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -83,13 +85,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         title: content.title,
         description: content.description,
         mediaUrl: content.mediaUrl,
+        mediaStatus: content.mediaStatus,
+        mediaProgress: content.mediaProgress,
+        mediaError: content.mediaError,
         thumbnailUrl: content.thumbnailUrl,
         duration: content.duration,
         isFree: content.isFree,
+        priceCents: content.priceCents,
+        minTierId: content.minTierId,
         status: content.status,
+        scheduledAt: content.scheduledAt,
         programId: content.programId,
         program: content.program,
         sortOrder: content.sortOrder,
+        unlockOffsetDays: content.unlockOffsetDays,
         publishedAt: content.publishedAt,
         createdAt: content.createdAt,
         updatedAt: content.updatedAt,
@@ -179,8 +188,49 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const data = parseResult.data;
 
-    // If trying to publish, validate required fields
-    if (data.status === "published" && existingContent.status !== "published") {
+    // Scheduled releases need a future publish time, and can't be used to
+    // pull already-published content back
+    const isScheduled =
+      (data.status ?? existingContent.status) === "scheduled";
+    const scheduledAt =
+      data.scheduledAt !== undefined
+        ? data.scheduledAt
+        : existingContent.scheduledAt;
+
+    if (data.status === "scheduled" && existingContent.publishedAt) {
+      return NextResponse.json(
+        {
+          error: "Published content can't be scheduled",
+          code: "ALREADY_PUBLISHED",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      isScheduled &&
+      (data.status !== undefined || data.scheduledAt !== undefined)
+    ) {
+      const scheduleError = getScheduleError(scheduledAt);
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError, code: "INVALID_SCHEDULE" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // A different Stream UID hasn't been through processing here yet
+    const videoReplaced =
+      existingContent.type === "video" &&
+      data.mediaUrl !== undefined &&
+      data.mediaUrl !== existingContent.mediaUrl;
+
+    // If trying to publish (now or on a schedule), validate required fields
+    if (
+      (data.status === "published" || data.status === "scheduled") &&
+      existingContent.status !== data.status
+    ) {
       const contentToCheck = {
         type: existingContent.type,
         title: data.title || existingContent.title,
@@ -188,6 +238,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           data.mediaUrl !== undefined
             ? data.mediaUrl
             : existingContent.mediaUrl,
+        mediaStatus: videoReplaced ? null : existingContent.mediaStatus,
         duration:
           data.duration !== undefined
             ? data.duration
@@ -225,6 +276,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // If minTierId is provided, verify it belongs to this creator
+    if (
+      data.minTierId &&
+      !(await isCreatorTier(user.creatorProfile.id, data.minTierId))
+    ) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "TIER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
     // Prepare update data
     const updateData: Parameters<typeof prisma.content.update>[0]["data"] = {};
 
@@ -235,12 +297,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         ? sanitizeHtml(data.description)
         : data.description;
     if (data.mediaUrl !== undefined) updateData.mediaUrl = data.mediaUrl;
+    if (videoReplaced) {
+      // Picked up by the Stream webhook or the content list's status checks
+      updateData.mediaStatus = data.mediaUrl ? "processing" : null;
+      updateData.mediaProgress = null;
+      updateData.mediaError = null;
+    }
     if (data.thumbnailUrl !== undefined)
       updateData.thumbnailUrl = data.thumbnailUrl;
     if (data.duration !== undefined) updateData.duration = data.duration;
     if (data.isFree !== undefined) updateData.isFree = data.isFree;
+    if (data.priceCents !== undefined) updateData.priceCents = data.priceCents;
     if (data.sortOrder !== undefined) updateData.sortOrder = data.sortOrder;
     if (data.programId !== undefined) updateData.programId = data.programId;
+    if (data.unlockOffsetDays !== undefined)
+      updateData.unlockOffsetDays = data.unlockOffsetDays;
+    // The unlock schedule only applies within a program
+    if (data.programId === null) updateData.unlockOffsetDays = null;
+    if (data.minTierId !== undefined) updateData.minTierId = data.minTierId;
 
     // Handle status changes
     if (data.status !== undefined) {
@@ -252,6 +326,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Keep the publish time only while the content is scheduled
+    updateData.scheduledAt = isScheduled ? scheduledAt : null;
+
     // Check if this is a new publish (for notification purposes)
     const isNewPublish =
       data.status === "published" && existingContent.status !== "published";
@@ -270,6 +347,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    // Access rules may have changed (free flag, tier, program, unlock day)
+    await invalidateContentCache(id);
+
     // Send notifications if newly published (fire and forget - don't block response)
     if (isNewPublish) {
       const creatorId = user.creatorProfile.id;
@@ -277,20 +357,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       const contentTitle = updatedContent.title;
       const contentId = updatedContent.id;
 
-      // Send in-app notifications
+      // Send in-app, push and email notifications
       notifyNewContent(creatorId, creatorName, contentTitle, contentId).catch(
         (error) =>
-          console.error("Error sending new content in-app notifications:", error),
-      );
-
-      // Send email notifications
-      sendNewContentEmailsToSubscribers(
-        creatorId,
-        creatorName,
-        contentTitle,
-        contentId,
-      ).catch((error) =>
-        console.error("Error sending new content email notifications:", error),
+          console.error("Error sending new content notifications:", error),
       );
     }
 
@@ -302,13 +372,20 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         title: updatedContent.title,
         description: updatedContent.description,
         mediaUrl: updatedContent.mediaUrl,
+        mediaStatus: updatedContent.mediaStatus,
+        mediaProgress: updatedContent.mediaProgress,
+        mediaError: updatedContent.mediaError,
         thumbnailUrl: updatedContent.thumbnailUrl,
         duration: updatedContent.duration,
         isFree: updatedContent.isFree,
+        priceCents: updatedContent.priceCents,
+        minTierId: updatedContent.minTierId,
         status: updatedContent.status,
+        scheduledAt: updatedContent.scheduledAt,
         programId: updatedContent.programId,
         program: updatedContent.program,
         sortOrder: updatedContent.sortOrder,
+        unlockOffsetDays: updatedContent.unlockOffsetDays,
         publishedAt: updatedContent.publishedAt,
         createdAt: updatedContent.createdAt,
         updatedAt: updatedContent.updatedAt,
@@ -11,11 +11,13 @@ import type { Prisma } from "@prisma/client";
 import {
   createContentSchema,
   contentListQuerySchema,
+  canPublishContent,
+  getScheduleError,
 } from "@/lib/validations/content";
 import { uploadRateLimiter } from "@/lib/rate-limit";
 import { sanitizeHtml } from "@/lib/sanitize";
-import { sendNewContentEmailsToSubscribers } from "@/lib/email";
 import { notifyNewContent } from "@/lib/notifications";
+import { isCreatorTier } from "@/lib/tiers";
 
 /**
  * POST /api/creator/content
@@ -111,6 +113,54 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // If minTierId is provided, verify it belongs to this creator
+    if (
+      data.minTierId &&
+      !(await isCreatorTier(user.creatorProfile.id, data.minTierId))
+    ) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "TIER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Scheduled content needs a future publish time
+    if (data.status === "scheduled") {
+      const scheduleError = getScheduleError(data.scheduledAt);
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError, code: "INVALID_SCHEDULE" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Content published or scheduled on create must be ready to publish.
+    // New video hasn't been processed yet, so it's saved as a draft first.
+    if (data.status === "scheduled" || data.status === "published") {
+      const { canPublish, errors } = canPublishContent({
+        type: data.type,
+        title: data.title,
+        mediaUrl: data.mediaUrl ?? null,
+        mediaStatus: null,
+        duration: data.duration ?? null,
+      });
+
+      if (!canPublish) {
+        return NextResponse.json(
+          {
+            error:
+              data.status === "scheduled"
+                ? "Cannot schedule content"
+                : "Cannot publish content",
+            code: "PUBLISH_VALIDATION_FAILED",
+            details: errors,
+          },
+          { status: 400 },
+        );
+      }
+    }
+
     // Sanitize description if present (PRD: DOMPurify for user-generated content)
     const sanitizedDescription = data.description
       ? sanitizeHtml(data.description)
@@ -124,13 +174,22 @@ export async function POST(request: NextRequest) {
         title: data.title,
         description: sanitizedDescription,
         mediaUrl: data.mediaUrl || null,
+        mediaStatus:
+          data.type === "video" && data.mediaUrl ? "processing" : null,
         thumbnailUrl: data.thumbnailUrl || null,
         duration: data.duration || null,
         isFree: data.isFree,
+        priceCents: data.priceCents ?? null,
+        minTierId: data.minTierId ?? null,
         status: data.status,
         programId: data.programId || null,
         sortOrder: data.sortOrder || null,
+        unlockOffsetDays: data.programId
+          ? (data.unlockOffsetDays ?? null)
+          : null,
         publishedAt: data.status === "published" ? new Date() : null,
+        scheduledAt:
+          data.status === "scheduled" ? (data.scheduledAt ?? null) : null,
       },
     });
 
@@ -141,20 +200,10 @@ export async function POST(request: NextRequest) {
       const contentTitle = content.title;
       const contentId = content.id;
 
-      // Send in-app notifications
+      // Send in-app, push and email notifications
       notifyNewContent(creatorId, creatorName, contentTitle, contentId).catch(
         (error) =>
-          console.error("Error sending new content in-app notifications:", error),
-      );
-
-      // Send email notifications
-      sendNewContentEmailsToSubscribers(
-        creatorId,
-        creatorName,
-        contentTitle,
-        contentId,
-      ).catch((error) =>
-        console.error("Error sending new content email notifications:", error),
+          console.error("Error sending new content notifications:", error),
       );
     }
 
@@ -166,12 +215,19 @@ export async function POST(request: NextRequest) {
         title: content.title,
         description: content.description,
         mediaUrl: content.mediaUrl,
+        mediaStatus: content.mediaStatus,
+        mediaProgress: content.mediaProgress,
+        mediaError: content.mediaError,
         thumbnailUrl: content.thumbnailUrl,
         duration: content.duration,
         isFree: content.isFree,
+        priceCents: content.priceCents,
+        minTierId: content.minTierId,
         status: content.status,
+        scheduledAt: content.scheduledAt,
         programId: content.programId,
         sortOrder: content.sortOrder,
+        unlockOffsetDays: content.unlockOffsetDays,
         publishedAt: content.publishedAt,
         createdAt: content.createdAt,
       },
@@ -291,10 +347,16 @@ export async function GET(request: NextRequest) {
         title: item.title,
         description: item.description,
         mediaUrl: item.mediaUrl,
+        mediaStatus: item.mediaStatus,
+        mediaProgress: item.mediaProgress,
+        mediaError: item.mediaError,
         thumbnailUrl: item.thumbnailUrl,
         duration: item.duration,
         isFree: item.isFree,
+        priceCents: item.priceCents,
+        minTierId: item.minTierId,
         status: item.status,
+        scheduledAt: item.scheduledAt,
         programId: item.programId,
         program: item.program,
         sortOrder: item.sortOrder,
@@ -8,6 +8,7 @@ import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import { videoUploadUrlSchema } from "@/lib/validations/content";
 import { createStreamUploadUrl } from "@/lib/cloudflare";
+import { UPLOADING_MEDIA_STATE } from "@/lib/media/processing";
 import { uploadRateLimiter } from "@/lib/rate-limit";
 
 /**
@@ -115,11 +116,15 @@ export async function POST(request: NextRequest) {
       maxDurationSeconds,
     );
 
-    // Update content with the video UID (preliminary - will be confirmed after upload)
+    // Update content with the video UID. Processing starts over, and the
+    // Stream webhook moves it along (and fills in the duration) as the
+    // upload is encoded.
     await prisma.content.update({
       where: { id: contentId },
       data: {
         mediaUrl: videoUid, // Store the Cloudflare Stream UID
+        ...UPLOADING_MEDIA_STATE,
+        duration: null,
       },
     });
 
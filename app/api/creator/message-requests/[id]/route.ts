@@ -0,0 +1,189 @@
+/**
+ * PATCH /api/creator/message-requests/[id]
+ *
+ * Accept or decline a pending message request
+ *
+ * PRD Requirements:
+ * - Accepting turns the request into the first message of a conversation,
+ *   so the creator can reply and the sender can keep messaging
+ * - Declining stops the sender messaging or sending another request, and
+ *   refunds a paid request in full
+ * - Only the creator the request was sent to can respond
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { messageRequestResponseSchema } from "@/lib/validations/message";
+import { refundMessageRequest } from "@/lib/stripe";
+import { notifyMessageRequestAccepted } from "@/lib/notifications";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+
+    // Get user and verify they are a creator
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true, displayName: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = messageRequestResponseSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { action } = parseResult.data;
+
+    const messageRequest = await prisma.messageRequest.findFirst({
+      where: { id, creatorId: user.creatorProfile.id },
+    });
+
+    if (!messageRequest) {
+      return NextResponse.json(
+        { error: "Message request not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (messageRequest.status !== "pending") {
+      return NextResponse.json(
+        {
+          error: "This message request has already been answered",
+          code: "ALREADY_RESPONDED",
+        },
+        { status: 409 },
+      );
+    }
+
+    const respondedAt = new Date();
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only answer a request once, even if two responses race
+      const { count } = await tx.messageRequest.updateMany({
+        where: { id: messageRequest.id, status: "pending" },
+        data: {
+          status: action === "accept" ? "accepted" : "declined",
+          respondedAt,
+        },
+      });
+
+      if (count === 0) return false;
+
+      if (action === "accept") {
+        // The request becomes the first message, sent when it was requested
+        await tx.message.create({
+          data: {
+            senderId: messageRequest.senderId,
+            receiverId: user.id,
+            content: messageRequest.content,
+            isBroadcast: false,
+            isRead: true,
+            createdAt: messageRequest.createdAt,
+          },
+        });
+      }
+
+      return true;
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          error: "This message request has already been answered",
+          code: "ALREADY_RESPONDED",
+        },
+        { status: 409 },
+      );
+    }
+
+    if (action === "decline" && messageRequest.stripePaymentIntentId) {
+      try {
+        await refundMessageRequest(
+          messageRequest.stripePaymentIntentId,
+          messageRequest.id,
+        );
+      } catch (error) {
+        // Put the request back so declining can be retried
+        console.error(
+          `Failed to refund message request ${messageRequest.id}:`,
+          error,
+        );
+        await prisma.messageRequest.updateMany({
+          where: { id: messageRequest.id, status: "declined" },
+          data: { status: "pending", respondedAt: null },
+        });
+        return NextResponse.json(
+          {
+            error: "Couldn't refund this request. Please try again.",
+            code: "REFUND_FAILED",
+          },
+          { status: 502 },
+        );
+      }
+    }
+
+    // Declines aren't announced; accepts let the sender know (fire and forget)
+    if (action === "accept") {
+      notifyMessageRequestAccepted(
+        messageRequest.senderId,
+        user.creatorProfile.displayName,
+        user.id,
+      ).catch((error) =>
+        console.error("Error sending request accepted notification:", error),
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: action === "accept" ? "accepted" : "declined",
+      senderId: messageRequest.senderId,
+    });
+  } catch (error) {
+    console.error("Error responding to message request:", error);
+    return NextResponse.json(
+      { error: "Failed to respond to message request", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
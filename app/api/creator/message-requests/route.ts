@@ -0,0 +1,103 @@
+/**
+ * /api/creator/message-requests
+ *
+ * GET - Fetch the current creator's pending message requests
+ *
+ * PRD Requirements:
+ * - Message request inbox, newest first
+ * - Cursor-based pagination
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import {
+  messageRequestSenderSelect,
+  toMessageRequestItem,
+} from "@/lib/dm-policy";
+import { messageRequestListQuerySchema } from "@/lib/validations/message";
+
+/**
+ * GET /api/creator/message-requests
+ *
+ * Fetch pending message requests with the sender of each
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and verify they are a creator
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = messageRequestListQuerySchema.safeParse({
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || 20,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { cursor, limit } = queryResult.data;
+
+    const requests = await prisma.messageRequest.findMany({
+      where: { creatorId: user.creatorProfile.id, status: "pending" },
+      take: limit + 1,
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : 0,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      include: { sender: { select: messageRequestSenderSelect } },
+    });
+
+    // Determine pagination
+    const hasNextPage = requests.length > limit;
+    const nextCursor = hasNextPage ? requests[limit - 1]?.id : null;
+
+    return NextResponse.json({
+      items: requests.slice(0, limit).map(toMessageRequestItem),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error fetching message requests:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch message requests", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
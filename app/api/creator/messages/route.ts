@@ -1,22 +1,25 @@
 /**
  * /api/creator/messages
  *
- * GET - Fetch sent broadcast messages for the current creator
+ * GET - Fetch broadcasts for the current creator
  *
  * PRD Requirements:
  * - Shows sent broadcasts with timestamp
  * - Cursor-based pagination
+ *
+ * Includes scheduled broadcasts, and recipient and read counts for
+ * delivery stats.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { toBroadcastItems } from "@/lib/broadcasts";
 import { creatorMessagesQuerySchema } from "@/lib/validations/message";
 
 /**
  * GET /api/creator/messages
  *
- * Fetch sent broadcast messages for the creator
- * Groups by unique broadcast (same content + createdAt within 1 minute)
+ * Fetch the creator's broadcasts with delivery stats
  */
 export async function GET(request: NextRequest) {
   try {
@@ -76,65 +79,20 @@ export async function GET(request: NextRequest) {
 
     const { cursor, limit } = queryResult.data;
 
-    // Fetch broadcast messages sent by this creator
-    // We'll get distinct broadcasts by grouping messages with same content and similar timestamp
-    const messages = await prisma.message.findMany({
-      where: {
-        senderId: user.id,
-        isBroadcast: true,
-      },
+    // Fetch broadcasts, scheduled ones (furthest out) first
+    const broadcasts = await prisma.broadcast.findMany({
+      where: { creatorId: user.creatorProfile.id },
       take: limit + 1,
       cursor: cursor ? { id: cursor } : undefined,
       skip: cursor ? 1 : 0,
-      orderBy: { createdAt: "desc" },
-      distinct: ["content", "createdAt"],
+      orderBy: [{ scheduledAt: "desc" }, { id: "desc" }],
     });
 
-    // For each unique broadcast, get the recipient count
-    const broadcastsWithCounts = await Promise.all(
-      messages.slice(0, limit).map(async (message) => {
-        // Find all messages with the same content sent at the same time (within 10 seconds)
-        // This groups the broadcast
-        const recipientCount = await prisma.message.count({
-          where: {
-            senderId: user.id,
-            isBroadcast: true,
-            content: message.content,
-            createdAt: {
-              gte: new Date(message.createdAt.getTime() - 10000),
-              lte: new Date(message.createdAt.getTime() + 10000),
-            },
-          },
-        });
-
-        return {
-          id: message.id,
-          content: message.content,
-          createdAt: message.createdAt.toISOString(),
-          recipientCount,
-        };
-      }),
-    );
-
-    // De-duplicate broadcasts that might have the same content
-    // by using a Map keyed by content + minute timestamp
-    const uniqueBroadcasts = new Map<
-      string,
-      (typeof broadcastsWithCounts)[0]
-    >();
-    for (const broadcast of broadcastsWithCounts) {
-      const timestamp = new Date(broadcast.createdAt);
-      const key = `${broadcast.content}-${timestamp.getFullYear()}-${timestamp.getMonth()}-${timestamp.getDate()}-${timestamp.getHours()}-${timestamp.getMinutes()}`;
-      if (!uniqueBroadcasts.has(key)) {
-        uniqueBroadcasts.set(key, broadcast);
-      }
-    }
-
-    const items = Array.from(uniqueBroadcasts.values());
+    const items = await toBroadcastItems(broadcasts.slice(0, limit));
 
     // Determine pagination
-    const hasNextPage = messages.length > limit;
-    const nextCursor = hasNextPage ? messages[limit - 1]?.id : null;
+    const hasNextPage = broadcasts.length > limit;
+    const nextCursor = hasNextPage ? broadcasts[limit - 1]?.id : null;
 
     return NextResponse.json({
       items,
@@ -89,6 +89,8 @@ export async function POST(request: NextRequest) {
         avatarUrl: data.avatarUrl || null,
         category: data.category,
         subscriptionPrice: data.subscriptionPrice,
+        customPriceCents: data.customPriceCents,
+        annualDiscountPercent: data.annualDiscountPercent,
         trialEnabled: data.trialEnabled,
         status: "pending_setup", // Will become active after Stripe Connect
         stripeOnboardingComplete: false,
@@ -100,6 +102,8 @@ export async function POST(request: NextRequest) {
         avatarUrl: data.avatarUrl || null,
         category: data.category,
         subscriptionPrice: data.subscriptionPrice,
+        customPriceCents: data.customPriceCents,
+        annualDiscountPercent: data.annualDiscountPercent,
         trialEnabled: data.trialEnabled,
         // Keep status as pending_setup until Stripe is complete
       },
@@ -113,6 +117,8 @@ export async function POST(request: NextRequest) {
         displayName: creatorProfile.displayName,
         category: creatorProfile.category,
         subscriptionPrice: creatorProfile.subscriptionPrice,
+        customPriceCents: creatorProfile.customPriceCents,
+        annualDiscountPercent: creatorProfile.annualDiscountPercent,
         trialEnabled: creatorProfile.trialEnabled,
         status: creatorProfile.status,
       },
@@ -162,6 +168,8 @@ export async function GET() {
             avatarUrl: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
+            annualDiscountPercent: true,
             trialEnabled: true,
             status: true,
             stripeOnboardingComplete: true,
@@ -8,9 +8,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { invalidateContentCache } from "@/lib/middleware/subscription-check";
+import { isCreatorTier } from "@/lib/tiers";
 import {
   updateProgramSchema,
   reorderProgramContentSchema,
+  getScheduleError,
 } from "@/lib/validations/content";
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -72,6 +75,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             isFree: true,
             status: true,
             sortOrder: true,
+            unlockOffsetDays: true,
             publishedAt: true,
             createdAt: true,
           },
@@ -100,8 +104,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         description: program.description,
         thumbnailUrl: program.thumbnailUrl,
         isFree: program.isFree,
+        priceCents: program.priceCents,
+        minTierId: program.minTierId,
         sortOrder: program.sortOrder,
         publishedAt: program.publishedAt,
+        scheduledAt: program.scheduledAt,
         createdAt: program.createdAt,
         updatedAt: program.updatedAt,
         contentCount: program._count.content,
@@ -238,6 +245,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const data = parseResult.data;
 
+    // If minTierId is provided, verify it belongs to this creator
+    if (
+      data.minTierId &&
+      !(await isCreatorTier(user.creatorProfile.id, data.minTierId))
+    ) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "TIER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
     // Prepare update data
     const updateData: Parameters<typeof prisma.program.update>[0]["data"] = {};
 
@@ -247,10 +265,33 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (data.thumbnailUrl !== undefined)
       updateData.thumbnailUrl = data.thumbnailUrl;
     if (data.isFree !== undefined) updateData.isFree = data.isFree;
+    if (data.priceCents !== undefined) updateData.priceCents = data.priceCents;
+    if (data.minTierId !== undefined) updateData.minTierId = data.minTierId;
     if (data.sortOrder !== undefined) updateData.sortOrder = data.sortOrder;
     if (data.publishedAt !== undefined)
       updateData.publishedAt = data.publishedAt;
 
+    // Only unpublished programs can be scheduled; publishing clears it
+    if (data.scheduledAt) {
+      const isPublished =
+        data.publishedAt !== undefined
+          ? data.publishedAt !== null
+          : existingProgram.publishedAt !== null;
+      const scheduleError = isPublished
+        ? "Published programs can't be scheduled"
+        : getScheduleError(data.scheduledAt);
+
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError, code: "INVALID_SCHEDULE" },
+          { status: 400 },
+        );
+      }
+      updateData.scheduledAt = data.scheduledAt;
+    } else if (data.scheduledAt === null || data.publishedAt) {
+      updateData.scheduledAt = null;
+    }
+
     // Update program
     const updatedProgram = await prisma.program.update({
       where: { id },
@@ -266,6 +307,20 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    // The program's tier applies to all of its content
+    if (
+      data.minTierId !== undefined &&
+      data.minTierId !== existingProgram.minTierId
+    ) {
+      const programContent = await prisma.content.findMany({
+        where: { programId: id },
+        select: { id: true },
+      });
+      await Promise.all(
+        programContent.map((content) => invalidateContentCache(content.id)),
+      );
+    }
+
     return NextResponse.json({
       success: true,
       program: {
@@ -274,8 +329,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         description: updatedProgram.description,
         thumbnailUrl: updatedProgram.thumbnailUrl,
         isFree: updatedProgram.isFree,
+        priceCents: updatedProgram.priceCents,
+        minTierId: updatedProgram.minTierId,
         sortOrder: updatedProgram.sortOrder,
         publishedAt: updatedProgram.publishedAt,
+        scheduledAt: updatedProgram.scheduledAt,
         createdAt: updatedProgram.createdAt,
         updatedAt: updatedProgram.updatedAt,
         contentCount: updatedProgram._count.content,
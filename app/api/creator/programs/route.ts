@@ -7,9 +7,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { isCreatorTier } from "@/lib/tiers";
 import {
   createProgramSchema,
   programListQuerySchema,
+  getScheduleError,
 } from "@/lib/validations/content";
 
 /**
@@ -69,6 +71,28 @@ export async function POST(request: NextRequest) {
 
     const data = parseResult.data;
 
+    // If minTierId is provided, verify it belongs to this creator
+    if (
+      data.minTierId &&
+      !(await isCreatorTier(user.creatorProfile.id, data.minTierId))
+    ) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "TIER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Scheduled programs need a future publish time
+    if (data.scheduledAt) {
+      const scheduleError = getScheduleError(data.scheduledAt);
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError, code: "INVALID_SCHEDULE" },
+          { status: 400 },
+        );
+      }
+    }
+
     // Create the program
     const program = await prisma.program.create({
       data: {
@@ -77,7 +101,10 @@ export async function POST(request: NextRequest) {
         description: data.description || null,
         thumbnailUrl: data.thumbnailUrl || null,
         isFree: data.isFree,
+        priceCents: data.priceCents ?? null,
+        minTierId: data.minTierId ?? null,
         sortOrder: data.sortOrder,
+        scheduledAt: data.scheduledAt ?? null,
       },
     });
 
@@ -89,8 +116,11 @@ export async function POST(request: NextRequest) {
         description: program.description,
         thumbnailUrl: program.thumbnailUrl,
         isFree: program.isFree,
+        priceCents: program.priceCents,
+        minTierId: program.minTierId,
         sortOrder: program.sortOrder,
         publishedAt: program.publishedAt,
+        scheduledAt: program.scheduledAt,
         createdAt: program.createdAt,
       },
     });
@@ -218,8 +248,11 @@ export async function GET(request: NextRequest) {
         description: item.description,
         thumbnailUrl: item.thumbnailUrl,
         isFree: item.isFree,
+        priceCents: item.priceCents,
+        minTierId: item.minTierId,
         sortOrder: item.sortOrder,
         publishedAt: item.publishedAt,
+        scheduledAt: item.scheduledAt,
         createdAt: item.createdAt,
         updatedAt: item.updatedAt,
         contentCount: item._count.content,
@@ -0,0 +1,212 @@
+/**
+ * /api/creator/promo-codes/[id]
+ *
+ * PATCH - Archive or restore a promo code
+ * DELETE - Delete a promo code, or archive it if it has been used
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { setPromotionCodeActive } from "@/lib/stripe";
+import {
+  creatorPromoCodeSelect,
+  formatCreatorPromoCode,
+} from "@/lib/promo-codes";
+import { updatePromoCodeSchema } from "@/lib/validations/promo-code";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/creator/promo-codes/[id]
+ *
+ * Archive or restore a code. Discount terms can't be edited since Stripe
+ * coupons are immutable; creators archive a code and make a new one.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Verify promo code exists and belongs to this creator
+    const existingCode = await prisma.promoCode.findFirst({
+      where: {
+        id,
+        creatorId: user.creatorProfile.id,
+      },
+      select: { id: true, archivedAt: true, stripePromotionCodeId: true },
+    });
+
+    if (!existingCode) {
+      return NextResponse.json(
+        { error: "Promo code not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = updatePromoCodeSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { archived } = parseResult.data;
+
+    if (existingCode.stripePromotionCodeId) {
+      await setPromotionCodeActive(
+        existingCode.stripePromotionCodeId,
+        !archived,
+      );
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data: {
+        archivedAt: archived ? (existingCode.archivedAt ?? new Date()) : null,
+      },
+      select: creatorPromoCodeSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      promoCode: formatCreatorPromoCode(promoCode),
+    });
+  } catch (error) {
+    console.error("Error updating promo code:", error);
+    return NextResponse.json(
+      { error: "Failed to update promo code", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/creator/promo-codes/[id]
+ *
+ * Unused codes are deleted. Codes that subscribers have used are archived
+ * instead so subscriptions keep a record of the code they joined with.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Verify promo code exists and belongs to this creator
+    const existingCode = await prisma.promoCode.findFirst({
+      where: {
+        id,
+        creatorId: user.creatorProfile.id,
+      },
+      select: {
+        id: true,
+        archivedAt: true,
+        redemptionCount: true,
+        stripePromotionCodeId: true,
+        _count: { select: { subscriptions: true } },
+      },
+    });
+
+    if (!existingCode) {
+      return NextResponse.json(
+        { error: "Promo code not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Either way the code stops working in Stripe
+    if (existingCode.stripePromotionCodeId && !existingCode.archivedAt) {
+      await setPromotionCodeActive(existingCode.stripePromotionCodeId, false);
+    }
+
+    if (
+      existingCode.redemptionCount > 0 ||
+      existingCode._count.subscriptions > 0
+    ) {
+      if (!existingCode.archivedAt) {
+        await prisma.promoCode.update({
+          where: { id },
+          data: { archivedAt: new Date() },
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        archived: true,
+        message: "Promo code archived. It can no longer be used.",
+      });
+    }
+
+    await prisma.promoCode.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      archived: false,
+      message: "Promo code deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting promo code:", error);
+    return NextResponse.json(
+      { error: "Failed to delete promo code", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
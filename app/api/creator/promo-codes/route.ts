@@ -0,0 +1,231 @@
+/**
+ * /api/creator/promo-codes
+ *
+ * GET - List the creator's promo codes, including archived ones
+ * POST - Create a promo code (and its Stripe coupon, for discounts)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import { prisma } from "@/lib/prisma";
+import { createPromotionCode } from "@/lib/stripe";
+import {
+  creatorPromoCodeSelect,
+  formatCreatorPromoCode,
+} from "@/lib/promo-codes";
+import {
+  createPromoCodeSchema,
+  MAX_PROMO_CODES,
+} from "@/lib/validations/promo-code";
+
+/**
+ * GET /api/creator/promo-codes
+ *
+ * List all promo codes, newest first
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where: { creatorId: user.creatorProfile.id },
+      orderBy: { createdAt: "desc" },
+      select: creatorPromoCodeSelect,
+    });
+
+    return NextResponse.json({
+      items: promoCodes.map(formatCreatorPromoCode),
+      maxPromoCodes: MAX_PROMO_CODES,
+    });
+  } catch (error) {
+    console.error("Error fetching promo codes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch promo codes", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/creator/promo-codes
+ *
+ * Create a promo code. Codes with a discount get a Stripe coupon and
+ * promotion code; trial-only codes live just in our database.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true, handle: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = createPromoCodeSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const data = parseResult.data;
+    const creator = user.creatorProfile;
+
+    const [count, duplicate] = await Promise.all([
+      prisma.promoCode.count({ where: { creatorId: creator.id } }),
+      prisma.promoCode.findUnique({
+        where: { creatorId_code: { creatorId: creator.id, code: data.code } },
+        select: { id: true },
+      }),
+    ]);
+
+    if (count >= MAX_PROMO_CODES) {
+      return NextResponse.json(
+        {
+          error: `You can create at most ${MAX_PROMO_CODES} promo codes`,
+          code: "PROMO_CODE_LIMIT_REACHED",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (duplicate) {
+      return NextResponse.json(
+        {
+          error: "You already have a promo code with this name",
+          code: "PROMO_CODE_EXISTS",
+        },
+        { status: 409 },
+      );
+    }
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        creatorId: creator.id,
+        code: data.code,
+        percentOff: data.percentOff,
+        amountOffCents: data.amountOffCents,
+        duration: data.duration,
+        durationInMonths:
+          data.duration === "repeating" ? data.durationInMonths : null,
+        trialDays: data.trialDays,
+        maxRedemptions: data.maxRedemptions,
+        expiresAt: data.expiresAt,
+      },
+      select: creatorPromoCodeSelect,
+    });
+
+    if (data.percentOff === null && data.amountOffCents === null) {
+      return NextResponse.json({
+        success: true,
+        promoCode: formatCreatorPromoCode(promoCode),
+      });
+    }
+
+    // Back the discount with a Stripe coupon; drop the code if that fails
+    try {
+      const { couponId, promotionCodeId } = await createPromotionCode({
+        creatorId: creator.id,
+        promoCodeId: promoCode.id,
+        name: `${data.code} (@${creator.handle})`,
+        percentOff: data.percentOff,
+        amountOffCents: data.amountOffCents,
+        duration: data.duration,
+        durationInMonths: promoCode.durationInMonths,
+        maxRedemptions: data.maxRedemptions,
+        expiresAt: data.expiresAt,
+      });
+
+      await prisma.promoCode.update({
+        where: { id: promoCode.id },
+        data: {
+          stripeCouponId: couponId,
+          stripePromotionCodeId: promotionCodeId,
+        },
+      });
+    } catch (stripeError) {
+      await prisma.promoCode.delete({ where: { id: promoCode.id } });
+      throw stripeError;
+    }
+
+    return NextResponse.json({
+      success: true,
+      promoCode: formatCreatorPromoCode(promoCode),
+    });
+  } catch (error) {
+    console.error("Error creating promo code:", error);
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        {
+          error: "Stripe couldn't create this discount. Please try again.",
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create promo code", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
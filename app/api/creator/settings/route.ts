@@ -10,6 +10,7 @@ import { prisma } from "@/lib/prisma";
 import { creatorSettingsUpdateSchema } from "@/lib/validations/analytics";
 import { sanitizeHtml } from "@/lib/sanitize";
 import { createRateLimiter } from "@/lib/rate-limit";
+import { isCreatorTier } from "@/lib/tiers";
 
 /**
  * Rate limiter for settings API
@@ -65,8 +66,19 @@ export async function GET() {
             coverImageUrl: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
+            annualDiscountPercent: true,
             trialEnabled: true,
+            trialDays: true,
             dmEnabled: true,
+            dmMinTierId: true,
+            dmMinSubscribedDays: true,
+            dmFollowerRequests: true,
+            dmRequestPriceCents: true,
+            dmDailyLimit: true,
+            retentionDiscountPercent: true,
+            retentionPauseMonths: true,
+            winBackDelayDays: true,
             stripeAccountId: true,
             stripeOnboardingComplete: true,
             status: true,
@@ -207,14 +219,72 @@ export async function PATCH(request: NextRequest) {
       updateData.subscriptionPrice = data.subscriptionPrice;
     }
 
+    // Price changes only apply to new subscribers; existing subscriptions
+    // keep their Stripe price and priceAtPurchase
+    if (data.customPriceCents !== undefined) {
+      updateData.customPriceCents = data.customPriceCents;
+    }
+
+    if (data.annualDiscountPercent !== undefined) {
+      updateData.annualDiscountPercent = data.annualDiscountPercent;
+    }
+
     if (data.trialEnabled !== undefined) {
       updateData.trialEnabled = data.trialEnabled;
     }
 
+    if (data.trialDays !== undefined) {
+      updateData.trialDays = data.trialDays;
+    }
+
     if (data.dmEnabled !== undefined) {
       updateData.dmEnabled = data.dmEnabled;
     }
 
+    if (data.dmMinTierId !== undefined) {
+      if (
+        data.dmMinTierId !== null &&
+        !(await isCreatorTier(user.creatorProfile.id, data.dmMinTierId))
+      ) {
+        return NextResponse.json(
+          { error: "Tier not found", code: "TIER_NOT_FOUND" },
+          { status: 400 },
+        );
+      }
+      updateData.dmMinTier = data.dmMinTierId
+        ? { connect: { id: data.dmMinTierId } }
+        : { disconnect: true };
+    }
+
+    if (data.dmMinSubscribedDays !== undefined) {
+      updateData.dmMinSubscribedDays = data.dmMinSubscribedDays;
+    }
+
+    if (data.dmFollowerRequests !== undefined) {
+      updateData.dmFollowerRequests = data.dmFollowerRequests;
+    }
+
+    if (data.dmRequestPriceCents !== undefined) {
+      updateData.dmRequestPriceCents = data.dmRequestPriceCents;
+    }
+
+    if (data.dmDailyLimit !== undefined) {
+      updateData.dmDailyLimit = data.dmDailyLimit;
+    }
+
+    if (data.retentionDiscountPercent !== undefined) {
+      updateData.retentionDiscountPercent = data.retentionDiscountPercent;
+    }
+
+    if (data.retentionPauseMonths !== undefined) {
+      updateData.retentionPauseMonths = data.retentionPauseMonths;
+    }
+
+    // Only applies to subscriptions that end after the change
+    if (data.winBackDelayDays !== undefined) {
+      updateData.winBackDelayDays = data.winBackDelayDays;
+    }
+
     // Update creator profile
     const updatedProfile = await prisma.creatorProfile.update({
       where: { id: user.creatorProfile.id },
@@ -228,8 +298,19 @@ export async function PATCH(request: NextRequest) {
         coverImageUrl: true,
         category: true,
         subscriptionPrice: true,
+        customPriceCents: true,
+        annualDiscountPercent: true,
         trialEnabled: true,
+        trialDays: true,
         dmEnabled: true,
+        dmMinTierId: true,
+        dmMinSubscribedDays: true,
+        dmFollowerRequests: true,
+        dmRequestPriceCents: true,
+        dmDailyLimit: true,
+        retentionDiscountPercent: true,
+        retentionPauseMonths: true,
+        winBackDelayDays: true,
         stripeAccountId: true,
         stripeOnboardingComplete: true,
         status: true,
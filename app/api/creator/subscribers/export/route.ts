@@ -0,0 +1,194 @@
+/**
+ * /api/creator/subscribers/export
+ *
+ * GET - Download the creator's subscriber list as CSV or JSON
+ *
+ * Exports the same subscribers and fields the subscriber list shows:
+ * current (active or trialing) subscribers only, and no more about them
+ * than their name and email. Former subscribers aren't exported.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { subscriberExportQuerySchema } from "@/lib/validations/analytics";
+import { createRateLimiter } from "@/lib/rate-limit";
+import {
+  createExportResponse,
+  getExportFilename,
+  type ExportColumn,
+} from "@/lib/exports";
+
+/**
+ * Rate limiter for exports
+ * Exports read every subscriber, so they're limited more tightly than
+ * the list
+ */
+const exportRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 10,
+});
+
+/** Subscribers read from the database per page while streaming */
+const EXPORT_BATCH_SIZE = 500;
+
+const subscriberSelect = {
+  id: true,
+  userId: true,
+  status: true,
+  priceAtPurchase: true,
+  currentPeriodStart: true,
+  currentPeriodEnd: true,
+  createdAt: true,
+  user: {
+    select: { name: true, email: true },
+  },
+} satisfies Prisma.SubscriptionSelect;
+
+type ExportedSubscriber = Prisma.SubscriptionGetPayload<{
+  select: typeof subscriberSelect;
+}>;
+
+const columns: ExportColumn<ExportedSubscriber>[] = [
+  { key: "id", value: (sub) => sub.id },
+  { key: "userId", value: (sub) => sub.userId },
+  { key: "name", value: (sub) => sub.user.name },
+  { key: "email", value: (sub) => sub.user.email },
+  { key: "status", value: (sub) => sub.status },
+  { key: "priceAtPurchase", value: (sub) => sub.priceAtPurchase },
+  {
+    key: "currentPeriodStart",
+    value: (sub) => sub.currentPeriodStart?.toISOString() ?? null,
+  },
+  {
+    key: "currentPeriodEnd",
+    value: (sub) => sub.currentPeriodEnd?.toISOString() ?? null,
+  },
+  { key: "createdAt", value: (sub) => sub.createdAt.toISOString() },
+];
+
+/**
+ * Page through subscribers in list order
+ */
+async function* findSubscribers(where: Prisma.SubscriptionWhereInput) {
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.subscription.findMany({
+      where,
+      take: EXPORT_BATCH_SIZE,
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : 0,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: subscriberSelect,
+    });
+
+    yield* batch;
+
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * GET /api/creator/subscribers/export
+ *
+ * Query params:
+ *   - format: csv or json (default: csv)
+ *   - search: Search by name or email
+ *   - status: Filter by status (active, trialing, all)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Check rate limit
+    const rateLimitResult = exportRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After":
+              rateLimitResult.retryAfterSeconds?.toString() || "60",
+          },
+        },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true, handle: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const { id: creatorId, handle } = user.creatorProfile;
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = subscriberExportQuerySchema.safeParse({
+      format: searchParams.get("format") || "csv",
+      search: searchParams.get("search") || undefined,
+      status: searchParams.get("status") || "all",
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { format, search, status } = queryResult.data;
+
+    const where: Prisma.SubscriptionWhereInput = {
+      creatorId,
+      status: status === "all" ? { in: ["active", "trialing"] } : status,
+    };
+
+    if (search) {
+      where.user = {
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { email: { contains: search, mode: "insensitive" } },
+        ],
+      };
+    }
+
+    return createExportResponse({
+      filename: getExportFilename(handle, "subscribers", format),
+      format,
+      columns,
+      rows: findSubscribers(where),
+    });
+  } catch (error) {
+    console.error("Error exporting subscribers:", error);
+    return NextResponse.json(
+      { error: "Failed to export subscribers", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
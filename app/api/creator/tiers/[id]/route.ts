@@ -0,0 +1,220 @@
+/**
+ * /api/creator/tiers/[id]
+ *
+ * PATCH - Update a tier's name, description or price, or archive/restore it
+ * DELETE - Delete a tier, or archive it if it has ever had subscribers
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { invalidateContentCache } from "@/lib/middleware/subscription-check";
+import { creatorTierSelect, formatCreatorTier } from "@/lib/tiers";
+import { updateTierSchema } from "@/lib/validations/tier";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/creator/tiers/[id]
+ *
+ * Update a tier. Price changes apply to new members and tier changes;
+ * existing members keep the price they joined at.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Verify tier exists and belongs to this creator
+    const existingTier = await prisma.membershipTier.findFirst({
+      where: {
+        id,
+        creatorId: user.creatorProfile.id,
+      },
+      select: { id: true, archivedAt: true },
+    });
+
+    if (!existingTier) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = updateTierSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const data = parseResult.data;
+
+    // Prepare update data
+    const updateData: Parameters<
+      typeof prisma.membershipTier.update
+    >[0]["data"] = {};
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined)
+      updateData.description = data.description || null;
+    if (data.priceCents !== undefined) updateData.priceCents = data.priceCents;
+    if (data.archived !== undefined)
+      updateData.archivedAt = data.archived
+        ? (existingTier.archivedAt ?? new Date())
+        : null;
+
+    const tier = await prisma.membershipTier.update({
+      where: { id },
+      data: updateData,
+      select: creatorTierSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      tier: formatCreatorTier(tier),
+    });
+  } catch (error) {
+    console.error("Error updating tier:", error);
+    return NextResponse.json(
+      { error: "Failed to update tier", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/creator/tiers/[id]
+ *
+ * Tiers that have never had a subscriber are deleted, and content gated
+ * on them opens up to all subscribers. Tiers with subscription history
+ * are archived instead so existing members keep their access.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Verify tier exists and belongs to this creator
+    const existingTier = await prisma.membershipTier.findFirst({
+      where: {
+        id,
+        creatorId: user.creatorProfile.id,
+      },
+      select: {
+        id: true,
+        archivedAt: true,
+        _count: { select: { subscriptions: true } },
+      },
+    });
+
+    if (!existingTier) {
+      return NextResponse.json(
+        { error: "Tier not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (existingTier._count.subscriptions > 0) {
+      if (!existingTier.archivedAt) {
+        await prisma.membershipTier.update({
+          where: { id },
+          data: { archivedAt: new Date() },
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        archived: true,
+        message: "Tier archived. Existing members keep their access.",
+      });
+    }
+
+    // Content gated on this tier (directly or via its program) loses the
+    // requirement, so drop its cached access metadata
+    const gatedContent = await prisma.content.findMany({
+      where: {
+        OR: [{ minTierId: id }, { program: { minTierId: id } }],
+      },
+      select: { id: true },
+    });
+
+    // Content, programs and DM settings have minTierId set to null
+    // (onDelete: SetNull)
+    await prisma.membershipTier.delete({
+      where: { id },
+    });
+
+    await Promise.all(
+      gatedContent.map((content) => invalidateContentCache(content.id)),
+    );
+
+    return NextResponse.json({
+      success: true,
+      archived: false,
+      message: "Tier deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting tier:", error);
+    return NextResponse.json(
+      { error: "Failed to delete tier", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * /api/creator/tiers
+ *
+ * GET - List the creator's membership tiers, including archived ones
+ * POST - Create a new tier ranked above the existing tiers
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { creatorTierSelect, formatCreatorTier } from "@/lib/tiers";
+import {
+  createTierSchema,
+  MAX_MEMBERSHIP_TIERS,
+} from "@/lib/validations/tier";
+
+/**
+ * GET /api/creator/tiers
+ *
+ * List all tiers, lowest rank first
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user?.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const tiers = await prisma.membershipTier.findMany({
+      where: { creatorId: user.creatorProfile.id },
+      orderBy: { rank: "asc" },
+      select: creatorTierSelect,
+    });
+
+    return NextResponse.json({
+      items: tiers.map(formatCreatorTier),
+      maxTiers: MAX_MEMBERSHIP_TIERS,
+    });
+  } catch (error) {
+    console.error("Error fetching tiers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tiers", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/creator/tiers
+ *
+ * Create a tier. New tiers rank above every existing tier, so creators
+ * add tiers from the cheapest upwards.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and creator profile
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      include: {
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = createTierSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const data = parseResult.data;
+    const creatorId = user.creatorProfile.id;
+
+    const existing = await prisma.membershipTier.aggregate({
+      where: { creatorId },
+      _count: true,
+      _max: { rank: true },
+    });
+
+    if (existing._count >= MAX_MEMBERSHIP_TIERS) {
+      return NextResponse.json(
+        {
+          error: `You can offer at most ${MAX_MEMBERSHIP_TIERS} tiers`,
+          code: "TIER_LIMIT_REACHED",
+        },
+        { status: 400 },
+      );
+    }
+
+    const tier = await prisma.membershipTier.create({
+      data: {
+        creatorId,
+        name: data.name,
+        description: data.description || null,
+        rank: (existing._max.rank ?? 0) + 1,
+        priceCents: data.priceCents,
+      },
+      select: creatorTierSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      tier: formatCreatorTier(tier),
+    });
+  } catch (error) {
+    console.error("Error creating tier:", error);
+    return NextResponse.json(
+      { error: "Failed to create tier", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,6 +3,11 @@ import { z } from "zod";
 import { auth } from "@clerk/nextjs/server";
 
 import { prisma } from "@/lib/prisma";
+import {
+  getRequiredTierRank,
+  requiredTierSelect,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 
 /**
  * Creator Content API Route
@@ -12,6 +17,7 @@ import { prisma } from "@/lib/prisma";
  * Returns paginated list of creator's content.
  * - Free content is always visible
  * - Paid content is visible but marked as locked unless user has subscription
+ *   (at the content's required tier or above)
  *
  * Public endpoint - authentication optional (affects access status).
  */
@@ -76,6 +82,7 @@ export async function GET(
 
     // Check if user is authenticated and has subscription
     let hasAccess = false;
+    let tierRank = UNTIERED_RANK;
     const { userId } = await auth();
 
     if (userId) {
@@ -93,9 +100,11 @@ export async function GET(
             creatorId: creator.id,
             status: { in: ["active", "trialing"] },
           },
+          select: { tier: { select: { rank: true } } },
         });
 
         hasAccess = !!subscription;
+        tierRank = subscription?.tier?.rank ?? UNTIERED_RANK;
       }
     }
 
@@ -131,6 +140,7 @@ export async function GET(
         isFree: true,
         publishedAt: true,
         createdAt: true,
+        ...requiredTierSelect,
       },
       orderBy: { publishedAt: "desc" },
       take: limit + 1,
@@ -148,21 +158,26 @@ export async function GET(
     }
 
     // Transform response - add access information
-    const items = content.map((item) => ({
-      id: item.id,
-      title: item.title,
-      // Only include full description if user has access or content is free
-      description:
-        item.isFree || hasAccess
+    const items = content.map((item) => {
+      const itemHasAccess =
+        item.isFree ||
+        (hasAccess && tierRank >= getRequiredTierRank(item));
+
+      return {
+        id: item.id,
+        title: item.title,
+        // Only include full description if user has access
+        description: itemHasAccess
           ? item.description
           : item.description?.substring(0, 100) + "...",
-      thumbnailUrl: item.thumbnailUrl,
-      type: item.type,
-      duration: item.duration,
-      isFree: item.isFree,
-      hasAccess: item.isFree || hasAccess,
-      publishedAt: item.publishedAt,
-    }));
+        thumbnailUrl: item.thumbnailUrl,
+        type: item.type,
+        duration: item.duration,
+        isFree: item.isFree,
+        hasAccess: itemHasAccess,
+        publishedAt: item.publishedAt,
+      };
+    });
 
     // Get counts for response metadata
     const totalCount = await prisma.content.count({
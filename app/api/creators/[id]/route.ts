@@ -35,6 +35,7 @@ export async function GET(
         coverImageUrl: true,
         category: true,
         subscriptionPrice: true,
+        customPriceCents: true,
         trialEnabled: true,
         dmEnabled: true,
         isVerified: true,
@@ -95,6 +96,7 @@ export async function GET(
       coverImageUrl: creator.coverImageUrl,
       category: creator.category,
       subscriptionPrice: creator.subscriptionPrice,
+      customPriceCents: creator.customPriceCents,
       trialEnabled: creator.trialEnabled,
       dmEnabled: creator.dmEnabled,
       isVerified: creator.isVerified,
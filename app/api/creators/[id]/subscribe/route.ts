@@ -9,11 +9,19 @@
  * - Creator must exist and have Stripe onboarding complete
  * - User cannot already be subscribed to this creator
  *
+ * Body (optional): { interval?: "month" | "year", tierId?: string,
+ *   promoCode?: string }
+ * Annual checkout is only available when the creator offers an annual plan.
+ * When the creator offers membership tiers, the subscriber joins the given
+ * tier (or the lowest tier if none is given) at that tier's price.
+ * A promo code applies the creator's discount and may change the trial
+ * length; otherwise the creator's trial setting applies.
+ *
  * Flow:
  * 1. Validate user authentication
  * 2. Validate creator exists and is ready for subscriptions
  * 3. Get or create Stripe customer for user
- * 4. Get or create price for creator's tier
+ * 4. Get or create price for the creator's (or tier's) monthly/annual amount
  * 5. Create checkout session with platform fee
  * 6. Return checkout URL
  */
@@ -27,9 +35,12 @@ import {
   getOrCreateCustomer,
   getOrCreatePrice,
   createSubscriptionCheckout,
-  PRICE_TIER_TO_CENTS,
 } from "@/lib/stripe";
+import { getPriceForInterval, getTierPriceForInterval } from "@/lib/pricing";
+import { getJoinableTiers } from "@/lib/tiers";
+import { findPromoCode } from "@/lib/promo-codes";
 import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import { createSubscriptionSchema } from "@/lib/validations/subscription";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -70,6 +81,23 @@ export async function POST(
       );
     }
 
+    // Parse optional body (plain POSTs default to monthly billing)
+    const body = await request.json().catch(() => ({}));
+    const parseResult = createSubscriptionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid subscription request",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { interval, tierId, promoCode: promoCodeInput } = parseResult.data;
+
     // Get the current user
     const user = await prisma.user.findUnique({
       where: { clerkId },
@@ -95,7 +123,10 @@ export async function POST(
         handle: true,
         displayName: true,
         subscriptionPrice: true,
+        customPriceCents: true,
+        annualDiscountPercent: true,
         trialEnabled: true,
+        trialDays: true,
         stripeAccountId: true,
         stripeOnboardingComplete: true,
         status: true,
@@ -184,10 +215,37 @@ export async function POST(
         id: true,
         status: true,
         cancelAtPeriodEnd: true,
+        giftId: true,
       },
     });
 
     if (existingSubscription) {
+      if (
+        existingSubscription.giftId &&
+        existingSubscription.status === "active"
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              "You have a gift membership to this creator. You can subscribe once it ends.",
+            code: "GIFT_ACTIVE",
+          },
+          { status: 400 },
+        );
+      }
+
+      // A second subscription would bill alongside the paused one
+      if (existingSubscription.status === "paused") {
+        return NextResponse.json(
+          {
+            error:
+              "Your subscription to this creator is paused. You can resume it from your subscription settings.",
+            code: "SUBSCRIPTION_PAUSED",
+          },
+          { status: 400 },
+        );
+      }
+
       if (
         existingSubscription.status === "active" ||
         existingSubscription.status === "trialing"
@@ -213,6 +271,53 @@ export async function POST(
       }
     }
 
+    // Creators with tiers sell tiers instead of a single membership
+    const tiers = await getJoinableTiers(creator.id);
+    const tier = tierId ? tiers.find((t) => t.id === tierId) : tiers[0];
+
+    if (tierId && !tier) {
+      return NextResponse.json(
+        {
+          error: "This membership tier isn't available",
+          code: "TIER_NOT_FOUND",
+        },
+        { status: 404 },
+      );
+    }
+
+    // New subscribers pay the current price for the chosen interval
+    const amountInCents = tier
+      ? getTierPriceForInterval(tier, creator.annualDiscountPercent, interval)
+      : getPriceForInterval(creator, interval);
+
+    if (amountInCents === null) {
+      return NextResponse.json(
+        {
+          error: "This creator doesn't offer an annual plan",
+          code: "ANNUAL_PLAN_UNAVAILABLE",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Look up the creator's promo code, if one was entered
+    const promoResult = promoCodeInput
+      ? await findPromoCode(creator.id, promoCodeInput)
+      : null;
+
+    if (promoResult?.unavailableReason) {
+      return NextResponse.json(
+        { error: promoResult.unavailableReason, code: "INVALID_PROMO_CODE" },
+        { status: 400 },
+      );
+    }
+
+    const promoCode = promoResult?.promoCode ?? null;
+
+    // A promo code's trial overrides the creator's trial setting
+    const trialDays =
+      promoCode?.trialDays ?? (creator.trialEnabled ? creator.trialDays : 0);
+
     // Get or create Stripe customer
     const stripeCustomerId = await getOrCreateCustomer(
       user.email,
@@ -228,9 +333,9 @@ export async function POST(
       });
     }
 
-    // Get or create price for this tier on the platform account
+    // Get or create price for this amount on the platform account
     // Note: Prices are created on the platform, funds are routed via transfer_data
-    const priceId = await getOrCreatePrice(creator.subscriptionPrice);
+    const priceId = await getOrCreatePrice(amountInCents, interval, tier);
 
     // Build URLs for success/cancel
     const baseUrl = getBaseUrl();
@@ -244,7 +349,10 @@ export async function POST(
       creatorStripeAccountId: creator.stripeAccountId,
       creatorId: creator.id,
       userId: user.id,
-      trialPeriodDays: creator.trialEnabled ? 7 : undefined,
+      tierId: tier?.id,
+      trialPeriodDays: trialDays || undefined,
+      promoCodeId: promoCode?.id,
+      stripePromotionCodeId: promoCode?.stripePromotionCodeId ?? undefined,
       successUrl,
       cancelUrl,
     });
@@ -263,7 +371,7 @@ export async function POST(
     }
 
     // Return the checkout URL
-    const priceInDollars = PRICE_TIER_TO_CENTS[creator.subscriptionPrice] / 100;
+    const priceInDollars = amountInCents / 100;
     return NextResponse.json({
       url: session.url,
       sessionId: session.id,
@@ -273,7 +381,10 @@ export async function POST(
       },
       subscription: {
         price: priceInDollars,
-        trialDays: creator.trialEnabled ? 7 : 0,
+        interval,
+        tier: tier ? { id: tier.id, name: tier.name } : null,
+        trialDays,
+        promoCode: promoCode?.code ?? null,
       },
     });
   } catch (error) {
@@ -76,6 +76,7 @@ export async function GET(request: NextRequest) {
         coverImageUrl: true,
         category: true,
         subscriptionPrice: true,
+        customPriceCents: true,
         trialEnabled: true,
         isVerified: true,
         isFeatured: true,
@@ -119,6 +120,7 @@ export async function GET(request: NextRequest) {
       coverImageUrl: creator.coverImageUrl,
       category: creator.category,
       subscriptionPrice: creator.subscriptionPrice,
+      customPriceCents: creator.customPriceCents,
       trialEnabled: creator.trialEnabled,
       isVerified: creator.isVerified,
       isFeatured: creator.isFeatured,
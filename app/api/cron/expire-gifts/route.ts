@@ -0,0 +1,50 @@
+/**
+ * /api/cron/expire-gifts
+ *
+ * End gifted subscriptions whose gifted months have run out. Gifted
+ * subscriptions have no Stripe billing, so nothing else cancels them.
+ * Meant to be called by a scheduler every hour or so.
+ *
+ * SECURITY:
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. The route is
+ * public in middleware since schedulers can't sign in through Clerk.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { expireGiftSubscriptions } from "@/lib/gifts";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const expired = await expireGiftSubscriptions();
+    return NextResponse.json({ success: true, expired });
+  } catch (error) {
+    console.error("Error expiring gift subscriptions:", error);
+    return NextResponse.json(
+      { error: "Failed to expire gift subscriptions", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/cron/expire-gifts
+ *
+ * Most schedulers (e.g. Vercel Cron) send GET requests
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/expire-gifts
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -0,0 +1,50 @@
+/**
+ * /api/cron/publish-scheduled
+ *
+ * Publish scheduled content and programs whose publish time has passed,
+ * then send the usual new-content notifications. Meant to be called by a
+ * scheduler every few minutes.
+ *
+ * SECURITY:
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. The route is
+ * public in middleware since schedulers can't sign in through Clerk.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { publishDueScheduledItems } from "@/lib/scheduled-publishing";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const result = await publishDueScheduledItems();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error publishing scheduled items:", error);
+    return NextResponse.json(
+      { error: "Failed to publish scheduled items", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/cron/publish-scheduled
+ *
+ * Most schedulers (e.g. Vercel Cron) send GET requests
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/publish-scheduled
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
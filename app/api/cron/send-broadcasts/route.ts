@@ -0,0 +1,50 @@
+/**
+ * /api/cron/send-broadcasts
+ *
+ * Start scheduled broadcasts whose send time has passed, and continue
+ * broadcasts whose delivery didn't finish in one go. Meant to be called by
+ * a scheduler every few minutes.
+ *
+ * SECURITY:
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. The route is
+ * public in middleware since schedulers can't sign in through Clerk.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { sendDueBroadcasts } from "@/lib/broadcasts";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const result = await sendDueBroadcasts();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error sending broadcasts:", error);
+    return NextResponse.json(
+      { error: "Failed to send broadcasts", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/cron/send-broadcasts
+ *
+ * Most schedulers (e.g. Vercel Cron) send GET requests
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/send-broadcasts
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
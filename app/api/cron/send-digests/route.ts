@@ -0,0 +1,51 @@
+/**
+ * /api/cron/send-digests
+ *
+ * Send notification digests that are due: new content held for users on
+ * a daily or weekly digest, or until their quiet hours ended. Meant to be
+ * called by a scheduler every hour, since digests go out at a local time
+ * in each user's time zone.
+ *
+ * SECURITY:
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. The route is
+ * public in middleware since schedulers can't sign in through Clerk.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { sendDueDigests } from "@/lib/notification-digests";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const result = await sendDueDigests();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error sending digests:", error);
+    return NextResponse.json(
+      { error: "Failed to send digests", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/cron/send-digests
+ *
+ * Most schedulers (e.g. Vercel Cron) send GET requests
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/send-digests
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
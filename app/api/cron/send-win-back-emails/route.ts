@@ -0,0 +1,50 @@
+/**
+ * /api/cron/send-win-back-emails
+ *
+ * Send win-back emails to former subscribers once their creator's chosen
+ * number of days has passed since the subscription ended (see
+ * lib/retention.ts). Meant to be called by a scheduler every hour or so.
+ *
+ * SECURITY:
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`. The route is
+ * public in middleware since schedulers can't sign in through Clerk.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { sendDueWinBackEmails } from "@/lib/retention";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const sent = await sendDueWinBackEmails();
+    return NextResponse.json({ success: true, sent });
+  } catch (error) {
+    console.error("Error sending win-back emails:", error);
+    return NextResponse.json(
+      { error: "Failed to send win-back emails", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/cron/send-win-back-emails
+ *
+ * Most schedulers (e.g. Vercel Cron) send GET requests
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/send-win-back-emails
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
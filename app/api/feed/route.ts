@@ -3,7 +3,8 @@
  *
  * Unified home feed for authenticated users.
  * Returns content from:
- * - Subscribed creators: ALL content (free + paid)
+ * - Subscribed creators: ALL content (free + paid; higher-tier content
+ *   is shown locked)
  * - Followed creators (not subscribed): Only FREE content
  *
  * Sorted by publishedAt DESC with cursor-based pagination.
@@ -13,6 +14,11 @@ import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import { feedQuerySchema } from "@/lib/validations/feed";
 import { apiRateLimiter } from "@/lib/rate-limit";
+import {
+  getRequiredTierRank,
+  requiredTierSelect,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -84,9 +90,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         userId: user.id,
         status: { in: ["active", "trialing"] },
       },
-      select: { creatorId: true },
+      select: { creatorId: true, tier: { select: { rank: true } } },
     });
     const subscribedCreatorIds = subscriptions.map((s) => s.creatorId);
+    const subscribedTierRanks = new Map(
+      subscriptions.map((s) => [s.creatorId, s.tier?.rank ?? UNTIERED_RANK]),
+    );
 
     // Get followed creator IDs (excluding those we're subscribed to)
     const follows = await prisma.follow.findMany({
@@ -129,10 +138,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       });
     }
 
-    // Fetch content with cursor-based pagination
+    // Fetch content with cursor-based pagination. Suspended creators'
+    // content is hidden even from their subscribers.
     const content = await prisma.content.findMany({
       where: {
         OR: whereConditions,
+        creator: { status: "active" },
       },
       take: limit + 1, // Fetch one extra to determine if there's more
       ...(cursor
@@ -143,6 +154,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         : {}),
       orderBy: { publishedAt: "desc" },
       include: {
+        ...requiredTierSelect,
         creator: {
           select: {
             id: true,
@@ -162,8 +174,10 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     // Determine access level for each item
     const formattedItems = items.map((item) => {
-      const isSubscribed = subscribedCreatorIds.includes(item.creatorId);
-      const hasAccess = item.isFree || isSubscribed;
+      const tierRank = subscribedTierRanks.get(item.creatorId);
+      const hasAccess =
+        item.isFree ||
+        (tierRank !== undefined && tierRank >= getRequiredTierRank(item));
 
       return {
         id: item.id,
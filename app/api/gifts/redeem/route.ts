@@ -0,0 +1,249 @@
+/**
+ * POST /api/gifts/redeem
+ *
+ * Redeem a gift code for a membership to the gift's creator.
+ *
+ * Body: { code: string }
+ *
+ * The redeemer gets a subscription with no Stripe billing that ends after
+ * the gifted months. Redeeming while a gifted (or canceled but still paid)
+ * membership is running extends it from its current end date. Members
+ * with an active paid subscription can't redeem a gift for the same
+ * creator, since billing would carry on underneath it. A canceled Stripe
+ * subscription stays linked, so refunds and disputes on its payments
+ * still find the membership.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { addMonths } from "date-fns";
+import { prisma } from "@/lib/prisma";
+import { normalizeGiftCode } from "@/lib/gifts";
+import { invalidateCreatorSubscriptionCaches } from "@/lib/cache";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import { redeemGiftSchema } from "@/lib/validations/gift";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to redeem a gift", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check - also slows down guessing codes
+    const rateLimitResult = subscriptionRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many attempts. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = redeemGiftSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid gift code",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Get the current user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User account not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const gift = await prisma.gift.findUnique({
+      where: { code: normalizeGiftCode(parseResult.data.code) },
+      select: {
+        id: true,
+        creatorId: true,
+        tierId: true,
+        months: true,
+        amount: true,
+        status: true,
+        creator: {
+          select: { handle: true, displayName: true, userId: true },
+        },
+      },
+    });
+
+    if (!gift || gift.status === "pending") {
+      return NextResponse.json(
+        { error: "Gift code not found", code: "GIFT_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (gift.status === "redeemed") {
+      return NextResponse.json(
+        {
+          error: "This gift has already been redeemed",
+          code: "GIFT_ALREADY_REDEEMED",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (gift.status === "refunded") {
+      return NextResponse.json(
+        { error: "This gift is no longer valid", code: "GIFT_REFUNDED" },
+        { status: 400 },
+      );
+    }
+
+    // Creators can't be members of their own page
+    if (gift.creator.userId === user.id) {
+      return NextResponse.json(
+        {
+          error: "You cannot redeem a gift to your own membership",
+          code: "SELF_SUBSCRIPTION",
+        },
+        { status: 400 },
+      );
+    }
+
+    const existingSubscription = await prisma.subscription.findUnique({
+      where: {
+        userId_creatorId: { userId: user.id, creatorId: gift.creatorId },
+      },
+      select: {
+        id: true,
+        status: true,
+        stripeSubscriptionId: true,
+        giftId: true,
+        currentPeriodEnd: true,
+      },
+    });
+
+    if (
+      existingSubscription?.stripeSubscriptionId &&
+      !existingSubscription.giftId &&
+      existingSubscription.status !== "canceled"
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "You already have a paid subscription to this creator. Cancel it first, or pass the gift on to someone else.",
+          code: "ALREADY_SUBSCRIBED",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Extend a membership that's still running, otherwise start today
+    const now = new Date();
+    const existingEnd = existingSubscription?.currentPeriodEnd;
+    const isExtension = !!existingEnd && existingEnd > now;
+    const periodStart = isExtension ? existingEnd : now;
+    const currentPeriodEnd = addMonths(periodStart, gift.months);
+
+    const subscriptionData = {
+      status: "active" as const,
+      giftId: gift.id,
+      tierId: gift.tierId,
+      promoCodeId: null,
+      priceAtPurchase: Math.round(gift.amount / gift.months),
+      billingInterval: "month" as const,
+      // An extension carries on the running membership
+      ...(!isExtension && { startedAt: now }),
+      currentPeriodStart: now,
+      currentPeriodEnd,
+      // Gifts don't renew
+      cancelAtPeriodEnd: true,
+      trialEndsAt: null,
+      canceledAt: null,
+      cancellationCause: null,
+    };
+
+    const redeemed = await prisma.$transaction(async (tx) => {
+      // Claim the gift first so it can only be redeemed once
+      const { count } = await tx.gift.updateMany({
+        where: { id: gift.id, status: "paid" },
+        data: {
+          status: "redeemed",
+          redeemedById: user.id,
+          redeemedAt: now,
+        },
+      });
+
+      if (count === 0) return false;
+
+      await tx.subscription.upsert({
+        where: {
+          userId_creatorId: { userId: user.id, creatorId: gift.creatorId },
+        },
+        create: {
+          userId: user.id,
+          creatorId: gift.creatorId,
+          ...subscriptionData,
+        },
+        update: subscriptionData,
+      });
+
+      return true;
+    });
+
+    if (!redeemed) {
+      return NextResponse.json(
+        {
+          error: "This gift has already been redeemed",
+          code: "GIFT_ALREADY_REDEEMED",
+        },
+        { status: 400 },
+      );
+    }
+
+    await Promise.all([
+      invalidateSubscriptionAccessCache(user.id, gift.creatorId),
+      invalidateCreatorSubscriptionCaches(gift.creatorId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      creator: {
+        handle: gift.creator.handle,
+        displayName: gift.creator.displayName,
+      },
+      subscription: {
+        months: gift.months,
+        currentPeriodEnd: currentPeriodEnd.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error redeeming gift:", error);
+    return NextResponse.json(
+      {
+        error: "Unable to redeem gift. Please try again later.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
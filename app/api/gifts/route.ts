@@ -0,0 +1,316 @@
+/**
+ * POST /api/gifts
+ *
+ * Create a Stripe Checkout session for a gift membership.
+ * Returns a URL to redirect the buyer to for payment.
+ *
+ * Body: { creatorId: string, months: 1 | 3 | 6 | 12, tierId?: string }
+ * The gift costs the creator's (or tier's) monthly price times the number
+ * of months. When the creator offers membership tiers, the given tier (or
+ * the lowest tier if none is given) is gifted.
+ *
+ * Requirements:
+ * - User must be authenticated
+ * - Creator must be active with Stripe onboarding complete
+ * - Creators can't buy gifts for their own membership
+ *
+ * The gift is created as pending and marked paid by the Stripe webhook
+ * (checkout.session.completed in payment mode, or
+ * checkout.session.async_payment_succeeded for delayed payment methods).
+ * The buyer then shares the code from /gifts/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import { prisma } from "@/lib/prisma";
+import {
+  stripe,
+  getBaseUrl,
+  getOrCreateCustomer,
+  createGiftCheckout,
+  calculatePlatformFee,
+} from "@/lib/stripe";
+import { getMonthlyPriceCents } from "@/lib/pricing";
+import { getJoinableTiers } from "@/lib/tiers";
+import { generateGiftCode, getGiftPriceCents } from "@/lib/gifts";
+import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import { createGiftSchema } from "@/lib/validations/gift";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to buy a gift", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check (shared with subscription checkout)
+    const rateLimitResult = subscriptionRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many checkout attempts. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = createGiftSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid gift request",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { creatorId, months, tierId } = parseResult.data;
+
+    // Get the current user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: {
+        id: true,
+        email: true,
+        stripeCustomerId: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User account not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Get the creator profile
+    const creator = await prisma.creatorProfile.findUnique({
+      where: { id: creatorId },
+      select: {
+        id: true,
+        handle: true,
+        displayName: true,
+        subscriptionPrice: true,
+        customPriceCents: true,
+        stripeAccountId: true,
+        stripeOnboardingComplete: true,
+        status: true,
+        userId: true,
+      },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: "Creator not found", code: "CREATOR_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Prevent gifting your own membership
+    if (creator.userId === user.id) {
+      return NextResponse.json(
+        {
+          error: "You cannot buy a gift membership to yourself",
+          code: "SELF_GIFT",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Check creator is ready to take payments
+    if (
+      creator.status !== "active" ||
+      !creator.stripeOnboardingComplete ||
+      !creator.stripeAccountId
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "This creator is not currently accepting payments. Please check back later.",
+          code: "CREATOR_NOT_READY",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Real-time validation of Stripe account capabilities
+    try {
+      const account = await stripe.accounts.retrieve(creator.stripeAccountId);
+
+      if (!account.charges_enabled) {
+        console.error(
+          `Creator ${creator.id} account ${creator.stripeAccountId} cannot accept charges`,
+        );
+        return NextResponse.json(
+          {
+            error:
+              "This creator is currently unable to accept payments. Please try again later.",
+            code: "CREATOR_ACCOUNT_RESTRICTED",
+          },
+          { status: 400 },
+        );
+      }
+    } catch (stripeError) {
+      console.error(`Failed to verify creator Stripe account:`, stripeError);
+      return NextResponse.json(
+        {
+          error: "Unable to verify creator payment account. Please try again.",
+          code: "ACCOUNT_VERIFICATION_FAILED",
+        },
+        { status: 502 },
+      );
+    }
+
+    // Creators with tiers gift a tier instead of a single membership
+    const tiers = await getJoinableTiers(creator.id);
+    const tier = tierId ? tiers.find((t) => t.id === tierId) : tiers[0];
+
+    if (tierId && !tier) {
+      return NextResponse.json(
+        {
+          error: "This membership tier isn't available",
+          code: "TIER_NOT_FOUND",
+        },
+        { status: 404 },
+      );
+    }
+
+    const amountInCents = getGiftPriceCents(
+      tier ? tier.priceCents : getMonthlyPriceCents(creator),
+      months,
+    );
+
+    // Get or create Stripe customer
+    const stripeCustomerId = await getOrCreateCustomer(
+      user.email,
+      user.id,
+      user.stripeCustomerId,
+    );
+
+    // Save customer ID to user if it's new
+    if (user.stripeCustomerId !== stripeCustomerId) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { stripeCustomerId },
+      });
+    }
+
+    // The gift exists before checkout so the webhook can find it by ID
+    const gift = await prisma.gift.create({
+      data: {
+        purchaserId: user.id,
+        creatorId: creator.id,
+        tierId: tier?.id ?? null,
+        months,
+        amount: amountInCents,
+        platformFee: calculatePlatformFee(amountInCents),
+        code: generateGiftCode(),
+      },
+      select: { id: true },
+    });
+
+    // Build URLs for success/cancel
+    const baseUrl = getBaseUrl();
+    const successUrl = `${baseUrl}/gifts/${gift.id}?purchased=true`;
+    const cancelUrl = `${baseUrl}/${creator.handle}`;
+
+    const monthsLabel = `${months} month${months === 1 ? "" : "s"}`;
+    const session = await createGiftCheckout({
+      customerId: stripeCustomerId,
+      amountInCents,
+      productName: tier
+        ? `Gift: ${monthsLabel} of ${creator.displayName} (${tier.name})`
+        : `Gift: ${monthsLabel} of ${creator.displayName}`,
+      creatorStripeAccountId: creator.stripeAccountId,
+      creatorId: creator.id,
+      userId: user.id,
+      giftId: gift.id,
+      successUrl,
+      cancelUrl,
+    });
+
+    if (!session.url) {
+      console.error("Stripe checkout session created without URL", {
+        sessionId: session.id,
+      });
+      return NextResponse.json(
+        {
+          error: "Failed to create checkout session. Please try again.",
+          code: "CHECKOUT_FAILED",
+        },
+        { status: 500 },
+      );
+    }
+
+    await prisma.gift.update({
+      where: { id: gift.id },
+      data: { stripeCheckoutSessionId: session.id },
+    });
+
+    return NextResponse.json({
+      url: session.url,
+      sessionId: session.id,
+      gift: {
+        id: gift.id,
+        price: amountInCents / 100,
+        months,
+        tier: tier ? { id: tier.id, name: tier.name } : null,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating gift checkout:", error);
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payment request. Please try again.",
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeRateLimitError) {
+      return NextResponse.json(
+        {
+          error: "Service temporarily busy. Please try again.",
+          code: "RATE_LIMIT",
+        },
+        { status: 429 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeAPIError) {
+      return NextResponse.json(
+        {
+          error: "Payment service error. Please try again later.",
+          code: "STRIPE_API_ERROR",
+        },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Unable to start gift checkout. Please try again later.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * GET /api/messages/[id]/attachment
+ *
+ * Redirects to a short-lived signed URL for a message's attachment, so
+ * threads can use this path directly as an <audio> or <img> source.
+ *
+ * Security:
+ * - Only the message's sender and receiver can access the attachment
+ * - Signed URLs are bound to the user and never cached
+ *
+ * Response:
+ * - 302: Redirect to the signed R2 URL
+ * - 401: Unauthenticated
+ * - 404: Message not found, not yours, or without an attachment
+ * - 429: Rate limited
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import { getSignedAttachmentUrl } from "@/lib/message-attachments";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = apiRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Only the sender and receiver can see the attachment
+    const message = await prisma.message.findFirst({
+      where: {
+        id,
+        OR: [{ senderId: user.id }, { receiverId: user.id }],
+      },
+      select: { id: true, senderId: true, attachmentKey: true },
+    });
+
+    const signedUrl = message
+      ? await getSignedAttachmentUrl(message, user.id)
+      : null;
+
+    if (!signedUrl) {
+      return NextResponse.json(
+        { error: "Attachment not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const response = NextResponse.redirect(signedUrl.url, 302);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    console.error("Error generating attachment URL:", error);
+    return NextResponse.json(
+      { error: "Failed to load attachment", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * POST /api/messages/[id]/report
+ *
+ * Report a received direct message or broadcast for moderation review.
+ * Requires authentication. Rate limited to 10 reports per hour per user.
+ * Prevents duplicate reports from the same user on the same message.
+ *
+ * The message text is saved with the report, so moderators can still see
+ * it if the message is deleted.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { reportRateLimiter } from "@/lib/rate-limit";
+import { getMessageExcerpt } from "@/lib/message-safety";
+import { createMessageReportSchema } from "@/lib/validations/report";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  try {
+    const { id: messageId } = await params;
+
+    // Require authentication
+    const { userId: clerkId } = await auth();
+
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to report messages", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user from database
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await reportRateLimiter.checkAsync(user.id);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error:
+            "You've submitted too many reports recently. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    // Only the recipient can report a message
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, receiverId: user.id },
+      select: {
+        id: true,
+        senderId: true,
+        content: true,
+        attachmentType: true,
+      },
+    });
+
+    if (!message) {
+      return NextResponse.json(
+        { error: "Message not found", code: "MESSAGE_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = createMessageReportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid report data",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { reason, description } = validationResult.data;
+
+    // Check for existing report from this user
+    const existingReport = await prisma.contentReport.findUnique({
+      where: {
+        messageId_reporterId: {
+          messageId,
+          reporterId: user.id,
+        },
+      },
+    });
+
+    if (existingReport) {
+      return NextResponse.json(
+        {
+          error: "You have already reported this message",
+          code: "DUPLICATE_REPORT",
+        },
+        { status: 409 },
+      );
+    }
+
+    // Create the report
+    const report = await prisma.contentReport.create({
+      data: {
+        messageId,
+        messageExcerpt: getMessageExcerpt(message),
+        reportedUserId: message.senderId,
+        reporterId: user.id,
+        reason,
+        description: description || null,
+      },
+      select: {
+        id: true,
+        reason: true,
+        status: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: "Thank you for your report. Our team will review it shortly.",
+        report: {
+          id: report.id,
+          reason: report.reason,
+          status: report.status,
+          createdAt: report.createdAt.toISOString(),
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Error reporting message:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to submit report. Please try again.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
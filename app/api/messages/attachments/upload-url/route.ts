@@ -0,0 +1,122 @@
+/**
+ * /api/messages/attachments/upload-url
+ *
+ * POST - Generate presigned upload URL for a message attachment
+ * (voice note, audio reply or image)
+ *
+ * The returned key is sent with the message from POST /api/messages or
+ * POST /api/messages/broadcast.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { attachmentUploadUrlSchema } from "@/lib/validations/message";
+import {
+  generateR2UploadUrl,
+  generateUniqueFilename,
+  R2_PATHS,
+} from "@/lib/cloudflare";
+import { uploadRateLimiter } from "@/lib/rate-limit";
+
+/**
+ * POST /api/messages/attachments/upload-url
+ *
+ * Generate a presigned upload URL for Cloudflare R2
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Check rate limit (PRD: 10 uploads per hour)
+    const { allowed, remaining, retryAfterSeconds } =
+      uploadRateLimiter.check(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded. Please try again later.",
+          code: "RATE_LIMIT_EXCEEDED",
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "10",
+            "X-RateLimit-Remaining": String(remaining),
+            "Retry-After": String(retryAfterSeconds || 3600),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = attachmentUploadUrlSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { type, filename, contentType } = parseResult.data;
+
+    // Generate unique filename and R2 path
+    const uniqueFilename = generateUniqueFilename(filename, type);
+    const key = R2_PATHS.messageAttachment(user.id, uniqueFilename);
+
+    // Generate presigned upload URL
+    const uploadUrl = await generateR2UploadUrl(key, contentType);
+
+    return NextResponse.json({
+      success: true,
+      uploadUrl,
+      key,
+      expiresIn: 3600, // 1 hour
+    });
+  } catch (error) {
+    console.error("Error generating attachment upload URL:", error);
+
+    // Check for missing environment variables
+    if (
+      error instanceof Error &&
+      error.message.includes("Missing required environment variable")
+    ) {
+      return NextResponse.json(
+        {
+          error: "Upload service not configured",
+          code: "SERVICE_NOT_CONFIGURED",
+        },
+        { status: 503 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate upload URL", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
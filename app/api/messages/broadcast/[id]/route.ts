@@ -0,0 +1,86 @@
+/**
+ * /api/messages/broadcast/[id]
+ *
+ * DELETE - Cancel a scheduled broadcast
+ *
+ * Only broadcasts that haven't started sending can be canceled. Canceled
+ * broadcasts are removed, since no one has received them.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/messages/broadcast/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user and verify they are a creator
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true, creatorProfile: { select: { id: true } } },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    const broadcast = await prisma.broadcast.findFirst({
+      where: { id, creatorId: user.creatorProfile.id },
+      select: { id: true },
+    });
+
+    if (!broadcast) {
+      return NextResponse.json(
+        { error: "Broadcast not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Guard on status so a broadcast the cron just started isn't removed
+    const { count } = await prisma.broadcast.deleteMany({
+      where: { id: broadcast.id, status: "scheduled" },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          error: "This broadcast has already been sent",
+          code: "ALREADY_SENT",
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error canceling broadcast:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel broadcast", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * GET /api/messages/broadcast/audience
+ *
+ * Count how many people a broadcast audience currently reaches, shown in
+ * the compose dialog before sending.
+ *
+ * Query parameters:
+ * - audience: subscribers | trialing | long_term_subscribers |
+ *   followers_not_subscribed (default subscribers)
+ * - minSubscribedDays: for long_term_subscribers (default 90)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import { countBroadcastAudience } from "@/lib/broadcasts";
+import { broadcastAudienceQuerySchema } from "@/lib/validations/message";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = apiRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    // Get user and verify they are a creator
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true, creatorProfile: { select: { id: true } } },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.creatorProfile) {
+      return NextResponse.json(
+        { error: "Creator profile not found", code: "NOT_CREATOR" },
+        { status: 403 },
+      );
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryResult = broadcastAudienceQuerySchema.safeParse({
+      audience: searchParams.get("audience") || undefined,
+      minSubscribedDays: searchParams.get("minSubscribedDays") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: queryResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: queryResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const count = await countBroadcastAudience(
+      { id: user.creatorProfile.id, userId: user.id },
+      queryResult.data,
+    );
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error("Error counting broadcast audience:", error);
+    return NextResponse.json(
+      { error: "Failed to count audience", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
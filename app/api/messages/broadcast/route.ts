@@ -1,7 +1,7 @@
 /**
  * /api/messages/broadcast
  *
- * POST - Creator sends a broadcast message to all their subscribers
+ * POST - Creator sends or schedules a broadcast message
  *
  * PRD Requirements:
  * - Creator can send message to ALL their subscribers at once
@@ -9,6 +9,11 @@
  * - Message appears in each subscriber's inbox
  * - Rate limit: 30 messages/hour for creators
  * - Content sanitization with DOMPurify
+ * - Optional voice note, audio or image attachment shared by every copy
+ *
+ * The audience can be narrowed to trialing subscribers, long-term
+ * subscribers or followers who haven't subscribed, and the send can be
+ * scheduled. Delivery happens in batches (see lib/broadcasts.ts).
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
@@ -16,11 +21,23 @@ import { prisma } from "@/lib/prisma";
 import { broadcastMessageSchema } from "@/lib/validations/message";
 import { messageRateLimiter } from "@/lib/rate-limit";
 import { sanitizeHtml } from "@/lib/sanitize";
+import {
+  getAttachmentData,
+  isOwnAttachmentKey,
+} from "@/lib/message-attachments";
+import { getScheduleError } from "@/lib/validations/content";
+import {
+  countBroadcastAudience,
+  deliverBroadcast,
+  toBroadcastItems,
+} from "@/lib/broadcasts";
 
 /**
  * POST /api/messages/broadcast
  *
- * Send a broadcast message to all active subscribers
+ * Send a broadcast now, or schedule it when scheduledAt is given. Immediate
+ * sends deliver before responding; very large audiences are finished by the
+ * send-broadcasts cron.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -41,7 +58,6 @@ export async function POST(request: NextRequest) {
           select: {
             id: true,
             status: true,
-            displayName: true,
           },
         },
       },
@@ -108,12 +124,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { content } = parseResult.data;
+    const { content, attachment, audience, minSubscribedDays, scheduledAt } =
+      parseResult.data;
+
+    // Attachments must have been uploaded by the sender
+    if (attachment && !isOwnAttachmentKey(attachment.key, user.id)) {
+      return NextResponse.json(
+        { error: "Invalid attachment", code: "INVALID_ATTACHMENT" },
+        { status: 400 },
+      );
+    }
+
+    // Scheduled broadcasts need a future send time
+    if (scheduledAt) {
+      const scheduleError = getScheduleError(scheduledAt);
+      if (scheduleError) {
+        return NextResponse.json(
+          { error: scheduleError, code: "INVALID_SCHEDULE" },
+          { status: 400 },
+        );
+      }
+    }
 
     // Sanitize content (PRD: DOMPurify for user-generated content)
     const sanitizedContent = sanitizeHtml(content);
 
-    if (!sanitizedContent.trim()) {
+    if (!sanitizedContent.trim() && !attachment) {
       return NextResponse.json(
         {
           error: "Message content is required after sanitization",
@@ -123,45 +159,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get all active subscribers for this creator
-    const subscribers = await prisma.subscription.findMany({
-      where: {
-        creatorId: user.creatorProfile.id,
-        status: { in: ["active", "trialing"] },
-      },
-      select: {
-        userId: true,
+    const creator = { id: user.creatorProfile.id, userId: user.id };
+    const audienceFilter = {
+      audience,
+      minSubscribedDays:
+        audience === "long_term_subscribers"
+          ? (minSubscribedDays ?? null)
+          : null,
+    };
+
+    // Scheduled broadcasts can go to an audience that's empty for now
+    if (!scheduledAt) {
+      const audienceSize = await countBroadcastAudience(
+        creator,
+        audienceFilter,
+      );
+
+      if (audienceSize === 0) {
+        return NextResponse.json(
+          {
+            error: "There's no one in this audience to message yet",
+            code: "NO_RECIPIENTS",
+          },
+          { status: 400 },
+        );
+      }
+    }
+
+    const created = await prisma.broadcast.create({
+      data: {
+        creatorId: creator.id,
+        content: sanitizedContent,
+        ...getAttachmentData(attachment),
+        ...audienceFilter,
+        status: scheduledAt ? "scheduled" : "sending",
+        scheduledAt: scheduledAt ?? new Date(),
       },
     });
 
-    if (subscribers.length === 0) {
-      return NextResponse.json(
-        {
-          error: "You have no active subscribers to message",
-          code: "NO_SUBSCRIBERS",
-        },
-        { status: 400 },
-      );
+    if (!scheduledAt) {
+      await deliverBroadcast(created.id);
     }
 
-    // Create one message record per subscriber
-    // Using createMany for efficiency
-    const messageData = subscribers.map((sub) => ({
-      senderId: user.id,
-      receiverId: sub.userId,
-      content: sanitizedContent,
-      isBroadcast: true,
-      isRead: false,
-    }));
-
-    const result = await prisma.message.createMany({
-      data: messageData,
+    const broadcast = await prisma.broadcast.findUniqueOrThrow({
+      where: { id: created.id },
     });
+    const [item] = await toBroadcastItems([broadcast]);
 
     return NextResponse.json({
       success: true,
-      message: "Broadcast sent successfully",
-      recipientCount: result.count,
+      message: scheduledAt
+        ? "Broadcast scheduled successfully"
+        : "Broadcast sent successfully",
+      recipientCount: item.recipientCount,
+      broadcast: item,
     });
   } catch (error) {
     console.error("Error sending broadcast:", error);
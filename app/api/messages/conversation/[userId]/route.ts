@@ -2,17 +2,35 @@
  * /api/messages/conversation/[userId]
  *
  * GET - Get messages between current user and specified user
+ * PATCH - Block or unblock the user, or mute or unmute the conversation
  *
  * PRD Requirements:
  * - Get message history with specific user
  * - Paginated messages between current user and specified user
  * - Marks messages as read automatically
  * - Shows messages in chronological order (oldest first in thread)
+ * - Reports whether the user can message the partner, or send a message
+ *   request under a creator's DM policy
+ * - Reports whether the user has blocked or muted the partner
+ * - Blocked users can't message each other in either direction and stop
+ *   receiving the blocker's broadcasts
+ * - Muted conversations still deliver, without in-app or email notifications
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
-import { conversationMessagesQuerySchema } from "@/lib/validations/message";
+import { toMessageAttachmentInfo } from "@/lib/message-attachments";
+import {
+  conversationMessagesQuerySchema,
+  conversationSettingsSchema,
+} from "@/lib/validations/message";
+import { dmPolicyCreatorSelect, getDmPolicyDecision } from "@/lib/dm-policy";
+import { publishToUser } from "@/lib/realtime";
+import {
+  getBlockStatus,
+  getBlockedReason,
+  isConversationMuted,
+} from "@/lib/message-safety";
 
 interface RouteContext {
   params: Promise<{ userId: string }>;
@@ -79,13 +97,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
       where: { id: partnerUserId },
       include: {
         creatorProfile: {
-          select: {
-            id: true,
-            handle: true,
-            displayName: true,
-            avatarUrl: true,
-            dmEnabled: true,
-          },
+          select: { ...dmPolicyCreatorSelect, handle: true, avatarUrl: true },
         },
       },
     });
@@ -164,6 +176,13 @@ export async function GET(request: NextRequest, context: RouteContext) {
           },
           data: { isRead: true },
         })
+        .then(() =>
+          publishToUser(partnerUserId, {
+            type: "message.read",
+            readerId: user.id,
+            messageIds: unreadMessageIds,
+          }),
+        )
         .catch((err) => {
           console.error("Error marking messages as read:", err);
         });
@@ -176,6 +195,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     // Determine if current user can send messages to this partner
     let canSendMessage = false;
+    let canSendRequest = false;
+    // Price of a request, null when requests are free
+    let requestPriceCents: number | null = null;
     let dmDisabledReason: string | null = null;
 
     const userIsCreator = !!user.creatorProfile?.id;
@@ -185,32 +207,39 @@ export async function GET(request: NextRequest, context: RouteContext) {
       // Creator viewing conversation with subscriber - can always reply
       canSendMessage = true;
     } else if (!userIsCreator && partnerIsCreator) {
-      // Subscriber viewing conversation with creator
-      if (!partner.creatorProfile!.dmEnabled) {
-        canSendMessage = false;
-        dmDisabledReason = "This creator has disabled direct messages";
-      } else {
-        // Check if user has active subscription
-        const subscription = await prisma.subscription.findFirst({
-          where: {
-            userId: user.id,
-            creatorId: partner.creatorProfile!.id,
-            status: { in: ["active", "trialing"] },
-          },
-        });
-        if (subscription) {
-          canSendMessage = true;
-        } else {
-          canSendMessage = false;
-          dmDisabledReason = "Subscribe to send messages";
-        }
+      // Subscriber or follower viewing conversation with creator
+      const decision = await getDmPolicyDecision(
+        user.id,
+        partner.creatorProfile!,
+      );
+      canSendMessage = decision.status === "allowed";
+      canSendRequest = decision.status === "request";
+      if (decision.status === "request") {
+        requestPriceCents = decision.priceCents;
+      }
+      if (decision.status === "denied") {
+        dmDisabledReason = decision.reason;
       }
     }
 
+    const [blockStatus, isMuted] = await Promise.all([
+      getBlockStatus(user.id, partner.id),
+      isConversationMuted(user.id, partner.id),
+    ]);
+
+    // A block in either direction stops messages both ways
+    const blockedReason = getBlockedReason(blockStatus);
+    if (blockedReason) {
+      canSendMessage = false;
+      canSendRequest = false;
+      dmDisabledReason = blockedReason;
+    }
+
     return NextResponse.json({
       items: items.map((message) => ({
         id: message.id,
         content: message.content,
+        attachment: toMessageAttachmentInfo(message),
         isRead: message.isRead || unreadMessageIds.includes(message.id),
         createdAt: message.createdAt.toISOString(),
         isFromMe: message.senderId === user.id,
@@ -233,7 +262,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
         isCreator: partnerIsCreator,
       },
       canSendMessage,
+      canSendRequest,
+      requestPriceCents,
       dmDisabledReason,
+      isBlocked: blockStatus.blockedByMe,
+      isMuted,
     });
   } catch (error) {
     console.error("Error fetching conversation:", error);
@@ -243,3 +276,118 @@ export async function GET(request: NextRequest, context: RouteContext) {
     );
   }
 }
+
+/**
+ * PATCH /api/messages/conversation/[userId]
+ *
+ * Block or unblock the specified user, or mute or unmute the conversation
+ * with them. Setting a value that's already set is a no-op.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    const { userId: partnerUserId } = await context.params;
+
+    // Get current user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (partnerUserId === user.id) {
+      return NextResponse.json(
+        { error: "Invalid conversation partner", code: "INVALID_PARTNER" },
+        { status: 400 },
+      );
+    }
+
+    const partner = await prisma.user.findUnique({
+      where: { id: partnerUserId },
+      select: { id: true },
+    });
+
+    if (!partner) {
+      return NextResponse.json(
+        { error: "Conversation partner not found", code: "PARTNER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = conversationSettingsSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { isBlocked, isMuted } = parseResult.data;
+
+    if (isBlocked === true) {
+      await prisma.userBlock.upsert({
+        where: {
+          blockerId_blockedId: { blockerId: user.id, blockedId: partner.id },
+        },
+        create: { blockerId: user.id, blockedId: partner.id },
+        update: {},
+      });
+    } else if (isBlocked === false) {
+      await prisma.userBlock.deleteMany({
+        where: { blockerId: user.id, blockedId: partner.id },
+      });
+    }
+
+    if (isMuted === true) {
+      await prisma.conversationMute.upsert({
+        where: {
+          userId_partnerId: { userId: user.id, partnerId: partner.id },
+        },
+        create: { userId: user.id, partnerId: partner.id },
+        update: {},
+      });
+    } else if (isMuted === false) {
+      await prisma.conversationMute.deleteMany({
+        where: { userId: user.id, partnerId: partner.id },
+      });
+    }
+
+    const [blockStatus, muted] = await Promise.all([
+      getBlockStatus(user.id, partner.id),
+      isConversationMuted(user.id, partner.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      isBlocked: blockStatus.blockedByMe,
+      isMuted: muted,
+    });
+  } catch (error) {
+    console.error("Error updating conversation settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update conversation", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -12,6 +12,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import {
+  toMessageAttachmentInfo,
+  type MessageAttachmentInfo,
+} from "@/lib/message-attachments";
 import { conversationListQuerySchema } from "@/lib/validations/message";
 
 interface ConversationPartner {
@@ -27,6 +31,7 @@ interface ConversationItem {
   lastMessage: {
     id: string;
     content: string;
+    attachment: MessageAttachmentInfo | null;
     createdAt: string;
     isFromMe: boolean;
   };
@@ -136,6 +141,7 @@ export async function GET(request: NextRequest) {
         lastMessage: {
           id: string;
           content: string;
+          attachment: MessageAttachmentInfo | null;
           createdAt: Date;
           isFromMe: boolean;
         };
@@ -173,6 +179,7 @@ export async function GET(request: NextRequest) {
         lastMessage: {
           id: message.id,
           content: message.content,
+          attachment: toMessageAttachmentInfo(message),
           createdAt: message.createdAt,
           isFromMe,
         },
@@ -211,6 +218,7 @@ export async function GET(request: NextRequest) {
         lastMessage: {
           id: conv.lastMessage.id,
           content: conv.lastMessage.content,
+          attachment: conv.lastMessage.attachment,
           createdAt: conv.lastMessage.createdAt.toISOString(),
           isFromMe: conv.lastMessage.isFromMe,
         },
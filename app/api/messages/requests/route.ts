@@ -0,0 +1,389 @@
+/**
+ * POST /api/messages/requests
+ *
+ * Send a creator a message request
+ *
+ * PRD Requirements:
+ * - Creators can let followers, and subscribers who don't meet their DM
+ *   policy yet, send one message request
+ * - The request waits in the creator's inbox until they accept or decline
+ *   it; accepting turns it into the first message of a conversation
+ * - Creators can charge for requests: the sender is sent to Stripe
+ *   Checkout and the request reaches the inbox once the webhook sees the
+ *   payment (checkout.session.completed). Declined requests are refunded.
+ * - Rate limit: shared with direct messages (30 messages/hour)
+ * - Blocked users can't send requests; muted conversations skip
+ *   notifications
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import { prisma } from "@/lib/prisma";
+import {
+  stripe,
+  getBaseUrl,
+  getOrCreateCustomer,
+  createMessageRequestCheckout,
+} from "@/lib/stripe";
+import { messageRequestSchema } from "@/lib/validations/message";
+import { messageRateLimiter } from "@/lib/rate-limit";
+import { sanitizeHtml, stripHtml } from "@/lib/sanitize";
+import { notifyMessageRequest } from "@/lib/notifications";
+import { dmPolicyCreatorSelect, getDmPolicyDecision } from "@/lib/dm-policy";
+import {
+  getBlockStatus,
+  getBlockedReason,
+  isConversationMuted,
+} from "@/lib/message-safety";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    const sender = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true, name: true, email: true, stripeCustomerId: true },
+    });
+
+    if (!sender) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Requests count towards the direct message rate limit
+    const rateLimitResult = await messageRateLimiter.checkAsync(sender.id);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "You have reached the message limit. Please try again later.",
+          code: "RATE_LIMIT_EXCEEDED",
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "30",
+            "X-RateLimit-Remaining": String(rateLimitResult.remaining),
+            "Retry-After": String(rateLimitResult.retryAfterSeconds || 3600),
+          },
+        },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = messageRequestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { receiverId, content } = parseResult.data;
+
+    // Requests can only be sent to creators
+    const receiver = await prisma.user.findUnique({
+      where: { id: receiverId },
+      select: {
+        id: true,
+        creatorProfile: {
+          select: {
+            ...dmPolicyCreatorSelect,
+            stripeAccountId: true,
+            stripeOnboardingComplete: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!receiver?.creatorProfile || receiver.id === sender.id) {
+      return NextResponse.json(
+        { error: "Creator not found", code: "RECIPIENT_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const creator = receiver.creatorProfile;
+
+    // A block in either direction stops requests too
+    const blockedReason = getBlockedReason(
+      await getBlockStatus(sender.id, receiver.id),
+    );
+    if (blockedReason) {
+      return NextResponse.json(
+        { error: blockedReason, code: "BLOCKED" },
+        { status: 403 },
+      );
+    }
+
+    const decision = await getDmPolicyDecision(sender.id, creator);
+
+    if (decision.status === "allowed") {
+      return NextResponse.json(
+        {
+          error: "You can already message this creator directly",
+          code: "REQUEST_NOT_NEEDED",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (decision.status === "denied") {
+      return NextResponse.json(
+        { error: decision.reason, code: decision.code },
+        { status: decision.code === "REQUEST_PENDING" ? 409 : 403 },
+      );
+    }
+
+    // Sanitize content (PRD: DOMPurify for user-generated content)
+    const sanitizedContent = sanitizeHtml(content);
+
+    if (!sanitizedContent.trim()) {
+      return NextResponse.json(
+        {
+          error: "Message content is required after sanitization",
+          code: "EMPTY_CONTENT",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (decision.priceCents !== null) {
+      return startPaidRequest(
+        sender,
+        creator,
+        decision.priceCents,
+        sanitizedContent,
+      );
+    }
+
+    // Replaces an unpaid request if the creator has since made them free
+    const messageRequest = await prisma.messageRequest.upsert({
+      where: {
+        creatorId_senderId: { creatorId: creator.id, senderId: sender.id },
+      },
+      create: {
+        creatorId: creator.id,
+        senderId: sender.id,
+        content: sanitizedContent,
+      },
+      update: {
+        content: sanitizedContent,
+        status: "pending",
+        amount: null,
+        stripeCheckoutSessionId: null,
+        createdAt: new Date(),
+      },
+    });
+
+    // Muted conversations don't notify (fire and forget)
+    if (!(await isConversationMuted(receiver.id, sender.id))) {
+      notifyMessageRequest(
+        receiver.id,
+        sender.name || "Someone",
+        stripHtml(sanitizedContent),
+      ).catch((error) =>
+        console.error("Error sending message request notification:", error),
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        request: {
+          id: messageRequest.id,
+          status: messageRequest.status,
+          createdAt: messageRequest.createdAt.toISOString(),
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Error sending message request:", error);
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payment request. Please try again.",
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeRateLimitError) {
+      return NextResponse.json(
+        {
+          error: "Service temporarily busy. Please try again.",
+          code: "RATE_LIMIT",
+        },
+        { status: 429 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeAPIError) {
+      return NextResponse.json(
+        {
+          error: "Payment service error. Please try again later.",
+          code: "STRIPE_API_ERROR",
+        },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to send message request", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Save a paid request as awaiting payment and start its checkout
+ *
+ * The request exists before checkout so the webhook can find it by ID.
+ * Sending it again (e.g. after abandoning checkout) replaces the unpaid
+ * request and expires its old checkout so it can't be paid twice.
+ */
+async function startPaidRequest(
+  sender: { id: string; email: string; stripeCustomerId: string | null },
+  creator: {
+    id: string;
+    userId: string;
+    displayName: string;
+    stripeAccountId: string | null;
+    stripeOnboardingComplete: boolean;
+    status: string;
+  },
+  priceCents: number,
+  content: string,
+): Promise<NextResponse> {
+  // Check creator is ready to take payments
+  if (
+    creator.status !== "active" ||
+    !creator.stripeOnboardingComplete ||
+    !creator.stripeAccountId
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "This creator is not currently accepting payments. Please check back later.",
+        code: "CREATOR_NOT_READY",
+      },
+      { status: 400 },
+    );
+  }
+
+  // Get or create Stripe customer
+  const stripeCustomerId = await getOrCreateCustomer(
+    sender.email,
+    sender.id,
+    sender.stripeCustomerId,
+  );
+
+  // Save customer ID to user if it's new
+  if (sender.stripeCustomerId !== stripeCustomerId) {
+    await prisma.user.update({
+      where: { id: sender.id },
+      data: { stripeCustomerId },
+    });
+  }
+
+  const where = {
+    creatorId_senderId: { creatorId: creator.id, senderId: sender.id },
+  };
+
+  const unpaid = await prisma.messageRequest.findUnique({
+    where,
+    select: { stripeCheckoutSessionId: true },
+  });
+
+  if (unpaid?.stripeCheckoutSessionId) {
+    await stripe.checkout.sessions
+      .expire(unpaid.stripeCheckoutSessionId)
+      .catch(() => {
+        // Already expired or completed
+      });
+  }
+
+  const messageRequest = await prisma.messageRequest.upsert({
+    where,
+    create: {
+      creatorId: creator.id,
+      senderId: sender.id,
+      content,
+      status: "awaiting_payment",
+      amount: priceCents,
+    },
+    update: {
+      content,
+      status: "awaiting_payment",
+      amount: priceCents,
+      stripeCheckoutSessionId: null,
+      createdAt: new Date(),
+    },
+  });
+
+  // Back to the conversation either way
+  const conversationUrl = `${getBaseUrl()}/messages/conversation/${creator.userId}`;
+
+  const session = await createMessageRequestCheckout({
+    customerId: stripeCustomerId,
+    amountInCents: priceCents,
+    creatorName: creator.displayName,
+    creatorStripeAccountId: creator.stripeAccountId,
+    creatorId: creator.id,
+    userId: sender.id,
+    messageRequestId: messageRequest.id,
+    successUrl: `${conversationUrl}?requested=true`,
+    cancelUrl: conversationUrl,
+  });
+
+  if (!session.url) {
+    console.error("Stripe checkout session created without URL", {
+      sessionId: session.id,
+    });
+    return NextResponse.json(
+      {
+        error: "Failed to create checkout session. Please try again.",
+        code: "CHECKOUT_FAILED",
+      },
+      { status: 500 },
+    );
+  }
+
+  await prisma.messageRequest.update({
+    where: { id: messageRequest.id },
+    data: { stripeCheckoutSessionId: session.id },
+  });
+
+  return NextResponse.json(
+    {
+      success: true,
+      url: session.url,
+      sessionId: session.id,
+      request: {
+        id: messageRequest.id,
+        status: messageRequest.status,
+        price: priceCents / 100,
+        createdAt: messageRequest.createdAt.toISOString(),
+      },
+    },
+    { status: 201 },
+  );
+}
@@ -7,11 +7,14 @@
  *
  * PRD Requirements:
  * - Subscriber message inbox showing received messages from creators
- * - Direct messaging: subscriber can message creator (if DMs enabled)
+ * - Direct messaging: subscriber can message creator (per their DM policy)
  * - Creator can reply to subscribers
+ * - Users the DM policy doesn't allow may send a message request instead
  * - Unread indicator
  * - Cursor-based pagination
  * - Rate limit: 30 messages/hour
+ * - Blocked users can't message each other; muted conversations skip
+ *   notifications
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
@@ -20,11 +23,27 @@ import {
   messageListQuerySchema,
   markReadSchema,
   directMessageSchema,
+  getAttachmentLabel,
 } from "@/lib/validations/message";
 import { messageRateLimiter } from "@/lib/rate-limit";
 import { sanitizeHtml } from "@/lib/sanitize";
-import { sendNewMessageEmail } from "@/lib/email";
 import { notifyNewMessage } from "@/lib/notifications";
+import {
+  publishReadReceipts,
+  publishToUser,
+  toRealtimeParticipant,
+} from "@/lib/realtime";
+import {
+  getAttachmentData,
+  isOwnAttachmentKey,
+  toMessageAttachmentInfo,
+} from "@/lib/message-attachments";
+import { dmPolicyCreatorSelect, getDmPolicyDecision } from "@/lib/dm-policy";
+import {
+  getBlockStatus,
+  getBlockedReason,
+  isConversationMuted,
+} from "@/lib/message-safety";
 import type { Prisma } from "@prisma/client";
 
 /**
@@ -131,6 +150,7 @@ export async function GET(request: NextRequest) {
         content: message.content,
         isRead: message.isRead,
         isBroadcast: message.isBroadcast,
+        attachment: toMessageAttachmentInfo(message),
         createdAt: message.createdAt.toISOString(),
         sender: {
           id: message.sender.id,
@@ -160,7 +180,7 @@ export async function GET(request: NextRequest) {
  *
  * Send a direct message (1:1 DM) to another user
  * PRD Requirements:
- * - Subscriber can message creator (if creator has DMs enabled)
+ * - Subscriber can message creator (if creator's DM policy allows)
  * - Creator can reply to subscribers who have messaged them
  * - Rate limit: 30 messages/hour
  * - Content sanitization
@@ -185,7 +205,9 @@ export async function POST(request: NextRequest) {
             id: true,
             status: true,
             dmEnabled: true,
+            handle: true,
             displayName: true,
+            avatarUrl: true,
           },
         },
       },
@@ -232,7 +254,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { receiverId, content } = parseResult.data;
+    const { receiverId, content, attachment } = parseResult.data;
+
+    // Attachments must have been uploaded by the sender
+    if (attachment && !isOwnAttachmentKey(attachment.key, sender.id)) {
+      return NextResponse.json(
+        { error: "Invalid attachment", code: "INVALID_ATTACHMENT" },
+        { status: 400 },
+      );
+    }
 
     // Prevent self-messaging
     if (receiverId === sender.id) {
@@ -249,13 +279,7 @@ export async function POST(request: NextRequest) {
     const receiver = await prisma.user.findUnique({
       where: { id: receiverId },
       include: {
-        creatorProfile: {
-          select: {
-            id: true,
-            status: true,
-            dmEnabled: true,
-          },
-        },
+        creatorProfile: { select: dmPolicyCreatorSelect },
       },
     });
 
@@ -266,6 +290,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A block in either direction stops messages both ways
+    const blockedReason = getBlockedReason(
+      await getBlockStatus(sender.id, receiver.id),
+    );
+    if (blockedReason) {
+      return NextResponse.json(
+        { error: blockedReason, code: "BLOCKED" },
+        { status: 403 },
+      );
+    }
+
     // Determine if this is:
     // 1. Subscriber messaging a creator (need active subscription + DMs enabled)
     // 2. Creator replying to a subscriber (need existing conversation)
@@ -298,34 +333,27 @@ export async function POST(request: NextRequest) {
       }
       // No need to check subscription - they messaged us, so they were subscribed at some point
     } else if (!senderIsCreator && receiverIsCreator) {
-      // Subscriber messaging a creator
-      // Check if creator has DMs enabled
-      if (!receiver.creatorProfile!.dmEnabled) {
+      // Subscriber or follower messaging a creator, under their DM policy
+      const decision = await getDmPolicyDecision(
+        sender.id,
+        receiver.creatorProfile!,
+      );
+
+      if (decision.status === "request") {
         return NextResponse.json(
           {
-            error: "This creator has direct messages disabled",
-            code: "DMS_DISABLED",
+            error:
+              "This creator only accepts messages from you as a message request",
+            code: "REQUEST_REQUIRED",
           },
           { status: 403 },
         );
       }
 
-      // Check if sender has an active subscription to this creator
-      const subscription = await prisma.subscription.findFirst({
-        where: {
-          userId: sender.id,
-          creatorId: receiver.creatorProfile!.id,
-          status: { in: ["active", "trialing"] },
-        },
-      });
-
-      if (!subscription) {
+      if (decision.status === "denied") {
         return NextResponse.json(
-          {
-            error: "You must be subscribed to this creator to send messages",
-            code: "NOT_SUBSCRIBED",
-          },
-          { status: 403 },
+          { error: decision.reason, code: decision.code },
+          { status: decision.code === "DAILY_LIMIT_REACHED" ? 429 : 403 },
         );
       }
     } else if (!senderIsCreator && !receiverIsCreator) {
@@ -352,7 +380,7 @@ export async function POST(request: NextRequest) {
     // Sanitize content (PRD: DOMPurify for user-generated content)
     const sanitizedContent = sanitizeHtml(content);
 
-    if (!sanitizedContent.trim()) {
+    if (!sanitizedContent.trim() && !attachment) {
       return NextResponse.json(
         {
           error: "Message content is required after sanitization",
@@ -370,6 +398,7 @@ export async function POST(request: NextRequest) {
         content: sanitizedContent,
         isBroadcast: false,
         isRead: false,
+        ...getAttachmentData(attachment),
       },
       include: {
         receiver: {
@@ -389,30 +418,45 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Get sender name for notifications
-    const senderName =
-      sender.creatorProfile?.displayName || sender.name || "Someone";
-
-    // Send in-app notification (fire and forget)
-    notifyNewMessage(
-      receiver.id,
-      senderName,
-      sanitizedContent,
-      "/messages",
-    ).catch((error) =>
-      console.error("Error sending new message notification:", error),
-    );
+    // Deliver to the receiver's open inbox and thread (fire and forget)
+    publishToUser(receiver.id, {
+      type: "message.new",
+      message: {
+        id: message.id,
+        content: message.content,
+        isBroadcast: false,
+        attachment: toMessageAttachmentInfo(message),
+        createdAt: message.createdAt.toISOString(),
+        sender: toRealtimeParticipant(sender),
+      },
+    });
 
-    // Send email notification (fire and forget)
-    sendNewMessageEmail(receiver.id, senderName, sanitizedContent).catch(
-      (error) => console.error("Error sending new message email:", error),
-    );
+    // Muted conversations still deliver, just without notifications
+    if (!(await isConversationMuted(receiver.id, sender.id))) {
+      // Get sender name and preview text for notifications
+      const senderName =
+        sender.creatorProfile?.displayName || sender.name || "Someone";
+      const previewText =
+        sanitizedContent ||
+        (attachment ? getAttachmentLabel(attachment.type) : "");
+
+      // Send in-app, push and email notifications (fire and forget)
+      notifyNewMessage(
+        receiver.id,
+        senderName,
+        previewText,
+        "/messages",
+      ).catch((error) =>
+        console.error("Error sending new message notification:", error),
+      );
+    }
 
     return NextResponse.json({
       success: true,
       message: {
         id: message.id,
         content: message.content,
+        attachment: toMessageAttachmentInfo(message),
         createdAt: message.createdAt.toISOString(),
         receiver: {
           id: message.receiver.id,
@@ -481,10 +525,20 @@ export async function PATCH(request: NextRequest) {
 
     const { messageIds } = parseResult.data;
 
+    // Find unread messages belonging to this user, for read receipts
+    const unreadMessages = await prisma.message.findMany({
+      where: {
+        id: { in: messageIds },
+        receiverId: user.id,
+        isRead: false,
+      },
+      select: { id: true, senderId: true, isBroadcast: true },
+    });
+
     // Update messages (only those belonging to this user)
     const result = await prisma.message.updateMany({
       where: {
-        id: { in: messageIds },
+        id: { in: unreadMessages.map((message) => message.id) },
         receiverId: user.id,
         isRead: false,
       },
@@ -493,6 +547,12 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
+    // Let senders know their direct messages were read (fire and forget)
+    publishReadReceipts(
+      user.id,
+      unreadMessages.filter((message) => !message.isBroadcast),
+    );
+
     return NextResponse.json({
       success: true,
       updatedCount: result.count,
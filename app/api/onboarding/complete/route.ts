@@ -0,0 +1,146 @@
+/**
+ * POST /api/onboarding/complete
+ *
+ * Finish the onboarding quiz and generate creator recommendations.
+ * Recommendations are stored on UserOnboarding so /home can show them
+ * without re-running the engine.
+ *
+ * Body: { answers?: Partial<QuizAnswers> } - merged over saved answers
+ *
+ * Without personalization consent, answers are ignored and the user
+ * gets the popular-creators fallback instead.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { onboardingRateLimiter } from "@/lib/rate-limit";
+import { generateRecommendations } from "@/lib/recommendations";
+import {
+  ONBOARDING_STEPS,
+  onboardingCompleteSchema,
+  toOnboardingState,
+  type QuizAnswers,
+} from "@/lib/validations/onboarding";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to continue", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = onboardingRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: {
+        id: true,
+        onboarding: true,
+        subscriptions: {
+          where: { status: { in: ["active", "trialing"] } },
+          select: { creatorId: true },
+        },
+        creatorProfile: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Body is optional
+    const body = await request.json().catch(() => ({}));
+    const validationResult = onboardingCompleteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid quiz answers",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const hasConsent = user.onboarding?.consentGiven ?? false;
+    const storedAnswers = user.onboarding
+      ? toOnboardingState(user.onboarding).answers
+      : {};
+    const answers: QuizAnswers = hasConsent
+      ? { ...storedAnswers, ...validationResult.data.answers }
+      : {};
+
+    // Don't recommend creators the user already subscribes to, or themselves
+    const excludeCreatorIds = user.subscriptions.map((s) => s.creatorId);
+    if (user.creatorProfile) {
+      excludeCreatorIds.push(user.creatorProfile.id);
+    }
+
+    const recommendations = await generateRecommendations(
+      answers,
+      undefined,
+      excludeCreatorIds,
+    );
+
+    const now = new Date();
+    const data = {
+      status: "COMPLETED" as const,
+      currentStep: ONBOARDING_STEPS.indexOf("recommendations"),
+      completedAt: now,
+      recommendedCreatorIds: recommendations.map((r) => r.creatorId),
+      recommendationsGeneratedAt: now,
+      ...(hasConsent && answers),
+    };
+
+    const onboarding = await prisma.userOnboarding.upsert({
+      where: { userId: user.id },
+      create: {
+        userId: user.id,
+        startedAt: now,
+        ...data,
+      },
+      update: data,
+    });
+
+    return NextResponse.json({
+      onboarding: toOnboardingState(onboarding),
+      recommendations,
+    });
+  } catch (error) {
+    console.error("Error completing onboarding:", error);
+    return NextResponse.json(
+      {
+        error:
+          "We couldn't load your recommendations right now. You can browse all creators instead.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
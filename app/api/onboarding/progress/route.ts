@@ -0,0 +1,132 @@
+/**
+ * PATCH /api/onboarding/progress
+ *
+ * Save onboarding progress after each step so the quiz can be resumed.
+ *
+ * Body: { step, answers?: Partial<QuizAnswers>, consentGiven?: boolean }
+ *
+ * Quiz answers are only stored once the user has agreed to their use for
+ * personalization (consent is captured on the welcome step).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { onboardingRateLimiter } from "@/lib/rate-limit";
+import {
+  ONBOARDING_CONSENT_VERSION,
+  ONBOARDING_STEPS,
+  onboardingProgressSchema,
+  toOnboardingState,
+} from "@/lib/validations/onboarding";
+
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to continue", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = onboardingRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: {
+        id: true,
+        onboarding: {
+          select: { consentGiven: true },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = onboardingProgressSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid progress data",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { step, answers, consentGiven } = validationResult.data;
+    const now = new Date();
+
+    const hasConsent =
+      consentGiven ?? user.onboarding?.consentGiven ?? false;
+
+    if (answers && Object.keys(answers).length > 0 && !hasConsent) {
+      return NextResponse.json(
+        {
+          error:
+            "Please agree to personalized recommendations before answering the quiz",
+          code: "CONSENT_REQUIRED",
+        },
+        { status: 400 },
+      );
+    }
+
+    const data = {
+      status: "IN_PROGRESS" as const,
+      currentStep: ONBOARDING_STEPS.indexOf(step),
+      ...(consentGiven !== undefined && {
+        consentGiven,
+        consentVersion: consentGiven ? ONBOARDING_CONSENT_VERSION : null,
+        consentTimestamp: consentGiven ? now : null,
+      }),
+      ...answers,
+    };
+
+    const onboarding = await prisma.userOnboarding.upsert({
+      where: { userId: user.id },
+      create: {
+        userId: user.id,
+        startedAt: now,
+        ...data,
+      },
+      update: data,
+    });
+
+    return NextResponse.json({ onboarding: toOnboardingState(onboarding) });
+  } catch (error) {
+    console.error("Error saving onboarding progress:", error);
+    return NextResponse.json(
+      {
+        error:
+          "We couldn't save your progress. Your answers are safe - try again in a moment.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * POST /api/onboarding/skip
+ *
+ * Mark onboarding as skipped. The user lands on /explore and can
+ * retake the quiz later from /onboarding.
+ *
+ * Body: { fromStep?: string } - step the user skipped from (kept for resume)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { onboardingRateLimiter } from "@/lib/rate-limit";
+import {
+  ONBOARDING_STEPS,
+  onboardingSkipSchema,
+  toOnboardingState,
+} from "@/lib/validations/onboarding";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to continue", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = onboardingRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Body is optional
+    const body = await request.json().catch(() => ({}));
+    const validationResult = onboardingSkipSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { fromStep } = validationResult.data;
+    const currentStep = fromStep ? ONBOARDING_STEPS.indexOf(fromStep) : 0;
+
+    const onboarding = await prisma.userOnboarding.upsert({
+      where: { userId: user.id },
+      create: {
+        userId: user.id,
+        status: "SKIPPED",
+        currentStep,
+      },
+      update: {
+        status: "SKIPPED",
+        ...(fromStep && { currentStep }),
+      },
+    });
+
+    return NextResponse.json({ onboarding: toOnboardingState(onboarding) });
+  } catch (error) {
+    console.error("Error skipping onboarding:", error);
+    return NextResponse.json(
+      { error: "Failed to skip onboarding", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * POST /api/onboarding/start
+ *
+ * Start (or resume) the subscriber onboarding quiz.
+ * Creates the UserOnboarding record on first visit and returns the
+ * current state so the client can resume from the last saved step.
+ *
+ * Body: { restart?: boolean } - restart a skipped/completed quiz from step 0
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { onboardingRateLimiter } from "@/lib/rate-limit";
+import {
+  onboardingStartSchema,
+  toOnboardingState,
+} from "@/lib/validations/onboarding";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to continue", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = onboardingRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Body is optional
+    const body = await request.json().catch(() => ({}));
+    const validationResult = onboardingStartSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          code: "VALIDATION_ERROR",
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { restart } = validationResult.data;
+    const now = new Date();
+
+    const existing = await prisma.userOnboarding.findUnique({
+      where: { userId: user.id },
+    });
+
+    let onboarding;
+
+    if (!existing) {
+      onboarding = await prisma.userOnboarding.create({
+        data: {
+          userId: user.id,
+          status: "IN_PROGRESS",
+          startedAt: now,
+          currentStep: 0,
+        },
+      });
+    } else if (restart || existing.status === "NOT_STARTED") {
+      // Keep previous answers so the quiz is pre-filled when retaken
+      onboarding = await prisma.userOnboarding.update({
+        where: { id: existing.id },
+        data: {
+          status: "IN_PROGRESS",
+          startedAt: now,
+          completedAt: null,
+          currentStep: 0,
+        },
+      });
+    } else {
+      onboarding = existing;
+    }
+
+    return NextResponse.json({ onboarding: toOnboardingState(onboarding) });
+  } catch (error) {
+    console.error("Error starting onboarding:", error);
+    return NextResponse.json(
+      {
+        error:
+          "We couldn't save your progress. Your answers are safe - try again in a moment.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * GET /api/onboarding/status
+ *
+ * Return the current user's onboarding state.
+ * Users without a record are reported as NOT_STARTED.
+ */
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { onboardingRateLimiter } from "@/lib/rate-limit";
+import { toOnboardingState } from "@/lib/validations/onboarding";
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to continue", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = onboardingRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: {
+        id: true,
+        onboarding: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!user.onboarding) {
+      return NextResponse.json({
+        onboarding: toOnboardingState({
+          status: "NOT_STARTED",
+          currentStep: 0,
+          consentGiven: false,
+          primaryGoal: null,
+          experienceLevel: null,
+          preferredTime: null,
+          timeCommitment: null,
+          interestedModalities: [],
+          recommendedCreatorIds: [],
+        }),
+      });
+    }
+
+    return NextResponse.json({
+      onboarding: toOnboardingState(user.onboarding),
+    });
+  } catch (error) {
+    console.error("Error fetching onboarding status:", error);
+    return NextResponse.json(
+      { error: "Failed to load onboarding status", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
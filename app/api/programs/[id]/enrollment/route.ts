@@ -0,0 +1,117 @@
+/**
+ * POST /api/programs/[id]/enrollment
+ *
+ * Start a program. Its items unlock on their unlock day, counted from
+ * when the user started.
+ *
+ * Requirements:
+ * - User must be authenticated
+ * - Program must be published, from an active creator
+ * - User must have access to the program: it's free, they subscribe at
+ *   its tier, they bought it, or it's their own
+ *
+ * Starting a program again keeps the original start date.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import { checkProgramAccess } from "@/lib/middleware/subscription-check";
+import { enrollInProgram } from "@/lib/programs";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: programId } = await params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const program = await prisma.program.findUnique({
+      where: { id: programId },
+      select: {
+        id: true,
+        isFree: true,
+        creatorId: true,
+        publishedAt: true,
+        minTier: { select: { rank: true } },
+        creator: { select: { status: true } },
+      },
+    });
+
+    if (
+      !program ||
+      !program.publishedAt ||
+      program.creator.status !== "active"
+    ) {
+      return NextResponse.json(
+        { error: "Program not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    if (!(await checkProgramAccess(user.id, program))) {
+      return NextResponse.json(
+        {
+          error: "Subscribe or buy this program to start it",
+          code: "SUBSCRIPTION_REQUIRED",
+        },
+        { status: 403 },
+      );
+    }
+
+    const enrollment = await enrollInProgram(user.id, program.id);
+
+    return NextResponse.json({
+      success: true,
+      enrollment: {
+        startedAt: enrollment.startedAt.toISOString(),
+        completedAt: enrollment.completedAt?.toISOString() ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error starting program:", error);
+    return NextResponse.json(
+      { error: "Failed to start program", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * POST /api/purchases
+ *
+ * Create a Stripe Checkout session for a one-time purchase of a single
+ * piece of content or a whole program (pay-per-view).
+ * Returns a URL to redirect the user to for payment.
+ *
+ * Body: { contentId: string } | { programId: string }
+ *
+ * Requirements:
+ * - User must be authenticated
+ * - Content/program must be published and have a purchase price
+ * - Creator must be active with Stripe onboarding complete
+ * - User must not already have access (subscription or prior purchase)
+ *
+ * The purchase itself is recorded by the Stripe webhook
+ * (checkout.session.completed in payment mode, or
+ * checkout.session.async_payment_succeeded for delayed payment methods).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  stripe,
+  getBaseUrl,
+  getOrCreateCustomer,
+  createPurchaseCheckout,
+} from "@/lib/stripe";
+import {
+  checkContentAccess,
+  checkSubscriptionStatus,
+} from "@/lib/middleware/subscription-check";
+import { hasPurchasedProgram } from "@/lib/purchases";
+import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import { createPurchaseSchema } from "@/lib/validations/purchase";
+
+const creatorSelect = {
+  id: true,
+  handle: true,
+  userId: true,
+  stripeAccountId: true,
+  stripeOnboardingComplete: true,
+  status: true,
+} satisfies Prisma.CreatorProfileSelect;
+
+/**
+ * Fields shared by purchasable content and programs
+ */
+interface PurchasableItem {
+  title: string;
+  priceCents: number | null;
+  isFree: boolean;
+  creator: Prisma.CreatorProfileGetPayload<{ select: typeof creatorSelect }>;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to purchase", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check (shared with subscription checkout)
+    const rateLimitResult = subscriptionRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many purchase attempts. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = createPurchaseSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid purchase request",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { contentId, programId } = parseResult.data;
+
+    // Get the current user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: {
+        id: true,
+        email: true,
+        stripeCustomerId: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User account not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Resolve what is being bought
+    let item: PurchasableItem | null = null;
+    let returnPath = "";
+
+    if (contentId) {
+      const content = await prisma.content.findUnique({
+        where: { id: contentId },
+        select: {
+          title: true,
+          priceCents: true,
+          isFree: true,
+          status: true,
+          creator: { select: creatorSelect },
+        },
+      });
+
+      if (content && content.status === "published") {
+        item = content;
+        returnPath = `/${content.creator.handle}/post/${contentId}`;
+      }
+    } else if (programId) {
+      const program = await prisma.program.findUnique({
+        where: { id: programId },
+        select: {
+          title: true,
+          priceCents: true,
+          isFree: true,
+          publishedAt: true,
+          creator: { select: creatorSelect },
+        },
+      });
+
+      if (program && program.publishedAt) {
+        item = program;
+        returnPath = `/programs/${programId}`;
+      }
+    }
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Content not found", code: "NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const { creator } = item;
+
+    if (item.isFree || item.priceCents === null) {
+      return NextResponse.json(
+        {
+          error: "This item isn't available for purchase",
+          code: "NOT_FOR_SALE",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Prevent buying your own content
+    if (creator.userId === user.id) {
+      return NextResponse.json(
+        {
+          error: "You cannot purchase your own content",
+          code: "SELF_PURCHASE",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Check creator is ready to take payments
+    if (
+      creator.status !== "active" ||
+      !creator.stripeOnboardingComplete ||
+      !creator.stripeAccountId
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "This creator is not currently accepting payments. Please check back later.",
+          code: "CREATOR_NOT_READY",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Real-time validation of Stripe account capabilities
+    try {
+      const account = await stripe.accounts.retrieve(creator.stripeAccountId);
+
+      if (!account.charges_enabled) {
+        console.error(
+          `Creator ${creator.id} account ${creator.stripeAccountId} cannot accept charges`,
+        );
+        return NextResponse.json(
+          {
+            error:
+              "This creator is currently unable to accept payments. Please try again later.",
+            code: "CREATOR_ACCOUNT_RESTRICTED",
+          },
+          { status: 400 },
+        );
+      }
+    } catch (stripeError) {
+      console.error(`Failed to verify creator Stripe account:`, stripeError);
+      return NextResponse.json(
+        {
+          error: "Unable to verify creator payment account. Please try again.",
+          code: "ACCOUNT_VERIFICATION_FAILED",
+        },
+        { status: 502 },
+      );
+    }
+
+    // Don't charge for something the user can already watch, including
+    // program items waiting for their unlock day
+    let alreadyHasAccess: boolean;
+    if (contentId) {
+      const access = await checkContentAccess({ contentId, userId: user.id });
+      alreadyHasAccess = access.hasAccess || access.reason === "locked_until";
+    } else {
+      alreadyHasAccess =
+        (await hasPurchasedProgram(user.id, programId!)) ||
+        (await checkSubscriptionStatus(user.id, creator.id)).hasAccess;
+    }
+
+    if (alreadyHasAccess) {
+      return NextResponse.json(
+        {
+          error: "You already have access to this content",
+          code: "ALREADY_HAS_ACCESS",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Get or create Stripe customer
+    const stripeCustomerId = await getOrCreateCustomer(
+      user.email,
+      user.id,
+      user.stripeCustomerId,
+    );
+
+    // Save customer ID to user if it's new
+    if (user.stripeCustomerId !== stripeCustomerId) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { stripeCustomerId },
+      });
+    }
+
+    // Build URLs for success/cancel
+    const baseUrl = getBaseUrl();
+    const separator = returnPath.includes("?") ? "&" : "?";
+    const successUrl = `${baseUrl}${returnPath}${separator}purchased=true`;
+    const cancelUrl = `${baseUrl}${returnPath}`;
+
+    const session = await createPurchaseCheckout({
+      customerId: stripeCustomerId,
+      amountInCents: item.priceCents,
+      productName: item.title,
+      creatorStripeAccountId: creator.stripeAccountId,
+      creatorId: creator.id,
+      userId: user.id,
+      contentId,
+      programId,
+      successUrl,
+      cancelUrl,
+    });
+
+    if (!session.url) {
+      console.error("Stripe checkout session created without URL", {
+        sessionId: session.id,
+      });
+      return NextResponse.json(
+        {
+          error: "Failed to create checkout session. Please try again.",
+          code: "CHECKOUT_FAILED",
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      url: session.url,
+      sessionId: session.id,
+      purchase: {
+        price: item.priceCents / 100,
+        contentId: contentId ?? null,
+        programId: programId ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating purchase checkout:", error);
+
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        {
+          error: "Invalid payment request. Please try again.",
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeRateLimitError) {
+      return NextResponse.json(
+        {
+          error: "Service temporarily busy. Please try again.",
+          code: "RATE_LIMIT",
+        },
+        { status: 429 },
+      );
+    }
+
+    if (error instanceof Stripe.errors.StripeAPIError) {
+      return NextResponse.json(
+        {
+          error: "Payment service error. Please try again later.",
+          code: "STRIPE_API_ERROR",
+        },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Unable to start purchase. Please try again later.",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * /api/realtime
+ *
+ * GET - Server-Sent Events stream of the current user's realtime events:
+ * new messages, read receipts and notifications (see lib/realtime.ts)
+ *
+ * The stream sends a `ready` event once it's listening, a comment every
+ * 25 seconds to keep proxies from closing it, and ends after a few
+ * minutes so it fits within serverless time limits. EventSource
+ * reconnects on its own; clients refetch on reconnect to catch anything
+ * sent in between.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { subscribeToUser } from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const STREAM_LIFETIME_MS = 4 * 60 * 1000;
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * GET /api/realtime
+ *
+ * Open the realtime event stream for the current user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The client went away between checks
+            close();
+          }
+        };
+
+        const unsubscribe = subscribeToUser(user.id, (event) => {
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        });
+
+        const heartbeat = setInterval(
+          () => send(": heartbeat\n\n"),
+          HEARTBEAT_INTERVAL_MS,
+        );
+        const lifetime = setTimeout(() => close(), STREAM_LIFETIME_MS);
+
+        function close() {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearTimeout(lifetime);
+          unsubscribe();
+          request.signal.removeEventListener("abort", close);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+
+        cleanup = close;
+        request.signal.addEventListener("abort", close);
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        send("event: ready\ndata: {}\n\n");
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Disable response buffering in nginx-style proxies
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Error opening realtime stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open realtime stream", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,13 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
-import { prisma } from "@/lib/prisma";
 import { rateLimit } from "@/lib/redis";
+import {
+  decodeSearchCursor,
+  getContentTypeFacets,
+  getCreatorCategoryFacets,
+  prepareSearchTerms,
+  searchContent,
+  searchCreators,
+  type ContentSearchResult,
+  type CreatorSearchResult,
+  type FacetCount,
+  type SearchPage,
+} from "@/lib/search";
+import { creatorCategorySchema } from "@/lib/validations/creator";
+import { contentTypeSchema } from "@/lib/validations/content";
+import type { ContentType, CreatorCategory } from "@prisma/client";
 
 /**
  * Search API Route
  *
  * GET /api/search?q=<query>&type=creators|content|all&limit=20&cursor=<cursor>
+ *   &category=<CreatorCategory>&contentType=<ContentType>
+ *
+ * Ranked full-text search with typo tolerance (see lib/search.ts).
+ * Each result includes a highlighted snippet; facet counts by creator
+ * category and content type are returned alongside the results.
+ *
+ * The cursor is opaque. In "all" mode it pages creators only.
  *
  * Rate limit: 30 requests/minute
  */
@@ -17,6 +38,8 @@ const searchSchema = z.object({
   type: z.enum(["creators", "content", "all"]).default("all"),
   limit: z.coerce.number().min(1).max(100).default(20),
   cursor: z.string().optional(),
+  category: creatorCategorySchema.optional(),
+  contentType: contentTypeSchema.optional(),
 });
 
 export async function GET(request: NextRequest) {
@@ -29,6 +52,8 @@ export async function GET(request: NextRequest) {
       type: searchParams.get("type") ?? "all",
       limit: searchParams.get("limit") ?? 20,
       cursor: searchParams.get("cursor") ?? undefined,
+      category: searchParams.get("category") ?? undefined,
+      contentType: searchParams.get("contentType") ?? undefined,
     });
 
     if (!parseResult.success) {
@@ -42,7 +67,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { q, type, limit, cursor } = parseResult.data;
+    const { q, type, limit, category, contentType } = parseResult.data;
+
+    const cursor = parseResult.data.cursor
+      ? decodeSearchCursor(parseResult.data.cursor)
+      : null;
+
+    if (parseResult.data.cursor && !cursor) {
+      return NextResponse.json(
+        {
+          error: "Invalid search parameters",
+          code: "INVALID_PARAMS",
+          details: { fieldErrors: { cursor: ["Invalid cursor"] } },
+        },
+        { status: 400 },
+      );
+    }
 
     // Rate limiting - use IP as identifier for anonymous users
     const ip =
@@ -72,144 +112,45 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Prepare search term for database query
-    const searchTerm = q.toLowerCase().trim();
-
-    // Results containers
-    let creators: Array<{
-      id: string;
-      handle: string;
-      displayName: string;
-      bio: string | null;
-      avatarUrl: string | null;
-      coverImageUrl: string | null;
-      category: string;
-      subscriptionPrice: string;
-      trialEnabled: boolean;
-      isVerified: boolean;
-    }> = [];
-    let content: Array<{
-      id: string;
-      title: string;
-      description: string | null;
-      thumbnailUrl: string | null;
-      type: string;
-      duration: number | null;
-      isFree: boolean;
-      publishedAt: Date | null;
-      creator: {
-        handle: string;
-        displayName: string;
-        avatarUrl: string | null;
-      };
-    }> = [];
-    let creatorsNextCursor: string | null = null;
-    let contentNextCursor: string | null = null;
+    const terms = prepareSearchTerms(q);
+    const includeCreators = type === "creators" || type === "all";
+    const includeContent = type === "content" || type === "all";
+
+    let creators: SearchPage<CreatorSearchResult> | undefined;
+    let content: SearchPage<ContentSearchResult> | undefined;
+    let categoryFacets: FacetCount<CreatorCategory>[] | undefined;
+    let contentTypeFacets: FacetCount<ContentType>[] | undefined;
 
     // Search creators
-    if (type === "creators" || type === "all") {
-      const creatorResults = await prisma.creatorProfile.findMany({
-        where: {
-          status: "active",
-          stripeOnboardingComplete: true,
-          OR: [
-            { displayName: { contains: searchTerm, mode: "insensitive" } },
-            { handle: { contains: searchTerm, mode: "insensitive" } },
-            { bio: { contains: searchTerm, mode: "insensitive" } },
-          ],
-        },
-        select: {
-          id: true,
-          handle: true,
-          displayName: true,
-          bio: true,
-          avatarUrl: true,
-          coverImageUrl: true,
-          category: true,
-          subscriptionPrice: true,
-          trialEnabled: true,
-          isVerified: true,
-        },
-        orderBy: [{ isFeatured: "desc" }, { displayName: "asc" }],
-        take: limit + 1,
-        ...(cursor && {
-          cursor: { id: cursor },
-          skip: 1,
-        }),
-      });
-
-      if (creatorResults.length > limit) {
-        creatorsNextCursor = creatorResults[limit - 1].id;
-        creators = creatorResults.slice(0, limit);
-      } else {
-        creators = creatorResults;
-      }
+    if (includeCreators) {
+      [creators, categoryFacets] = await Promise.all([
+        searchCreators({ terms, limit, cursor, category }),
+        getCreatorCategoryFacets(terms),
+      ]);
     }
 
-    // Search content (only published and public content)
-    if (type === "content" || type === "all") {
-      const contentResults = await prisma.content.findMany({
-        where: {
-          status: "published",
-          OR: [
-            { title: { contains: searchTerm, mode: "insensitive" } },
-            { description: { contains: searchTerm, mode: "insensitive" } },
-          ],
-          creator: {
-            status: "active",
-            stripeOnboardingComplete: true,
-          },
-        },
-        select: {
-          id: true,
-          title: true,
-          description: true,
-          thumbnailUrl: true,
-          type: true,
-          duration: true,
-          isFree: true,
-          publishedAt: true,
-          creator: {
-            select: {
-              handle: true,
-              displayName: true,
-              avatarUrl: true,
-            },
-          },
-        },
-        orderBy: { publishedAt: "desc" },
-        take: limit + 1,
-        ...(cursor &&
-          type === "content" && {
-            cursor: { id: cursor },
-            skip: 1,
-          }),
-      });
-
-      if (contentResults.length > limit) {
-        contentNextCursor = contentResults[limit - 1].id;
-        content = contentResults.slice(0, limit);
-      } else {
-        content = contentResults;
-      }
+    // Search content (only published content from visible creators)
+    if (includeContent) {
+      [content, contentTypeFacets] = await Promise.all([
+        searchContent({
+          terms,
+          limit,
+          // In "all" mode the cursor belongs to the creator results
+          cursor: type === "content" ? cursor : null,
+          contentType,
+        }),
+        getContentTypeFacets(terms),
+      ]);
     }
 
     return NextResponse.json(
       {
-        creators:
-          type === "creators" || type === "all"
-            ? {
-                items: creators,
-                nextCursor: creatorsNextCursor,
-              }
-            : undefined,
-        content:
-          type === "content" || type === "all"
-            ? {
-                items: content,
-                nextCursor: contentNextCursor,
-              }
-            : undefined,
+        creators,
+        content,
+        facets: {
+          categories: categoryFacets,
+          contentTypes: contentTypeFacets,
+        },
         query: q,
       },
       {
@@ -0,0 +1,316 @@
+/**
+ * GET /api/subscriptions/[id]/retention-offer
+ *
+ * Get the creator's retention offers this subscription can take instead
+ * of canceling. Shown in the cancel dialog before confirming.
+ *
+ * POST /api/subscriptions/[id]/retention-offer
+ *
+ * Take an offer with body { offer: "discount" | "pause", reason, feedback? }
+ * (reason and feedback come from the cancellation survey):
+ * - discount: percent off the next invoice
+ * - pause: access continues to the end of the paid period, then billing
+ *   and access pause for the creator's pause length
+ *
+ * Each subscription can take one offer.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import Stripe from "stripe";
+import { format } from "date-fns";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  applySubscriptionDiscount,
+  setSubscriptionCollectionPaused,
+} from "@/lib/stripe";
+import { getRetentionOffers } from "@/lib/retention";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+import { invalidateCreatorSubscriptionCaches } from "@/lib/cache";
+import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import { retentionOfferSchema } from "@/lib/validations/subscription";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const retentionSubscriptionSelect = {
+  id: true,
+  userId: true,
+  creatorId: true,
+  stripeSubscriptionId: true,
+  giftId: true,
+  status: true,
+  billingInterval: true,
+  cancelAtPeriodEnd: true,
+  currentPeriodEnd: true,
+  pausedUntil: true,
+  retentionOfferAcceptedAt: true,
+  creator: {
+    select: {
+      displayName: true,
+      retentionDiscountPercent: true,
+      retentionPauseMonths: true,
+    },
+  },
+} satisfies Prisma.SubscriptionSelect;
+
+/**
+ * Find the signed-in user's subscription, or the error response to send
+ */
+async function findOwnSubscription(
+  clerkId: string,
+  subscriptionId: string,
+) {
+  const user = await prisma.user.findUnique({
+    where: { clerkId },
+    select: { id: true },
+  });
+
+  if (!user) {
+    return {
+      error: NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: subscriptionId },
+    select: retentionSubscriptionSelect,
+  });
+
+  // Other users' subscriptions look the same as missing ones
+  if (!subscription || subscription.userId !== user.id) {
+    return {
+      error: NextResponse.json(
+        { error: "Subscription not found", code: "SUBSCRIPTION_NOT_FOUND" },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { subscription };
+}
+
+/**
+ * GET - Get available retention offers
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<NextResponse> {
+  try {
+    const { id: subscriptionId } = await context.params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Please sign in to view offers", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    const { subscription, error } = await findOwnSubscription(
+      clerkId,
+      subscriptionId,
+    );
+    if (error) {
+      return error;
+    }
+
+    return NextResponse.json({
+      offers: getRetentionOffers(subscription, subscription.creator),
+    });
+  } catch (error) {
+    console.error("Error fetching retention offers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch offers", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST - Take a retention offer
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<NextResponse> {
+  try {
+    const { id: subscriptionId } = await context.params;
+
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        {
+          error: "Please sign in to accept this offer",
+          code: "UNAUTHORIZED",
+        },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = subscriptionRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many attempts. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json().catch(() => ({}));
+    const parseResult = retentionOfferSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid offer",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { subscription, error } = await findOwnSubscription(
+      clerkId,
+      subscriptionId,
+    );
+    if (error) {
+      return error;
+    }
+
+    const { offer, reason, feedback } = parseResult.data;
+    const offers = getRetentionOffers(subscription, subscription.creator);
+    const discount = offer === "discount" ? offers.discount : null;
+    const pause = offer === "pause" ? offers.pause : null;
+
+    if ((!discount && !pause) || !subscription.stripeSubscriptionId) {
+      return NextResponse.json(
+        {
+          error: "This offer isn't available for your subscription",
+          code: "OFFER_UNAVAILABLE",
+        },
+        { status: 400 },
+      );
+    }
+
+    const pauseDates = pause
+      ? {
+          pauseStartsAt: new Date(pause.startsAt),
+          pausedUntil: new Date(pause.resumesAt),
+        }
+      : null;
+
+    // A pause is saved BEFORE it's sent to Stripe: the webhook can arrive
+    // first, and needs pauseStartsAt to know the pause hasn't started yet.
+    // Discounts are applied in Stripe first.
+    if (pauseDates) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: pauseDates,
+      });
+    }
+
+    try {
+      if (discount) {
+        await applySubscriptionDiscount(subscription.stripeSubscriptionId, {
+          percentOff: discount.percentOff,
+          creatorId: subscription.creatorId,
+        });
+      } else if (pauseDates) {
+        await setSubscriptionCollectionPaused(
+          subscription.stripeSubscriptionId,
+          true,
+          pauseDates.pausedUntil,
+        );
+      }
+    } catch (stripeError) {
+      console.error("Stripe retention offer error:", stripeError);
+
+      // Stripe didn't pause, so neither do we
+      if (pauseDates) {
+        await prisma.subscription.update({
+          where: { id: subscription.id },
+          data: { pauseStartsAt: null, pausedUntil: null },
+        });
+      }
+
+      if (stripeError instanceof Stripe.errors.StripeRateLimitError) {
+        return NextResponse.json(
+          {
+            error: "Service temporarily busy. Please try again.",
+            code: "RATE_LIMIT",
+          },
+          { status: 429 },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Unable to apply this offer. Please try again.",
+          code: "STRIPE_ERROR",
+        },
+        { status: 500 },
+      );
+    }
+
+    const updatedSubscription = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        retentionOffer: offer,
+        retentionOfferAcceptedAt: new Date(),
+        cancellationReason: reason,
+        cancellationFeedback: feedback || null,
+      },
+    });
+
+    if (pauseDates) {
+      await Promise.all([
+        invalidateSubscriptionAccessCache(
+          subscription.userId,
+          subscription.creatorId,
+        ),
+        invalidateCreatorSubscriptionCaches(subscription.creatorId),
+      ]);
+    }
+
+    const { displayName } = subscription.creator;
+
+    return NextResponse.json({
+      success: true,
+      message: pauseDates
+        ? `Your subscription to ${displayName} will pause from ${format(pauseDates.pauseStartsAt, "MMMM d")} until ${format(pauseDates.pausedUntil, "MMMM d, yyyy")}.`
+        : `You'll get ${discount?.percentOff}% off your next payment to ${displayName}.`,
+      subscription: {
+        id: updatedSubscription.id,
+        status: updatedSubscription.status,
+        pauseStartsAt:
+          updatedSubscription.pauseStartsAt?.toISOString() || null,
+        pausedUntil: updatedSubscription.pausedUntil?.toISOString() || null,
+      },
+    });
+  } catch (error) {
+    console.error("Error accepting retention offer:", error);
+    return NextResponse.json(
+      { error: "Failed to apply offer", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,8 @@
  * DELETE /api/subscriptions/[id]
  *
  * Cancel a subscription (sets cancelAtPeriodEnd: true).
- * User retains access until the current billing period ends.
+ * User retains access until the current billing period ends. The body is
+ * the cancellation survey answer { reason, feedback? }.
  *
  * GET /api/subscriptions/[id]
  *
@@ -11,22 +12,79 @@
  * PATCH /api/subscriptions/[id]
  *
  * Reactivate a subscription that was set to cancel at period end.
- * Sets cancelAtPeriodEnd: false in both Stripe and database.
+ * Sets cancelAtPeriodEnd: false in both Stripe and database, and clears
+ * the cancellation survey answer.
+ *
+ * With body { tierId }, moves the subscription to another membership tier
+ * instead. Upgrades are charged the prorated difference immediately;
+ * downgrades are credited on the next invoice.
+ *
+ * With body { pauseMonths } (1-3), pauses billing and access for that many
+ * months from the end of the paid period. With body { resume: true }, ends
+ * a pause early or calls off one that hasn't started.
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import Stripe from "stripe";
+import { format } from "date-fns";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import {
+  getCurrentPriceForInterval,
+  getTierPriceForInterval,
+} from "@/lib/pricing";
 import {
   cancelSubscriptionAtPeriodEnd,
+  changeSubscriptionTier,
+  getOrCreatePrice,
   reactivateSubscription,
+  setSubscriptionCollectionPaused,
 } from "@/lib/stripe";
+import { getPauseDates } from "@/lib/subscription-pause";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+import { invalidateCreatorSubscriptionCaches } from "@/lib/cache";
 import { subscriptionRateLimiter } from "@/lib/rate-limit";
+import {
+  joinableTiersArgs,
+  tierSummarySelect,
+  toTierOptions,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
+import {
+  cancelSubscriptionSchema,
+  updateSubscriptionSchema,
+} from "@/lib/validations/subscription";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
+const patchSubscriptionSelect = {
+  id: true,
+  userId: true,
+  creatorId: true,
+  stripeSubscriptionId: true,
+  giftId: true,
+  status: true,
+  billingInterval: true,
+  cancelAtPeriodEnd: true,
+  currentPeriodEnd: true,
+  pauseStartsAt: true,
+  pausedUntil: true,
+  tier: { select: { id: true, rank: true } },
+  creator: {
+    select: {
+      displayName: true,
+      status: true,
+      annualDiscountPercent: true,
+    },
+  },
+} satisfies Prisma.SubscriptionSelect;
+
+type PatchSubscription = Prisma.SubscriptionGetPayload<{
+  select: typeof patchSubscriptionSelect;
+}>;
+
 /**
  * GET - Get subscription details
  */
@@ -74,8 +132,12 @@ export async function GET(
             avatarUrl: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
+            annualDiscountPercent: true,
+            membershipTiers: joinableTiersArgs,
           },
         },
+        tier: { select: tierSummarySelect },
       },
     });
 
@@ -98,18 +160,38 @@ export async function GET(
       id: subscription.id,
       status: subscription.status,
       priceAtPurchase: subscription.priceAtPurchase,
+      billingInterval: subscription.billingInterval,
       currentPeriodStart:
         subscription.currentPeriodStart?.toISOString() || null,
       currentPeriodEnd: subscription.currentPeriodEnd?.toISOString() || null,
       cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      pauseStartsAt: subscription.pauseStartsAt?.toISOString() || null,
+      pausedUntil: subscription.pausedUntil?.toISOString() || null,
+      isGift: !!subscription.giftId,
       createdAt: subscription.createdAt.toISOString(),
+      tier: subscription.tier
+        ? {
+            id: subscription.tier.id,
+            name: subscription.tier.name,
+            rank: subscription.tier.rank,
+          }
+        : null,
       creator: {
         id: subscription.creator.id,
         handle: subscription.creator.handle,
         displayName: subscription.creator.displayName,
         avatarUrl: subscription.creator.avatarUrl,
         category: subscription.creator.category,
-        currentPrice: subscription.creator.subscriptionPrice,
+        currentPriceCents: getCurrentPriceForInterval(
+          subscription.creator,
+          subscription.tier,
+          subscription.billingInterval,
+        ),
+        tiers: toTierOptions(
+          subscription.creator.membershipTiers,
+          subscription.creator.annualDiscountPercent,
+          subscription.billingInterval,
+        ),
       },
     });
   } catch (error) {
@@ -174,6 +256,21 @@ export async function DELETE(
       );
     }
 
+    // Parse cancellation survey answer
+    const body = await request.json().catch(() => ({}));
+    const parseResult = cancelSubscriptionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Please tell us why you're canceling",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
     // Get subscription
     const subscription = await prisma.subscription.findUnique({
       where: { id: subscriptionId },
@@ -181,6 +278,7 @@ export async function DELETE(
         id: true,
         userId: true,
         stripeSubscriptionId: true,
+        giftId: true,
         status: true,
         cancelAtPeriodEnd: true,
         currentPeriodEnd: true,
@@ -218,6 +316,18 @@ export async function DELETE(
       );
     }
 
+    // Gifts are prepaid and never renew, so there's nothing to cancel
+    if (subscription.giftId) {
+      return NextResponse.json(
+        {
+          error:
+            "Gift memberships end on their own and don't need to be canceled",
+          code: "GIFT_SUBSCRIPTION",
+        },
+        { status: 400 },
+      );
+    }
+
     if (subscription.cancelAtPeriodEnd) {
       return NextResponse.json(
         {
@@ -276,7 +386,11 @@ export async function DELETE(
     // ONLY update database AFTER Stripe succeeds
     const updatedSubscription = await prisma.subscription.update({
       where: { id: subscription.id },
-      data: { cancelAtPeriodEnd: true },
+      data: {
+        cancelAtPeriodEnd: true,
+        cancellationReason: parseResult.data.reason,
+        cancellationFeedback: parseResult.data.feedback || null,
+      },
     });
 
     return NextResponse.json({
@@ -322,7 +436,8 @@ export async function DELETE(
 }
 
 /**
- * PATCH - Reactivate subscription (set cancelAtPeriodEnd to false)
+ * PATCH - Reactivate subscription (set cancelAtPeriodEnd to false), change
+ * its membership tier, or pause or resume it
  */
 export async function PATCH(
   request: NextRequest,
@@ -374,22 +489,25 @@ export async function PATCH(
       );
     }
 
+    // Parse optional body (plain PATCHes reactivate)
+    const body = await request.json().catch(() => ({}));
+    const parseResult = updateSubscriptionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid subscription update",
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
     // Get subscription
     const subscription = await prisma.subscription.findUnique({
       where: { id: subscriptionId },
-      select: {
-        id: true,
-        userId: true,
-        stripeSubscriptionId: true,
-        status: true,
-        cancelAtPeriodEnd: true,
-        currentPeriodEnd: true,
-        creator: {
-          select: {
-            displayName: true,
-          },
-        },
-      },
+      select: patchSubscriptionSelect,
     });
 
     if (!subscription) {
@@ -407,6 +525,32 @@ export async function PATCH(
       );
     }
 
+    // Gifts are prepaid for a fixed tier and length
+    if (subscription.giftId) {
+      return NextResponse.json(
+        {
+          error:
+            "Gift memberships can't be changed. You can subscribe once your gift ends.",
+          code: "GIFT_SUBSCRIPTION",
+        },
+        { status: 400 },
+      );
+    }
+
+    const { tierId, pauseMonths, resume } = parseResult.data;
+
+    if (tierId) {
+      return changeTier(subscription, tierId);
+    }
+
+    if (pauseMonths) {
+      return pauseSubscription(subscription, pauseMonths);
+    }
+
+    if (resume) {
+      return resumeSubscription(subscription);
+    }
+
     // Check if subscription is already canceled (past the period end)
     if (subscription.status === "canceled") {
       return NextResponse.json(
@@ -482,7 +626,11 @@ export async function PATCH(
     // ONLY update database AFTER Stripe succeeds
     const updatedSubscription = await prisma.subscription.update({
       where: { id: subscription.id },
-      data: { cancelAtPeriodEnd: false },
+      data: {
+        cancelAtPeriodEnd: false,
+        cancellationReason: null,
+        cancellationFeedback: null,
+      },
     });
 
     return NextResponse.json({
@@ -526,3 +674,386 @@ export async function PATCH(
     );
   }
 }
+
+/**
+ * Move a subscription to another membership tier of the same creator
+ *
+ * Stripe is updated first; the database only after Stripe succeeds.
+ */
+async function changeTier(
+  subscription: PatchSubscription,
+  tierId: string,
+): Promise<NextResponse> {
+  if (subscription.status !== "active" && subscription.status !== "trialing") {
+    return NextResponse.json(
+      {
+        error: "Only active subscriptions can change tier",
+        code: "SUBSCRIPTION_INACTIVE",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.cancelAtPeriodEnd) {
+    return NextResponse.json(
+      {
+        error:
+          "This subscription is set to cancel. Reactivate it before changing tier.",
+        code: "SUBSCRIPTION_CANCELING",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.tier?.id === tierId) {
+    return NextResponse.json(
+      { error: "You're already on this tier", code: "SAME_TIER" },
+      { status: 400 },
+    );
+  }
+
+  const tier = await prisma.membershipTier.findFirst({
+    where: {
+      id: tierId,
+      creatorId: subscription.creatorId,
+      archivedAt: null,
+    },
+    select: { id: true, name: true, rank: true, priceCents: true },
+  });
+
+  if (!tier) {
+    return NextResponse.json(
+      {
+        error: "This membership tier isn't available",
+        code: "TIER_NOT_FOUND",
+      },
+      { status: 404 },
+    );
+  }
+
+  // Stay on the same billing interval at the tier's current price
+  const amountInCents = getTierPriceForInterval(
+    tier,
+    subscription.creator.annualDiscountPercent,
+    subscription.billingInterval,
+  );
+
+  if (amountInCents === null) {
+    return NextResponse.json(
+      {
+        error:
+          "This creator no longer offers an annual plan. Switch to monthly billing to change tier.",
+        code: "ANNUAL_PLAN_UNAVAILABLE",
+      },
+      { status: 400 },
+    );
+  }
+
+  const isUpgrade = tier.rank > (subscription.tier?.rank ?? UNTIERED_RANK);
+
+  if (subscription.stripeSubscriptionId) {
+    try {
+      const priceId = await getOrCreatePrice(
+        amountInCents,
+        subscription.billingInterval,
+        tier,
+      );
+      await changeSubscriptionTier(subscription.stripeSubscriptionId, {
+        priceId,
+        tierId: tier.id,
+        isUpgrade,
+      });
+    } catch (stripeError) {
+      console.error("Stripe tier change error:", stripeError);
+
+      if (stripeError instanceof Stripe.errors.StripeCardError) {
+        return NextResponse.json(
+          {
+            error:
+              "Your payment method was declined. Update it in billing settings and try again.",
+            code: "PAYMENT_FAILED",
+          },
+          { status: 402 },
+        );
+      }
+
+      if (stripeError instanceof Stripe.errors.StripeRateLimitError) {
+        return NextResponse.json(
+          {
+            error: "Service temporarily busy. Please try again.",
+            code: "RATE_LIMIT",
+          },
+          { status: 429 },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Unable to change tier. Please try again.",
+          code: "STRIPE_ERROR",
+        },
+        { status: 500 },
+      );
+    }
+  }
+
+  // ONLY update database AFTER Stripe succeeds
+  const updatedSubscription = await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { tierId: tier.id, priceAtPurchase: amountInCents },
+  });
+
+  await invalidateSubscriptionAccessCache(
+    subscription.userId,
+    subscription.creatorId,
+  );
+
+  return NextResponse.json({
+    success: true,
+    message: isUpgrade
+      ? `You've upgraded to ${tier.name}. The prorated difference has been charged.`
+      : `You've moved to ${tier.name}. Unused time will be credited on your next invoice.`,
+    subscription: {
+      id: updatedSubscription.id,
+      status: updatedSubscription.status,
+      priceAtPurchase: updatedSubscription.priceAtPurchase,
+      tier: { id: tier.id, name: tier.name, rank: tier.rank },
+    },
+  });
+}
+
+/**
+ * Pause billing and access on a monthly subscription
+ *
+ * Access continues until the end of the paid period, then pauses for
+ * pauseMonths. Stripe collection is paused now so the next invoice is
+ * voided, and resumes on its own; the webhook marks the subscription
+ * paused when the next period starts and active again once collection
+ * resumes. Stripe is updated first; the database only after Stripe
+ * succeeds.
+ */
+async function pauseSubscription(
+  subscription: PatchSubscription,
+  pauseMonths: number,
+): Promise<NextResponse> {
+  if (subscription.status === "paused" || subscription.pausedUntil) {
+    return NextResponse.json(
+      { error: "This subscription is already paused", code: "ALREADY_PAUSED" },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.status !== "active") {
+    return NextResponse.json(
+      {
+        error:
+          subscription.status === "trialing"
+            ? "Trials can't be paused. You can cancel before your trial ends instead."
+            : "Only active subscriptions can be paused",
+        code: "SUBSCRIPTION_INACTIVE",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.cancelAtPeriodEnd) {
+    return NextResponse.json(
+      {
+        error:
+          "This subscription is set to cancel. Reactivate it before pausing.",
+        code: "SUBSCRIPTION_CANCELING",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.billingInterval !== "month") {
+    return NextResponse.json(
+      { error: "Annual plans can't be paused", code: "ANNUAL_PLAN" },
+      { status: 400 },
+    );
+  }
+
+  // Suspended creators already have billing on hold for every subscriber
+  if (subscription.creator.status === "suspended") {
+    return NextResponse.json(
+      {
+        error:
+          "Billing is already on hold while this creator's account is suspended.",
+        code: "CREATOR_SUSPENDED",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!subscription.stripeSubscriptionId || !subscription.currentPeriodEnd) {
+    return NextResponse.json(
+      {
+        error: "This subscription can't be paused. Please contact support.",
+        code: "INVALID_REQUEST",
+      },
+      { status: 400 },
+    );
+  }
+
+  const { pauseStartsAt, pausedUntil } = getPauseDates(
+    subscription.currentPeriodEnd,
+    pauseMonths,
+  );
+
+  // Save the pause BEFORE sending it to Stripe: the webhook can arrive
+  // first, and needs pauseStartsAt to know the pause hasn't started yet
+  const updatedSubscription = await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { pauseStartsAt, pausedUntil },
+  });
+
+  try {
+    await setSubscriptionCollectionPaused(
+      subscription.stripeSubscriptionId,
+      true,
+      pausedUntil,
+    );
+  } catch (stripeError) {
+    console.error("Stripe pause error:", stripeError);
+
+    // Stripe didn't pause, so neither do we
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { pauseStartsAt: null, pausedUntil: null },
+    });
+
+    if (stripeError instanceof Stripe.errors.StripeRateLimitError) {
+      return NextResponse.json(
+        {
+          error: "Service temporarily busy. Please try again.",
+          code: "RATE_LIMIT",
+        },
+        { status: 429 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Unable to pause subscription. Please try again.",
+        code: "STRIPE_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+
+  await Promise.all([
+    invalidateSubscriptionAccessCache(
+      subscription.userId,
+      subscription.creatorId,
+    ),
+    invalidateCreatorSubscriptionCaches(subscription.creatorId),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    message: `Your subscription to ${subscription.creator.displayName} will pause from ${format(pauseStartsAt, "MMMM d")} until ${format(pausedUntil, "MMMM d, yyyy")}.`,
+    subscription: {
+      id: updatedSubscription.id,
+      status: updatedSubscription.status,
+      pauseStartsAt:
+        updatedSubscription.pauseStartsAt?.toISOString() || null,
+      pausedUntil: updatedSubscription.pausedUntil?.toISOString() || null,
+    },
+  });
+}
+
+/**
+ * End a subscriber's pause early, or call off one that hasn't started
+ *
+ * Access comes back right away and billing picks up from the next invoice.
+ * Stripe is updated first; the database only after Stripe succeeds.
+ */
+async function resumeSubscription(
+  subscription: PatchSubscription,
+): Promise<NextResponse> {
+  if (subscription.status !== "paused" && !subscription.pausedUntil) {
+    return NextResponse.json(
+      { error: "This subscription isn't paused", code: "NOT_PAUSED" },
+      { status: 400 },
+    );
+  }
+
+  // Only subscriber pauses have a resume date; Stripe pauses trials that
+  // end without a payment method on its own
+  if (!subscription.stripeSubscriptionId || !subscription.pausedUntil) {
+    return NextResponse.json(
+      {
+        error: "This subscription can't be resumed. Please contact support.",
+        code: "INVALID_REQUEST",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (subscription.creator.status === "suspended") {
+    return NextResponse.json(
+      {
+        error:
+          "This creator's account is suspended. Your subscription will stay paused for now.",
+        code: "CREATOR_SUSPENDED",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await setSubscriptionCollectionPaused(
+      subscription.stripeSubscriptionId,
+      false,
+    );
+  } catch (stripeError) {
+    console.error("Stripe resume error:", stripeError);
+
+    if (stripeError instanceof Stripe.errors.StripeRateLimitError) {
+      return NextResponse.json(
+        {
+          error: "Service temporarily busy. Please try again.",
+          code: "RATE_LIMIT",
+        },
+        { status: 429 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Unable to resume subscription. Please try again.",
+        code: "STRIPE_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+
+  // ONLY update database AFTER Stripe succeeds
+  const updatedSubscription = await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { status: "active", pauseStartsAt: null, pausedUntil: null },
+  });
+
+  await Promise.all([
+    invalidateSubscriptionAccessCache(
+      subscription.userId,
+      subscription.creatorId,
+    ),
+    invalidateCreatorSubscriptionCaches(subscription.creatorId),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    message:
+      subscription.status === "paused"
+        ? `Welcome back! Your subscription to ${subscription.creator.displayName} is active again.`
+        : `Your subscription to ${subscription.creator.displayName} won't pause.`,
+    subscription: {
+      id: updatedSubscription.id,
+      status: updatedSubscription.status,
+      currentPeriodEnd:
+        updatedSubscription.currentPeriodEnd?.toISOString() || null,
+    },
+  });
+}
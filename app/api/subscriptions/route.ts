@@ -7,11 +7,18 @@
  * Query Parameters:
  * - cursor: Pagination cursor (last subscription ID)
  * - limit: Number of results (1-100, default 20)
- * - status: Filter by status (active, trialing, past_due, canceled)
+ * - status: Filter by status (active, trialing, past_due, canceled,
+ *   paused)
  */
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { getCurrentPriceForInterval } from "@/lib/pricing";
+import {
+  joinableTiersArgs,
+  tierSummarySelect,
+  toTierOptions,
+} from "@/lib/tiers";
 import { subscriptionListQuerySchema } from "@/lib/validations/subscription";
 import { apiRateLimiter } from "@/lib/rate-limit";
 
@@ -106,8 +113,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             avatarUrl: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
+            annualDiscountPercent: true,
+            membershipTiers: joinableTiersArgs,
           },
         },
+        tier: { select: tierSummarySelect },
       },
     });
 
@@ -121,17 +132,32 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       id: sub.id,
       status: sub.status,
       priceAtPurchase: sub.priceAtPurchase,
+      billingInterval: sub.billingInterval,
       currentPeriodStart: sub.currentPeriodStart?.toISOString() || null,
       currentPeriodEnd: sub.currentPeriodEnd?.toISOString() || null,
       cancelAtPeriodEnd: sub.cancelAtPeriodEnd,
+      pausedUntil: sub.pausedUntil?.toISOString() || null,
+      isGift: !!sub.giftId,
       createdAt: sub.createdAt.toISOString(),
+      tier: sub.tier
+        ? { id: sub.tier.id, name: sub.tier.name, rank: sub.tier.rank }
+        : null,
       creator: {
         id: sub.creator.id,
         handle: sub.creator.handle,
         displayName: sub.creator.displayName,
         avatarUrl: sub.creator.avatarUrl,
         category: sub.creator.category,
-        currentPrice: sub.creator.subscriptionPrice,
+        currentPriceCents: getCurrentPriceForInterval(
+          sub.creator,
+          sub.tier,
+          sub.billingInterval,
+        ),
+        tiers: toTierOptions(
+          sub.creator.membershipTiers,
+          sub.creator.annualDiscountPercent,
+          sub.billingInterval,
+        ),
       },
     }));
 
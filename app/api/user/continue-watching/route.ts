@@ -0,0 +1,90 @@
+/**
+ * GET /api/user/continue-watching
+ *
+ * List videos and audio the authenticated user started but didn't finish,
+ * most recently watched first, with the position to resume from.
+ * Content the user can no longer play (e.g. a lapsed subscription) is
+ * left out.
+ *
+ * Query Parameters:
+ * - limit: Number of results (1-20, default 10)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { prisma } from "@/lib/prisma";
+import { continueWatchingQuerySchema } from "@/lib/validations/feed";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import { getContinueWatching } from "@/lib/watch-progress";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        {
+          error: "Please sign in to continue watching",
+          code: "UNAUTHORIZED",
+        },
+        { status: 401 },
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = apiRateLimiter.check(clerkId);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many requests. Please try again later.",
+          code: "RATE_LIMITED",
+          retryAfter: rateLimitResult.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(rateLimitResult.retryAfterSeconds),
+          },
+        },
+      );
+    }
+
+    // Get the user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse query parameters
+    const queryResult = continueWatchingQuerySchema.safeParse({
+      limit: request.nextUrl.searchParams.get("limit") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: queryResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+        },
+        { status: 400 },
+      );
+    }
+
+    const items = await getContinueWatching(user.id, queryResult.data.limit);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching continue watching:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch continue watching", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
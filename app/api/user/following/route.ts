@@ -107,6 +107,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             bio: true,
             category: true,
             subscriptionPrice: true,
+            customPriceCents: true,
             trialEnabled: true,
             isVerified: true,
             _count: {
@@ -143,6 +144,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         bio: follow.creator.bio,
         category: follow.creator.category,
         subscriptionPrice: follow.creator.subscriptionPrice,
+        customPriceCents: follow.creator.customPriceCents,
         trialEnabled: follow.creator.trialEnabled,
         isVerified: follow.creator.isVerified,
         stats: {
@@ -0,0 +1,162 @@
+/**
+ * /api/user/notification-preferences
+ *
+ * GET - Get the channels for each notification type
+ * PATCH - Update channels for notification types
+ *
+ * PRD Requirements:
+ * - Users choose in-app, email and push delivery per notification type
+ * - Email choices are the same setting as email preferences
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/lib/notifications";
+import { notificationPreferencesUpdateSchema } from "@/lib/validations/notification";
+
+/**
+ * GET /api/user/notification-preferences
+ *
+ * Get the current user's notification channels
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      preferences: await getNotificationPreferences(user.id),
+    });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch notification preferences",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/user/notification-preferences
+ *
+ * Update the current user's notification channels
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = notificationPreferencesUpdateSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    await updateNotificationPreferences(
+      user.id,
+      parseResult.data.preferences,
+    );
+
+    return NextResponse.json({
+      success: true,
+      preferences: await getNotificationPreferences(user.id),
+    });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update notification preferences",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
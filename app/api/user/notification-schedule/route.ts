@@ -0,0 +1,159 @@
+/**
+ * /api/user/notification-schedule
+ *
+ * GET - Get the digest mode, quiet hours and time zone
+ * PATCH - Update the digest mode, quiet hours and time zone
+ *
+ * PRD Requirements:
+ * - New content can be sent immediately or as a daily or weekly digest
+ * - Quiet hours hold back push and new content in the user's time zone
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import {
+  getNotificationScheduleSettings,
+  updateNotificationSchedule,
+} from "@/lib/notification-schedule";
+import { notificationScheduleSchema } from "@/lib/validations/notification";
+
+/**
+ * GET /api/user/notification-schedule
+ *
+ * Get the current user's notification schedule
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      schedule: await getNotificationScheduleSettings(user.id),
+    });
+  } catch (error) {
+    console.error("Error fetching notification schedule:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch notification schedule",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/user/notification-schedule
+ *
+ * Update the current user's notification schedule
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = notificationScheduleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    await updateNotificationSchedule(user.id, parseResult.data);
+
+    return NextResponse.json({
+      success: true,
+      schedule: await getNotificationScheduleSettings(user.id),
+    });
+  } catch (error) {
+    console.error("Error updating notification schedule:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update notification schedule",
+        code: "SERVER_ERROR",
+      },
+      { status: 500 },
+    );
+  }
+}
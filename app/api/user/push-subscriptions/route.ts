@@ -0,0 +1,166 @@
+/**
+ * /api/user/push-subscriptions
+ *
+ * POST - Register this browser for web push
+ * DELETE - Stop web push to this browser
+ *
+ * A browser's endpoint belongs to whoever registered it last, so signing
+ * in as someone else on a shared browser moves push to the new account.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { apiRateLimiter } from "@/lib/rate-limit";
+import {
+  pushSubscriptionSchema,
+  pushUnsubscribeSchema,
+} from "@/lib/validations/notification";
+
+/**
+ * POST /api/user/push-subscriptions
+ *
+ * Save the browser's PushSubscription for the current user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Rate limiting
+    const { allowed, remaining, retryAfterSeconds } =
+      await apiRateLimiter.checkAsync(clerkId);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded", code: "RATE_LIMIT_EXCEEDED" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(retryAfterSeconds || 60),
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": String(remaining),
+          },
+        },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = pushSubscriptionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { endpoint, keys } = parseResult.data;
+    const userAgent = request.headers.get("user-agent");
+
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: {
+        userId: user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent,
+      },
+      update: {
+        userId: user.id,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent,
+      },
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to save push subscription", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/push-subscriptions
+ *
+ * Remove one of the current user's push subscriptions
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json(
+        { error: "Unauthorized", code: "UNAUTHORIZED" },
+        { status: 401 },
+      );
+    }
+
+    // Get user
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found", code: "USER_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const parseResult = pushUnsubscribeSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: parseResult.error.issues[0].message,
+          code: "VALIDATION_ERROR",
+          details: parseResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+
+    await prisma.pushSubscription.deleteMany({
+      where: { userId: user.id, endpoint: parseResult.data.endpoint },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to remove push subscription", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * POST /api/webhooks/clerk
+ *
+ * Handle Clerk user lifecycle webhooks with Svix signature verification
+ * and idempotency. This is the only place User rows are provisioned, so
+ * every authenticated route can rely on `prisma.user.findUnique({ clerkId })`.
+ *
+ * SECURITY REQUIREMENTS:
+ * 1. Signature verification using Clerk's verifyWebhook() (Svix headers)
+ * 2. Idempotency handling using ProcessedWebhookEvent table (keyed by svix-id)
+ *    - Events are marked as processed AFTER successful handling to prevent data loss
+ * 3. Return 200 quickly to avoid Svix retries
+ *
+ * Handled Events:
+ * - user.created: Create User row and default EmailPreferences
+ * - user.updated: Sync email, name and avatar (creates the row if missing)
+ * - user.deleted: Cancel Stripe subscriptions, clear caches, delete User
+ *   (cascades to CreatorProfile, content, programs, messages, etc.)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyWebhook } from "@clerk/nextjs/webhooks";
+import type { UserJSON, WebhookEvent } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { stripe } from "@/lib/stripe";
+import {
+  invalidateCreatorProfileCache,
+  invalidateCreatorSubscriptionCaches,
+} from "@/lib/cache";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+import {
+  isEventAlreadyProcessed,
+  markEventProcessed,
+} from "@/lib/webhook-events";
+
+export const dynamic = "force-dynamic";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Extract the primary email address from a Clerk user payload.
+ * Falls back to the first address if no primary is flagged.
+ */
+function getPrimaryEmail(user: UserJSON): string | null {
+  const primary = user.email_addresses.find(
+    (address) => address.id === user.primary_email_address_id,
+  );
+  return (primary ?? user.email_addresses[0])?.email_address ?? null;
+}
+
+/**
+ * Build a display name from Clerk profile fields
+ */
+function getDisplayName(user: UserJSON): string | null {
+  const fullName = [user.first_name, user.last_name]
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+  return fullName || user.username || null;
+}
+
+/**
+ * Cancel Stripe subscriptions immediately, ignoring ones Stripe
+ * already considers gone. Errors are logged so a single failure
+ * doesn't block the rest of the cleanup.
+ */
+async function cancelStripeSubscriptions(
+  subscriptionIds: string[],
+): Promise<void> {
+  await Promise.all(
+    subscriptionIds.map(async (subscriptionId) => {
+      try {
+        await stripe.subscriptions.cancel(subscriptionId);
+      } catch (error) {
+        console.error(
+          `Failed to cancel Stripe subscription ${subscriptionId}:`,
+          error,
+        );
+      }
+    }),
+  );
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+/**
+ * Handle user.created and user.updated events
+ * Upserts the User row so out-of-order delivery is harmless, and
+ * ensures default email preferences exist.
+ */
+async function handleUserUpsert(user: UserJSON): Promise<void> {
+  const email = getPrimaryEmail(user);
+
+  if (!email) {
+    // Clerk requires an email for our sign-up flow; without one we can't
+    // send receipts or create a Stripe customer, so skip and log
+    console.error(`Clerk user ${user.id} has no email address, skipping sync`);
+    return;
+  }
+
+  const profile = {
+    email,
+    name: getDisplayName(user),
+    avatarUrl: user.has_image ? user.image_url : null,
+  };
+
+  const dbUser = await prisma.user.upsert({
+    where: { clerkId: user.id },
+    create: {
+      clerkId: user.id,
+      ...profile,
+    },
+    update: profile,
+    select: { id: true },
+  });
+
+  // Default preferences (all transactional emails on, marketing off)
+  await prisma.emailPreferences.upsert({
+    where: { userId: dbUser.id },
+    create: { userId: dbUser.id },
+    update: {},
+  });
+
+  console.log(`Clerk user ${user.id} synced to user ${dbUser.id}`);
+}
+
+/**
+ * Handle user.deleted event
+ * Cancels billing on both sides (the user's own subscriptions and, for
+ * creators, every subscriber's subscription) before deleting the User.
+ * Database rows are removed by the schema's cascading relations.
+ */
+async function handleUserDeleted(clerkId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { clerkId },
+    select: {
+      id: true,
+      creatorProfile: {
+        select: { id: true, handle: true },
+      },
+      subscriptions: {
+        where: {
+          status: { in: ["active", "trialing", "past_due", "paused"] },
+        },
+        select: { creatorId: true, stripeSubscriptionId: true },
+      },
+    },
+  });
+
+  if (!user) {
+    console.warn(`user.deleted: No user found for Clerk user ${clerkId}`);
+    return;
+  }
+
+  // Cancel the user's own subscriptions to creators
+  await cancelStripeSubscriptions(
+    user.subscriptions
+      .map((s) => s.stripeSubscriptionId)
+      .filter((id): id is string => id !== null),
+  );
+
+  await Promise.all(
+    user.subscriptions.map((s) =>
+      invalidateSubscriptionAccessCache(user.id, s.creatorId),
+    ),
+  );
+
+  // If the user is a creator, end every subscription to them so
+  // subscribers stop being billed for a profile that no longer exists
+  const creator = user.creatorProfile;
+  if (creator) {
+    const subscriberSubscriptions = await prisma.subscription.findMany({
+      where: {
+        creatorId: creator.id,
+        status: { in: ["active", "trialing", "past_due", "paused"] },
+      },
+      select: { userId: true, stripeSubscriptionId: true },
+    });
+
+    await cancelStripeSubscriptions(
+      subscriberSubscriptions
+        .map((s) => s.stripeSubscriptionId)
+        .filter((id): id is string => id !== null),
+    );
+
+    await Promise.all([
+      ...subscriberSubscriptions.map((s) =>
+        invalidateSubscriptionAccessCache(s.userId, creator.id),
+      ),
+      invalidateCreatorSubscriptionCaches(creator.id),
+      invalidateCreatorProfileCache(creator.id, creator.handle),
+    ]);
+
+    console.log(
+      `Creator ${creator.handle} (${creator.id}) removed, canceled ${subscriberSubscriptions.length} subscriber subscriptions`,
+    );
+  }
+
+  // Cascades to CreatorProfile, Content, Program, Subscription, Follow,
+  // Message, Notification, ContentView, reports and preferences
+  await prisma.user.delete({ where: { id: user.id } });
+
+  console.log(`Clerk user ${clerkId} deleted (user ${user.id})`);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify webhook secret is configured
+    if (!process.env.CLERK_WEBHOOK_SIGNING_SECRET) {
+      console.error("CLERK_WEBHOOK_SIGNING_SECRET not configured");
+      return NextResponse.json(
+        { error: "Webhook not configured" },
+        { status: 500 },
+      );
+    }
+
+    // The svix-id header uniquely identifies a delivery and is stable across retries
+    const eventId = request.headers.get("svix-id");
+    if (!eventId) {
+      console.error("Missing svix-id header");
+      return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+    }
+
+    // Verify the Svix signature and parse the event
+    let event: WebhookEvent;
+    try {
+      event = await verifyWebhook(request);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      console.error(`Clerk webhook signature verification failed: ${message}`);
+      return NextResponse.json(
+        { error: `Webhook signature verification failed: ${message}` },
+        { status: 400 },
+      );
+    }
+
+    // Check if event was already processed (idempotency - read-only check)
+    const alreadyProcessed = await isEventAlreadyProcessed(eventId);
+    if (alreadyProcessed) {
+      console.log(`Event ${eventId} already processed, skipping`);
+      return NextResponse.json({ received: true, status: "already_processed" });
+    }
+
+    console.log(`Processing Clerk event: ${event.type} (${eventId})`);
+
+    switch (event.type) {
+      case "user.created":
+      case "user.updated": {
+        await handleUserUpsert(event.data);
+        break;
+      }
+
+      case "user.deleted": {
+        if (event.data.id) {
+          await handleUserDeleted(event.data.id);
+        } else {
+          console.warn("user.deleted event missing user ID");
+        }
+        break;
+      }
+
+      default:
+        // Log unhandled events for debugging, but don't fail
+        console.log(`Unhandled event type: ${event.type}`);
+    }
+
+    // ONLY mark as processed AFTER successful handling
+    await markEventProcessed(eventId, event.type);
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("Error processing Clerk webhook:", error);
+
+    // Return 500 to trigger Svix retry (for transient errors)
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 },
+    );
+  }
+}
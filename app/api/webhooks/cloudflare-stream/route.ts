@@ -0,0 +1,85 @@
+/**
+ * POST /api/webhooks/cloudflare-stream
+ *
+ * Handle Cloudflare Stream processing notifications. Stream calls this when
+ * a video finishes encoding (readyToStream) or fails, and the content's
+ * media status is updated so the creator can publish it.
+ *
+ * SECURITY REQUIREMENTS:
+ * 1. Signature verification of the Webhook-Signature header (HMAC-SHA256
+ *    with CLOUDFLARE_STREAM_WEBHOOK_SECRET), rejecting stale timestamps
+ * 2. Idempotency comes from the media status state machine: repeated or
+ *    out-of-order deliveries can't move a video backwards
+ *
+ * The payload is the same video object returned by the Stream API.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyStreamWebhookSignature,
+  type StreamVideoDetails,
+} from "@/lib/cloudflare";
+import { applyStreamVideoUpdate } from "@/lib/media/processing";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify webhook secret is configured
+    if (!process.env.CLOUDFLARE_STREAM_WEBHOOK_SECRET) {
+      console.error("CLOUDFLARE_STREAM_WEBHOOK_SECRET not configured");
+      return NextResponse.json(
+        { error: "Webhook not configured" },
+        { status: 500 },
+      );
+    }
+
+    const signature = request.headers.get("webhook-signature");
+    if (!signature) {
+      console.error("Missing Webhook-Signature header");
+      return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+    }
+
+    // Verify against the raw body before parsing it
+    const body = await request.text();
+    if (!verifyStreamWebhookSignature(body, signature)) {
+      console.error("Cloudflare Stream webhook signature verification failed");
+      return NextResponse.json(
+        { error: "Webhook signature verification failed" },
+        { status: 400 },
+      );
+    }
+
+    let video: StreamVideoDetails;
+    try {
+      video = JSON.parse(body) as StreamVideoDetails;
+    } catch {
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    if (!video?.uid || !video.status) {
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    const result = await applyStreamVideoUpdate(video);
+
+    if (!result) {
+      // Deleted content, or a UID replaced by a newer upload
+      console.log(`Stream video ${video.uid} has no matching content`);
+      return NextResponse.json({ received: true, status: "ignored" });
+    }
+
+    console.log(
+      `Stream video ${video.uid} for content ${result.contentId} is ${result.mediaStatus}`,
+    );
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("Error processing Cloudflare Stream webhook:", error);
+
+    // Return 500 so Stream retries transient failures
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -13,89 +13,94 @@
  * Account Events:
  * - account.updated: Check if onboarding complete, update profile status
  * - account.application.deauthorized: Handle creator disconnecting
+ * - payout.created/updated/paid/failed/canceled: Record the creator's
+ *   payout and its status in the earnings ledger
  *
  * Subscription Events:
- * - checkout.session.completed: Create subscription record
+ * - checkout.session.completed: Create subscription record and count its
+ *   promo code, or record a one-time purchase or gift for payment-mode
+ *   checkouts, or deliver a paid message request
+ * - checkout.session.async_payment_succeeded: Record a purchase, gift or
+ *   message request paid with a delayed payment method (e.g. bank debit)
  * - customer.subscription.created: Confirm subscription in DB
- * - customer.subscription.updated: Update status, period dates, cancel flag
- * - customer.subscription.deleted: Mark subscription as canceled
+ * - customer.subscription.updated: Update status, period dates, cancel flag,
+ *   pause, and membership tier
+ * - customer.subscription.deleted: Mark subscription as canceled and
+ *   schedule the win-back email
  * - customer.subscription.trial_will_end: Log for notification (Phase 5)
  *
  * Invoice Events:
  * - invoice.payment_failed: Set subscription to past_due
- * - invoice.paid: Recover subscription from past_due to active
+ * - invoice.paid: Record the payment in the earnings ledger, recover
+ *   subscription from past_due to active
+ *
+ * Charge Events:
+ * - charge.refunded: Record refund; a full refund ends the subscription
+ *   or revokes the purchase or gift, and notifies the creator
+ * - charge.dispute.created: Record dispute for admin review, notify creator
+ * - charge.dispute.closed: Record outcome; a lost dispute ends the
+ *   subscription or revokes the purchase or gift
  */
 import { NextRequest, NextResponse } from "next/server";
 import { headers } from "next/headers";
 import {
   stripe,
   isOnboardingComplete,
-  PRICE_TIER_TO_CENTS,
+  getSubscriptionIdForPaymentIntent,
+  getSubscriptionPricing,
+  calculatePlatformFee,
+  refundMessageRequest,
 } from "@/lib/stripe";
+import {
+  getMonthlyPriceCents,
+  type CreatorPricingFields,
+} from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
 import type { Stripe } from "stripe";
-import type { SubscriptionStatus } from "@prisma/client";
-import {
-  sendTrialEndingEmail,
-  sendPaymentFailedEmail,
-  sendSubscriptionConfirmationEmail,
-} from "@/lib/email";
+import type {
+  BillingInterval,
+  CancellationCause,
+  Prisma,
+  SubscriptionStatus,
+} from "@prisma/client";
+import { sendSubscriptionConfirmationEmail } from "@/lib/email";
 import {
   notifyTrialEnding,
   notifyPaymentFailed,
+  notifySubscriptionRefunded,
+  notifyPaymentDisputed,
+  notifyMessageRequest,
 } from "@/lib/notifications";
+import {
+  endSubscriptionAccess,
+  isRefundRecorded,
+  recordPaymentEvent,
+} from "@/lib/payment-events";
+import {
+  isEventAlreadyProcessed,
+  markEventProcessed,
+} from "@/lib/webhook-events";
+import { revokePurchasesForPaymentIntent } from "@/lib/purchases";
+import { revokeGiftForPaymentIntent } from "@/lib/gifts";
+import { recordPromoCodeRedemption } from "@/lib/promo-codes";
+import { getWinBackEmailAt } from "@/lib/retention";
+import { purchaseMetadataSchema } from "@/lib/validations/purchase";
+import { giftMetadataSchema } from "@/lib/validations/gift";
+import { messageRequestMetadataSchema } from "@/lib/validations/message";
+import { isConversationMuted } from "@/lib/message-safety";
+import { stripHtml } from "@/lib/sanitize";
+import {
+  findPaymentRecipient,
+  recordLedgerEntry,
+  recordPayout,
+  recordRefund,
+} from "@/lib/earnings";
 
 /**
  * Disable body parsing - we need the raw body for signature verification
  */
 export const dynamic = "force-dynamic";
 
-/**
- * Check if an event has already been processed (idempotency check).
- *
- * @param eventId - The Stripe event ID
- * @returns true if event was already processed, false if it's new
- */
-async function isEventAlreadyProcessed(eventId: string): Promise<boolean> {
-  const existingEvent = await prisma.processedWebhookEvent.findUnique({
-    where: { eventId },
-  });
-  return existingEvent !== null;
-}
-
-/**
- * Mark an event as processed AFTER successful handling.
- * This ensures we don't mark events as processed if handling fails.
- *
- * @param eventId - The Stripe event ID
- * @param eventType - The type of event
- */
-async function markEventProcessed(
-  eventId: string,
-  eventType: string,
-): Promise<void> {
-  try {
-    await prisma.processedWebhookEvent.create({
-      data: { eventId, eventType },
-    });
-  } catch (error: unknown) {
-    // P2002 is Prisma's unique constraint violation error
-    // If event was already processed (race condition), that's fine
-    if (
-      error &&
-      typeof error === "object" &&
-      "code" in error &&
-      error.code === "P2002"
-    ) {
-      console.log(
-        `Event ${eventId} was already marked as processed (race condition handled)`,
-      );
-      return;
-    }
-    throw error; // Real error, re-throw
-  }
-}
-
 /**
  * Handle account.updated event
  * Check if onboarding is now complete and update the creator profile
@@ -192,6 +197,32 @@ async function handleAccountDeauthorized(accountId: string): Promise<void> {
   // TODO: Could also notify active subscribers that creator is inactive
 }
 
+/**
+ * Handle payout.* events
+ * Records a payout from the creator's Stripe balance to their bank, and
+ * keeps its status current as it's paid, fails or is canceled.
+ */
+async function handlePayout(
+  accountId: string,
+  payout: Stripe.Payout,
+): Promise<void> {
+  const profile = await prisma.creatorProfile.findFirst({
+    where: { stripeAccountId: accountId },
+    select: { id: true },
+  });
+
+  if (!profile) {
+    console.warn(`Received payout for unknown account: ${accountId}`);
+    return;
+  }
+
+  await recordPayout(profile.id, payout);
+
+  console.log(
+    `Payout ${payout.id} for creator ${profile.id}: ${payout.status} (${payout.amount})`,
+  );
+}
+
 // =============================================================================
 // SUBSCRIPTION EVENT HANDLERS
 // =============================================================================
@@ -239,20 +270,399 @@ function getSubscriptionPeriodDates(subscription: Stripe.Subscription): {
   };
 }
 
+/**
+ * When a Stripe subscription's free trial ends, null without a trial
+ */
+function getTrialEnd(subscription: Stripe.Subscription): Date | null {
+  return subscription.trial_end
+    ? new Date(subscription.trial_end * 1000)
+    : null;
+}
+
+/**
+ * When the Stripe subscription started. A resubscribe creates a new
+ * Stripe subscription, so this restarts the subscriber's tenure.
+ */
+function getStartedAt(subscription: Stripe.Subscription): Date {
+  return new Date(subscription.start_date * 1000);
+}
+
+/**
+ * When and why a subscription ended, for cohort analytics
+ * An existing record wins: a refund ends access (and records why) before
+ * Stripe's cancellation arrives.
+ */
+function getCancellationData(
+  subscription: Stripe.Subscription,
+  status: SubscriptionStatus,
+  existing?: {
+    canceledAt: Date | null;
+    cancellationCause: CancellationCause | null;
+  },
+): { canceledAt: Date | null; cancellationCause: CancellationCause | null } {
+  if (status !== "canceled") {
+    return { canceledAt: null, cancellationCause: null };
+  }
+
+  const reason = subscription.cancellation_details?.reason;
+  const cause: CancellationCause =
+    reason === "payment_failed"
+      ? "payment_failed"
+      : reason === "payment_disputed"
+        ? "refunded"
+        : "requested";
+
+  return {
+    canceledAt:
+      existing?.canceledAt ??
+      (subscription.ended_at
+        ? new Date(subscription.ended_at * 1000)
+        : new Date()),
+    cancellationCause: existing?.cancellationCause ?? cause,
+  };
+}
+
+/**
+ * Cancellation survey, retention offer and win-back state from an earlier
+ * Stripe subscription, cleared when the subscriber subscribes again
+ */
+const resubscribeReset = {
+  cancellationReason: null,
+  cancellationFeedback: null,
+  retentionOffer: null,
+  retentionOfferAcceptedAt: null,
+  winBackEmailAt: null,
+} satisfies Prisma.SubscriptionUpdateInput;
+
+/**
+ * Helper to determine the grandfathered price for a new subscription.
+ * Uses the amount Stripe actually bills, falling back to the creator's
+ * current monthly price if the subscription price can't be read.
+ */
+function resolvePriceAtPurchase(
+  subscription: Stripe.Subscription,
+  creator: CreatorPricingFields,
+): { priceAtPurchase: number; billingInterval: BillingInterval } {
+  const pricing = getSubscriptionPricing(subscription);
+
+  if (pricing) {
+    return {
+      priceAtPurchase: pricing.amountInCents,
+      billingInterval: pricing.interval,
+    };
+  }
+
+  console.warn(
+    `Could not read price from subscription ${subscription.id}, using creator's monthly price`,
+  );
+  return {
+    priceAtPurchase: getMonthlyPriceCents(creator),
+    billingInterval: "month",
+  };
+}
+
+/**
+ * Helper to read the membership tier from subscription metadata.
+ * Ignores tiers that don't belong to the creator or no longer exist.
+ */
+async function resolveTierId(
+  metadata: Stripe.Metadata | null | undefined,
+  creatorId: string,
+): Promise<string | null> {
+  const tierId = metadata?.tierId;
+  if (!tierId) return null;
+
+  const tier = await prisma.membershipTier.findFirst({
+    where: { id: tierId, creatorId },
+    select: { id: true },
+  });
+
+  if (!tier) {
+    console.warn(`Ignoring unknown tier ${tierId} for creator ${creatorId}`);
+  }
+  return tier?.id ?? null;
+}
+
+/**
+ * Record a one-time purchase from a payment-mode checkout
+ * Idempotent: keyed by checkout session ID
+ */
+async function handlePurchaseCompleted(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  const parsed = purchaseMetadataSchema.safeParse(session.metadata);
+
+  if (!parsed.success) {
+    console.error(
+      `Purchase checkout missing required metadata: ${session.id}`,
+      session.metadata,
+    );
+    return;
+  }
+
+  // Delayed payment methods complete the session before funds arrive;
+  // checkout.session.async_payment_succeeded records it once they do
+  if (session.payment_status !== "paid") {
+    console.log(
+      `Purchase checkout ${session.id} not paid yet (${session.payment_status})`,
+    );
+    return;
+  }
+
+  const { userId, creatorId, contentId, programId } = parsed.data;
+  const amount = session.amount_total ?? 0;
+  const stripePaymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : (session.payment_intent?.id ?? null);
+
+  await prisma.purchase.upsert({
+    where: { stripeCheckoutSessionId: session.id },
+    create: {
+      userId,
+      creatorId,
+      contentId: contentId ?? null,
+      programId: programId ?? null,
+      amount,
+      platformFee: calculatePlatformFee(amount),
+      currency: session.currency ?? "usd",
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId,
+    },
+    update: {},
+  });
+
+  await recordLedgerEntry({
+    creatorId,
+    type: "purchase",
+    stripeObjectId: session.id,
+    userId,
+    grossAmount: amount,
+    platformFee: calculatePlatformFee(amount),
+    currency: session.currency ?? "usd",
+    occurredAt: new Date(),
+  });
+
+  console.log(
+    `Purchase recorded: user ${userId} -> ${contentId ? `content ${contentId}` : `program ${programId}`} (${amount})`,
+  );
+}
+
+/**
+ * Mark a gift paid from a payment-mode checkout so it can be redeemed
+ * Idempotent: only pending gifts are updated
+ */
+async function handleGiftCompleted(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  const parsed = giftMetadataSchema.safeParse(session.metadata);
+
+  if (!parsed.success) {
+    console.error(
+      `Gift checkout missing required metadata: ${session.id}`,
+      session.metadata,
+    );
+    return;
+  }
+
+  // Delayed payment methods complete the session before funds arrive;
+  // checkout.session.async_payment_succeeded marks it paid once they do
+  if (session.payment_status !== "paid") {
+    console.log(
+      `Gift checkout ${session.id} not paid yet (${session.payment_status})`,
+    );
+    return;
+  }
+
+  const { giftId, creatorId, userId } = parsed.data;
+
+  const { count } = await prisma.gift.updateMany({
+    where: { id: giftId, purchaserId: userId, status: "pending" },
+    data: {
+      status: "paid",
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: getPaymentIntentId(session.payment_intent),
+    },
+  });
+
+  const amount = session.amount_total ?? 0;
+  await recordLedgerEntry({
+    creatorId,
+    type: "gift",
+    stripeObjectId: session.id,
+    userId,
+    grossAmount: amount,
+    platformFee: calculatePlatformFee(amount),
+    currency: session.currency ?? "usd",
+    occurredAt: new Date(),
+  });
+
+  console.log(
+    count > 0
+      ? `Gift paid: ${giftId} by user ${userId}`
+      : `Gift ${giftId} already marked paid, skipping`,
+  );
+}
+
+/**
+ * Deliver a paid message request to the creator's inbox
+ * Idempotent: only requests still awaiting payment are updated
+ */
+async function handleMessageRequestPaid(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  const parsed = messageRequestMetadataSchema.safeParse(session.metadata);
+
+  if (!parsed.success) {
+    console.error(
+      `Message request checkout missing required metadata: ${session.id}`,
+      session.metadata,
+    );
+    return;
+  }
+
+  // Delayed payment methods complete the session before funds arrive;
+  // checkout.session.async_payment_succeeded delivers it once they do
+  if (session.payment_status !== "paid") {
+    console.log(
+      `Message request checkout ${session.id} not paid yet (${session.payment_status})`,
+    );
+    return;
+  }
+
+  const { messageRequestId, creatorId, userId } = parsed.data;
+  const amount = session.amount_total ?? 0;
+  const paymentIntentId = getPaymentIntentId(session.payment_intent);
+
+  const { count } = await prisma.messageRequest.updateMany({
+    where: { id: messageRequestId, status: "awaiting_payment" },
+    data: {
+      status: "pending",
+      amount,
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: paymentIntentId,
+      createdAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    // A second checkout for the same request (e.g. one left open in
+    // another tab) is refunded
+    const existing = await prisma.messageRequest.findUnique({
+      where: { id: messageRequestId },
+      select: { stripePaymentIntentId: true },
+    });
+    if (
+      paymentIntentId &&
+      existing?.stripePaymentIntentId !== paymentIntentId
+    ) {
+      await refundMessageRequest(paymentIntentId, messageRequestId);
+      console.log(
+        `Refunded duplicate payment ${paymentIntentId} for message request ${messageRequestId}`,
+      );
+      return;
+    }
+  }
+
+  await recordLedgerEntry({
+    creatorId,
+    type: "message_request",
+    stripeObjectId: session.id,
+    userId,
+    grossAmount: amount,
+    platformFee: calculatePlatformFee(amount),
+    currency: session.currency ?? "usd",
+    occurredAt: new Date(),
+  });
+
+  if (count === 0) {
+    console.log(`Message request ${messageRequestId} already paid, skipping`);
+    return;
+  }
+
+  console.log(`Message request paid: ${messageRequestId} by user ${userId}`);
+
+  const request = await prisma.messageRequest.findUnique({
+    where: { id: messageRequestId },
+    select: {
+      content: true,
+      sender: { select: { id: true, name: true } },
+      creator: { select: { userId: true } },
+    },
+  });
+  if (!request) return;
+
+  // Muted conversations don't notify (fire and forget)
+  if (!(await isConversationMuted(request.creator.userId, request.sender.id))) {
+    notifyMessageRequest(
+      request.creator.userId,
+      request.sender.name || "Someone",
+      stripHtml(request.content),
+    ).catch((error) =>
+      console.error("Error sending message request notification:", error),
+    );
+  }
+}
+
+/**
+ * Handle checkout.session.async_payment_succeeded event
+ * Records a one-time purchase, gift or message request whose delayed
+ * payment has cleared.
+ * Subscription checkouts are handled by the subscription and invoice
+ * events instead.
+ */
+async function handleCheckoutAsyncPaymentSucceeded(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  if (session.mode !== "payment") {
+    console.log(`Ignoring async payment for ${session.mode}: ${session.id}`);
+    return;
+  }
+
+  if (session.metadata?.type === "purchase") {
+    await handlePurchaseCompleted(session);
+  } else if (session.metadata?.type === "gift") {
+    await handleGiftCompleted(session);
+  } else if (session.metadata?.type === "message_request") {
+    await handleMessageRequestPaid(session);
+  } else {
+    console.log(`Ignoring async payment for checkout: ${session.id}`);
+  }
+}
+
 /**
  * Handle checkout.session.completed event
- * Creates the subscription record in our database
+ * Creates the subscription record in our database, or records a
+ * one-time purchase, gift or paid message request
  */
 async function handleCheckoutSessionCompleted(
   session: Stripe.Checkout.Session,
 ): Promise<void> {
+  if (session.mode === "payment" && session.metadata?.type === "purchase") {
+    await handlePurchaseCompleted(session);
+    return;
+  }
+
+  if (session.mode === "payment" && session.metadata?.type === "gift") {
+    await handleGiftCompleted(session);
+    return;
+  }
+
+  if (
+    session.mode === "payment" &&
+    session.metadata?.type === "message_request"
+  ) {
+    await handleMessageRequestPaid(session);
+    return;
+  }
+
   // Only handle subscription checkouts
   if (session.mode !== "subscription") {
     console.log(`Ignoring non-subscription checkout: ${session.id}`);
     return;
   }
 
-  const { creatorId, userId } = session.metadata || {};
+  const { creatorId, userId, promoCodeId } = session.metadata || {};
 
   if (!creatorId || !userId) {
     console.error(
@@ -278,7 +688,11 @@ async function handleCheckoutSessionCompleted(
   // Get creator to determine price at purchase
   const creator = await prisma.creatorProfile.findUnique({
     where: { id: creatorId },
-    select: { subscriptionPrice: true },
+    select: {
+      subscriptionPrice: true,
+      customPriceCents: true,
+      annualDiscountPercent: true,
+    },
   });
 
   if (!creator) {
@@ -288,7 +702,11 @@ async function handleCheckoutSessionCompleted(
     return;
   }
 
-  const priceAtPurchase = PRICE_TIER_TO_CENTS[creator.subscriptionPrice];
+  const { priceAtPurchase, billingInterval } = resolvePriceAtPurchase(
+    stripeSubscription,
+    creator,
+  );
+  const tierId = await resolveTierId(stripeSubscription.metadata, creatorId);
 
   // Determine initial status based on trial
   const status: SubscriptionStatus =
@@ -300,9 +718,10 @@ async function handleCheckoutSessionCompleted(
 
   // Create or update subscription record
   // Use upsert to handle race conditions with subscription.created event
-  // IMPORTANT: The update clause only sets stripeSubscriptionId to avoid
-  // overwriting status/dates that may have been updated by subscription.updated
-  // events that arrived before this event (out-of-order delivery)
+  // IMPORTANT: The update clause doesn't set status/dates, which may have
+  // been updated by subscription.updated events that arrived before this
+  // event (out-of-order delivery). Price and tier always come from the new
+  // Stripe subscription so a resubscribe doesn't keep the old price.
   await prisma.subscription.upsert({
     where: {
       userId_creatorId: {
@@ -316,17 +735,35 @@ async function handleCheckoutSessionCompleted(
       stripeSubscriptionId,
       status,
       priceAtPurchase,
+      billingInterval,
+      tierId,
+      promoCodeId: promoCodeId ?? null,
+      startedAt: getStartedAt(stripeSubscription),
       currentPeriodStart,
       currentPeriodEnd,
       cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+      trialEndsAt: getTrialEnd(stripeSubscription),
     },
     update: {
-      // Only ensure subscription ID is set - don't overwrite status/dates
+      // Don't overwrite status/dates
       // Let customer.subscription.updated handle all status changes
       stripeSubscriptionId,
+      priceAtPurchase,
+      billingInterval,
+      tierId,
+      promoCodeId: promoCodeId ?? null,
+      // A paid subscription replaces any earlier gifted one
+      giftId: null,
+      startedAt: getStartedAt(stripeSubscription),
+      trialEndsAt: getTrialEnd(stripeSubscription),
+      ...resubscribeReset,
     },
   });
 
+  if (promoCodeId) {
+    await recordPromoCodeRedemption(promoCodeId);
+  }
+
   console.log(
     `Subscription created: user ${userId} -> creator ${creatorId} (${status})`,
   );
@@ -352,7 +789,12 @@ async function handleSubscriptionCreated(
   // Get creator price for grandfathered pricing
   const creator = await prisma.creatorProfile.findUnique({
     where: { id: creatorId },
-    select: { subscriptionPrice: true, displayName: true },
+    select: {
+      subscriptionPrice: true,
+      customPriceCents: true,
+      annualDiscountPercent: true,
+      displayName: true,
+    },
   });
 
   if (!creator) {
@@ -360,7 +802,11 @@ async function handleSubscriptionCreated(
     return;
   }
 
-  const priceAtPurchase = PRICE_TIER_TO_CENTS[creator.subscriptionPrice];
+  const { priceAtPurchase, billingInterval } = resolvePriceAtPurchase(
+    subscription,
+    creator,
+  );
+  const tierId = await resolveTierId(subscription.metadata, creatorId);
   const status: SubscriptionStatus =
     subscription.status === "trialing" ? "trialing" : "active";
 
@@ -382,15 +828,26 @@ async function handleSubscriptionCreated(
       stripeSubscriptionId: subscription.id,
       status,
       priceAtPurchase,
+      billingInterval,
+      tierId,
+      startedAt: getStartedAt(subscription),
       currentPeriodStart,
       currentPeriodEnd,
       cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      trialEndsAt: getTrialEnd(subscription),
     },
     update: {
       stripeSubscriptionId: subscription.id,
+      priceAtPurchase,
+      billingInterval,
+      tierId,
+      giftId: null,
+      startedAt: getStartedAt(subscription),
       currentPeriodStart,
       currentPeriodEnd,
       cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      trialEndsAt: getTrialEnd(subscription),
+      ...resubscribeReset,
     },
   });
 
@@ -403,6 +860,7 @@ async function handleSubscriptionCreated(
       userId,
       creator.displayName,
       priceAtPurchase,
+      billingInterval,
     ).catch((error) =>
       console.error("Error sending subscription confirmation email:", error),
     );
@@ -432,8 +890,8 @@ function mapStripeStatus(stripeStatus: string): SubscriptionStatus {
       console.warn(`Subscription status incomplete - payment pending`);
       return "past_due";
     case "paused":
-      // Stripe subscription paused - treat as past_due (no access)
-      return "past_due";
+      // Trial ended without a payment method - no access until resumed
+      return "paused";
     default:
       // NEVER default to "active" - throw error instead to avoid granting access
       console.error(`Unknown Stripe subscription status: ${stripeStatus}`);
@@ -441,9 +899,44 @@ function mapStripeStatus(stripeStatus: string): SubscriptionStatus {
   }
 }
 
+/**
+ * When a subscriber's pause ends, null if they haven't paused
+ * Creator suspensions pause collection without a resume date and aren't
+ * a subscriber's pause.
+ */
+function getPausedUntil(subscription: Stripe.Subscription): Date | null {
+  const resumesAt = subscription.pause_collection?.resumes_at;
+  return resumesAt ? new Date(resumesAt * 1000) : null;
+}
+
+/**
+ * Our status for a Stripe subscription
+ * Stripe keeps paused subscriptions active and voids their invoices; we
+ * mark a subscriber's pause as paused so it has no access, but only once
+ * the period they'd paid for has ended (pauseStartsAt). Pauses are saved
+ * before they're sent to Stripe, so one without a pauseStartsAt hasn't
+ * started.
+ */
+function getSubscriptionStatus(
+  subscription: Stripe.Subscription,
+  pauseStartsAt: Date | null = null,
+): SubscriptionStatus {
+  const status = mapStripeStatus(subscription.status);
+  if (status !== "active" || !getPausedUntil(subscription)) {
+    return status;
+  }
+
+  const { currentPeriodStart } = getSubscriptionPeriodDates(subscription);
+  return pauseStartsAt &&
+    currentPeriodStart &&
+    currentPeriodStart >= pauseStartsAt
+    ? "paused"
+    : status;
+}
+
 /**
  * Handle customer.subscription.updated event
- * Updates status, period dates, and cancel flag
+ * Updates status, period dates, cancel flag, pause, and membership tier
  */
 async function handleSubscriptionUpdated(
   subscription: Stripe.Subscription,
@@ -451,7 +944,15 @@ async function handleSubscriptionUpdated(
   // Find by Stripe subscription ID
   const dbSubscription = await prisma.subscription.findUnique({
     where: { stripeSubscriptionId: subscription.id },
-    select: { id: true, status: true },
+    select: {
+      id: true,
+      status: true,
+      creatorId: true,
+      tierId: true,
+      canceledAt: true,
+      cancellationCause: true,
+      pauseStartsAt: true,
+    },
   });
 
   // Extract period dates from subscription
@@ -470,15 +971,26 @@ async function handleSubscriptionUpdated(
       });
 
       if (byUserCreator) {
+        const status = getSubscriptionStatus(subscription);
+        const pricing = getSubscriptionPricing(subscription);
+
         // Update with the subscription ID
         await prisma.subscription.update({
           where: { id: byUserCreator.id },
           data: {
             stripeSubscriptionId: subscription.id,
-            status: mapStripeStatus(subscription.status),
+            status,
+            startedAt: getStartedAt(subscription),
             currentPeriodStart,
             currentPeriodEnd,
             cancelAtPeriodEnd: subscription.cancel_at_period_end,
+            trialEndsAt: getTrialEnd(subscription),
+            pausedUntil: getPausedUntil(subscription),
+            ...getCancellationData(subscription, status),
+            ...(pricing && {
+              priceAtPurchase: pricing.amountInCents,
+              billingInterval: pricing.interval,
+            }),
           },
         });
         console.log(`Subscription updated (by metadata): ${subscription.id}`);
@@ -492,7 +1004,19 @@ async function handleSubscriptionUpdated(
     return;
   }
 
-  const newStatus = mapStripeStatus(subscription.status);
+  const newStatus = getSubscriptionStatus(
+    subscription,
+    dbSubscription.pauseStartsAt,
+  );
+  const pausedUntil = getPausedUntil(subscription);
+
+  // Tier changes update the price too; record what Stripe now bills
+  const tierId = await resolveTierId(
+    subscription.metadata,
+    dbSubscription.creatorId,
+  );
+  const tierChanged = !!tierId && tierId !== dbSubscription.tierId;
+  const pricing = tierChanged ? getSubscriptionPricing(subscription) : null;
 
   await prisma.subscription.update({
     where: { id: dbSubscription.id },
@@ -501,6 +1025,16 @@ async function handleSubscriptionUpdated(
       currentPeriodStart,
       currentPeriodEnd,
       cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      trialEndsAt: getTrialEnd(subscription),
+      pausedUntil,
+      // The pause is over, or was called off
+      ...(!pausedUntil && { pauseStartsAt: null }),
+      ...getCancellationData(subscription, newStatus, dbSubscription),
+      ...(tierChanged && { tierId }),
+      ...(pricing && {
+        priceAtPurchase: pricing.amountInCents,
+        billingInterval: pricing.interval,
+      }),
     },
   });
 
@@ -511,14 +1045,22 @@ async function handleSubscriptionUpdated(
 
 /**
  * Handle customer.subscription.deleted event
- * Marks subscription as canceled
+ * Marks subscription as canceled and schedules the creator's win-back
+ * email
  */
 async function handleSubscriptionDeleted(
   subscription: Stripe.Subscription,
 ): Promise<void> {
   const dbSubscription = await prisma.subscription.findUnique({
     where: { stripeSubscriptionId: subscription.id },
-    select: { id: true, userId: true, creatorId: true },
+    select: {
+      id: true,
+      userId: true,
+      creatorId: true,
+      canceledAt: true,
+      cancellationCause: true,
+      creator: { select: { winBackDelayDays: true } },
+    },
   });
 
   if (!dbSubscription) {
@@ -528,11 +1070,25 @@ async function handleSubscriptionDeleted(
     return;
   }
 
+  const cancellation = getCancellationData(
+    subscription,
+    "canceled",
+    dbSubscription,
+  );
+
   await prisma.subscription.update({
     where: { id: dbSubscription.id },
     data: {
       status: "canceled",
       cancelAtPeriodEnd: false,
+      pauseStartsAt: null,
+      pausedUntil: null,
+      winBackEmailAt: getWinBackEmailAt(
+        cancellation.canceledAt,
+        cancellation.cancellationCause,
+        dbSubscription.creator.winBackDelayDays,
+      ),
+      ...cancellation,
     },
   });
 
@@ -587,7 +1143,7 @@ async function handleTrialWillEnd(
   const creatorName = dbSubscription.creator.displayName;
   const creatorHandle = dbSubscription.creator.handle;
 
-  // Send in-app notification (fire and forget)
+  // Send in-app, push and email notifications (fire and forget)
   notifyTrialEnding(
     dbSubscription.userId,
     creatorName,
@@ -596,16 +1152,6 @@ async function handleTrialWillEnd(
   ).catch((error) =>
     console.error("Error sending trial ending notification:", error),
   );
-
-  // Send email notification (fire and forget)
-  sendTrialEndingEmail(
-    dbSubscription.userId,
-    creatorName,
-    daysRemaining,
-    `/subscriptions`,
-  ).catch((error) =>
-    console.error("Error sending trial ending email:", error),
-  );
 }
 
 /**
@@ -678,25 +1224,55 @@ async function handleInvoicePaymentFailed(
 
   const creatorName = dbSubscription.creator.displayName;
 
-  // Send in-app notification (fire and forget)
+  // Send in-app, push and email notifications (fire and forget)
   notifyPaymentFailed(dbSubscription.userId, creatorName).catch((error) =>
     console.error("Error sending payment failed notification:", error),
   );
+}
 
-  // Send email notification (fire and forget)
-  sendPaymentFailedEmail(
-    dbSubscription.userId,
-    creatorName,
-    "/subscriptions",
-  ).catch((error) =>
-    console.error("Error sending payment failed email:", error),
-  );
+/**
+ * Record a paid subscription invoice in the creator's earnings ledger
+ * Trial invoices are for $0 and aren't earnings. The first invoice can
+ * arrive before our subscription record exists, so the creator and
+ * subscriber fall back to the subscription's metadata.
+ */
+async function recordInvoiceEarnings(
+  invoice: Stripe.Invoice,
+  subscriptionId: string,
+  dbSubscription: { creatorId: string; userId: string } | null,
+): Promise<void> {
+  if (!invoice.id || invoice.amount_paid <= 0) return;
+
+  const metadata = invoice.parent?.subscription_details?.metadata;
+  const creatorId = dbSubscription?.creatorId ?? metadata?.creatorId;
+  if (!creatorId) {
+    console.error(`invoice.paid: No creator for invoice ${invoice.id}`);
+    return;
+  }
+
+  const period = invoice.lines.data[0]?.period;
+  const paidAt = invoice.status_transitions.paid_at ?? invoice.created;
+
+  await recordLedgerEntry({
+    creatorId,
+    type: "subscription",
+    stripeObjectId: invoice.id,
+    userId: dbSubscription?.userId ?? metadata?.userId,
+    stripeSubscriptionId: subscriptionId,
+    grossAmount: invoice.amount_paid,
+    platformFee: calculatePlatformFee(invoice.amount_paid),
+    currency: invoice.currency,
+    periodStart: new Date((period?.start ?? invoice.period_start) * 1000),
+    periodEnd: new Date((period?.end ?? invoice.period_end) * 1000),
+    occurredAt: new Date(paidAt * 1000),
+  });
 }
 
 /**
  * Handle invoice.paid event
- * Handles payment recovery from past_due status back to active,
- * and trial-to-active transitions.
+ * Records the payment in the earnings ledger, and handles payment
+ * recovery from past_due status back to active and trial-to-active
+ * transitions.
  */
 async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
   const subscriptionId = getInvoiceSubscriptionId(invoice);
@@ -712,13 +1288,17 @@ async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
       id: true,
       status: true,
       userId: true,
+      creatorId: true,
       priceAtPurchase: true,
+      billingInterval: true,
       creator: {
         select: { displayName: true },
       },
     },
   });
 
+  await recordInvoiceEarnings(invoice, subscriptionId, dbSubscription);
+
   if (!dbSubscription) {
     // Subscription might not exist yet (first invoice during checkout)
     console.log(
@@ -751,6 +1331,7 @@ async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
       dbSubscription.userId,
       dbSubscription.creator.displayName,
       dbSubscription.priceAtPurchase,
+      dbSubscription.billingInterval,
     ).catch((error) =>
       console.error("Error sending subscription confirmation email:", error),
     );
@@ -811,6 +1392,252 @@ async function handleInvoiceUpcoming(invoice: Stripe.Invoice): Promise<void> {
   // });
 }
 
+/**
+ * Get the PaymentIntent ID from a charge or dispute field
+ */
+function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null,
+): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+}
+
+/**
+ * Find our subscription record for a PaymentIntent, with the names
+ * needed to notify the creator
+ */
+async function findSubscriptionByPaymentIntent(paymentIntentId: string | null) {
+  if (!paymentIntentId) return null;
+
+  const stripeSubscriptionId =
+    await getSubscriptionIdForPaymentIntent(paymentIntentId);
+  if (!stripeSubscriptionId) return null;
+
+  return prisma.subscription.findUnique({
+    where: { stripeSubscriptionId },
+    select: {
+      id: true,
+      userId: true,
+      creatorId: true,
+      stripeSubscriptionId: true,
+      status: true,
+      user: {
+        select: { name: true },
+      },
+      creator: {
+        select: { userId: true },
+      },
+    },
+  });
+}
+
+/**
+ * Handle charge.refunded event
+ * Records every refund in the creator's earnings ledger. Refunds issued
+ * outside the admin route (e.g. the Stripe dashboard) are also recorded
+ * for admins, and once the charge is fully refunded the subscription ends
+ * and the creator is notified. Admin-issued refunds (tagged with the
+ * admin's ID) are recorded and handled by /api/admin/refunds, even when
+ * this event arrives first.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  const dbSubscription = await findSubscriptionByPaymentIntent(paymentIntentId);
+
+  // The event only carries totals, so list the individual refunds, with
+  // any transfer reversal so the creator's share is known
+  const refunds = await stripe.refunds.list({
+    charge: charge.id,
+    limit: 100,
+    expand: ["data.transfer_reversal"],
+  });
+
+  const payment =
+    dbSubscription ?? (await findPaymentRecipient(paymentIntentId));
+
+  const newRefunds: Stripe.Refund[] = [];
+  for (const refund of refunds.data) {
+    if (refund.status === "failed" || refund.status === "canceled") continue;
+    if (payment) {
+      await recordRefund(refund, payment);
+    }
+    if (refund.metadata?.adminUserId) continue;
+    if (await isRefundRecorded(refund.id)) continue;
+    newRefunds.push(refund);
+  }
+
+  if (newRefunds.length === 0) {
+    console.log(`charge.refunded: Refunds already recorded for ${charge.id}`);
+    return;
+  }
+
+  for (const refund of newRefunds) {
+    await recordPaymentEvent({
+      type: "refund",
+      subscription: dbSubscription ?? undefined,
+      stripeChargeId: charge.id,
+      stripeRefundId: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason: refund.reason,
+      notes: refund.metadata?.messageRequestId
+        ? `Message request ${refund.metadata.messageRequestId} refunded`
+        : "Refund issued outside the admin console",
+    });
+  }
+
+  if (!dbSubscription) {
+    // One-time purchases and gifts lose access once fully refunded
+    const revoked = charge.refunded
+      ? await revokePurchasesForPaymentIntent(paymentIntentId)
+      : [];
+    const revokedGift = charge.refunded
+      ? await revokeGiftForPaymentIntent(paymentIntentId)
+      : null;
+
+    console.log(
+      revoked.length > 0
+        ? `charge.refunded: Revoked ${revoked.length} purchase(s) for charge ${charge.id}`
+        : revokedGift
+          ? `charge.refunded: Revoked gift ${revokedGift.id} for charge ${charge.id}`
+          : `charge.refunded: No subscription for charge ${charge.id}, recorded only`,
+    );
+    return;
+  }
+
+  const refundedAmount = newRefunds.reduce((sum, r) => sum + r.amount, 0);
+
+  // A partial refund (e.g. a goodwill credit) leaves the subscription as is
+  if (!charge.refunded) {
+    console.log(
+      `charge.refunded: Partial refund of ${refundedAmount} on subscription ${dbSubscription.id}, access kept`,
+    );
+    return;
+  }
+
+  if (!(await endSubscriptionAccess(dbSubscription))) {
+    console.log(
+      `charge.refunded: Subscription ${dbSubscription.id} already ended`,
+    );
+    return;
+  }
+
+  console.log(
+    `Subscription ${dbSubscription.id} ended after refund of ${refundedAmount} (charge ${charge.id})`,
+  );
+
+  // Notify creator (fire and forget)
+  notifySubscriptionRefunded(
+    dbSubscription.creator.userId,
+    dbSubscription.user.name || "A subscriber",
+    refundedAmount,
+  ).catch((error) =>
+    console.error("Error sending refund notification:", error),
+  );
+}
+
+/**
+ * Handle charge.dispute.created event
+ * Records the dispute for admin review. Access is left unchanged
+ * until the dispute is closed.
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+  const dbSubscription = await findSubscriptionByPaymentIntent(
+    getPaymentIntentId(dispute.payment_intent),
+  );
+
+  await recordPaymentEvent({
+    type: "dispute_opened",
+    subscription: dbSubscription ?? undefined,
+    stripeChargeId:
+      typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id,
+    stripeDisputeId: dispute.id,
+    amount: dispute.amount,
+    currency: dispute.currency,
+    reason: dispute.reason,
+  });
+
+  console.warn(
+    `Dispute opened: ${dispute.id} (${dispute.reason}, subscription ${dbSubscription?.id ?? "none"})`,
+  );
+
+  if (!dbSubscription) return;
+
+  // Notify creator (fire and forget)
+  notifyPaymentDisputed(
+    dbSubscription.creator.userId,
+    dbSubscription.user.name || "A subscriber",
+    "opened",
+  ).catch((error) =>
+    console.error("Error sending dispute notification:", error),
+  );
+}
+
+/**
+ * Handle charge.dispute.closed event
+ * Records the outcome. A lost dispute ends the subscription just like a refund.
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+  const dbSubscription = await findSubscriptionByPaymentIntent(
+    getPaymentIntentId(dispute.payment_intent),
+  );
+
+  const lost = dispute.status === "lost";
+
+  await recordPaymentEvent({
+    type: lost ? "dispute_lost" : "dispute_won",
+    subscription: dbSubscription ?? undefined,
+    stripeChargeId:
+      typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id,
+    stripeDisputeId: dispute.id,
+    amount: dispute.amount,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    notes: `Dispute closed with status: ${dispute.status}`,
+  });
+
+  console.log(`Dispute closed: ${dispute.id} (${dispute.status})`);
+
+  if (!dbSubscription) {
+    if (lost) {
+      const revoked = await revokePurchasesForPaymentIntent(
+        getPaymentIntentId(dispute.payment_intent),
+      );
+      if (revoked.length > 0) {
+        console.log(
+          `Revoked ${revoked.length} purchase(s) after lost dispute ${dispute.id}`,
+        );
+      }
+
+      const revokedGift = await revokeGiftForPaymentIntent(
+        getPaymentIntentId(dispute.payment_intent),
+      );
+      if (revokedGift) {
+        console.log(
+          `Revoked gift ${revokedGift.id} after lost dispute ${dispute.id}`,
+        );
+      }
+    }
+    return;
+  }
+
+  if (lost) {
+    await endSubscriptionAccess(dbSubscription);
+    console.log(
+      `Subscription ${dbSubscription.id} ended after lost dispute ${dispute.id}`,
+    );
+  }
+
+  // Notify creator (fire and forget)
+  notifyPaymentDisputed(
+    dbSubscription.creator.userId,
+    dbSubscription.user.name || "A subscriber",
+    lost ? "lost" : "won",
+  ).catch((error) =>
+    console.error("Error sending dispute notification:", error),
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Get the raw body for signature verification
@@ -879,6 +1706,21 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case "payout.created":
+      case "payout.updated":
+      case "payout.paid":
+      case "payout.failed":
+      case "payout.canceled": {
+        // Payouts happen on the creator's connected account
+        const payout = event.data.object as Stripe.Payout;
+        if (event.account) {
+          await handlePayout(event.account, payout);
+        } else {
+          console.warn(`${event.type} event missing account ID`);
+        }
+        break;
+      }
+
       // =================================================================
       // SUBSCRIPTION EVENTS
       // =================================================================
@@ -889,6 +1731,12 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case "checkout.session.async_payment_succeeded": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        await handleCheckoutAsyncPaymentSucceeded(session);
+        break;
+      }
+
       case "customer.subscription.created": {
         const subscription = event.data.object as Stripe.Subscription;
         await handleSubscriptionCreated(subscription);
@@ -931,10 +1779,27 @@ export async function POST(request: NextRequest) {
         break;
       }
 
-      // Future handlers for refunds/disputes (Phase 5+)
-      // case "charge.refunded":
-      // case "charge.dispute.created":
-      // case "charge.dispute.closed":
+      // =================================================================
+      // CHARGE EVENTS (refunds & disputes)
+      // =================================================================
+
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        await handleChargeRefunded(charge);
+        break;
+      }
+
+      case "charge.dispute.created": {
+        const dispute = event.data.object as Stripe.Dispute;
+        await handleDisputeCreated(dispute);
+        break;
+      }
+
+      case "charge.dispute.closed": {
+        const dispute = event.data.object as Stripe.Dispute;
+        await handleDisputeClosed(dispute);
+        break;
+      }
 
       default:
         // Log unhandled events for debugging, but don't fail
@@ -41,6 +41,8 @@ interface OnboardingState {
   contentDraft: OnboardingContentDraft | null;
   category: CreatorCategory | null;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
+  annualDiscountPercent: number | null;
   trialEnabled: boolean;
 }
 
@@ -55,6 +57,8 @@ const initialState: OnboardingState = {
   contentDraft: null,
   category: null,
   subscriptionPrice: "TIER_1000",
+  customPriceCents: null,
+  annualDiscountPercent: null,
   trialEnabled: true,
 };
 
@@ -93,7 +97,7 @@ export default function BecomeCreatorPage() {
       if (saved) {
         const parsed = JSON.parse(saved);
         if (parsed.state) {
-          setState(parsed.state);
+          setState({ ...initialState, ...parsed.state });
         }
         if (typeof parsed.step === "number") {
           setCurrentStep(parsed.step);
@@ -143,6 +147,9 @@ export default function BecomeCreatorPage() {
           category: data.creatorProfile.category || null,
           subscriptionPrice:
             data.creatorProfile.subscriptionPrice || "TIER_1000",
+          customPriceCents: data.creatorProfile.customPriceCents ?? null,
+          annualDiscountPercent:
+            data.creatorProfile.annualDiscountPercent ?? null,
           trialEnabled: data.creatorProfile.trialEnabled ?? true,
         });
       } else {
@@ -224,6 +231,14 @@ export default function BecomeCreatorPage() {
     setState((prev) => ({ ...prev, subscriptionPrice }));
   };
 
+  const updateCustomPrice = (customPriceCents: number | null) => {
+    setState((prev) => ({ ...prev, customPriceCents }));
+  };
+
+  const updateAnnualDiscount = (annualDiscountPercent: number | null) => {
+    setState((prev) => ({ ...prev, annualDiscountPercent }));
+  };
+
   const updateTrialEnabled = (trialEnabled: boolean) => {
     setState((prev) => ({ ...prev, trialEnabled }));
   };
@@ -247,6 +262,8 @@ export default function BecomeCreatorPage() {
         avatarUrl: state.avatarUrl,
         category: state.category,
         subscriptionPrice: state.subscriptionPrice,
+        customPriceCents: state.customPriceCents,
+        annualDiscountPercent: state.annualDiscountPercent,
         trialEnabled: state.trialEnabled,
       }),
     });
@@ -344,9 +361,13 @@ export default function BecomeCreatorPage() {
           <StepCategoryPricing
             category={state.category}
             subscriptionPrice={state.subscriptionPrice}
+            customPriceCents={state.customPriceCents}
+            annualDiscountPercent={state.annualDiscountPercent}
             trialEnabled={state.trialEnabled}
             onCategoryChange={updateCategory}
             onPriceChange={updateSubscriptionPrice}
+            onCustomPriceChange={updateCustomPrice}
+            onAnnualDiscountChange={updateAnnualDiscount}
             onTrialChange={updateTrialEnabled}
             onNext={handleNext}
             onBack={handleBack}
@@ -362,6 +383,8 @@ export default function BecomeCreatorPage() {
             avatarUrl={state.avatarUrl}
             category={state.category}
             subscriptionPrice={state.subscriptionPrice}
+            customPriceCents={state.customPriceCents}
+            annualDiscountPercent={state.annualDiscountPercent}
             trialEnabled={state.trialEnabled}
             onBack={handleBack}
             onActivate={handleActivate}
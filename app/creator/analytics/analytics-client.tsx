@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import {
   Card,
   CardContent,
@@ -23,11 +24,26 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { StatCard, StatCardSkeleton } from "@/components/creator";
-import { Eye, CheckCircle, DollarSign, Users } from "lucide-react";
-import type {
-  AnalyticsResponse,
-  AnalyticsPeriod,
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/lib/button-variants";
+import {
+  ExportMenu,
+  StatCard,
+  StatCardSkeleton,
+} from "@/components/creator";
+import {
+  Eye,
+  CheckCircle,
+  DollarSign,
+  Layers,
+  Repeat,
+  UserMinus,
+  Users,
+} from "lucide-react";
+import {
+  formatCents,
+  type AnalyticsResponse,
+  type AnalyticsPeriod,
 } from "@/lib/validations/analytics";
 
 interface AnalyticsClientProps {
@@ -35,6 +51,20 @@ interface AnalyticsClientProps {
   initialPeriod: AnalyticsPeriod;
 }
 
+const PAYOUT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  in_transit: "In transit",
+  paid: "Paid",
+  failed: "Failed",
+  canceled: "Canceled",
+};
+
+function getPayoutStatusVariant(status: string) {
+  if (status === "paid") return "secondary";
+  if (status === "failed" || status === "canceled") return "destructive";
+  return "outline";
+}
+
 /**
  * Analytics Client Component
  *
@@ -109,23 +139,49 @@ export function AnalyticsClient({
         <div>
           <h1 className="text-2xl font-semibold">Analytics</h1>
           <p className="mt-1 text-muted-foreground">
-            Track your content performance and subscriber growth.
+            Track your content performance, subscriber growth and earnings.
           </p>
         </div>
-        <Select
-          value={period}
-          onValueChange={(v) => handlePeriodChange(v as AnalyticsPeriod)}
-        >
-          <SelectTrigger className="w-[180px]" aria-label="Select time period">
-            <SelectValue placeholder="Select period" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="7d">Last 7 days</SelectItem>
-            <SelectItem value="30d">Last 30 days</SelectItem>
-            <SelectItem value="90d">Last 90 days</SelectItem>
-            <SelectItem value="all">All time</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2">
+          <Select
+            value={period}
+            onValueChange={(v) => handlePeriodChange(v as AnalyticsPeriod)}
+          >
+            <SelectTrigger
+              className="w-[180px]"
+              aria-label="Select time period"
+            >
+              <SelectValue placeholder="Select period" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+            </SelectContent>
+          </Select>
+          <Link
+            href="/creator/analytics/cohorts"
+            className={buttonVariants({ variant: "outline" })}
+          >
+            <Layers className="size-4" />
+            Cohorts
+          </Link>
+          <ExportMenu
+            reports={[
+              {
+                label: "Content stats",
+                path: "/api/creator/analytics/export",
+                params: { report: "content", period },
+              },
+              {
+                label: "Views by day",
+                path: "/api/creator/analytics/export",
+                params: { report: "views", period },
+              },
+            ]}
+          />
+        </div>
       </div>
 
       {/* Error State */}
@@ -138,14 +194,11 @@ export function AnalyticsClient({
       )}
 
       {/* Stats Grid */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {isLoading || !data ? (
-          <>
-            <StatCardSkeleton />
-            <StatCardSkeleton />
-            <StatCardSkeleton />
-            <StatCardSkeleton />
-          </>
+          Array.from({ length: 6 }).map((_, i) => (
+            <StatCardSkeleton key={i} />
+          ))
         ) : (
           <>
             <StatCard
@@ -166,16 +219,104 @@ export function AnalyticsClient({
               icon={<Users className="size-5" />}
             />
             <StatCard
-              label="Revenue"
-              value={`$${(data.totalRevenue / 100).toFixed(2)}`}
-              change={data.revenueGrowth}
+              label="Net Earnings"
+              value={formatCents(data.netEarnings)}
+              change={data.earningsGrowth}
               changeLabel={periodLabels[period]}
               icon={<DollarSign className="size-5" />}
             />
+            <StatCard
+              label="Monthly Recurring Revenue"
+              value={formatCents(data.mrr)}
+              icon={<Repeat className="size-5" />}
+            />
+            <StatCard
+              label="Churn Rate"
+              value={data.churnRate === null ? "—" : `${data.churnRate}%`}
+              icon={<UserMinus className="size-5" />}
+            />
           </>
         )}
       </div>
 
+      {/* Earnings & Payouts */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Earnings &amp; Payouts</CardTitle>
+          <CardDescription>
+            What subscribers and buyers paid for{" "}
+            {periodLabels[period].toLowerCase()}, and recent payouts to your
+            bank
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading || !data ? (
+            <div className="h-40 animate-pulse rounded-lg bg-muted" />
+          ) : (
+            <>
+              <dl className="grid gap-2 text-sm sm:grid-cols-3">
+                <div>
+                  <dt className="text-muted-foreground">Gross</dt>
+                  <dd className="font-medium">
+                    {formatCents(data.grossEarnings)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Platform fees</dt>
+                  <dd className="font-medium">
+                    {formatCents(data.platformFees)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Net</dt>
+                  <dd className="font-medium">
+                    {formatCents(data.netEarnings)}
+                  </dd>
+                </div>
+              </dl>
+
+              {data.payouts.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">
+                  No payouts yet.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Arrival</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.payouts.map((payout) => (
+                      <TableRow key={payout.id}>
+                        <TableCell>
+                          {payout.arrivalDate
+                            ? new Date(payout.arrivalDate).toLocaleDateString()
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={getPayoutStatusVariant(payout.status)}
+                          >
+                            {PAYOUT_STATUS_LABELS[payout.status] ??
+                              payout.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCents(payout.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Views Chart */}
       <Card>
         <CardHeader>
@@ -0,0 +1,346 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { ArrowLeft, Percent, UserCheck, Users } from "lucide-react";
+import type { CancellationCause, RetentionOffer } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCohortAnalytics } from "@/lib/cohorts";
+import { cancellationReasonLabels } from "@/lib/validations/subscription";
+import { StatCard } from "@/components/creator";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const CANCELLATION_CAUSE_LABELS: Record<CancellationCause, string> = {
+  requested: "Canceled by subscriber",
+  payment_failed: "Payment failed",
+  refunded: "Refunded or disputed",
+  gift_ended: "Gift ended",
+};
+
+const RETENTION_OFFER_LABELS: Record<RetentionOffer, string> = {
+  discount: "Took the discount",
+  pause: "Paused instead",
+};
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Cohort Analytics Page
+ *
+ * Retention by the month subscribers joined, trial conversion, why
+ * subscriptions end, how early engagement relates to staying, and what
+ * subscribers said when they canceled.
+ */
+export default async function CohortAnalyticsPage() {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    redirect("/sign-in");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkId },
+    include: {
+      creatorProfile: {
+        select: { id: true },
+      },
+    },
+  });
+
+  if (!user?.creatorProfile) {
+    redirect("/become-creator");
+  }
+
+  const data = await getCohortAnalytics(user.creatorProfile.id);
+
+  const totalSubscribers = data.cohorts.reduce(
+    (sum, cohort) => sum + cohort.subscribers,
+    0,
+  );
+  const totalCancellations = data.cancellations.reduce(
+    (sum, cancellation) => sum + cancellation.count,
+    0,
+  );
+  const totalSurveyAnswers = data.cancellationReasons.reduce(
+    (sum, answer) => sum + answer.count,
+    0,
+  );
+  const retentionMonths = Math.max(
+    0,
+    ...data.cohorts.map((cohort) => cohort.retention.length),
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <Link
+          href="/creator/analytics"
+          className="mb-4 inline-flex items-center gap-2 text-sm text-muted-foreground transition-colors hover:text-foreground"
+        >
+          <ArrowLeft className="size-4" />
+          Back to analytics
+        </Link>
+        <h1 className="text-2xl font-semibold">Cohorts</h1>
+        <p className="mt-1 text-muted-foreground">
+          How long subscribers from each month stay, and what keeps them.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <StatCard
+          label="Subscribers (12 months)"
+          value={totalSubscribers.toLocaleString()}
+          icon={<Users className="size-5" />}
+        />
+        <StatCard
+          label="Trials Finished"
+          value={data.trialConversion.trials.toLocaleString()}
+          icon={<UserCheck className="size-5" />}
+        />
+        <StatCard
+          label="Trial Conversion"
+          value={
+            data.trialConversion.trials > 0
+              ? `${data.trialConversion.rate}%`
+              : "—"
+          }
+          icon={<Percent className="size-5" />}
+        />
+      </div>
+
+      {/* Retention */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Retention</CardTitle>
+          <CardDescription>
+            Percent of each month&apos;s new subscribers still subscribed
+            after 1, 2, 3... months
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.cohorts.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No subscribers in the last 12 months.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Subscribers</TableHead>
+                  {Array.from({ length: retentionMonths - 1 }).map((_, i) => (
+                    <TableHead key={i} className="text-center">
+                      M{i + 1}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.cohorts.map((cohort) => (
+                  <TableRow key={cohort.month}>
+                    <TableCell className="font-medium">
+                      {formatMonth(cohort.month)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {cohort.subscribers.toLocaleString()}
+                    </TableCell>
+                    {Array.from({ length: retentionMonths - 1 }).map(
+                      (_, i) => {
+                        const rate = cohort.retention[i + 1];
+                        return (
+                          <TableCell
+                            key={i}
+                            className="text-center tabular-nums"
+                            style={
+                              rate === undefined
+                                ? undefined
+                                : {
+                                    backgroundColor: `color-mix(in srgb, var(--primary) ${Math.round(rate * 0.4)}%, transparent)`,
+                                  }
+                            }
+                          >
+                            {rate === undefined ? "" : `${rate}%`}
+                          </TableCell>
+                        );
+                      },
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        {/* Engagement */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Early Engagement</CardTitle>
+            <CardDescription>
+              Subscribers by what they completed during their trial, or
+              their first 30 days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subscribers</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead className="text-right">Still here</TableHead>
+                  <TableHead className="text-right">Trial to paid</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.engagement.map((segment) => (
+                  <TableRow key={segment.label}>
+                    <TableCell className="font-medium">
+                      {segment.label}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {segment.subscribers.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {segment.subscribers > 0
+                        ? `${segment.retentionRate}%`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {segment.trialConversionRate === null
+                        ? "—"
+                        : `${segment.trialConversionRate}%`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Cancellations */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Why Subscriptions Ended</CardTitle>
+            <CardDescription>
+              Subscriptions started in the last 12 months that have ended
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {data.cancellations.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No cancellations yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.cancellations.map((cancellation) => (
+                    <TableRow key={cancellation.cause ?? "unknown"}>
+                      <TableCell className="font-medium">
+                        {cancellation.cause
+                          ? CANCELLATION_CAUSE_LABELS[cancellation.cause]
+                          : "Not recorded"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {cancellation.count.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {Math.round(
+                          (cancellation.count / totalCancellations) * 100,
+                        )}
+                        %
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Cancellation Survey */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Cancellation Survey</CardTitle>
+          <CardDescription>
+            What subscribers said when they canceled in the last 12 months,
+            and how many stayed for a retention offer
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.cancellationReasons.length === 0 &&
+          data.retentionOffers.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No survey answers yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Answer</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.cancellationReasons.map((answer) => (
+                  <TableRow key={answer.reason}>
+                    <TableCell className="font-medium">
+                      {cancellationReasonLabels[answer.reason]}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {answer.count.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Math.round((answer.count / totalSurveyAnswers) * 100)}%
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {data.retentionOffers.map((offer) => (
+                  <TableRow key={offer.offer}>
+                    <TableCell className="font-medium">
+                      {RETENTION_OFFER_LABELS[offer.offer]}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {offer.count.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">—</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
+import { getCreatorEarnings } from "@/lib/earnings";
 import { AnalyticsClient } from "./analytics-client";
 import {
   getPeriodStartDate,
@@ -68,18 +69,8 @@ export default async function AnalyticsPage() {
       },
     });
 
-    // Calculate revenue
-    const revenueAgg = await prisma.subscription.aggregate({
-      where: {
-        creatorId,
-        status: { in: ["active", "trialing"] },
-        createdAt: periodStart ? { gte: periodStart } : undefined,
-      },
-      _sum: {
-        priceAtPurchase: true,
-      },
-    });
-    const totalRevenue = revenueAgg._sum.priceAtPurchase || 0;
+    // Earnings, MRR, churn and payouts from the earnings ledger
+    const earnings = await getCreatorEarnings(creatorId, periodStart);
 
     // Get top content
     const topContentRaw = await prisma.contentView.groupBy({
@@ -143,8 +134,7 @@ export default async function AnalyticsPage() {
     const initialData: AnalyticsResponse = {
       totalViews,
       completionRate,
-      totalRevenue,
-      revenueGrowth: 0, // Calculated on client when period changes
+      ...earnings,
       subscriberCount,
       subscriberGrowth: 0, // Calculated on client when period changes
       topContent,
@@ -2,7 +2,14 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { Loader2, Save, Eye, Archive, Trash2 } from "lucide-react";
+import {
+  Loader2,
+  Save,
+  Eye,
+  Archive,
+  Trash2,
+  CalendarClock,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -31,11 +38,24 @@ import { VideoUploader } from "@/components/content/video-uploader";
 import { AudioUploader } from "@/components/content/audio-uploader";
 import { ThumbnailUploader } from "@/components/content/thumbnail-uploader";
 import { RichTextEditor } from "@/components/content/rich-text-editor";
+import { PurchasePriceField } from "@/components/content/purchase-price-field";
+import {
+  MinTierField,
+  type MinTierOption,
+} from "@/components/content/min-tier-field";
+import { ScheduleField } from "@/components/content/schedule-field";
+import { Progress } from "@/components/ui/progress";
+import { useMediaProcessingStatus } from "@/hooks/use-media-processing-status";
 import {
   getContentStatusVariant,
+  getMediaStatusLabel,
   canPublishContent,
 } from "@/lib/validations/content";
-import type { ContentType, ContentStatus } from "@/lib/validations/content";
+import type {
+  ContentType,
+  ContentStatus,
+  MediaStatus,
+} from "@/lib/validations/content";
 
 /**
  * Program option
@@ -54,12 +74,18 @@ interface ContentData {
   title: string;
   description: string | null;
   mediaUrl: string | null;
+  mediaStatus: MediaStatus | null;
+  mediaProgress: number | null;
+  mediaError: string | null;
   thumbnailUrl: string | null;
   duration: number | null;
   isFree: boolean;
+  priceCents: number | null;
+  minTierId: string | null;
   status: ContentStatus;
   programId: string | null;
   publishedAt: string | null;
+  scheduledAt: string | null;
 }
 
 /**
@@ -68,6 +94,7 @@ interface ContentData {
 interface EditContentClientProps {
   content: ContentData;
   programs: ProgramOption[];
+  tiers: MinTierOption[];
 }
 
 /**
@@ -78,6 +105,7 @@ interface EditContentClientProps {
 export function EditContentClient({
   content,
   programs,
+  tiers,
 }: EditContentClientProps) {
   const router = useRouter();
 
@@ -88,8 +116,24 @@ export function EditContentClient({
   const [thumbnailUrl, setThumbnailUrl] = useState(content.thumbnailUrl || "");
   const [duration, setDuration] = useState<number | null>(content.duration);
   const [isFree, setIsFree] = useState(content.isFree);
+  const [priceCents, setPriceCents] = useState(content.priceCents);
+  const [minTierId, setMinTierId] = useState(content.minTierId);
   const [programId, setProgramId] = useState<string | null>(content.programId);
   const [status, setStatus] = useState<ContentStatus>(content.status);
+  const [scheduledAt, setScheduledAt] = useState(content.scheduledAt);
+
+  // Video duration comes from Stream once processing finishes
+  const isVideo = content.type === "video";
+  const [media, setMedia] = useMediaProcessingStatus(
+    content.id,
+    {
+      mediaStatus: content.mediaStatus,
+      mediaProgress: content.mediaProgress,
+      mediaError: content.mediaError,
+      duration: content.duration,
+    },
+    isVideo && !!mediaUrl,
+  );
 
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -100,14 +144,14 @@ export function EditContentClient({
   /**
    * Handle video upload complete
    */
-  const handleVideoUploadComplete = (
-    videoUid: string,
-    videoDuration?: number,
-  ) => {
+  const handleVideoUploadComplete = (videoUid: string) => {
     setMediaUrl(videoUid);
-    if (videoDuration) {
-      setDuration(videoDuration);
-    }
+    setMedia({
+      mediaStatus: "uploading",
+      mediaProgress: null,
+      mediaError: null,
+      duration: null,
+    });
     setSuccessMessage("Video uploaded successfully");
     setTimeout(() => setSuccessMessage(null), 3000);
   };
@@ -140,15 +184,21 @@ export function EditContentClient({
       return;
     }
 
-    const targetStatus = newStatus || status;
+    // Turning off the schedule moves scheduled content back to drafts
+    const targetStatus =
+      newStatus || (status === "scheduled" && !scheduledAt ? "draft" : status);
 
-    // Validate for publishing
-    if (targetStatus === "published" && content.status !== "published") {
+    // Validate for publishing (scheduled content publishes unattended)
+    if (
+      (targetStatus === "published" && content.status !== "published") ||
+      targetStatus === "scheduled"
+    ) {
       const { canPublish, errors } = canPublishContent({
         type: content.type,
         title,
         mediaUrl,
-        duration,
+        mediaStatus: media.mediaStatus,
+        duration: isVideo ? media.duration : duration,
       });
 
       if (!canPublish) {
@@ -169,10 +219,13 @@ export function EditContentClient({
           description: description || null,
           mediaUrl: mediaUrl || null,
           thumbnailUrl: thumbnailUrl || null,
-          duration: duration || null,
+          duration: isVideo ? undefined : duration || null,
           isFree,
+          priceCents: isFree ? null : priceCents,
+          minTierId: isFree ? null : minTierId,
           programId: programId || null,
           status: targetStatus,
+          scheduledAt: targetStatus === "scheduled" ? scheduledAt : null,
         }),
       });
 
@@ -182,10 +235,15 @@ export function EditContentClient({
       }
 
       setStatus(targetStatus);
+      if (targetStatus !== "scheduled") {
+        setScheduledAt(null);
+      }
       setSuccessMessage(
         targetStatus === "published"
           ? "Content published successfully"
-          : "Changes saved successfully",
+          : targetStatus === "scheduled" && newStatus === "scheduled"
+            ? "Content scheduled successfully"
+            : "Changes saved successfully",
       );
       setTimeout(() => setSuccessMessage(null), 3000);
     } catch (err) {
@@ -222,6 +280,7 @@ export function EditContentClient({
   };
 
   const statusVariant = getContentStatusVariant(status);
+  const canSchedule = status === "draft" || status === "scheduled";
   const isMediaContent = content.type === "video" || content.type === "audio";
 
   return (
@@ -237,6 +296,11 @@ export function EditContentClient({
             Published {new Date(content.publishedAt).toLocaleDateString()}
           </span>
         )}
+        {scheduledAt && status === "scheduled" && (
+          <span className="text-sm text-muted-foreground">
+            Publishes {new Date(scheduledAt).toLocaleString()}
+          </span>
+        )}
       </div>
 
       {/* Success message */}
@@ -288,6 +352,37 @@ export function EditContentClient({
               Current file: {mediaUrl.substring(0, 20)}...
             </p>
           )}
+
+          {/* Stream processing status; publishing waits for ready */}
+          {isVideo && mediaUrl && media.mediaStatus !== "ready" && (
+            <div className="space-y-2 rounded-lg border border-border bg-card p-4">
+              <p className="text-sm font-medium">
+                {media.mediaStatus
+                  ? getMediaStatusLabel(media.mediaStatus)
+                  : "Checking video status"}
+                {media.mediaStatus === "processing" &&
+                  media.mediaProgress != null &&
+                  ` (${media.mediaProgress}%)`}
+              </p>
+              {media.mediaStatus === "errored" ? (
+                <>
+                  <p className="text-sm text-destructive">
+                    {media.mediaError || "Video processing failed"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Upload the video again to retry.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <Progress value={media.mediaProgress ?? 0} className="h-2" />
+                  <p className="text-sm text-muted-foreground">
+                    You can publish once your video has finished processing.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
         </section>
       )}
 
@@ -398,6 +493,37 @@ export function EditContentClient({
             />
           </div>
 
+          {/* Membership tier requirement */}
+          {!isFree && (
+            <MinTierField
+              tiers={tiers}
+              value={minTierId}
+              onChange={setMinTierId}
+              itemLabel="this post"
+              disabled={isSubmitting}
+            />
+          )}
+
+          {/* One-time purchase price */}
+          {!isFree && (
+            <PurchasePriceField
+              value={priceCents}
+              onChange={setPriceCents}
+              itemLabel="this post"
+              disabled={isSubmitting}
+            />
+          )}
+
+          {/* Scheduled publishing */}
+          {canSchedule && (
+            <ScheduleField
+              value={scheduledAt}
+              onChange={setScheduledAt}
+              itemLabel="this post"
+              disabled={isSubmitting}
+            />
+          )}
+
           {/* Program selection */}
           {programs.length > 0 && (
             <div className="space-y-2">
@@ -443,18 +569,22 @@ export function EditContentClient({
             Save changes
           </Button>
 
-          {status === "draft" && (
+          {canSchedule && (
             <Button
               type="button"
-              onClick={() => handleSave("published")}
+              onClick={() =>
+                handleSave(scheduledAt ? "scheduled" : "published")
+              }
               disabled={isSubmitting || !title.trim()}
             >
               {isSubmitting ? (
                 <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : scheduledAt ? (
+                <CalendarClock className="mr-2 size-4" />
               ) : (
                 <Eye className="mr-2 size-4" />
               )}
-              Publish
+              {scheduledAt ? "Schedule" : "Publish"}
             </Button>
           )}
 
@@ -71,6 +71,13 @@ export default async function EditContentPage({
     orderBy: { title: "asc" },
   });
 
+  // Fetch membership tiers for tier-gated content
+  const tiers = await prisma.membershipTier.findMany({
+    where: { creatorId: user.creatorProfile.id },
+    select: { id: true, name: true },
+    orderBy: { rank: "asc" },
+  });
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -102,14 +109,21 @@ export default async function EditContentPage({
             title: content.title,
             description: content.description,
             mediaUrl: content.mediaUrl,
+            mediaStatus: content.mediaStatus,
+            mediaProgress: content.mediaProgress,
+            mediaError: content.mediaError,
             thumbnailUrl: content.thumbnailUrl,
             duration: content.duration,
             isFree: content.isFree,
+            priceCents: content.priceCents,
+            minTierId: content.minTierId,
             status: content.status,
             programId: content.programId,
             publishedAt: content.publishedAt?.toISOString() || null,
+            scheduledAt: content.scheduledAt?.toISOString() || null,
           }}
           programs={programs}
+          tiers={tiers}
         />
       </main>
     </div>
@@ -21,8 +21,19 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ContentCard, ContentCardSkeleton } from "@/components/content";
-import type { ContentType, ContentStatus } from "@/lib/validations/content";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ContentCard,
+  ContentCardSkeleton,
+  type ContentCardProps,
+} from "@/components/content";
+import { useMediaProcessingStatus } from "@/hooks/use-media-processing-status";
+import type {
+  ContentType,
+  ContentStatus,
+  MediaStatus,
+} from "@/lib/validations/content";
+import { ReleaseCalendar, type ScheduledRelease } from "./release-calendar";
 
 /**
  * Content item from API
@@ -32,12 +43,17 @@ interface ContentItem {
   type: ContentType;
   title: string;
   description: string | null;
+  mediaUrl: string | null;
+  mediaStatus: MediaStatus | null;
+  mediaProgress: number | null;
+  mediaError: string | null;
   thumbnailUrl: string | null;
   duration: number | null;
   isFree: boolean;
   status: ContentStatus;
   program: { id: string; title: string } | null;
   publishedAt: string | null;
+  scheduledAt: string | null;
   createdAt: string;
 }
 
@@ -54,17 +70,70 @@ interface ProgramOption {
  */
 interface ContentListClientProps {
   initialContent: ContentItem[];
+  /** Scheduled content for the calendar view, soonest first */
+  scheduledReleases: ScheduledRelease[];
   programs: ProgramOption[];
   hasMore: boolean;
 }
 
+/**
+ * Content card that follows its video's processing status
+ *
+ * Publishing is offered once the video is ready.
+ */
+function ContentListItem({
+  item,
+  onPublish,
+  ...actions
+}: {
+  item: ContentItem;
+} & Pick<ContentCardProps, "onEdit" | "onPublish" | "onArchive" | "onDelete">) {
+  const [media] = useMediaProcessingStatus(
+    item.id,
+    {
+      mediaStatus: item.mediaStatus,
+      mediaProgress: item.mediaProgress,
+      mediaError: item.mediaError,
+      duration: item.duration,
+    },
+    item.type === "video" && !!item.mediaUrl,
+  );
+
+  const isVideoPending =
+    item.type === "video" && !!item.mediaUrl && media.mediaStatus !== "ready";
+
+  return (
+    <ContentCard
+      id={item.id}
+      type={item.type}
+      title={item.title}
+      description={item.description}
+      thumbnailUrl={item.thumbnailUrl}
+      duration={media.duration}
+      isFree={item.isFree}
+      status={item.status}
+      mediaStatus={media.mediaStatus}
+      mediaProgress={media.mediaProgress}
+      mediaError={media.mediaError}
+      program={item.program}
+      publishedAt={item.publishedAt}
+      scheduledAt={item.scheduledAt}
+      createdAt={item.createdAt}
+      onPublish={isVideoPending ? undefined : onPublish}
+      {...actions}
+    />
+  );
+}
+
 /**
  * ContentListClient Component
  *
- * Client component for content list with filtering, pagination, and actions.
+ * Client component for content list with filtering, pagination, and actions,
+ * plus a calendar view of upcoming scheduled releases.
  */
 export function ContentListClient({
   initialContent,
+  scheduledReleases: initialScheduledReleases,
   programs,
   hasMore: initialHasMore,
 }: ContentListClientProps) {
@@ -72,6 +141,9 @@ export function ContentListClient({
 
   // Content state
   const [content, setContent] = useState<ContentItem[]>(initialContent);
+  const [scheduledReleases, setScheduledReleases] = useState(
+    initialScheduledReleases,
+  );
   const [hasMore, setHasMore] = useState(initialHasMore);
   const [isLoading, setIsLoading] = useState(false);
   const [cursor, setCursor] = useState<string | null>(
@@ -186,10 +258,14 @@ export function ContentListClient({
                 ...item,
                 status: "published" as ContentStatus,
                 publishedAt: new Date().toISOString(),
+                scheduledAt: null,
               }
             : item,
         ),
       );
+      setScheduledReleases((prev) =>
+        prev.filter((release) => release.id !== id),
+      );
     } catch (error) {
       console.error("Error publishing content:", error);
       alert(error instanceof Error ? error.message : "Failed to publish");
@@ -252,6 +328,9 @@ export function ContentListClient({
       setContent((prev) =>
         prev.filter((item) => item.id !== contentToDelete.id),
       );
+      setScheduledReleases((prev) =>
+        prev.filter((release) => release.id !== contentToDelete.id),
+      );
       setDeleteDialogOpen(false);
       setContentToDelete(null);
     } catch (error) {
@@ -263,116 +342,124 @@ export function ContentListClient({
 
   return (
     <div className="space-y-6">
-      {/* Filters */}
-      <div className="flex flex-wrap gap-3">
-        <Select
-          value={statusFilter}
-          onValueChange={(v) => handleFilterChange("status", v ?? "all")}
-        >
-          <SelectTrigger className="w-[140px]">
-            <SelectValue placeholder="Status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All statuses</SelectItem>
-            <SelectItem value="draft">Draft</SelectItem>
-            <SelectItem value="published">Published</SelectItem>
-            <SelectItem value="archived">Archived</SelectItem>
-          </SelectContent>
-        </Select>
-
-        <Select
-          value={typeFilter}
-          onValueChange={(v) => handleFilterChange("type", v ?? "all")}
-        >
-          <SelectTrigger className="w-[140px]">
-            <SelectValue placeholder="Type" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All types</SelectItem>
-            <SelectItem value="video">Video</SelectItem>
-            <SelectItem value="audio">Audio</SelectItem>
-            <SelectItem value="text">Text</SelectItem>
-          </SelectContent>
-        </Select>
-
-        {programs.length > 0 && (
-          <Select
-            value={programFilter}
-            onValueChange={(v) => handleFilterChange("program", v ?? "all")}
-          >
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Program" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All programs</SelectItem>
-              {programs.map((program) => (
-                <SelectItem key={program.id} value={program.id}>
-                  {program.title}
-                </SelectItem>
+      <Tabs defaultValue="list">
+        <TabsList>
+          <TabsTrigger value="list">List</TabsTrigger>
+          <TabsTrigger value="calendar">
+            Calendar
+            {scheduledReleases.length > 0 && ` (${scheduledReleases.length})`}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list" className="mt-6 space-y-6">
+          {/* Filters */}
+          <div className="flex flex-wrap gap-3">
+            <Select
+              value={statusFilter}
+              onValueChange={(v) => handleFilterChange("status", v ?? "all")}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="scheduled">Scheduled</SelectItem>
+                <SelectItem value="published">Published</SelectItem>
+                <SelectItem value="archived">Archived</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={typeFilter}
+              onValueChange={(v) => handleFilterChange("type", v ?? "all")}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                <SelectItem value="video">Video</SelectItem>
+                <SelectItem value="audio">Audio</SelectItem>
+                <SelectItem value="text">Text</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {programs.length > 0 && (
+              <Select
+                value={programFilter}
+                onValueChange={(v) => handleFilterChange("program", v ?? "all")}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Program" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All programs</SelectItem>
+                  {programs.map((program) => (
+                    <SelectItem key={program.id} value={program.id}>
+                      {program.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {/* Content list */}
+          <div className="space-y-3">
+            {content.length === 0 ? (
+              <div className="rounded-lg border border-border bg-card p-12 text-center">
+                <p className="text-muted-foreground">
+                  {statusFilter !== "all" ||
+                  typeFilter !== "all" ||
+                  programFilter !== "all"
+                    ? "No content matches your filters"
+                    : "No content yet. Create your first piece of content to get started."}
+                </p>
+              </div>
+            ) : (
+              content.map((item) => (
+                <ContentListItem
+                  key={item.id}
+                  item={item}
+                  onEdit={() => handleEdit(item.id)}
+                  onPublish={
+                    item.status === "draft" || item.status === "scheduled"
+                      ? () => handlePublish(item.id)
+                      : undefined
+                  }
+                  onArchive={
+                    item.status === "published"
+                      ? () => handleArchive(item.id)
+                      : undefined
+                  }
+                  onDelete={() => openDeleteDialog(item)}
+                />
+              ))
+            )}
+
+            {/* Loading skeletons */}
+            {isLoading &&
+              Array.from({ length: 3 }).map((_, i) => (
+                <ContentCardSkeleton key={i} />
               ))}
-            </SelectContent>
-          </Select>
-        )}
-      </div>
-
-      {/* Content list */}
-      <div className="space-y-3">
-        {content.length === 0 ? (
-          <div className="rounded-lg border border-border bg-card p-12 text-center">
-            <p className="text-muted-foreground">
-              {statusFilter !== "all" ||
-              typeFilter !== "all" ||
-              programFilter !== "all"
-                ? "No content matches your filters"
-                : "No content yet. Create your first piece of content to get started."}
-            </p>
           </div>
-        ) : (
-          content.map((item) => (
-            <ContentCard
-              key={item.id}
-              id={item.id}
-              type={item.type}
-              title={item.title}
-              description={item.description}
-              thumbnailUrl={item.thumbnailUrl}
-              duration={item.duration}
-              isFree={item.isFree}
-              status={item.status}
-              program={item.program}
-              publishedAt={item.publishedAt}
-              createdAt={item.createdAt}
-              onEdit={() => handleEdit(item.id)}
-              onPublish={
-                item.status === "draft"
-                  ? () => handlePublish(item.id)
-                  : undefined
-              }
-              onArchive={
-                item.status === "published"
-                  ? () => handleArchive(item.id)
-                  : undefined
-              }
-              onDelete={() => openDeleteDialog(item)}
-            />
-          ))
-        )}
-
-        {/* Loading skeletons */}
-        {isLoading &&
-          Array.from({ length: 3 }).map((_, i) => (
-            <ContentCardSkeleton key={i} />
-          ))}
-      </div>
-
-      {/* Load more */}
-      {hasMore && !isLoading && (
-        <div className="flex justify-center pt-4">
-          <Button variant="outline" onClick={handleLoadMore}>
-            Load more
-          </Button>
-        </div>
-      )}
+
+          {/* Load more */}
+          {hasMore && !isLoading && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={handleLoadMore}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </TabsContent>
+
+        {/* Upcoming scheduled releases */}
+        <TabsContent value="calendar" className="mt-6">
+          <ReleaseCalendar releases={scheduledReleases} />
+        </TabsContent>
+      </Tabs>
 
       {/* Delete confirmation dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -17,6 +17,12 @@ import {
 } from "@/components/ui/select";
 import { ContentTypePicker } from "@/components/content/content-type-picker";
 import { RichTextEditor } from "@/components/content/rich-text-editor";
+import { PurchasePriceField } from "@/components/content/purchase-price-field";
+import {
+  MinTierField,
+  type MinTierOption,
+} from "@/components/content/min-tier-field";
+import { ScheduleField } from "@/components/content/schedule-field";
 import type { ContentType } from "@/lib/validations/content";
 
 /**
@@ -32,6 +38,7 @@ interface ProgramOption {
  */
 interface CreateContentClientProps {
   programs: ProgramOption[];
+  tiers: MinTierOption[];
 }
 
 /**
@@ -42,7 +49,10 @@ interface CreateContentClientProps {
  * Step 2: Enter details
  * Step 3: Save as draft (then can upload media and publish)
  */
-export function CreateContentClient({ programs }: CreateContentClientProps) {
+export function CreateContentClient({
+  programs,
+  tiers,
+}: CreateContentClientProps) {
   const router = useRouter();
 
   // Form state
@@ -51,7 +61,10 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
   const [description, setDescription] = useState("");
   const [textContent, setTextContent] = useState("");
   const [isFree, setIsFree] = useState(false);
+  const [priceCents, setPriceCents] = useState<number | null>(null);
+  const [minTierId, setMinTierId] = useState<string | null>(null);
   const [programId, setProgramId] = useState<string | null>(null);
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
 
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -83,6 +96,8 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
           title: title.trim(),
           description: type === "text" ? textContent : description,
           isFree,
+          priceCents: isFree ? null : priceCents,
+          minTierId: isFree ? null : minTierId,
           status: "draft",
           programId: programId || null,
         }),
@@ -112,7 +127,7 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
   };
 
   /**
-   * Publish text content directly
+   * Publish text content directly, or schedule it for later
    */
   const handlePublish = async () => {
     if (type !== "text") return;
@@ -139,7 +154,10 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
           title: title.trim(),
           description: textContent,
           isFree,
-          status: "published",
+          priceCents: isFree ? null : priceCents,
+          minTierId: isFree ? null : minTierId,
+          status: scheduledAt ? "scheduled" : "published",
+          scheduledAt,
           programId: programId || null,
         }),
       });
@@ -266,6 +284,37 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
                 />
               </div>
 
+              {/* Membership tier requirement */}
+              {!isFree && (
+                <MinTierField
+                  tiers={tiers}
+                  value={minTierId}
+                  onChange={setMinTierId}
+                  itemLabel="this post"
+                  disabled={isSubmitting}
+                />
+              )}
+
+              {/* One-time purchase price */}
+              {!isFree && (
+                <PurchasePriceField
+                  value={priceCents}
+                  onChange={setPriceCents}
+                  itemLabel="this post"
+                  disabled={isSubmitting}
+                />
+              )}
+
+              {/* Scheduled publishing (media posts schedule after upload) */}
+              {type === "text" && (
+                <ScheduleField
+                  value={scheduledAt}
+                  onChange={setScheduledAt}
+                  itemLabel="this post"
+                  disabled={isSubmitting}
+                />
+              )}
+
               {/* Program selection */}
               {programs.length > 0 && (
                 <div className="space-y-2">
@@ -328,7 +377,7 @@ export function CreateContentClient({ programs }: CreateContentClientProps) {
                   {isSubmitting ? (
                     <Loader2 className="mr-2 size-4 animate-spin" />
                   ) : null}
-                  Publish
+                  {scheduledAt ? "Schedule" : "Publish"}
                 </Button>
               </>
             ) : (
@@ -49,6 +49,13 @@ export default async function CreateContentPage() {
     orderBy: { title: "asc" },
   });
 
+  // Fetch membership tiers for tier-gated content
+  const tiers = await prisma.membershipTier.findMany({
+    where: { creatorId: user.creatorProfile.id },
+    select: { id: true, name: true },
+    orderBy: { rank: "asc" },
+  });
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -73,7 +80,7 @@ export default async function CreateContentPage() {
           </p>
         </div>
 
-        <CreateContentClient programs={programs} />
+        <CreateContentClient programs={programs} tiers={tiers} />
       </main>
     </div>
   );
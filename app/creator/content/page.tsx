@@ -60,6 +60,16 @@ export default async function CreatorContentPage() {
     },
   });
 
+  // Fetch upcoming scheduled releases for the calendar view
+  const scheduledContent = await prisma.content.findMany({
+    where: {
+      creatorId: user.creatorProfile.id,
+      status: "scheduled",
+    },
+    orderBy: { scheduledAt: "asc" },
+    select: { id: true, type: true, title: true, scheduledAt: true },
+  });
+
   // Get content counts by type
   const contentCounts = await prisma.content.groupBy({
     by: ["type"],
@@ -146,14 +156,24 @@ export default async function CreatorContentPage() {
           type: item.type,
           title: item.title,
           description: item.description,
+          mediaUrl: item.mediaUrl,
+          mediaStatus: item.mediaStatus,
+          mediaProgress: item.mediaProgress,
+          mediaError: item.mediaError,
           thumbnailUrl: item.thumbnailUrl,
           duration: item.duration,
           isFree: item.isFree,
           status: item.status,
           program: item.program,
           publishedAt: item.publishedAt?.toISOString() || null,
+          scheduledAt: item.scheduledAt?.toISOString() || null,
           createdAt: item.createdAt.toISOString(),
         }))}
+        scheduledReleases={scheduledContent.flatMap((item) =>
+          item.scheduledAt
+            ? [{ ...item, scheduledAt: item.scheduledAt.toISOString() }]
+            : [],
+        )}
         programs={programs}
         hasMore={initialContent.length === 20}
       />
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { ContentType } from "@/lib/validations/content";
+
+/**
+ * Scheduled content shown on the calendar
+ */
+export interface ScheduledRelease {
+  id: string;
+  type: ContentType;
+  title: string;
+  scheduledAt: string;
+}
+
+interface ReleaseCalendarProps {
+  releases: ScheduledRelease[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * ReleaseCalendar Component
+ *
+ * Month grid of upcoming scheduled releases in the creator's local time.
+ * Opens on the month of the next release.
+ */
+export function ReleaseCalendar({ releases }: ReleaseCalendarProps) {
+  const [month, setMonth] = useState(() =>
+    startOfMonth(
+      releases.length > 0 ? new Date(releases[0].scheduledAt) : new Date(),
+    ),
+  );
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  });
+
+  const releasesOn = (day: Date) =>
+    releases.filter((release) =>
+      isSameDay(new Date(release.scheduledAt), day),
+    );
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      {/* Month navigation */}
+      <div className="mb-4 flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setMonth(addMonths(month, -1))}
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="size-4" />
+        </Button>
+        <h2 className="font-medium">{format(month, "MMMM yyyy")}</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setMonth(addMonths(month, 1))}
+          aria-label="Next month"
+        >
+          <ChevronRight className="size-4" />
+        </Button>
+      </div>
+
+      {/* Weekday headings */}
+      <div className="grid grid-cols-7 gap-px text-center text-xs text-muted-foreground">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="pb-2">
+            {weekday}
+          </div>
+        ))}
+      </div>
+
+      {/* Days */}
+      <div className="grid grid-cols-7 gap-px overflow-hidden rounded-md border border-border bg-border">
+        {days.map((day) => {
+          const dayReleases = releasesOn(day);
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "min-h-20 bg-card p-1.5",
+                !isSameMonth(day, month) && "bg-muted/50 text-muted-foreground",
+              )}
+            >
+              <div
+                className={cn(
+                  "mb-1 flex size-6 items-center justify-center rounded-full text-xs",
+                  isToday(day) && "bg-primary text-primary-foreground",
+                )}
+              >
+                {format(day, "d")}
+              </div>
+              <div className="space-y-1">
+                {dayReleases.map((release) => (
+                  <Link
+                    key={release.id}
+                    href={`/creator/content/${release.id}/edit`}
+                    className="block truncate rounded bg-primary/10 px-1.5 py-0.5 text-xs text-primary hover:bg-primary/20"
+                    title={`${release.title} · ${format(new Date(release.scheduledAt), "p")}`}
+                  >
+                    {format(new Date(release.scheduledAt), "p")} {release.title}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {releases.length === 0 && (
+        <p className="mt-4 text-center text-sm text-muted-foreground">
+          Nothing scheduled yet. Schedule a post from its editor to see it
+          here.
+        </p>
+      )}
+    </div>
+  );
+}
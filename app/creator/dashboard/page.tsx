@@ -26,7 +26,7 @@ import {
   FileText,
 } from "lucide-react";
 import { StripeDashboardButton } from "./stripe-dashboard-button";
-import { priceTierToAmount } from "@/lib/validations/creator";
+import { formatPriceCents, getMonthlyPriceCents } from "@/lib/pricing";
 
 /**
  * Creator Dashboard Page
@@ -57,8 +57,10 @@ export default async function CreatorDashboardPage() {
           status: true,
           category: true,
           subscriptionPrice: true,
+          customPriceCents: true,
           stripeAccountId: true,
           stripeOnboardingComplete: true,
+          suspensionReason: true,
         },
       },
     },
@@ -148,8 +150,9 @@ export default async function CreatorDashboardPage() {
   ]);
 
   // Calculate estimated monthly revenue
-  const priceAmount = priceTierToAmount[profile.subscriptionPrice];
-  const estimatedRevenue = subscriberCount * priceAmount;
+  const estimatedRevenue = formatPriceCents(
+    subscriberCount * getMonthlyPriceCents(profile),
+  );
 
   // Determine Stripe banner content
   const getStripeBannerContent = () => {
@@ -197,6 +200,29 @@ export default async function CreatorDashboardPage() {
         </p>
       </div>
 
+      {/* Suspension Banner */}
+      {profile.status === "suspended" && (
+        <Card className="border-destructive/30 bg-destructive/5">
+          <CardHeader className="pb-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="size-5 text-destructive" />
+              <CardTitle className="text-base text-destructive">
+                Your account is suspended
+              </CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm leading-relaxed text-muted-foreground">
+              Your profile and content are hidden and subscriber billing is
+              paused.
+              {profile.suspensionReason &&
+                ` Reason: ${profile.suspensionReason}.`}{" "}
+              If you believe this was a mistake, please contact support.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stripe Setup Banner */}
       {stripeBanner && (
         <Card className="border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/30">
@@ -237,7 +263,7 @@ export default async function CreatorDashboardPage() {
         />
         <StatCard
           label="Est. Monthly Revenue"
-          value={`$${estimatedRevenue}`}
+          value={estimatedRevenue}
           icon={<DollarSign className="size-5" />}
         />
         <StatCard
@@ -4,17 +4,26 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Send, AlertCircle } from "lucide-react";
+import { Loader2, Send, Lock, AlertCircle } from "lucide-react";
 import {
   MAX_MESSAGE_LENGTH,
   getMessageCharacterInfo,
   formatMessageTime,
 } from "@/lib/validations/message";
 import { cn } from "@/lib/utils";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
+import {
+  MessageAttachment,
+  MessageAttachmentPicker,
+  type PendingAttachment,
+} from "@/components/messages";
+import { ReportButton } from "@/components/content/report-button";
+import type { MessageAttachmentInfo } from "@/lib/message-attachments";
 
 interface MessageItem {
   id: string;
   content: string;
+  attachment: MessageAttachmentInfo | null;
   isRead: boolean;
   createdAt: string;
   isFromMe: boolean;
@@ -39,6 +48,7 @@ interface CreatorConversationThreadClientProps {
   initialHasMore: boolean;
   partner: Partner;
   canSendMessage: boolean;
+  dmDisabledReason: string | null;
 }
 
 /**
@@ -46,8 +56,10 @@ interface CreatorConversationThreadClientProps {
  *
  * Client component for the creator's 1:1 conversation thread with:
  * - Message history display (oldest first)
- * - Compose message form at bottom
+ * - Compose message form at bottom, with photo, audio and voice note
+ *   attachments
  * - Optimistic updates for sent messages
+ * - Live incoming messages and read receipts
  * - Auto-scroll to newest messages
  */
 export function CreatorConversationThreadClient({
@@ -55,6 +67,7 @@ export function CreatorConversationThreadClient({
   initialHasMore,
   partner,
   canSendMessage,
+  dmDisabledReason,
 }: CreatorConversationThreadClientProps) {
   const [messages, setMessages] = useState<MessageItem[]>(initialMessages);
   const [hasMore, setHasMore] = useState(initialHasMore);
@@ -64,6 +77,10 @@ export function CreatorConversationThreadClient({
   const [messageContent, setMessageContent] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
+  const [attachment, setAttachment] = useState<PendingAttachment | null>(
+    null,
+  );
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -71,9 +88,10 @@ export function CreatorConversationThreadClient({
   const charInfo = getMessageCharacterInfo(messageContent);
   const canSend =
     canSendMessage &&
-    messageContent.trim().length > 0 &&
+    (messageContent.trim().length > 0 || !!attachment) &&
     !charInfo.isOverLimit &&
-    !isSending;
+    !isSending &&
+    !isUploadingAttachment;
 
   // Scroll to bottom on initial load and when new messages are added
   useEffect(() => {
@@ -110,6 +128,96 @@ export function CreatorConversationThreadClient({
     }
   }, [messages, hasMore, isLoadingMore, partner.id]);
 
+  /**
+   * Append messages that aren't already in the thread
+   */
+  const appendMessages = useCallback((items: MessageItem[]) => {
+    setMessages((prev) => {
+      const knownIds = new Set(prev.map((msg) => msg.id));
+      const newItems = items.filter((msg) => !knownIds.has(msg.id));
+      return newItems.length > 0 ? [...prev, ...newItems] : prev;
+    });
+  }, []);
+
+  /**
+   * Mark messages from the partner as read while the thread is open
+   */
+  const markAsRead = useCallback(async (messageIds: string[]) => {
+    try {
+      await fetch("/api/messages", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageIds }),
+      });
+    } catch (err) {
+      console.error("Error marking messages as read:", err);
+    }
+  }, []);
+
+  /**
+   * Fetch messages sent after the newest one in the thread, to catch up
+   * after the realtime stream reconnects
+   */
+  const fetchNewerMessages = useCallback(async () => {
+    const newestMessage = messages.findLast(
+      (msg) => !msg.id.startsWith("temp-"),
+    );
+
+    try {
+      const params = new URLSearchParams();
+      if (newestMessage) {
+        params.set("cursor", newestMessage.id);
+      }
+
+      const response = await fetch(
+        `/api/messages/conversation/${partner.id}?${params}`,
+      );
+      if (!response.ok) throw new Error("Failed to fetch messages");
+
+      const data = await response.json();
+      appendMessages(data.items);
+    } catch (err) {
+      console.error("Error fetching new messages:", err);
+    }
+  }, [messages, partner.id, appendMessages]);
+
+  // Show the partner's messages and read receipts as they arrive
+  useRealtimeEvents((event) => {
+    if (event.type === "message.new") {
+      const { message } = event;
+      if (message.isBroadcast || message.sender.id !== partner.id) return;
+
+      appendMessages([
+        {
+          id: message.id,
+          content: message.content,
+          attachment: message.attachment,
+          isRead: true,
+          createdAt: message.createdAt,
+          isFromMe: false,
+          sender: {
+            id: message.sender.id,
+            name: message.sender.name,
+            avatarUrl: message.sender.avatarUrl,
+            handle: message.sender.handle,
+          },
+        },
+      ]);
+      markAsRead([message.id]);
+    } else if (event.type === "message.read") {
+      if (event.readerId !== partner.id) return;
+
+      const readIds = new Set(event.messageIds);
+      setMessages((prev) =>
+        prev.map((msg) =>
+          readIds.has(msg.id) ? { ...msg, isRead: true } : msg,
+        ),
+      );
+    } else if (event.type === "reconnected") {
+      fetchNewerMessages();
+    }
+  });
+
   /**
    * Send a new message
    */
@@ -123,6 +231,9 @@ export function CreatorConversationThreadClient({
     const optimisticMessage: MessageItem = {
       id: tempId,
       content,
+      attachment: attachment
+        ? { type: attachment.type, duration: attachment.duration ?? null }
+        : null,
       isRead: false,
       createdAt: new Date().toISOString(),
       isFromMe: true,
@@ -149,6 +260,13 @@ export function CreatorConversationThreadClient({
         body: JSON.stringify({
           receiverId: partner.id,
           content,
+          attachment: attachment
+            ? {
+                type: attachment.type,
+                key: attachment.key,
+                duration: attachment.duration,
+              }
+            : undefined,
         }),
       });
 
@@ -158,6 +276,8 @@ export function CreatorConversationThreadClient({
         throw new Error(data.error || "Failed to send message");
       }
 
+      setAttachment(null);
+
       // Replace optimistic message with real one
       setMessages((prev) =>
         prev.map((msg) =>
@@ -285,6 +405,14 @@ export function CreatorConversationThreadClient({
 
       {/* Compose Area */}
       <div className="border-t border-border bg-card/50 py-4">
+        {/* DM Disabled Warning */}
+        {!canSendMessage && dmDisabledReason && (
+          <div className="mb-3 flex items-center gap-2 rounded-lg border border-muted bg-muted/50 px-4 py-3">
+            <Lock className="size-4 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">{dmDisabledReason}</p>
+          </div>
+        )}
+
         {/* Send Error */}
         {sendError && (
           <div className="mb-3 flex items-center gap-2 rounded-lg border border-destructive bg-destructive/10 px-4 py-3">
@@ -296,6 +424,12 @@ export function CreatorConversationThreadClient({
         {/* Message Input */}
         {canSendMessage && (
           <div className="space-y-2">
+            <MessageAttachmentPicker
+              attachment={attachment}
+              onAttachmentChange={setAttachment}
+              onUploadingChange={setIsUploadingAttachment}
+              disabled={isSending}
+            />
             <div className="flex gap-3">
               <Textarea
                 ref={textareaRef}
@@ -389,27 +523,44 @@ function MessageBubble({
               : "rounded-bl-md border border-border bg-card",
           )}
         >
+          {/* Attachment - voice note, audio or photo */}
+          {message.attachment && (
+            <MessageAttachment
+              messageId={message.id}
+              attachment={message.attachment}
+              isFromMe={isFromMe}
+              className={cn(message.content && "mb-2")}
+            />
+          )}
+
           {/* Message Content - rendered as HTML since sanitized */}
-          <div
-            className={cn(
-              "max-w-none text-sm [&_a]:underline [&_p]:mb-1 [&_p:last-child]:mb-0",
-              isFromMe
-                ? "[&_a]:text-primary-foreground/90 [&_a:hover]:text-primary-foreground"
-                : "[&_a]:text-primary [&_a:hover]:text-primary/80",
-            )}
-            dangerouslySetInnerHTML={{ __html: message.content }}
-          />
+          {message.content && (
+            <div
+              className={cn(
+                "max-w-none text-sm [&_a]:underline [&_p]:mb-1 [&_p:last-child]:mb-0",
+                isFromMe
+                  ? "[&_a]:text-primary-foreground/90 [&_a:hover]:text-primary-foreground"
+                  : "[&_a]:text-primary [&_a:hover]:text-primary/80",
+              )}
+              dangerouslySetInnerHTML={{ __html: message.content }}
+            />
+          )}
         </div>
 
         {/* Timestamp */}
-        <p
+        <div
           className={cn(
-            "px-1 text-xs text-muted-foreground",
-            isFromMe ? "text-right" : "text-left",
+            "flex items-center gap-1 px-1",
+            isFromMe ? "justify-end" : "justify-start",
           )}
         >
-          {formatMessageTime(new Date(message.createdAt))}
-        </p>
+          <p className="text-xs text-muted-foreground">
+            {formatMessageTime(new Date(message.createdAt))}
+            {isFromMe && message.isRead && " · Read"}
+          </p>
+          {/* Received messages can be reported to moderators */}
+          {!isFromMe && <ReportButton messageId={message.id} />}
+        </div>
       </div>
 
       {/* Spacer for my messages (to align with avatar on partner side) */}
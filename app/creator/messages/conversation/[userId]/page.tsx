@@ -5,8 +5,16 @@ import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 
 import { prisma } from "@/lib/prisma";
+import { toMessageAttachmentInfo } from "@/lib/message-attachments";
+import { publishToUser } from "@/lib/realtime";
+import {
+  getBlockStatus,
+  getBlockedReason,
+  isConversationMuted,
+} from "@/lib/message-safety";
 import { SkipLink } from "@/components/ui/skip-link";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ConversationMenu } from "@/components/messages";
 import { Badge } from "@/components/ui/badge";
 import { CreatorConversationThreadClient } from "./conversation-thread-client";
 
@@ -128,19 +136,34 @@ export default async function CreatorConversationPage({ params }: PageProps) {
       },
       data: { isRead: true },
     });
+
+    // Show the read receipt in the sender's open thread
+    await publishToUser(partnerUserId, {
+      type: "message.read",
+      readerId: dbUser.id,
+      messageIds: unreadMessageIds,
+    });
   }
 
   const hasMore = messages.length > limit;
   const items = hasMore ? messages.slice(0, limit) : messages;
 
-  // Creators can always reply to subscribers who have messaged them
-  const canSendMessage = true;
+  const [blockStatus, isMuted] = await Promise.all([
+    getBlockStatus(dbUser.id, partner.id),
+    isConversationMuted(dbUser.id, partner.id),
+  ]);
+
+  // Creators can always reply to subscribers who have messaged them, unless
+  // either has blocked the other
+  const dmDisabledReason = getBlockedReason(blockStatus);
+  const canSendMessage = !dmDisabledReason;
 
   // Format messages for client
   const formattedMessages = items.map((message) => ({
     id: message.id,
     content: message.content,
-    isRead: true, // Already marked as read
+    attachment: toMessageAttachmentInfo(message),
+    isRead: message.isRead || unreadMessageIds.includes(message.id),
     createdAt: message.createdAt.toISOString(),
     isFromMe: message.senderId === dbUser.id,
     sender: {
@@ -205,6 +228,13 @@ export default async function CreatorConversationPage({ params }: PageProps) {
                   </Badge>
                 </div>
               </div>
+
+              <ConversationMenu
+                partnerId={partnerInfo.id}
+                partnerName={partnerInfo.name}
+                isBlocked={blockStatus.blockedByMe}
+                isMuted={isMuted}
+              />
             </div>
           </div>
         </header>
@@ -220,6 +250,7 @@ export default async function CreatorConversationPage({ params }: PageProps) {
               initialHasMore={hasMore}
               partner={partnerInfo}
               canSendMessage={canSendMessage}
+              dmDisabledReason={dmDisabledReason}
             />
           </div>
         </main>
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Check, Loader2, MailQuestionMark, X } from "lucide-react";
+import {
+  formatMessageTime,
+  type MessageRequestResponse,
+} from "@/lib/validations/message";
+import type { MessageRequestItem } from "@/lib/dm-policy";
+import { formatPriceCents } from "@/lib/pricing";
+
+interface MessageRequestsProps {
+  initialRequests: MessageRequestItem[];
+  initialHasMore: boolean;
+  /** Called after the creator accepts or declines a request */
+  onRespond: (action: MessageRequestResponse["action"]) => void;
+}
+
+/**
+ * Message Requests Component
+ *
+ * The creator's inbox of pending first contacts from users their DM
+ * settings don't let message them directly. Accepting a request starts a
+ * conversation with its sender; declining stops them sending more.
+ */
+export function MessageRequests({
+  initialRequests,
+  initialHasMore,
+  onRespond,
+}: MessageRequestsProps) {
+  const [requests, setRequests] =
+    useState<MessageRequestItem[]>(initialRequests);
+  const [hasMore, setHasMore] = useState(initialHasMore);
+  const [isLoading, setIsLoading] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch more requests
+   */
+  const fetchMoreRequests = useCallback(async () => {
+    if (isLoading || !hasMore || requests.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      params.set("cursor", requests[requests.length - 1].id);
+
+      const response = await fetch(`/api/creator/message-requests?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch message requests");
+
+      const data = await response.json();
+
+      setRequests((prev) => [...prev, ...data.items]);
+      setHasMore(!!data.nextCursor);
+    } catch (err) {
+      console.error("Error fetching message requests:", err);
+      setError("Failed to load message requests. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [requests, hasMore, isLoading]);
+
+  /**
+   * Accept or decline a request
+   */
+  const handleRespond = async (
+    requestId: string,
+    action: MessageRequestResponse["action"],
+  ) => {
+    setRespondingId(requestId);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/creator/message-requests/${requestId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        },
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to respond to request");
+      }
+
+      setRequests((prev) => prev.filter((r) => r.id !== requestId));
+      onRespond(action);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to respond to request",
+      );
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="mb-4 text-lg font-medium">Message Requests</h2>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card py-16 text-center">
+          <MailQuestionMark className="mx-auto size-12 text-muted-foreground/50" />
+          <p className="mt-4 text-muted-foreground">No message requests.</p>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Requests appear here when your DM settings let people ask to
+            message you.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <MessageRequestCard
+              key={request.id}
+              request={request}
+              isResponding={respondingId === request.id}
+              disabled={respondingId !== null}
+              onRespond={(action) => handleRespond(request.id, action)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Load More */}
+      {hasMore && (
+        <div className="mt-4 flex justify-center">
+          <Button
+            variant="outline"
+            onClick={fetchMoreRequests}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              "Load more"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Message Request Card Component
+ */
+function MessageRequestCard({
+  request,
+  isResponding,
+  disabled,
+  onRespond,
+}: {
+  request: MessageRequestItem;
+  isResponding: boolean;
+  disabled: boolean;
+  onRespond: (action: MessageRequestResponse["action"]) => void;
+}) {
+  const initials = request.sender.name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+
+  return (
+    <div className="flex gap-4 rounded-lg border border-border bg-card p-4">
+      {/* Avatar */}
+      <Avatar className="size-12 shrink-0 border-2 border-border">
+        {request.sender.avatarUrl ? (
+          <AvatarImage
+            src={request.sender.avatarUrl}
+            alt={request.sender.name}
+          />
+        ) : null}
+        <AvatarFallback>{initials}</AvatarFallback>
+      </Avatar>
+
+      {/* Content */}
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold text-foreground">{request.sender.name}</p>
+
+        {/* Request Content - rendered as HTML since sanitized */}
+        <div
+          className="mt-2 max-w-none text-sm [&_a]:text-primary [&_a]:underline [&_p]:mb-1 [&_p:last-child]:mb-0"
+          dangerouslySetInnerHTML={{ __html: request.content }}
+        />
+
+        <p className="mt-1 text-xs text-muted-foreground">
+          {formatMessageTime(new Date(request.createdAt))}
+          {request.amount !== null &&
+            ` · Paid ${formatPriceCents(request.amount)}, refunded if declined`}
+        </p>
+
+        <div className="mt-3 flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => onRespond("accept")}
+            disabled={disabled}
+            className="min-h-[44px]"
+          >
+            {isResponding ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Check className="mr-2 size-4" aria-hidden="true" />
+            )}
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onRespond("decline")}
+            disabled={disabled}
+            className="min-h-[44px]"
+          >
+            <X className="mr-2 size-4" aria-hidden="true" />
+            Decline
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
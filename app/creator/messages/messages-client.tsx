@@ -4,6 +4,15 @@ import { useState, useCallback, useEffect } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -25,23 +34,46 @@ import {
   AlertCircle,
   MessageCircle,
   Radio,
+  CalendarClock,
+  Eye,
+  MailQuestionMark,
 } from "lucide-react";
 import {
+  DEFAULT_MIN_SUBSCRIBED_DAYS,
   MAX_MESSAGE_LENGTH,
+  broadcastAudiences,
+  getAttachmentLabel,
+  getBroadcastAudienceLabel,
   getMessageCharacterInfo,
   formatMessageTime,
   truncateMessage,
+  type BroadcastAudience,
+  type MessageRequestResponse,
 } from "@/lib/validations/message";
+import { getScheduleError } from "@/lib/validations/content";
 import { stripHtml } from "@/lib/sanitize";
 import { cn } from "@/lib/utils";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
+import {
+  MessageAttachment,
+  MessageAttachmentPicker,
+  type PendingAttachment,
+} from "@/components/messages";
+import { ScheduleField } from "@/components/content/schedule-field";
+import { MessageRequests } from "./message-requests";
+import type { BroadcastItem } from "@/lib/broadcasts";
+import type { MessageRequestItem } from "@/lib/dm-policy";
+import type { MessageAttachmentInfo } from "@/lib/message-attachments";
+import type { RealtimeMessage } from "@/lib/realtime";
 import type { CreatorStatus } from "@prisma/client";
 
-interface BroadcastItem {
-  id: string;
-  content: string;
-  createdAt: string;
-  recipientCount: number;
-}
+const audienceItems = broadcastAudiences.map((audience) => ({
+  value: audience,
+  label:
+    audience === "long_term_subscribers"
+      ? "Long-term subscribers"
+      : getBroadcastAudienceLabel(audience),
+}));
 
 interface ConversationItem {
   partnerId: string;
@@ -55,12 +87,15 @@ interface ConversationItem {
   lastMessage: {
     id: string;
     content: string;
+    attachment: MessageAttachmentInfo | null;
     createdAt: string;
     isFromMe: boolean;
   };
   unreadCount: number;
 }
 
+export type MessagesTab = "broadcasts" | "conversations" | "requests";
+
 interface MessagesClientProps {
   initialBroadcasts: BroadcastItem[];
   initialHasMore: boolean;
@@ -69,17 +104,25 @@ interface MessagesClientProps {
   dmEnabled: boolean;
   initialConversations: ConversationItem[];
   initialDmUnreadCount: number;
+  initialRequests: MessageRequestItem[];
+  initialRequestsHasMore: boolean;
+  initialRequestCount: number;
+  /** Tab to open on, e.g. from a message request notification */
+  initialTab: MessagesTab;
 }
 
 /**
  * Creator Messages Client Component
  *
  * Client component for the creator message center with:
- * - Tabs for Broadcasts and Conversations
- * - Sent broadcasts list with timestamps
+ * - Tabs for Broadcasts, Conversations and message Requests
+ * - Broadcasts list with scheduled sends and open rates
  * - DM conversations with subscribers
- * - New Broadcast modal with compose form
+ * - Pending message requests to accept or decline
+ * - New Broadcast modal with compose form, optional attachment, audience
+ *   segment and scheduling
  * - Character limit display
+ * - Live updates for new direct messages
  */
 export function MessagesClient({
   initialBroadcasts,
@@ -89,6 +132,10 @@ export function MessagesClient({
   dmEnabled,
   initialConversations,
   initialDmUnreadCount,
+  initialRequests,
+  initialRequestsHasMore,
+  initialRequestCount,
+  initialTab,
 }: MessagesClientProps) {
   const [broadcasts, setBroadcasts] =
     useState<BroadcastItem[]>(initialBroadcasts);
@@ -98,8 +145,10 @@ export function MessagesClient({
       ? initialBroadcasts[initialBroadcasts.length - 1].id
       : null,
   );
-  const [conversations] = useState<ConversationItem[]>(initialConversations);
-  const [dmUnreadCount] = useState(initialDmUnreadCount);
+  const [conversations, setConversations] =
+    useState<ConversationItem[]>(initialConversations);
+  const [dmUnreadCount, setDmUnreadCount] = useState(initialDmUnreadCount);
+  const [requestCount, setRequestCount] = useState(initialRequestCount);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -109,14 +158,73 @@ export function MessagesClient({
   const [isSending, setIsSending] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
   const [sendSuccess, setSendSuccess] = useState(false);
+  const [attachment, setAttachment] = useState<PendingAttachment | null>(
+    null,
+  );
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
+  const [audience, setAudience] = useState<BroadcastAudience>("subscribers");
+  const [minSubscribedDays, setMinSubscribedDays] = useState(
+    String(DEFAULT_MIN_SUBSCRIBED_DAYS),
+  );
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
+  const [audienceCount, setAudienceCount] = useState<number | null>(null);
 
   const charInfo = getMessageCharacterInfo(messageContent);
+  const parsedMinDays = Number(minSubscribedDays);
+  const isMinDaysValid =
+    audience !== "long_term_subscribers" ||
+    (Number.isInteger(parsedMinDays) &&
+      parsedMinDays >= 1 &&
+      parsedMinDays <= 3650);
+  // Immediate sends need someone to send to; scheduled ones a valid time
+  const canSendToAudience =
+    scheduledAt !== null
+      ? getScheduleError(new Date(scheduledAt)) === null
+      : audienceCount !== null && audienceCount > 0;
   const canSend =
-    messageContent.trim().length > 0 &&
+    (messageContent.trim().length > 0 || !!attachment) &&
     !charInfo.isOverLimit &&
-    subscriberCount > 0 &&
+    !isUploadingAttachment &&
+    isMinDaysValid &&
+    canSendToAudience &&
     creatorStatus === "active";
 
+  /**
+   * Show how many people the chosen audience reaches
+   */
+  useEffect(() => {
+    if (!isComposeOpen || !isMinDaysValid) return;
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ audience });
+    if (audience === "long_term_subscribers") {
+      params.set("minSubscribedDays", minSubscribedDays);
+    }
+
+    fetch(`/api/messages/broadcast/audience?${params}`, {
+      signal: controller.signal,
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to count audience");
+        return response.json();
+      })
+      .then((data) => setAudienceCount(data.count))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Error counting broadcast audience:", err);
+        setAudienceCount(null);
+      });
+
+    return () => controller.abort();
+  }, [isComposeOpen, audience, minSubscribedDays, isMinDaysValid]);
+
+  /**
+   * Remove a scheduled broadcast that was canceled
+   */
+  const removeBroadcast = useCallback((broadcastId: string) => {
+    setBroadcasts((prev) => prev.filter((b) => b.id !== broadcastId));
+  }, []);
+
   /**
    * Fetch more broadcasts
    */
@@ -146,6 +254,75 @@ export function MessagesClient({
     }
   }, [cursor, hasMore, isLoading]);
 
+  /**
+   * Move a conversation to the top when a direct message arrives
+   */
+  const addDirectMessage = useCallback((message: RealtimeMessage) => {
+    setConversations((prev) => {
+      const existing = prev.find(
+        (conv) => conv.partnerId === message.sender.id,
+      );
+      const updated: ConversationItem = {
+        partnerId: message.sender.id,
+        partner: existing?.partner ?? message.sender,
+        lastMessage: {
+          id: message.id,
+          content: message.content,
+          attachment: message.attachment,
+          createdAt: message.createdAt,
+          isFromMe: false,
+        },
+        unreadCount: (existing?.unreadCount ?? 0) + 1,
+      };
+
+      return [
+        updated,
+        ...prev.filter((conv) => conv.partnerId !== message.sender.id),
+      ];
+    });
+    setDmUnreadCount((prev) => prev + 1);
+  }, []);
+
+  /**
+   * Refetch conversations, to catch up after the realtime stream
+   * reconnects
+   */
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/messages/conversations");
+      if (!response.ok) throw new Error("Failed to fetch conversations");
+
+      const data = await response.json();
+
+      setConversations(data.items);
+      setDmUnreadCount(data.totalUnreadCount);
+    } catch (err) {
+      console.error("Error fetching conversations:", err);
+    }
+  }, []);
+
+  /**
+   * Update the inbox after a message request is answered; accepted
+   * requests start a conversation
+   */
+  const handleRequestResponse = useCallback(
+    (action: MessageRequestResponse["action"]) => {
+      setRequestCount((prev) => Math.max(0, prev - 1));
+      if (action === "accept") {
+        fetchConversations();
+      }
+    },
+    [fetchConversations],
+  );
+
+  useRealtimeEvents((event) => {
+    if (event.type === "message.new" && !event.message.isBroadcast) {
+      addDirectMessage(event.message);
+    } else if (event.type === "reconnected") {
+      fetchConversations();
+    }
+  });
+
   /**
    * Send broadcast message
    */
@@ -160,7 +337,20 @@ export function MessagesClient({
       const response = await fetch("/api/messages/broadcast", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: messageContent }),
+        body: JSON.stringify({
+          content: messageContent,
+          attachment: attachment
+            ? {
+                type: attachment.type,
+                key: attachment.key,
+                duration: attachment.duration,
+              }
+            : undefined,
+          audience,
+          minSubscribedDays:
+            audience === "long_term_subscribers" ? parsedMinDays : undefined,
+          scheduledAt: scheduledAt ?? undefined,
+        }),
       });
 
       const data = await response.json();
@@ -171,19 +361,12 @@ export function MessagesClient({
 
       // Success - add to list and reset form
       setSendSuccess(true);
-      setBroadcasts((prev) => [
-        {
-          id: `temp-${Date.now()}`,
-          content: messageContent,
-          createdAt: new Date().toISOString(),
-          recipientCount: data.recipientCount,
-        },
-        ...prev,
-      ]);
+      setBroadcasts((prev) => [data.broadcast, ...prev]);
 
       // Reset form after short delay to show success state
       setTimeout(() => {
         setMessageContent("");
+        setAttachment(null);
         setSendSuccess(false);
         setIsComposeOpen(false);
       }, 1500);
@@ -203,6 +386,11 @@ export function MessagesClient({
   useEffect(() => {
     if (isComposeOpen) {
       setMessageContent("");
+      setAttachment(null);
+      setAudience("subscribers");
+      setMinSubscribedDays(String(DEFAULT_MIN_SUBSCRIBED_DAYS));
+      setScheduledAt(null);
+      setAudienceCount(null);
       setSendError(null);
       setSendSuccess(false);
     }
@@ -227,7 +415,7 @@ export function MessagesClient({
           <DialogTrigger
             render={
               <Button
-                disabled={!isCreatorActive || subscriberCount === 0}
+                disabled={!isCreatorActive}
                 className="min-h-[44px]"
               />
             }
@@ -239,12 +427,73 @@ export function MessagesClient({
             <DialogHeader>
               <DialogTitle>Send Broadcast Message</DialogTitle>
               <DialogDescription>
-                This message will be sent to all {subscriberCount} of your
-                active subscribers.
+                Choose who receives this message, and send it now or schedule
+                it for later.
               </DialogDescription>
             </DialogHeader>
 
             <div className="space-y-4 py-4">
+              {/* Audience */}
+              <div className="space-y-2">
+                <Label htmlFor="broadcast-audience">Send to</Label>
+                <Select
+                  items={audienceItems}
+                  value={audience}
+                  onValueChange={(v) => {
+                    if (v) setAudience(v as BroadcastAudience);
+                  }}
+                  disabled={isSending || sendSuccess}
+                >
+                  <SelectTrigger
+                    id="broadcast-audience"
+                    className="min-h-[44px] w-full"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {audienceItems.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {audience === "long_term_subscribers" && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Label
+                      htmlFor="min-subscribed-days"
+                      className="font-normal"
+                    >
+                      Subscribed for at least
+                    </Label>
+                    <Input
+                      id="min-subscribed-days"
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      max={3650}
+                      value={minSubscribedDays}
+                      onChange={(e) => setMinSubscribedDays(e.target.value)}
+                      disabled={isSending || sendSuccess}
+                      className="w-24"
+                      aria-invalid={!isMinDaysValid}
+                    />
+                    <span>days</span>
+                  </div>
+                )}
+
+                <p className="text-sm text-muted-foreground" role="status">
+                  {!isMinDaysValid
+                    ? "Enter a number of days between 1 and 3650"
+                    : audienceCount === null
+                      ? "Counting recipients..."
+                      : `Currently reaches ${audienceCount.toLocaleString()} ${
+                          audienceCount === 1 ? "person" : "people"
+                        }`}
+                </p>
+              </div>
+
               {/* Message Input */}
               <div className="space-y-2">
                 <Textarea
@@ -257,6 +506,13 @@ export function MessagesClient({
                   aria-label="Broadcast message content"
                 />
 
+                <MessageAttachmentPicker
+                  attachment={attachment}
+                  onAttachmentChange={setAttachment}
+                  onUploadingChange={setIsUploadingAttachment}
+                  disabled={isSending || sendSuccess}
+                />
+
                 {/* Character Count */}
                 <div className="flex items-center justify-between text-sm">
                   <span
@@ -277,6 +533,16 @@ export function MessagesClient({
                 </div>
               </div>
 
+              {/* Scheduling */}
+              <ScheduleField
+                value={scheduledAt}
+                onChange={setScheduledAt}
+                itemLabel="this broadcast"
+                description="Send this broadcast automatically at a set time"
+                dateLabel="Send on"
+                disabled={isSending || sendSuccess}
+              />
+
               {/* Send Error */}
               {sendError && (
                 <div className="flex items-start gap-2 rounded-lg border border-destructive bg-destructive/10 p-3">
@@ -290,7 +556,9 @@ export function MessagesClient({
                 <div className="flex items-center gap-2 rounded-lg border border-green-500/50 bg-green-50 p-3 dark:bg-green-950/20">
                   <CheckCircle className="size-4 text-green-600" />
                   <p className="text-sm text-green-700 dark:text-green-400">
-                    Broadcast sent successfully!
+                    {scheduledAt
+                      ? "Broadcast scheduled successfully!"
+                      : "Broadcast sent successfully!"}
                   </p>
                 </div>
               )}
@@ -310,12 +578,21 @@ export function MessagesClient({
                 ) : sendSuccess ? (
                   <>
                     <CheckCircle className="mr-2 size-4" />
-                    Sent!
+                    {scheduledAt ? "Scheduled!" : "Sent!"}
+                  </>
+                ) : scheduledAt ? (
+                  <>
+                    <CalendarClock className="mr-2 size-4" />
+                    Schedule Broadcast
                   </>
                 ) : (
                   <>
                     <Send className="mr-2 size-4" />
-                    Send to {subscriberCount} subscribers
+                    {audienceCount
+                      ? `Send to ${audienceCount.toLocaleString()} ${
+                          audienceCount === 1 ? "person" : "people"
+                        }`
+                      : "Send Broadcast"}
                   </>
                 )}
               </Button>
@@ -378,9 +655,9 @@ export function MessagesClient({
         </div>
       )}
 
-      {/* Tabs for Broadcasts and Conversations */}
-      <Tabs defaultValue="broadcasts" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+      {/* Tabs for Broadcasts, Conversations and Requests */}
+      <Tabs defaultValue={initialTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="broadcasts" className="min-h-[44px]">
             <Radio className="mr-2 size-4" aria-hidden="true" />
             Broadcasts
@@ -394,11 +671,20 @@ export function MessagesClient({
               </span>
             )}
           </TabsTrigger>
+          <TabsTrigger value="requests" className="relative min-h-[44px]">
+            <MailQuestionMark className="mr-2 size-4" aria-hidden="true" />
+            Requests
+            {requestCount > 0 && (
+              <span className="ml-2 flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1.5 text-xs font-medium text-primary-foreground">
+                {requestCount > 99 ? "99+" : requestCount}
+              </span>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         {/* Broadcasts Tab */}
         <TabsContent value="broadcasts" className="mt-6">
-          <h2 className="mb-4 text-lg font-medium">Sent Broadcasts</h2>
+          <h2 className="mb-4 text-lg font-medium">Broadcasts</h2>
 
           {broadcasts.length === 0 && !isLoading ? (
             <div className="rounded-lg border border-border bg-card py-16 text-center">
@@ -415,7 +701,11 @@ export function MessagesClient({
           ) : (
             <div className="space-y-3">
               {broadcasts.map((broadcast) => (
-                <BroadcastCard key={broadcast.id} broadcast={broadcast} />
+                <BroadcastCard
+                  key={broadcast.id}
+                  broadcast={broadcast}
+                  onCancel={removeBroadcast}
+                />
               ))}
             </div>
           )}
@@ -480,6 +770,15 @@ export function MessagesClient({
             </div>
           )}
         </TabsContent>
+
+        {/* Requests Tab */}
+        <TabsContent value="requests" className="mt-6">
+          <MessageRequests
+            initialRequests={initialRequests}
+            initialHasMore={initialRequestsHasMore}
+            onRespond={handleRequestResponse}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -487,16 +786,66 @@ export function MessagesClient({
 
 /**
  * Broadcast Card Component
+ *
+ * Shows who the broadcast went to and, once sent, how many recipients
+ * opened it. Scheduled broadcasts can be canceled.
  */
-function BroadcastCard({ broadcast }: { broadcast: BroadcastItem }) {
+function BroadcastCard({
+  broadcast,
+  onCancel,
+}: {
+  broadcast: BroadcastItem;
+  onCancel: (broadcastId: string) => void;
+}) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isCanceling, setIsCanceling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
   const isLong = broadcast.content.length > 200;
   const displayContent = isExpanded
     ? broadcast.content
     : truncateMessage(broadcast.content, 200);
+  const readPercent =
+    broadcast.recipientCount > 0
+      ? Math.round((broadcast.readCount / broadcast.recipientCount) * 100)
+      : 0;
+
+  const handleCancel = async () => {
+    setIsCanceling(true);
+    setCancelError(null);
+
+    try {
+      const response = await fetch(
+        `/api/messages/broadcast/${broadcast.id}`,
+        { method: "DELETE" },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel broadcast");
+      }
+
+      onCancel(broadcast.id);
+    } catch (err) {
+      console.error("Error canceling broadcast:", err);
+      setCancelError(
+        err instanceof Error ? err.message : "Failed to cancel broadcast",
+      );
+      setIsCanceling(false);
+    }
+  };
 
   return (
     <div className="rounded-lg border border-border bg-card p-4">
+      {/* Attachment - voice note, audio or photo */}
+      {broadcast.attachment && (
+        <MessageAttachment
+          messageId={broadcast.id}
+          attachment={broadcast.attachment}
+          src={`/api/messages/broadcast/${broadcast.id}/attachment`}
+          className={cn(broadcast.content && "mb-3")}
+        />
+      )}
+
       {/* Message Content - rendered as HTML since it's sanitized with DOMPurify on storage */}
       <div
         className="max-w-none text-sm text-foreground [&_a]:text-primary [&_a]:underline [&_a:hover]:text-primary/80 [&_p]:mb-2 [&_ul]:list-disc [&_ul]:pl-4 [&_ol]:list-decimal [&_ol]:pl-4 [&_li]:mb-1 [&_blockquote]:border-l-2 [&_blockquote]:border-muted-foreground/30 [&_blockquote]:pl-4 [&_blockquote]:italic"
@@ -513,15 +862,64 @@ function BroadcastCard({ broadcast }: { broadcast: BroadcastItem }) {
       )}
 
       <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
-        <Badge variant="secondary">
-          <Users className="mr-1 size-3" />
-          {broadcast.recipientCount}{" "}
-          {broadcast.recipientCount === 1 ? "recipient" : "recipients"}
+        <Badge variant="outline">
+          {getBroadcastAudienceLabel(
+            broadcast.audience,
+            broadcast.minSubscribedDays,
+          )}
         </Badge>
-        <span className="text-muted-foreground">
-          {formatMessageTime(new Date(broadcast.createdAt))}
-        </span>
+
+        {broadcast.status === "scheduled" ? (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <CalendarClock className="size-4" aria-hidden="true" />
+            Scheduled for {new Date(broadcast.scheduledAt).toLocaleString()}
+          </span>
+        ) : (
+          <>
+            <Badge variant="secondary">
+              <Users className="mr-1 size-3" />
+              {broadcast.recipientCount}{" "}
+              {broadcast.recipientCount === 1 ? "recipient" : "recipients"}
+            </Badge>
+            {broadcast.status === "sending" ? (
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Loader2 className="size-3 animate-spin" aria-hidden="true" />
+                Sending...
+              </span>
+            ) : (
+              <>
+                <Badge variant="secondary">
+                  <Eye className="mr-1 size-3" />
+                  {broadcast.readCount} opened ({readPercent}%)
+                </Badge>
+                <span className="text-muted-foreground">
+                  {formatMessageTime(
+                    new Date(broadcast.sentAt ?? broadcast.scheduledAt),
+                  )}
+                </span>
+              </>
+            )}
+          </>
+        )}
       </div>
+
+      {broadcast.status === "scheduled" && (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCancel}
+            disabled={isCanceling}
+            className="min-h-[44px]"
+          >
+            {isCanceling && <Loader2 className="mr-2 size-4 animate-spin" />}
+            Cancel Broadcast
+          </Button>
+          {cancelError && (
+            <p className="text-sm text-destructive">{cancelError}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -542,7 +940,10 @@ function ConversationCard({
     .slice(0, 2);
 
   // Strip HTML from preview
-  const previewText = stripHtml(conversation.lastMessage.content);
+  const { attachment } = conversation.lastMessage;
+  const previewText =
+    stripHtml(conversation.lastMessage.content) ||
+    (attachment ? getAttachmentLabel(attachment.type) : "");
   const truncatedPreview = truncateMessage(previewText, 80);
 
   return (
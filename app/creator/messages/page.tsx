@@ -1,7 +1,22 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
-import { MessagesClient } from "./messages-client";
+import {
+  toMessageAttachmentInfo,
+  type MessageAttachmentInfo,
+} from "@/lib/message-attachments";
+import { toBroadcastItems } from "@/lib/broadcasts";
+import {
+  messageRequestSenderSelect,
+  toMessageRequestItem,
+} from "@/lib/dm-policy";
+import { MessagesClient, type MessagesTab } from "./messages-client";
+
+interface PageProps {
+  searchParams: Promise<{ tab?: string }>;
+}
+
+const TABS: MessagesTab[] = ["broadcasts", "conversations", "requests"];
 
 /**
  * Creator Messages Page
@@ -10,11 +25,14 @@ import { MessagesClient } from "./messages-client";
  * and renders the client component for interactivity.
  *
  * PRD: /creator/messages - Creator message center
- * - Shows sent broadcasts with timestamp
+ * - Shows sent and scheduled broadcasts with delivery stats
  * - Shows DM conversations with subscribers
+ * - Shows pending message requests; ?tab=requests opens them
  * - "New Broadcast" button opens compose modal
  */
-export default async function CreatorMessagesPage() {
+export default async function CreatorMessagesPage({
+  searchParams,
+}: PageProps) {
   const { userId: clerkId } = await auth();
 
   if (!clerkId) {
@@ -40,74 +58,54 @@ export default async function CreatorMessagesPage() {
     redirect("/become-creator");
   }
 
-  const limit = 20;
+  const { tab } = await searchParams;
+  const initialTab = TABS.find((t) => t === tab) ?? "broadcasts";
 
-  // Fetch initial broadcast messages, conversations, and subscriber count in parallel
-  const [messages, conversations, subscriberCount, dmUnreadCount] =
-    await Promise.all([
-      prisma.message.findMany({
-        where: {
-          senderId: user.id,
-          isBroadcast: true,
-        },
-        take: limit + 1,
-        orderBy: { createdAt: "desc" },
-        distinct: ["content"],
-      }),
-      // Fetch DM conversations
-      fetchCreatorConversations(user.id, limit),
-      prisma.subscription.count({
-        where: {
-          creatorId: user.creatorProfile.id,
-          status: { in: ["active", "trialing"] },
-        },
-      }),
-      // DM unread count
-      prisma.message.count({
-        where: {
-          receiverId: user.id,
-          isBroadcast: false,
-          isRead: false,
-        },
-      }),
-    ]);
-
-  // For each unique broadcast, get the recipient count
-  const broadcastsWithCounts = await Promise.all(
-    messages.slice(0, limit).map(async (message) => {
-      const recipientCount = await prisma.message.count({
-        where: {
-          senderId: user.id,
-          isBroadcast: true,
-          content: message.content,
-          createdAt: {
-            gte: new Date(message.createdAt.getTime() - 10000),
-            lte: new Date(message.createdAt.getTime() + 10000),
-          },
-        },
-      });
+  const limit = 20;
 
-      return {
-        id: message.id,
-        content: message.content,
-        createdAt: message.createdAt.toISOString(),
-        recipientCount,
-      };
+  // Fetch initial broadcasts, conversations, requests and counts in parallel
+  const [
+    broadcasts,
+    conversations,
+    subscriberCount,
+    dmUnreadCount,
+    requests,
+    requestCount,
+  ] = await Promise.all([
+    prisma.broadcast.findMany({
+      where: { creatorId: user.creatorProfile.id },
+      take: limit + 1,
+      orderBy: [{ scheduledAt: "desc" }, { id: "desc" }],
     }),
-  );
-
-  // De-duplicate broadcasts by content + timestamp (minute precision)
-  const uniqueBroadcasts = new Map<string, (typeof broadcastsWithCounts)[0]>();
-  for (const broadcast of broadcastsWithCounts) {
-    const timestamp = new Date(broadcast.createdAt);
-    const key = `${broadcast.content}-${timestamp.getFullYear()}-${timestamp.getMonth()}-${timestamp.getDate()}-${timestamp.getHours()}-${timestamp.getMinutes()}`;
-    if (!uniqueBroadcasts.has(key)) {
-      uniqueBroadcasts.set(key, broadcast);
-    }
-  }
+    // Fetch DM conversations
+    fetchCreatorConversations(user.id, limit),
+    prisma.subscription.count({
+      where: {
+        creatorId: user.creatorProfile.id,
+        status: { in: ["active", "trialing"] },
+      },
+    }),
+    // DM unread count
+    prisma.message.count({
+      where: {
+        receiverId: user.id,
+        isBroadcast: false,
+        isRead: false,
+      },
+    }),
+    prisma.messageRequest.findMany({
+      where: { creatorId: user.creatorProfile.id, status: "pending" },
+      take: limit + 1,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      include: { sender: { select: messageRequestSenderSelect } },
+    }),
+    prisma.messageRequest.count({
+      where: { creatorId: user.creatorProfile.id, status: "pending" },
+    }),
+  ]);
 
-  const initialBroadcasts = Array.from(uniqueBroadcasts.values());
-  const hasMore = messages.length > limit;
+  const initialBroadcasts = await toBroadcastItems(broadcasts.slice(0, limit));
+  const hasMore = broadcasts.length > limit;
 
   return (
     <MessagesClient
@@ -118,6 +116,10 @@ export default async function CreatorMessagesPage() {
       dmEnabled={user.creatorProfile.dmEnabled}
       initialConversations={conversations}
       initialDmUnreadCount={dmUnreadCount}
+      initialRequests={requests.slice(0, limit).map(toMessageRequestItem)}
+      initialRequestsHasMore={requests.length > limit}
+      initialRequestCount={requestCount}
+      initialTab={initialTab}
     />
   );
 }
@@ -181,6 +183,7 @@ async function fetchCreatorConversations(userId: string, limit: number) {
       lastMessage: {
         id: string;
         content: string;
+        attachment: MessageAttachmentInfo | null;
         createdAt: string;
         isFromMe: boolean;
       };
@@ -214,6 +217,7 @@ async function fetchCreatorConversations(userId: string, limit: number) {
       lastMessage: {
         id: message.id,
         content: message.content,
+        attachment: toMessageAttachmentInfo(message),
         createdAt: message.createdAt.toISOString(),
         isFromMe,
       },
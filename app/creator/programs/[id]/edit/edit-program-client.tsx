@@ -20,6 +20,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { PurchasePriceField } from "@/components/content/purchase-price-field";
+import {
+  MinTierField,
+  type MinTierOption,
+} from "@/components/content/min-tier-field";
 import {
   Dialog,
   DialogContent,
@@ -39,7 +44,11 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
-import type { ContentType, ContentStatus } from "@/lib/validations/content";
+import {
+  MAX_UNLOCK_OFFSET_DAYS,
+  type ContentType,
+  type ContentStatus,
+} from "@/lib/validations/content";
 
 /**
  * Content item in program
@@ -53,6 +62,8 @@ interface ProgramContentItem {
   isFree: boolean;
   status: ContentStatus;
   sortOrder: number | null;
+  /** Days after a subscriber starts the program (null = from the start) */
+  unlockOffsetDays: number | null;
 }
 
 /**
@@ -74,6 +85,8 @@ interface ProgramData {
   description: string | null;
   thumbnailUrl: string | null;
   isFree: boolean;
+  priceCents: number | null;
+  minTierId: string | null;
   content: ProgramContentItem[];
 }
 
@@ -83,6 +96,7 @@ interface ProgramData {
 interface EditProgramClientProps {
   program: ProgramData;
   availableContent: AvailableContentItem[];
+  tiers: MinTierOption[];
 }
 
 /**
@@ -111,6 +125,7 @@ function ContentTypeIcon({
 export function EditProgramClient({
   program,
   availableContent: initialAvailableContent,
+  tiers,
 }: EditProgramClientProps) {
   const router = useRouter();
 
@@ -118,6 +133,8 @@ export function EditProgramClient({
   const [title, setTitle] = useState(program.title);
   const [description, setDescription] = useState(program.description || "");
   const [isFree, setIsFree] = useState(program.isFree);
+  const [priceCents, setPriceCents] = useState(program.priceCents);
+  const [minTierId, setMinTierId] = useState(program.minTierId);
   const [content, setContent] = useState<ProgramContentItem[]>(program.content);
   const [availableContent, setAvailableContent] = useState(
     initialAvailableContent,
@@ -154,6 +171,8 @@ export function EditProgramClient({
           title: title.trim(),
           description: description.trim() || null,
           isFree,
+          priceCents: isFree ? null : priceCents,
+          minTierId: isFree ? null : minTierId,
         }),
       });
 
@@ -202,6 +221,7 @@ export function EditProgramClient({
           isFree: data.content.isFree,
           status: data.content.status,
           sortOrder: prev.length,
+          unlockOffsetDays: data.content.unlockOffsetDays,
         },
       ]);
 
@@ -248,6 +268,29 @@ export function EditProgramClient({
     }
   };
 
+  /**
+   * Set the day an item unlocks, counted from when a subscriber starts
+   */
+  const handleUnlockDayChange = async (contentId: string, day: number) => {
+    const unlockOffsetDays = day > 1 ? day - 1 : null;
+
+    try {
+      const response = await fetch(`/api/creator/content/${contentId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ unlockOffsetDays }),
+      });
+
+      if (!response.ok) throw new Error("Failed to update unlock day");
+
+      setContent((prev) =>
+        prev.map((c) => (c.id === contentId ? { ...c, unlockOffsetDays } : c)),
+      );
+    } catch (error) {
+      console.error("Error updating unlock day:", error);
+    }
+  };
+
   /**
    * Reorder content
    */
@@ -396,6 +439,27 @@ export function EditProgramClient({
             />
           </div>
 
+          {/* Membership tier requirement */}
+          {!isFree && (
+            <MinTierField
+              tiers={tiers}
+              value={minTierId}
+              onChange={setMinTierId}
+              itemLabel="the whole program"
+              disabled={isSubmitting}
+            />
+          )}
+
+          {/* One-time purchase price */}
+          {!isFree && (
+            <PurchasePriceField
+              value={priceCents}
+              onChange={setPriceCents}
+              itemLabel="the whole program"
+              disabled={isSubmitting}
+            />
+          )}
+
           {/* Save button */}
           <Button onClick={handleSave} disabled={isSubmitting || !title.trim()}>
             {isSubmitting ? (
@@ -526,6 +590,37 @@ export function EditProgramClient({
                   </div>
                 </div>
 
+                {/* Unlock day */}
+                <div className="flex shrink-0 items-center gap-2">
+                  <Label
+                    htmlFor={`unlock-day-${item.id}`}
+                    className="text-sm text-muted-foreground"
+                  >
+                    Day
+                  </Label>
+                  <Input
+                    id={`unlock-day-${item.id}`}
+                    type="number"
+                    min={1}
+                    max={MAX_UNLOCK_OFFSET_DAYS + 1}
+                    defaultValue={(item.unlockOffsetDays ?? 0) + 1}
+                    onBlur={(e) => {
+                      const day = Number(e.target.value);
+                      const currentDay = (item.unlockOffsetDays ?? 0) + 1;
+                      if (
+                        !Number.isInteger(day) ||
+                        day < 1 ||
+                        day > MAX_UNLOCK_OFFSET_DAYS + 1
+                      ) {
+                        e.target.value = String(currentDay);
+                      } else if (day !== currentDay) {
+                        handleUnlockDayChange(item.id, day);
+                      }
+                    }}
+                    className="h-8 w-16"
+                  />
+                </div>
+
                 {/* Remove button */}
                 <Button
                   variant="ghost"
@@ -541,7 +636,9 @@ export function EditProgramClient({
         )}
 
         <p className="text-sm text-muted-foreground">
-          Drag items to reorder. Changes are saved automatically.
+          Drag items to reorder. Each item unlocks on its day, counted from
+          when a subscriber starts the program. Changes are saved
+          automatically.
         </p>
       </section>
 
@@ -55,6 +55,7 @@ export default async function EditProgramPage({
           isFree: true,
           status: true,
           sortOrder: true,
+          unlockOffsetDays: true,
         },
       },
     },
@@ -81,6 +82,13 @@ export default async function EditProgramPage({
     take: 50,
   });
 
+  // Fetch membership tiers for tier-gated programs
+  const tiers = await prisma.membershipTier.findMany({
+    where: { creatorId: user.creatorProfile.id },
+    select: { id: true, name: true },
+    orderBy: { rank: "asc" },
+  });
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -105,9 +113,12 @@ export default async function EditProgramPage({
             description: program.description,
             thumbnailUrl: program.thumbnailUrl,
             isFree: program.isFree,
+            priceCents: program.priceCents,
+            minTierId: program.minTierId,
             content: program.content,
           }}
           availableContent={availableContent}
+          tiers={tiers}
         />
       </main>
     </div>
@@ -29,6 +29,13 @@ export default async function CreateProgramPage() {
     redirect("/become-creator");
   }
 
+  // Fetch membership tiers for tier-gated programs
+  const tiers = await prisma.membershipTier.findMany({
+    where: { creatorId: user.creatorProfile.id },
+    select: { id: true, name: true },
+    orderBy: { rank: "asc" },
+  });
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -53,7 +60,7 @@ export default async function CreateProgramPage() {
           </p>
         </div>
 
-        <ProgramFormClient mode="create" />
+        <ProgramFormClient mode="create" tiers={tiers} />
       </main>
     </div>
   );
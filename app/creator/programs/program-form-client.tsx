@@ -8,6 +8,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { PurchasePriceField } from "@/components/content/purchase-price-field";
+import {
+  MinTierField,
+  type MinTierOption,
+} from "@/components/content/min-tier-field";
 
 /**
  * ProgramFormClient Props
@@ -15,11 +20,15 @@ import { Switch } from "@/components/ui/switch";
 interface ProgramFormClientProps {
   mode: "create" | "edit";
   programId?: string;
+  /** Creator's membership tiers, lowest first */
+  tiers?: MinTierOption[];
   initialData?: {
     title: string;
     description?: string | null;
     thumbnailUrl?: string | null;
     isFree: boolean;
+    priceCents?: number | null;
+    minTierId?: string | null;
   };
 }
 
@@ -31,6 +40,7 @@ interface ProgramFormClientProps {
 export function ProgramFormClient({
   mode,
   programId,
+  tiers = [],
   initialData,
 }: ProgramFormClientProps) {
   const router = useRouter();
@@ -41,6 +51,12 @@ export function ProgramFormClient({
     initialData?.description || "",
   );
   const [isFree, setIsFree] = useState(initialData?.isFree ?? false);
+  const [priceCents, setPriceCents] = useState<number | null>(
+    initialData?.priceCents ?? null,
+  );
+  const [minTierId, setMinTierId] = useState<string | null>(
+    initialData?.minTierId ?? null,
+  );
 
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -74,6 +90,8 @@ export function ProgramFormClient({
           title: title.trim(),
           description: description.trim() || null,
           isFree,
+          priceCents: isFree ? null : priceCents,
+          minTierId: isFree ? null : minTierId,
         }),
       });
 
@@ -153,6 +171,27 @@ export function ProgramFormClient({
         />
       </div>
 
+      {/* Membership tier requirement */}
+      {!isFree && (
+        <MinTierField
+          tiers={tiers}
+          value={minTierId}
+          onChange={setMinTierId}
+          itemLabel="the whole program"
+          disabled={isSubmitting}
+        />
+      )}
+
+      {/* One-time purchase price */}
+      {!isFree && (
+        <PurchasePriceField
+          value={priceCents}
+          onChange={setPriceCents}
+          itemLabel="the whole program"
+          disabled={isSubmitting}
+        />
+      )}
+
       {/* Actions */}
       <div className="flex flex-col-reverse gap-3 border-t border-border pt-6 sm:flex-row sm:justify-end">
         <Button
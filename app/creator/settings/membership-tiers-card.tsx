@@ -0,0 +1,333 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Plus } from "lucide-react";
+import type { formatCreatorTier } from "@/lib/tiers";
+import { formatPriceCents, parseDollarsToCents } from "@/lib/pricing";
+import {
+  MAX_MONTHLY_PRICE_CENTS,
+  MIN_MONTHLY_PRICE_CENTS,
+} from "@/lib/validations/creator";
+import { MAX_MEMBERSHIP_TIERS } from "@/lib/validations/tier";
+
+export type CreatorTier = ReturnType<typeof formatCreatorTier>;
+
+interface TierFormValues {
+  name: string;
+  description: string;
+  price: string;
+}
+
+const EMPTY_FORM: TierFormValues = { name: "", description: "", price: "" };
+
+interface MembershipTiersCardProps {
+  tiers: CreatorTier[];
+  onTiersChange: (tiers: CreatorTier[]) => void;
+}
+
+/**
+ * MembershipTiersCard - Create and manage membership tiers
+ *
+ * Tiers are saved immediately through /api/creator/tiers rather than with
+ * the settings form. Tiers rank in the order they were created.
+ */
+export function MembershipTiersCard({
+  tiers,
+  onTiersChange,
+}: MembershipTiersCardProps) {
+  const router = useRouter();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<TierFormValues>(EMPTY_FORM);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const priceCents = parseDollarsToCents(form.price);
+  const isPriceValid =
+    priceCents !== null &&
+    priceCents >= MIN_MONTHLY_PRICE_CENTS &&
+    priceCents <= MAX_MONTHLY_PRICE_CENTS;
+
+  const startEditing = (tier: CreatorTier | null) => {
+    setError(null);
+    setEditingId(tier?.id ?? "new");
+    setForm(
+      tier
+        ? {
+            name: tier.name,
+            description: tier.description ?? "",
+            price: (tier.priceCents / 100).toString(),
+          }
+        : EMPTY_FORM,
+    );
+  };
+
+  /**
+   * Send a tier request and return the parsed response
+   */
+  const sendRequest = async (
+    id: string,
+    url: string,
+    init: RequestInit,
+  ): Promise<Record<string, unknown> | null> => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update tiers");
+      }
+
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tiers");
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editingId || !form.name.trim() || !isPriceValid) return;
+
+    const isNew = editingId === "new";
+    const data = await sendRequest(
+      editingId,
+      isNew ? "/api/creator/tiers" : `/api/creator/tiers/${editingId}`,
+      {
+        method: isNew ? "POST" : "PATCH",
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || null,
+          priceCents,
+        }),
+      },
+    );
+    if (!data) return;
+
+    const saved = data.tier as CreatorTier;
+    onTiersChange(
+      isNew
+        ? [...tiers, saved]
+        : tiers.map((tier) => (tier.id === saved.id ? saved : tier)),
+    );
+    setEditingId(null);
+    router.refresh();
+  };
+
+  const handleArchiveToggle = async (tier: CreatorTier) => {
+    const data = await sendRequest(tier.id, `/api/creator/tiers/${tier.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ archived: !tier.archivedAt }),
+    });
+    if (!data) return;
+
+    const saved = data.tier as CreatorTier;
+    onTiersChange(tiers.map((t) => (t.id === saved.id ? saved : t)));
+    router.refresh();
+  };
+
+  const handleDelete = async (tier: CreatorTier) => {
+    const data = await sendRequest(tier.id, `/api/creator/tiers/${tier.id}`, {
+      method: "DELETE",
+    });
+    if (!data) return;
+
+    onTiersChange(
+      data.archived
+        ? tiers.map((t) =>
+            t.id === tier.id
+              ? { ...t, archivedAt: t.archivedAt ?? new Date().toISOString() }
+              : t,
+          )
+        : tiers.filter((t) => t.id !== tier.id),
+    );
+    router.refresh();
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div className="space-y-2">
+        <Label htmlFor="tierName">Tier name</Label>
+        <Input
+          id="tierName"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="e.g. Supporter"
+          maxLength={40}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="tierPrice">Monthly price</Label>
+        <div className="relative max-w-[200px]">
+          <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+            $
+          </span>
+          <Input
+            id="tierPrice"
+            inputMode="decimal"
+            value={form.price}
+            onChange={(e) => setForm({ ...form, price: e.target.value })}
+            placeholder="10"
+            className="pl-7"
+            aria-invalid={form.price !== "" && !isPriceValid}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {`Any amount from ${formatPriceCents(MIN_MONTHLY_PRICE_CENTS)} to ${formatPriceCents(MAX_MONTHLY_PRICE_CENTS)}. `}
+          Your annual discount applies to every tier.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="tierDescription">What members get</Label>
+        <Textarea
+          id="tierDescription"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          rows={3}
+          maxLength={500}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setEditingId(null)}
+          disabled={busyId !== null}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={!form.name.trim() || !isPriceValid || busyId !== null}
+        >
+          {busyId === editingId && (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          )}
+          Save tier
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Membership Tiers</CardTitle>
+        <CardDescription>
+          Offer higher-priced tiers with extra content. When you have tiers,
+          new subscribers pick a tier instead of your monthly price.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tiers.map((tier) =>
+          editingId === tier.id ? (
+            <div key={tier.id}>{renderForm()}</div>
+          ) : (
+            <div
+              key={tier.id}
+              className="flex items-start justify-between gap-4 rounded-lg border border-border p-4"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{tier.name}</span>
+                  {tier.archivedAt && (
+                    <Badge variant="outline" className="text-xs">
+                      Archived
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {formatPriceCents(tier.priceCents)}/month &middot;{" "}
+                  {tier.subscriberCount}{" "}
+                  {tier.subscriberCount === 1 ? "member" : "members"}
+                </p>
+                {tier.description && (
+                  <p className="text-sm text-muted-foreground">
+                    {tier.description}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditing(tier)}
+                  disabled={busyId !== null}
+                >
+                  Edit
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleArchiveToggle(tier)}
+                  disabled={busyId !== null}
+                >
+                  {tier.archivedAt ? "Restore" : "Archive"}
+                </Button>
+                {tier.subscriberCount === 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => handleDelete(tier)}
+                    disabled={busyId !== null}
+                  >
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          ),
+        )}
+
+        {editingId === "new"
+          ? renderForm()
+          : tiers.length < MAX_MEMBERSHIP_TIERS && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => startEditing(null)}
+                disabled={busyId !== null}
+              >
+                <Plus className="mr-2 size-4" />
+                Add tier
+              </Button>
+            )}
+
+        <p className="text-xs text-muted-foreground">
+          Tiers rank in the order you add them, so add your lowest tier first.
+          Archived tiers keep their members but can&apos;t be joined.
+        </p>
+
+        {error && (
+          <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,11 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
+import { creatorTierSelect, formatCreatorTier } from "@/lib/tiers";
+import {
+  creatorPromoCodeSelect,
+  formatCreatorPromoCode,
+} from "@/lib/promo-codes";
 import { SettingsClient } from "./settings-client";
 import type {
   CreatorCategory,
@@ -34,13 +39,32 @@ export default async function SettingsPage() {
           coverImageUrl: true,
           category: true,
           subscriptionPrice: true,
+          customPriceCents: true,
+          annualDiscountPercent: true,
           trialEnabled: true,
+          trialDays: true,
           dmEnabled: true,
+          dmMinTierId: true,
+          dmMinSubscribedDays: true,
+          dmFollowerRequests: true,
+          dmRequestPriceCents: true,
+          dmDailyLimit: true,
+          retentionDiscountPercent: true,
+          retentionPauseMonths: true,
+          winBackDelayDays: true,
           stripeAccountId: true,
           stripeOnboardingComplete: true,
           status: true,
           isVerified: true,
           isFeatured: true,
+          membershipTiers: {
+            orderBy: { rank: "asc" },
+            select: creatorTierSelect,
+          },
+          promoCodes: {
+            orderBy: { createdAt: "desc" },
+            select: creatorPromoCodeSelect,
+          },
         },
       },
     },
@@ -60,8 +84,19 @@ export default async function SettingsPage() {
     category: user.creatorProfile.category as CreatorCategory,
     subscriptionPrice: user.creatorProfile
       .subscriptionPrice as SubscriptionPriceTier,
+    customPriceCents: user.creatorProfile.customPriceCents,
+    annualDiscountPercent: user.creatorProfile.annualDiscountPercent,
     trialEnabled: user.creatorProfile.trialEnabled,
+    trialDays: user.creatorProfile.trialDays,
     dmEnabled: user.creatorProfile.dmEnabled,
+    dmMinTierId: user.creatorProfile.dmMinTierId,
+    dmMinSubscribedDays: user.creatorProfile.dmMinSubscribedDays,
+    dmFollowerRequests: user.creatorProfile.dmFollowerRequests,
+    dmRequestPriceCents: user.creatorProfile.dmRequestPriceCents,
+    dmDailyLimit: user.creatorProfile.dmDailyLimit,
+    retentionDiscountPercent: user.creatorProfile.retentionDiscountPercent,
+    retentionPauseMonths: user.creatorProfile.retentionPauseMonths,
+    winBackDelayDays: user.creatorProfile.winBackDelayDays,
     stripeAccountId: user.creatorProfile.stripeAccountId,
     stripeOnboardingComplete: user.creatorProfile.stripeOnboardingComplete,
     status: user.creatorProfile.status,
@@ -69,5 +104,13 @@ export default async function SettingsPage() {
     isFeatured: user.creatorProfile.isFeatured,
   };
 
-  return <SettingsClient initialSettings={settings} />;
+  return (
+    <SettingsClient
+      initialSettings={settings}
+      initialTiers={user.creatorProfile.membershipTiers.map(formatCreatorTier)}
+      initialPromoCodes={user.creatorProfile.promoCodes.map(
+        formatCreatorPromoCode,
+      )}
+    />
+  );
 }
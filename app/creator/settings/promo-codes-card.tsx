@@ -0,0 +1,500 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Check, Copy, Loader2, Plus } from "lucide-react";
+import type { formatCreatorPromoCode } from "@/lib/promo-codes";
+import { describePromoOffer, parseDollarsToCents } from "@/lib/pricing";
+import { MAX_TRIAL_DAYS, MIN_TRIAL_DAYS } from "@/lib/validations/creator";
+import {
+  MAX_PROMO_CODES,
+  MAX_PROMO_DURATION_MONTHS,
+  type PromoDuration,
+} from "@/lib/validations/promo-code";
+
+export type CreatorPromoCode = ReturnType<typeof formatCreatorPromoCode>;
+
+type DiscountType = "none" | "percent" | "amount";
+
+interface PromoFormValues {
+  code: string;
+  discountType: DiscountType;
+  discount: string;
+  duration: PromoDuration;
+  durationInMonths: string;
+  trialDays: string;
+  maxRedemptions: string;
+  expiresOn: string;
+}
+
+const EMPTY_FORM: PromoFormValues = {
+  code: "",
+  discountType: "percent",
+  discount: "",
+  duration: "once",
+  durationInMonths: "3",
+  trialDays: "",
+  maxRedemptions: "",
+  expiresOn: "",
+};
+
+const discountTypeItems = [
+  { value: "percent", label: "Percentage off" },
+  { value: "amount", label: "Amount off" },
+  { value: "none", label: "No discount (trial only)" },
+];
+
+const durationItems = [
+  { value: "once", label: "First payment only" },
+  { value: "repeating", label: "For several months" },
+  { value: "forever", label: "Every payment" },
+];
+
+/**
+ * Parse a whole number typed into a field (null if blank or invalid)
+ */
+function parseWholeNumber(value: string): number | null {
+  return /^\d+$/.test(value.trim()) ? Number(value) : null;
+}
+
+interface PromoCodesCardProps {
+  promoCodes: CreatorPromoCode[];
+  creatorHandle: string;
+}
+
+/**
+ * PromoCodesCard - Create and manage promo codes
+ *
+ * Codes are saved immediately through /api/creator/promo-codes rather than
+ * with the settings form. Discount terms can't be edited once created;
+ * creators archive a code and make a new one instead.
+ */
+export function PromoCodesCard({
+  promoCodes: initialPromoCodes,
+  creatorHandle,
+}: PromoCodesCardProps) {
+  const [promoCodes, setPromoCodes] = useState(initialPromoCodes);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<PromoFormValues>(EMPTY_FORM);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const percentOff =
+    form.discountType === "percent" ? parseWholeNumber(form.discount) : null;
+  const amountOffCents =
+    form.discountType === "amount" ? parseDollarsToCents(form.discount) : null;
+  const trialDays = parseWholeNumber(form.trialDays);
+  const hasDiscount = form.discountType !== "none";
+  const isDiscountValid =
+    !hasDiscount || percentOff !== null || amountOffCents !== null;
+  const canSave =
+    form.code.trim().length >= 3 &&
+    isDiscountValid &&
+    (hasDiscount || trialDays !== null);
+
+  /**
+   * Send a promo code request and return the parsed response
+   */
+  const sendRequest = async (
+    id: string,
+    url: string,
+    init: RequestInit,
+  ): Promise<Record<string, unknown> | null> => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update promo codes");
+      }
+
+      return data;
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update promo codes",
+      );
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!canSave) return;
+
+    const data = await sendRequest("new", "/api/creator/promo-codes", {
+      method: "POST",
+      body: JSON.stringify({
+        code: form.code,
+        percentOff,
+        amountOffCents,
+        duration: hasDiscount ? form.duration : "once",
+        durationInMonths:
+          hasDiscount && form.duration === "repeating"
+            ? parseWholeNumber(form.durationInMonths)
+            : null,
+        trialDays,
+        maxRedemptions: parseWholeNumber(form.maxRedemptions),
+        // Codes expire at the end of the chosen day, in the creator's time
+        expiresAt: form.expiresOn
+          ? new Date(`${form.expiresOn}T23:59:59`).toISOString()
+          : null,
+      }),
+    });
+    if (!data) return;
+
+    setPromoCodes([data.promoCode as CreatorPromoCode, ...promoCodes]);
+    setIsCreating(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleArchiveToggle = async (promoCode: CreatorPromoCode) => {
+    const data = await sendRequest(
+      promoCode.id,
+      `/api/creator/promo-codes/${promoCode.id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ archived: !promoCode.archivedAt }),
+      },
+    );
+    if (!data) return;
+
+    const saved = data.promoCode as CreatorPromoCode;
+    setPromoCodes(promoCodes.map((p) => (p.id === saved.id ? saved : p)));
+  };
+
+  const handleDelete = async (promoCode: CreatorPromoCode) => {
+    const data = await sendRequest(
+      promoCode.id,
+      `/api/creator/promo-codes/${promoCode.id}`,
+      { method: "DELETE" },
+    );
+    if (!data) return;
+
+    setPromoCodes(
+      data.archived
+        ? promoCodes.map((p) =>
+            p.id === promoCode.id
+              ? { ...p, archivedAt: p.archivedAt ?? new Date().toISOString() }
+              : p,
+          )
+        : promoCodes.filter((p) => p.id !== promoCode.id),
+    );
+  };
+
+  const handleCopyLink = async (promoCode: CreatorPromoCode) => {
+    const url = `${window.location.origin}/${creatorHandle}?promo=${promoCode.code}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(promoCode.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError("Couldn't copy the link. Your browser blocked clipboard access.");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div className="space-y-2">
+        <Label htmlFor="promoCode">Code</Label>
+        <Input
+          id="promoCode"
+          value={form.code}
+          onChange={(e) =>
+            setForm({ ...form, code: e.target.value.toUpperCase() })
+          }
+          placeholder="e.g. SPRING25"
+          maxLength={30}
+          className="max-w-[240px] font-mono"
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="promoDiscountType">Discount</Label>
+          <Select
+            items={discountTypeItems}
+            value={form.discountType}
+            onValueChange={(v) =>
+              setForm({ ...form, discountType: v as DiscountType })
+            }
+          >
+            <SelectTrigger id="promoDiscountType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {discountTypeItems.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {hasDiscount && (
+          <div className="space-y-2">
+            <Label htmlFor="promoDiscount">
+              {form.discountType === "percent" ? "Percent off" : "Amount off"}
+            </Label>
+            <div className="relative max-w-[160px]">
+              <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                {form.discountType === "percent" ? "%" : "$"}
+              </span>
+              <Input
+                id="promoDiscount"
+                inputMode="decimal"
+                value={form.discount}
+                onChange={(e) => setForm({ ...form, discount: e.target.value })}
+                placeholder={form.discountType === "percent" ? "25" : "5"}
+                className="pl-7"
+                aria-invalid={form.discount !== "" && !isDiscountValid}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {hasDiscount && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="promoDuration">Applies to</Label>
+            <Select
+              items={durationItems}
+              value={form.duration}
+              onValueChange={(v) =>
+                setForm({ ...form, duration: v as PromoDuration })
+              }
+            >
+              <SelectTrigger id="promoDuration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {durationItems.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.duration === "repeating" && (
+            <div className="space-y-2">
+              <Label htmlFor="promoMonths">Months</Label>
+              <Input
+                id="promoMonths"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={MAX_PROMO_DURATION_MONTHS}
+                value={form.durationInMonths}
+                onChange={(e) =>
+                  setForm({ ...form, durationInMonths: e.target.value })
+                }
+                className="max-w-[120px]"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="promoTrialDays">
+            Trial days{hasDiscount && " (optional)"}
+          </Label>
+          <Input
+            id="promoTrialDays"
+            type="number"
+            inputMode="numeric"
+            min={MIN_TRIAL_DAYS}
+            max={MAX_TRIAL_DAYS}
+            value={form.trialDays}
+            onChange={(e) => setForm({ ...form, trialDays: e.target.value })}
+            placeholder="Default"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promoMaxRedemptions">Usage limit (optional)</Label>
+          <Input
+            id="promoMaxRedemptions"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={form.maxRedemptions}
+            onChange={(e) =>
+              setForm({ ...form, maxRedemptions: e.target.value })
+            }
+            placeholder="Unlimited"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promoExpiresOn">Expires (optional)</Label>
+          <Input
+            id="promoExpiresOn"
+            type="date"
+            value={form.expiresOn}
+            onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {`Trial days replace your default trial for subscribers using this code (${MIN_TRIAL_DAYS} to ${MAX_TRIAL_DAYS} days).`}
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setIsCreating(false)}
+          disabled={busyId !== null}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleCreate}
+          disabled={!canSave || busyId !== null}
+        >
+          {busyId === "new" && <Loader2 className="mr-2 size-4 animate-spin" />}
+          Create code
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Promo Codes</CardTitle>
+        <CardDescription>
+          Share a code or link to offer new subscribers a discount or a longer
+          free trial.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {promoCodes.map((promoCode) => (
+          <div
+            key={promoCode.id}
+            className="flex items-start justify-between gap-4 rounded-lg border border-border p-4"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-medium">{promoCode.code}</span>
+                {promoCode.archivedAt && (
+                  <Badge variant="outline" className="text-xs">
+                    Archived
+                  </Badge>
+                )}
+                {!promoCode.archivedAt &&
+                  promoCode.expiresAt &&
+                  new Date(promoCode.expiresAt) <= new Date() && (
+                    <Badge variant="outline" className="text-xs">
+                      Expired
+                    </Badge>
+                  )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {describePromoOffer(promoCode)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {promoCode.redemptionCount}
+                {promoCode.maxRedemptions !== null &&
+                  ` of ${promoCode.maxRedemptions}`}{" "}
+                used
+                {promoCode.expiresAt &&
+                  ` · Expires ${new Date(promoCode.expiresAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              {!promoCode.archivedAt && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCopyLink(promoCode)}
+                >
+                  {copiedId === promoCode.id ? (
+                    <Check className="mr-1 size-4" />
+                  ) : (
+                    <Copy className="mr-1 size-4" />
+                  )}
+                  {copiedId === promoCode.id ? "Copied" : "Copy link"}
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleArchiveToggle(promoCode)}
+                disabled={busyId !== null}
+              >
+                {promoCode.archivedAt ? "Restore" : "Archive"}
+              </Button>
+              {promoCode.redemptionCount === 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => handleDelete(promoCode)}
+                  disabled={busyId !== null}
+                >
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isCreating
+          ? renderForm()
+          : promoCodes.length < MAX_PROMO_CODES && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setError(null);
+                  setForm(EMPTY_FORM);
+                  setIsCreating(true);
+                }}
+                disabled={busyId !== null}
+              >
+                <Plus className="mr-2 size-4" />
+                Add promo code
+              </Button>
+            )}
+
+        {error && (
+          <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
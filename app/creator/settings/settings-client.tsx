@@ -26,7 +26,38 @@ import {
   categoryInfo,
   type CreatorCategory,
   type SubscriptionPriceTier,
+  DEFAULT_ANNUAL_DISCOUNT_PERCENT,
+  DEFAULT_DM_DAILY_LIMIT,
+  DEFAULT_DM_MIN_SUBSCRIBED_DAYS,
+  DEFAULT_DM_REQUEST_PRICE_CENTS,
+  DEFAULT_RETENTION_DISCOUNT_PERCENT,
+  DEFAULT_RETENTION_PAUSE_MONTHS,
+  DEFAULT_WIN_BACK_DELAY_DAYS,
+  MAX_ANNUAL_DISCOUNT_PERCENT,
+  MAX_DM_DAILY_LIMIT,
+  MAX_DM_MIN_SUBSCRIBED_DAYS,
+  MAX_DM_REQUEST_PRICE_CENTS,
+  MAX_MONTHLY_PRICE_CENTS,
+  MAX_RETENTION_DISCOUNT_PERCENT,
+  MAX_RETENTION_PAUSE_MONTHS,
+  MAX_TRIAL_DAYS,
+  MAX_WIN_BACK_DELAY_DAYS,
+  MIN_ANNUAL_DISCOUNT_PERCENT,
+  MIN_DM_REQUEST_PRICE_CENTS,
+  MIN_MONTHLY_PRICE_CENTS,
+  MIN_RETENTION_DISCOUNT_PERCENT,
+  MIN_TRIAL_DAYS,
 } from "@/lib/validations/creator";
+import {
+  formatPriceCents,
+  getAnnualPriceCents,
+  parseDollarsToCents,
+} from "@/lib/pricing";
+import {
+  MembershipTiersCard,
+  type CreatorTier,
+} from "./membership-tiers-card";
+import { PromoCodesCard, type CreatorPromoCode } from "./promo-codes-card";
 
 interface CreatorSettings {
   id: string;
@@ -37,8 +68,19 @@ interface CreatorSettings {
   coverImageUrl: string | null;
   category: CreatorCategory;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
+  annualDiscountPercent: number | null;
   trialEnabled: boolean;
+  trialDays: number;
   dmEnabled: boolean;
+  dmMinTierId: string | null;
+  dmMinSubscribedDays: number | null;
+  dmFollowerRequests: boolean;
+  dmRequestPriceCents: number | null;
+  dmDailyLimit: number | null;
+  retentionDiscountPercent: number | null;
+  retentionPauseMonths: number | null;
+  winBackDelayDays: number | null;
   stripeAccountId: string | null;
   stripeOnboardingComplete: boolean;
   status: string;
@@ -48,6 +90,8 @@ interface CreatorSettings {
 
 interface SettingsClientProps {
   initialSettings: CreatorSettings;
+  initialTiers: CreatorTier[];
+  initialPromoCodes: CreatorPromoCode[];
 }
 
 /**
@@ -55,7 +99,11 @@ interface SettingsClientProps {
  *
  * Client component for editing creator settings.
  */
-export function SettingsClient({ initialSettings }: SettingsClientProps) {
+export function SettingsClient({
+  initialSettings,
+  initialTiers,
+  initialPromoCodes,
+}: SettingsClientProps) {
   const router = useRouter();
 
   // Form state
@@ -66,10 +114,64 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
   );
   const [subscriptionPrice, setSubscriptionPrice] =
     useState<SubscriptionPriceTier>(initialSettings.subscriptionPrice);
+  const [isCustomPrice, setIsCustomPrice] = useState(
+    initialSettings.customPriceCents !== null,
+  );
+  const [customPrice, setCustomPrice] = useState(
+    initialSettings.customPriceCents !== null
+      ? (initialSettings.customPriceCents / 100).toString()
+      : "",
+  );
+  const [annualDiscountPercent, setAnnualDiscountPercent] = useState<
+    number | null
+  >(initialSettings.annualDiscountPercent);
   const [trialEnabled, setTrialEnabled] = useState(
     initialSettings.trialEnabled,
   );
+  const [trialDaysInput, setTrialDaysInput] = useState(
+    initialSettings.trialDays.toString(),
+  );
   const [dmEnabled, setDmEnabled] = useState(initialSettings.dmEnabled);
+  const [dmMinTierId, setDmMinTierId] = useState(initialSettings.dmMinTierId);
+  const [dmWaitEnabled, setDmWaitEnabled] = useState(
+    initialSettings.dmMinSubscribedDays !== null,
+  );
+  const [dmWaitDaysInput, setDmWaitDaysInput] = useState(
+    String(
+      initialSettings.dmMinSubscribedDays ?? DEFAULT_DM_MIN_SUBSCRIBED_DAYS,
+    ),
+  );
+  const [dmFollowerRequests, setDmFollowerRequests] = useState(
+    initialSettings.dmFollowerRequests,
+  );
+  const [dmPaidRequests, setDmPaidRequests] = useState(
+    initialSettings.dmRequestPriceCents !== null,
+  );
+  const [dmRequestPrice, setDmRequestPrice] = useState(
+    String(
+      (initialSettings.dmRequestPriceCents ?? DEFAULT_DM_REQUEST_PRICE_CENTS) /
+        100,
+    ),
+  );
+  const [dmLimitEnabled, setDmLimitEnabled] = useState(
+    initialSettings.dmDailyLimit !== null,
+  );
+  const [dmDailyLimitInput, setDmDailyLimitInput] = useState(
+    String(initialSettings.dmDailyLimit ?? DEFAULT_DM_DAILY_LIMIT),
+  );
+  const [retentionDiscountPercent, setRetentionDiscountPercent] = useState<
+    number | null
+  >(initialSettings.retentionDiscountPercent);
+  const [retentionPauseMonths, setRetentionPauseMonths] = useState<
+    number | null
+  >(initialSettings.retentionPauseMonths);
+  const [winBackEnabled, setWinBackEnabled] = useState(
+    initialSettings.winBackDelayDays !== null,
+  );
+  const [winBackDaysInput, setWinBackDaysInput] = useState(
+    String(initialSettings.winBackDelayDays ?? DEFAULT_WIN_BACK_DELAY_DAYS),
+  );
+  const [tiers, setTiers] = useState(initialTiers);
 
   // UI state
   const [isSaving, setIsSaving] = useState(false);
@@ -81,10 +183,53 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSaving(true);
     setError(null);
     setSuccess(false);
 
+    if (isCustomPrice && customPriceCents === null) {
+      setError(
+        `Enter a monthly price between ${formatPriceCents(MIN_MONTHLY_PRICE_CENTS)} and ${formatPriceCents(MAX_MONTHLY_PRICE_CENTS)}`,
+      );
+      return;
+    }
+
+    if (trialEnabled && trialDays === null) {
+      setError(
+        `Enter a trial length between ${MIN_TRIAL_DAYS} and ${MAX_TRIAL_DAYS} days`,
+      );
+      return;
+    }
+
+    if (dmWaitEnabled && dmMinSubscribedDays === null) {
+      setError(
+        `Enter a waiting period between 1 and ${MAX_DM_MIN_SUBSCRIBED_DAYS} days`,
+      );
+      return;
+    }
+
+    if (dmFollowerRequests && dmPaidRequests && dmRequestPriceCents === null) {
+      setError(
+        `Enter a request price between ${formatPriceCents(MIN_DM_REQUEST_PRICE_CENTS)} and ${formatPriceCents(MAX_DM_REQUEST_PRICE_CENTS)}`,
+      );
+      return;
+    }
+
+    if (dmLimitEnabled && dmDailyLimit === null) {
+      setError(
+        `Enter a daily message limit between 1 and ${MAX_DM_DAILY_LIMIT}`,
+      );
+      return;
+    }
+
+    if (winBackEnabled && winBackDelayDays === null) {
+      setError(
+        `Enter a win-back delay between 1 and ${MAX_WIN_BACK_DELAY_DAYS} days`,
+      );
+      return;
+    }
+
+    setIsSaving(true);
+
     try {
       const response = await fetch("/api/creator/settings", {
         method: "PATCH",
@@ -94,8 +239,20 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
           bio: bio || null,
           category,
           subscriptionPrice,
+          customPriceCents: isCustomPrice ? customPriceCents : null,
+          annualDiscountPercent,
           trialEnabled,
+          ...(trialDays !== null && { trialDays }),
           dmEnabled,
+          dmMinTierId,
+          dmMinSubscribedDays: dmWaitEnabled ? dmMinSubscribedDays : null,
+          dmFollowerRequests,
+          dmRequestPriceCents:
+            dmFollowerRequests && dmPaidRequests ? dmRequestPriceCents : null,
+          dmDailyLimit: dmLimitEnabled ? dmDailyLimit : null,
+          retentionDiscountPercent,
+          retentionPauseMonths,
+          winBackDelayDays: winBackEnabled ? winBackDelayDays : null,
         }),
       });
 
@@ -118,6 +275,54 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
     }
   };
 
+  // Parsed custom price (null while the input is invalid)
+  const parsedCustomCents = parseDollarsToCents(customPrice);
+  const customPriceCents =
+    parsedCustomCents !== null &&
+    parsedCustomCents >= MIN_MONTHLY_PRICE_CENTS &&
+    parsedCustomCents <= MAX_MONTHLY_PRICE_CENTS
+      ? parsedCustomCents
+      : null;
+
+  // Parsed trial length (null while the input is invalid)
+  const parsedTrialDays = /^\d+$/.test(trialDaysInput.trim())
+    ? Number(trialDaysInput)
+    : null;
+  const trialDays =
+    parsedTrialDays !== null &&
+    parsedTrialDays >= MIN_TRIAL_DAYS &&
+    parsedTrialDays <= MAX_TRIAL_DAYS
+      ? parsedTrialDays
+      : null;
+
+  // Parsed DM waiting period and daily limit (null while invalid)
+  const dmMinSubscribedDays = parseWholeNumber(
+    dmWaitDaysInput,
+    MAX_DM_MIN_SUBSCRIBED_DAYS,
+  );
+  const dmDailyLimit = parseWholeNumber(dmDailyLimitInput, MAX_DM_DAILY_LIMIT);
+
+  // Parsed message request price (null while invalid)
+  const parsedRequestCents = parseDollarsToCents(dmRequestPrice);
+  const dmRequestPriceCents =
+    parsedRequestCents !== null &&
+    parsedRequestCents >= MIN_DM_REQUEST_PRICE_CENTS &&
+    parsedRequestCents <= MAX_DM_REQUEST_PRICE_CENTS
+      ? parsedRequestCents
+      : null;
+
+  // Parsed win-back delay (null while invalid)
+  const winBackDelayDays = parseWholeNumber(
+    winBackDaysInput,
+    MAX_WIN_BACK_DELAY_DAYS,
+  );
+
+  const annualPriceCents = getAnnualPriceCents({
+    subscriptionPrice,
+    customPriceCents: isCustomPrice ? customPriceCents : null,
+    annualDiscountPercent,
+  });
+
   // Category options
   const categories = Object.entries(categoryInfo).map(([key, value]) => ({
     value: key as CreatorCategory,
@@ -133,6 +338,35 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
     { value: "TIER_3000", label: "$30/month" },
   ];
 
+  // Annual discount options in 5% steps
+  const annualDiscountOptions = Array.from(
+    {
+      length:
+        (MAX_ANNUAL_DISCOUNT_PERCENT - MIN_ANNUAL_DISCOUNT_PERCENT) / 5 + 1,
+    },
+    (_, i) => MIN_ANNUAL_DISCOUNT_PERCENT + i * 5,
+  );
+
+  // Retention discount options in 10% steps
+  const retentionDiscountOptions = Array.from(
+    {
+      length:
+        (MAX_RETENTION_DISCOUNT_PERCENT - MIN_RETENTION_DISCOUNT_PERCENT) /
+          10 +
+        1,
+    },
+    (_, i) => MIN_RETENTION_DISCOUNT_PERCENT + i * 10,
+  );
+
+  // Who can send DMs, as select items so the trigger shows tier names
+  const dmTierItems = [
+    { value: "any", label: "Any subscriber" },
+    ...tiers.map((tier) => ({
+      value: tier.id,
+      label: `${tier.name} and above`,
+    })),
+  ];
+
   return (
     <div className="space-y-8">
       {/* Page Header */}
@@ -237,10 +471,15 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
             <div className="space-y-2">
               <Label htmlFor="price">Monthly Price</Label>
               <Select
-                value={subscriptionPrice}
-                onValueChange={(v) =>
-                  setSubscriptionPrice(v as SubscriptionPriceTier)
-                }
+                value={isCustomPrice ? "custom" : subscriptionPrice}
+                onValueChange={(v) => {
+                  if (v === "custom") {
+                    setIsCustomPrice(true);
+                  } else {
+                    setIsCustomPrice(false);
+                    setSubscriptionPrice(v as SubscriptionPriceTier);
+                  }
+                }}
               >
                 <SelectTrigger id="price">
                   <SelectValue placeholder="Select a price" />
@@ -251,29 +490,272 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
                       {tier.label}
                     </SelectItem>
                   ))}
+                  <SelectItem value="custom">Custom amount</SelectItem>
                 </SelectContent>
               </Select>
+              {isCustomPrice && (
+                <div className="relative max-w-[200px]">
+                  <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                    $
+                  </span>
+                  <Input
+                    id="customPrice"
+                    inputMode="decimal"
+                    value={customPrice}
+                    onChange={(e) => setCustomPrice(e.target.value)}
+                    placeholder="12"
+                    className="pl-7"
+                    aria-label="Custom monthly price in dollars"
+                    aria-invalid={customPriceCents === null}
+                  />
+                </div>
+              )}
               <p className="text-xs text-muted-foreground">
+                {isCustomPrice &&
+                  `Any amount from ${formatPriceCents(MIN_MONTHLY_PRICE_CENTS)} to ${formatPriceCents(MAX_MONTHLY_PRICE_CENTS)}. `}
                 Existing subscribers keep their original price when you change
                 pricing.
               </p>
             </div>
 
-            {/* Trial Toggle */}
-            <div className="flex items-center justify-between rounded-lg border border-border p-4">
-              <div className="space-y-0.5">
-                <Label htmlFor="trial" className="text-base">
-                  7-day free trial
-                </Label>
-                <p className="text-sm text-muted-foreground">
-                  New subscribers get 7 days free before being charged.
-                </p>
+            {/* Annual Plan */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="annual" className="text-base">
+                    Annual plan
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {annualPriceCents !== null
+                      ? `Subscribers can pay ${formatPriceCents(annualPriceCents)}/year instead of monthly.`
+                      : "Offer a discount to subscribers who pay yearly."}
+                  </p>
+                </div>
+                <Switch
+                  id="annual"
+                  checked={annualDiscountPercent !== null}
+                  onCheckedChange={(enabled) =>
+                    setAnnualDiscountPercent(
+                      enabled ? DEFAULT_ANNUAL_DISCOUNT_PERCENT : null,
+                    )
+                  }
+                />
               </div>
-              <Switch
-                id="trial"
-                checked={trialEnabled}
-                onCheckedChange={setTrialEnabled}
-              />
+              {annualDiscountPercent !== null && (
+                <div className="space-y-2">
+                  <Label htmlFor="annualDiscount">Annual discount</Label>
+                  <Select
+                    value={String(annualDiscountPercent)}
+                    onValueChange={(v) => setAnnualDiscountPercent(Number(v))}
+                  >
+                    <SelectTrigger id="annualDiscount" className="max-w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {annualDiscountOptions.map((percent) => (
+                        <SelectItem key={percent} value={String(percent)}>
+                          {percent}% off
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {/* Free Trial */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="trial" className="text-base">
+                    Free trial
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {trialEnabled && trialDays !== null
+                      ? `New subscribers get ${trialDays} ${trialDays === 1 ? "day" : "days"} free before being charged.`
+                      : "Let new subscribers try your content before paying."}
+                  </p>
+                </div>
+                <Switch
+                  id="trial"
+                  checked={trialEnabled}
+                  onCheckedChange={setTrialEnabled}
+                />
+              </div>
+              {trialEnabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="trialDays">Trial length (days)</Label>
+                  <Input
+                    id="trialDays"
+                    type="number"
+                    inputMode="numeric"
+                    min={MIN_TRIAL_DAYS}
+                    max={MAX_TRIAL_DAYS}
+                    value={trialDaysInput}
+                    onChange={(e) => setTrialDaysInput(e.target.value)}
+                    className="max-w-[120px]"
+                    aria-invalid={trialDays === null}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {MIN_TRIAL_DAYS} to {MAX_TRIAL_DAYS} days. Promo codes can
+                    offer a different trial length.
+                  </p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Retention Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Retention</CardTitle>
+            <CardDescription>
+              Offers shown to monthly subscribers when they cancel, and a
+              note to bring them back after they leave.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Retention Discount */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="retentionDiscount" className="text-base">
+                    Discount offer
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {retentionDiscountPercent !== null
+                      ? `Subscribers who cancel can take ${retentionDiscountPercent}% off their next payment instead.`
+                      : "Offer a discount on the next payment to subscribers who cancel."}
+                  </p>
+                </div>
+                <Switch
+                  id="retentionDiscount"
+                  checked={retentionDiscountPercent !== null}
+                  onCheckedChange={(enabled) =>
+                    setRetentionDiscountPercent(
+                      enabled ? DEFAULT_RETENTION_DISCOUNT_PERCENT : null,
+                    )
+                  }
+                />
+              </div>
+              {retentionDiscountPercent !== null && (
+                <div className="space-y-2">
+                  <Label htmlFor="retentionDiscountPercent">Discount</Label>
+                  <Select
+                    value={String(retentionDiscountPercent)}
+                    onValueChange={(v) =>
+                      setRetentionDiscountPercent(Number(v))
+                    }
+                  >
+                    <SelectTrigger
+                      id="retentionDiscountPercent"
+                      className="max-w-[200px]"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {retentionDiscountOptions.map((percent) => (
+                        <SelectItem key={percent} value={String(percent)}>
+                          {percent}% off
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {/* Retention Pause */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="retentionPause" className="text-base">
+                    Pause offer
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {retentionPauseMonths !== null
+                      ? `Subscribers who cancel can pause for ${retentionPauseMonths} ${retentionPauseMonths === 1 ? "month" : "months"} instead.`
+                      : "Let subscribers who cancel take a break without losing their subscription."}
+                  </p>
+                </div>
+                <Switch
+                  id="retentionPause"
+                  checked={retentionPauseMonths !== null}
+                  onCheckedChange={(enabled) =>
+                    setRetentionPauseMonths(
+                      enabled ? DEFAULT_RETENTION_PAUSE_MONTHS : null,
+                    )
+                  }
+                />
+              </div>
+              {retentionPauseMonths !== null && (
+                <div className="space-y-2">
+                  <Label htmlFor="retentionPauseMonths">Pause length</Label>
+                  <Select
+                    value={String(retentionPauseMonths)}
+                    onValueChange={(v) => setRetentionPauseMonths(Number(v))}
+                  >
+                    <SelectTrigger
+                      id="retentionPauseMonths"
+                      className="max-w-[200px]"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(
+                        { length: MAX_RETENTION_PAUSE_MONTHS },
+                        (_, i) => i + 1,
+                      ).map((months) => (
+                        <SelectItem key={months} value={String(months)}>
+                          {months} {months === 1 ? "month" : "months"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {/* Win-Back Email */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="winBack" className="text-base">
+                    Win-back email
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {winBackEnabled && winBackDelayDays !== null
+                      ? `Former subscribers get one email ${winBackDelayDays} ${winBackDelayDays === 1 ? "day" : "days"} after their subscription ends.`
+                      : "Send former subscribers one email inviting them back."}
+                  </p>
+                </div>
+                <Switch
+                  id="winBack"
+                  checked={winBackEnabled}
+                  onCheckedChange={setWinBackEnabled}
+                />
+              </div>
+              {winBackEnabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="winBackDays">Send after (days)</Label>
+                  <Input
+                    id="winBackDays"
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    max={MAX_WIN_BACK_DELAY_DAYS}
+                    value={winBackDaysInput}
+                    onChange={(e) => setWinBackDaysInput(e.target.value)}
+                    className="max-w-[120px]"
+                    aria-invalid={winBackDelayDays === null}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    1 to {MAX_WIN_BACK_DELAY_DAYS} days. The email mentions
+                    how many sessions you&apos;ve shared since they left.
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -286,7 +768,7 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
               Control how subscribers can interact with you.
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             {/* DM Toggle */}
             <div className="flex items-center justify-between rounded-lg border border-border p-4">
               <div className="space-y-0.5">
@@ -303,6 +785,177 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
                 onCheckedChange={setDmEnabled}
               />
             </div>
+
+            {/* DM Tier Requirement */}
+            {dmEnabled && tiers.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="dmMinTier">Who can message you</Label>
+                <Select
+                  items={dmTierItems}
+                  value={dmMinTierId ?? "any"}
+                  onValueChange={(v) =>
+                    setDmMinTierId(v === "any" ? null : (v as string))
+                  }
+                >
+                  <SelectTrigger id="dmMinTier" className="max-w-[280px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dmTierItems.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {dmEnabled && (
+              <>
+                {/* DM Waiting Period */}
+                <div className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="dmWait" className="text-base">
+                        Waiting period
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        {dmWaitEnabled && dmMinSubscribedDays !== null
+                          ? `Subscribers can message you after ${dmMinSubscribedDays} ${dmMinSubscribedDays === 1 ? "day" : "days"} of subscribing.`
+                          : "Only let subscribers message you once they've been subscribed for a while."}
+                      </p>
+                    </div>
+                    <Switch
+                      id="dmWait"
+                      checked={dmWaitEnabled}
+                      onCheckedChange={setDmWaitEnabled}
+                    />
+                  </div>
+                  {dmWaitEnabled && (
+                    <div className="space-y-2">
+                      <Label htmlFor="dmWaitDays">Waiting period (days)</Label>
+                      <Input
+                        id="dmWaitDays"
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        max={MAX_DM_MIN_SUBSCRIBED_DAYS}
+                        value={dmWaitDaysInput}
+                        onChange={(e) => setDmWaitDaysInput(e.target.value)}
+                        className="max-w-[120px]"
+                        aria-invalid={dmMinSubscribedDays === null}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Message Requests */}
+                <div className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="dmRequests" className="text-base">
+                        Message requests
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        Let followers, and subscribers who can&apos;t message
+                        you yet, send one request for you to accept or
+                        decline.
+                      </p>
+                    </div>
+                    <Switch
+                      id="dmRequests"
+                      checked={dmFollowerRequests}
+                      onCheckedChange={setDmFollowerRequests}
+                    />
+                  </div>
+                  {dmFollowerRequests && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="dmPaidRequests">
+                          Charge for requests
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          {dmPaidRequests && dmRequestPriceCents !== null
+                            ? `Requests cost ${formatPriceCents(dmRequestPriceCents)}. Declined requests are refunded.`
+                            : "Ask for a one-time payment with each request."}
+                        </p>
+                      </div>
+                      <Switch
+                        id="dmPaidRequests"
+                        checked={dmPaidRequests}
+                        onCheckedChange={setDmPaidRequests}
+                      />
+                    </div>
+                  )}
+                  {dmFollowerRequests && dmPaidRequests && (
+                    <div className="space-y-2">
+                      <div className="relative max-w-[160px]">
+                        <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                          $
+                        </span>
+                        <Input
+                          id="dmRequestPrice"
+                          inputMode="decimal"
+                          value={dmRequestPrice}
+                          onChange={(e) => setDmRequestPrice(e.target.value)}
+                          className="pl-7"
+                          aria-label="Message request price in dollars"
+                          aria-invalid={dmRequestPriceCents === null}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Any amount from{" "}
+                        {formatPriceCents(MIN_DM_REQUEST_PRICE_CENTS)} to{" "}
+                        {formatPriceCents(MAX_DM_REQUEST_PRICE_CENTS)}. Needs a
+                        connected Stripe account.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* DM Daily Limit */}
+                <div className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="dmLimit" className="text-base">
+                        Daily message limit
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        {dmLimitEnabled && dmDailyLimit !== null
+                          ? `Stop taking new direct messages after ${dmDailyLimit} in 24 hours.`
+                          : "Cap how many direct messages you receive each day."}
+                      </p>
+                    </div>
+                    <Switch
+                      id="dmLimit"
+                      checked={dmLimitEnabled}
+                      onCheckedChange={setDmLimitEnabled}
+                    />
+                  </div>
+                  {dmLimitEnabled && (
+                    <div className="space-y-2">
+                      <Label htmlFor="dmDailyLimit">Messages per day</Label>
+                      <Input
+                        id="dmDailyLimit"
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        max={MAX_DM_DAILY_LIMIT}
+                        value={dmDailyLimitInput}
+                        onChange={(e) => setDmDailyLimitInput(e.target.value)}
+                        className="max-w-[120px]"
+                        aria-invalid={dmDailyLimit === null}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        1 to {MAX_DM_DAILY_LIMIT} messages. Message
+                        requests don&apos;t count towards the limit.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -341,6 +994,22 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
         </div>
       </form>
 
+      <MembershipTiersCard
+        tiers={tiers}
+        onTiersChange={(updated) => {
+          setTiers(updated);
+          // Deleted tiers no longer gate DMs
+          if (dmMinTierId && !updated.some((t) => t.id === dmMinTierId)) {
+            setDmMinTierId(null);
+          }
+        }}
+      />
+
+      <PromoCodesCard
+        promoCodes={initialPromoCodes}
+        creatorHandle={initialSettings.handle}
+      />
+
       {/* Account Info (Read-only) */}
       <Card>
         <CardHeader>
@@ -379,3 +1048,12 @@ export function SettingsClient({ initialSettings }: SettingsClientProps) {
     </div>
   );
 }
+
+/**
+ * Parse a whole number between 1 and max, or null if the input isn't one
+ */
+function parseWholeNumber(input: string, max: number): number | null {
+  if (!/^\d+$/.test(input.trim())) return null;
+  const value = Number(input);
+  return value >= 1 && value <= max ? value : null;
+}
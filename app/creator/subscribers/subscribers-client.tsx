@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ExportMenu } from "@/components/creator";
 import { Loader2, Search, Users } from "lucide-react";
 import type { SubscriberItem } from "@/lib/validations/analytics";
 
@@ -138,12 +139,26 @@ export function SubscribersClient({
   return (
     <div className="space-y-6">
       {/* Page Header */}
-      <div>
-        <h1 className="text-2xl font-semibold">Subscribers</h1>
-        <p className="mt-1 text-muted-foreground">
-          {total} {total === 1 ? "subscriber" : "subscribers"} supporting your
-          content.
-        </p>
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Subscribers</h1>
+          <p className="mt-1 text-muted-foreground">
+            {total} {total === 1 ? "subscriber" : "subscribers"} supporting
+            your content.
+          </p>
+        </div>
+        <ExportMenu
+          reports={[
+            {
+              label: "Subscribers",
+              path: "/api/creator/subscribers/export",
+              params: {
+                status: statusFilter,
+                ...(debouncedSearch && { search: debouncedSearch }),
+              },
+            },
+          ]}
+        />
       </div>
 
       {/* Filters */}
@@ -22,6 +22,7 @@ interface Creator {
   coverImageUrl: string | null;
   category: CreatorCategory;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
   trialEnabled: boolean;
   isVerified: boolean;
   subscriberCount: number;
@@ -213,6 +214,7 @@ export function ExplorePageClient({
                   coverImageUrl={creator.coverImageUrl}
                   category={creator.category}
                   subscriptionPrice={creator.subscriptionPrice}
+                  customPriceCents={creator.customPriceCents}
                   trialEnabled={creator.trialEnabled}
                   isVerified={creator.isVerified}
                   subscriberCount={creator.subscriberCount}
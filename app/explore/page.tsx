@@ -123,6 +123,7 @@ async function getInitialCreators(
       coverImageUrl: true,
       category: true,
       subscriptionPrice: true,
+      customPriceCents: true,
       trialEnabled: true,
       isVerified: true,
       isFeatured: true,
@@ -157,6 +158,7 @@ async function getInitialCreators(
       coverImageUrl: c.coverImageUrl,
       category: c.category,
       subscriptionPrice: c.subscriptionPrice,
+      customPriceCents: c.customPriceCents,
       trialEnabled: c.trialEnabled,
       isVerified: c.isVerified,
       subscriberCount: c._count.subscriptions,
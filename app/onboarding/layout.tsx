@@ -0,0 +1,45 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "Get Started | breathwithmagic",
+  description:
+    "Answer a few quick questions and we'll recommend creators who match your practice goals.",
+};
+
+/**
+ * Layout for the subscriber onboarding quiz.
+ *
+ * Minimal, focused layout matching the creator onboarding flow.
+ * Exit goes to the feed; progress is saved so the quiz can be resumed.
+ */
+export default function OnboardingLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Simple header */}
+      <header className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="mx-auto flex h-14 max-w-2xl items-center justify-between px-4">
+          <Link
+            href="/"
+            className="text-lg font-semibold text-foreground transition-colors hover:text-primary"
+          >
+            breathwithmagic
+          </Link>
+          <Link
+            href="/home"
+            className="text-sm text-muted-foreground transition-colors hover:text-foreground"
+          >
+            Exit
+          </Link>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="mx-auto max-w-2xl px-4 py-8 sm:py-12">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { OnboardingProgress } from "@/components/creator-onboarding";
+import {
+  QuizQuestion,
+  StepRecommendations,
+  StepWelcome,
+} from "@/components/subscriber-onboarding";
+import type { CreatorRecommendation } from "@/lib/recommendations";
+import {
+  ONBOARDING_STEPS,
+  experienceLevelInfo,
+  preferredTimeInfo,
+  primaryGoalInfo,
+  timeCommitmentInfo,
+  wellnessModalityInfo,
+  type OnboardingState,
+  type OnboardingStep,
+  type QuizAnswers,
+} from "@/lib/validations/onboarding";
+
+/**
+ * Progress bar titles, one per entry in ONBOARDING_STEPS
+ */
+const STEPS: { title: string }[] = [
+  { title: "Welcome" },
+  { title: "Your goal" },
+  { title: "Experience" },
+  { title: "Practice time" },
+  { title: "Time commitment" },
+  { title: "Practices" },
+  { title: "Your picks" },
+];
+
+/**
+ * Turn a label/description record into QuizQuestion options
+ */
+function toOptions<T extends string>(
+  info: Record<T, { label: string; description: string }>,
+) {
+  return (Object.keys(info) as T[]).map((value) => ({
+    value,
+    ...info[value],
+  }));
+}
+
+/**
+ * Subscriber Onboarding Page
+ *
+ * Resumable quiz that matches new subscribers with creators.
+ * Steps:
+ * 1. Welcome & consent
+ * 2-6. Goal, experience, practice time, time commitment, modalities
+ * 7. Personalized recommendations
+ *
+ * Progress is saved to /api/onboarding after every step so the quiz
+ * can be picked up on any device.
+ */
+export default function OnboardingPage() {
+  const router = useRouter();
+
+  const [step, setStep] = useState<OnboardingStep>("welcome");
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [consentGiven, setConsentGiven] = useState(false);
+  const [recommendations, setRecommendations] = useState<
+    CreatorRecommendation[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stepIndex = ONBOARDING_STEPS.indexOf(step);
+
+  const applyState = (state: OnboardingState) => {
+    setAnswers(state.answers);
+    setConsentGiven(state.consentGiven);
+    // The recommendations step needs fresh results, so resume on the last question
+    setStep(
+      state.currentStep === "recommendations" ? "q-modalities" : state.currentStep,
+    );
+  };
+
+  const startOnboarding = async (restart: boolean) => {
+    const response = await fetch("/api/onboarding/start", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ restart }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to start onboarding");
+    }
+
+    return data.onboarding as OnboardingState;
+  };
+
+  /**
+   * Load saved state on mount. Visiting /onboarding after skipping or
+   * completing the quiz starts it over with previous answers pre-filled.
+   */
+  const loadOnboarding = useCallback(async () => {
+    try {
+      let state = await startOnboarding(false);
+      if (!state.canResume) {
+        state = await startOnboarding(true);
+      }
+      applyState(state);
+    } catch (err) {
+      console.error("Error loading onboarding:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load onboarding",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOnboarding();
+  }, [loadOnboarding]);
+
+  const goTo = (next: OnboardingStep) => {
+    setStep(next);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  /**
+   * Save progress, then advance. The saved step is the one the user is
+   * moving to, so resuming lands on the next unanswered question.
+   */
+  const saveAndContinue = async (body: {
+    answers?: QuizAnswers;
+    consentGiven?: boolean;
+  }) => {
+    if (isSubmitting) return;
+
+    const nextStep = ONBOARDING_STEPS[stepIndex + 1];
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/onboarding/progress", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ step: nextStep, ...body }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save progress");
+      }
+
+      if (nextStep === "recommendations") {
+        const completeResponse = await fetch("/api/onboarding/complete", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ answers }),
+        });
+        const data = await completeResponse.json();
+
+        if (!completeResponse.ok) {
+          throw new Error(data.error || "Failed to load recommendations");
+        }
+
+        setRecommendations(data.recommendations);
+      }
+
+      goTo(nextStep);
+    } catch (err) {
+      console.error("Error saving onboarding progress:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (stepIndex > 0 && !isSubmitting) {
+      goTo(ONBOARDING_STEPS[stepIndex - 1]);
+    }
+  };
+
+  /**
+   * Skip the quiz and go browse. Failures are logged but never block
+   * the user from leaving.
+   */
+  const handleSkip = async () => {
+    setIsSubmitting(true);
+    try {
+      await fetch("/api/onboarding/skip", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromStep: step }),
+      });
+    } catch (err) {
+      console.error("Error skipping onboarding:", err);
+    }
+    router.push("/explore");
+  };
+
+  const handleRetake = async () => {
+    setIsSubmitting(true);
+    try {
+      applyState(await startOnboarding(true));
+      setRecommendations([]);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const questionProps = {
+    onNext: () => saveAndContinue({ answers }),
+    onBack: handleBack,
+    onSkip: handleSkip,
+    isLoading: isSubmitting,
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[60vh] flex-col items-center justify-center">
+        <Loader2 className="size-8 animate-spin text-primary" />
+        <p className="mt-4 text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <OnboardingProgress
+        currentStep={stepIndex}
+        totalSteps={STEPS.length}
+        steps={STEPS}
+      />
+
+      {error && (
+        <p
+          className="rounded-xl border border-destructive/30 bg-destructive/5 p-4 text-sm text-destructive"
+          role="alert"
+        >
+          {error}
+        </p>
+      )}
+
+      <div className="rounded-2xl border border-border bg-card p-6 shadow-sm sm:p-8">
+        {step === "welcome" && (
+          <StepWelcome
+            consentGiven={consentGiven}
+            onConsentChange={setConsentGiven}
+            onNext={() => saveAndContinue({ consentGiven })}
+            onSkip={handleSkip}
+            isLoading={isSubmitting}
+          />
+        )}
+
+        {step === "q-goal" && (
+          <QuizQuestion
+            question="What brings you here?"
+            options={toOptions(primaryGoalInfo)}
+            selected={answers.primaryGoal ? [answers.primaryGoal] : []}
+            onChange={([primaryGoal]) =>
+              setAnswers((prev) => ({ ...prev, primaryGoal }))
+            }
+            {...questionProps}
+          />
+        )}
+
+        {step === "q-experience" && (
+          <QuizQuestion
+            question="How would you describe your practice?"
+            options={toOptions(experienceLevelInfo)}
+            selected={answers.experienceLevel ? [answers.experienceLevel] : []}
+            onChange={([experienceLevel]) =>
+              setAnswers((prev) => ({ ...prev, experienceLevel }))
+            }
+            {...questionProps}
+          />
+        )}
+
+        {step === "q-time" && (
+          <QuizQuestion
+            question="When do you usually practice?"
+            options={toOptions(preferredTimeInfo)}
+            selected={answers.preferredTime ? [answers.preferredTime] : []}
+            onChange={([preferredTime]) =>
+              setAnswers((prev) => ({ ...prev, preferredTime }))
+            }
+            {...questionProps}
+          />
+        )}
+
+        {step === "q-commitment" && (
+          <QuizQuestion
+            question="How much time can you give each day?"
+            options={toOptions(timeCommitmentInfo)}
+            selected={answers.timeCommitment ? [answers.timeCommitment] : []}
+            onChange={([timeCommitment]) =>
+              setAnswers((prev) => ({ ...prev, timeCommitment }))
+            }
+            {...questionProps}
+          />
+        )}
+
+        {step === "q-modalities" && (
+          <QuizQuestion
+            question="Which practices interest you?"
+            helpText="Choose as many as you like."
+            options={toOptions(wellnessModalityInfo)}
+            selected={answers.interestedModalities ?? []}
+            multiple
+            onChange={(interestedModalities) =>
+              setAnswers((prev) => ({ ...prev, interestedModalities }))
+            }
+            {...questionProps}
+          />
+        )}
+
+        {step === "recommendations" && (
+          <StepRecommendations
+            recommendations={recommendations}
+            onRetake={handleRetake}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
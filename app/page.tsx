@@ -206,6 +206,7 @@ interface FeaturedCreator {
   coverImageUrl: string | null;
   category: CreatorCategory;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
   trialEnabled: boolean;
   isVerified: boolean;
   _count: {
@@ -247,6 +248,7 @@ async function FeaturedCreators() {
         coverImageUrl: true,
         category: true,
         subscriptionPrice: true,
+        customPriceCents: true,
         trialEnabled: true,
         isVerified: true,
         _count: {
@@ -290,6 +292,7 @@ async function FeaturedCreators() {
           coverImageUrl={creator.coverImageUrl}
           category={creator.category}
           subscriptionPrice={creator.subscriptionPrice}
+          customPriceCents={creator.customPriceCents}
           trialEnabled={creator.trialEnabled}
           isVerified={creator.isVerified}
           subscriberCount={creator._count.subscriptions}
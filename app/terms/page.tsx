@@ -119,8 +119,8 @@ export default function TermsPage() {
             <ul className="text-muted-foreground space-y-2">
               <li>Prices are set by creators and shown before you subscribe</li>
               <li>
-                Some creators offer a 7-day free trial. You can try one trial
-                per creator.
+                Some creators offer a free trial, and promo codes may extend
+                it. You can try one trial per creator.
               </li>
               <li>
                 If a creator changes their price, you keep your original price
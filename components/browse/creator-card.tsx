@@ -3,20 +3,11 @@ import Link from "next/link";
 import { CreatorCategory, SubscriptionPriceTier } from "@prisma/client";
 
 import { cn } from "@/lib/utils";
+import { getPriceDisplay } from "@/lib/pricing";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 
-/**
- * Maps subscription price tiers to display values
- */
-const PRICE_DISPLAY: Record<SubscriptionPriceTier, string> = {
-  TIER_500: "$5",
-  TIER_1000: "$10",
-  TIER_2000: "$20",
-  TIER_3000: "$30",
-};
-
 /**
  * Maps category enums to human-readable labels
  */
@@ -48,6 +39,8 @@ export interface CreatorCardProps {
   category: CreatorCategory;
   /** Subscription price tier */
   subscriptionPrice: SubscriptionPriceTier;
+  /** Custom monthly price in cents (overrides the tier when set) */
+  customPriceCents?: number | null;
   /** Whether trial is enabled */
   trialEnabled?: boolean;
   /** Whether creator is verified */
@@ -74,6 +67,7 @@ export function CreatorCard({
   coverImageUrl,
   category,
   subscriptionPrice,
+  customPriceCents = null,
   trialEnabled = false,
   isVerified = false,
   subscriberCount,
@@ -87,6 +81,8 @@ export function CreatorCard({
     .toUpperCase()
     .slice(0, 2);
 
+  const price = getPriceDisplay({ subscriptionPrice, customPriceCents });
+
   return (
     <Link href={`/${handle}`} className="block group">
       <Card
@@ -163,12 +159,12 @@ export function CreatorCard({
           <div className="flex items-center justify-between mt-4 pt-4 border-t border-border">
             <div>
               <span className="font-semibold text-foreground">
-                {PRICE_DISPLAY[subscriptionPrice]}
+                {price.amount}
               </span>
               <span className="text-muted-foreground">/month</span>
               {trialEnabled && (
                 <span className="text-xs text-muted-foreground block">
-                  7-day free trial
+                  Free trial available
                 </span>
               )}
             </div>
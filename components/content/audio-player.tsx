@@ -75,6 +75,9 @@ export function AudioPlayer({
 }: AudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const progressSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Where to seek once the audio loads. Follows playback so a refreshed
+  // signed URL picks up where the old one left off.
+  const resumePositionRef = useRef(initialPosition);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
@@ -94,8 +97,11 @@ export function AudioPlayer({
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             watchDuration: Math.floor(time),
+            position: Math.floor(time),
             completed,
           }),
+          // Let the final save on unmount finish after navigating away
+          keepalive: true,
         });
       } catch (error) {
         console.error("Failed to save progress:", error);
@@ -225,18 +231,19 @@ export function AudioPlayer({
   const handleTimeUpdate = useCallback(() => {
     if (audioRef.current) {
       setCurrentTime(audioRef.current.currentTime);
+      resumePositionRef.current = audioRef.current.currentTime;
     }
   }, []);
 
   const handleLoadedMetadata = useCallback(() => {
     if (audioRef.current) {
       setAudioDuration(audioRef.current.duration);
-      if (initialPosition > 0) {
-        audioRef.current.currentTime = initialPosition;
+      if (resumePositionRef.current > 0) {
+        audioRef.current.currentTime = resumePositionRef.current;
       }
     }
     setIsLoading(false);
-  }, [initialPosition]);
+  }, []);
 
   const handleWaiting = useCallback(() => {
     setIsLoading(true);
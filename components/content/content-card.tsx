@@ -9,9 +9,12 @@ import {
   MoreVertical,
   Lock,
   Eye,
+  Loader2,
+  AlertCircle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,8 +24,13 @@ import {
 import {
   formatDuration,
   getContentStatusVariant,
+  getMediaStatusLabel,
+} from "@/lib/validations/content";
+import type {
+  ContentType,
+  ContentStatus,
+  MediaStatus,
 } from "@/lib/validations/content";
-import type { ContentType, ContentStatus } from "@/lib/validations/content";
 
 /**
  * ContentCard Props
@@ -36,11 +44,18 @@ export interface ContentCardProps {
   duration?: number | null;
   isFree: boolean;
   status: ContentStatus;
+  /** Video processing state, shown until the video is ready */
+  mediaStatus?: MediaStatus | null;
+  /** Encode progress (0-100) while processing */
+  mediaProgress?: number | null;
+  /** Why processing failed */
+  mediaError?: string | null;
   program?: {
     id: string;
     title: string;
   } | null;
   publishedAt?: Date | string | null;
+  scheduledAt?: Date | string | null;
   createdAt: Date | string;
   onEdit?: () => void;
   onDelete?: () => void;
@@ -84,8 +99,12 @@ export function ContentCard({
   duration,
   isFree,
   status,
+  mediaStatus,
+  mediaProgress,
+  mediaError,
   program,
   publishedAt,
+  scheduledAt,
   createdAt,
   onEdit,
   onDelete,
@@ -97,6 +116,10 @@ export function ContentCard({
   const formattedDuration = duration ? formatDuration(duration) : null;
   const createdDate = new Date(createdAt);
   const publishedDate = publishedAt ? new Date(publishedAt) : null;
+  const scheduledDate = scheduledAt ? new Date(scheduledAt) : null;
+  // Video still encoding, or failed to
+  const pendingMediaStatus =
+    type === "video" && mediaStatus !== "ready" ? mediaStatus : null;
 
   return (
     <div
@@ -165,6 +188,11 @@ export function ContentCard({
               {onPublish && status === "draft" && (
                 <DropdownMenuItem onClick={onPublish}>Publish</DropdownMenuItem>
               )}
+              {onPublish && status === "scheduled" && (
+                <DropdownMenuItem onClick={onPublish}>
+                  Publish now
+                </DropdownMenuItem>
+              )}
               {onArchive && status === "published" && (
                 <DropdownMenuItem onClick={onArchive}>Archive</DropdownMenuItem>
               )}
@@ -193,6 +221,25 @@ export function ContentCard({
             {status}
           </Badge>
 
+          {pendingMediaStatus && (
+            <Badge
+              variant={
+                pendingMediaStatus === "errored" ? "destructive" : "secondary"
+              }
+              className="text-xs"
+            >
+              {pendingMediaStatus === "errored" ? (
+                <AlertCircle className="mr-1 size-3" />
+              ) : (
+                <Loader2 className="mr-1 size-3 animate-spin" />
+              )}
+              {getMediaStatusLabel(pendingMediaStatus)}
+              {pendingMediaStatus === "processing" &&
+                mediaProgress != null &&
+                ` ${mediaProgress}%`}
+            </Badge>
+          )}
+
           {isFree ? (
             <Badge variant="secondary" className="text-xs">
               <Eye className="mr-1 size-3" />
@@ -212,11 +259,27 @@ export function ContentCard({
           )}
         </div>
 
+        {/* Video processing progress and failure reason */}
+        {pendingMediaStatus === "processing" && (
+          <Progress
+            value={mediaProgress ?? 0}
+            className="mt-2 h-1.5 max-w-xs"
+            aria-label="Video processing progress"
+          />
+        )}
+        {pendingMediaStatus === "errored" && (
+          <p className="mt-2 text-xs text-destructive">
+            {mediaError || "Video processing failed"}
+          </p>
+        )}
+
         {/* Date */}
         <div className="mt-auto pt-2 text-xs text-muted-foreground">
           {status === "published" && publishedDate
             ? `Published ${publishedDate.toLocaleDateString()}`
-            : `Created ${createdDate.toLocaleDateString()}`}
+            : status === "scheduled" && scheduledDate
+              ? `Scheduled for ${scheduledDate.toLocaleString()}`
+              : `Created ${createdDate.toLocaleDateString()}`}
         </div>
       </div>
     </div>
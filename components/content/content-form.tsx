@@ -21,6 +21,7 @@ import { VideoUploader } from "./video-uploader";
 import { AudioUploader } from "./audio-uploader";
 import { ThumbnailUploader } from "./thumbnail-uploader";
 import { RichTextEditor } from "./rich-text-editor";
+import { ScheduleField } from "./schedule-field";
 import type { ContentType, ContentStatus } from "@/lib/validations/content";
 
 /**
@@ -47,6 +48,7 @@ interface ContentFormProps {
     isFree: boolean;
     status: ContentStatus;
     programId?: string | null;
+    scheduledAt?: string | null;
   };
   programs?: ProgramOption[];
   onSuccess?: (contentId: string) => void;
@@ -89,6 +91,11 @@ export function ContentForm({
   const [programId, setProgramId] = useState<string | null>(
     initialData?.programId || null,
   );
+  const [scheduledAt, setScheduledAt] = useState<string | null>(
+    initialData?.status === "scheduled"
+      ? (initialData.scheduledAt ?? null)
+      : null,
+  );
 
   // UI state
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -97,6 +104,12 @@ export function ContentForm({
   // In edit mode, type is locked
   const typeIsLocked = mode === "edit" && !!initialData?.type;
 
+  // Published and archived content can't go back to being scheduled
+  const canSchedule =
+    !initialData ||
+    initialData.status === "draft" ||
+    initialData.status === "scheduled";
+
   /**
    * Handle video upload complete
    */
@@ -135,10 +148,10 @@ export function ContentForm({
   };
 
   /**
-   * Publish content
+   * Publish content now, or schedule it when a publish time is set
    */
   const handlePublish = async () => {
-    await submitContent("published");
+    await submitContent(scheduledAt ? "scheduled" : "published");
   };
 
   /**
@@ -155,8 +168,8 @@ export function ContentForm({
       return;
     }
 
-    // For video/audio, media is required to publish
-    if (status === "published" && (type === "video" || type === "audio")) {
+    // For video/audio, media is required to publish or schedule
+    if (status !== "draft" && (type === "video" || type === "audio")) {
       if (!mediaUrl) {
         setError(`Please upload a ${type} file before publishing`);
         return;
@@ -182,6 +195,7 @@ export function ContentForm({
         duration: duration || null,
         isFree,
         status,
+        scheduledAt: status === "scheduled" ? scheduledAt : null,
         programId: programId || null,
       };
 
@@ -425,6 +439,16 @@ export function ContentForm({
                 />
               </div>
 
+              {/* Scheduled publishing (until the content goes live) */}
+              {canSchedule && (
+                <ScheduleField
+                  value={scheduledAt}
+                  onChange={setScheduledAt}
+                  itemLabel="this content"
+                  disabled={isSubmitting}
+                />
+              )}
+
               {/* Program selection */}
               {programs.length > 0 && (
                 <div className="space-y-2">
@@ -479,7 +503,7 @@ export function ContentForm({
               ) : (
                 <Eye className="mr-2 size-4" />
               )}
-              Publish
+              {scheduledAt ? "Schedule" : "Publish"}
             </Button>
           </section>
         </>
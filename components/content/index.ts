@@ -16,6 +16,7 @@ export { VideoUploader } from "./video-uploader";
 export { AudioUploader } from "./audio-uploader";
 export { ThumbnailUploader } from "./thumbnail-uploader";
 export { RichTextEditor } from "./rich-text-editor";
+export { PurchasePriceField } from "./purchase-price-field";
 
 // Consumer-facing components
 export { VideoPlayer } from "./video-player";
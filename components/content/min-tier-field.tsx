@@ -0,0 +1,83 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/**
+ * A membership tier content can be gated on
+ */
+export interface MinTierOption {
+  id: string;
+  name: string;
+}
+
+interface MinTierFieldProps {
+  /** Creator's tiers, lowest first */
+  tiers: MinTierOption[];
+  /** Required tier ID, or null when any subscriber has access */
+  value: string | null;
+  onChange: (tierId: string | null) => void;
+  /** What is being gated, for the helper text (e.g. "this post") */
+  itemLabel: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * MinTierField - Select the lowest membership tier with access
+ *
+ * Renders nothing for creators without tiers.
+ */
+export function MinTierField({
+  tiers,
+  value,
+  onChange,
+  itemLabel,
+  disabled = false,
+  className,
+}: MinTierFieldProps) {
+  if (tiers.length === 0) {
+    return null;
+  }
+
+  const items = [
+    { value: "any", label: "All subscribers" },
+    ...tiers.map((tier) => ({
+      value: tier.id,
+      label: `${tier.name} and above`,
+    })),
+  ];
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Label htmlFor="min-tier">Who can access</Label>
+      <Select
+        items={items}
+        value={value ?? "any"}
+        onValueChange={(v) => onChange(v === "any" ? null : (v as string))}
+        disabled={disabled}
+      >
+        <SelectTrigger id="min-tier">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {items.map((item) => (
+            <SelectItem key={item.value} value={item.value}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground">
+        Members of lower tiers can upgrade to unlock {itemLabel}
+      </p>
+    </div>
+  );
+}
@@ -4,15 +4,54 @@
  * PaywallOverlay - Blurred content preview with subscription CTA
  *
  * Displays a blurred thumbnail with lock icon and subscription prompt
- * for content that requires a paid subscription.
+ * for content that requires a paid subscription. When the content (or its
+ * program) is sold individually, a "Buy for $X" option is shown as well.
+ * Tier-gated content names the membership tier to join, or to upgrade to
+ * for subscribers on a lower tier. Program items that haven't unlocked
+ * yet show their unlock date instead, or a prompt to start the program.
  */
 
+import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { Lock } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import { Loader2, Lock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { buttonVariants } from "@/lib/button-variants";
 
+/**
+ * One-time purchase offered alongside the subscription
+ */
+export interface PaywallPurchaseOption {
+  /** Set when buying this piece of content */
+  contentId?: string;
+  /** Set when buying the whole program the content belongs to */
+  programId?: string;
+  /** Formatted price (e.g., "$5") */
+  price: string;
+  /** Program title, shown when buying a program */
+  programTitle?: string;
+}
+
+/**
+ * Program unlock schedule holding back content the user otherwise has
+ */
+export interface PaywallProgramLock {
+  programId: string;
+  programTitle: string;
+  /** ISO date the content unlocks; null until the program is started */
+  unlocksAt: string | null;
+}
+
+/**
+ * Membership tier required for tier-gated content
+ */
+export interface PaywallTierRequirement {
+  name: string;
+  /** Formatted monthly price (e.g., "$25") */
+  price: string;
+}
+
 interface PaywallOverlayProps {
   /** Thumbnail URL to blur */
   thumbnailUrl?: string | null;
@@ -20,12 +59,20 @@ interface PaywallOverlayProps {
   creatorHandle: string;
   /** Subscription price display (e.g., "$10") */
   price: string;
-  /** Whether trial is available */
-  trialEnabled?: boolean;
+  /** Free trial length in days, 0 if the creator has no trial */
+  trialDays?: number;
   /** Whether user is authenticated */
   isAuthenticated?: boolean;
   /** Content title for accessibility */
   contentTitle?: string;
+  /** One-time purchase option, if the content is sold individually */
+  purchase?: PaywallPurchaseOption | null;
+  /** Tier required, if the content is tier-gated */
+  requiredTier?: PaywallTierRequirement | null;
+  /** Whether the user subscribes at a lower tier than required */
+  needsUpgrade?: boolean;
+  /** Set when the content is a program item that hasn't unlocked yet */
+  programLock?: PaywallProgramLock | null;
   /** Custom className */
   className?: string;
 }
@@ -34,14 +81,62 @@ export function PaywallOverlay({
   thumbnailUrl,
   creatorHandle,
   price,
-  trialEnabled = false,
+  trialDays = 0,
   isAuthenticated = false,
   contentTitle,
+  purchase,
+  requiredTier,
+  needsUpgrade = false,
+  programLock,
   className,
 }: PaywallOverlayProps) {
-  const subscribeUrl = isAuthenticated
-    ? `/${creatorHandle}?subscribe=true`
-    : `/sign-up?redirect_url=/${creatorHandle}`;
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [purchaseError, setPurchaseError] = useState<string | null>(null);
+
+  const subscribeUrl = needsUpgrade
+    ? "/subscriptions"
+    : isAuthenticated
+      ? `/${creatorHandle}?subscribe=true`
+      : `/sign-up?redirect_url=/${creatorHandle}`;
+  const subscribePrice = requiredTier?.price ?? price;
+  const showUpgrade = needsUpgrade && !!requiredTier;
+
+  const handlePurchase = async () => {
+    if (!purchase) return;
+
+    if (!isAuthenticated) {
+      router.push(`/sign-up?redirect_url=${pathname}`);
+      return;
+    }
+
+    setIsPurchasing(true);
+    setPurchaseError(null);
+
+    try {
+      const response = await fetch("/api/purchases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          contentId: purchase.contentId,
+          programId: purchase.programId,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || "Unable to start purchase");
+      }
+
+      window.location.href = data.url;
+    } catch (error) {
+      setPurchaseError(
+        error instanceof Error ? error.message : "Unable to start purchase",
+      );
+      setIsPurchasing(false);
+    }
+  };
 
   return (
     <div
@@ -73,30 +168,123 @@ export function PaywallOverlay({
           <Lock className="w-8 h-8 text-foreground" />
         </div>
 
-        {/* Message */}
-        <p className="text-foreground font-medium mb-1">Subscribe to unlock</p>
-        <p className="text-muted-foreground text-sm mb-4">
-          {trialEnabled ? `7 days free, then ${price}/month` : `${price}/month`}
-          {" "}
-          <Link
-            href="/subscriptions"
-            className="text-muted-foreground/70 hover:underline hover:text-muted-foreground transition-colors"
-          >
-            Cancel anytime
-          </Link>
-        </p>
-
-        {/* CTA Button */}
-        <Link
-          href={subscribeUrl}
-          className={cn(
-            buttonVariants({ size: "lg" }),
-            "min-h-[44px] min-w-[160px]",
-          )}
-        >
-          {trialEnabled ? "Start 7-day trial" : `Subscribe for ${price}/month`}
-        </Link>
+        {programLock ? (
+          <ProgramLockMessage programLock={programLock} />
+        ) : (
+          <>
+            {/* Message */}
+            <p className="text-foreground font-medium mb-1">
+              {showUpgrade
+                ? `Upgrade to ${requiredTier.name} to unlock`
+                : requiredTier
+                  ? `Join ${requiredTier.name} to unlock`
+                  : "Subscribe to unlock"}
+            </p>
+            {showUpgrade ? (
+              <p className="text-muted-foreground text-sm mb-4">
+                Your current membership doesn&apos;t include this.{" "}
+                {subscribePrice}/month, prorated for this billing period.
+              </p>
+            ) : (
+              <p className="text-muted-foreground text-sm mb-4">
+                {trialDays > 0
+                  ? `${trialDays} days free, then ${subscribePrice}/month`
+                  : `${subscribePrice}/month`}{" "}
+                <Link
+                  href="/subscriptions"
+                  className="text-muted-foreground/70 hover:underline hover:text-muted-foreground transition-colors"
+                >
+                  Cancel anytime
+                </Link>
+              </p>
+            )}
+
+            {/* CTA Button */}
+            <Link
+              href={subscribeUrl}
+              className={cn(
+                buttonVariants({ size: "lg" }),
+                "min-h-[44px] min-w-[160px]",
+              )}
+            >
+              {showUpgrade
+                ? `Upgrade to ${requiredTier.name}`
+                : trialDays > 0
+                  ? `Start ${trialDays}-day trial`
+                  : `Subscribe for ${subscribePrice}/month`}
+            </Link>
+
+            {purchase && (
+              <>
+                <button
+                  type="button"
+                  onClick={handlePurchase}
+                  disabled={isPurchasing}
+                  className={cn(
+                    buttonVariants({ variant: "outline", size: "lg" }),
+                    "mt-2 min-h-[44px] min-w-[160px] bg-background/80",
+                  )}
+                >
+                  {isPurchasing ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : purchase.programTitle ? (
+                    `Buy ${purchase.programTitle} for ${purchase.price}`
+                  ) : (
+                    `Buy for ${purchase.price}`
+                  )}
+                </button>
+                {purchaseError && (
+                  <p className="text-sm text-destructive mt-2" role="alert">
+                    {purchaseError}
+                  </p>
+                )}
+              </>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
 }
+
+/**
+ * Unlock date, or a prompt to start the program, for a locked program item
+ */
+function ProgramLockMessage({
+  programLock,
+}: {
+  programLock: PaywallProgramLock;
+}) {
+  const unlocksOn = programLock.unlocksAt
+    ? new Date(programLock.unlocksAt).toLocaleDateString("en-US", {
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+      })
+    : null;
+
+  return (
+    <>
+      <p className="text-foreground font-medium mb-1">
+        {unlocksOn
+          ? `Unlocks on ${unlocksOn}`
+          : `Start ${programLock.programTitle} to unlock`}
+      </p>
+      <p className="text-muted-foreground text-sm mb-4">
+        {unlocksOn
+          ? `This is part of ${programLock.programTitle}. Take it one day at a time.`
+          : "Each part of the program unlocks on its day, counted from when you start."}
+      </p>
+
+      <Link
+        href={`/programs/${programLock.programId}`}
+        className={cn(
+          buttonVariants({ size: "lg" }),
+          "min-h-[44px] min-w-[160px]",
+        )}
+      >
+        {unlocksOn ? "View your progress" : "Start the program"}
+      </Link>
+    </>
+  );
+}
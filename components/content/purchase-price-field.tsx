@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { formatPriceCents, parseDollarsToCents } from "@/lib/pricing";
+import {
+  MAX_PURCHASE_PRICE_CENTS,
+  MIN_PURCHASE_PRICE_CENTS,
+} from "@/lib/validations/content";
+
+const DEFAULT_PURCHASE_PRICE_CENTS = 500;
+
+interface PurchasePriceFieldProps {
+  /** Purchase price in cents, or null when not sold individually */
+  value: number | null;
+  onChange: (priceCents: number | null) => void;
+  /** What is being sold, for the helper text (e.g. "this post") */
+  itemLabel: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * PurchasePriceField - Toggle and price input for one-time purchases
+ *
+ * Lets creators sell a piece of content or a program to non-subscribers.
+ * Only valid amounts are reported through onChange; the last valid price
+ * is kept while the input is being edited.
+ */
+export function PurchasePriceField({
+  value,
+  onChange,
+  itemLabel,
+  disabled = false,
+  className,
+}: PurchasePriceFieldProps) {
+  const [priceInput, setPriceInput] = useState(
+    value !== null ? (value / 100).toString() : "",
+  );
+
+  const parsedCents = parseDollarsToCents(priceInput);
+  const priceError =
+    value !== null && priceInput !== ""
+      ? parsedCents === null
+        ? "Enter a dollar amount, like 5 or 4.99"
+        : parsedCents < MIN_PURCHASE_PRICE_CENTS ||
+            parsedCents > MAX_PURCHASE_PRICE_CENTS
+          ? `Price must be between ${formatPriceCents(MIN_PURCHASE_PRICE_CENTS)} and ${formatPriceCents(MAX_PURCHASE_PRICE_CENTS)}`
+          : null
+      : null;
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    const cents =
+      parsedCents !== null &&
+      parsedCents >= MIN_PURCHASE_PRICE_CENTS &&
+      parsedCents <= MAX_PURCHASE_PRICE_CENTS
+        ? parsedCents
+        : DEFAULT_PURCHASE_PRICE_CENTS;
+    setPriceInput((cents / 100).toString());
+    onChange(cents);
+  };
+
+  const handleInput = (input: string) => {
+    setPriceInput(input);
+    const cents = parseDollarsToCents(input);
+    if (
+      cents !== null &&
+      cents >= MIN_PURCHASE_PRICE_CENTS &&
+      cents <= MAX_PURCHASE_PRICE_CENTS
+    ) {
+      onChange(cents);
+    }
+  };
+
+  return (
+    <div
+      className={cn("rounded-lg border border-border p-4 space-y-3", className)}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="sell-individually" className="text-base">
+            Sell individually
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Let non-subscribers buy {itemLabel} for a one-time price
+          </p>
+        </div>
+        <Switch
+          id="sell-individually"
+          checked={value !== null}
+          onCheckedChange={handleToggle}
+          disabled={disabled}
+        />
+      </div>
+
+      {value !== null && (
+        <div className="space-y-2">
+          <Label htmlFor="purchase-price">Price (USD)</Label>
+          <div className="relative max-w-[200px]">
+            <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+              $
+            </span>
+            <Input
+              id="purchase-price"
+              inputMode="decimal"
+              value={priceInput}
+              onChange={(e) => handleInput(e.target.value)}
+              disabled={disabled}
+              className="pl-7"
+              aria-invalid={priceError !== null}
+              aria-describedby="purchase-price-help"
+            />
+          </div>
+          <p
+            id="purchase-price-help"
+            className={cn(
+              "text-sm",
+              priceError ? "text-destructive" : "text-muted-foreground",
+            )}
+          >
+            {priceError ??
+              `Subscribers always get access at no extra cost. Buyers pay ${formatPriceCents(value)}.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
  *
  * A calm, non-aggressive way for users to report content that violates guidelines.
  * Uses a modal dialog with reason selection and optional description.
+ * Also reports received direct messages and broadcasts, given a messageId.
  *
  * @see PRD Phase 6, Task 18: Content Moderation
  */
@@ -28,15 +29,18 @@ import {
   type ReportReason,
   getReportReasonLabel,
   getReportReasonDescription,
+  messageReportReasonSchema,
 } from "@/lib/validations/report";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface ReportButtonProps {
-  contentId: string;
-  contentTitle?: string;
+type ReportTarget =
+  | { contentId: string; contentTitle?: string; messageId?: never }
+  | { messageId: string; contentId?: never; contentTitle?: never };
+
+type ReportButtonProps = ReportTarget & {
   /** Additional class names for the trigger button */
   className?: string;
   /** Variant for the trigger button */
@@ -45,7 +49,7 @@ interface ReportButtonProps {
   size?: "default" | "sm" | "icon" | "icon-sm";
   /** Whether to show the label text */
   showLabel?: boolean;
-}
+};
 
 type ReportStep = "reason" | "description" | "submitting" | "success" | "error";
 
@@ -62,6 +66,9 @@ const REPORT_REASONS: ReportReason[] = [
   "OTHER",
 ];
 
+const MESSAGE_REPORT_REASONS: ReportReason[] =
+  messageReportReasonSchema.options;
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -69,6 +76,7 @@ const REPORT_REASONS: ReportReason[] = [
 export function ReportButton({
   contentId,
   contentTitle,
+  messageId,
   className,
   variant = "ghost",
   size = "icon-sm",
@@ -82,6 +90,12 @@ export function ReportButton({
   const [description, setDescription] = useState("");
   const [error, setError] = useState<string | null>(null);
 
+  const target = messageId ? "message" : "content";
+  const reasons = messageId ? MESSAGE_REPORT_REASONS : REPORT_REASONS;
+  const reportUrl = messageId
+    ? `/api/messages/${messageId}/report`
+    : `/api/content/${contentId}/report`;
+
   // Reset state when dialog closes
   const handleOpenChange = (isOpen: boolean) => {
     setOpen(isOpen);
@@ -110,7 +124,7 @@ export function ReportButton({
     setError(null);
 
     try {
-      const response = await fetch(`/api/content/${contentId}/report`, {
+      const response = await fetch(reportUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -125,9 +139,9 @@ export function ReportButton({
 
       if (!response.ok) {
         if (response.status === 401) {
-          setError("Please sign in to report content.");
+          setError(`Please sign in to report ${target}.`);
         } else if (response.status === 409) {
-          setError("You have already reported this content.");
+          setError(`You have already reported this ${target}.`);
         } else if (response.status === 429) {
           setError(
             "You've submitted too many reports recently. Please try again later."
@@ -163,7 +177,7 @@ export function ReportButton({
               "text-muted-foreground hover:text-foreground",
               className
             )}
-            aria-label="Report this content"
+            aria-label={`Report this ${target}`}
           />
         }
       >
@@ -176,7 +190,9 @@ export function ReportButton({
         {step === "reason" && (
           <>
             <DialogHeader>
-              <DialogTitle>Report Content</DialogTitle>
+              <DialogTitle>
+                {messageId ? "Report Message" : "Report Content"}
+              </DialogTitle>
               <DialogDescription>
                 {contentTitle ? (
                   <>
@@ -185,14 +201,14 @@ export function ReportButton({
                   </>
                 ) : (
                   <>
-                    Help us understand what&apos;s wrong with this content.
+                    Help us understand what&apos;s wrong with this {target}.
                   </>
                 )}
               </DialogDescription>
             </DialogHeader>
 
             <div className="space-y-2 py-2">
-              {REPORT_REASONS.map((reason) => (
+              {reasons.map((reason) => (
                 <button
                   key={reason}
                   onClick={() => handleReasonSelect(reason)}
@@ -231,7 +247,7 @@ export function ReportButton({
               <Textarea
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
-                placeholder="Optional: Add more details about why you're reporting this content..."
+                placeholder={`Optional: Add more details about why you're reporting this ${target}...`}
                 className="min-h-[100px]"
                 maxLength={2000}
               />
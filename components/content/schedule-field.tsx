@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { getScheduleError } from "@/lib/validations/content";
+
+interface ScheduleFieldProps {
+  /** Scheduled publish time as an ISO string, or null to publish manually */
+  value: string | null;
+  onChange: (scheduledAt: string | null) => void;
+  /** What is being scheduled, for the helper text (e.g. "this post") */
+  itemLabel: string;
+  /** Replaces the default helper text about publishing */
+  description?: string;
+  /** Label for the date input */
+  dateLabel?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Format a date for a datetime-local input, in the browser's time zone
+ */
+function toLocalInputValue(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Default to 9am tomorrow when scheduling is first turned on
+ */
+function getDefaultScheduleTime(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date;
+}
+
+/**
+ * ScheduleField - Toggle and date/time input for scheduled publishing
+ *
+ * Times are entered in the creator's local time zone and reported as ISO
+ * strings. Out-of-range times are flagged here with the same message the
+ * API returns when rejecting them.
+ */
+export function ScheduleField({
+  value,
+  onChange,
+  itemLabel,
+  description,
+  dateLabel = "Publish on",
+  disabled = false,
+  className,
+}: ScheduleFieldProps) {
+  const [dateInput, setDateInput] = useState(
+    value ? toLocalInputValue(new Date(value)) : "",
+  );
+
+  const parsedDate = dateInput ? new Date(dateInput) : null;
+  const scheduleError =
+    value !== null
+      ? getScheduleError(
+          parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+        )
+      : null;
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    const date =
+      parsedDate && !isNaN(parsedDate.getTime())
+        ? parsedDate
+        : getDefaultScheduleTime();
+    setDateInput(toLocalInputValue(date));
+    onChange(date.toISOString());
+  };
+
+  const handleInput = (input: string) => {
+    setDateInput(input);
+    const date = input ? new Date(input) : null;
+    if (date && !isNaN(date.getTime())) {
+      onChange(date.toISOString());
+    }
+  };
+
+  return (
+    <div
+      className={cn("rounded-lg border border-border p-4 space-y-3", className)}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="schedule-publish" className="text-base">
+            Schedule for later
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            {description ??
+              `Publish ${itemLabel} automatically and notify your subscribers`}
+          </p>
+        </div>
+        <Switch
+          id="schedule-publish"
+          checked={value !== null}
+          onCheckedChange={handleToggle}
+          disabled={disabled}
+        />
+      </div>
+
+      {value !== null && (
+        <div className="space-y-2">
+          <Label htmlFor="scheduled-at">{dateLabel}</Label>
+          <Input
+            id="scheduled-at"
+            type="datetime-local"
+            value={dateInput}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => handleInput(e.target.value)}
+            disabled={disabled}
+            className="max-w-[260px]"
+            aria-invalid={scheduleError !== null}
+            aria-describedby="scheduled-at-help"
+          />
+          <p
+            id="scheduled-at-help"
+            className={cn(
+              "text-sm",
+              scheduleError ? "text-destructive" : "text-muted-foreground",
+            )}
+          >
+            {scheduleError ?? "Uses your local time zone"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
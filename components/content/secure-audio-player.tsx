@@ -458,7 +458,7 @@ function AudioPaywallOverlay({
               </a>
               {creator.trialEnabled && (
                 <span className="text-xs text-muted-foreground">
-                  7-day free trial
+                  Free trial available
                 </span>
               )}
             </div>
@@ -423,7 +423,7 @@ function PaywallOverlay({ creator, poster, className }: PaywallOverlayProps) {
 
               {creator.trialEnabled && (
                 <p className="text-sm text-muted-foreground mb-4">
-                  Start with a 7-day free trial
+                  Start with a free trial
                 </p>
               )}
 
@@ -75,6 +75,9 @@ export function VideoPlayer({
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const progressSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Where to seek once the video loads. Follows playback so a refreshed
+  // signed URL picks up where the old one left off.
+  const resumePositionRef = useRef(initialPosition);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
@@ -99,8 +102,11 @@ export function VideoPlayer({
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             watchDuration: Math.floor(time),
+            position: Math.floor(time),
             completed,
           }),
+          // Let the final save on unmount finish after navigating away
+          keepalive: true,
         });
       } catch (error) {
         console.error("Failed to save progress:", error);
@@ -268,17 +274,18 @@ export function VideoPlayer({
   const handleTimeUpdate = useCallback(() => {
     if (videoRef.current) {
       setCurrentTime(videoRef.current.currentTime);
+      resumePositionRef.current = videoRef.current.currentTime;
     }
   }, []);
 
   const handleLoadedMetadata = useCallback(() => {
     if (videoRef.current) {
       setVideoDuration(videoRef.current.duration);
-      if (initialPosition > 0) {
-        videoRef.current.currentTime = initialPosition;
+      if (resumePositionRef.current > 0) {
+        videoRef.current.currentTime = resumePositionRef.current;
       }
     }
-  }, [initialPosition]);
+  }, []);
 
   const handleWaiting = useCallback(() => {
     setIsBuffering(true);
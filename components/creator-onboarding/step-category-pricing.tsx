@@ -1,7 +1,9 @@
 "use client";
 
+import { useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 import { Loader2 } from "lucide-react";
@@ -10,14 +12,26 @@ import {
   type SubscriptionPriceTier,
   categoryInfo,
   priceTierToAmount,
+  DEFAULT_ANNUAL_DISCOUNT_PERCENT,
+  MAX_MONTHLY_PRICE_CENTS,
+  MIN_MONTHLY_PRICE_CENTS,
 } from "@/lib/validations/creator";
+import {
+  formatPriceCents,
+  getAnnualPriceCents,
+  parseDollarsToCents,
+} from "@/lib/pricing";
 
 interface StepCategoryPricingProps {
   category: CreatorCategory | null;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
+  annualDiscountPercent: number | null;
   trialEnabled: boolean;
   onCategoryChange: (category: CreatorCategory) => void;
   onPriceChange: (price: SubscriptionPriceTier) => void;
+  onCustomPriceChange: (cents: number | null) => void;
+  onAnnualDiscountChange: (percent: number | null) => void;
   onTrialChange: (enabled: boolean) => void;
   onNext: () => void;
   onBack: () => void;
@@ -44,24 +58,82 @@ const priceTiers: SubscriptionPriceTier[] = [
   "TIER_3000",
 ];
 
+const annualDiscountOptions = [10, 15, 20, 25, 30];
+
+function isWithinPriceBounds(cents: number): boolean {
+  return cents >= MIN_MONTHLY_PRICE_CENTS && cents <= MAX_MONTHLY_PRICE_CENTS;
+}
+
 /**
  * Step 3: Category & Pricing
  *
- * User selects their primary category and sets subscription pricing.
- * Includes trial toggle option.
+ * User selects their primary category and sets subscription pricing:
+ * a preset tier or a custom monthly amount, plus an optional discounted
+ * annual plan. Includes trial toggle option.
  */
 export function StepCategoryPricing({
   category,
   subscriptionPrice,
+  customPriceCents,
+  annualDiscountPercent,
   trialEnabled,
   onCategoryChange,
   onPriceChange,
+  onCustomPriceChange,
+  onAnnualDiscountChange,
   onTrialChange,
   onNext,
   onBack,
   isLoading = false,
 }: StepCategoryPricingProps) {
-  const canProceed = category !== null;
+  const [isCustomPrice, setIsCustomPrice] = useState(
+    customPriceCents !== null,
+  );
+  const [customPriceInput, setCustomPriceInput] = useState(
+    customPriceCents !== null ? (customPriceCents / 100).toString() : "",
+  );
+
+  const parsedCustomCents = parseDollarsToCents(customPriceInput);
+  const customPriceError =
+    isCustomPrice && customPriceInput !== ""
+      ? parsedCustomCents === null
+        ? "Enter a dollar amount, like 12 or 12.50"
+        : !isWithinPriceBounds(parsedCustomCents)
+          ? `Price must be between ${formatPriceCents(MIN_MONTHLY_PRICE_CENTS)} and ${formatPriceCents(MAX_MONTHLY_PRICE_CENTS)}`
+          : null
+      : null;
+
+  const annualPriceCents = getAnnualPriceCents({
+    subscriptionPrice,
+    customPriceCents,
+    annualDiscountPercent,
+  });
+
+  const canProceed =
+    category !== null && (!isCustomPrice || customPriceCents !== null);
+
+  const handleTierSelect = (tier: SubscriptionPriceTier) => {
+    setIsCustomPrice(false);
+    onPriceChange(tier);
+    onCustomPriceChange(null);
+  };
+
+  const handleCustomSelect = () => {
+    setIsCustomPrice(true);
+    onCustomPriceChange(
+      parsedCustomCents !== null && isWithinPriceBounds(parsedCustomCents)
+        ? parsedCustomCents
+        : null,
+    );
+  };
+
+  const handleCustomPriceInput = (value: string) => {
+    setCustomPriceInput(value);
+    const cents = parseDollarsToCents(value);
+    onCustomPriceChange(
+      cents !== null && isWithinPriceBounds(cents) ? cents : null,
+    );
+  };
 
   return (
     <div className="space-y-8">
@@ -70,7 +142,7 @@ export function StepCategoryPricing({
           Category & Pricing
         </h2>
         <p className="text-muted-foreground">
-          Choose your primary focus and set your monthly subscription price.
+          Choose your primary focus and set your subscription price.
         </p>
       </div>
 
@@ -110,16 +182,16 @@ export function StepCategoryPricing({
       {/* Price Selection */}
       <div className="space-y-4">
         <Label className="text-base">Monthly Subscription Price</Label>
-        <div className="grid grid-cols-4 gap-3">
+        <div className="grid grid-cols-3 gap-3 sm:grid-cols-5">
           {priceTiers.map((tier) => {
             const amount = priceTierToAmount[tier];
-            const isSelected = subscriptionPrice === tier;
+            const isSelected = !isCustomPrice && subscriptionPrice === tier;
 
             return (
               <button
                 key={tier}
                 type="button"
-                onClick={() => onPriceChange(tier)}
+                onClick={() => handleTierSelect(tier)}
                 className={cn(
                   "flex h-16 flex-col items-center justify-center rounded-xl border transition-all",
                   "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
@@ -135,7 +207,53 @@ export function StepCategoryPricing({
               </button>
             );
           })}
+          <button
+            type="button"
+            onClick={handleCustomSelect}
+            className={cn(
+              "flex h-16 flex-col items-center justify-center rounded-xl border transition-all",
+              "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+              "hover:border-primary/50 hover:bg-accent/30",
+              isCustomPrice
+                ? "border-primary bg-primary/5 ring-1 ring-primary/20"
+                : "border-border bg-background",
+            )}
+            aria-pressed={isCustomPrice}
+          >
+            <span className="text-lg font-semibold">Custom</span>
+            <span className="text-xs text-muted-foreground">/month</span>
+          </button>
         </div>
+        {isCustomPrice && (
+          <div className="space-y-2">
+            <Label htmlFor="custom-price">Your monthly price (USD)</Label>
+            <div className="relative max-w-[200px]">
+              <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                $
+              </span>
+              <Input
+                id="custom-price"
+                inputMode="decimal"
+                value={customPriceInput}
+                onChange={(e) => handleCustomPriceInput(e.target.value)}
+                placeholder="12"
+                className="h-12 pl-7 text-base"
+                aria-invalid={customPriceError !== null}
+                aria-describedby="custom-price-help"
+              />
+            </div>
+            <p
+              id="custom-price-help"
+              className={cn(
+                "text-sm",
+                customPriceError ? "text-destructive" : "text-muted-foreground",
+              )}
+            >
+              {customPriceError ??
+                `Any amount from ${formatPriceCents(MIN_MONTHLY_PRICE_CENTS)} to ${formatPriceCents(MAX_MONTHLY_PRICE_CENTS)} per month.`}
+            </p>
+          </div>
+        )}
         <p className="text-sm text-muted-foreground">
           You can change your price anytime. Existing subscribers keep their
           original rate.
@@ -146,15 +264,70 @@ export function StepCategoryPricing({
         </p>
       </div>
 
+      {/* Annual Plan */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between rounded-xl border border-border bg-background p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="annual-toggle" className="text-base font-medium">
+              Offer an annual plan
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {annualPriceCents !== null
+                ? `Subscribers can pay ${formatPriceCents(annualPriceCents)}/year instead of monthly`
+                : "Give subscribers a discount for paying yearly"}
+            </p>
+          </div>
+          <Switch
+            id="annual-toggle"
+            checked={annualDiscountPercent !== null}
+            onCheckedChange={(enabled) =>
+              onAnnualDiscountChange(
+                enabled ? DEFAULT_ANNUAL_DISCOUNT_PERCENT : null,
+              )
+            }
+          />
+        </div>
+        {annualDiscountPercent !== null && (
+          <div className="space-y-2">
+            <Label>Annual discount</Label>
+            <div className="grid grid-cols-5 gap-3">
+              {annualDiscountOptions.map((percent) => {
+                const isSelected = annualDiscountPercent === percent;
+
+                return (
+                  <button
+                    key={percent}
+                    type="button"
+                    onClick={() => onAnnualDiscountChange(percent)}
+                    className={cn(
+                      "flex h-12 items-center justify-center rounded-xl border font-medium transition-all",
+                      "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                      "hover:border-primary/50 hover:bg-accent/30",
+                      isSelected
+                        ? "border-primary bg-primary/5 ring-1 ring-primary/20"
+                        : "border-border bg-background",
+                    )}
+                    aria-pressed={isSelected}
+                  >
+                    {percent}%
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Trial Toggle */}
       <div className="space-y-4">
         <div className="flex items-center justify-between rounded-xl border border-border bg-background p-4">
           <div className="space-y-0.5">
             <Label htmlFor="trial-toggle" className="text-base font-medium">
-              Offer 7-day free trial
+              Offer a free trial
             </Label>
             <p className="text-sm text-muted-foreground">
-              Let new subscribers try before they buy
+              Let new subscribers try before they buy. Trials last 7 days,
+              or set your own length in settings.
             </p>
           </div>
           <Switch
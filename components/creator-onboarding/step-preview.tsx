@@ -16,8 +16,8 @@ import {
   type CreatorCategory,
   type SubscriptionPriceTier,
   categoryInfo,
-  priceTierToAmount,
 } from "@/lib/validations/creator";
+import { formatPriceCents, getCreatorPricing } from "@/lib/pricing";
 
 interface StepPreviewProps {
   handle: string;
@@ -26,6 +26,8 @@ interface StepPreviewProps {
   avatarUrl: string | null;
   category: CreatorCategory;
   subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
+  annualDiscountPercent: number | null;
   trialEnabled: boolean;
   onBack: () => void;
   onActivate: () => Promise<void>;
@@ -44,6 +46,8 @@ export function StepPreview({
   avatarUrl,
   category,
   subscriptionPrice,
+  customPriceCents,
+  annualDiscountPercent,
   trialEnabled,
   onBack,
   onActivate,
@@ -51,7 +55,11 @@ export function StepPreview({
   const [isActivating, setIsActivating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const priceAmount = priceTierToAmount[subscriptionPrice];
+  const pricing = getCreatorPricing({
+    subscriptionPrice,
+    customPriceCents,
+    annualDiscountPercent,
+  });
   const categoryLabel = categoryInfo[category].label;
 
   // Get initials for avatar fallback
@@ -135,11 +143,17 @@ export function StepPreview({
             <div className="flex items-center justify-between">
               <div>
                 <p className="font-medium">
-                  Subscribe for ${priceAmount}/month
+                  Subscribe for {formatPriceCents(pricing.monthlyCents)}/month
                 </p>
+                {pricing.annualCents !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    or {formatPriceCents(pricing.annualCents)}/year (save{" "}
+                    {pricing.annualDiscountPercent}%)
+                  </p>
+                )}
                 {trialEnabled && (
                   <p className="text-sm text-muted-foreground">
-                    7-day free trial included
+                    Free trial included
                   </p>
                 )}
               </div>
@@ -177,7 +191,9 @@ export function StepPreview({
           </li>
           <li className="flex items-center gap-2 text-muted-foreground">
             <CheckCircle className="size-4 text-green-500" />
-            Price: ${priceAmount}/month
+            Price: {formatPriceCents(pricing.monthlyCents)}/month
+            {pricing.annualCents !== null &&
+              ` or ${formatPriceCents(pricing.annualCents)}/year`}
             {trialEnabled && " (with trial)"}
           </li>
         </ul>
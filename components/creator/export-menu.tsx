@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ExportFormat } from "@/lib/validations/analytics";
+
+interface ExportReport {
+  label: string;
+  /** Export endpoint, e.g. /api/creator/subscribers/export */
+  path: string;
+  /** Query params besides the format */
+  params?: Record<string, string>;
+}
+
+interface ExportMenuProps {
+  reports: ExportReport[];
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV (spreadsheet)" },
+  { value: "json", label: "JSON" },
+];
+
+/**
+ * Export Menu Component
+ *
+ * Downloads creator data from the export endpoints as CSV or JSON.
+ */
+export function ExportMenu({ reports }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (report: ExportReport, format: ExportFormat) => {
+    setIsExporting(true);
+
+    try {
+      const params = new URLSearchParams({ ...report.params, format });
+      const response = await fetch(`${report.path}?${params}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to export");
+      }
+
+      const filename =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="(.+)"/)?.[1] ?? `export.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Something went wrong";
+      toast.error("Could not export", { description: message });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={<Button variant="outline" disabled={isExporting} />}
+      >
+        {isExporting ? (
+          <Loader2 className="size-4 animate-spin" />
+        ) : (
+          <Download className="size-4" />
+        )}
+        Export
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {reports.map((report) => (
+          <DropdownMenuGroup key={report.label}>
+            <DropdownMenuLabel>{report.label}</DropdownMenuLabel>
+            {FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onClick={() => handleExport(report, format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuGroup>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
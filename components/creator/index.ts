@@ -7,6 +7,7 @@
 export { CreatorNav, CreatorNavMobile } from "./creator-nav";
 export { CreatorHeader } from "./creator-header";
 export { StatCard, StatCardSkeleton } from "./stat-card";
+export { ExportMenu } from "./export-menu";
 
 // Loading skeletons
 export {
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Ban, Bell, BellOff, Loader2, MoreVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { ConversationSettings } from "@/lib/validations/message";
+
+interface ConversationMenuProps {
+  partnerId: string;
+  partnerName: string;
+  /** Whether the current user has blocked the partner */
+  isBlocked: boolean;
+  /** Whether the current user has muted the conversation */
+  isMuted: boolean;
+}
+
+/**
+ * ConversationMenu - Mute and block controls for a conversation thread
+ *
+ * Changes are saved, then the page refreshes so the thread picks up
+ * whether messages can still be sent.
+ */
+export function ConversationMenu({
+  partnerId,
+  partnerName,
+  isBlocked,
+  isMuted,
+}: ConversationMenuProps) {
+  const router = useRouter();
+  const [blockDialogOpen, setBlockDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateConversation = async (settings: ConversationSettings) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/messages/conversation/${partnerId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update conversation");
+      }
+
+      setBlockDialogOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update conversation",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="ml-auto flex items-center gap-2">
+      {error && !blockDialogOpen && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          render={
+            <Button
+              variant="ghost"
+              size="icon"
+              className="min-h-[44px] min-w-[44px]"
+              disabled={isSaving}
+              aria-label="Conversation options"
+            />
+          }
+        >
+          {isSaving ? (
+            <Loader2 className="size-5 animate-spin" />
+          ) : (
+            <MoreVertical className="size-5" />
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={() => updateConversation({ isMuted: !isMuted })}
+          >
+            {isMuted ? (
+              <Bell className="size-4" />
+            ) : (
+              <BellOff className="size-4" />
+            )}
+            {isMuted ? "Unmute notifications" : "Mute notifications"}
+          </DropdownMenuItem>
+          {isBlocked ? (
+            <DropdownMenuItem
+              onClick={() => updateConversation({ isBlocked: false })}
+            >
+              <Ban className="size-4" />
+              Unblock {partnerName}
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              onClick={() => setBlockDialogOpen(true)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Ban className="size-4" />
+              Block {partnerName}
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={blockDialogOpen}
+        onOpenChange={(open) => {
+          setBlockDialogOpen(open);
+          setError(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {partnerName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Neither of you will be able to message the other, including
+              broadcasts. They won&apos;t be told that you blocked them. You
+              can unblock them at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => updateConversation({ isBlocked: true })}
+              disabled={isSaving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                  Blocking...
+                </>
+              ) : (
+                "Block"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
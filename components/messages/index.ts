@@ -0,0 +1,11 @@
+/**
+ * Message Components
+ *
+ * Export all message-related components for easy importing
+ */
+
+export { MessageAttachment } from "./message-attachment";
+export { MessageAttachmentPicker } from "./message-attachment-picker";
+export type { PendingAttachment } from "./message-attachment-picker";
+export { ConversationMenu } from "./conversation-menu";
+export { MessageRequestForm } from "./message-request-form";
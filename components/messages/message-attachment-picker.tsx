@@ -0,0 +1,423 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import {
+  AlertCircle,
+  Loader2,
+  Mic,
+  Paperclip,
+  Square,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatDuration, imageMimeTypes } from "@/lib/validations/content";
+import {
+  MAX_AUDIO_ATTACHMENT_DURATION,
+  MAX_AUDIO_ATTACHMENT_SIZE,
+  MAX_IMAGE_ATTACHMENT_SIZE,
+  audioAttachmentMimeTypes,
+  getAttachmentLabel,
+  type MessageAttachment,
+} from "@/lib/validations/message";
+
+/**
+ * An uploaded attachment waiting to be sent
+ */
+export interface PendingAttachment extends MessageAttachment {
+  /** Local object URL for previewing images before sending */
+  previewUrl: string | null;
+}
+
+interface MessageAttachmentPickerProps {
+  attachment: PendingAttachment | null;
+  onAttachmentChange: (attachment: PendingAttachment | null) => void;
+  /** Called while a file is uploading, so the message can't be sent yet */
+  onUploadingChange?: (isUploading: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Formats MediaRecorder can produce, in order of preference
+const RECORDING_MIME_TYPES = ["audio/webm", "audio/mp4", "audio/ogg"];
+
+/**
+ * Drop codec parameters, e.g. "audio/webm;codecs=opus" -> "audio/webm"
+ */
+function getBaseMimeType(type: string): string {
+  return type.split(";")[0].trim();
+}
+
+/**
+ * Read an audio file's length in seconds
+ */
+function getAudioDuration(file: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(audio.duration) ? audio.duration : null);
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    audio.src = url;
+  });
+}
+
+/**
+ * MessageAttachmentPicker - Attach a photo or audio file, or record a
+ * voice note
+ *
+ * Files are uploaded to R2 as soon as they're picked; the message is sent
+ * with the returned key.
+ */
+export function MessageAttachmentPicker({
+  attachment,
+  onAttachmentChange,
+  onUploadingChange,
+  disabled = false,
+  className,
+}: MessageAttachmentPickerProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Free the image preview once it's replaced, removed or sent
+  const previewUrl = attachment?.previewUrl;
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  // Discard a recording in progress if the composer goes away
+  useEffect(() => {
+    return () => {
+      if (recordingTimerRef.current) clearInterval(recordingTimerRef.current);
+
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state === "recording") recorder.stop();
+        recorder.stream.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  const setUploading = useCallback(
+    (uploading: boolean) => {
+      setIsUploading(uploading);
+      onUploadingChange?.(uploading);
+    },
+    [onUploadingChange],
+  );
+
+  /**
+   * Upload a file to R2 and hand the attachment to the composer
+   */
+  const uploadAttachment = useCallback(
+    async (
+      file: Blob,
+      filename: string,
+      type: "audio" | "image",
+      duration?: number,
+    ) => {
+      const contentType = getBaseMimeType(file.type);
+
+      setError(null);
+      setUploading(true);
+
+      try {
+        const response = await fetch("/api/messages/attachments/upload-url", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type,
+            filename,
+            contentType,
+            fileSize: file.size,
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to get upload URL");
+        }
+
+        const uploadResponse = await fetch(data.uploadUrl, {
+          method: "PUT",
+          headers: { "Content-Type": contentType },
+          body: file,
+        });
+        if (!uploadResponse.ok) {
+          throw new Error("Upload failed. Please try again.");
+        }
+
+        onAttachmentChange({
+          type,
+          key: data.key,
+          duration,
+          previewUrl: type === "image" ? URL.createObjectURL(file) : null,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Upload failed");
+      } finally {
+        setUploading(false);
+      }
+    },
+    [onAttachmentChange, setUploading],
+  );
+
+  /**
+   * Handle a picked photo or audio file
+   */
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after removing it
+    event.target.value = "";
+    if (!file) return;
+
+    const contentType = getBaseMimeType(file.type);
+
+    const imageTypes: readonly string[] = imageMimeTypes;
+    if (imageTypes.includes(contentType)) {
+      if (file.size > MAX_IMAGE_ATTACHMENT_SIZE) {
+        setError("Image must be 5MB or less");
+        return;
+      }
+      await uploadAttachment(file, file.name, "image");
+      return;
+    }
+
+    const audioTypes: readonly string[] = audioAttachmentMimeTypes;
+    if (audioTypes.includes(contentType)) {
+      if (file.size > MAX_AUDIO_ATTACHMENT_SIZE) {
+        setError("Audio file must be 10MB or less");
+        return;
+      }
+
+      const duration = await getAudioDuration(file);
+      if (duration && duration > MAX_AUDIO_ATTACHMENT_DURATION) {
+        setError(
+          `Audio must be ${MAX_AUDIO_ATTACHMENT_DURATION / 60} minutes or less`,
+        );
+        return;
+      }
+
+      await uploadAttachment(
+        file,
+        file.name,
+        "audio",
+        duration ? Math.max(1, Math.round(duration)) : undefined,
+      );
+      return;
+    }
+
+    setError("Please choose a photo (JPEG, PNG, WebP, GIF) or an audio file");
+  };
+
+  /**
+   * Stop recording; the recorder's stop handler uploads the voice note
+   */
+  const stopRecording = useCallback(() => {
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+    setIsRecording(false);
+  }, []);
+
+  /**
+   * Start recording a voice note from the microphone
+   */
+  const startRecording = async () => {
+    if (typeof MediaRecorder === "undefined") {
+      setError("Voice notes aren't supported in this browser");
+      return;
+    }
+
+    setError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError("Allow microphone access to record a voice note");
+      return;
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type),
+    );
+    const recorder = new MediaRecorder(
+      stream,
+      mimeType ? { mimeType } : undefined,
+    );
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      // Recorded WebM has no duration in its metadata, so time it instead
+      const duration = Math.min(
+        MAX_AUDIO_ATTACHMENT_DURATION,
+        Math.max(1, Math.round((Date.now() - startedAt) / 1000)),
+      );
+      const extension = getBaseMimeType(recorder.mimeType).split("/")[1];
+
+      uploadAttachment(blob, `voice-note.${extension}`, "audio", duration);
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecordingSeconds(0);
+    setIsRecording(true);
+
+    recordingTimerRef.current = setInterval(() => {
+      const elapsed = Math.round((Date.now() - startedAt) / 1000);
+      setRecordingSeconds(elapsed);
+      if (elapsed >= MAX_AUDIO_ATTACHMENT_DURATION) {
+        stopRecording();
+      }
+    }, 1000);
+  };
+
+  const isBusy = disabled || isUploading;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {/* Pending attachment */}
+      {attachment && (
+        <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/50 p-2">
+          {attachment.previewUrl ? (
+            <Image
+              src={attachment.previewUrl}
+              alt="Photo to send"
+              width={48}
+              height={48}
+              unoptimized
+              className="size-12 rounded-md object-cover"
+            />
+          ) : (
+            <div className="flex size-12 items-center justify-center rounded-md bg-background">
+              <Mic className="size-5 text-muted-foreground" />
+            </div>
+          )}
+          <div className="min-w-0 flex-1 text-sm">
+            <p className="font-medium text-foreground">
+              {getAttachmentLabel(attachment.type)}
+            </p>
+            {attachment.duration && (
+              <p className="text-muted-foreground">
+                {formatDuration(attachment.duration)}
+              </p>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onAttachmentChange(null)}
+            disabled={disabled}
+            className="min-h-[44px] min-w-[44px]"
+            aria-label="Remove attachment"
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Upload error */}
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="size-4 shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex items-center gap-1">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,audio/*"
+          onChange={handleFileSelect}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy || isRecording || !!attachment}
+          className="min-h-[44px] min-w-[44px]"
+          aria-label="Attach a photo or audio file"
+        >
+          <Paperclip className="size-5" />
+        </Button>
+        {isRecording ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={stopRecording}
+            className="min-h-[44px] min-w-[44px] text-destructive"
+            aria-label="Stop recording"
+          >
+            <Square className="size-5 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={startRecording}
+            disabled={isBusy || !!attachment}
+            className="min-h-[44px] min-w-[44px]"
+            aria-label="Record a voice note"
+          >
+            <Mic className="size-5" />
+          </Button>
+        )}
+        {isRecording && (
+          <span
+            className="flex items-center gap-2 text-sm text-destructive tabular-nums"
+            role="status"
+          >
+            <span className="size-2 animate-pulse rounded-full bg-destructive" />
+            Recording {formatDuration(recordingSeconds)} /{" "}
+            {formatDuration(MAX_AUDIO_ATTACHMENT_DURATION)}
+          </span>
+        )}
+        {isUploading && (
+          <span
+            className="flex items-center gap-2 text-sm text-muted-foreground"
+            role="status"
+          >
+            <Loader2 className="size-4 animate-spin" />
+            Uploading...
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
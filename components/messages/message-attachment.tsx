@@ -0,0 +1,102 @@
+"use client";
+
+import Image from "next/image";
+import { Loader2, Mic } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/validations/content";
+import { getAttachmentLabel } from "@/lib/validations/message";
+import type { MessageAttachmentInfo } from "@/lib/message-attachments";
+
+interface MessageAttachmentProps {
+  /** Message the attachment belongs to; temporary IDs show a placeholder */
+  messageId: string;
+  attachment: MessageAttachmentInfo;
+  /** Where to load the media from, instead of the message's own route */
+  src?: string;
+  /** Whether the message bubble uses the primary (sent) colors */
+  isFromMe?: boolean;
+  className?: string;
+}
+
+/**
+ * MessageAttachment - Inline voice note player or image preview
+ *
+ * Media loads through /api/messages/[id]/attachment, which checks that the
+ * viewer is part of the conversation and redirects to a signed URL. Audio
+ * isn't preloaded, so a long thread doesn't sign every voice note up front.
+ */
+export function MessageAttachment({
+  messageId,
+  attachment,
+  src = `/api/messages/${messageId}/attachment`,
+  isFromMe = false,
+  className,
+}: MessageAttachmentProps) {
+  const label = getAttachmentLabel(attachment.type);
+
+  // Optimistic messages aren't saved yet, so there's nothing to load
+  if (messageId.startsWith("temp-")) {
+    return (
+      <div
+        className={cn(
+          "flex items-center gap-2 text-sm",
+          isFromMe ? "text-primary-foreground/80" : "text-muted-foreground",
+          className,
+        )}
+      >
+        <Loader2 className="size-4 animate-spin" aria-hidden="true" />
+        Sending {label.toLowerCase()}...
+      </div>
+    );
+  }
+
+  if (attachment.type === "image") {
+    return (
+      <a
+        href={src}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={cn("block overflow-hidden rounded-lg", className)}
+        aria-label={`Open ${label.toLowerCase()} in a new tab`}
+      >
+        <Image
+          src={src}
+          alt={label}
+          width={320}
+          height={240}
+          unoptimized
+          className="h-auto max-h-80 w-full object-cover"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Mic
+        className={cn(
+          "size-4 shrink-0",
+          isFromMe ? "text-primary-foreground/80" : "text-muted-foreground",
+        )}
+        aria-hidden="true"
+      />
+      <audio
+        controls
+        preload="none"
+        src={src}
+        className="h-10 min-w-0 max-w-64"
+        aria-label={label}
+      />
+      {attachment.duration && (
+        <span
+          className={cn(
+            "text-xs tabular-nums",
+            isFromMe ? "text-primary-foreground/80" : "text-muted-foreground",
+          )}
+        >
+          {formatDuration(attachment.duration)}
+        </span>
+      )}
+    </div>
+  );
+}
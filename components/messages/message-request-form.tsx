@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, MailQuestionMark, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_MESSAGE_LENGTH,
+  getMessageCharacterInfo,
+} from "@/lib/validations/message";
+import { formatPriceCents } from "@/lib/pricing";
+
+interface MessageRequestFormProps {
+  /** The creator's user ID */
+  receiverId: string;
+  creatorName: string;
+  /** Price of the request in cents, null when requests are free */
+  priceCents?: number | null;
+}
+
+/**
+ * MessageRequestForm - Send a creator a one-off message request
+ *
+ * Shown when a creator's DM settings don't let the user message them
+ * directly, but do accept requests. The request waits in the creator's
+ * inbox until they accept or decline it, so the page refreshes afterwards
+ * to show that it's pending. Paid requests go to Stripe Checkout first.
+ */
+export function MessageRequestForm({
+  receiverId,
+  creatorName,
+  priceCents = null,
+}: MessageRequestFormProps) {
+  const router = useRouter();
+  const [content, setContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const charInfo = getMessageCharacterInfo(content);
+  const canSend =
+    content.trim().length > 0 && !charInfo.isOverLimit && !isSending;
+
+  const handleSubmit = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/messages/requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ receiverId, content: content.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send request");
+      }
+
+      // Paid requests are delivered once checkout completes
+      if (data.url) {
+        window.location.href = data.url;
+        return;
+      }
+
+      setContent("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send request");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-2 rounded-lg border border-muted bg-muted/50 px-4 py-3">
+        <MailQuestionMark
+          className="mt-0.5 size-4 shrink-0 text-muted-foreground"
+          aria-hidden="true"
+        />
+        <p className="text-sm text-muted-foreground">
+          You can send {creatorName} one message request. You&apos;ll be able
+          to keep messaging if they accept it.
+          {priceCents !== null &&
+            ` Requests cost ${formatPriceCents(priceCents)}, refunded if declined.`}
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <Textarea
+          placeholder="Introduce yourself..."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          disabled={isSending}
+          rows={2}
+          className="min-h-[48px] flex-1 resize-none"
+          aria-label="Message request"
+        />
+        <Button
+          onClick={handleSubmit}
+          disabled={!canSend}
+          className="min-h-[44px] min-w-[44px] px-3"
+          aria-label={
+            priceCents !== null
+              ? `Pay ${formatPriceCents(priceCents)} and send message request`
+              : "Send message request"
+          }
+        >
+          {isSending ? (
+            <Loader2 className="size-5 animate-spin" />
+          ) : (
+            <Send className="size-5" />
+          )}
+        </Button>
+      </div>
+
+      {content.length > 0 && (
+        <div className="flex items-center justify-end text-xs">
+          <span
+            className={
+              charInfo.isOverLimit
+                ? "text-destructive"
+                : "text-muted-foreground"
+            }
+          >
+            {charInfo.count.toLocaleString()} /{" "}
+            {MAX_MESSAGE_LENGTH.toLocaleString()}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
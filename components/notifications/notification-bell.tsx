@@ -1,10 +1,11 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Bell } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
 import { NotificationDropdown } from "./notification-dropdown";
 import type { NotificationItemData } from "./notification-item";
 
@@ -18,7 +19,7 @@ interface NotificationBellProps {
  *
  * Features:
  * - Bell icon with unread count badge (red dot or number)
- * - Polling every 30 seconds for unread count
+ * - Live unread count from the realtime event stream
  * - Click opens dropdown with recent notifications
  * - 44px minimum touch targets
  */
@@ -29,7 +30,6 @@ export function NotificationBell({ className }: NotificationBellProps) {
     [],
   );
   const [isLoading, setIsLoading] = useState(false);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   /**
    * Fetch unread count from API
@@ -42,7 +42,7 @@ export function NotificationBell({ className }: NotificationBellProps) {
         setUnreadCount(data.unreadCount);
       }
     } catch (err) {
-      // Silently fail for polling - don't show errors for background updates
+      // Silently fail - don't show errors for background updates
       console.error("Failed to fetch notification count:", err);
     }
   }, []);
@@ -129,16 +129,17 @@ export function NotificationBell({ className }: NotificationBellProps) {
     fetchUnreadCount();
   }, [fetchUnreadCount]);
 
-  // Set up polling for unread count (every 30 seconds)
-  useEffect(() => {
-    pollingIntervalRef.current = setInterval(fetchUnreadCount, 30000);
-
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
-    };
-  }, [fetchUnreadCount]);
+  // Keep the count (and the open dropdown) current as notifications arrive
+  useRealtimeEvents((event) => {
+    if (event.type === "notification.new") {
+      setUnreadCount((prev) => prev + 1);
+      setNotifications((prev) =>
+        [event.notification, ...prev].slice(0, 5),
+      );
+    } else if (event.type === "reconnected") {
+      fetchUnreadCount();
+    }
+  });
 
   const triggerButton = (
     <Button
@@ -7,6 +7,10 @@ import {
   CheckCircle,
   Clock,
   AlertCircle,
+  Receipt,
+  ShieldAlert,
+  CirclePause,
+  CirclePlay,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { NotificationType } from "@prisma/client";
@@ -45,6 +49,14 @@ function getIconColorClass(type: NotificationType): string {
       return "text-amber-600 dark:text-amber-500";
     case "payment_failed":
       return "text-destructive";
+    case "subscription_refunded":
+      return "text-amber-600 dark:text-amber-500";
+    case "payment_disputed":
+      return "text-destructive";
+    case "creator_suspended":
+      return "text-amber-600 dark:text-amber-500";
+    case "creator_reinstated":
+      return "text-green-600 dark:text-green-500";
     default:
       return "text-muted-foreground";
   }
@@ -74,6 +86,14 @@ function NotificationIcon({
       return <Clock className={combinedClassName} />;
     case "payment_failed":
       return <AlertCircle className={combinedClassName} />;
+    case "subscription_refunded":
+      return <Receipt className={combinedClassName} />;
+    case "payment_disputed":
+      return <ShieldAlert className={combinedClassName} />;
+    case "creator_suspended":
+      return <CirclePause className={combinedClassName} />;
+    case "creator_reinstated":
+      return <CirclePlay className={combinedClassName} />;
     default:
       return <MessageCircle className={combinedClassName} />;
   }
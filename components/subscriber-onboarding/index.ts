@@ -0,0 +1,8 @@
+/**
+ * Subscriber Onboarding Components
+ *
+ * Export all components used in the subscriber onboarding quiz.
+ */
+export { QuizQuestion } from "./quiz-question";
+export { StepWelcome } from "./step-welcome";
+export { StepRecommendations } from "./step-recommendations";
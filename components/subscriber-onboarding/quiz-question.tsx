@@ -0,0 +1,136 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+interface QuizOption<T extends string> {
+  value: T;
+  label: string;
+  description: string;
+}
+
+interface QuizQuestionProps<T extends string> {
+  question: string;
+  helpText?: string;
+  options: QuizOption<T>[];
+  /** Selected values (single-select questions hold at most one) */
+  selected: T[];
+  multiple?: boolean;
+  onChange: (selected: T[]) => void;
+  onNext: () => void;
+  onBack: () => void;
+  onSkip: () => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Quiz Question
+ *
+ * Reusable single- or multi-select question for the subscriber quiz.
+ * Every question is optional, so "Continue" is always enabled.
+ */
+export function QuizQuestion<T extends string>({
+  question,
+  helpText,
+  options,
+  selected,
+  multiple = false,
+  onChange,
+  onNext,
+  onBack,
+  onSkip,
+  isLoading = false,
+}: QuizQuestionProps<T>) {
+  const toggle = (value: T) => {
+    if (!multiple) {
+      onChange([value]);
+      return;
+    }
+    onChange(
+      selected.includes(value)
+        ? selected.filter((v) => v !== value)
+        : [...selected, value],
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2 text-center">
+        <h2 className="text-2xl font-semibold tracking-tight">{question}</h2>
+        {helpText && <p className="text-muted-foreground">{helpText}</p>}
+      </div>
+
+      <div
+        className="grid gap-3"
+        role={multiple ? "group" : "radiogroup"}
+        aria-label={question}
+      >
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => toggle(option.value)}
+              className={cn(
+                "flex min-h-[64px] flex-col items-start justify-center rounded-xl border p-4 text-left transition-all",
+                "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                "hover:border-primary/50 hover:bg-accent/30",
+                isSelected
+                  ? "border-primary bg-primary/5 ring-1 ring-primary/20"
+                  : "border-border bg-background",
+              )}
+              role={multiple ? undefined : "radio"}
+              aria-checked={multiple ? undefined : isSelected}
+              aria-pressed={multiple ? isSelected : undefined}
+            >
+              <span className="text-lg">{option.label}</span>
+              <span className="mt-0.5 text-sm text-muted-foreground">
+                {option.description}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={onBack}
+            disabled={isLoading}
+            className="h-12 flex-1 text-base"
+          >
+            Back
+          </Button>
+          <Button
+            onClick={onNext}
+            disabled={isLoading}
+            className="h-12 flex-1 text-base"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 size-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Continue"
+            )}
+          </Button>
+        </div>
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onSkip}
+            disabled={isLoading}
+            className="text-sm text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+          >
+            Skip for now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
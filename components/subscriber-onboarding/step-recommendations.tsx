@@ -0,0 +1,94 @@
+"use client";
+
+import Link from "next/link";
+import { CreatorCard } from "@/components/browse";
+import { buttonVariants } from "@/lib/button-variants";
+import { cn } from "@/lib/utils";
+import type { CreatorRecommendation } from "@/lib/recommendations";
+
+interface StepRecommendationsProps {
+  recommendations: CreatorRecommendation[];
+  onRetake: () => void;
+}
+
+/**
+ * Personalized Recommendations
+ *
+ * Final step of the subscriber quiz. Shows the ranked creators with
+ * their match reasons and links into the feed or explore page.
+ */
+export function StepRecommendations({
+  recommendations,
+  onRetake,
+}: StepRecommendationsProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2 text-center">
+        <h2 className="text-2xl font-semibold tracking-tight">
+          Creators picked for you
+        </h2>
+        <p className="text-muted-foreground">
+          {recommendations.length > 0
+            ? "Based on your goals, here are guides we think you'll love."
+            : "We couldn't find a match just yet - explore all creators to find your guide."}
+        </p>
+      </div>
+
+      {recommendations.length > 0 && (
+        <ul className="grid gap-6 sm:grid-cols-2">
+          {recommendations.map(({ creator, matchReasons }, index) => (
+            <li key={creator.id} className="space-y-2">
+              <CreatorCard
+                handle={creator.handle}
+                displayName={creator.displayName}
+                bio={creator.bio}
+                avatarUrl={creator.avatarUrl}
+                coverImageUrl={creator.coverImageUrl}
+                category={creator.category}
+                subscriptionPrice={creator.subscriptionPrice}
+                customPriceCents={creator.customPriceCents}
+                trialEnabled={creator.trialEnabled}
+                isVerified={creator.isVerified}
+                subscriberCount={creator.subscriberCount}
+                priority={index < 2}
+              />
+              {matchReasons.length > 0 && (
+                <p className="text-sm text-primary/80">
+                  {matchReasons.join(" · ")}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Link
+          href="/explore"
+          className={cn(
+            buttonVariants({ variant: "outline" }),
+            "h-12 flex-1 text-base",
+          )}
+        >
+          Explore all creators
+        </Link>
+        <Link
+          href="/home"
+          className={cn(buttonVariants(), "h-12 flex-1 text-base")}
+        >
+          Go to my feed
+        </Link>
+      </div>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onRetake}
+          className="text-sm text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+        >
+          Retake the quiz
+        </button>
+      </div>
+    </div>
+  );
+}
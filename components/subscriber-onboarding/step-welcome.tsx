@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+interface StepWelcomeProps {
+  consentGiven: boolean;
+  onConsentChange: (consent: boolean) => void;
+  onNext: () => void;
+  onSkip: () => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Quiz Introduction
+ *
+ * Explains why we ask the questions and captures consent to use the
+ * answers for personalized recommendations before any answer is saved.
+ */
+export function StepWelcome({
+  consentGiven,
+  onConsentChange,
+  onNext,
+  onSkip,
+  isLoading = false,
+}: StepWelcomeProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2 text-center">
+        <h2 className="text-2xl font-semibold tracking-tight">
+          A few questions to find your perfect guide
+        </h2>
+        <p className="text-muted-foreground">
+          We&apos;ll use your answers to recommend creators whose style and
+          focus match your practice goals.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Takes about 1 minute. You can update your preferences anytime.
+        </p>
+      </div>
+
+      <div className="flex items-start gap-3 rounded-xl border border-border bg-background p-4">
+        <Checkbox
+          id="onboarding-consent"
+          checked={consentGiven}
+          onCheckedChange={(checked) => onConsentChange(checked === true)}
+          className="mt-0.5"
+        />
+        <Label
+          htmlFor="onboarding-consent"
+          className="text-sm font-normal leading-relaxed"
+        >
+          Use my answers to personalize creator recommendations. We never share
+          them with creators.
+        </Label>
+      </div>
+
+      <div className="space-y-3">
+        <Button
+          onClick={onNext}
+          disabled={!consentGiven || isLoading}
+          className="h-12 w-full text-base"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 size-4 animate-spin" />
+              Please wait...
+            </>
+          ) : (
+            "Start Quiz"
+          )}
+        </Button>
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onSkip}
+            disabled={isLoading}
+            className="text-sm text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+          >
+            Skip for now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { useState } from "react";
 import { format } from "date-fns";
 
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -14,6 +17,14 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog";
+import {
+  cancellationReasonLabels,
+  cancellationReasonSchema,
+  type CancellationReason,
+} from "@/lib/validations/subscription";
+import type { RetentionOffers } from "@/lib/retention";
+
+type CancelStep = "reason" | "offers" | "confirm" | "offer_accepted";
 
 /**
  * Props for CancelSubscriptionDialog component
@@ -27,12 +38,16 @@ export interface CancelSubscriptionDialogProps {
   periodEnd: Date;
   /** Callback when cancellation is complete */
   onCancelComplete?: () => void;
+  /** Callback when a retention offer is taken instead */
+  onOfferAccepted?: () => void;
 }
 
 /**
  * CancelSubscriptionDialog - Confirmation modal for canceling a subscription
  *
- * Shows important information about what happens when canceling:
+ * Asks why the subscriber is canceling, then shows the creator's retention
+ * offers if the subscription can take one. Before confirming, shows what
+ * happens when canceling:
  * - Access continues until period end
  * - No immediate refund
  * - Can resubscribe anytime
@@ -42,12 +57,103 @@ export function CancelSubscriptionDialog({
   creatorName,
   periodEnd,
   onCancelComplete,
+  onOfferAccepted,
 }: CancelSubscriptionDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<CancelStep>("reason");
+  const [reason, setReason] = useState<CancellationReason | null>(null);
+  const [feedback, setFeedback] = useState("");
+  const [offers, setOffers] = useState<RetentionOffers | null>(null);
+  const [offerMessage, setOfferMessage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const formattedDate = format(periodEnd, "MMMM d, yyyy");
+  const pauseStartsOn = offers?.pause
+    ? format(new Date(offers.pause.startsAt), "MMMM d")
+    : null;
+  const pauseResumesOn = offers?.pause
+    ? format(new Date(offers.pause.resumesAt), "MMMM d, yyyy")
+    : null;
+
+  function handleOpenChange(open: boolean) {
+    setIsOpen(open);
+
+    if (!open) {
+      if (step === "offer_accepted") {
+        onOfferAccepted?.();
+      }
+
+      // Start over next time the dialog opens
+      setStep("reason");
+      setReason(null);
+      setFeedback("");
+      setOffers(null);
+      setOfferMessage(null);
+      setError(null);
+    }
+  }
+
+  async function handleContinue() {
+    setIsLoading(true);
+    setError(null);
+
+    // Offers are optional, so a failed lookup goes straight to confirming
+    try {
+      const response = await fetch(
+        `/api/subscriptions/${subscriptionId}/retention-offer`,
+      );
+
+      if (response.ok) {
+        const data: { offers: RetentionOffers } = await response.json();
+
+        if (data.offers.discount || data.offers.pause) {
+          setOffers(data.offers);
+          setStep("offers");
+          return;
+        }
+      }
+
+      setStep("confirm");
+    } catch {
+      setStep("confirm");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleAcceptOffer(offer: keyof RetentionOffers) {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/subscriptions/${subscriptionId}/retention-offer`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            offer,
+            reason,
+            feedback: feedback.trim() || undefined,
+          }),
+        },
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to apply offer");
+      }
+
+      setOfferMessage(data.message);
+      setStep("offer_accepted");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
 
   async function handleCancel() {
     setIsLoading(true);
@@ -56,6 +162,11 @@ export function CancelSubscriptionDialog({
     try {
       const response = await fetch(`/api/subscriptions/${subscriptionId}`, {
         method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reason,
+          feedback: feedback.trim() || undefined,
+        }),
       });
 
       const data = await response.json();
@@ -74,96 +185,249 @@ export function CancelSubscriptionDialog({
   }
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger render={<Button variant="outline" size="default" />}>
         Cancel subscription
       </DialogTrigger>
       <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>Cancel subscription to {creatorName}?</DialogTitle>
-          <DialogDescription>
-            Your subscription will be canceled at the end of your current
-            billing period.
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-4 py-6">
-          <div className="rounded-lg bg-muted p-4 space-y-3">
-            <div className="flex items-start gap-3">
-              <div className="w-5 h-5 mt-0.5 text-muted-foreground" aria-hidden>
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                >
-                  <circle cx="12" cy="12" r="10" />
-                  <polyline points="12 6 12 12 16 14" />
-                </svg>
-              </div>
-              <div>
-                <p className="font-medium text-foreground text-sm">
-                  Access until {formattedDate}
-                </p>
-                <p className="text-muted-foreground text-sm">
-                  You can continue to enjoy all content until your current
-                  period ends.
-                </p>
+        {step === "reason" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Why are you canceling?</DialogTitle>
+              <DialogDescription>
+                Your answer is shared with {creatorName} to help them improve.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-6">
+              <RadioGroup
+                value={reason}
+                onValueChange={(value) => {
+                  const parsed = cancellationReasonSchema.safeParse(value);
+                  if (parsed.success) setReason(parsed.data);
+                }}
+              >
+                {cancellationReasonSchema.options.map((option) => (
+                  <Label
+                    key={option}
+                    className="flex items-center gap-3 font-normal"
+                  >
+                    <RadioGroupItem value={option} />
+                    {cancellationReasonLabels[option]}
+                  </Label>
+                ))}
+              </RadioGroup>
+
+              <div className="space-y-2">
+                <Label htmlFor="cancelFeedback">
+                  Anything else? (optional)
+                </Label>
+                <Textarea
+                  id="cancelFeedback"
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  maxLength={500}
+                  rows={3}
+                />
               </div>
             </div>
-            <div className="flex items-start gap-3">
-              <div className="w-5 h-5 mt-0.5 text-muted-foreground" aria-hidden>
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
+
+            <DialogFooter>
+              <DialogClose
+                render={<Button variant="outline" disabled={isLoading} />}
+              >
+                Keep subscription
+              </DialogClose>
+              <Button
+                onClick={handleContinue}
+                disabled={!reason || isLoading}
+              >
+                {isLoading ? "Loading..." : "Continue"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === "offers" && offers && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Before you go</DialogTitle>
+              <DialogDescription>
+                {creatorName} would love for you to stay. Would one of these
+                help?
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3 py-6">
+              {offers.discount && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                  <div>
+                    <p className="font-medium text-foreground text-sm">
+                      {offers.discount.percentOff}% off your next payment
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      Your subscription continues as usual.
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleAcceptOffer("discount")}
+                    disabled={isLoading}
+                  >
+                    Accept
+                  </Button>
+                </div>
+              )}
+              {offers.pause && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                  <div>
+                    <p className="font-medium text-foreground text-sm">
+                      Pause for {offers.pause.months}{" "}
+                      {offers.pause.months === 1 ? "month" : "months"}
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      Keep access until {pauseStartsOn}, then no charges
+                      until {pauseResumesOn}.
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleAcceptOffer("pause")}
+                    disabled={isLoading}
+                  >
+                    Pause
+                  </Button>
+                </div>
+              )}
+
+              {error && (
+                <div
+                  className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+                  role="alert"
                 >
-                  <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
-                  <path d="M3 3v5h5" />
-                </svg>
-              </div>
-              <div>
-                <p className="font-medium text-foreground text-sm">
-                  Resubscribe anytime
-                </p>
-                <p className="text-muted-foreground text-sm">
-                  You can always come back and subscribe again in the future.
-                </p>
-              </div>
+                  {error}
+                </div>
+              )}
             </div>
-          </div>
-
-          {error && (
-            <div
-              className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
-              role="alert"
-            >
-              {error}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setError(null);
+                  setStep("confirm");
+                }}
+                disabled={isLoading}
+              >
+                No thanks, continue canceling
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === "offer_accepted" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Thanks for staying</DialogTitle>
+              <DialogDescription>{offerMessage}</DialogDescription>
+            </DialogHeader>
+
+            <DialogFooter>
+              <DialogClose render={<Button />}>Done</DialogClose>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === "confirm" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Cancel subscription to {creatorName}?</DialogTitle>
+              <DialogDescription>
+                Your subscription will be canceled at the end of your current
+                billing period.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-6">
+              <div className="rounded-lg bg-muted p-4 space-y-3">
+                <div className="flex items-start gap-3">
+                  <div className="w-5 h-5 mt-0.5 text-muted-foreground" aria-hidden>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <circle cx="12" cy="12" r="10" />
+                      <polyline points="12 6 12 12 16 14" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground text-sm">
+                      Access until {formattedDate}
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      You can continue to enjoy all content until your current
+                      period ends.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-3">
+                  <div className="w-5 h-5 mt-0.5 text-muted-foreground" aria-hidden>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+                      <path d="M3 3v5h5" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground text-sm">
+                      Resubscribe anytime
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      You can always come back and subscribe again in the
+                      future.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {error && (
+                <div
+                  className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+                  role="alert"
+                >
+                  {error}
+                </div>
+              )}
             </div>
-          )}
-        </div>
-
-        <DialogFooter>
-          <DialogClose
-            render={<Button variant="outline" disabled={isLoading} />}
-          >
-            Keep subscription
-          </DialogClose>
-          <Button
-            variant="destructive"
-            onClick={handleCancel}
-            disabled={isLoading}
-          >
-            {isLoading ? "Canceling..." : "Cancel subscription"}
-          </Button>
-        </DialogFooter>
+
+            <DialogFooter>
+              <DialogClose
+                render={<Button variant="outline" disabled={isLoading} />}
+              >
+                Keep subscription
+              </DialogClose>
+              <Button
+                variant="destructive"
+                onClick={handleCancel}
+                disabled={isLoading}
+              >
+                {isLoading ? "Canceling..." : "Cancel subscription"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
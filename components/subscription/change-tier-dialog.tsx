@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import type { BillingInterval } from "@prisma/client";
+
+import { cn } from "@/lib/utils";
+import { formatIntervalSuffix, formatPriceCents } from "@/lib/pricing";
+import type { TierOption } from "@/lib/tiers";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from "@/components/ui/dialog";
+
+/**
+ * Props for ChangeTierDialog component
+ */
+export interface ChangeTierDialogProps {
+  /** Subscription ID */
+  subscriptionId: string;
+  /** Creator display name */
+  creatorName: string;
+  /** Rank of the current tier (0 without a tier) */
+  currentTierRank: number;
+  /** ID of the current tier, if any */
+  currentTierId: string | null;
+  /** Tiers the creator offers, lowest first */
+  tiers: TierOption[];
+  /** Billing interval of the subscription */
+  billingInterval?: BillingInterval;
+  /** Callback when the tier change is complete */
+  onChangeComplete?: () => void;
+}
+
+/**
+ * ChangeTierDialog - Pick another membership tier for a subscription
+ *
+ * Upgrades are charged the prorated difference right away; downgrades are
+ * credited on the next invoice.
+ */
+export function ChangeTierDialog({
+  subscriptionId,
+  creatorName,
+  currentTierRank,
+  currentTierId,
+  tiers,
+  billingInterval = "month",
+  onChangeComplete,
+}: ChangeTierDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTier = tiers.find((tier) => tier.id === selectedTierId);
+  const isUpgrade = selectedTier ? selectedTier.rank > currentTierRank : false;
+
+  async function handleChangeTier() {
+    if (!selectedTier) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/subscriptions/${subscriptionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tierId: selectedTier.id }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to change tier");
+      }
+
+      setIsOpen(false);
+      setSelectedTierId(null);
+      onChangeComplete?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger render={<Button variant="outline" size="default" />}>
+        Change tier
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change your {creatorName} membership</DialogTitle>
+          <DialogDescription>
+            Upgrades are charged the prorated difference today. Downgrades are
+            credited on your next invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-6">
+          <div
+            role="radiogroup"
+            aria-label="Membership tiers"
+            className="space-y-2"
+          >
+            {tiers.map((tier) => {
+              const isCurrent = tier.id === currentTierId;
+              const isSelected = tier.id === selectedTierId;
+              const isUnavailable = tier.priceCents === null;
+
+              return (
+                <button
+                  key={tier.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  disabled={isCurrent || isUnavailable || isLoading}
+                  onClick={() => setSelectedTierId(tier.id)}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-lg border p-4 text-left transition-colors",
+                    isSelected
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:bg-muted/50",
+                    (isCurrent || isUnavailable) &&
+                      "cursor-not-allowed opacity-60",
+                  )}
+                >
+                  <span className="font-medium text-foreground text-sm">
+                    {tier.name}
+                    {isCurrent && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        Current
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {tier.priceCents !== null
+                      ? `${formatPriceCents(tier.priceCents)}${formatIntervalSuffix(billingInterval)}`
+                      : "Monthly only"}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {error && (
+            <div
+              className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose
+            render={<Button variant="outline" disabled={isLoading} />}
+          >
+            Keep current tier
+          </DialogClose>
+          <Button
+            variant="default"
+            onClick={handleChangeTier}
+            disabled={!selectedTier || isLoading}
+          >
+            {isLoading
+              ? "Updating..."
+              : isUpgrade
+                ? "Upgrade now"
+                : "Change tier"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
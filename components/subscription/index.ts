@@ -4,6 +4,15 @@ export type { TrialBadgeProps } from "./trial-badge";
 export { CancelSubscriptionDialog } from "./cancel-dialog";
 export type { CancelSubscriptionDialogProps } from "./cancel-dialog";
 
+export { ChangeTierDialog } from "./change-tier-dialog";
+export type { ChangeTierDialogProps } from "./change-tier-dialog";
+
+export { PauseSubscriptionDialog } from "./pause-dialog";
+export type { PauseSubscriptionDialogProps } from "./pause-dialog";
+
+export { ResumeSubscriptionDialog } from "./resume-dialog";
+export type { ResumeSubscriptionDialogProps } from "./resume-dialog";
+
 export {
   SubscriptionCard,
   SubscriptionCardSkeleton,
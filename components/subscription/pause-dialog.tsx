@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { addMonths, format } from "date-fns";
+
+import { cn } from "@/lib/utils";
+import { MAX_PAUSE_MONTHS } from "@/lib/validations/subscription";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from "@/components/ui/dialog";
+
+/**
+ * Props for PauseSubscriptionDialog component
+ */
+export interface PauseSubscriptionDialogProps {
+  /** Subscription ID */
+  subscriptionId: string;
+  /** Creator display name */
+  creatorName: string;
+  /** Current period end date */
+  periodEnd: Date;
+  /** Callback when the pause is complete */
+  onPauseComplete?: () => void;
+}
+
+/**
+ * PauseSubscriptionDialog - Pause a monthly subscription for 1-3 months
+ *
+ * Access continues until the end of the paid period, when the pause
+ * starts; billing and access resume the chosen number of months later.
+ */
+export function PauseSubscriptionDialog({
+  subscriptionId,
+  creatorName,
+  periodEnd,
+  onPauseComplete,
+}: PauseSubscriptionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pauseMonths, setPauseMonths] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthOptions = Array.from(
+    { length: MAX_PAUSE_MONTHS },
+    (_, i) => i + 1,
+  );
+
+  async function handlePause() {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/subscriptions/${subscriptionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pauseMonths }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to pause subscription");
+      }
+
+      setIsOpen(false);
+      onPauseComplete?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger render={<Button variant="outline" size="default" />}>
+        Pause
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pause subscription to {creatorName}?</DialogTitle>
+          <DialogDescription>
+            Taking a break? You won&apos;t be charged while paused, and you
+            can resume early at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-6">
+          <div
+            role="radiogroup"
+            aria-label="Pause length"
+            className="space-y-2"
+          >
+            {monthOptions.map((months) => {
+              const isSelected = months === pauseMonths;
+
+              return (
+                <button
+                  key={months}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  disabled={isLoading}
+                  onClick={() => setPauseMonths(months)}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-lg border p-4 text-left transition-colors",
+                    isSelected
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:bg-muted/50",
+                  )}
+                >
+                  <span className="font-medium text-foreground text-sm">
+                    {months} {months === 1 ? "month" : "months"}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    Resumes {format(addMonths(periodEnd, months), "MMM d")}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            You keep access until {format(periodEnd, "MMMM d")}, when your
+            pause starts. You won&apos;t be charged again until it ends.
+          </p>
+
+          {error && (
+            <div
+              className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose
+            render={<Button variant="outline" disabled={isLoading} />}
+          >
+            Keep subscription
+          </DialogClose>
+          <Button variant="default" onClick={handlePause} disabled={isLoading}>
+            {isLoading ? "Pausing..." : "Pause subscription"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
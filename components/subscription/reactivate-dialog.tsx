@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { format } from "date-fns";
+import type { BillingInterval } from "@prisma/client";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -14,6 +15,7 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog";
+import { formatIntervalSuffix, formatPriceCents } from "@/lib/pricing";
 
 /**
  * Props for ReactivateSubscriptionDialog component
@@ -27,6 +29,8 @@ export interface ReactivateSubscriptionDialogProps {
   periodEnd: Date;
   /** Price at purchase (cents) for display */
   priceAtPurchase: number;
+  /** Billing interval of the subscription */
+  billingInterval?: BillingInterval;
   /** Callback when reactivation is complete */
   onReactivateComplete?: () => void;
 }
@@ -43,6 +47,7 @@ export function ReactivateSubscriptionDialog({
   creatorName,
   periodEnd,
   priceAtPurchase,
+  billingInterval = "month",
   onReactivateComplete,
 }: ReactivateSubscriptionDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -50,7 +55,7 @@ export function ReactivateSubscriptionDialog({
   const [error, setError] = useState<string | null>(null);
 
   const formattedDate = format(periodEnd, "MMMM d, yyyy");
-  const priceDisplay = `$${(priceAtPurchase / 100).toFixed(0)}`;
+  const priceDisplay = formatPriceCents(priceAtPurchase);
 
   async function handleReactivate() {
     setIsLoading(true);
@@ -132,7 +137,8 @@ export function ReactivateSubscriptionDialog({
               </div>
               <div>
                 <p className="font-medium text-foreground text-sm">
-                  Same {priceDisplay}/month rate
+                  Same {priceDisplay}
+                  {formatIntervalSuffix(billingInterval)} rate
                 </p>
                 <p className="text-muted-foreground text-sm">
                   Your next payment will be on {formattedDate}.
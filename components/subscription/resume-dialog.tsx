@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from "@/components/ui/dialog";
+
+/**
+ * Props for ResumeSubscriptionDialog component
+ */
+export interface ResumeSubscriptionDialogProps {
+  /** Subscription ID */
+  subscriptionId: string;
+  /** Creator display name */
+  creatorName: string;
+  /** When the pause would end on its own */
+  pausedUntil: Date;
+  /** Whether the pause is still waiting for the paid period to end */
+  isScheduled?: boolean;
+  /** Callback when the subscription has resumed */
+  onResumeComplete?: () => void;
+}
+
+/**
+ * ResumeSubscriptionDialog - End a pause early, or call off a scheduled one
+ *
+ * Access comes back right away and billing picks up from the next invoice.
+ */
+export function ResumeSubscriptionDialog({
+  subscriptionId,
+  creatorName,
+  pausedUntil,
+  isScheduled = false,
+  onResumeComplete,
+}: ResumeSubscriptionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formattedDate = format(pausedUntil, "MMMM d, yyyy");
+
+  async function handleResume() {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/subscriptions/${subscriptionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resume: true }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resume subscription");
+      }
+
+      setIsOpen(false);
+      onResumeComplete?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger render={<Button variant="default" size="default" />}>
+        {isScheduled ? "Cancel pause" : "Resume now"}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Resume subscription to {creatorName}?</DialogTitle>
+          <DialogDescription>
+            {isScheduled
+              ? `Your subscription is set to pause until ${formattedDate}. Canceling the pause keeps your access without a break.`
+              : `Your subscription is paused until ${formattedDate}. Resuming now brings back your access right away.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-6">
+          <p className="text-sm text-muted-foreground">
+            Billing picks up again from your next payment date.
+          </p>
+
+          {error && (
+            <div
+              className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose
+            render={<Button variant="outline" disabled={isLoading} />}
+          >
+            {isScheduled ? "Keep pause" : "Stay paused"}
+          </DialogClose>
+          <Button variant="default" onClick={handleResume} disabled={isLoading}>
+            {isLoading
+              ? "Resuming..."
+              : isScheduled
+                ? "Cancel pause"
+                : "Resume subscription"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,9 +2,11 @@
 
 import Link from "next/link";
 import { format } from "date-fns";
-import type { CreatorCategory, SubscriptionPriceTier } from "@prisma/client";
+import { Gift } from "lucide-react";
+import type { BillingInterval, CreatorCategory } from "@prisma/client";
 
 import { cn } from "@/lib/utils";
+import { formatIntervalSuffix, formatPriceCents } from "@/lib/pricing";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -12,13 +14,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { TrialBadge } from "./trial-badge";
 import { CancelSubscriptionDialog } from "./cancel-dialog";
 import { ReactivateSubscriptionDialog } from "./reactivate-dialog";
-
-/**
- * Converts cents to display string
- */
-function formatCentsToDisplay(cents: number): string {
-  return `$${(cents / 100).toFixed(0)}`;
-}
+import { ChangeTierDialog } from "./change-tier-dialog";
+import { PauseSubscriptionDialog } from "./pause-dialog";
+import { ResumeSubscriptionDialog } from "./resume-dialog";
+import type { TierOption } from "@/lib/tiers";
 
 /**
  * Maps category enums to human-readable labels
@@ -50,6 +49,7 @@ const STATUS_VARIANTS: Record<
   trialing: { label: "Trial", variant: "secondary" },
   past_due: { label: "Past due", variant: "destructive" },
   canceled: { label: "Canceled", variant: "outline" },
+  paused: { label: "Paused", variant: "secondary" },
 };
 
 /**
@@ -59,15 +59,23 @@ export interface SubscriptionCardProps {
   /** Subscription ID */
   id: string;
   /** Subscription status */
-  status: "active" | "trialing" | "past_due" | "canceled";
+  status: "active" | "trialing" | "past_due" | "canceled" | "paused";
   /** Price at time of purchase (cents) - for grandfathered pricing */
   priceAtPurchase: number;
+  /** Billing interval the subscriber chose at checkout */
+  billingInterval?: BillingInterval;
   /** Current period start date */
   currentPeriodStart: string | null;
   /** Current period end date */
   currentPeriodEnd: string | null;
   /** Whether subscription is set to cancel at period end */
   cancelAtPeriodEnd: boolean;
+  /** When billing and access resume, if a pause is scheduled or running */
+  pausedUntil?: string | null;
+  /** Membership tier, if the creator offers tiers */
+  tier?: { id: string; name: string; rank: number } | null;
+  /** Whether this is a prepaid gift membership (never renews) */
+  isGift?: boolean;
   /** Creator information */
   creator: {
     id: string;
@@ -75,7 +83,10 @@ export interface SubscriptionCardProps {
     displayName: string;
     avatarUrl: string | null;
     category: CreatorCategory;
-    currentPrice: SubscriptionPriceTier;
+    /** Creator's current price for this interval (null if no longer offered) */
+    currentPriceCents: number | null;
+    /** Tiers the subscriber can switch to, lowest first */
+    tiers?: TierOption[];
   };
   /** Callback when subscription is updated (e.g., canceled) */
   onUpdate?: () => void;
@@ -88,18 +99,25 @@ export interface SubscriptionCardProps {
  *
  * Shows:
  * - Creator info (avatar, name, category)
- * - Subscription status (active, trialing, past_due, canceled)
+ * - Subscription status (active, trialing, past_due, canceled, paused)
  * - Price and billing cycle
  * - Trial status and end date
  * - Next billing date
+ * - Membership tier and tier changes
+ * - Gift memberships and when they end
+ * - Pause and resume options for monthly subscriptions
  * - Cancel option
  */
 export function SubscriptionCard({
   id,
   status,
   priceAtPurchase,
+  billingInterval = "month",
   currentPeriodEnd,
   cancelAtPeriodEnd,
+  pausedUntil = null,
+  tier = null,
+  isGift = false,
   creator,
   onUpdate,
   className,
@@ -112,13 +130,28 @@ export function SubscriptionCard({
     .slice(0, 2);
 
   const periodEndDate = currentPeriodEnd ? new Date(currentPeriodEnd) : null;
+  const pausedUntilDate = pausedUntil ? new Date(pausedUntil) : null;
+  // A pause taken before the period ends starts once it's over
+  const pauseScheduled = !!pausedUntilDate && status !== "paused";
 
   // Determine if price is grandfathered (different from current price)
-  const currentPriceCents = parseInt(
-    creator.currentPrice.replace("TIER_", ""),
-    10,
-  );
-  const isGrandfathered = priceAtPurchase !== currentPriceCents;
+  const isGrandfathered =
+    !isGift && priceAtPurchase !== creator.currentPriceCents;
+
+  // Tier changes are for live subscriptions of creators with several tiers
+  const canChangeTier =
+    !isGift &&
+    (status === "active" || status === "trialing") &&
+    !cancelAtPeriodEnd &&
+    (creator.tiers ?? []).some((t) => t.id !== tier?.id);
+
+  // Paid monthly subscriptions can pause for a few months
+  const canPause =
+    !isGift &&
+    status === "active" &&
+    billingInterval === "month" &&
+    !cancelAtPeriodEnd &&
+    !pausedUntilDate;
 
   const { label: statusLabel, variant: statusVariant } = STATUS_VARIANTS[
     status
@@ -172,9 +205,22 @@ export function SubscriptionCard({
             {/* Price and Billing Info */}
             <div className="mt-3 space-y-1">
               <div className="flex items-center gap-2 text-sm">
-                <span className="font-medium text-foreground">
-                  {formatCentsToDisplay(priceAtPurchase)}/month
-                </span>
+                {isGift ? (
+                  <Badge variant="secondary" className="gap-1 text-xs">
+                    <Gift className="size-3" />
+                    Gift membership
+                  </Badge>
+                ) : (
+                  <span className="font-medium text-foreground">
+                    {formatPriceCents(priceAtPurchase)}
+                    {formatIntervalSuffix(billingInterval)}
+                  </span>
+                )}
+                {tier && (
+                  <Badge variant="secondary" className="text-xs">
+                    {tier.name}
+                  </Badge>
+                )}
                 {isGrandfathered && (
                   <Badge variant="outline" className="text-xs">
                     Grandfathered price
@@ -184,7 +230,32 @@ export function SubscriptionCard({
 
               {periodEndDate && (
                 <p className="text-sm text-muted-foreground">
-                  {cancelAtPeriodEnd ? (
+                  {isGift ? (
+                    <>
+                      Gift ends{" "}
+                      <span className="font-medium">
+                        {format(periodEndDate, "MMMM d, yyyy")}
+                      </span>
+                    </>
+                  ) : pauseScheduled && pausedUntilDate ? (
+                    <>
+                      Pausing from{" "}
+                      <span className="font-medium">
+                        {format(periodEndDate, "MMMM d")}
+                      </span>{" "}
+                      until{" "}
+                      <span className="font-medium">
+                        {format(pausedUntilDate, "MMMM d, yyyy")}
+                      </span>
+                    </>
+                  ) : pausedUntilDate ? (
+                    <>
+                      Paused until{" "}
+                      <span className="font-medium">
+                        {format(pausedUntilDate, "MMMM d, yyyy")}
+                      </span>
+                    </>
+                  ) : cancelAtPeriodEnd ? (
                     <>
                       Access until{" "}
                       <span className="font-medium">
@@ -209,7 +280,7 @@ export function SubscriptionCard({
                 </p>
               )}
 
-              {cancelAtPeriodEnd && status !== "canceled" && (
+              {cancelAtPeriodEnd && !isGift && status !== "canceled" && (
                 <p className="text-sm text-destructive">
                   Your subscription is canceled. You have access until the date
                   above.
@@ -227,24 +298,62 @@ export function SubscriptionCard({
             </Button>
           </Link>
 
-          {status !== "canceled" && !cancelAtPeriodEnd && periodEndDate && (
-            <CancelSubscriptionDialog
-              subscriptionId={id}
-              creatorName={creator.displayName}
-              periodEnd={periodEndDate}
-              onCancelComplete={onUpdate}
-            />
-          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            {canChangeTier && (
+              <ChangeTierDialog
+                subscriptionId={id}
+                creatorName={creator.displayName}
+                currentTierId={tier?.id ?? null}
+                currentTierRank={tier?.rank ?? 0}
+                tiers={creator.tiers ?? []}
+                billingInterval={billingInterval}
+                onChangeComplete={onUpdate}
+              />
+            )}
+
+            {canPause && periodEndDate && (
+              <PauseSubscriptionDialog
+                subscriptionId={id}
+                creatorName={creator.displayName}
+                periodEnd={periodEndDate}
+                onPauseComplete={onUpdate}
+              />
+            )}
+
+            {pausedUntilDate && (
+              <ResumeSubscriptionDialog
+                subscriptionId={id}
+                creatorName={creator.displayName}
+                pausedUntil={pausedUntilDate}
+                isScheduled={pauseScheduled}
+                onResumeComplete={onUpdate}
+              />
+            )}
+
+            {status !== "canceled" && !cancelAtPeriodEnd && periodEndDate && (
+              <CancelSubscriptionDialog
+                subscriptionId={id}
+                creatorName={creator.displayName}
+                periodEnd={periodEndDate}
+                onCancelComplete={onUpdate}
+                onOfferAccepted={onUpdate}
+              />
+            )}
+          </div>
 
-          {cancelAtPeriodEnd && status !== "canceled" && periodEndDate && (
-            <ReactivateSubscriptionDialog
-              subscriptionId={id}
-              creatorName={creator.displayName}
-              periodEnd={periodEndDate}
-              priceAtPurchase={priceAtPurchase}
-              onReactivateComplete={onUpdate}
-            />
-          )}
+          {cancelAtPeriodEnd &&
+            !isGift &&
+            status !== "canceled" &&
+            periodEndDate && (
+              <ReactivateSubscriptionDialog
+                subscriptionId={id}
+                creatorName={creator.displayName}
+                periodEnd={periodEndDate}
+                priceAtPurchase={priceAtPurchase}
+                billingInterval={billingInterval}
+                onReactivateComplete={onUpdate}
+              />
+            )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,173 @@
+/**
+ * New Content Digest Email Template
+ *
+ * Sent in place of individual new content emails to users on a daily or
+ * weekly digest, or whose quiet hours held back new content.
+ *
+ * Subject: "[N] new posts from creators you follow"
+ * Tone: Calm, warm, inviting
+ */
+
+import { Button, Heading, Link, Section, Text } from "@react-email/components";
+import * as React from "react";
+import { BaseLayout } from "./base-layout";
+
+export interface NewContentDigestItem {
+  creatorName: string;
+  contentTitle: string;
+  contentUrl: string;
+}
+
+interface NewContentDigestEmailProps {
+  /** "daily", "weekly", or null for content held over quiet hours */
+  period: "daily" | "weekly" | null;
+  items: NewContentDigestItem[];
+  /** Items published but not listed, to keep the email short */
+  moreCount: number;
+  homeUrl: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+}
+
+// Brand colors (warm neutrals)
+const colors = {
+  primary: "#8B6B52",
+  text: "#2D2A26",
+  muted: "#736B62",
+  border: "#E5DFD8",
+};
+
+const headings = {
+  daily: "Your daily digest",
+  weekly: "Your weekly digest",
+};
+
+export function NewContentDigestEmail({
+  period,
+  items,
+  moreCount,
+  homeUrl,
+  settingsUrl,
+  unsubscribeUrl,
+}: NewContentDigestEmailProps) {
+  const total = items.length + moreCount;
+  const previewText = `${total} new post${total === 1 ? "" : "s"} from creators you follow`;
+
+  return (
+    <BaseLayout previewText={previewText} unsubscribeUrl={unsubscribeUrl}>
+      <Heading style={heading}>
+        {period ? headings[period] : "While you were away"}
+      </Heading>
+
+      <Text style={paragraph}>
+        Creators you follow shared{" "}
+        {total === 1 ? "something" : `${total} things`} new:
+      </Text>
+
+      <Section style={list}>
+        {items.map((item) => (
+          <Text key={item.contentUrl} style={listItem}>
+            <Link href={item.contentUrl} style={itemTitle}>
+              {item.contentTitle}
+            </Link>
+            <br />
+            <span style={itemCreator}>{item.creatorName}</span>
+          </Text>
+        ))}
+        {moreCount > 0 && (
+          <Text style={moreText}>And {moreCount} more waiting for you.</Text>
+        )}
+      </Section>
+
+      <Text style={paragraph}>
+        Take a moment when you are ready. There is no rush.
+      </Text>
+
+      <Button style={button} href={homeUrl}>
+        Open breathwithmagic
+      </Button>
+
+      <Text style={footerNote}>
+        You are receiving this because you follow or subscribe to these
+        creators. You can change how often you hear from us in your{" "}
+        <Link href={settingsUrl} style={footerLink}>
+          notification settings
+        </Link>
+        .
+      </Text>
+    </BaseLayout>
+  );
+}
+
+// Styles
+const heading: React.CSSProperties = {
+  fontSize: "24px",
+  fontWeight: "600",
+  color: colors.text,
+  margin: "0 0 24px 0",
+  lineHeight: "32px",
+};
+
+const paragraph: React.CSSProperties = {
+  fontSize: "16px",
+  lineHeight: "26px",
+  color: colors.text,
+  margin: "0 0 16px 0",
+};
+
+const list: React.CSSProperties = {
+  margin: "0 0 24px 0",
+};
+
+const listItem: React.CSSProperties = {
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "0",
+  padding: "12px 0",
+  borderBottom: `1px solid ${colors.border}`,
+};
+
+const itemTitle: React.CSSProperties = {
+  color: colors.primary,
+  fontWeight: "500",
+  textDecoration: "none",
+};
+
+const itemCreator: React.CSSProperties = {
+  fontSize: "14px",
+  color: colors.muted,
+};
+
+const moreText: React.CSSProperties = {
+  fontSize: "14px",
+  lineHeight: "22px",
+  color: colors.muted,
+  margin: "12px 0 0 0",
+};
+
+const button: React.CSSProperties = {
+  backgroundColor: colors.primary,
+  borderRadius: "8px",
+  color: "#FFFFFF",
+  fontSize: "16px",
+  fontWeight: "500",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  display: "inline-block",
+  padding: "14px 28px",
+  margin: "8px 0 24px 0",
+};
+
+const footerNote: React.CSSProperties = {
+  fontSize: "14px",
+  lineHeight: "22px",
+  color: colors.muted,
+  margin: "24px 0 0 0",
+};
+
+const footerLink: React.CSSProperties = {
+  color: colors.muted,
+  textDecoration: "underline",
+};
+
+export default NewContentDigestEmail;
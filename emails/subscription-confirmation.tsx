@@ -14,6 +14,7 @@ import { BaseLayout } from "./base-layout";
 interface SubscriptionConfirmationEmailProps {
   creatorName: string;
   amount: string; // Formatted amount like "$10.00"
+  interval?: "month" | "year";
   subscriptionsUrl: string;
   unsubscribeUrl: string;
 }
@@ -29,6 +30,7 @@ const colors = {
 export function SubscriptionConfirmationEmail({
   creatorName,
   amount,
+  interval = "month",
   subscriptionsUrl,
   unsubscribeUrl,
 }: SubscriptionConfirmationEmailProps) {
@@ -47,10 +49,11 @@ export function SubscriptionConfirmationEmail({
           <strong>Subscription:</strong> {creatorName}
         </Text>
         <Text style={detailsText}>
-          <strong>Amount:</strong> {amount}/month
+          <strong>Amount:</strong> {amount}/{interval}
         </Text>
         <Text style={detailsText}>
-          <strong>Billing:</strong> Monthly (starts today)
+          <strong>Billing:</strong>{" "}
+          {interval === "year" ? "Annually" : "Monthly"} (starts today)
         </Text>
       </div>
 
@@ -0,0 +1,105 @@
+/**
+ * Win-Back Email Template
+ *
+ * Sent a creator-chosen number of days after a subscription ends.
+ *
+ * Subject: "[Creator] would love to have you back"
+ * Tone: Warm, no guilt, easy to ignore
+ */
+
+import { Button, Heading, Text } from "@react-email/components";
+import * as React from "react";
+import { BaseLayout } from "./base-layout";
+
+interface WinBackEmailProps {
+  creatorName: string;
+  /** Content published since the subscription ended */
+  newContentCount: number;
+  creatorUrl: string;
+  unsubscribeUrl: string;
+}
+
+// Brand colors (warm neutrals)
+const colors = {
+  primary: "#8B6B52",
+  text: "#2D2A26",
+  muted: "#736B62",
+};
+
+export function WinBackEmail({
+  creatorName,
+  newContentCount,
+  creatorUrl,
+  unsubscribeUrl,
+}: WinBackEmailProps) {
+  const previewText = `${creatorName} would love to have you back`;
+
+  return (
+    <BaseLayout previewText={previewText} unsubscribeUrl={unsubscribeUrl}>
+      <Heading style={heading}>We&apos;ve missed you</Heading>
+
+      <Text style={paragraph}>
+        It&apos;s been a little while since your subscription to{" "}
+        {creatorName} ended. We hope your practice is going well.
+      </Text>
+
+      {newContentCount > 0 && (
+        <Text style={paragraph}>
+          Since you left, {creatorName} has shared {newContentCount} new{" "}
+          {newContentCount === 1 ? "session" : "sessions"}.
+        </Text>
+      )}
+
+      <Text style={paragraph}>
+        Whenever you&apos;re ready to come back, everything will be waiting
+        for you.
+      </Text>
+
+      <Button style={button} href={creatorUrl}>
+        Visit {creatorName}
+      </Button>
+
+      <Text style={footerNote}>
+        This is the only reminder we&apos;ll send about this subscription.
+      </Text>
+    </BaseLayout>
+  );
+}
+
+// Styles
+const heading: React.CSSProperties = {
+  fontSize: "24px",
+  fontWeight: "600",
+  color: colors.text,
+  margin: "0 0 24px 0",
+  lineHeight: "32px",
+};
+
+const paragraph: React.CSSProperties = {
+  fontSize: "16px",
+  lineHeight: "26px",
+  color: colors.text,
+  margin: "0 0 16px 0",
+};
+
+const button: React.CSSProperties = {
+  backgroundColor: colors.primary,
+  borderRadius: "8px",
+  color: "#FFFFFF",
+  fontSize: "16px",
+  fontWeight: "500",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  display: "inline-block",
+  padding: "14px 28px",
+  margin: "8px 0 24px 0",
+};
+
+const footerNote: React.CSSProperties = {
+  fontSize: "14px",
+  lineHeight: "22px",
+  color: colors.muted,
+  margin: "24px 0 0 0",
+};
+
+export default WinBackEmail;
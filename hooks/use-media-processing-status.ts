@@ -0,0 +1,61 @@
+"use client";
+
+import * as React from "react";
+import type { MediaStatus } from "@/lib/validations/content";
+
+const POLL_INTERVAL_MS = 10000;
+
+export interface MediaProcessingStatus {
+  mediaStatus: MediaStatus | null;
+  mediaProgress: number | null;
+  mediaError: string | null;
+  duration: number | null;
+}
+
+/**
+ * Poll a video's processing status until it's ready or has failed
+ *
+ * @param contentId - Content the video belongs to
+ * @param initial - Status the page was rendered with
+ * @param enabled - Whether there's a video to poll for
+ * @returns The latest status, and a setter for local changes such as a new
+ * upload starting over
+ */
+export function useMediaProcessingStatus(
+  contentId: string,
+  initial: MediaProcessingStatus,
+  enabled: boolean,
+) {
+  const [status, setStatus] = React.useState(initial);
+  const isSettled =
+    status.mediaStatus === "ready" || status.mediaStatus === "errored";
+
+  React.useEffect(() => {
+    if (!enabled || isSettled) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await fetch(
+          `/api/creator/content/${contentId}/media-status`,
+        );
+        if (!response.ok) return;
+
+        const data: MediaProcessingStatus = await response.json();
+        if (!cancelled) setStatus(data);
+      } catch (error) {
+        console.error("Error fetching media status:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [contentId, enabled, isSettled]);
+
+  return [status, setStatus] as const;
+}
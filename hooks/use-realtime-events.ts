@@ -0,0 +1,84 @@
+"use client";
+
+import * as React from "react";
+import type { RealtimeEvent } from "@/lib/realtime";
+
+const STREAM_URL = "/api/realtime";
+
+/**
+ * An event from the realtime stream, or `reconnected` after the stream
+ * dropped and came back - anything sent in between was missed, so
+ * listeners should refetch what they show
+ */
+export type RealtimeClientEvent = RealtimeEvent | { type: "reconnected" };
+
+type RealtimeClientListener = (event: RealtimeClientEvent) => void;
+
+// One stream per tab, shared by every component that's listening
+const listeners = new Set<RealtimeClientListener>();
+let eventSource: EventSource | null = null;
+let hasConnected = false;
+
+function dispatch(event: RealtimeClientEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+function openStream() {
+  eventSource = new EventSource(STREAM_URL);
+
+  // The server sends `ready` on every (re)connect
+  eventSource.addEventListener("ready", () => {
+    if (hasConnected) {
+      dispatch({ type: "reconnected" });
+    }
+    hasConnected = true;
+  });
+
+  eventSource.onmessage = (message: MessageEvent<string>) => {
+    try {
+      dispatch(JSON.parse(message.data) as RealtimeEvent);
+    } catch (error) {
+      console.error("Failed to parse realtime event:", error);
+    }
+  };
+}
+
+function closeStream() {
+  eventSource?.close();
+  eventSource = null;
+  hasConnected = false;
+}
+
+/**
+ * Listen for the current user's realtime events
+ *
+ * Opens the shared event stream while at least one component is
+ * listening. The latest `onEvent` is always called, so it doesn't need to
+ * be memoized.
+ *
+ * @param onEvent - Called with each event
+ */
+export function useRealtimeEvents(onEvent: RealtimeClientListener) {
+  const onEventRef = React.useRef(onEvent);
+
+  React.useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  React.useEffect(() => {
+    const listener: RealtimeClientListener = (event) =>
+      onEventRef.current(event);
+
+    listeners.add(listener);
+    if (!eventSource) {
+      openStream();
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        closeStream();
+      }
+    };
+  }, []);
+}
@@ -0,0 +1,320 @@
+/**
+ * Admin Creator Queries
+ *
+ * Listing and detail queries for the admin creator console, shared by
+ * /admin/creators and /api/admin/creators so the page's first render and
+ * later API fetches return the same shape.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AdminCreatorListQuery } from "@/lib/validations/admin-creator";
+
+const adminCreatorListSelect = {
+  id: true,
+  handle: true,
+  displayName: true,
+  avatarUrl: true,
+  category: true,
+  status: true,
+  isVerified: true,
+  isFeatured: true,
+  stripeOnboardingComplete: true,
+  suspendedAt: true,
+  createdAt: true,
+  user: { select: { email: true } },
+  _count: {
+    select: {
+      subscriptions: { where: { status: { in: ["active", "trialing"] } } },
+      content: { where: { status: "published" } },
+    },
+  },
+} satisfies Prisma.CreatorProfileSelect;
+
+/**
+ * List creators for the admin console, newest first
+ *
+ * @returns A page of creators with pending report counts, the next cursor,
+ * and creator counts by status
+ */
+export async function listAdminCreators(query: AdminCreatorListQuery) {
+  const { q, status, verified, featured, cursor, limit } = query;
+
+  const where: Prisma.CreatorProfileWhereInput = {};
+
+  if (status) where.status = status;
+  if (verified) where.isVerified = verified === "true";
+  if (featured) where.isFeatured = featured === "true";
+  if (q) {
+    where.OR = [
+      { handle: { contains: q, mode: "insensitive" } },
+      { displayName: { contains: q, mode: "insensitive" } },
+      { user: { email: { contains: q, mode: "insensitive" } } },
+    ];
+  }
+
+  const [creators, statusCounts] = await Promise.all([
+    prisma.creatorProfile.findMany({
+      where,
+      take: limit + 1, // Fetch one extra for cursor
+      ...(cursor && {
+        skip: 1,
+        cursor: { id: cursor },
+      }),
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: adminCreatorListSelect,
+    }),
+    prisma.creatorProfile.groupBy({
+      by: ["status"],
+      _count: { status: true },
+    }),
+  ]);
+
+  const hasMore = creators.length > limit;
+  const items = hasMore ? creators.slice(0, limit) : creators;
+  const nextCursor = hasMore ? items[items.length - 1].id : null;
+
+  // Pending reports across each creator's content
+  const pendingReports = await prisma.contentReport.findMany({
+    where: {
+      status: "PENDING",
+      content: { creatorId: { in: items.map((creator) => creator.id) } },
+    },
+    select: { content: { select: { creatorId: true } } },
+  });
+  const pendingReportCounts = new Map<string, number>();
+  for (const report of pendingReports) {
+    const creatorId = report.content?.creatorId;
+    if (!creatorId) continue;
+    pendingReportCounts.set(
+      creatorId,
+      (pendingReportCounts.get(creatorId) ?? 0) + 1,
+    );
+  }
+
+  const counts = statusCounts.reduce(
+    (acc, item) => {
+      acc[item.status] = item._count.status;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  return {
+    items: items.map(({ user, _count, ...creator }) => ({
+      ...creator,
+      email: user.email,
+      suspendedAt: creator.suspendedAt?.toISOString() ?? null,
+      createdAt: creator.createdAt.toISOString(),
+      activeSubscriberCount: _count.subscriptions,
+      publishedContentCount: _count.content,
+      pendingReportCount: pendingReportCounts.get(creator.id) ?? 0,
+    })),
+    nextCursor,
+    counts: {
+      active: counts.active || 0,
+      pendingSetup: counts.pending_setup || 0,
+      suspended: counts.suspended || 0,
+      deactivated: counts.deactivated || 0,
+      total: Object.values(counts).reduce((sum, c) => sum + c, 0),
+    },
+  };
+}
+
+export type AdminCreatorListResult = Awaited<
+  ReturnType<typeof listAdminCreators>
+>;
+export type AdminCreatorListItem = AdminCreatorListResult["items"][number];
+
+/**
+ * Full creator record for the admin detail view: account, revenue, report
+ * history and the audit trail of admin actions
+ *
+ * Revenue figures are in cents. MRR counts active paid subscriptions, with
+ * annual plans spread over 12 months; gifted subscriptions are prepaid and
+ * counted under gift revenue instead.
+ *
+ * @returns The detail, or null if the creator doesn't exist
+ */
+export async function getAdminCreatorDetail(creatorId: string) {
+  const creator = await prisma.creatorProfile.findUnique({
+    where: { id: creatorId },
+    select: {
+      id: true,
+      handle: true,
+      displayName: true,
+      bio: true,
+      avatarUrl: true,
+      category: true,
+      status: true,
+      isVerified: true,
+      isFeatured: true,
+      stripeAccountId: true,
+      stripeOnboardingComplete: true,
+      suspendedAt: true,
+      suspensionReason: true,
+      createdAt: true,
+      user: { select: { id: true, email: true, name: true, createdAt: true } },
+      _count: {
+        select: {
+          followers: true,
+          content: { where: { status: "published" } },
+        },
+      },
+    },
+  });
+
+  if (!creator) return null;
+
+  const [
+    subscriptionCounts,
+    paidSubscriptions,
+    purchaseRevenue,
+    giftRevenue,
+    refunds,
+    disputeCount,
+    reports,
+    reportCounts,
+    actions,
+  ] = await Promise.all([
+    prisma.subscription.groupBy({
+      by: ["status"],
+      where: { creatorId },
+      _count: { status: true },
+    }),
+    prisma.subscription.findMany({
+      where: {
+        creatorId,
+        status: "active",
+        stripeSubscriptionId: { not: null },
+        giftId: null,
+      },
+      select: { priceAtPurchase: true, billingInterval: true },
+    }),
+    prisma.purchase.aggregate({
+      where: { creatorId, status: "completed" },
+      _sum: { amount: true },
+      _count: true,
+    }),
+    prisma.gift.aggregate({
+      where: { creatorId, status: { in: ["paid", "redeemed"] } },
+      _sum: { amount: true },
+      _count: true,
+    }),
+    prisma.paymentEvent.aggregate({
+      where: { creatorId, type: "refund" },
+      _sum: { amount: true },
+      _count: true,
+    }),
+    prisma.paymentEvent.count({
+      where: { creatorId, type: "dispute_opened" },
+    }),
+    prisma.contentReport.findMany({
+      where: { content: { creatorId } },
+      take: 20,
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        reason: true,
+        description: true,
+        status: true,
+        reviewNotes: true,
+        createdAt: true,
+        content: { select: { id: true, title: true, status: true } },
+      },
+    }),
+    prisma.contentReport.groupBy({
+      by: ["status"],
+      where: { content: { creatorId } },
+      _count: { status: true },
+    }),
+    prisma.creatorAdminAction.findMany({
+      where: { creatorId },
+      take: 50,
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  // Admin IDs are plain IDs; resolve them for display
+  const admins = await prisma.user.findMany({
+    where: { id: { in: [...new Set(actions.map((a) => a.adminId))] } },
+    select: { id: true, name: true, email: true },
+  });
+  const adminsById = new Map(admins.map((admin) => [admin.id, admin]));
+
+  const subscriptionsByStatus = subscriptionCounts.reduce(
+    (acc, item) => {
+      acc[item.status] = item._count.status;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+  const reportsByStatus = reportCounts.reduce(
+    (acc, item) => {
+      acc[item.status] = item._count.status;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  const mrrCents = paidSubscriptions.reduce(
+    (sum, sub) =>
+      sum +
+      (sub.billingInterval === "year"
+        ? Math.round(sub.priceAtPurchase / 12)
+        : sub.priceAtPurchase),
+    0,
+  );
+
+  const { user, _count, ...profile } = creator;
+
+  return {
+    ...profile,
+    suspendedAt: profile.suspendedAt?.toISOString() ?? null,
+    createdAt: profile.createdAt.toISOString(),
+    user: { ...user, createdAt: user.createdAt.toISOString() },
+    stats: {
+      followerCount: _count.followers,
+      publishedContentCount: _count.content,
+      activeSubscriberCount:
+        (subscriptionsByStatus.active || 0) +
+        (subscriptionsByStatus.trialing || 0),
+      pastDueCount: subscriptionsByStatus.past_due || 0,
+      canceledCount: subscriptionsByStatus.canceled || 0,
+    },
+    revenue: {
+      mrrCents,
+      purchaseCents: purchaseRevenue._sum.amount ?? 0,
+      purchaseCount: purchaseRevenue._count,
+      giftCents: giftRevenue._sum.amount ?? 0,
+      giftCount: giftRevenue._count,
+      refundedCents: refunds._sum.amount ?? 0,
+      refundCount: refunds._count,
+      disputeCount,
+    },
+    reports: reports.map((report) => ({
+      ...report,
+      createdAt: report.createdAt.toISOString(),
+    })),
+    reportCounts: {
+      pending: reportsByStatus.PENDING || 0,
+      reviewed: reportsByStatus.REVIEWED || 0,
+      actionTaken: reportsByStatus.ACTION_TAKEN || 0,
+      dismissed: reportsByStatus.DISMISSED || 0,
+    },
+    actions: actions.map((action) => {
+      const admin = adminsById.get(action.adminId);
+      return {
+        id: action.id,
+        action: action.action,
+        reason: action.reason,
+        adminName: admin?.name || admin?.email || "Deleted admin",
+        createdAt: action.createdAt.toISOString(),
+      };
+    }),
+  };
+}
+
+export type AdminCreatorDetail = NonNullable<
+  Awaited<ReturnType<typeof getAdminCreatorDetail>>
+>;
@@ -0,0 +1,352 @@
+/**
+ * Broadcasts
+ *
+ * A broadcast is one creator message sent to a segment of their audience,
+ * either right away or at a scheduled time. Delivery creates a Message for
+ * each recipient in batches, walking recipients in user ID order and saving
+ * its position on the broadcast, so an interrupted send resumes where it
+ * stopped. Scheduled and unfinished sends are picked up by the
+ * /api/cron/send-broadcasts processor.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { publishToUsers, toRealtimeParticipant } from "@/lib/realtime";
+import {
+  toMessageAttachmentInfo,
+  type MessageAttachmentInfo,
+} from "@/lib/message-attachments";
+import { notBlockedWith } from "@/lib/message-safety";
+import { DEFAULT_MIN_SUBSCRIBED_DAYS } from "@/lib/validations/message";
+import type {
+  Broadcast,
+  BroadcastAudience,
+  BroadcastStatus,
+  Prisma,
+} from "@prisma/client";
+
+// Recipients messaged per database round trip
+const DELIVERY_BATCH_SIZE = 500;
+
+// Batches delivered per broadcast before handing off to the next cron run
+export const MAX_BATCHES_PER_RUN = 20;
+
+// Broadcasts started or resumed per cron run
+const DUE_BROADCAST_LIMIT = 10;
+
+/**
+ * Who a broadcast is sent to
+ */
+export interface BroadcastAudienceFilter {
+  audience: BroadcastAudience;
+  /** Only used by the long_term_subscribers audience */
+  minSubscribedDays?: number | null;
+}
+
+/**
+ * A broadcast as listed in the creator message center
+ */
+export interface BroadcastItem {
+  id: string;
+  content: string;
+  attachment: MessageAttachmentInfo | null;
+  audience: BroadcastAudience;
+  minSubscribedDays: number | null;
+  status: BroadcastStatus;
+  scheduledAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  recipientCount: number;
+  /** Recipients who have opened the message */
+  readCount: number;
+}
+
+export interface BroadcastDeliveryResult {
+  /** Messages created by this call */
+  delivered: number;
+  /** Whether every recipient has now been messaged */
+  done: boolean;
+}
+
+export interface DueBroadcastsResult {
+  broadcastsStarted: number;
+  broadcastsSent: number;
+  messagesDelivered: number;
+}
+
+/**
+ * Build the user filter for a broadcast audience
+ *
+ * Subscription age is measured from `now`, so a scheduled broadcast targets
+ * whoever qualifies when it's sent.
+ *
+ * @param creator - The creator's profile ID and user ID
+ * @param filter - The audience to target
+ */
+export function getAudienceWhere(
+  creator: { id: string; userId: string },
+  filter: BroadcastAudienceFilter,
+  now: Date = new Date(),
+): Prisma.UserWhereInput {
+  const creatorId = creator.id;
+  // Creators can subscribe to or follow themselves; never message them, or
+  // anyone either side has blocked
+  const notCreator = {
+    id: { not: creator.userId },
+    ...notBlockedWith(creator.userId),
+  };
+
+  switch (filter.audience) {
+    case "subscribers":
+      return {
+        ...notCreator,
+        subscriptions: {
+          some: { creatorId, status: { in: ["active", "trialing"] } },
+        },
+      };
+    case "trialing":
+      return {
+        ...notCreator,
+        subscriptions: { some: { creatorId, status: "trialing" } },
+      };
+    case "long_term_subscribers": {
+      const days = filter.minSubscribedDays ?? DEFAULT_MIN_SUBSCRIBED_DAYS;
+      const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      return {
+        ...notCreator,
+        subscriptions: {
+          some: { creatorId, status: "active", createdAt: { lte: cutoff } },
+        },
+      };
+    }
+    case "followers_not_subscribed":
+      return {
+        ...notCreator,
+        follows: { some: { creatorId } },
+        subscriptions: {
+          none: { creatorId, status: { in: ["active", "trialing"] } },
+        },
+      };
+  }
+}
+
+/**
+ * Count the users a broadcast would currently reach
+ */
+export async function countBroadcastAudience(
+  creator: { id: string; userId: string },
+  filter: BroadcastAudienceFilter,
+): Promise<number> {
+  return prisma.user.count({ where: getAudienceWhere(creator, filter) });
+}
+
+/**
+ * Deliver a broadcast that is sending, resuming after its last recipient
+ *
+ * Safe to run concurrently for the same broadcast: messages are unique per
+ * broadcast and receiver, so only newly created messages are counted and
+ * pushed to open inboxes.
+ *
+ * @param broadcastId - The broadcast to deliver
+ * @param maxBatches - Stop after this many batches; the rest is left for
+ *   the next cron run
+ */
+export async function deliverBroadcast(
+  broadcastId: string,
+  maxBatches = MAX_BATCHES_PER_RUN,
+): Promise<BroadcastDeliveryResult> {
+  const broadcast = await prisma.broadcast.findUnique({
+    where: { id: broadcastId },
+    include: {
+      creator: {
+        select: {
+          id: true,
+          userId: true,
+          handle: true,
+          displayName: true,
+          avatarUrl: true,
+          user: { select: { name: true, avatarUrl: true } },
+        },
+      },
+    },
+  });
+
+  if (!broadcast || broadcast.status !== "sending") {
+    return { delivered: 0, done: broadcast?.status === "sent" };
+  }
+
+  const { creator } = broadcast;
+  const audienceWhere = getAudienceWhere(creator, broadcast);
+  const sender = toRealtimeParticipant({
+    id: creator.userId,
+    name: creator.user.name,
+    avatarUrl: creator.user.avatarUrl,
+    creatorProfile: creator,
+  });
+
+  let cursor = broadcast.deliveryCursor;
+  let delivered = 0;
+  let done = false;
+
+  for (let batch = 0; batch < maxBatches && !done; batch++) {
+    const recipients = await prisma.user.findMany({
+      where: {
+        AND: [audienceWhere, cursor ? { id: { gt: cursor } } : {}],
+      },
+      orderBy: { id: "asc" },
+      take: DELIVERY_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    done = recipients.length < DELIVERY_BATCH_SIZE;
+    if (recipients.length === 0) break;
+
+    const messages = await prisma.message.createManyAndReturn({
+      data: recipients.map((recipient) => ({
+        senderId: creator.userId,
+        receiverId: recipient.id,
+        broadcastId: broadcast.id,
+        content: broadcast.content,
+        isBroadcast: true,
+        isRead: false,
+        attachmentType: broadcast.attachmentType,
+        attachmentKey: broadcast.attachmentKey,
+        attachmentDuration: broadcast.attachmentDuration,
+      })),
+      skipDuplicates: true,
+      select: {
+        id: true,
+        receiverId: true,
+        attachmentType: true,
+        attachmentDuration: true,
+        createdAt: true,
+      },
+    });
+
+    cursor = recipients[recipients.length - 1].id;
+    delivered += messages.length;
+
+    await prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: {
+        deliveryCursor: cursor,
+        recipientCount: { increment: messages.length },
+      },
+    });
+
+    // Deliver to recipients' open inboxes
+    await publishToUsers(
+      messages.map((message) => ({
+        userId: message.receiverId,
+        event: {
+          type: "message.new",
+          message: {
+            id: message.id,
+            content: broadcast.content,
+            isBroadcast: true,
+            attachment: toMessageAttachmentInfo(message),
+            createdAt: message.createdAt.toISOString(),
+            sender,
+          },
+        },
+      })),
+    );
+  }
+
+  if (done) {
+    await prisma.broadcast.updateMany({
+      where: { id: broadcast.id, status: "sending" },
+      data: { status: "sent", sentAt: new Date() },
+    });
+  }
+
+  return { delivered, done };
+}
+
+/**
+ * Start scheduled broadcasts that are due and continue unfinished sends
+ *
+ * Called by the send-broadcasts cron. The status guard when starting a
+ * broadcast means a creator canceling at the same moment, or an
+ * overlapping run, can't start it twice.
+ */
+export async function sendDueBroadcasts(
+  now: Date = new Date(),
+): Promise<DueBroadcastsResult> {
+  const due = await prisma.broadcast.findMany({
+    where: { status: "scheduled", scheduledAt: { lte: now } },
+    orderBy: { scheduledAt: "asc" },
+    take: DUE_BROADCAST_LIMIT,
+    select: { id: true },
+  });
+
+  let broadcastsStarted = 0;
+
+  for (const broadcast of due) {
+    const { count } = await prisma.broadcast.updateMany({
+      where: { id: broadcast.id, status: "scheduled" },
+      data: { status: "sending" },
+    });
+    broadcastsStarted += count;
+  }
+
+  // Includes sends started by a request or run that didn't finish
+  const sending = await prisma.broadcast.findMany({
+    where: { status: "sending" },
+    orderBy: { scheduledAt: "asc" },
+    take: DUE_BROADCAST_LIMIT,
+    select: { id: true },
+  });
+
+  let broadcastsSent = 0;
+  let messagesDelivered = 0;
+
+  for (const broadcast of sending) {
+    try {
+      const result = await deliverBroadcast(broadcast.id);
+      messagesDelivered += result.delivered;
+      if (result.done) broadcastsSent++;
+    } catch (error) {
+      // Leave it sending; the next run resumes from its cursor
+      console.error(`Error delivering broadcast ${broadcast.id}:`, error);
+    }
+  }
+
+  return { broadcastsStarted, broadcastsSent, messagesDelivered };
+}
+
+/**
+ * Format broadcasts for the creator message center, with read counts
+ */
+export async function toBroadcastItems(
+  broadcasts: Broadcast[],
+): Promise<BroadcastItem[]> {
+  const readCounts =
+    broadcasts.length > 0
+      ? await prisma.message.groupBy({
+          by: ["broadcastId"],
+          where: {
+            broadcastId: { in: broadcasts.map((broadcast) => broadcast.id) },
+            isRead: true,
+          },
+          _count: { _all: true },
+        })
+      : [];
+
+  const readCountById = new Map(
+    readCounts.map((row) => [row.broadcastId, row._count._all]),
+  );
+
+  return broadcasts.map((broadcast) => ({
+    id: broadcast.id,
+    content: broadcast.content,
+    attachment: toMessageAttachmentInfo(broadcast),
+    audience: broadcast.audience,
+    minSubscribedDays: broadcast.minSubscribedDays,
+    status: broadcast.status,
+    scheduledAt: broadcast.scheduledAt.toISOString(),
+    sentAt: broadcast.sentAt?.toISOString() ?? null,
+    createdAt: broadcast.createdAt.toISOString(),
+    recipientCount: broadcast.recipientCount,
+    readCount: readCountById.get(broadcast.id) ?? 0,
+  }));
+}
@@ -8,6 +8,7 @@
  * @see https://developers.cloudflare.com/r2/
  * @see https://developers.cloudflare.com/stream/
  */
+import crypto from "crypto";
 import {
   S3Client,
   PutObjectCommand,
@@ -108,6 +109,8 @@ export const R2_PATHS = {
     `creators/${creatorId}/avatar/${filename}`,
   cover: (creatorId: string, filename: string) =>
     `creators/${creatorId}/cover/${filename}`,
+  messageAttachment: (userId: string, filename: string) =>
+    `messages/${userId}/attachments/${filename}`,
 } as const;
 
 /**
@@ -391,6 +394,61 @@ export async function generateStreamSignedToken(
   return data.result.token;
 }
 
+/**
+ * Maximum age of a Stream webhook before it's rejected as a replay
+ */
+const STREAM_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Verify the Webhook-Signature header Cloudflare Stream sends with
+ * processing notifications
+ *
+ * The header has the form `time=<unix seconds>,sig1=<hex>`, where sig1 is
+ * an HMAC-SHA256 of `<time>.<raw body>` keyed with the webhook secret.
+ *
+ * @param body - The raw request body
+ * @param signatureHeader - The Webhook-Signature header value
+ * @returns Whether the signature is valid and recent
+ * @see https://developers.cloudflare.com/stream/manage-video-library/using-webhooks/
+ */
+export function verifyStreamWebhookSignature(
+  body: string,
+  signatureHeader: string,
+): boolean {
+  const secret = getEnvOrThrow("CLOUDFLARE_STREAM_WEBHOOK_SECRET");
+
+  const parts = new Map(
+    signatureHeader.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    }),
+  );
+  const time = parts.get("time");
+  const signature = parts.get("sig1");
+
+  if (!time || !signature) {
+    return false;
+  }
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - Number(time));
+  if (!Number.isFinite(age) || age > STREAM_WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${time}.${body}`)
+    .digest("hex");
+
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const signatureBuffer = Buffer.from(signature, "hex");
+
+  return (
+    expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+  );
+}
+
 /**
  * Get the embed URL for a Cloudflare Stream video
  *
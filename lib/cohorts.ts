@@ -0,0 +1,349 @@
+/**
+ * Cohort Analytics
+ *
+ * Groups a creator's paid subscriptions by the month they started to
+ * show how long subscribers stay, how many trials become paid, why
+ * subscriptions end, and how early engagement relates to both. Alongside
+ * the cohorts: what subscribers said in the cancellation survey, and how
+ * many took a retention offer instead.
+ *
+ * Gifted memberships aren't paid subscriptions and are left out.
+ * Resubscribing reuses a subscriber's existing subscription, so they stay
+ * in the cohort they first joined.
+ */
+
+import type { CancellationCause, SubscriptionStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type {
+  CohortAnalyticsResponse,
+  CohortSegment,
+} from "@/lib/validations/analytics";
+
+/** How many monthly cohorts to show, including the current month */
+const COHORT_MONTHS = 12;
+
+/**
+ * Early engagement is measured during the free trial, or the first
+ * ENGAGEMENT_WINDOW_DAYS without one
+ */
+const ENGAGEMENT_WINDOW_DAYS = 30;
+
+/** Completions in the engagement window that count as engaged */
+const ENGAGED_COMPLETIONS = 5;
+
+interface CohortSubscription {
+  id: string;
+  status: SubscriptionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  currentPeriodEnd: Date | null;
+  trialEndsAt: Date | null;
+  canceledAt: Date | null;
+  cancellationCause: CancellationCause | null;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+/**
+ * When a subscription ended, or null if it's still going
+ * Subscriptions canceled before canceledAt was tracked fall back to the
+ * end of their paid period.
+ */
+function getEndedAt(subscription: CohortSubscription): Date | null {
+  if (subscription.status !== "canceled") return null;
+  return (
+    subscription.canceledAt ??
+    subscription.currentPeriodEnd ??
+    subscription.updatedAt
+  );
+}
+
+/**
+ * Whether a subscription was still going a number of months after it
+ * started
+ */
+function isRetained(subscription: CohortSubscription, months: number) {
+  const endedAt = getEndedAt(subscription);
+  return !endedAt || endedAt >= addMonths(subscription.createdAt, months);
+}
+
+/**
+ * Whether a subscription's free trial has ended, and if so whether it
+ * became paid (it was still going when the trial ended)
+ */
+function getTrialOutcome(
+  subscription: CohortSubscription,
+  now: Date,
+): "converted" | "lost" | null {
+  const { trialEndsAt } = subscription;
+  if (!trialEndsAt || trialEndsAt > now) return null;
+
+  const endedAt = getEndedAt(subscription);
+  return !endedAt || endedAt > trialEndsAt ? "converted" : "lost";
+}
+
+/**
+ * Retention and trial conversion for a group of subscriptions
+ */
+function summarizeSegment(
+  label: string,
+  subscriptions: CohortSubscription[],
+  now: Date,
+): CohortSegment {
+  const outcomes = subscriptions
+    .map((subscription) => getTrialOutcome(subscription, now))
+    .filter((outcome) => outcome !== null);
+  const converted = outcomes.filter((o) => o === "converted").length;
+
+  return {
+    label,
+    subscribers: subscriptions.length,
+    retentionRate: percent(
+      subscriptions.filter((subscription) => !getEndedAt(subscription))
+        .length,
+      subscriptions.length,
+    ),
+    trials: outcomes.length,
+    trialConversionRate:
+      outcomes.length > 0 ? percent(converted, outcomes.length) : null,
+  };
+}
+
+/**
+ * Content completions and program completions by each subscriber during
+ * their engagement window, keyed by subscription ID
+ */
+async function getEarlyEngagement(creatorId: string, since: Date) {
+  const [completionRows, programRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; completions: bigint }>>`
+      SELECT s.id, COUNT(*) as completions
+      FROM "Subscription" s
+      JOIN "ContentView" cv ON cv."userId" = s."userId"
+      JOIN "Content" c ON cv."contentId" = c.id
+      WHERE s."creatorId" = ${creatorId}
+        AND s."createdAt" >= ${since}
+        AND c."creatorId" = s."creatorId"
+        AND cv."completedAt" >= s."createdAt"
+        AND cv."completedAt" < COALESCE(
+          s."trialEndsAt",
+          s."createdAt" + ${ENGAGEMENT_WINDOW_DAYS}::int * INTERVAL '1 day'
+        )
+      GROUP BY s.id
+    `,
+    prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT DISTINCT s.id
+      FROM "Subscription" s
+      JOIN "ProgramEnrollment" pe ON pe."userId" = s."userId"
+      JOIN "Program" p ON pe."programId" = p.id
+      WHERE s."creatorId" = ${creatorId}
+        AND s."createdAt" >= ${since}
+        AND p."creatorId" = s."creatorId"
+        AND pe."completedAt" >= s."createdAt"
+        AND pe."completedAt" < COALESCE(
+          s."trialEndsAt",
+          s."createdAt" + ${ENGAGEMENT_WINDOW_DAYS}::int * INTERVAL '1 day'
+        )
+    `,
+  ]);
+
+  return {
+    completions: new Map(
+      completionRows.map((row) => [row.id, Number(row.completions)]),
+    ),
+    finishedProgram: new Set(programRows.map((row) => row.id)),
+  };
+}
+
+/**
+ * Cancellation survey answers and retention offers taken in the window,
+ * for subscriptions of any age
+ * Subscribers who are set to cancel count too; their answer is cleared if
+ * they reactivate.
+ */
+async function getCancellationSurvey(creatorId: string, since: Date) {
+  const [reasonCounts, offerCounts] = await Promise.all([
+    prisma.subscription.groupBy({
+      by: ["cancellationReason"],
+      where: {
+        creatorId,
+        cancellationReason: { not: null },
+        OR: [
+          { status: "canceled", canceledAt: { gte: since } },
+          { status: { not: "canceled" }, cancelAtPeriodEnd: true },
+        ],
+      },
+      _count: { id: true },
+    }),
+    prisma.subscription.groupBy({
+      by: ["retentionOffer"],
+      where: {
+        creatorId,
+        retentionOffer: { not: null },
+        retentionOfferAcceptedAt: { gte: since },
+      },
+      _count: { id: true },
+    }),
+  ]);
+
+  return {
+    cancellationReasons: reasonCounts
+      .flatMap(({ cancellationReason: reason, _count }) =>
+        reason ? [{ reason, count: _count.id }] : [],
+      )
+      .sort((a, b) => b.count - a.count),
+    retentionOffers: offerCounts.flatMap(({ retentionOffer: offer, _count }) =>
+      offer ? [{ offer, count: _count.id }] : [],
+    ),
+  };
+}
+
+/**
+ * Cohort analysis of a creator's subscribers over the last COHORT_MONTHS
+ * months
+ *
+ * - Cohorts: subscribers by start month, with the percent still
+ *   subscribed each month after. Months a subscriber hasn't reached yet
+ *   don't count against the cohort.
+ * - Trial conversion: finished trials that became paid.
+ * - Cancellations: why subscriptions that started in the window ended.
+ * - Engagement: retention and trial conversion by completions during the
+ *   trial (or first 30 days), and by whether the subscriber finished a
+ *   program in that time.
+ * - Survey: cancellation reasons and retention offers taken in the window.
+ */
+export async function getCohortAnalytics(
+  creatorId: string,
+  now: Date = new Date(),
+): Promise<CohortAnalyticsResponse> {
+  const since = addMonths(
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    -(COHORT_MONTHS - 1),
+  );
+
+  const [subscriptions, engagement, survey] = await Promise.all([
+    prisma.subscription.findMany({
+      where: { creatorId, giftId: null, createdAt: { gte: since } },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        currentPeriodEnd: true,
+        trialEndsAt: true,
+        canceledAt: true,
+        cancellationCause: true,
+      },
+    }),
+    getEarlyEngagement(creatorId, since),
+    getCancellationSurvey(creatorId, since),
+  ]);
+
+  // Cohorts by start month, newest first
+  const byMonth = new Map<string, CohortSubscription[]>();
+  for (const subscription of subscriptions) {
+    const month = subscription.createdAt.toISOString().slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), subscription]);
+  }
+
+  const cohorts = [...byMonth].map(([month, members]) => {
+    const retention: number[] = [];
+    for (let months = 0; months < COHORT_MONTHS; months++) {
+      const reached = members.filter(
+        (subscription) => addMonths(subscription.createdAt, months) <= now,
+      );
+      if (reached.length === 0) break;
+
+      retention.push(
+        percent(
+          reached.filter((subscription) => isRetained(subscription, months))
+            .length,
+          reached.length,
+        ),
+      );
+    }
+
+    const outcomes = members.map((subscription) =>
+      getTrialOutcome(subscription, now),
+    );
+
+    return {
+      month,
+      subscribers: members.length,
+      retention,
+      trials: outcomes.filter((outcome) => outcome !== null).length,
+      trialConversions: outcomes.filter((outcome) => outcome === "converted")
+        .length,
+    };
+  });
+
+  const trials = cohorts.reduce((sum, cohort) => sum + cohort.trials, 0);
+  const converted = cohorts.reduce(
+    (sum, cohort) => sum + cohort.trialConversions,
+    0,
+  );
+
+  // Cancellation causes, most common first
+  const causeCounts = new Map<CancellationCause | null, number>();
+  for (const subscription of subscriptions) {
+    if (!getEndedAt(subscription)) continue;
+    const cause = subscription.cancellationCause;
+    causeCounts.set(cause, (causeCounts.get(cause) ?? 0) + 1);
+  }
+
+  const completionsOf = (subscription: CohortSubscription) =>
+    engagement.completions.get(subscription.id) ?? 0;
+  const finishedProgram = (subscription: CohortSubscription) =>
+    engagement.finishedProgram.has(subscription.id);
+
+  return {
+    cohorts,
+    trialConversion: {
+      trials,
+      converted,
+      rate: percent(converted, trials),
+    },
+    cancellations: [...causeCounts]
+      .map(([cause, count]) => ({ cause, count }))
+      .sort((a, b) => b.count - a.count),
+    ...survey,
+    engagement: [
+      summarizeSegment(
+        "No completions",
+        subscriptions.filter((s) => completionsOf(s) === 0),
+        now,
+      ),
+      summarizeSegment(
+        `1–${ENGAGED_COMPLETIONS - 1} completions`,
+        subscriptions.filter(
+          (s) =>
+            completionsOf(s) > 0 && completionsOf(s) < ENGAGED_COMPLETIONS,
+        ),
+        now,
+      ),
+      summarizeSegment(
+        `${ENGAGED_COMPLETIONS}+ completions`,
+        subscriptions.filter((s) => completionsOf(s) >= ENGAGED_COMPLETIONS),
+        now,
+      ),
+      summarizeSegment(
+        "Finished a program",
+        subscriptions.filter(finishedProgram),
+        now,
+      ),
+      summarizeSegment(
+        "Didn't finish a program",
+        subscriptions.filter((s) => !finishedProgram(s)),
+        now,
+      ),
+    ],
+  };
+}
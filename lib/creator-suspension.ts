@@ -0,0 +1,198 @@
+/**
+ * Creator Suspension Helpers
+ *
+ * Admins suspend creators from /admin/creators. Profiles, feeds, search and
+ * content pages only show active creators, so a suspended creator drops out
+ * of all of them. On top of that, billing is paused on the creator's
+ * subscriptions so nobody is charged for content they can't see, and
+ * subscribers are notified. Reinstating reverses each step.
+ */
+
+import type { SubscriptionStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { setSubscriptionCollectionPaused } from "@/lib/stripe";
+import {
+  invalidateCreatorProfileCache,
+  invalidateCreatorSubscriptionCaches,
+} from "@/lib/cache";
+import {
+  notifyCreatorAccountSuspended,
+  notifyCreatorReinstated,
+  notifyCreatorSuspended,
+} from "@/lib/notifications";
+
+// Subscriptions Stripe may still bill
+const BILLABLE_STATUSES: SubscriptionStatus[] = [
+  "active",
+  "trialing",
+  "past_due",
+];
+
+/**
+ * Outcome of a suspension or reinstatement
+ */
+export interface SuspensionResult {
+  /** Subscribers notified */
+  notifiedCount: number;
+  /** Stripe subscriptions whose billing couldn't be paused or resumed */
+  failedSubscriptionIds: string[];
+}
+
+/**
+ * Pause or resume billing on all of a creator's Stripe subscriptions
+ *
+ * Runs one at a time to stay well under Stripe's rate limit. Failures are
+ * logged and returned so an admin can retry rather than aborting halfway.
+ * Subscribers' own pauses are left alone, so lifting a suspension doesn't
+ * end them early.
+ *
+ * @returns IDs of the Stripe subscriptions that failed
+ */
+async function setCreatorBillingPaused(
+  creatorId: string,
+  paused: boolean,
+): Promise<{ subscriberIds: string[]; failedSubscriptionIds: string[] }> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { creatorId, status: { in: BILLABLE_STATUSES } },
+    select: {
+      userId: true,
+      stripeSubscriptionId: true,
+      giftId: true,
+      pausedUntil: true,
+    },
+  });
+
+  const failedSubscriptionIds: string[] = [];
+
+  for (const { stripeSubscriptionId, giftId, pausedUntil } of subscriptions) {
+    // Gifted subscriptions are prepaid and have nothing to pause, even
+    // when they extend a canceled Stripe subscription
+    if (!stripeSubscriptionId || giftId || pausedUntil) continue;
+
+    try {
+      await setSubscriptionCollectionPaused(stripeSubscriptionId, paused);
+    } catch (error) {
+      console.error(
+        `Failed to ${paused ? "pause" : "resume"} billing for ${stripeSubscriptionId}:`,
+        error,
+      );
+      failedSubscriptionIds.push(stripeSubscriptionId);
+    }
+  }
+
+  return {
+    subscriberIds: [...new Set(subscriptions.map((s) => s.userId))],
+    failedSubscriptionIds,
+  };
+}
+
+/**
+ * Suspend a creator
+ *
+ * @param options - Creator, the admin suspending them, and the reason
+ * @returns The outcome, or null if the creator was already suspended or
+ * deactivated
+ */
+export async function suspendCreator(options: {
+  creatorId: string;
+  adminId: string;
+  reason: string;
+}): Promise<SuspensionResult | null> {
+  const { creatorId, adminId, reason } = options;
+
+  // Status guard so two admins suspending at once only suspend once
+  const { count } = await prisma.creatorProfile.updateMany({
+    where: { id: creatorId, status: { in: ["active", "pending_setup"] } },
+    data: {
+      status: "suspended",
+      suspendedAt: new Date(),
+      suspensionReason: reason,
+    },
+  });
+
+  if (count === 0) return null;
+
+  const creator = await prisma.creatorProfile.findUniqueOrThrow({
+    where: { id: creatorId },
+    select: { userId: true, handle: true, displayName: true },
+  });
+
+  await prisma.creatorAdminAction.create({
+    data: { creatorId, adminId, action: "suspend", reason },
+  });
+
+  const { subscriberIds, failedSubscriptionIds } =
+    await setCreatorBillingPaused(creatorId, true);
+
+  await Promise.all([
+    invalidateCreatorProfileCache(creatorId, creator.handle),
+    invalidateCreatorSubscriptionCaches(creatorId),
+  ]);
+
+  const notifiedCount = await notifyCreatorSuspended(
+    subscriberIds,
+    creator.displayName,
+  );
+  await notifyCreatorAccountSuspended(creator.userId, reason);
+
+  return { notifiedCount, failedSubscriptionIds };
+}
+
+/**
+ * Reinstate a suspended creator
+ *
+ * Creators who hadn't finished Stripe onboarding go back to pending setup.
+ *
+ * @param options - Creator, the admin reinstating them, and an optional
+ * note for the audit trail
+ * @returns The outcome, or null if the creator wasn't suspended
+ */
+export async function reinstateCreator(options: {
+  creatorId: string;
+  adminId: string;
+  reason?: string;
+}): Promise<SuspensionResult | null> {
+  const { creatorId, adminId, reason } = options;
+
+  const creator = await prisma.creatorProfile.findUnique({
+    where: { id: creatorId },
+    select: {
+      handle: true,
+      displayName: true,
+      stripeOnboardingComplete: true,
+    },
+  });
+
+  if (!creator) return null;
+
+  const { count } = await prisma.creatorProfile.updateMany({
+    where: { id: creatorId, status: "suspended" },
+    data: {
+      status: creator.stripeOnboardingComplete ? "active" : "pending_setup",
+      suspendedAt: null,
+      suspensionReason: null,
+    },
+  });
+
+  if (count === 0) return null;
+
+  await prisma.creatorAdminAction.create({
+    data: { creatorId, adminId, action: "reinstate", reason },
+  });
+
+  const { subscriberIds, failedSubscriptionIds } =
+    await setCreatorBillingPaused(creatorId, false);
+
+  await Promise.all([
+    invalidateCreatorProfileCache(creatorId, creator.handle),
+    invalidateCreatorSubscriptionCaches(creatorId),
+  ]);
+
+  const notifiedCount = await notifyCreatorReinstated(
+    subscriberIds,
+    creator.displayName,
+    creator.handle,
+  );
+
+  return { notifiedCount, failedSubscriptionIds };
+}
@@ -0,0 +1,49 @@
+/**
+ * Cron Route Helpers
+ *
+ * Cron routes are public in middleware since schedulers can't sign in
+ * through Clerk. Instead, requests must send
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Check the bearer token against CRON_SECRET in constant time
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const expected = `Bearer ${secret}`;
+
+  if (header.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+}
+
+/**
+ * Verify a cron request
+ *
+ * @returns An error response to send, or null if the request may proceed
+ */
+export function verifyCronRequest(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json(
+      { error: "Cron is not configured", code: "SERVER_ERROR" },
+      { status: 500 },
+    );
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json(
+      { error: "Unauthorized", code: "UNAUTHORIZED" },
+      { status: 401 },
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,245 @@
+/**
+ * DM Policy
+ *
+ * Decides whether a user can message a creator directly, under the
+ * creator's direct message settings:
+ * - dmEnabled turns direct messages off entirely
+ * - dmMinTier limits messages to members of a minimum tier
+ * - dmMinSubscribedDays makes new subscribers wait before messaging,
+ *   counted from when their current subscription started
+ * - dmFollowerRequests lets followers and subscribers who don't qualify
+ *   send one message request, which the creator can accept or decline
+ * - dmRequestPriceCents charges for a message request at checkout; it
+ *   reaches the creator once paid
+ * - dmDailyLimit caps the direct messages a creator receives per 24 hours
+ *
+ * An accepted request lets its sender message the creator from then on,
+ * whatever their subscription. Blocks are checked separately, see
+ * lib/message-safety.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { UNTIERED_RANK } from "@/lib/tiers";
+import type { Prisma } from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creator fields the policy needs
+ */
+export const dmPolicyCreatorSelect = {
+  id: true,
+  userId: true,
+  displayName: true,
+  dmEnabled: true,
+  dmMinTier: { select: { name: true, rank: true } },
+  dmMinSubscribedDays: true,
+  dmFollowerRequests: true,
+  dmRequestPriceCents: true,
+  dmDailyLimit: true,
+} satisfies Prisma.CreatorProfileSelect;
+
+export type DmPolicyCreator = Prisma.CreatorProfileGetPayload<{
+  select: typeof dmPolicyCreatorSelect;
+}>;
+
+export type DmDeniedCode =
+  | "DMS_DISABLED"
+  | "NOT_SUBSCRIBED"
+  | "TIER_REQUIRED"
+  | "SUBSCRIPTION_TOO_NEW"
+  | "REQUEST_PENDING"
+  | "REQUEST_DECLINED"
+  | "DAILY_LIMIT_REACHED";
+
+export type DmPolicyDecision =
+  /** The user can send direct messages */
+  | { status: "allowed" }
+  /**
+   * The user can't message directly, but can send one message request,
+   * for a price in cents if the creator charges for requests
+   */
+  | { status: "request"; priceCents: number | null }
+  | { status: "denied"; code: DmDeniedCode; reason: string };
+
+/**
+ * Decide whether a user can message a creator
+ *
+ * @param senderId - The user who wants to send a message
+ * @param creator - The creator's profile, selected with dmPolicyCreatorSelect
+ */
+export async function getDmPolicyDecision(
+  senderId: string,
+  creator: DmPolicyCreator,
+  now: Date = new Date(),
+): Promise<DmPolicyDecision> {
+  if (!creator.dmEnabled) {
+    return {
+      status: "denied",
+      code: "DMS_DISABLED",
+      reason: "This creator has disabled direct messages",
+    };
+  }
+
+  const [subscription, request, follow] = await Promise.all([
+    prisma.subscription.findFirst({
+      where: {
+        userId: senderId,
+        creatorId: creator.id,
+        status: { in: ["active", "trialing"] },
+      },
+      select: { startedAt: true, tier: { select: { rank: true } } },
+    }),
+    prisma.messageRequest.findUnique({
+      where: { creatorId_senderId: { creatorId: creator.id, senderId } },
+      select: { status: true },
+    }),
+    creator.dmFollowerRequests
+      ? prisma.follow.findUnique({
+          where: {
+            userId_creatorId: { userId: senderId, creatorId: creator.id },
+          },
+          select: { id: true },
+        })
+      : null,
+  ]);
+
+  // Why a subscriber doesn't qualify, if they don't
+  let subscriberDenial: DmPolicyDecision | null = null;
+
+  if (subscription) {
+    const { dmMinTier, dmMinSubscribedDays } = creator;
+    const subscribedFor = now.getTime() - subscription.startedAt.getTime();
+
+    if (
+      dmMinTier &&
+      (subscription.tier?.rank ?? UNTIERED_RANK) < dmMinTier.rank
+    ) {
+      subscriberDenial = {
+        status: "denied",
+        code: "TIER_REQUIRED",
+        reason: `Messaging this creator requires the ${dmMinTier.name} tier or higher`,
+      };
+    } else if (
+      dmMinSubscribedDays &&
+      subscribedFor < dmMinSubscribedDays * DAY_MS
+    ) {
+      subscriberDenial = {
+        status: "denied",
+        code: "SUBSCRIPTION_TOO_NEW",
+        reason: `You can message this creator after ${dmMinSubscribedDays} days of subscribing`,
+      };
+    }
+  }
+
+  const isEligible =
+    (subscription && !subscriberDenial) || request?.status === "accepted";
+
+  if (isEligible) {
+    if (await isOverDailyLimit(creator, now)) {
+      return {
+        status: "denied",
+        code: "DAILY_LIMIT_REACHED",
+        reason: `${creator.displayName} isn't taking more messages today. Please try again tomorrow.`,
+      };
+    }
+    return { status: "allowed" };
+  }
+
+  if (request?.status === "pending") {
+    return {
+      status: "denied",
+      code: "REQUEST_PENDING",
+      reason: `Your message request is waiting for ${creator.displayName} to respond`,
+    };
+  }
+
+  if (request?.status === "declined") {
+    return {
+      status: "denied",
+      code: "REQUEST_DECLINED",
+      reason: `${creator.displayName} isn't accepting messages from you right now`,
+    };
+  }
+
+  // An unpaid request can be sent again, e.g. after abandoning checkout
+  if (creator.dmFollowerRequests && (subscription || follow)) {
+    return { status: "request", priceCents: creator.dmRequestPriceCents };
+  }
+
+  return (
+    subscriberDenial ?? {
+      status: "denied",
+      code: "NOT_SUBSCRIBED",
+      reason: "You must be subscribed to this creator to send messages",
+    }
+  );
+}
+
+/**
+ * Whether a creator has received their daily limit of direct messages
+ */
+async function isOverDailyLimit(
+  creator: DmPolicyCreator,
+  now: Date,
+): Promise<boolean> {
+  if (!creator.dmDailyLimit) return false;
+
+  const received = await prisma.message.count({
+    where: {
+      receiverId: creator.userId,
+      isBroadcast: false,
+      createdAt: { gte: new Date(now.getTime() - DAY_MS) },
+    },
+  });
+
+  return received >= creator.dmDailyLimit;
+}
+
+/**
+ * Sender fields shown with a message request
+ */
+export const messageRequestSenderSelect = {
+  id: true,
+  name: true,
+  avatarUrl: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * A pending message request as shown in the creator's inbox
+ */
+export interface MessageRequestItem {
+  id: string;
+  content: string;
+  /** What the sender paid (cents), null for free requests */
+  amount: number | null;
+  createdAt: string;
+  sender: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  };
+}
+
+/**
+ * Format a message request for the creator's inbox
+ */
+export function toMessageRequestItem(request: {
+  id: string;
+  content: string;
+  amount: number | null;
+  createdAt: Date;
+  sender: { id: string; name: string | null; avatarUrl: string | null };
+}): MessageRequestItem {
+  return {
+    id: request.id,
+    content: request.content,
+    amount: request.amount,
+    createdAt: request.createdAt.toISOString(),
+    sender: {
+      id: request.sender.id,
+      name: request.sender.name || "Unknown",
+      avatarUrl: request.sender.avatarUrl,
+    },
+  };
+}
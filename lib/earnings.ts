@@ -0,0 +1,327 @@
+/**
+ * Earnings Ledger
+ *
+ * Every payment, refund and payout that moves through a creator's
+ * connected account is recorded as a LedgerEntry by the Stripe webhook,
+ * so creator analytics match what creators see in Stripe: renewals
+ * count, trials don't, refunds and the platform fee come off.
+ *
+ * Entries are keyed by the Stripe object they came from, so replayed
+ * webhooks never double count.
+ */
+
+import type { LedgerEntryType } from "@prisma/client";
+import type { Stripe } from "stripe";
+import { prisma } from "@/lib/prisma";
+import type { AnalyticsResponse } from "@/lib/validations/analytics";
+
+const MONTH_MS = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+/** Entry types that count toward a creator's earnings */
+const EARNING_TYPES: LedgerEntryType[] = [
+  "subscription",
+  "purchase",
+  "gift",
+  "message_request",
+  "refund",
+];
+
+/** How many payouts the analytics page lists */
+const PAYOUT_HISTORY_LIMIT = 10;
+
+/**
+ * Record a payment or refund in a creator's ledger
+ * Idempotent: an entry that already exists is left as it was.
+ *
+ * @param entry - Amounts are in cents; netAmount is gross less the fee
+ */
+export async function recordLedgerEntry(entry: {
+  creatorId: string;
+  type: Exclude<LedgerEntryType, "payout">;
+  stripeObjectId: string;
+  userId?: string | null;
+  stripeSubscriptionId?: string | null;
+  grossAmount: number;
+  platformFee: number;
+  currency?: string;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+  occurredAt: Date;
+}) {
+  return prisma.ledgerEntry.upsert({
+    where: { stripeObjectId: entry.stripeObjectId },
+    create: {
+      ...entry,
+      netAmount: entry.grossAmount - entry.platformFee,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Record a refund against a creator's earnings
+ *
+ * The platform absorbs refunds it issues (PRD: Refund Policy), so those
+ * come entirely out of the platform fee and the creator's net is
+ * unchanged. A refund that reverses the transfer to the creator (e.g.
+ * from the Stripe dashboard) takes the reversed amount off their net.
+ *
+ * @param refund - Listed with data.transfer_reversal expanded
+ */
+export async function recordRefund(
+  refund: Stripe.Refund,
+  payment: {
+    creatorId: string;
+    userId?: string | null;
+    stripeSubscriptionId?: string | null;
+  },
+) {
+  const reversal = refund.transfer_reversal;
+  const reversedAmount =
+    reversal && typeof reversal !== "string" ? reversal.amount : 0;
+
+  return recordLedgerEntry({
+    creatorId: payment.creatorId,
+    type: "refund",
+    userId: payment.userId,
+    stripeSubscriptionId: payment.stripeSubscriptionId,
+    stripeObjectId: refund.id,
+    grossAmount: -refund.amount,
+    platformFee: reversedAmount - refund.amount,
+    currency: refund.currency,
+    occurredAt: new Date(refund.created * 1000),
+  });
+}
+
+/**
+ * Record a payout from a creator's Stripe balance to their bank, or
+ * update its status as it moves from pending to paid (or fails)
+ */
+export async function recordPayout(creatorId: string, payout: Stripe.Payout) {
+  const arrivalDate = new Date(payout.arrival_date * 1000);
+
+  return prisma.ledgerEntry.upsert({
+    where: { stripeObjectId: payout.id },
+    create: {
+      creatorId,
+      type: "payout",
+      stripeObjectId: payout.id,
+      grossAmount: payout.amount,
+      platformFee: 0,
+      netAmount: payout.amount,
+      currency: payout.currency,
+      payoutStatus: payout.status,
+      arrivalDate,
+      occurredAt: new Date(payout.created * 1000),
+    },
+    update: { payoutStatus: payout.status, arrivalDate },
+  });
+}
+
+/**
+ * Find who a one-time purchase, gift or message request was paid to
+ * Subscription payments are found through the subscription instead.
+ *
+ * @returns The creator and buyer, or null if nothing matches
+ */
+export async function findPaymentRecipient(
+  paymentIntentId: string | null,
+): Promise<{ creatorId: string; userId: string } | null> {
+  if (!paymentIntentId) return null;
+
+  const purchase = await prisma.purchase.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { creatorId: true, userId: true },
+  });
+  if (purchase) return purchase;
+
+  const gift = await prisma.gift.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { creatorId: true, purchaserId: true },
+  });
+  if (gift) return { creatorId: gift.creatorId, userId: gift.purchaserId };
+
+  const request = await prisma.messageRequest.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { creatorId: true, senderId: true },
+  });
+  return request
+    ? { creatorId: request.creatorId, userId: request.senderId }
+    : null;
+}
+
+/**
+ * Subscription payments whose billing period covers a moment in time,
+ * i.e. what subscribers had paid for at that moment
+ */
+async function getPaidPeriods(creatorId: string, at: Date) {
+  return prisma.ledgerEntry.findMany({
+    where: {
+      creatorId,
+      type: "subscription",
+      periodStart: { lte: at },
+      periodEnd: { gt: at },
+    },
+    select: {
+      stripeSubscriptionId: true,
+      grossAmount: true,
+      periodStart: true,
+      periodEnd: true,
+    },
+  });
+}
+
+/**
+ * Subscriptions that ended before their paid period did (refunds and lost
+ * disputes end access immediately)
+ */
+async function getEndedSubscriptionIds(
+  stripeSubscriptionIds: string[],
+  now: Date,
+): Promise<Set<string>> {
+  if (stripeSubscriptionIds.length === 0) return new Set();
+
+  const ended = await prisma.subscription.findMany({
+    where: {
+      stripeSubscriptionId: { in: stripeSubscriptionIds },
+      status: "canceled",
+      currentPeriodEnd: { lte: now },
+    },
+    select: { stripeSubscriptionId: true },
+  });
+
+  return new Set(ended.map((s) => s.stripeSubscriptionId!));
+}
+
+/**
+ * Sum gross, platform fee and net earnings over a date range
+ */
+async function sumEarnings(
+  creatorId: string,
+  occurredAt: { gte?: Date; lt?: Date },
+) {
+  const totals = await prisma.ledgerEntry.aggregate({
+    where: { creatorId, type: { in: EARNING_TYPES }, occurredAt },
+    _sum: { grossAmount: true, platformFee: true, netAmount: true },
+  });
+
+  return {
+    grossEarnings: totals._sum.grossAmount ?? 0,
+    platformFees: totals._sum.platformFee ?? 0,
+    netEarnings: totals._sum.netAmount ?? 0,
+  };
+}
+
+/**
+ * A creator's earnings for the analytics page, from the ledger
+ *
+ * - MRR: subscription payments covering today, as a monthly amount
+ *   (an annual payment counts 1/12). Trials pay nothing so don't count.
+ * - Earnings: gross, platform fees and net over the period, with growth
+ *   against the period before. Refunds come off in the period issued.
+ * - Churn: the share of subscriptions paid up at the start of the period
+ *   that are no longer paid up. Not reported for all time.
+ * - Payouts: the most recent payouts to the creator's bank.
+ *
+ * @param periodStart - Start of the period, or null for all time
+ */
+export async function getCreatorEarnings(
+  creatorId: string,
+  periodStart: Date | null,
+  now: Date = new Date(),
+): Promise<
+  Pick<
+    AnalyticsResponse,
+    | "mrr"
+    | "grossEarnings"
+    | "platformFees"
+    | "netEarnings"
+    | "earningsGrowth"
+    | "churnRate"
+    | "payouts"
+  >
+> {
+  const [current, startPeriods, currentPeriods, payouts] = await Promise.all([
+    sumEarnings(creatorId, { gte: periodStart ?? undefined }),
+    periodStart ? getPaidPeriods(creatorId, periodStart) : [],
+    getPaidPeriods(creatorId, now),
+    prisma.ledgerEntry.findMany({
+      where: { creatorId, type: "payout" },
+      orderBy: { occurredAt: "desc" },
+      take: PAYOUT_HISTORY_LIMIT,
+      select: {
+        id: true,
+        netAmount: true,
+        currency: true,
+        payoutStatus: true,
+        arrivalDate: true,
+      },
+    }),
+  ]);
+
+  const ended = await getEndedSubscriptionIds(
+    currentPeriods.flatMap((p) =>
+      p.stripeSubscriptionId ? [p.stripeSubscriptionId] : [],
+    ),
+    now,
+  );
+  const paying = currentPeriods.filter(
+    (p) => !p.stripeSubscriptionId || !ended.has(p.stripeSubscriptionId),
+  );
+
+  // Proration invoices cover part of a period, so normalizing them by
+  // their own length adds the monthly price difference of a tier change
+  const mrr = Math.round(
+    paying.reduce((sum, p) => {
+      const periodMs = p.periodEnd!.getTime() - p.periodStart!.getTime();
+      return periodMs > 0 ? sum + (p.grossAmount * MONTH_MS) / periodMs : sum;
+    }, 0),
+  );
+
+  let earningsGrowth = 0;
+  if (periodStart) {
+    const previousStart = new Date(
+      periodStart.getTime() - (now.getTime() - periodStart.getTime()),
+    );
+    const previous = await sumEarnings(creatorId, {
+      gte: previousStart,
+      lt: periodStart,
+    });
+
+    if (previous.netEarnings > 0) {
+      earningsGrowth = Math.round(
+        ((current.netEarnings - previous.netEarnings) / previous.netEarnings) *
+          100,
+      );
+    } else if (current.netEarnings > 0) {
+      earningsGrowth = 100;
+    }
+  }
+
+  let churnRate: number | null = null;
+  if (periodStart) {
+    const payingIds = new Set(paying.map((p) => p.stripeSubscriptionId));
+    const startIds = new Set(
+      startPeriods.flatMap((p) =>
+        p.stripeSubscriptionId ? [p.stripeSubscriptionId] : [],
+      ),
+    );
+    const churned = [...startIds].filter((id) => !payingIds.has(id)).length;
+    churnRate =
+      startIds.size > 0 ? Math.round((churned / startIds.size) * 100) : 0;
+  }
+
+  return {
+    mrr,
+    ...current,
+    earningsGrowth,
+    churnRate,
+    payouts: payouts.map((payout) => ({
+      id: payout.id,
+      amount: payout.netAmount,
+      currency: payout.currency,
+      status: payout.payoutStatus ?? "pending",
+      arrivalDate: payout.arrivalDate?.toISOString() ?? null,
+    })),
+  };
+}
@@ -6,10 +6,15 @@
  *
  * Email Types:
  * - New content from subscribed creators
+ * - New content digests (daily, weekly, or after quiet hours)
  * - New message received
  * - Trial ending reminders (day 5, day 6)
  * - Payment failed
  * - Subscription confirmations
+ * - Win-back invitations after a subscription ends
+ *
+ * Emails for notifications (new content, messages, trial and payment
+ * alerts) are sent by lib/notifications, alongside in-app and push.
  */
 
 import { Resend } from "resend";
@@ -18,10 +23,14 @@ import { generateUnsubscribeUrl } from "@/lib/email-tokens";
 
 // Templates
 import NewContentEmail from "@/emails/new-content";
+import NewContentDigestEmail, {
+  type NewContentDigestItem,
+} from "@/emails/new-content-digest";
 import NewMessageEmail from "@/emails/new-message";
 import TrialEndingEmail from "@/emails/trial-ending";
 import PaymentFailedEmail from "@/emails/payment-failed";
 import SubscriptionConfirmationEmail from "@/emails/subscription-confirmation";
+import WinBackEmail from "@/emails/win-back";
 
 // Lazy-initialized Resend client (to avoid errors when API key is missing during build)
 let resend: Resend | null = null;
@@ -187,6 +196,78 @@ export async function sendNewContentEmail(
   }
 }
 
+/**
+ * Send a digest of new content, in place of individual new content
+ * emails. Follows the new content email preference.
+ *
+ * @param userId - The recipient user ID
+ * @param period - The user's digest mode, or null for content held over
+ * quiet hours
+ * @param items - The content to list, with URLs relative to the app
+ * @param moreCount - How many more items were published but not listed
+ */
+export async function sendNewContentDigestEmail(
+  userId: string,
+  period: "daily" | "weekly" | null,
+  items: NewContentDigestItem[],
+  moreCount: number,
+): Promise<boolean> {
+  try {
+    // Check preference
+    const shouldSend = await checkEmailPreference(userId, "newContent");
+    if (!shouldSend) {
+      logEmailSend("new_content_digest", userId, false, "User opted out");
+      return false;
+    }
+
+    // Get user email
+    const email = await getUserEmail(userId);
+    if (!email) {
+      logEmailSend("new_content_digest", userId, false, "No email found");
+      return false;
+    }
+
+    // Generate unsubscribe URL
+    const unsubscribeUrl = generateUnsubscribeUrl(userId, "newContent");
+
+    const total = items.length + moreCount;
+
+    // Send email
+    const { error } = await getResendClient().emails.send({
+      from: FROM_EMAIL,
+      to: email,
+      subject: `${total} new post${total === 1 ? "" : "s"} from creators you follow`,
+      react: NewContentDigestEmail({
+        period,
+        items: items.map((item) => ({
+          ...item,
+          contentUrl: `${APP_URL}${item.contentUrl}`,
+        })),
+        moreCount,
+        homeUrl: `${APP_URL}/home`,
+        settingsUrl: `${APP_URL}/settings/notifications`,
+        unsubscribeUrl,
+      }),
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+
+    if (error) {
+      logEmailSend("new_content_digest", userId, false, error.message);
+      return false;
+    }
+
+    logEmailSend("new_content_digest", userId, true);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logEmailSend("new_content_digest", userId, false, message);
+    return false;
+  }
+}
+
 /**
  * Send a new message notification email.
  *
@@ -377,11 +458,13 @@ export async function sendPaymentFailedEmail(
  * @param userId - The subscriber user ID
  * @param creatorName - The creator's name
  * @param amount - The subscription amount in cents
+ * @param interval - Billing interval the amount is charged per
  */
 export async function sendSubscriptionConfirmationEmail(
   userId: string,
   creatorName: string,
   amount: number,
+  interval: "month" | "year" = "month",
 ): Promise<boolean> {
   try {
     // Check preference
@@ -412,6 +495,7 @@ export async function sendSubscriptionConfirmationEmail(
       react: SubscriptionConfirmationEmail({
         creatorName,
         amount: formattedAmount,
+        interval,
         subscriptionsUrl: `${APP_URL}/subscriptions`,
         unsubscribeUrl,
       }),
@@ -436,78 +520,64 @@ export async function sendSubscriptionConfirmationEmail(
 }
 
 /**
- * Send new content emails to all subscribers and followers of a creator.
- * Used when a creator publishes new content.
+ * Send a win-back email inviting a former subscriber back.
  *
- * @param creatorId - The creator profile ID
- * @param creatorName - The creator's display name
- * @param contentTitle - The title of the new content
- * @param contentId - The content ID for the URL
- * @returns The number of emails sent successfully
+ * @param userId - The former subscriber's user ID
+ * @param creatorName - The creator's name
+ * @param creatorUrl - URL to the creator's profile
+ * @param newContentCount - Content published since the subscription ended
  */
-export async function sendNewContentEmailsToSubscribers(
-  creatorId: string,
+export async function sendWinBackEmail(
+  userId: string,
   creatorName: string,
-  contentTitle: string,
-  contentId: string,
-): Promise<number> {
+  creatorUrl: string,
+  newContentCount: number,
+): Promise<boolean> {
   try {
-    // Get all active subscribers and followers
-    const [subscribers, followers] = await Promise.all([
-      prisma.subscription.findMany({
-        where: {
-          creatorId,
-          status: { in: ["active", "trialing"] },
-        },
-        select: { userId: true },
-      }),
-      prisma.follow.findMany({
-        where: { creatorId },
-        select: { userId: true },
-      }),
-    ]);
-
-    // Combine and deduplicate user IDs
-    const userIds = [
-      ...new Set([
-        ...subscribers.map((s) => s.userId),
-        ...followers.map((f) => f.userId),
-      ]),
-    ];
-
-    if (userIds.length === 0) return 0;
-
-    const contentUrl = `/content/${contentId}`;
-
-    // Send emails in batches to avoid rate limits
-    let successCount = 0;
-    const batchSize = 10;
+    // Check preference
+    const shouldSend = await checkEmailPreference(userId, "subscriptionUpdates");
+    if (!shouldSend) {
+      logEmailSend("win_back", userId, false, "User opted out");
+      return false;
+    }
 
-    for (let i = 0; i < userIds.length; i += batchSize) {
-      const batch = userIds.slice(i, i + batchSize);
+    // Get user email
+    const email = await getUserEmail(userId);
+    if (!email) {
+      logEmailSend("win_back", userId, false, "No email found");
+      return false;
+    }
 
-      const results = await Promise.allSettled(
-        batch.map((userId) =>
-          sendNewContentEmail(userId, creatorName, contentTitle, contentUrl),
-        ),
-      );
+    // Generate unsubscribe URL
+    const unsubscribeUrl = generateUnsubscribeUrl(userId, "subscriptionUpdates");
 
-      successCount += results.filter(
-        (r) => r.status === "fulfilled" && r.value === true,
-      ).length;
+    // Send email
+    const { error } = await getResendClient().emails.send({
+      from: FROM_EMAIL,
+      to: email,
+      subject: `${creatorName} would love to have you back`,
+      react: WinBackEmail({
+        creatorName,
+        newContentCount,
+        creatorUrl: `${APP_URL}${creatorUrl}`,
+        unsubscribeUrl,
+      }),
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
 
-      // Small delay between batches to respect rate limits
-      if (i + batchSize < userIds.length) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+    if (error) {
+      logEmailSend("win_back", userId, false, error.message);
+      return false;
     }
 
-    console.log(
-      `Sent ${successCount}/${userIds.length} new content emails for content ${contentId}`,
-    );
-    return successCount;
+    logEmailSend("win_back", userId, true);
+    return true;
   } catch (error) {
-    console.error("Error sending new content emails:", error);
-    return 0;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logEmailSend("win_back", userId, false, message);
+    return false;
   }
 }
@@ -0,0 +1,128 @@
+/**
+ * CSV & JSON Exports
+ *
+ * Streams rows as a file download so creators can take their subscriber
+ * list and analytics into a spreadsheet. Rows are written as they're
+ * read, so large exports aren't held in memory.
+ */
+
+import type { ExportFormat } from "@/lib/validations/analytics";
+
+/**
+ * One column of an export: the CSV header and JSON key, and how to read
+ * it from a row
+ */
+export interface ExportColumn<Row> {
+  key: string;
+  value: (row: Row) => string | number | null;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * Escape a value for a CSV cell
+ * Text starting with =, +, - or @ is prefixed with an apostrophe so
+ * spreadsheets don't run it as a formula (names are user-provided).
+ */
+function toCsvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function toCsvLine(cells: (string | number | null)[]): string {
+  return `${cells.map(toCsvCell).join(",")}\r\n`;
+}
+
+/**
+ * Filename for an export, e.g. "myhandle-subscribers-2026-01-31.csv"
+ */
+export function getExportFilename(
+  handle: string,
+  name: string,
+  format: ExportFormat,
+): string {
+  const date = new Date().toISOString().split("T")[0];
+  return `${handle}-${name}-${date}.${format}`;
+}
+
+/**
+ * Stream rows as a CSV or JSON file download
+ *
+ * @param rows - Rows in export order; an async generator can page
+ *   through the database as the file is written
+ */
+export function createExportResponse<Row>(options: {
+  filename: string;
+  format: ExportFormat;
+  columns: ExportColumn<Row>[];
+  rows: AsyncIterable<Row> | Iterable<Row>;
+}): Response {
+  const { filename, format, columns, rows } = options;
+  const encoder = new TextEncoder();
+
+  async function* source() {
+    yield* rows;
+  }
+  const iterator = source();
+  let rowCount = 0;
+
+  const formatRow = (row: Row): string => {
+    if (format === "csv") {
+      return toCsvLine(columns.map((column) => column.value(row)));
+    }
+
+    const record = Object.fromEntries(
+      columns.map((column) => [column.key, column.value(row)]),
+    );
+    return `${rowCount === 0 ? "" : ","}\n  ${JSON.stringify(record)}`;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          format === "csv"
+            ? toCsvLine(columns.map((column) => column.key))
+            : "[",
+        ),
+      );
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+
+        if (done) {
+          if (format === "json") {
+            const end = rowCount === 0 ? "]\n" : "\n]\n";
+            controller.enqueue(encoder.encode(end));
+          }
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(formatRow(value)));
+        rowCount++;
+      } catch (error) {
+        console.error(`Error writing export ${filename}:`, error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
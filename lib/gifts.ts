@@ -0,0 +1,159 @@
+/**
+ * Gift Membership Helpers
+ *
+ * A gift is a prepaid membership: the buyer pays once and gets a code, and
+ * whoever redeems it gets a subscription for the gifted number of months.
+ * Gifted subscriptions have no Stripe subscription behind them. They are
+ * active with cancelAtPeriodEnd set, and the expire-gifts cron marks them
+ * canceled once currentPeriodEnd passes.
+ */
+
+import { randomInt } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { endSubscriptionAccess } from "@/lib/payment-events";
+import { invalidateCreatorSubscriptionCaches } from "@/lib/cache";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const GIFT_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+// Gifted subscriptions expired per cron run
+const EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * Generate a gift code, e.g. "GIFT-7K2M-9QXD"
+ */
+export function generateGiftCode(): string {
+  const group = () =>
+    Array.from(
+      { length: 4 },
+      () => GIFT_CODE_ALPHABET[randomInt(GIFT_CODE_ALPHABET.length)],
+    ).join("");
+
+  return `GIFT-${group()}-${group()}`;
+}
+
+/**
+ * Normalize a gift code as typed by the recipient
+ *
+ * Accepts any case, with or without dashes or the "GIFT" prefix.
+ */
+export function normalizeGiftCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const body = chars.startsWith("GIFT") ? chars.slice(4) : chars;
+
+  return `GIFT-${body.slice(0, 4)}-${body.slice(4)}`;
+}
+
+/**
+ * Price of a gift in cents: the monthly price times the number of months
+ *
+ * @param monthlyPriceCents - The creator's (or gifted tier's) monthly price
+ */
+export function getGiftPriceCents(
+  monthlyPriceCents: number,
+  months: number,
+): number {
+  return monthlyPriceCents * months;
+}
+
+/**
+ * Revoke a gift paid by a PaymentIntent (after a refund or lost dispute)
+ *
+ * Unredeemed gifts can no longer be redeemed. Redeemed gifts also end the
+ * recipient's gifted subscription.
+ *
+ * @returns The revoked gift, for logging
+ */
+export async function revokeGiftForPaymentIntent(
+  paymentIntentId: string | null,
+): Promise<{ id: string; creatorId: string } | null> {
+  if (!paymentIntentId) return null;
+
+  const gift = await prisma.gift.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { id: true, creatorId: true, status: true },
+  });
+
+  if (!gift || (gift.status !== "paid" && gift.status !== "redeemed")) {
+    return null;
+  }
+
+  await prisma.gift.update({
+    where: { id: gift.id },
+    data: { status: "refunded" },
+  });
+
+  const giftedSubscription = await prisma.subscription.findFirst({
+    where: { giftId: gift.id, status: "active" },
+    select: {
+      id: true,
+      userId: true,
+      creatorId: true,
+      stripeSubscriptionId: true,
+      status: true,
+    },
+  });
+
+  if (giftedSubscription) {
+    await endSubscriptionAccess(giftedSubscription);
+  }
+
+  return { id: gift.id, creatorId: gift.creatorId };
+}
+
+/**
+ * Cancel gifted subscriptions whose gifted period has ended
+ *
+ * Called by the expire-gifts cron. The guards on the update mean a
+ * subscription replaced by a paid one in the meantime (which clears
+ * giftId) is left alone.
+ *
+ * @returns Number of subscriptions expired
+ */
+export async function expireGiftSubscriptions(
+  now = new Date(),
+): Promise<number> {
+  const expired = await prisma.subscription.findMany({
+    where: {
+      giftId: { not: null },
+      status: "active",
+      currentPeriodEnd: { lte: now },
+    },
+    orderBy: { currentPeriodEnd: "asc" },
+    take: EXPIRY_BATCH_SIZE,
+    select: { id: true, userId: true, creatorId: true },
+  });
+
+  let count = 0;
+
+  for (const subscription of expired) {
+    const { count: updated } = await prisma.subscription.updateMany({
+      where: {
+        id: subscription.id,
+        giftId: { not: null },
+        status: "active",
+        currentPeriodEnd: { lte: now },
+      },
+      data: {
+        status: "canceled",
+        cancelAtPeriodEnd: false,
+        canceledAt: now,
+        cancellationCause: "gift_ended",
+      },
+    });
+
+    if (updated === 0) continue;
+    count++;
+
+    await Promise.all([
+      invalidateSubscriptionAccessCache(
+        subscription.userId,
+        subscription.creatorId,
+      ),
+      invalidateCreatorSubscriptionCaches(subscription.creatorId),
+    ]);
+  }
+
+  return count;
+}
@@ -2,7 +2,8 @@
  * Media Utilities
  *
  * This module exports all media-related utilities for signed URLs,
- * content access validation, and paywall enforcement.
+ * content access validation, paywall enforcement, and video processing
+ * state.
  *
  * @see PRD Phase 3, Task 12: Paywall Enforcement
  */
@@ -22,3 +23,14 @@ export {
   type SignedStreamToken,
   type SignedUrlOptions,
 } from "./signed-urls";
+
+// Video processing state
+export {
+  canTransitionMediaStatus,
+  getStreamProcessingState,
+  applyStreamVideoUpdate,
+  refreshVideoProcessingState,
+  UPLOADING_MEDIA_STATE,
+  type MediaProcessingState,
+  type VideoProcessingUpdate,
+} from "./processing";
@@ -0,0 +1,194 @@
+/**
+ * Video Processing State
+ *
+ * Tracks where an uploaded video is in Cloudflare Stream's encode pipeline:
+ *
+ *   uploading -> processing -> ready
+ *                          \-> errored
+ *
+ * Updates arrive from the Stream webhook and from the creator's content
+ * list polling Stream directly, in any order, so stale updates must not
+ * move a video backwards (e.g. a late "inprogress" after "ready"). Only a
+ * new upload, which replaces the Stream UID, starts a video over.
+ */
+
+import type { MediaStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  getStreamVideoDetails,
+  type StreamVideoDetails,
+} from "@/lib/cloudflare";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MediaProcessingState {
+  /** Current encoding state */
+  mediaStatus: MediaStatus | null;
+  /** Encode progress (0-100) while processing */
+  mediaProgress: number | null;
+  /** Why encoding failed, while errored */
+  mediaError: string | null;
+}
+
+export interface VideoProcessingUpdate extends MediaProcessingState {
+  contentId: string;
+  /** Content duration in seconds, after any fill-in from Stream */
+  duration: number | null;
+}
+
+// =============================================================================
+// STATE MACHINE
+// =============================================================================
+
+/**
+ * States each status may move to, besides repeating itself (processing
+ * repeats as progress updates arrive)
+ */
+const MEDIA_STATUS_TRANSITIONS: Record<MediaStatus, MediaStatus[]> = {
+  uploading: ["processing", "ready", "errored"],
+  processing: ["ready", "errored"],
+  ready: [],
+  errored: [],
+};
+
+/**
+ * Check whether a video may move from one processing state to another
+ *
+ * Videos uploaded before processing was tracked have no status and accept
+ * any state.
+ */
+export function canTransitionMediaStatus(
+  from: MediaStatus | null,
+  to: MediaStatus,
+): boolean {
+  if (from === null || from === to) {
+    return true;
+  }
+  return MEDIA_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Map a Stream video's state onto our processing state
+ *
+ * Stream marks a video readyToStream as soon as it can be played, which
+ * can be before every rendition has finished; that's enough to publish.
+ */
+export function getStreamProcessingState(
+  details: Pick<StreamVideoDetails, "readyToStream" | "status">,
+): MediaProcessingState & { mediaStatus: MediaStatus } {
+  const { state, pctComplete, errorReasonCode, errorReasonText } =
+    details.status;
+
+  if (state === "error") {
+    return {
+      mediaStatus: "errored",
+      mediaProgress: null,
+      mediaError:
+        errorReasonText || errorReasonCode || "Video processing failed",
+    };
+  }
+
+  if (details.readyToStream || state === "ready") {
+    return { mediaStatus: "ready", mediaProgress: 100, mediaError: null };
+  }
+
+  if (state === "pendingupload") {
+    return { mediaStatus: "uploading", mediaProgress: null, mediaError: null };
+  }
+
+  // downloading, queued and inprogress
+  const progress = Number.parseFloat(pctComplete ?? "");
+  return {
+    mediaStatus: "processing",
+    mediaProgress: Number.isFinite(progress)
+      ? Math.min(100, Math.max(0, Math.round(progress)))
+      : null,
+    mediaError: null,
+  };
+}
+
+// =============================================================================
+// UPDATES
+// =============================================================================
+
+/**
+ * Processing state for a video whose upload URL was just created
+ */
+export const UPLOADING_MEDIA_STATE: MediaProcessingState = {
+  mediaStatus: "uploading",
+  mediaProgress: null,
+  mediaError: null,
+};
+
+/**
+ * Apply a Stream video update to the content it belongs to
+ *
+ * Stale updates that would move the video backwards are ignored, as are
+ * updates for a UID the content no longer uses (the creator re-uploaded).
+ * Stream's duration fills in the content's duration if the creator didn't
+ * set one.
+ *
+ * @returns The content's processing state after the update, or null if no
+ * video content uses this UID
+ */
+export async function applyStreamVideoUpdate(
+  details: Pick<
+    StreamVideoDetails,
+    "uid" | "readyToStream" | "status" | "duration"
+  >,
+): Promise<VideoProcessingUpdate | null> {
+  const content = await prisma.content.findFirst({
+    where: { mediaUrl: details.uid, type: "video" },
+    select: {
+      id: true,
+      duration: true,
+      mediaStatus: true,
+      mediaProgress: true,
+      mediaError: true,
+    },
+  });
+
+  if (!content) {
+    return null;
+  }
+
+  const next = getStreamProcessingState(details);
+
+  if (!canTransitionMediaStatus(content.mediaStatus, next.mediaStatus)) {
+    return {
+      contentId: content.id,
+      mediaStatus: content.mediaStatus,
+      mediaProgress: content.mediaProgress,
+      mediaError: content.mediaError,
+      duration: content.duration,
+    };
+  }
+
+  const duration =
+    next.mediaStatus === "ready" && !content.duration && details.duration > 0
+      ? Math.round(details.duration)
+      : content.duration;
+
+  // Guard on the UID so an update can't land on a replacement upload
+  await prisma.content.updateMany({
+    where: { id: content.id, mediaUrl: details.uid },
+    data: { ...next, duration },
+  });
+
+  return { contentId: content.id, ...next, duration };
+}
+
+/**
+ * Fetch a video's current state from Stream and apply it
+ *
+ * Used when a webhook may have been missed, and to backfill videos
+ * uploaded before processing was tracked.
+ */
+export async function refreshVideoProcessingState(
+  videoUid: string,
+): Promise<VideoProcessingUpdate | null> {
+  const details = await getStreamVideoDetails(videoUid);
+  return applyStreamVideoUpdate(details);
+}
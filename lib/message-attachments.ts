@@ -0,0 +1,92 @@
+/**
+ * Message Attachments
+ *
+ * Voice notes, short audio replies and images sent with direct messages
+ * and broadcasts. Files are uploaded straight to R2 under the sender's
+ * R2_PATHS.messageAttachment prefix, and only the message's sender and
+ * receiver can get a signed URL for them.
+ */
+import { R2_PATHS } from "@/lib/cloudflare";
+import { generateSignedR2Url } from "@/lib/media/signed-urls";
+import type {
+  MessageAttachment,
+  MessageAttachmentType,
+} from "@/lib/validations/message";
+import type { Message } from "@prisma/client";
+
+/**
+ * Attachment details sent to clients; the file itself is fetched from
+ * /api/messages/[id]/attachment
+ */
+export interface MessageAttachmentInfo {
+  type: MessageAttachmentType;
+  /** Audio length in seconds */
+  duration: number | null;
+}
+
+/**
+ * Check that an uploaded attachment was uploaded by the sender
+ *
+ * Keys come from the client, so without this a user could attach (and
+ * get signed URLs for) someone else's files.
+ */
+export function isOwnAttachmentKey(key: string, userId: string): boolean {
+  const prefix = R2_PATHS.messageAttachment(userId, "");
+  return key.startsWith(prefix) && !key.slice(prefix.length).includes("/");
+}
+
+/**
+ * Message columns for an attachment sent with a message
+ */
+export function getAttachmentData(attachment: MessageAttachment | undefined) {
+  if (!attachment) {
+    return {};
+  }
+
+  return {
+    attachmentType: attachment.type,
+    attachmentKey: attachment.key,
+    attachmentDuration:
+      attachment.type === "audio" ? (attachment.duration ?? null) : null,
+  };
+}
+
+/**
+ * Format a message's attachment for clients
+ */
+export function toMessageAttachmentInfo(
+  message: Pick<Message, "attachmentType" | "attachmentDuration">,
+): MessageAttachmentInfo | null {
+  if (!message.attachmentType) {
+    return null;
+  }
+
+  return {
+    type: message.attachmentType,
+    duration: message.attachmentDuration,
+  };
+}
+
+/**
+ * Generate a signed URL for a message's attachment
+ *
+ * Callers must check that the user is the message's sender or receiver.
+ *
+ * @param message - The message the attachment belongs to
+ * @param userId - The user the URL is for
+ */
+export async function getSignedAttachmentUrl(
+  message: Pick<Message, "id" | "senderId" | "attachmentKey">,
+  userId: string,
+) {
+  if (!message.attachmentKey) {
+    return null;
+  }
+
+  return generateSignedR2Url(message.attachmentKey, {
+    userId,
+    contentId: message.id,
+    // Logged as the owner of the file
+    creatorId: message.senderId,
+  });
+}
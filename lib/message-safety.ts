@@ -0,0 +1,208 @@
+/**
+ * Message Safety
+ *
+ * Blocks, conversation mutes and message reports for direct messages.
+ *
+ * A block works in both directions: neither user can message the other,
+ * and the blocked user stops receiving the blocker's broadcasts. A mute is
+ * one-sided: muted messages still arrive, without in-app or email
+ * notifications. Reported messages go into the admin moderation queue with
+ * the messages that led up to them.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { stripHtml } from "@/lib/sanitize";
+import { getAttachmentLabel } from "@/lib/validations/message";
+import type { MessageAttachmentType, Prisma } from "@prisma/client";
+
+// Earlier messages shown alongside a reported message
+const REPORT_CONTEXT_SIZE = 5;
+
+export interface BlockStatus {
+  /** The user has blocked their conversation partner */
+  blockedByMe: boolean;
+  /** The conversation partner has blocked the user */
+  blockedMe: boolean;
+}
+
+/**
+ * The message fields needed to show a report to moderators
+ */
+interface ReportedMessage {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  content: string;
+  attachmentType: MessageAttachmentType | null;
+  isBroadcast: boolean;
+  createdAt: Date;
+}
+
+/**
+ * A message in the thread shown to moderators with a report
+ */
+export interface ReportedMessageContextItem {
+  id: string;
+  senderId: string;
+  /** Plain text, or the attachment label for attachment-only messages */
+  text: string;
+  createdAt: string;
+  /** Whether this is the reported message */
+  isReported: boolean;
+}
+
+/**
+ * Check whether either user has blocked the other
+ */
+export async function getBlockStatus(
+  userId: string,
+  partnerId: string,
+): Promise<BlockStatus> {
+  const blocks = await prisma.userBlock.findMany({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: partnerId },
+        { blockerId: partnerId, blockedId: userId },
+      ],
+    },
+    select: { blockerId: true },
+  });
+
+  return {
+    blockedByMe: blocks.some((block) => block.blockerId === userId),
+    blockedMe: blocks.some((block) => block.blockerId === partnerId),
+  };
+}
+
+/**
+ * Explain why a blocked conversation can't be messaged
+ *
+ * Doesn't reveal that the partner blocked the user.
+ */
+export function getBlockedReason(status: BlockStatus): string | null {
+  if (status.blockedByMe) return "Unblock this user to send messages";
+  if (status.blockedMe) return "You can't message this user";
+  return null;
+}
+
+/**
+ * Check whether a user has muted their conversation with a partner
+ */
+export async function isConversationMuted(
+  userId: string,
+  partnerId: string,
+): Promise<boolean> {
+  const mute = await prisma.conversationMute.findUnique({
+    where: { userId_partnerId: { userId, partnerId } },
+    select: { id: true },
+  });
+  return !!mute;
+}
+
+/**
+ * User filter excluding anyone who has blocked, or been blocked by, a user
+ */
+export function notBlockedWith(userId: string): Prisma.UserWhereInput {
+  return {
+    blocksMade: { none: { blockedId: userId } },
+    blocksReceived: { none: { blockerId: userId } },
+  };
+}
+
+/**
+ * Plain text summary of a message, kept on its reports
+ */
+export function getMessageExcerpt(message: {
+  content: string;
+  attachmentType: MessageAttachmentType | null;
+}): string {
+  const text = stripHtml(message.content).trim();
+  if (text) return text;
+  return message.attachmentType
+    ? getAttachmentLabel(message.attachmentType)
+    : "";
+}
+
+/**
+ * Load a reported message with the messages sent just before it
+ *
+ * Broadcasts aren't part of a conversation, so they're shown alone.
+ *
+ * @returns Messages in the order they were sent, ending with the report
+ */
+export async function getReportedMessageContext(
+  message: ReportedMessage,
+): Promise<ReportedMessageContextItem[]> {
+  const earlier = message.isBroadcast
+    ? []
+    : await prisma.message.findMany({
+        where: {
+          isBroadcast: false,
+          createdAt: { lt: message.createdAt },
+          OR: [
+            { senderId: message.senderId, receiverId: message.receiverId },
+            { senderId: message.receiverId, receiverId: message.senderId },
+          ],
+        },
+        orderBy: { createdAt: "desc" },
+        take: REPORT_CONTEXT_SIZE,
+        select: {
+          id: true,
+          senderId: true,
+          content: true,
+          attachmentType: true,
+          createdAt: true,
+        },
+      });
+
+  return [...earlier.reverse(), message].map((item) => ({
+    id: item.id,
+    senderId: item.senderId,
+    text: getMessageExcerpt(item),
+    createdAt: item.createdAt.toISOString(),
+    isReported: item.id === message.id,
+  }));
+}
+
+/**
+ * A reported message as shown in the moderation queue
+ */
+export interface ReportedMessageDetails {
+  /** Null once the message has been deleted */
+  id: string | null;
+  /** The message text when it was reported */
+  excerpt: string;
+  isBroadcast: boolean;
+  context: ReportedMessageContextItem[];
+}
+
+/**
+ * Format the message on a report for moderators
+ *
+ * @returns Null for content reports
+ */
+export async function getReportedMessageDetails(report: {
+  messageExcerpt: string | null;
+  message: ReportedMessage | null;
+}): Promise<ReportedMessageDetails | null> {
+  const { message } = report;
+
+  if (!message) {
+    // A deleted message keeps the excerpt saved with the report
+    return report.messageExcerpt === null
+      ? null
+      : {
+          id: null,
+          excerpt: report.messageExcerpt,
+          isBroadcast: false,
+          context: [],
+        };
+  }
+
+  return {
+    id: message.id,
+    excerpt: report.messageExcerpt ?? getMessageExcerpt(message),
+    isBroadcast: message.isBroadcast,
+    context: await getReportedMessageContext(message),
+  };
+}
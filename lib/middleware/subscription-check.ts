@@ -7,6 +7,9 @@
  * Features:
  * - Validates user has active subscription to creator
  * - Checks for free content bypass
+ * - Honors one-time purchases of content or its program
+ * - Enforces membership tier requirements on content and programs
+ * - Holds back program items until their unlock day
  * - Redis caching with automatic fallback
  * - Detailed access denial reasons
  *
@@ -14,7 +17,26 @@
  */
 
 import { prisma } from "@/lib/prisma";
+import { getMonthlyPriceCents } from "@/lib/pricing";
+import {
+  getPurchasedContentIds,
+  hasPurchasedContent,
+  hasPurchasedProgram,
+} from "@/lib/purchases";
+import {
+  getProgramItemLock,
+  getProgramItemLocks,
+  programScheduleSelect,
+  type ProgramItemLock,
+  type ProgramItemSchedule,
+} from "@/lib/programs";
+import {
+  getRequiredTierRank,
+  requiredTierSelect,
+  UNTIERED_RANK,
+} from "@/lib/tiers";
 import { getCache, setCache, deleteCache, CACHE_TTL } from "@/lib/cache";
+import { hasPauseStarted } from "@/lib/subscription-pause";
 
 // =============================================================================
 // TYPES
@@ -30,15 +52,23 @@ export interface SubscriptionCheckResult {
     id: string;
     status: string;
     expiresAt: Date | null;
+    /** Rank of the subscriber's membership tier (0 without a tier) */
+    tierRank: number;
+    /** When a paused subscription resumes (paused subscriptions only) */
+    pausedUntil?: Date | null;
   };
   /** Whether the content is free */
   isFreeContent: boolean;
+  /** Program unlock schedule holding the content back (if locked_until) */
+  programLock?: ProgramItemLock;
   /** Creator details for paywall display */
   creator?: {
     id: string;
     handle: string;
     displayName: string;
     subscriptionPrice: string;
+    /** Current monthly price in cents (custom price or tier) */
+    monthlyPriceCents: number;
     trialEnabled: boolean;
   };
 }
@@ -48,10 +78,14 @@ export type AccessReason =
   | "active_subscription"
   | "trialing"
   | "creator_own_content"
+  | "purchased"
+  | "insufficient_tier"
+  | "locked_until"
   | "no_subscription"
   | "subscription_expired"
   | "subscription_canceled"
   | "subscription_past_due"
+  | "subscription_paused"
   | "content_not_found"
   | "user_not_found"
   | "unauthenticated";
@@ -67,6 +101,10 @@ export interface ContentAccessParams {
     isFree: boolean;
     creatorId: string;
     status: string;
+    /** Tier rank required (see getRequiredTierRank) */
+    requiredTierRank: number;
+    programId: string | null;
+    unlockOffsetDays: number | null;
   };
 }
 
@@ -75,6 +113,12 @@ interface CachedSubscriptionData {
   status: string;
   subscriptionId: string;
   expiresAt: string | null;
+  /** Missing from entries cached before tiers were added (cache miss) */
+  tierRank?: number;
+  /** Missing from entries cached before pauses were added */
+  pausedUntil?: string | null;
+  /** When a scheduled pause cuts off access (active subscriptions only) */
+  pauseStartsAt?: string | null;
   cachedAt: number;
 }
 
@@ -106,8 +150,10 @@ function getContentCacheKey(contentId: string): string {
  * This is the main function to call before serving media URLs.
  * It handles all access scenarios:
  * - Free content (anyone can access)
- * - Paid content (requires subscription)
+ * - Paid content (requires subscription or a one-time purchase)
+ * - Tier-gated content (requires a high enough membership tier)
  * - Creator's own content (always accessible)
+ * - Program items not yet unlocked for the user (locked_until)
  *
  * @param params - Content and user identifiers
  * @returns Access check result with detailed reason
@@ -130,7 +176,9 @@ export async function checkContentAccess(
       };
     }
 
-    if (content.isFree) {
+    // Programs have to be started, so scheduled items need a sign in
+    const isScheduled = !!content.programId && !!content.unlockOffsetDays;
+    if (content.isFree && !isScheduled) {
       return {
         hasAccess: true,
         reason: "free_content",
@@ -158,11 +206,11 @@ export async function checkContentAccess(
 
   // Free content is accessible to all authenticated users
   if (content.isFree) {
-    return {
+    return applyProgramLock(userId, content, {
       hasAccess: true,
       reason: "free_content",
       isFreeContent: true,
-    };
+    });
   }
 
   // Check if user is the creator (creators can always view their own content)
@@ -176,17 +224,104 @@ export async function checkContentAccess(
   }
 
   // Check subscription status (with caching)
-  const subscriptionResult = await checkSubscriptionStatus(
+  let subscriptionResult = await checkSubscriptionStatus(
     userId,
     content.creatorId,
   );
 
-  return {
+  // Subscribers below the content's tier need to upgrade
+  if (
+    subscriptionResult.subscription &&
+    content.requiredTierRank > subscriptionResult.subscription.tierRank
+  ) {
+    subscriptionResult = {
+      hasAccess: false,
+      reason: "insufficient_tier",
+      subscription: subscriptionResult.subscription,
+      creator: await getCreatorInfo(content.creatorId),
+    };
+  }
+
+  // Non-subscribers may have bought this content or its program
+  if (
+    !subscriptionResult.hasAccess &&
+    (await hasPurchasedContent(userId, content.id))
+  ) {
+    return applyProgramLock(userId, content, {
+      hasAccess: true,
+      reason: "purchased",
+      isFreeContent: false,
+    });
+  }
+
+  return applyProgramLock(userId, content, {
     ...subscriptionResult,
     isFreeContent: false,
+  });
+}
+
+/**
+ * Hold back access to a program item that hasn't unlocked for the user
+ */
+async function applyProgramLock(
+  userId: string,
+  content: ContentMetadata,
+  result: SubscriptionCheckResult,
+): Promise<SubscriptionCheckResult> {
+  if (!result.hasAccess) {
+    return result;
+  }
+
+  const programLock = await getProgramItemLock(userId, content);
+  if (!programLock) {
+    return result;
+  }
+
+  return {
+    hasAccess: false,
+    reason: "locked_until",
+    subscription: result.subscription,
+    isFreeContent: result.isFreeContent,
+    programLock,
   };
 }
 
+/**
+ * Check if a user can start a program: it's free, they bought it, they
+ * subscribe at its tier, or it's their own
+ */
+export async function checkProgramAccess(
+  userId: string,
+  program: {
+    id: string;
+    isFree: boolean;
+    creatorId: string;
+    minTier: { rank: number } | null;
+  },
+): Promise<boolean> {
+  if (program.isFree) {
+    return true;
+  }
+
+  if (await checkIfUserIsCreator(userId, program.creatorId)) {
+    return true;
+  }
+
+  const subscriptionResult = await checkSubscriptionStatus(
+    userId,
+    program.creatorId,
+  );
+  if (
+    subscriptionResult.subscription &&
+    subscriptionResult.subscription.tierRank >=
+      (program.minTier?.rank ?? UNTIERED_RANK)
+  ) {
+    return true;
+  }
+
+  return hasPurchasedProgram(userId, program.id);
+}
+
 /**
  * Check subscription status between a user and creator
  * Uses Redis caching with 5-minute TTL
@@ -200,7 +335,8 @@ export async function checkSubscriptionStatus(
   // Try cache first
   const cached = await getCache<CachedSubscriptionData>(cacheKey);
 
-  if (cached) {
+  // Entries without a tier rank would skip tier checks, so re-read them
+  if (cached && cached.tierRank !== undefined) {
     // Cache hit - need to revalidate canceled subscriptions against current time
     let hasAccess = cached.isActive;
 
@@ -211,7 +347,14 @@ export async function checkSubscriptionStatus(
       hasAccess = expiresAt > now;
     }
 
-    if (hasAccess) {
+    // ...and that a scheduled pause hasn't started
+    const pauseStarted =
+      cached.isActive &&
+      hasPauseStarted(
+        cached.pauseStartsAt ? new Date(cached.pauseStartsAt) : null,
+      );
+
+    if (hasAccess && !pauseStarted) {
       return {
         hasAccess: true,
         reason:
@@ -220,10 +363,21 @@ export async function checkSubscriptionStatus(
           id: cached.subscriptionId,
           status: cached.status,
           expiresAt: cached.expiresAt ? new Date(cached.expiresAt) : null,
+          tierRank: cached.tierRank,
         },
       };
     }
 
+    if (cached.status === "paused" || pauseStarted) {
+      return getPausedResult(creatorId, {
+        id: cached.subscriptionId,
+        status: "paused",
+        expiresAt: cached.expiresAt ? new Date(cached.expiresAt) : null,
+        tierRank: cached.tierRank,
+        pausedUntil: cached.pausedUntil ? new Date(cached.pausedUntil) : null,
+      });
+    }
+
     // Cached as not subscribed or expired - get creator info for paywall
     const creator = await getCreatorInfo(creatorId);
     return {
@@ -245,25 +399,39 @@ export async function checkSubscriptionStatus(
       id: true,
       status: true,
       currentPeriodEnd: true,
+      pauseStartsAt: true,
+      pausedUntil: true,
+      tier: { select: { rank: true } },
     },
   });
 
   // Determine if subscription is active
-  // Include canceled subscriptions that are still within their paid period
+  // Include canceled subscriptions that are still within their paid period;
+  // paused subscriptions have no access, including active ones whose
+  // scheduled pause has started before the webhook marked them paused
   const now = new Date();
+  const status =
+    subscription?.status === "active" &&
+    hasPauseStarted(subscription.pauseStartsAt, now)
+      ? "paused"
+      : subscription?.status;
   const isActive =
-    subscription?.status === "active" ||
-    subscription?.status === "trialing" ||
-    (subscription?.status === "canceled" &&
+    status === "active" ||
+    status === "trialing" ||
+    (status === "canceled" &&
       subscription?.currentPeriodEnd &&
       subscription.currentPeriodEnd > now);
 
   // Cache the result
+  const tierRank = subscription?.tier?.rank ?? UNTIERED_RANK;
   const cacheData: CachedSubscriptionData = {
     isActive: isActive ?? false,
-    status: subscription?.status || "no_subscription",
+    status: status || "no_subscription",
     subscriptionId: subscription?.id || "",
     expiresAt: subscription?.currentPeriodEnd?.toISOString() || null,
+    tierRank,
+    pausedUntil: subscription?.pausedUntil?.toISOString() || null,
+    pauseStartsAt: subscription?.pauseStartsAt?.toISOString() || null,
     cachedAt: Date.now(),
   };
 
@@ -272,26 +440,56 @@ export async function checkSubscriptionStatus(
   if (isActive && subscription) {
     return {
       hasAccess: true,
-      reason:
-        subscription.status === "trialing" ? "trialing" : "active_subscription",
+      reason: status === "trialing" ? "trialing" : "active_subscription",
       subscription: {
         id: subscription.id,
         status: subscription.status,
         expiresAt: subscription.currentPeriodEnd,
+        tierRank,
       },
     };
   }
 
+  if (subscription && status === "paused") {
+    return getPausedResult(creatorId, {
+      id: subscription.id,
+      status,
+      expiresAt: subscription.currentPeriodEnd,
+      tierRank,
+      pausedUntil: subscription.pausedUntil,
+    });
+  }
+
   // Not subscribed - get creator info for paywall display
   const creator = await getCreatorInfo(creatorId);
 
   return {
     hasAccess: false,
-    reason: statusToReason(subscription?.status || null),
+    reason: statusToReason(status || null),
     creator,
   };
 }
 
+/**
+ * Access result for a paused subscription
+ *
+ * Paused subscribers can't see paid content until the subscription
+ * resumes. That happens when the Stripe webhook marks it active, so access
+ * stays off until then even if pausedUntil has passed. The subscription is
+ * returned so the paywall can say when it resumes.
+ */
+async function getPausedResult(
+  creatorId: string,
+  subscription: NonNullable<SubscriptionCheckResult["subscription"]>,
+): Promise<Omit<SubscriptionCheckResult, "isFreeContent">> {
+  return {
+    hasAccess: false,
+    reason: "subscription_paused",
+    subscription,
+    creator: await getCreatorInfo(creatorId),
+  };
+}
+
 /**
  * Revalidate subscription status during playback
  * Used for periodic checks during long video playback
@@ -319,6 +517,16 @@ export async function revalidateAccess(
     };
   }
 
+  // Program items stay locked until their unlock date, even when free
+  if (await getProgramItemLock(userId, content)) {
+    return {
+      valid: false,
+      reason: "locked_until",
+      expiresIn: 0,
+      nextCheckIn: 0,
+    };
+  }
+
   // Free content doesn't need revalidation
   if (content.isFree) {
     return {
@@ -340,22 +548,42 @@ export async function revalidateAccess(
     select: {
       status: true,
       currentPeriodEnd: true,
+      pauseStartsAt: true,
+      tier: { select: { rank: true } },
     },
   });
 
-  // Check if subscription is active (including canceled but still within paid period)
+  // Check if subscription is active (including canceled but still within
+  // paid period, and not including a scheduled pause that has started)
   const now = new Date();
+  const status =
+    subscription?.status === "active" &&
+    hasPauseStarted(subscription.pauseStartsAt, now)
+      ? "paused"
+      : subscription?.status;
   const isActive =
-    subscription?.status === "active" ||
-    subscription?.status === "trialing" ||
-    (subscription?.status === "canceled" &&
+    status === "active" ||
+    status === "trialing" ||
+    (status === "canceled" &&
       subscription?.currentPeriodEnd &&
       subscription.currentPeriodEnd > now);
+  const hasRequiredTier =
+    (subscription?.tier?.rank ?? UNTIERED_RANK) >= content.requiredTierRank;
+
+  if (!isActive || !hasRequiredTier) {
+    // Purchases don't expire, but can be revoked by a refund
+    if (await hasPurchasedContent(userId, contentId)) {
+      return {
+        valid: true,
+        reason: "purchased",
+        expiresIn: 3600, // 1 hour
+        nextCheckIn: 300,
+      };
+    }
 
-  if (!isActive) {
     return {
       valid: false,
-      reason: statusToReason(subscription?.status || null),
+      reason: isActive ? "insufficient_tier" : statusToReason(status || null),
       expiresIn: 0,
       nextCheckIn: 0,
     };
@@ -376,8 +604,7 @@ export async function revalidateAccess(
 
   return {
     valid: true,
-    reason:
-      subscription?.status === "trialing" ? "trialing" : "active_subscription",
+    reason: status === "trialing" ? "trialing" : "active_subscription",
     expiresIn,
     nextCheckIn,
   };
@@ -417,6 +644,9 @@ interface ContentMetadata {
   isFree: boolean;
   creatorId: string;
   status: string;
+  requiredTierRank: number;
+  programId: string | null;
+  unlockOffsetDays: number | null;
 }
 
 /**
@@ -428,19 +658,22 @@ async function getContentMetadata(
   const cacheKey = getContentCacheKey(contentId);
 
   // Try cache first
-  const cached = await getCache<ContentMetadata>(cacheKey);
-  if (cached) {
-    return cached;
+  // Entries cached before tiers were added have no required rank and
+  // would skip tier checks, so re-read them
+  const cached = await getCache<Partial<ContentMetadata>>(cacheKey);
+  if (cached && cached.requiredTierRank !== undefined) {
+    return cached as ContentMetadata;
   }
 
   // Query database
   const content = await prisma.content.findUnique({
     where: { id: contentId },
     select: {
-      id: true,
+      ...programScheduleSelect,
       isFree: true,
       creatorId: true,
       status: true,
+      ...requiredTierSelect,
     },
   });
 
@@ -448,10 +681,20 @@ async function getContentMetadata(
     return null;
   }
 
+  const metadata: ContentMetadata = {
+    id: content.id,
+    isFree: content.isFree,
+    creatorId: content.creatorId,
+    status: content.status,
+    requiredTierRank: getRequiredTierRank(content),
+    programId: content.programId,
+    unlockOffsetDays: content.unlockOffsetDays,
+  };
+
   // Cache for 5 minutes
-  await setCache(cacheKey, content, CACHE_TTL.SUBSCRIPTION_STATUS);
+  await setCache(cacheKey, metadata, CACHE_TTL.SUBSCRIPTION_STATUS);
 
-  return content;
+  return metadata;
 }
 
 /**
@@ -482,6 +725,7 @@ async function getCreatorInfo(
       handle: true,
       displayName: true,
       subscriptionPrice: true,
+      customPriceCents: true,
       trialEnabled: true,
     },
   });
@@ -495,6 +739,7 @@ async function getCreatorInfo(
     handle: creator.handle,
     displayName: creator.displayName,
     subscriptionPrice: creator.subscriptionPrice,
+    monthlyPriceCents: getMonthlyPriceCents(creator),
     trialEnabled: creator.trialEnabled,
   };
 }
@@ -512,6 +757,8 @@ function statusToReason(status: string | null): AccessReason {
       return "subscription_canceled";
     case "past_due":
       return "subscription_past_due";
+    case "paused":
+      return "subscription_paused";
     default:
       return "no_subscription";
   }
@@ -532,8 +779,9 @@ export function isSubscriptionExpired(
     return false;
   }
 
-  // Past due subscriptions are not technically expired, but payment failed
-  if (status === "past_due") {
+  // Past due subscriptions are not technically expired, but payment failed;
+  // paused subscriptions resume on their own
+  if (status === "past_due" || status === "paused") {
     return false;
   }
 
@@ -560,6 +808,12 @@ export function getAccessDenialMessage(reason: AccessReason): string {
       return "Your subscription has ended. Subscribe again to access this content.";
     case "subscription_past_due":
       return "There was an issue with your payment. Please update your payment method.";
+    case "subscription_paused":
+      return "Your subscription is paused. You'll have access again when it resumes.";
+    case "insufficient_tier":
+      return "Upgrade your membership to access this content.";
+    case "locked_until":
+      return "This part of the program hasn't unlocked yet.";
     case "content_not_found":
       return "This content is no longer available.";
     case "unauthenticated":
@@ -591,9 +845,10 @@ export async function checkBatchContentAccess(
   const contents = await prisma.content.findMany({
     where: { id: { in: contentIds } },
     select: {
-      id: true,
+      ...programScheduleSelect,
       isFree: true,
       creatorId: true,
+      ...requiredTierSelect,
     },
   });
 
@@ -620,11 +875,12 @@ export async function checkBatchContentAccess(
         accessMap.set(contentId, false);
       }
     }
-    return accessMap;
+    return applyProgramLocks(userId, contents, accessMap);
   }
 
   // Check subscriptions for each creator
-  // Include canceled subscriptions that are still within their paid period
+  // Include canceled subscriptions that are still within their paid period,
+  // but not active ones whose scheduled pause has started
   const creatorIds = Array.from(creatorContentMap.keys());
   const now = new Date();
   const subscriptions = await prisma.subscription.findMany({
@@ -632,7 +888,10 @@ export async function checkBatchContentAccess(
       userId,
       creatorId: { in: creatorIds },
       OR: [
-        { status: { in: ["active", "trialing"] } },
+        {
+          status: { in: ["active", "trialing"] },
+          OR: [{ pauseStartsAt: null }, { pauseStartsAt: { gt: now } }],
+        },
         {
           status: "canceled",
           currentPeriodEnd: { gt: now },
@@ -641,17 +900,51 @@ export async function checkBatchContentAccess(
     },
     select: {
       creatorId: true,
+      tier: { select: { rank: true } },
     },
   });
 
-  const subscribedCreators = new Set(subscriptions.map((s) => s.creatorId));
+  // Tier rank per subscribed creator
+  const subscribedTierRanks = new Map(
+    subscriptions.map((s) => [s.creatorId, s.tier?.rank ?? UNTIERED_RANK]),
+  );
 
-  // Set access based on subscription status
-  for (const [creatorId, contentIds] of creatorContentMap) {
-    const hasAccess = subscribedCreators.has(creatorId);
-    for (const contentId of contentIds) {
-      accessMap.set(contentId, hasAccess);
-    }
+  // Set access based on subscription status and tier
+  const lockedContent: typeof contents = [];
+  for (const content of contents) {
+    if (content.isFree) continue;
+
+    const tierRank = subscribedTierRanks.get(content.creatorId);
+    const hasAccess =
+      tierRank !== undefined && tierRank >= getRequiredTierRank(content);
+    accessMap.set(content.id, hasAccess);
+    if (!hasAccess) lockedContent.push(content);
+  }
+
+  // Paid content the user's subscription doesn't cover may be purchased
+  const purchasedIds = await getPurchasedContentIds(userId, lockedContent);
+  for (const contentId of purchasedIds) {
+    accessMap.set(contentId, true);
+  }
+
+  return applyProgramLocks(userId, contents, accessMap);
+}
+
+/**
+ * Hold back accessible program items that haven't unlocked for the user
+ */
+async function applyProgramLocks(
+  userId: string | undefined,
+  contents: ProgramItemSchedule[],
+  accessMap: Map<string, boolean>,
+): Promise<Map<string, boolean>> {
+  const programLocks = await getProgramItemLocks(
+    userId,
+    contents.filter((content) => accessMap.get(content.id)),
+  );
+
+  for (const contentId of programLocks.keys()) {
+    accessMap.set(contentId, false);
   }
 
   return accessMap;
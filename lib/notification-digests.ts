@@ -0,0 +1,177 @@
+/**
+ * Notification Digests
+ *
+ * Sends the new content held for users on a daily or weekly digest, or
+ * during their quiet hours, as one notification per user: in-app and push
+ * following their new content preferences, and one digest email following
+ * their email preferences. Called by the /api/cron/send-digests processor,
+ * which should run hourly so digests go out soon after DIGEST_HOUR in
+ * every time zone.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createNotification } from "@/lib/notifications";
+import { sendNewContentDigestEmail, sendNewContentEmail } from "@/lib/email";
+import {
+  getNotificationSchedules,
+  isDigestDue,
+  type NotificationSchedule,
+} from "@/lib/notification-schedule";
+import type { NewContentDigestItem } from "@/emails/new-content-digest";
+
+// Users sent a digest per run; the rest are picked up by the next run
+const DIGEST_USER_LIMIT = 200;
+
+// Content listed in one digest email
+const MAX_DIGEST_EMAIL_ITEMS = 10;
+
+export interface DueDigestsResult {
+  digestsSent: number;
+  itemsSent: number;
+}
+
+/**
+ * Send every digest that's due
+ */
+export async function sendDueDigests(
+  now: Date = new Date(),
+): Promise<DueDigestsResult> {
+  const pending = await prisma.digestItem.groupBy({
+    by: ["userId"],
+    _min: { createdAt: true },
+  });
+
+  const schedules = await getNotificationSchedules(
+    pending.map((row) => row.userId),
+  );
+
+  const due = pending
+    .filter((row) =>
+      isDigestDue(schedules.get(row.userId)!, row._min.createdAt!, now),
+    )
+    .sort(
+      (a, b) => a._min.createdAt!.getTime() - b._min.createdAt!.getTime(),
+    )
+    .slice(0, DIGEST_USER_LIMIT);
+
+  let digestsSent = 0;
+  let itemsSent = 0;
+
+  for (const row of due) {
+    try {
+      const sent = await sendDigest(row.userId, schedules.get(row.userId)!);
+      if (sent > 0) {
+        digestsSent++;
+        itemsSent += sent;
+      }
+    } catch (error) {
+      console.error(`Error sending digest to ${row.userId}:`, error);
+    }
+  }
+
+  return { digestsSent, itemsSent };
+}
+
+/**
+ * Send one user their held content
+ *
+ * @returns The number of content items sent
+ */
+async function sendDigest(
+  userId: string,
+  schedule: NotificationSchedule,
+): Promise<number> {
+  const items = await prisma.digestItem.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      content: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          deletedAt: true,
+          creator: { select: { displayName: true } },
+        },
+      },
+    },
+  });
+
+  // Claim the items first so an overlapping run can't send them again
+  const { count } = await prisma.digestItem.deleteMany({
+    where: { id: { in: items.map((item) => item.id) } },
+  });
+  if (count === 0) return 0;
+
+  // Skip content unpublished or deleted since it was held
+  const available = items
+    .map((item) => item.content)
+    .filter((content) => content.status === "published" && !content.deletedAt);
+
+  if (available.length === 0) return 0;
+
+  // A single item is sent like any other new content notification
+  if (available.length === 1) {
+    const [content] = available;
+    const contentUrl = `/content/${content.id}`;
+
+    await createNotification(
+      userId,
+      "new_content",
+      `${content.creator.displayName} posted new content`,
+      content.title,
+      contentUrl,
+      (recipientId) =>
+        sendNewContentEmail(
+          recipientId,
+          content.creator.displayName,
+          content.title,
+          contentUrl,
+        ),
+    );
+    return 1;
+  }
+
+  const creatorNames = [
+    ...new Set(available.map((content) => content.creator.displayName)),
+  ];
+  const emailItems: NewContentDigestItem[] = available
+    .slice(0, MAX_DIGEST_EMAIL_ITEMS)
+    .map((content) => ({
+      creatorName: content.creator.displayName,
+      contentTitle: content.title,
+      contentUrl: `/content/${content.id}`,
+    }));
+  const period =
+    schedule.digestMode === "immediate" ? null : schedule.digestMode;
+
+  await createNotification(
+    userId,
+    "new_content",
+    `${available.length} new posts from creators you follow`,
+    `From ${formatCreatorNames(creatorNames)}`,
+    "/home",
+    (recipientId) =>
+      sendNewContentDigestEmail(
+        recipientId,
+        period,
+        emailItems,
+        available.length - emailItems.length,
+      ),
+  );
+
+  return available.length;
+}
+
+/**
+ * List creator names, e.g. "Ana, Ben and 3 others"
+ */
+function formatCreatorNames(names: string[]): string {
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]}`;
+
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} others`;
+}
@@ -0,0 +1,221 @@
+/**
+ * Notification Schedule
+ *
+ * Digest mode and quiet hours, worked out in each user's time zone:
+ * - Users on a daily or weekly digest get new content in one notification
+ *   after DIGEST_HOUR each day, or each Monday, instead of as it's published
+ * - Quiet hours hold new content until they end and silence push for
+ *   everything else; in-app notifications and emails still arrive
+ *
+ * Held content is saved as DigestItems and sent by the send-digests cron
+ * (see lib/notification-digests).
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { DigestMode, Prisma } from "@prisma/client";
+import {
+  DIGEST_HOUR,
+  type NotificationScheduleSettings,
+  type NotificationScheduleUpdate,
+} from "@/lib/validations/notification";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const notificationScheduleSelect = {
+  digestMode: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  timeZone: true,
+} satisfies Prisma.NotificationSettingsSelect;
+
+export type NotificationSchedule = Prisma.NotificationSettingsGetPayload<{
+  select: typeof notificationScheduleSelect;
+}>;
+
+/**
+ * The schedule of users who haven't changed it
+ */
+export const DEFAULT_NOTIFICATION_SCHEDULE: NotificationSchedule = {
+  digestMode: "immediate",
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timeZone: "UTC",
+};
+
+/**
+ * Get users' notification schedules, with the default for users who
+ * haven't saved one
+ */
+export async function getNotificationSchedules(
+  userIds: string[],
+): Promise<Map<string, NotificationSchedule>> {
+  const settings =
+    userIds.length > 0
+      ? await prisma.notificationSettings.findMany({
+          where: { userId: { in: userIds } },
+          select: { userId: true, ...notificationScheduleSelect },
+        })
+      : [];
+  const byUser = new Map(
+    settings.map(({ userId, ...schedule }) => [userId, schedule]),
+  );
+
+  return new Map(
+    userIds.map((userId) => [
+      userId,
+      byUser.get(userId) ?? DEFAULT_NOTIFICATION_SCHEDULE,
+    ]),
+  );
+}
+
+/**
+ * Get a user's schedule as shown in notification settings
+ *
+ * The time zone is null until the user saves their schedule, so the
+ * settings page can suggest the browser's.
+ */
+export async function getNotificationScheduleSettings(
+  userId: string,
+): Promise<NotificationScheduleSettings> {
+  const settings = await prisma.notificationSettings.findUnique({
+    where: { userId },
+    select: notificationScheduleSelect,
+  });
+
+  return {
+    digestMode: settings?.digestMode ?? "immediate",
+    quietHours:
+      settings?.quietHoursStart != null && settings.quietHoursEnd != null
+        ? { start: settings.quietHoursStart, end: settings.quietHoursEnd }
+        : null,
+    timeZone: settings?.timeZone ?? null,
+  };
+}
+
+/**
+ * Save a user's notification schedule
+ */
+export async function updateNotificationSchedule(
+  userId: string,
+  settings: NotificationScheduleUpdate,
+): Promise<void> {
+  const data = {
+    digestMode: settings.digestMode,
+    quietHoursStart: settings.quietHours?.start ?? null,
+    quietHoursEnd: settings.quietHours?.end ?? null,
+    timeZone: settings.timeZone,
+  };
+
+  await prisma.notificationSettings.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Check if it's currently quiet hours for a user
+ */
+export function isInQuietHours(
+  schedule: NotificationSchedule,
+  now: Date = new Date(),
+): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = schedule;
+  if (start === null || end === null || start === end) return false;
+
+  const { minutes } = getLocalTime(now, schedule.timeZone);
+
+  // Quiet hours that end before they start run past midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Check if new content should wait for the user's next digest instead of
+ * being sent now
+ */
+export function shouldHoldNewContent(
+  schedule: NotificationSchedule,
+  now: Date = new Date(),
+): boolean {
+  return schedule.digestMode !== "immediate" || isInQuietHours(schedule, now);
+}
+
+/**
+ * Check if a user's held content is due to be sent
+ *
+ * @param oldestItemAt - When the oldest held item was saved
+ */
+export function isDigestDue(
+  schedule: NotificationSchedule,
+  oldestItemAt: Date,
+  now: Date = new Date(),
+): boolean {
+  if (isInQuietHours(schedule, now)) return false;
+
+  // Content held only for quiet hours goes out as soon as they end
+  if (schedule.digestMode === "immediate") return true;
+
+  return (
+    getDigestPeriod(now, schedule.timeZone, schedule.digestMode) !==
+    getDigestPeriod(oldestItemAt, schedule.timeZone, schedule.digestMode)
+  );
+}
+
+/**
+ * The digest period a moment falls in, as the local date it started
+ *
+ * Periods start at DIGEST_HOUR: daily periods every day, weekly periods
+ * on Mondays.
+ */
+function getDigestPeriod(
+  date: Date,
+  timeZone: string,
+  digestMode: DigestMode,
+): string {
+  const local = getLocalTime(
+    new Date(date.getTime() - DIGEST_HOUR * HOUR_MS),
+    timeZone,
+  );
+  if (digestMode !== "weekly") return local.date;
+
+  // Step back to Monday
+  const daysSinceMonday = (local.weekday + 6) % 7;
+  return new Date(Date.parse(local.date) - daysSinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * The local date, weekday (0 = Sunday) and minutes after midnight of a
+ * moment in a time zone
+ */
+function getLocalTime(
+  date: Date,
+  timeZone: string,
+): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(
+      parts.weekday,
+    ),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
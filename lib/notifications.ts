@@ -2,7 +2,16 @@
  * Notification Helper Functions
  *
  * Utility functions for creating and managing notifications.
- * These helpers handle notification creation and Redis cache invalidation.
+ * Notifications fan out to three channels, following each user's
+ * notification preferences for the notification type:
+ * - In-app: saved to the notification list, with Redis cache invalidation
+ *   and a realtime event for open notification bells
+ * - Push: sent to the user's browsers with web push (see lib/push)
+ * - Email: sent for types that have an email template; lib/email checks
+ *   the user's email preferences before sending
+ *
+ * Push is also held back during each user's quiet hours, and new content
+ * waits for users' digests (see lib/notification-schedule).
  *
  * Integration Points (to be wired up later):
  * - New content published -> notify followers/subscribers
@@ -10,11 +19,43 @@
  * - Subscription renewed -> notify subscriber
  * - Trial ending (day 5, day 6) -> notify subscriber
  * - Payment failed -> notify subscriber
+ * - Subscription refunded / payment disputed -> notify creator
+ * - Creator suspended / reinstated by an admin -> notify subscribers
  */
 
 import { prisma } from "@/lib/prisma";
 import { invalidateNotificationCache } from "@/lib/cache";
-import type { NotificationType } from "@prisma/client";
+import { publishToUsers, type RealtimeNotification } from "@/lib/realtime";
+import { sendPushToUsers } from "@/lib/push";
+import {
+  getNotificationSchedules,
+  isInQuietHours,
+  shouldHoldNewContent,
+} from "@/lib/notification-schedule";
+import {
+  sendNewContentEmail,
+  sendNewMessageEmail,
+  sendPaymentFailedEmail,
+  sendTrialEndingEmail,
+} from "@/lib/email";
+import {
+  notificationTypeInfo,
+  notificationTypes,
+  type NotificationPreferenceRow,
+  type NotificationPreferencesUpdate,
+} from "@/lib/validations/notification";
+import type { Notification, NotificationType } from "@prisma/client";
+
+// Emails sent at once when notifying many users, to respect rate limits
+const EMAIL_BATCH_SIZE = 10;
+const EMAIL_BATCH_DELAY_MS = 100;
+
+/**
+ * Sends a notification's email to one user
+ *
+ * @returns Whether the email was sent
+ */
+type NotificationEmailSender = (userId: string) => Promise<boolean>;
 
 /**
  * Notification type configuration
@@ -53,8 +94,157 @@ export const NOTIFICATION_CONFIG: Record<
     defaultTitle: "Payment failed",
     color: "text-destructive",
   },
+  subscription_refunded: {
+    icon: "receipt",
+    defaultTitle: "Subscription refunded",
+    color: "text-amber-600",
+  },
+  payment_disputed: {
+    icon: "shield-alert",
+    defaultTitle: "Payment disputed",
+    color: "text-destructive",
+  },
+  creator_suspended: {
+    icon: "circle-pause",
+    defaultTitle: "Creator unavailable",
+    color: "text-amber-600",
+  },
+  creator_reinstated: {
+    icon: "circle-play",
+    defaultTitle: "Creator is back",
+    color: "text-green-600",
+  },
 };
 
+/**
+ * Push new notifications to their users' open realtime streams
+ */
+async function publishNotifications(
+  notifications: Notification[],
+): Promise<void> {
+  await publishToUsers(
+    notifications.map((notification) => ({
+      userId: notification.userId,
+      event: {
+        type: "notification.new",
+        notification: toRealtimeNotification(notification),
+      },
+    })),
+  );
+}
+
+function toRealtimeNotification(
+  notification: Notification,
+): RealtimeNotification {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    isRead: notification.isRead,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Split users by the channels they get a notification type on
+ *
+ * Users without a saved preference for the type get every channel. Users
+ * in their quiet hours don't get push.
+ */
+async function getNotificationChannels(
+  userIds: string[],
+  type: NotificationType,
+): Promise<{ inApp: string[]; push: string[] }> {
+  const [preferences, schedules] = await Promise.all([
+    prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, type },
+      select: { userId: true, inApp: true, push: true },
+    }),
+    getNotificationSchedules(userIds),
+  ]);
+  const byUser = new Map(preferences.map((pref) => [pref.userId, pref]));
+
+  return {
+    inApp: userIds.filter((userId) => byUser.get(userId)?.inApp ?? true),
+    push: userIds.filter(
+      (userId) =>
+        (byUser.get(userId)?.push ?? true) &&
+        !isInQuietHours(schedules.get(userId)!),
+    ),
+  };
+}
+
+/**
+ * Send a notification's email to each user, a batch at a time
+ */
+async function sendNotificationEmails(
+  userIds: string[],
+  sendEmail: NotificationEmailSender,
+): Promise<void> {
+  for (let i = 0; i < userIds.length; i += EMAIL_BATCH_SIZE) {
+    const batch = userIds.slice(i, i + EMAIL_BATCH_SIZE);
+    await Promise.allSettled(batch.map((userId) => sendEmail(userId)));
+
+    if (i + EMAIL_BATCH_SIZE < userIds.length) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, EMAIL_BATCH_DELAY_MS),
+      );
+    }
+  }
+}
+
+/**
+ * Deliver a notification to users on each channel they've kept on
+ *
+ * @param userIds - The users to notify
+ * @param type - The notification type
+ * @param title - The notification title
+ * @param body - The notification body text
+ * @param link - Optional link to navigate to when clicked
+ * @param sendEmail - Sends the email for types that have one
+ * @returns The in-app notifications created
+ */
+async function deliverNotifications(
+  userIds: string[],
+  type: NotificationType,
+  title: string,
+  body: string,
+  link?: string,
+  sendEmail?: NotificationEmailSender,
+): Promise<Notification[]> {
+  const channels = await getNotificationChannels(userIds, type);
+
+  // Create all in-app notifications in a single query
+  const notifications =
+    channels.inApp.length > 0
+      ? await prisma.notification.createManyAndReturn({
+          data: channels.inApp.map((userId) => ({
+            userId,
+            type,
+            title,
+            body,
+            link,
+            isRead: false,
+          })),
+        })
+      : [];
+
+  // Invalidate the Redis cache for each user's notification count
+  await Promise.all(
+    channels.inApp.map((userId) => invalidateNotificationCache(userId)),
+  );
+
+  await Promise.all([
+    publishNotifications(notifications),
+    sendPushToUsers(channels.push, { type, title, body, link: link ?? null }),
+    sendEmail ? sendNotificationEmails(userIds, sendEmail) : undefined,
+  ]);
+
+  return notifications;
+}
+
 /**
  * Create a notification for a user
  *
@@ -63,7 +253,9 @@ export const NOTIFICATION_CONFIG: Record<
  * @param title - The notification title
  * @param body - The notification body text
  * @param link - Optional link to navigate to when clicked
- * @returns The created notification
+ * @param sendEmail - Sends the email for types that have one
+ * @returns The created notification, or null if the user turned off
+ * in-app notifications of this type
  */
 export async function createNotification(
   userId: string,
@@ -71,23 +263,18 @@ export async function createNotification(
   title: string,
   body: string,
   link?: string,
-) {
+  sendEmail?: NotificationEmailSender,
+): Promise<Notification | null> {
   try {
-    const notification = await prisma.notification.create({
-      data: {
-        userId,
-        type,
-        title,
-        body,
-        link,
-        isRead: false,
-      },
-    });
-
-    // Invalidate the Redis cache for this user's notification count
-    await invalidateNotificationCache(userId);
-
-    return notification;
+    const [notification] = await deliverNotifications(
+      [userId],
+      type,
+      title,
+      body,
+      link,
+      sendEmail,
+    );
+    return notification ?? null;
   } catch (error) {
     console.error("Error creating notification:", error);
     throw error;
@@ -103,7 +290,8 @@ export async function createNotification(
  * @param title - The notification title
  * @param body - The notification body text
  * @param link - Optional link to navigate to when clicked
- * @returns The count of created notifications
+ * @param sendEmail - Sends the email for types that have one
+ * @returns The count of created in-app notifications
  */
 export async function createBatchNotifications(
   userIds: string[],
@@ -111,34 +299,100 @@ export async function createBatchNotifications(
   title: string,
   body: string,
   link?: string,
+  sendEmail?: NotificationEmailSender,
 ): Promise<number> {
   if (userIds.length === 0) return 0;
 
   try {
-    // Create all notifications in a single transaction
-    const result = await prisma.notification.createMany({
-      data: userIds.map((userId) => ({
-        userId,
-        type,
-        title,
-        body,
-        link,
-        isRead: false,
-      })),
-    });
-
-    // Invalidate cache for all affected users
-    await Promise.all(
-      userIds.map((userId) => invalidateNotificationCache(userId)),
+    const notifications = await deliverNotifications(
+      userIds,
+      type,
+      title,
+      body,
+      link,
+      sendEmail,
     );
-
-    return result.count;
+    return notifications.length;
   } catch (error) {
     console.error("Error creating batch notifications:", error);
     throw error;
   }
 }
 
+// =============================================================================
+// NOTIFICATION PREFERENCES
+// =============================================================================
+
+/**
+ * Get a user's channels for every notification type
+ */
+export async function getNotificationPreferences(
+  userId: string,
+): Promise<NotificationPreferenceRow[]> {
+  const [preferences, emailPreferences] = await Promise.all([
+    prisma.notificationPreference.findMany({
+      where: { userId },
+      select: { type: true, inApp: true, push: true },
+    }),
+    prisma.emailPreferences.findUnique({ where: { userId } }),
+  ]);
+  const byType = new Map(preferences.map((pref) => [pref.type, pref]));
+
+  return notificationTypes.map((type) => {
+    const { emailPreference } = notificationTypeInfo[type];
+    return {
+      type,
+      inApp: byType.get(type)?.inApp ?? true,
+      // Email preferences default to on until the user changes them
+      email: emailPreference
+        ? (emailPreferences?.[emailPreference] ?? true)
+        : null,
+      push: byType.get(type)?.push ?? true,
+    };
+  });
+}
+
+/**
+ * Save changes to a user's notification channels
+ *
+ * Email changes are saved to the user's email preferences, which
+ * unsubscribe links update too.
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: NotificationPreferencesUpdate["preferences"],
+): Promise<void> {
+  const emailUpdates = Object.fromEntries(
+    updates.flatMap(({ type, email }) => {
+      const { emailPreference } = notificationTypeInfo[type];
+      return emailPreference && email !== undefined
+        ? [[emailPreference, email]]
+        : [];
+    }),
+  );
+
+  await prisma.$transaction([
+    ...updates
+      .filter((pref) => pref.inApp !== undefined || pref.push !== undefined)
+      .map(({ type, inApp, push }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, inApp, push },
+          update: { inApp, push },
+        }),
+      ),
+    ...(Object.keys(emailUpdates).length > 0
+      ? [
+          prisma.emailPreferences.upsert({
+            where: { userId },
+            create: { userId, ...emailUpdates },
+            update: emailUpdates,
+          }),
+        ]
+      : []),
+  ]);
+}
+
 // =============================================================================
 // NOTIFICATION CREATION HELPERS FOR SPECIFIC EVENTS
 // =============================================================================
@@ -146,10 +400,14 @@ export async function createBatchNotifications(
 /**
  * Notify followers/subscribers when a creator publishes new content
  *
+ * Users on a digest, or in their quiet hours, get it later with the
+ * send-digests cron instead.
+ *
  * @param creatorId - The creator profile ID
  * @param creatorName - The creator's display name
  * @param contentTitle - The title of the new content
  * @param contentId - The content ID for the link
+ * @returns The count of in-app notifications created now
  */
 export async function notifyNewContent(
   creatorId: string,
@@ -182,12 +440,35 @@ export async function notifyNewContent(
 
   if (userIds.length === 0) return 0;
 
+  // Hold the content for users who'd rather get it later
+  const schedules = await getNotificationSchedules(userIds);
+  const heldUserIds: string[] = [];
+  const notifyUserIds: string[] = [];
+  for (const userId of userIds) {
+    if (shouldHoldNewContent(schedules.get(userId)!)) {
+      heldUserIds.push(userId);
+    } else {
+      notifyUserIds.push(userId);
+    }
+  }
+
+  if (heldUserIds.length > 0) {
+    await prisma.digestItem.createMany({
+      data: heldUserIds.map((userId) => ({ userId, contentId })),
+      skipDuplicates: true,
+    });
+  }
+
+  const contentUrl = `/content/${contentId}`;
+
   return createBatchNotifications(
-    userIds,
+    notifyUserIds,
     "new_content",
     `${creatorName} posted new content`,
     contentTitle,
-    `/content/${contentId}`,
+    contentUrl,
+    (userId) =>
+      sendNewContentEmail(userId, creatorName, contentTitle, contentUrl),
   );
 }
 
@@ -211,6 +492,8 @@ export async function notifyNewMessage(
     `New message from ${senderName}`,
     messagePreview.slice(0, 100) + (messagePreview.length > 100 ? "..." : ""),
     conversationLink || "/messages",
+    (recipientId) =>
+      sendNewMessageEmail(recipientId, senderName, messagePreview),
   );
 }
 
@@ -255,6 +538,13 @@ export async function notifyTrialEnding(
     `Trial ending in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"}`,
     `Your free trial with ${creatorName} will end soon. Subscribe to keep access to their content.`,
     `/${creatorHandle}`,
+    (recipientId) =>
+      sendTrialEndingEmail(
+        recipientId,
+        creatorName,
+        daysRemaining,
+        "/subscriptions",
+      ),
   );
 }
 
@@ -274,5 +564,192 @@ export async function notifyPaymentFailed(
     "Payment failed",
     `We couldn't process your payment for ${creatorName}. Please update your payment method to maintain access.`,
     "/subscriptions",
+    (recipientId) =>
+      sendPaymentFailedEmail(recipientId, creatorName, "/subscriptions"),
+  );
+}
+
+/**
+ * Notify a creator when a subscriber's payment is refunded
+ * and their subscription ends
+ *
+ * @param creatorUserId - The creator's user ID
+ * @param subscriberName - The subscriber's name
+ * @param amountCents - Refunded amount in cents
+ */
+export async function notifySubscriptionRefunded(
+  creatorUserId: string,
+  subscriberName: string,
+  amountCents: number,
+): Promise<void> {
+  await createNotification(
+    creatorUserId,
+    "subscription_refunded",
+    "Subscription refunded",
+    `${subscriberName} was refunded $${(amountCents / 100).toFixed(2)} and their subscription has ended. Refunds are covered by the platform and don't affect your payout.`,
+    "/creator/subscribers",
+  );
+}
+
+/**
+ * Notify a creator about a payment dispute (chargeback)
+ *
+ * @param creatorUserId - The creator's user ID
+ * @param subscriberName - The subscriber's name
+ * @param outcome - "opened" when filed, "won" or "lost" when closed
+ */
+export async function notifyPaymentDisputed(
+  creatorUserId: string,
+  subscriberName: string,
+  outcome: "opened" | "won" | "lost",
+): Promise<void> {
+  const messages = {
+    opened: {
+      title: "Payment disputed",
+      body: `${subscriberName} disputed a subscription payment with their bank. Our team is reviewing it - no action is needed from you.`,
+    },
+    won: {
+      title: "Dispute resolved",
+      body: `The dispute on ${subscriberName}'s payment was resolved in your favor.`,
+    },
+    lost: {
+      title: "Dispute closed",
+      body: `The dispute on ${subscriberName}'s payment was closed in their favor and their subscription has ended.`,
+    },
+  };
+
+  await createNotification(
+    creatorUserId,
+    "payment_disputed",
+    messages[outcome].title,
+    messages[outcome].body,
+    "/creator/subscribers",
+  );
+}
+
+/**
+ * Notify a creator that an admin suspended their account
+ *
+ * @param creatorUserId - The creator's user ID
+ * @param reason - The reason given by the admin
+ */
+export async function notifyCreatorAccountSuspended(
+  creatorUserId: string,
+  reason: string,
+): Promise<void> {
+  await createNotification(
+    creatorUserId,
+    "creator_suspended",
+    "Your account has been suspended",
+    `Your profile and content are hidden and subscriber billing is paused. Reason: ${reason}. If you believe this was a mistake, please contact support.`,
+    "/creator/dashboard",
+  );
+}
+
+/**
+ * Notify subscribers that a creator was suspended and billing is paused
+ *
+ * @param subscriberIds - User IDs of the creator's subscribers
+ * @param creatorName - The creator's display name
+ * @returns The count of created notifications
+ */
+export async function notifyCreatorSuspended(
+  subscriberIds: string[],
+  creatorName: string,
+): Promise<number> {
+  return createBatchNotifications(
+    subscriberIds,
+    "creator_suspended",
+    `${creatorName} is unavailable`,
+    `${creatorName}'s account has been suspended, so their content is unavailable for now. You won't be charged for your subscription while it's suspended.`,
+    "/subscriptions",
+  );
+}
+
+/**
+ * Notify subscribers that a suspended creator was reinstated and billing
+ * has resumed
+ *
+ * @param subscriberIds - User IDs of the creator's subscribers
+ * @param creatorName - The creator's display name
+ * @param creatorHandle - The creator's handle for the link
+ * @returns The count of created notifications
+ */
+export async function notifyCreatorReinstated(
+  subscriberIds: string[],
+  creatorName: string,
+  creatorHandle: string,
+): Promise<number> {
+  return createBatchNotifications(
+    subscriberIds,
+    "creator_reinstated",
+    `${creatorName} is back`,
+    `${creatorName}'s content is available again and your subscription billing has resumed.`,
+    `/${creatorHandle}`,
+  );
+}
+
+/**
+ * Notify a user that moderators acted on a message they sent
+ *
+ * @param senderUserId - The user who sent the reported message
+ * @param action - Whether the message was removed or the sender warned
+ * @param reason - The reason given by the admin
+ */
+export async function notifyMessageModerated(
+  senderUserId: string,
+  action: "delete" | "warn_sender",
+  reason: string,
+): Promise<void> {
+  await createNotification(
+    senderUserId,
+    "new_message", // No moderation type yet; shown with the message icon
+    action === "delete" ? "Message Removed" : "Message Review Notice",
+    action === "delete"
+      ? `A message you sent was removed for violating our community guidelines. Reason: ${reason}. If you believe this was a mistake, please contact support.`
+      : `A message you sent has been flagged for review. Please make sure your messages follow our community guidelines. Reason: ${reason}.`,
+    "/messages",
+  );
+}
+
+/**
+ * Notify a creator about a new message request
+ *
+ * @param creatorUserId - The creator's user ID
+ * @param senderName - The name of the user asking to message them
+ * @param messagePreview - The request text
+ */
+export async function notifyMessageRequest(
+  creatorUserId: string,
+  senderName: string,
+  messagePreview: string,
+): Promise<void> {
+  await createNotification(
+    creatorUserId,
+    "new_message",
+    `Message request from ${senderName}`,
+    messagePreview.slice(0, 100) + (messagePreview.length > 100 ? "..." : ""),
+    "/creator/messages?tab=requests",
+  );
+}
+
+/**
+ * Notify a user that a creator accepted their message request
+ *
+ * @param senderUserId - The user who sent the request
+ * @param creatorName - The creator's display name
+ * @param creatorUserId - The creator's user ID, for the conversation link
+ */
+export async function notifyMessageRequestAccepted(
+  senderUserId: string,
+  creatorName: string,
+  creatorUserId: string,
+): Promise<void> {
+  await createNotification(
+    senderUserId,
+    "new_message",
+    "Message request accepted",
+    `${creatorName} accepted your message request. You can now message them directly.`,
+    `/messages/conversation/${creatorUserId}`,
   );
 }
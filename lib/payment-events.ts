@@ -0,0 +1,149 @@
+/**
+ * Refund & Dispute Helpers
+ *
+ * Shared by the Stripe webhook and the admin refunds API so a refund or
+ * lost dispute ends access the same way no matter where it started.
+ * Every refund and dispute is recorded as a PaymentEvent for admins.
+ *
+ * @see docs/prd.md "Refunds & Disputes"
+ */
+
+import type { PaymentEventType, SubscriptionStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { cancelSubscriptionImmediately } from "@/lib/stripe";
+import { invalidateCreatorSubscriptionCaches } from "@/lib/cache";
+import { invalidateSubscriptionAccessCache } from "@/lib/middleware/subscription-check";
+
+/**
+ * Subscription fields needed to end access
+ */
+export interface RefundableSubscription {
+  id: string;
+  userId: string;
+  creatorId: string;
+  stripeSubscriptionId: string | null;
+  status: SubscriptionStatus;
+}
+
+/**
+ * End a subscription immediately after a refund or lost dispute
+ *
+ * Cancels billing in Stripe, marks the subscription canceled with the
+ * paid period ending now (so the "canceled but still paid" grace period
+ * in checkSubscriptionStatus doesn't apply), and clears access caches.
+ *
+ * Safe to call twice for the same refund: the admin route and the
+ * charge.refunded webhook can race, and only the first call ends access.
+ *
+ * @param subscription - The subscription to end
+ * @returns false if it had already ended
+ */
+export async function endSubscriptionAccess(
+  subscription: RefundableSubscription,
+): Promise<boolean> {
+  if (
+    subscription.stripeSubscriptionId &&
+    subscription.status !== "canceled"
+  ) {
+    try {
+      await cancelSubscriptionImmediately(subscription.stripeSubscriptionId);
+    } catch (error) {
+      // Already canceled in Stripe (e.g. by the admin route) - keep going
+      console.error(
+        `Failed to cancel Stripe subscription ${subscription.stripeSubscriptionId}:`,
+        error,
+      );
+    }
+  }
+
+  // Only end subscriptions that still have access, so a second call for
+  // the same refund is a no-op
+  const now = new Date();
+  const { count } = await prisma.subscription.updateMany({
+    where: {
+      id: subscription.id,
+      OR: [{ status: { not: "canceled" } }, { currentPeriodEnd: { gt: now } }],
+    },
+    data: {
+      status: "canceled",
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: now,
+      canceledAt: now,
+      cancellationCause: "refunded",
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await Promise.all([
+    invalidateSubscriptionAccessCache(
+      subscription.userId,
+      subscription.creatorId,
+    ),
+    invalidateCreatorSubscriptionCaches(subscription.creatorId),
+  ]);
+
+  return true;
+}
+
+/**
+ * Record a refund or dispute in the admin audit trail
+ *
+ * Refunds are keyed by Stripe Refund ID. If the webhook recorded an
+ * admin-issued refund first, the admin's details are merged in.
+ *
+ * @param data - Event details; amount is in cents
+ * @returns The created PaymentEvent
+ */
+export async function recordPaymentEvent(data: {
+  type: PaymentEventType;
+  subscription?: Pick<RefundableSubscription, "id" | "userId" | "creatorId">;
+  stripeChargeId?: string | null;
+  stripeRefundId?: string | null;
+  stripeDisputeId?: string | null;
+  amount: number;
+  currency?: string;
+  reason?: string | null;
+  initiatedById?: string | null;
+  notes?: string | null;
+}) {
+  const { subscription, ...event } = data;
+  const record = {
+    ...event,
+    subscriptionId: subscription?.id,
+    userId: subscription?.userId,
+    creatorId: subscription?.creatorId,
+  };
+
+  if (!event.stripeRefundId) {
+    return prisma.paymentEvent.create({ data: record });
+  }
+
+  return prisma.paymentEvent.upsert({
+    where: { stripeRefundId: event.stripeRefundId },
+    create: record,
+    update: {
+      ...(event.initiatedById && { initiatedById: event.initiatedById }),
+      ...(event.notes && { notes: event.notes }),
+      ...(event.reason && { reason: event.reason }),
+    },
+  });
+}
+
+/**
+ * Check whether a Stripe refund has already been recorded
+ * (admin-issued refunds are recorded before the webhook arrives)
+ *
+ * @param stripeRefundId - Stripe Refund ID
+ */
+export async function isRefundRecorded(
+  stripeRefundId: string,
+): Promise<boolean> {
+  const existing = await prisma.paymentEvent.findUnique({
+    where: { stripeRefundId },
+    select: { id: true },
+  });
+  return existing !== null;
+}
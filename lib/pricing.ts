@@ -0,0 +1,237 @@
+/**
+ * Creator Subscription Pricing
+ *
+ * Creators either pick one of the preset SubscriptionPriceTier values or set
+ * a custom monthly price within bounds. They can also offer a discounted
+ * annual plan. Creators with membership tiers price each tier separately
+ * (MembershipTier.priceCents); tiers share the creator's annual discount.
+ *
+ * Existing subscribers are grandfathered: Subscription.priceAtPurchase is
+ * what they pay, regardless of later price changes.
+ *
+ * Price bounds and validation schemas live in lib/validations/creator.ts.
+ * Safe to import from client components (no server dependencies).
+ */
+
+import type {
+  BillingInterval,
+  PromoDuration,
+  SubscriptionPriceTier,
+} from "@prisma/client";
+import { priceTierToAmount } from "@/lib/validations/creator";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * CreatorProfile fields that determine pricing
+ */
+export interface CreatorPricingFields {
+  subscriptionPrice: SubscriptionPriceTier;
+  customPriceCents: number | null;
+  annualDiscountPercent: number | null;
+}
+
+export interface CreatorPricing {
+  monthlyCents: number;
+  /** Null when the creator doesn't offer an annual plan */
+  annualCents: number | null;
+  annualDiscountPercent: number | null;
+}
+
+/**
+ * Promo code terms needed to describe its offer
+ */
+export interface PromoOfferTerms {
+  percentOff: number | null;
+  amountOffCents: number | null;
+  duration: PromoDuration;
+  durationInMonths: number | null;
+  trialDays: number | null;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Monthly price in cents (custom price, or the preset tier)
+ */
+export function getMonthlyPriceCents(
+  creator: Pick<CreatorPricingFields, "subscriptionPrice" | "customPriceCents">,
+): number {
+  return (
+    creator.customPriceCents ??
+    priceTierToAmount[creator.subscriptionPrice] * 100
+  );
+}
+
+/**
+ * Annual price in cents, rounded down to a whole dollar
+ *
+ * @returns The annual price, or null if the creator has no annual plan
+ */
+export function getAnnualPriceCents(
+  creator: CreatorPricingFields,
+): number | null {
+  return applyAnnualDiscount(
+    getMonthlyPriceCents(creator),
+    creator.annualDiscountPercent,
+  );
+}
+
+/**
+ * Annual price for a monthly amount, rounded down to a whole dollar
+ */
+function applyAnnualDiscount(
+  monthlyCents: number,
+  annualDiscountPercent: number | null,
+): number | null {
+  if (annualDiscountPercent === null) {
+    return null;
+  }
+
+  const discounted = monthlyCents * 12 * (1 - annualDiscountPercent / 100);
+  return Math.floor(discounted / 100) * 100;
+}
+
+/**
+ * Resolve a creator's full pricing
+ */
+export function getCreatorPricing(
+  creator: CreatorPricingFields,
+): CreatorPricing {
+  return {
+    monthlyCents: getMonthlyPriceCents(creator),
+    annualCents: getAnnualPriceCents(creator),
+    annualDiscountPercent: creator.annualDiscountPercent,
+  };
+}
+
+/**
+ * Price in cents for a billing interval
+ *
+ * @returns The price, or null if the interval isn't offered
+ */
+export function getPriceForInterval(
+  creator: CreatorPricingFields,
+  interval: BillingInterval,
+): number | null {
+  return interval === "year"
+    ? getAnnualPriceCents(creator)
+    : getMonthlyPriceCents(creator);
+}
+
+/**
+ * Price in cents for a membership tier and billing interval
+ *
+ * @returns The price, or null if the creator has no annual plan
+ */
+export function getTierPriceForInterval(
+  tier: { priceCents: number },
+  annualDiscountPercent: number | null,
+  interval: BillingInterval,
+): number | null {
+  return interval === "year"
+    ? applyAnnualDiscount(tier.priceCents, annualDiscountPercent)
+    : tier.priceCents;
+}
+
+/**
+ * Current price in cents for a subscription's tier (or the creator's single
+ * membership when there's no tier) and billing interval
+ *
+ * @returns The price, or null if the interval isn't offered
+ */
+export function getCurrentPriceForInterval(
+  creator: CreatorPricingFields,
+  tier: { priceCents: number } | null,
+  interval: BillingInterval,
+): number | null {
+  return tier
+    ? getTierPriceForInterval(tier, creator.annualDiscountPercent, interval)
+    : getPriceForInterval(creator, interval);
+}
+
+/**
+ * Format cents for display, dropping ".00" for whole dollars
+ *
+ * Examples: 1000 -> "$10", 1250 -> "$12.50"
+ */
+export function formatPriceCents(cents: number): string {
+  return cents % 100 === 0 ? `$${cents / 100}` : `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Parse a dollar amount typed into a price field into cents
+ *
+ * Examples: "12" -> 1200, "12.5" -> 1250, "abc" -> null
+ */
+export function parseDollarsToCents(value: string): number | null {
+  if (!/^\d+(\.\d{1,2})?$/.test(value.trim())) {
+    return null;
+  }
+  return Math.round(parseFloat(value) * 100);
+}
+
+/**
+ * Short billing interval suffix ("/month" or "/year")
+ */
+export function formatIntervalSuffix(interval: BillingInterval): string {
+  return interval === "year" ? "/year" : "/month";
+}
+
+/**
+ * Monthly price in the { amount, cents } shape used by paywall responses
+ *
+ * Example: { amount: "$10", cents: 1000 }
+ */
+export function getPriceDisplay(
+  creator: Pick<CreatorPricingFields, "subscriptionPrice" | "customPriceCents">,
+): { amount: string; cents: number } {
+  const cents = getMonthlyPriceCents(creator);
+  return { amount: formatPriceCents(cents), cents };
+}
+
+/**
+ * Free trial label
+ *
+ * Example: 14 -> "14-day free trial"
+ */
+export function formatTrialLabel(days: number): string {
+  return `${days}-day free trial`;
+}
+
+/**
+ * Describe a promo code's offer
+ *
+ * Examples: "50% off for 3 months", "$5 off your first payment + 30-day
+ * free trial"
+ */
+export function describePromoOffer(terms: PromoOfferTerms): string {
+  const parts: string[] = [];
+
+  const discount = terms.percentOff
+    ? `${terms.percentOff}% off`
+    : terms.amountOffCents
+      ? `${formatPriceCents(terms.amountOffCents)} off`
+      : null;
+
+  if (discount) {
+    if (terms.duration === "forever") {
+      parts.push(`${discount} every payment`);
+    } else if (terms.duration === "repeating" && terms.durationInMonths) {
+      const months = terms.durationInMonths;
+      parts.push(`${discount} for ${months} month${months === 1 ? "" : "s"}`);
+    } else {
+      parts.push(`${discount} your first payment`);
+    }
+  }
+
+  if (terms.trialDays) {
+    parts.push(formatTrialLabel(terms.trialDays));
+  }
+
+  return parts.join(" + ");
+}
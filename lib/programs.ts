@@ -0,0 +1,230 @@
+/**
+ * Program Journeys
+ *
+ * A program can run as a guided journey, like a 21-day challenge: a user
+ * starts it by enrolling, and each item unlocks unlockOffsetDays after
+ * they started. Progress rolls up the user's completed views of the
+ * program's published items, and the enrollment is marked complete once
+ * every item is done.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Content fields that determine when a program item unlocks
+ */
+export const programScheduleSelect = {
+  id: true,
+  programId: true,
+  unlockOffsetDays: true,
+} satisfies Prisma.ContentSelect;
+
+export interface ProgramItemSchedule {
+  id: string;
+  programId: string | null;
+  /** Days after the user starts the program (null or 0 = from the start) */
+  unlockOffsetDays: number | null;
+}
+
+/**
+ * A program item the user can't open yet
+ */
+export interface ProgramItemLock {
+  programId: string;
+  /** When the item unlocks; null until the user starts the program */
+  unlocksAt: Date | null;
+}
+
+/**
+ * When an item unlocks for a user who started its program at startedAt
+ */
+export function getUnlockDate(
+  startedAt: Date,
+  unlockOffsetDays: number | null,
+): Date {
+  return new Date(startedAt.getTime() + (unlockOffsetDays ?? 0) * DAY_MS);
+}
+
+/**
+ * Program items that haven't unlocked yet for a user
+ * Items outside a program or available from the start are never locked.
+ *
+ * @returns Locks keyed by content ID, for locked items only
+ */
+export async function getProgramItemLocks(
+  userId: string | undefined,
+  items: ProgramItemSchedule[],
+  now: Date = new Date(),
+): Promise<Map<string, ProgramItemLock>> {
+  const locks = new Map<string, ProgramItemLock>();
+
+  const delayed = items.filter(
+    (item) => item.programId !== null && (item.unlockOffsetDays ?? 0) > 0,
+  );
+  if (delayed.length === 0) {
+    return locks;
+  }
+
+  const programIds = [...new Set(delayed.map((item) => item.programId!))];
+  const enrollments = userId
+    ? await prisma.programEnrollment.findMany({
+        where: { userId, programId: { in: programIds } },
+        select: { programId: true, startedAt: true },
+      })
+    : [];
+  const startDates = new Map(
+    enrollments.map((enrollment) => [
+      enrollment.programId,
+      enrollment.startedAt,
+    ]),
+  );
+
+  for (const item of delayed) {
+    const startedAt = startDates.get(item.programId!);
+    const unlocksAt = startedAt
+      ? getUnlockDate(startedAt, item.unlockOffsetDays)
+      : null;
+
+    if (!unlocksAt || unlocksAt > now) {
+      locks.set(item.id, { programId: item.programId!, unlocksAt });
+    }
+  }
+
+  return locks;
+}
+
+/**
+ * Whether a program item is still locked for a user
+ *
+ * @returns The lock, or null if the item is available
+ */
+export async function getProgramItemLock(
+  userId: string | undefined,
+  item: ProgramItemSchedule,
+): Promise<ProgramItemLock | null> {
+  const locks = await getProgramItemLocks(userId, [item]);
+  return locks.get(item.id) ?? null;
+}
+
+/**
+ * Start a program for a user
+ * Starting a program again keeps the original start date.
+ */
+export async function enrollInProgram(userId: string, programId: string) {
+  return prisma.programEnrollment.upsert({
+    where: { userId_programId: { userId, programId } },
+    create: { userId, programId },
+    update: {},
+    select: { startedAt: true, completedAt: true },
+  });
+}
+
+/**
+ * A user's progress through a program: each published item in order, when
+ * it unlocks, and whether they've completed it
+ */
+export async function getProgramProgress(
+  userId: string,
+  programId: string,
+  now: Date = new Date(),
+) {
+  const [enrollment, items] = await Promise.all([
+    prisma.programEnrollment.findUnique({
+      where: { userId_programId: { userId, programId } },
+      select: { startedAt: true, completedAt: true },
+    }),
+    prisma.content.findMany({
+      where: { programId, status: "published", deletedAt: null },
+      orderBy: { sortOrder: "asc" },
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        thumbnailUrl: true,
+        unlockOffsetDays: true,
+      },
+    }),
+  ]);
+
+  const completedViews = await prisma.contentView.findMany({
+    where: {
+      userId,
+      contentId: { in: items.map((item) => item.id) },
+      completedAt: { not: null },
+    },
+    orderBy: { completedAt: "asc" },
+    select: { contentId: true, completedAt: true },
+  });
+
+  // A content item can have more than one view row; keep the first finish
+  const completedAt = new Map<string, Date>();
+  for (const view of completedViews) {
+    if (!completedAt.has(view.contentId)) {
+      completedAt.set(view.contentId, view.completedAt!);
+    }
+  }
+
+  const progressItems = items.map((item) => {
+    const unlockOffsetDays = item.unlockOffsetDays ?? 0;
+    const unlocksAt = enrollment
+      ? getUnlockDate(enrollment.startedAt, unlockOffsetDays)
+      : null;
+
+    return {
+      ...item,
+      unlockOffsetDays,
+      unlocksAt,
+      isUnlocked: unlockOffsetDays === 0 || (!!unlocksAt && unlocksAt <= now),
+      completedAt: completedAt.get(item.id) ?? null,
+    };
+  });
+
+  return {
+    enrollment,
+    items: progressItems,
+    completedCount: completedAt.size,
+  };
+}
+
+export type ProgramProgress = Awaited<ReturnType<typeof getProgramProgress>>;
+export type ProgramProgressItem = ProgramProgress["items"][number];
+
+/**
+ * Mark a user's program complete once they've completed every published
+ * item in it. Called when a view of one of its items is completed.
+ */
+export async function updateProgramCompletion(
+  userId: string,
+  contentId: string,
+): Promise<void> {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    select: { programId: true },
+  });
+  if (!content?.programId) return;
+
+  const programId = content.programId;
+  const enrollment = await prisma.programEnrollment.findUnique({
+    where: { userId_programId: { userId, programId } },
+    select: { id: true, completedAt: true },
+  });
+  if (!enrollment || enrollment.completedAt) return;
+
+  const remaining = await prisma.content.count({
+    where: {
+      programId,
+      status: "published",
+      deletedAt: null,
+      views: { none: { userId, completedAt: { not: null } } },
+    },
+  });
+  if (remaining > 0) return;
+
+  await prisma.programEnrollment.update({
+    where: { id: enrollment.id },
+    data: { completedAt: new Date() },
+  });
+}
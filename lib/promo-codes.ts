@@ -0,0 +1,109 @@
+/**
+ * Promo Code Helpers
+ *
+ * Creators hand out promo codes for a discount (backed by a Stripe coupon
+ * and promotion code), a different free trial length, or both. Codes are
+ * looked up per creator and applied by the subscribe route, so the same
+ * code can exist for several creators without clashing.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Promo code fields shown to the creator managing their codes
+ */
+export const creatorPromoCodeSelect = {
+  id: true,
+  code: true,
+  percentOff: true,
+  amountOffCents: true,
+  duration: true,
+  durationInMonths: true,
+  trialDays: true,
+  maxRedemptions: true,
+  redemptionCount: true,
+  expiresAt: true,
+  archivedAt: true,
+  createdAt: true,
+} satisfies Prisma.PromoCodeSelect;
+
+type CreatorPromoCode = Prisma.PromoCodeGetPayload<{
+  select: typeof creatorPromoCodeSelect;
+}>;
+
+/**
+ * Format a promo code for the creator promo code API
+ */
+export function formatCreatorPromoCode(promoCode: CreatorPromoCode) {
+  return {
+    ...promoCode,
+    expiresAt: promoCode.expiresAt?.toISOString() ?? null,
+    archivedAt: promoCode.archivedAt?.toISOString() ?? null,
+    createdAt: promoCode.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Why a promo code can't be used, or null if it can
+ */
+export function getPromoCodeUnavailableReason(
+  promoCode: Pick<
+    CreatorPromoCode,
+    "archivedAt" | "expiresAt" | "maxRedemptions" | "redemptionCount"
+  >,
+  now = new Date(),
+): string | null {
+  if (promoCode.archivedAt) {
+    return "This promo code is no longer active";
+  }
+  if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+    return "This promo code has expired";
+  }
+  if (
+    promoCode.maxRedemptions !== null &&
+    promoCode.redemptionCount >= promoCode.maxRedemptions
+  ) {
+    return "This promo code has been fully redeemed";
+  }
+  return null;
+}
+
+/**
+ * Look up a creator's promo code by the code a subscriber typed
+ *
+ * @returns The code (or null if the creator has no such code) and, when it
+ * can't be used, the reason why
+ */
+export async function findPromoCode(creatorId: string, code: string) {
+  const promoCode = await prisma.promoCode.findUnique({
+    where: {
+      creatorId_code: { creatorId, code: code.trim().toUpperCase() },
+    },
+    select: {
+      ...creatorPromoCodeSelect,
+      stripePromotionCodeId: true,
+    },
+  });
+
+  if (!promoCode) {
+    return { promoCode: null, unavailableReason: "Promo code not found" };
+  }
+
+  return {
+    promoCode,
+    unavailableReason: getPromoCodeUnavailableReason(promoCode),
+  };
+}
+
+/**
+ * Count a completed checkout against its promo code
+ */
+export async function recordPromoCodeRedemption(
+  promoCodeId: string,
+): Promise<void> {
+  await prisma.promoCode.updateMany({
+    where: { id: promoCodeId },
+    data: { redemptionCount: { increment: 1 } },
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * One-time Purchase Helpers
+ *
+ * Lookups for pay-per-view access. A purchase of a program unlocks every
+ * piece of content in it; a purchase of a single piece unlocks just that.
+ * Purchases don't expire, only refunds and lost disputes revoke them.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Check whether a user has bought a piece of content, either directly or
+ * as part of a purchased program
+ */
+export async function hasPurchasedContent(
+  userId: string,
+  contentId: string,
+): Promise<boolean> {
+  const purchase = await prisma.purchase.findFirst({
+    where: {
+      userId,
+      status: "completed",
+      OR: [
+        { contentId },
+        { program: { content: { some: { id: contentId } } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return !!purchase;
+}
+
+/**
+ * Check whether a user has bought a program
+ */
+export async function hasPurchasedProgram(
+  userId: string,
+  programId: string,
+): Promise<boolean> {
+  const purchase = await prisma.purchase.findFirst({
+    where: { userId, programId, status: "completed" },
+    select: { id: true },
+  });
+
+  return !!purchase;
+}
+
+/**
+ * Find which of the given content items a user has bought
+ * Used by batch access checks to avoid N+1 queries
+ *
+ * @returns IDs of purchased content
+ */
+export async function getPurchasedContentIds(
+  userId: string,
+  contents: { id: string; programId: string | null }[],
+): Promise<Set<string>> {
+  const purchased = new Set<string>();
+
+  if (contents.length === 0) {
+    return purchased;
+  }
+
+  const contentIds = contents.map((c) => c.id);
+  const programIds = [
+    ...new Set(contents.flatMap((c) => (c.programId ? [c.programId] : []))),
+  ];
+
+  const purchases = await prisma.purchase.findMany({
+    where: {
+      userId,
+      status: "completed",
+      OR: [
+        { contentId: { in: contentIds } },
+        ...(programIds.length > 0 ? [{ programId: { in: programIds } }] : []),
+      ],
+    },
+    select: { contentId: true, programId: true },
+  });
+
+  const purchasedPrograms = new Set(purchases.map((p) => p.programId));
+
+  for (const purchase of purchases) {
+    if (purchase.contentId) purchased.add(purchase.contentId);
+  }
+  for (const content of contents) {
+    if (content.programId && purchasedPrograms.has(content.programId)) {
+      purchased.add(content.id);
+    }
+  }
+
+  return purchased;
+}
+
+/**
+ * Revoke purchases paid by a PaymentIntent (after a refund or lost dispute)
+ *
+ * @returns The revoked purchases, for logging and notifications
+ */
+export async function revokePurchasesForPaymentIntent(
+  paymentIntentId: string | null,
+): Promise<{ id: string; userId: string; creatorId: string }[]> {
+  if (!paymentIntentId) return [];
+
+  const purchases = await prisma.purchase.findMany({
+    where: { stripePaymentIntentId: paymentIntentId, status: "completed" },
+    select: { id: true, userId: true, creatorId: true },
+  });
+
+  if (purchases.length === 0) return [];
+
+  await prisma.purchase.updateMany({
+    where: { id: { in: purchases.map((p) => p.id) } },
+    data: { status: "refunded" },
+  });
+
+  return purchases;
+}
@@ -0,0 +1,242 @@
+/**
+ * Web Push
+ *
+ * Sends notifications to browsers that registered a push subscription
+ * (see /api/user/push-subscriptions and public/sw.js), using the Web Push
+ * protocol directly: requests are signed with the app's VAPID key
+ * (RFC 8292) and payloads are encrypted for each browser (RFC 8291).
+ *
+ * Push is skipped if the VAPID keys aren't configured. Like realtime
+ * events, sending never throws - push is best effort, and the notification
+ * is still in the user's notification list.
+ *
+ * Generate VAPID keys with `npx web-push generate-vapid-keys` and set
+ * NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a
+ * mailto: or https: URL push services can use to contact us).
+ */
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import type { NotificationType } from "@prisma/client";
+
+// How long push services keep an undelivered push (seconds)
+const PUSH_TTL = 24 * 60 * 60;
+
+// VAPID tokens are valid for up to 24 hours; refresh well before that
+const VAPID_TOKEN_TTL = 12 * 60 * 60;
+
+// Encrypted record size advertised in the payload header
+const RECORD_SIZE = 4096;
+
+/**
+ * The notification shown by the service worker
+ */
+export interface PushPayload {
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Page to open when the notification is clicked */
+  link: string | null;
+}
+
+interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Check if web push is configured
+ */
+export function isPushConfigured(): boolean {
+  return !!(
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY &&
+    process.env.VAPID_PRIVATE_KEY &&
+    process.env.VAPID_SUBJECT
+  );
+}
+
+/**
+ * Push a notification to every browser the users registered
+ *
+ * @returns The number of browsers the push was accepted for
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  payload: PushPayload,
+): Promise<number> {
+  if (userIds.length === 0 || !isPushConfigured()) return 0;
+
+  try {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: { in: userIds } },
+      select: { id: true, endpoint: true, p256dh: true, auth: true },
+    });
+
+    const body = JSON.stringify(payload);
+    const results = await Promise.all(
+      subscriptions.map(async (subscription) => ({
+        id: subscription.id,
+        status: await sendPush(subscription, body),
+      })),
+    );
+
+    // The browser unsubscribed or the subscription expired
+    const expiredIds = results
+      .filter((result) => result.status === 404 || result.status === 410)
+      .map((result) => result.id);
+    if (expiredIds.length > 0) {
+      await prisma.pushSubscription.deleteMany({
+        where: { id: { in: expiredIds } },
+      });
+    }
+
+    return results.filter((result) => result.status === 201).length;
+  } catch (error) {
+    console.error("Error sending push notifications:", error);
+    return 0;
+  }
+}
+
+/**
+ * Send an encrypted push to one browser
+ *
+ * @returns The push service's response status, or null if it couldn't
+ * be reached
+ */
+async function sendPush(
+  target: PushTarget,
+  payload: string,
+): Promise<number | null> {
+  try {
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: getVapidAuthorization(target.endpoint),
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(PUSH_TTL),
+      },
+      body: new Uint8Array(encryptPayload(target, payload)),
+    });
+
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      console.error(
+        `Push service rejected a push (${response.status}):`,
+        await response.text(),
+      );
+    }
+
+    return response.status;
+  } catch (error) {
+    console.error("Error sending push:", error);
+    return null;
+  }
+}
+
+/**
+ * Build the VAPID Authorization header for a push service (RFC 8292)
+ */
+function getVapidAuthorization(endpoint: string): string {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!;
+  const header = { typ: "JWT", alg: "ES256" };
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL,
+    sub: process.env.VAPID_SUBJECT!,
+  };
+
+  const unsigned = `${toBase64Url(JSON.stringify(header))}.${toBase64Url(
+    JSON.stringify(claims),
+  )}`;
+  const signature = sign("sha256", Buffer.from(unsigned), {
+    key: getVapidPrivateKey(),
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${unsigned}.${signature.toString("base64url")}, k=${publicKey}`;
+}
+
+/**
+ * Load the VAPID private key from its raw base64url form
+ */
+function getVapidPrivateKey() {
+  // The public key is an uncompressed P-256 point: 0x04 || x || y
+  const publicKey = Buffer.from(
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    "base64url",
+  );
+
+  return createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: process.env.VAPID_PRIVATE_KEY!,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+}
+
+/**
+ * Encrypt a payload for a browser's push subscription (RFC 8291)
+ */
+function encryptPayload(target: PushTarget, payload: string): Buffer {
+  const userAgentPublicKey = Buffer.from(target.p256dh, "base64url");
+  const authSecret = Buffer.from(target.auth, "base64url");
+
+  // A fresh key pair and salt for every message
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(
+    salt,
+    ikm,
+    Buffer.from("Content-Encoding: aes128gcm\0"),
+    16,
+  );
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  // A single record, ended with the last-record delimiter
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(payload)),
+    cipher.update(Buffer.from([2])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number) {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+function toBase64Url(value: string): string {
+  return Buffer.from(value).toString("base64url");
+}
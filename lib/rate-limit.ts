@@ -225,3 +225,12 @@ export const reportRateLimiter = createRateLimiter({
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 10,
 });
+
+/**
+ * Subscriber onboarding rate limiter
+ * 30 requests per minute per user to prevent abuse of the recommendation engine
+ */
+export const onboardingRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 30,
+});
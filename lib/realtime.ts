@@ -0,0 +1,213 @@
+/**
+ * Realtime Events
+ *
+ * Per-user event channels streamed to the browser over Server-Sent Events
+ * (see /api/realtime). Events go through Redis pub/sub so that whichever
+ * server instance holds a user's stream receives them. Falls back to an
+ * in-memory bus if Redis is not configured, which only reaches streams
+ * held by the same process (dev mode).
+ *
+ * Publishing never throws - realtime delivery is best effort, and pages
+ * load the same data from the database when they're opened.
+ */
+import { redis } from "@/lib/redis";
+import type { MessageAttachmentInfo } from "@/lib/message-attachments";
+import type { NotificationType } from "@prisma/client";
+
+const CHANNEL_PREFIX = "realtime:user:";
+
+// Upper bound on commands sent in a single pipeline request
+const PUBLISH_BATCH_SIZE = 500;
+
+/**
+ * The other side of a conversation, as shown in inboxes and threads
+ */
+export interface RealtimeParticipant {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  handle: string | null;
+  isCreator: boolean;
+}
+
+/**
+ * A message delivered to its receiver
+ */
+export interface RealtimeMessage {
+  id: string;
+  content: string;
+  isBroadcast: boolean;
+  attachment: MessageAttachmentInfo | null;
+  createdAt: string;
+  sender: RealtimeParticipant;
+}
+
+/**
+ * A notification, in the shape the notification bell renders
+ */
+export interface RealtimeNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+/**
+ * Events pushed to a user's open streams
+ *
+ * - message.new: the user received a direct message or broadcast
+ * - message.read: messages the user sent were read by their receiver
+ * - notification.new: an in-app notification was created for the user
+ */
+export type RealtimeEvent =
+  | { type: "message.new"; message: RealtimeMessage }
+  | { type: "message.read"; readerId: string; messageIds: string[] }
+  | { type: "notification.new"; notification: RealtimeNotification };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+// Keep the in-memory bus on globalThis so hot reloads and separately
+// bundled routes share it
+const globalForRealtime = globalThis as unknown as {
+  realtimeListeners: Map<string, Set<RealtimeListener>> | undefined;
+};
+
+const localListeners =
+  globalForRealtime.realtimeListeners ??
+  new Map<string, Set<RealtimeListener>>();
+globalForRealtime.realtimeListeners = localListeners;
+
+function getChannel(userId: string): string {
+  return `${CHANNEL_PREFIX}${userId}`;
+}
+
+/**
+ * Format a user for realtime payloads, preferring their creator profile
+ */
+export function toRealtimeParticipant(user: {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  creatorProfile: {
+    handle: string;
+    displayName: string;
+    avatarUrl: string | null;
+  } | null;
+}): RealtimeParticipant {
+  return {
+    id: user.id,
+    name: user.creatorProfile?.displayName || user.name || "Unknown",
+    avatarUrl: user.creatorProfile?.avatarUrl || user.avatarUrl,
+    handle: user.creatorProfile?.handle || null,
+    isCreator: !!user.creatorProfile,
+  };
+}
+
+/**
+ * Publish events to several users
+ *
+ * @param deliveries - The user each event is for
+ */
+export async function publishToUsers(
+  deliveries: { userId: string; event: RealtimeEvent }[],
+): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  if (!redis) {
+    for (const { userId, event } of deliveries) {
+      localListeners.get(userId)?.forEach((listener) => listener(event));
+    }
+    return;
+  }
+
+  try {
+    for (let i = 0; i < deliveries.length; i += PUBLISH_BATCH_SIZE) {
+      const pipeline = redis.pipeline();
+      for (const { userId, event } of deliveries.slice(
+        i,
+        i + PUBLISH_BATCH_SIZE,
+      )) {
+        pipeline.publish(getChannel(userId), event);
+      }
+      await pipeline.exec();
+    }
+  } catch (error) {
+    console.error("Realtime publish error:", error);
+  }
+}
+
+/**
+ * Publish an event to one user
+ */
+export async function publishToUser(
+  userId: string,
+  event: RealtimeEvent,
+): Promise<void> {
+  await publishToUsers([{ userId, event }]);
+}
+
+/**
+ * Tell senders that their messages were read
+ *
+ * @param readerId - The user who read the messages
+ * @param messages - The messages that were marked as read
+ */
+export async function publishReadReceipts(
+  readerId: string,
+  messages: { id: string; senderId: string }[],
+): Promise<void> {
+  const messageIdsBySender = new Map<string, string[]>();
+  for (const message of messages) {
+    const messageIds = messageIdsBySender.get(message.senderId) ?? [];
+    messageIds.push(message.id);
+    messageIdsBySender.set(message.senderId, messageIds);
+  }
+
+  await publishToUsers(
+    Array.from(messageIdsBySender, ([senderId, messageIds]) => ({
+      userId: senderId,
+      event: { type: "message.read", readerId, messageIds },
+    })),
+  );
+}
+
+/**
+ * Listen for a user's events
+ *
+ * @param userId - The user whose channel to listen on
+ * @param listener - Called with each event
+ * @returns A function that stops listening
+ */
+export function subscribeToUser(
+  userId: string,
+  listener: RealtimeListener,
+): () => void {
+  if (!redis) {
+    const listeners = localListeners.get(userId) ?? new Set();
+    listeners.add(listener);
+    localListeners.set(userId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && localListeners.get(userId) === listeners) {
+        localListeners.delete(userId);
+      }
+    };
+  }
+
+  const subscriber = redis.subscribe<RealtimeEvent>(getChannel(userId));
+  subscriber.on("message", ({ message }) => listener(message));
+  subscriber.on("error", (error) => {
+    console.error("Realtime subscription error:", error);
+  });
+
+  return () => {
+    subscriber.removeAllListeners();
+    subscriber.unsubscribe().catch((error) => {
+      console.error("Realtime unsubscribe error:", error);
+    });
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Creator Recommendation Engine
+ *
+ * Scores active creators against a subscriber's onboarding quiz answers.
+ * Weighted factors (from the onboarding architecture doc):
+ * - Modality match: 40%
+ * - Primary goal match: 30%
+ * - Experience level match: 20%
+ * - Subscriber count (popularity): 10%
+ *
+ * @see docs/subscriber-onboarding-architecture.md
+ */
+
+import type {
+  CreatorCategory,
+  Prisma,
+  SubscriptionPriceTier,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { categoryInfo } from "@/lib/validations/creator";
+import {
+  primaryGoalInfo,
+  type ExperienceLevel,
+  type PrimaryGoal,
+  type QuizAnswers,
+  type WellnessModality,
+} from "@/lib/validations/onboarding";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CreatorRecommendation {
+  creatorId: string;
+  score: number;
+  matchReasons: string[];
+  creator: {
+    id: string;
+    handle: string;
+    displayName: string;
+    avatarUrl: string | null;
+    coverImageUrl: string | null;
+    category: CreatorCategory;
+    bio: string | null;
+    subscriptionPrice: SubscriptionPriceTier;
+    customPriceCents: number | null;
+    trialEnabled: boolean;
+    isVerified: boolean;
+    subscriberCount: number;
+  };
+}
+
+/**
+ * Creator fields needed for scoring
+ */
+interface ScoringCandidate {
+  category: CreatorCategory;
+  isVerified: boolean;
+  trialEnabled: boolean;
+  subscriberCount: number;
+  freeContentCount: number;
+}
+
+// =============================================================================
+// CATEGORY MAPS
+// =============================================================================
+
+/**
+ * Quiz modality -> creator categories
+ */
+export const MODALITY_CATEGORY_MAP: Record<WellnessModality, CreatorCategory[]> =
+  {
+    breathwork: ["Breathwork"],
+    meditation: ["Meditation", "Mindfulness"],
+    yoga: ["Yoga"],
+    sound_healing: ["SoundHealing"],
+    movement: ["Movement", "Somatic"],
+  };
+
+/**
+ * Primary goal -> creator categories, most relevant first
+ */
+export const GOAL_CATEGORY_MAP: Record<PrimaryGoal, CreatorCategory[]> = {
+  stress_relief: ["StressRelief", "Breathwork", "Meditation"],
+  better_sleep: ["Sleep", "Meditation", "SoundHealing"],
+  anxiety: ["Breathwork", "Meditation", "Somatic"],
+  spiritual_growth: ["Meditation", "Breathwork", "Mindfulness"],
+  physical_wellness: ["Yoga", "Movement", "Somatic"],
+};
+
+/**
+ * Maximum number of candidates scored per request
+ */
+const MAX_CANDIDATES = 50;
+
+/**
+ * Popularity floor so new creators with few subscribers aren't buried
+ */
+const BASE_POPULARITY_SCORE = 0.3;
+
+/**
+ * Default number of recommendations returned
+ */
+export const DEFAULT_RECOMMENDATION_LIMIT = 5;
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Collect the creator categories implied by the user's answers.
+ * Returns an empty list when no category-bearing question was answered.
+ */
+export function getCandidateCategories(
+  answers: QuizAnswers,
+): CreatorCategory[] {
+  const categories = new Set<CreatorCategory>();
+
+  for (const modality of answers.interestedModalities ?? []) {
+    MODALITY_CATEGORY_MAP[modality].forEach((c) => categories.add(c));
+  }
+
+  if (answers.primaryGoal) {
+    GOAL_CATEGORY_MAP[answers.primaryGoal].forEach((c) => categories.add(c));
+  }
+
+  return Array.from(categories);
+}
+
+function calculateModalityScore(
+  modalities: WellnessModality[] | undefined,
+  category: CreatorCategory,
+): number {
+  if (!modalities || modalities.length === 0) return 0.5; // Neutral if not specified
+
+  const matches = modalities.some((modality) =>
+    MODALITY_CATEGORY_MAP[modality].includes(category),
+  );
+  return matches ? 1.0 : 0.2; // Low but not zero - allow discovery
+}
+
+function calculateGoalScore(
+  goal: PrimaryGoal | undefined,
+  category: CreatorCategory,
+): number {
+  if (!goal) return 0.5;
+
+  const index = GOAL_CATEGORY_MAP[goal].indexOf(category);
+  if (index === -1) return 0.3;
+
+  // Primary match gets full score, secondary matches get partial
+  return index === 0 ? 1.0 : 0.7;
+}
+
+/**
+ * Beginners do best with creators they can try before paying,
+ * so free content or a trial counts as "beginner-friendly"
+ */
+function isBeginnerFriendly(candidate: ScoringCandidate): boolean {
+  return candidate.freeContentCount > 0 || candidate.trialEnabled;
+}
+
+function calculateExperienceScore(
+  level: ExperienceLevel | undefined,
+  candidate: ScoringCandidate,
+): number {
+  switch (level) {
+    case "beginner":
+      return isBeginnerFriendly(candidate) ? 1.0 : 0.5;
+    case "occasional":
+      return 0.8; // Most creators work for occasional practitioners
+    case "regular":
+    case "advanced":
+      return 0.7; // No penalty for any creator
+    default:
+      return 0.5;
+  }
+}
+
+/**
+ * Popularity score on a log scale to prevent runaway effects:
+ * up to 15 subscribers = 0.3, 100 = 0.5, 1,000 = 0.75, 10,000 = 1.0
+ * Never decreases as subscribers go up.
+ */
+function calculatePopularityScore(subscriberCount: number): number {
+  if (subscriberCount <= 0) return BASE_POPULARITY_SCORE;
+  return Math.min(
+    1.0,
+    Math.max(BASE_POPULARITY_SCORE, Math.log10(subscriberCount) / 4),
+  );
+}
+
+/**
+ * Score a single creator against quiz answers
+ *
+ * @returns Score between 0 and 1 plus human-readable match reasons
+ */
+export function calculateCreatorScore(
+  answers: QuizAnswers,
+  candidate: ScoringCandidate,
+): { score: number; matchReasons: string[] } {
+  const matchReasons: string[] = [];
+
+  const modalityScore = calculateModalityScore(
+    answers.interestedModalities,
+    candidate.category,
+  );
+  if (modalityScore > 0.7) {
+    matchReasons.push(
+      `Specializes in ${categoryInfo[candidate.category].label}`,
+    );
+  }
+
+  const goalScore = calculateGoalScore(answers.primaryGoal, candidate.category);
+  if (answers.primaryGoal && goalScore > 0.7) {
+    matchReasons.push(
+      `Great for ${primaryGoalInfo[answers.primaryGoal].label.toLowerCase()}`,
+    );
+  }
+
+  const experienceScore = calculateExperienceScore(
+    answers.experienceLevel,
+    candidate,
+  );
+  if (answers.experienceLevel === "beginner" && isBeginnerFriendly(candidate)) {
+    matchReasons.push("Beginner-friendly");
+  }
+
+  const popularityScore = calculatePopularityScore(candidate.subscriberCount);
+  if (candidate.isVerified) {
+    matchReasons.push("Verified creator");
+  }
+
+  const score =
+    modalityScore * 0.4 +
+    goalScore * 0.3 +
+    experienceScore * 0.2 +
+    popularityScore * 0.1;
+
+  return { score, matchReasons };
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+const creatorSelect = {
+  id: true,
+  handle: true,
+  displayName: true,
+  avatarUrl: true,
+  coverImageUrl: true,
+  category: true,
+  bio: true,
+  subscriptionPrice: true,
+  customPriceCents: true,
+  trialEnabled: true,
+  isVerified: true,
+  _count: {
+    select: {
+      subscriptions: { where: { status: { in: ["active", "trialing"] } } },
+      content: { where: { status: "published", isFree: true } },
+    },
+  },
+} satisfies Prisma.CreatorProfileSelect;
+
+/**
+ * Rank active creators for a set of quiz answers
+ *
+ * Creators in matching categories are scored first. If fewer than `limit`
+ * match (or nothing was answered), the list is topped up with the most
+ * popular active creators so users never land on an empty page.
+ *
+ * @param answers - Quiz answers (all optional)
+ * @param limit - Maximum number of recommendations
+ * @param excludeCreatorIds - Creators to leave out (e.g. already subscribed)
+ */
+export async function generateRecommendations(
+  answers: QuizAnswers,
+  limit: number = DEFAULT_RECOMMENDATION_LIMIT,
+  excludeCreatorIds: string[] = [],
+): Promise<CreatorRecommendation[]> {
+  const candidateCategories = getCandidateCategories(answers);
+
+  const baseWhere = {
+    status: "active" as const,
+    stripeOnboardingComplete: true,
+    id: excludeCreatorIds.length > 0 ? { notIn: excludeCreatorIds } : undefined,
+  };
+
+  const matched = await prisma.creatorProfile.findMany({
+    where: {
+      ...baseWhere,
+      category:
+        candidateCategories.length > 0
+          ? { in: candidateCategories }
+          : undefined,
+    },
+    select: creatorSelect,
+    orderBy: [{ isFeatured: "desc" }, { createdAt: "asc" }],
+    take: MAX_CANDIDATES,
+  });
+
+  // Empty recommendations fallback: top up with popular creators
+  let candidates = matched;
+  if (matched.length < limit) {
+    const fallback = await prisma.creatorProfile.findMany({
+      where: {
+        ...baseWhere,
+        id: { notIn: [...excludeCreatorIds, ...matched.map((c) => c.id)] },
+      },
+      select: creatorSelect,
+      orderBy: { subscriptions: { _count: "desc" } },
+      take: limit - matched.length,
+    });
+    candidates = [...matched, ...fallback];
+  }
+
+  const scored = candidates.map((creator) => {
+    const subscriberCount = creator._count.subscriptions;
+    const { score, matchReasons } = calculateCreatorScore(answers, {
+      category: creator.category,
+      isVerified: creator.isVerified,
+      trialEnabled: creator.trialEnabled,
+      subscriberCount,
+      freeContentCount: creator._count.content,
+    });
+
+    return {
+      creatorId: creator.id,
+      score: Math.round(score * 1000) / 1000,
+      matchReasons,
+      creator: {
+        id: creator.id,
+        handle: creator.handle,
+        displayName: creator.displayName,
+        avatarUrl: creator.avatarUrl,
+        coverImageUrl: creator.coverImageUrl,
+        category: creator.category,
+        bio: creator.bio,
+        subscriptionPrice: creator.subscriptionPrice,
+        customPriceCents: creator.customPriceCents,
+        trialEnabled: creator.trialEnabled,
+        isVerified: creator.isVerified,
+        subscriberCount,
+      },
+    };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+
+  return scored.slice(0, limit);
+}
+
+/**
+ * Hydrate a user's stored recommendations for display on /home
+ *
+ * Preserves the stored ranking, drops creators that are no longer active,
+ * and hides creators the user already subscribes to.
+ *
+ * @param userId - Internal user ID
+ */
+export async function getStoredRecommendations(
+  userId: string,
+): Promise<CreatorRecommendation["creator"][]> {
+  const onboarding = await prisma.userOnboarding.findUnique({
+    where: { userId },
+    select: { recommendedCreatorIds: true },
+  });
+
+  if (!onboarding || onboarding.recommendedCreatorIds.length === 0) {
+    return [];
+  }
+
+  const [creators, subscriptions] = await Promise.all([
+    prisma.creatorProfile.findMany({
+      where: {
+        id: { in: onboarding.recommendedCreatorIds },
+        status: "active",
+      },
+      select: creatorSelect,
+    }),
+    prisma.subscription.findMany({
+      where: {
+        userId,
+        creatorId: { in: onboarding.recommendedCreatorIds },
+        status: { in: ["active", "trialing"] },
+      },
+      select: { creatorId: true },
+    }),
+  ]);
+
+  const subscribed = new Set(subscriptions.map((s) => s.creatorId));
+  const byId = new Map(creators.map((c) => [c.id, c]));
+
+  return onboarding.recommendedCreatorIds
+    .map((id) => byId.get(id))
+    .filter((c): c is NonNullable<typeof c> => !!c && !subscribed.has(c.id))
+    .map(({ _count, ...creator }) => ({
+      ...creator,
+      subscriberCount: _count.subscriptions,
+    }));
+}
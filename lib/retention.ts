@@ -0,0 +1,173 @@
+/**
+ * Retention Helpers
+ *
+ * Before canceling, subscribers answer a short survey and may be shown
+ * their creator's retention offers: a discount on the next invoice or a
+ * pause of a few months. Each subscription can take one offer. After a
+ * subscription ends, the subscriber gets a win-back email once the
+ * creator's chosen number of days has passed, sent by the
+ * /api/cron/send-win-back-emails processor.
+ */
+
+import type {
+  BillingInterval,
+  CancellationCause,
+  SubscriptionStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendWinBackEmail } from "@/lib/email";
+import { getPauseDates } from "@/lib/subscription-pause";
+
+// Win-back emails sent per cron run
+const WIN_BACK_BATCH_SIZE = 100;
+
+/**
+ * Offers a subscriber can take instead of canceling
+ */
+export interface RetentionOffers {
+  /** Percent off the next invoice */
+  discount: { percentOff: number } | null;
+  /** Pause length, when it would start, and when billing and access resume */
+  pause: { months: number; startsAt: string; resumesAt: string } | null;
+}
+
+/**
+ * The creator's retention offers this subscription can still take
+ *
+ * Offers are for monthly Stripe subscriptions that haven't taken one
+ * yet. Annual plans are left out since a month's discount or pause doesn't
+ * fit a yearly invoice, and trials can't pause since nothing's been paid.
+ */
+export function getRetentionOffers(
+  subscription: {
+    status: SubscriptionStatus;
+    billingInterval: BillingInterval;
+    stripeSubscriptionId: string | null;
+    giftId: string | null;
+    cancelAtPeriodEnd: boolean;
+    currentPeriodEnd: Date | null;
+    pausedUntil: Date | null;
+    retentionOfferAcceptedAt: Date | null;
+  },
+  creator: {
+    retentionDiscountPercent: number | null;
+    retentionPauseMonths: number | null;
+  },
+): RetentionOffers {
+  const eligible =
+    (subscription.status === "active" ||
+      subscription.status === "trialing") &&
+    subscription.billingInterval === "month" &&
+    !!subscription.stripeSubscriptionId &&
+    !subscription.giftId &&
+    !subscription.cancelAtPeriodEnd &&
+    !subscription.pausedUntil &&
+    !subscription.retentionOfferAcceptedAt;
+
+  if (!eligible) {
+    return { discount: null, pause: null };
+  }
+
+  const { retentionDiscountPercent, retentionPauseMonths } = creator;
+  const pauseDates =
+    retentionPauseMonths &&
+    subscription.status === "active" &&
+    subscription.currentPeriodEnd
+      ? getPauseDates(subscription.currentPeriodEnd, retentionPauseMonths)
+      : null;
+
+  return {
+    discount: retentionDiscountPercent
+      ? { percentOff: retentionDiscountPercent }
+      : null,
+    pause:
+      retentionPauseMonths && pauseDates
+        ? {
+            months: retentionPauseMonths,
+            startsAt: pauseDates.pauseStartsAt.toISOString(),
+            resumesAt: pauseDates.pausedUntil.toISOString(),
+          }
+        : null,
+  };
+}
+
+/**
+ * When to send the win-back email for a subscription that just ended, or
+ * null if it shouldn't get one
+ *
+ * Subscriptions ended by a refund or lost dispute don't get one.
+ */
+export function getWinBackEmailAt(
+  canceledAt: Date | null,
+  cause: CancellationCause | null,
+  winBackDelayDays: number | null,
+): Date | null {
+  if (!canceledAt || !winBackDelayDays || cause === "refunded") {
+    return null;
+  }
+
+  return new Date(canceledAt.getTime() + winBackDelayDays * 86400000);
+}
+
+/**
+ * Send win-back emails that are due
+ *
+ * Called by the send-win-back-emails cron. Each email is claimed by
+ * clearing winBackEmailAt before sending, so overlapping runs don't send
+ * twice. Subscribers who came back, and creators who are no longer
+ * active, are skipped.
+ *
+ * @returns Number of emails sent
+ */
+export async function sendDueWinBackEmails(
+  now = new Date(),
+): Promise<number> {
+  const due = await prisma.subscription.findMany({
+    where: { status: "canceled", winBackEmailAt: { lte: now } },
+    orderBy: { winBackEmailAt: "asc" },
+    take: WIN_BACK_BATCH_SIZE,
+    select: {
+      id: true,
+      userId: true,
+      creatorId: true,
+      canceledAt: true,
+      creator: {
+        select: { handle: true, displayName: true, status: true },
+      },
+    },
+  });
+
+  let sent = 0;
+
+  for (const subscription of due) {
+    const { count } = await prisma.subscription.updateMany({
+      where: {
+        id: subscription.id,
+        status: "canceled",
+        winBackEmailAt: { not: null },
+      },
+      data: { winBackEmailAt: null },
+    });
+
+    if (count === 0 || subscription.creator.status !== "active") continue;
+
+    const newContentCount = await prisma.content.count({
+      where: {
+        creatorId: subscription.creatorId,
+        status: "published",
+        publishedAt: { gt: subscription.canceledAt ?? now },
+      },
+    });
+
+    const success = await sendWinBackEmail(
+      subscription.userId,
+      subscription.creator.displayName,
+      `/${subscription.creator.handle}`,
+      newContentCount,
+    );
+
+    if (success) sent++;
+  }
+
+  return sent;
+}
@@ -0,0 +1,117 @@
+/**
+ * Scheduled Publishing
+ *
+ * Publishes content and programs once their scheduled time has passed.
+ * Called by the /api/cron/publish-scheduled processor; each run handles a
+ * batch and anything left over is picked up by the next run.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { notifyNewContent } from "@/lib/notifications";
+import { invalidateContentCache } from "@/lib/middleware/subscription-check";
+
+// Maximum items of each kind published per run
+const BATCH_SIZE = 50;
+
+export interface ScheduledPublishResult {
+  contentPublished: number;
+  programsPublished: number;
+}
+
+/**
+ * Publish all content and programs that are due
+ *
+ * Items are published with their scheduled time as publishedAt, so feeds
+ * order them as intended even when a run is late. Items from suspended
+ * creators stay scheduled until the creator is reinstated.
+ */
+export async function publishDueScheduledItems(
+  now: Date = new Date(),
+): Promise<ScheduledPublishResult> {
+  const [contentPublished, programsPublished] = await Promise.all([
+    publishDueContent(now),
+    publishDuePrograms(now),
+  ]);
+
+  return { contentPublished, programsPublished };
+}
+
+async function publishDueContent(now: Date): Promise<number> {
+  const dueContent = await prisma.content.findMany({
+    where: {
+      status: "scheduled",
+      scheduledAt: { lte: now },
+      creator: { status: "active" },
+      // A video re-uploaded after scheduling waits until it's processed
+      OR: [{ type: { not: "video" } }, { mediaStatus: "ready" }],
+    },
+    orderBy: { scheduledAt: "asc" },
+    take: BATCH_SIZE,
+    select: {
+      id: true,
+      title: true,
+      scheduledAt: true,
+      creator: { select: { id: true, displayName: true } },
+    },
+  });
+
+  let published = 0;
+
+  for (const content of dueContent) {
+    // Guard on status so overlapping runs, or a creator unscheduling at
+    // the same moment, can't publish (and notify) twice
+    const { count } = await prisma.content.updateMany({
+      where: { id: content.id, status: "scheduled" },
+      data: {
+        status: "published",
+        publishedAt: content.scheduledAt ?? now,
+        scheduledAt: null,
+      },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    published++;
+    await invalidateContentCache(content.id);
+
+    // Same fan-out as publishing from the editor
+    const { creator } = content;
+    await notifyNewContent(
+      creator.id,
+      creator.displayName,
+      content.title,
+      content.id,
+    ).catch((error) =>
+      console.error("Error sending new content notifications:", error),
+    );
+  }
+
+  return published;
+}
+
+async function publishDuePrograms(now: Date): Promise<number> {
+  const duePrograms = await prisma.program.findMany({
+    where: {
+      publishedAt: null,
+      scheduledAt: { lte: now },
+      creator: { status: "active" },
+    },
+    orderBy: { scheduledAt: "asc" },
+    take: BATCH_SIZE,
+    select: { id: true, scheduledAt: true },
+  });
+
+  let published = 0;
+
+  for (const program of duePrograms) {
+    const { count } = await prisma.program.updateMany({
+      where: { id: program.id, publishedAt: null },
+      data: { publishedAt: program.scheduledAt ?? now, scheduledAt: null },
+    });
+    published += count;
+  }
+
+  return published;
+}
@@ -0,0 +1,486 @@
+/**
+ * Full-Text Search
+ *
+ * Postgres-backed search over creators and content:
+ * - tsvector matching with stemming ("breathing" finds "breathe")
+ * - Joined-word matching ("breath work" finds "Breathwork")
+ * - pg_trgm similarity for typos in names, handles and titles
+ * - Relevance ranking boosted by popularity (creators) and recency (content)
+ * - Highlighted snippets and facet counts
+ *
+ * The tsvector expressions below are mirrored by the GIN expression indexes
+ * in prisma/migrations/*_search_indexes - keep them in sync.
+ */
+
+import { Prisma } from "@prisma/client";
+import type {
+  ContentType,
+  CreatorCategory,
+  SubscriptionPriceTier,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { categoryInfo } from "@/lib/validations/creator";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchTerms {
+  /** Lowercased query with collapsed whitespace */
+  normalized: string;
+  /** Query with all non-alphanumerics removed, for handles and joined words */
+  compact: string;
+  /** Categories whose name matches the query */
+  categories: CreatorCategory[];
+}
+
+export interface CreatorSearchResult {
+  id: string;
+  handle: string;
+  displayName: string;
+  bio: string | null;
+  avatarUrl: string | null;
+  coverImageUrl: string | null;
+  category: CreatorCategory;
+  subscriptionPrice: SubscriptionPriceTier;
+  /** Overrides the tier price when set (cents per month) */
+  customPriceCents: number | null;
+  trialEnabled: boolean;
+  isVerified: boolean;
+  subscriberCount: number;
+  /** HTML-escaped excerpt with matches wrapped in <mark> */
+  snippet: string | null;
+}
+
+export interface ContentSearchResult {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnailUrl: string | null;
+  type: ContentType;
+  duration: number | null;
+  isFree: boolean;
+  publishedAt: Date | null;
+  creator: {
+    handle: string;
+    displayName: string;
+    avatarUrl: string | null;
+  };
+  /** HTML-escaped excerpt with matches wrapped in <mark> */
+  snippet: string | null;
+}
+
+export interface SearchPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface FacetCount<T extends string> {
+  value: T;
+  count: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Minimum pg_trgm word similarity for a typo match (0-1)
+ */
+const WORD_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Sentinels used by ts_headline, replaced with <mark> after HTML escaping
+ */
+const HIGHLIGHT_START = "⟦";
+const HIGHLIGHT_END = "⟧";
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=24, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Weighted creator document. Must match the
+ * "CreatorProfile_search_idx" expression index.
+ */
+const CREATOR_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce(c."displayName", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(c."handle", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(c."bio", '')), 'C')
+)`;
+
+/**
+ * Weighted content document. Must match the
+ * "Content_search_idx" expression index.
+ */
+const CONTENT_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce(ct."title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(ct."description", '')), 'B')
+)`;
+
+// =============================================================================
+// QUERY PREPARATION
+// =============================================================================
+
+function toCompact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Normalize a raw query and find categories it names
+ * (e.g. "sound healing" -> SoundHealing)
+ */
+export function prepareSearchTerms(query: string): SearchTerms {
+  const normalized = query.toLowerCase().trim().replace(/\s+/g, " ");
+  const compact = toCompact(normalized);
+
+  const categories = (Object.keys(categoryInfo) as CreatorCategory[]).filter(
+    (category) => {
+      const label = toCompact(categoryInfo[category].label);
+      return (
+        compact.length >= 4 &&
+        (compact.includes(label) || label.startsWith(compact))
+      );
+    },
+  );
+
+  return { normalized, compact, categories };
+}
+
+/**
+ * Build the tsquery: websearch syntax on the raw query OR'd with a prefix
+ * match on the compacted query, so "breath work" also matches "breathwork"
+ */
+function buildTsQuery(terms: SearchTerms): Prisma.Sql {
+  const websearch = Prisma.sql`websearch_to_tsquery('english', ${terms.normalized})`;
+
+  if (!terms.compact) {
+    return websearch;
+  }
+
+  return Prisma.sql`(${websearch} || to_tsquery('english', ${`${terms.compact}:*`}))`;
+}
+
+/**
+ * Convert a ts_headline result into HTML-safe text with <mark> highlights
+ */
+export function formatSnippet(headline: string | null): string | null {
+  if (!headline) return null;
+
+  const escaped = headline
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+  return escaped
+    .replaceAll(HIGHLIGHT_START, "<mark>")
+    .replaceAll(HIGHLIGHT_END, "</mark>");
+}
+
+// =============================================================================
+// CURSORS
+// =============================================================================
+
+/**
+ * Results are ordered by (score DESC, id ASC), so the cursor carries both
+ */
+interface RankCursor {
+  s: number;
+  id: string;
+}
+
+function encodeCursor(cursor: RankCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a search cursor
+ *
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeSearchCursor(cursor: string): RankCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof parsed?.s === "number" && typeof parsed?.id === "string") {
+      return { s: parsed.s, id: parsed.id };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+function cursorCondition(cursor: RankCursor | null): Prisma.Sql {
+  if (!cursor) return Prisma.sql`TRUE`;
+  return Prisma.sql`(ranked.score < ${cursor.s} OR (ranked.score = ${cursor.s} AND ranked.id > ${cursor.id}))`;
+}
+
+function toPage<T extends { id: string; score: number }, R>(
+  rows: T[],
+  limit: number,
+  map: (row: T) => R,
+): SearchPage<R> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(map),
+    nextCursor:
+      hasMore && last ? encodeCursor({ s: last.score, id: last.id }) : null,
+  };
+}
+
+// =============================================================================
+// CREATORS
+// =============================================================================
+
+/**
+ * Visible creators matching the query (shared by results and facets)
+ */
+function creatorMatchCondition(terms: SearchTerms): Prisma.Sql {
+  const categoryMatch =
+    terms.categories.length > 0
+      ? Prisma.sql`OR c."category"::text = ANY(${terms.categories})`
+      : Prisma.empty;
+
+  return Prisma.sql`
+    c."status" = 'active'
+    AND c."stripeOnboardingComplete" = true
+    AND (
+      ${CREATOR_DOCUMENT} @@ ${buildTsQuery(terms)}
+      OR c."handle" % ${terms.compact}
+      OR c."displayName" % ${terms.normalized}
+      OR word_similarity(${terms.normalized}, c."displayName") > ${WORD_SIMILARITY_THRESHOLD}
+      ${categoryMatch}
+    )
+  `;
+}
+
+/**
+ * Search creators ranked by text relevance, typo similarity, category
+ * match and popularity (log of active subscribers)
+ */
+export async function searchCreators(options: {
+  terms: SearchTerms;
+  limit: number;
+  cursor: RankCursor | null;
+  category?: CreatorCategory;
+}): Promise<SearchPage<CreatorSearchResult>> {
+  const { terms, limit, cursor, category } = options;
+  const tsQuery = buildTsQuery(terms);
+  const categoryBoost =
+    terms.categories.length > 0
+      ? Prisma.sql`CASE WHEN c."category"::text = ANY(${terms.categories}) THEN 0.3 ELSE 0 END`
+      : Prisma.sql`0`;
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      id: string;
+      handle: string;
+      displayName: string;
+      bio: string | null;
+      avatarUrl: string | null;
+      coverImageUrl: string | null;
+      category: CreatorCategory;
+      subscriptionPrice: SubscriptionPriceTier;
+      customPriceCents: number | null;
+      trialEnabled: boolean;
+      isVerified: boolean;
+      subscriberCount: number;
+      score: number;
+      headline: string | null;
+    }>
+  >`
+    SELECT page.*,
+      CASE WHEN page."bio" IS NULL THEN NULL
+        ELSE ts_headline('english', page."bio", ${tsQuery}, ${HEADLINE_OPTIONS})
+      END AS headline
+    FROM (
+      SELECT ranked.* FROM (
+        SELECT
+          c."id", c."handle", c."displayName", c."bio", c."avatarUrl",
+          c."coverImageUrl", c."category", c."subscriptionPrice",
+          c."customPriceCents", c."trialEnabled", c."isVerified",
+          subs.count AS "subscriberCount",
+          ROUND((
+            ts_rank_cd(${CREATOR_DOCUMENT}, ${tsQuery}, 32)
+            + 0.5 * GREATEST(
+                similarity(c."handle", ${terms.compact}),
+                word_similarity(${terms.normalized}, c."displayName")
+              )
+            + ${categoryBoost}
+            + 0.05 * LN(1 + subs.count)
+            + CASE WHEN c."isFeatured" THEN 0.1 ELSE 0 END
+          )::numeric, 6)::float8 AS score
+        FROM "CreatorProfile" c
+        CROSS JOIN LATERAL (
+          SELECT COUNT(*)::int AS count
+          FROM "Subscription" s
+          WHERE s."creatorId" = c."id" AND s."status" IN ('active', 'trialing')
+        ) subs
+        WHERE ${creatorMatchCondition(terms)}
+          ${category ? Prisma.sql`AND c."category" = ${category}::"CreatorCategory"` : Prisma.empty}
+      ) ranked
+      WHERE ${cursorCondition(cursor)}
+      ORDER BY ranked.score DESC, ranked.id ASC
+      LIMIT ${limit + 1}
+    ) page
+    ORDER BY page.score DESC, page.id ASC
+  `;
+
+  return toPage(rows, limit, (row) => ({
+    id: row.id,
+    handle: row.handle,
+    displayName: row.displayName,
+    bio: row.bio,
+    avatarUrl: row.avatarUrl,
+    coverImageUrl: row.coverImageUrl,
+    category: row.category,
+    subscriptionPrice: row.subscriptionPrice,
+    customPriceCents: row.customPriceCents,
+    trialEnabled: row.trialEnabled,
+    isVerified: row.isVerified,
+    subscriberCount: row.subscriberCount,
+    snippet: formatSnippet(row.headline),
+  }));
+}
+
+/**
+ * Count matching creators per category (ignores the category filter so
+ * every facet stays selectable)
+ */
+export async function getCreatorCategoryFacets(
+  terms: SearchTerms,
+): Promise<FacetCount<CreatorCategory>[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ value: CreatorCategory; count: number }>
+  >`
+    SELECT c."category" AS value, COUNT(*)::int AS count
+    FROM "CreatorProfile" c
+    WHERE ${creatorMatchCondition(terms)}
+    GROUP BY c."category"
+    ORDER BY count DESC
+  `;
+
+  return rows;
+}
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+/**
+ * Published content from visible creators matching the query
+ */
+function contentMatchCondition(terms: SearchTerms): Prisma.Sql {
+  return Prisma.sql`
+    ct."status" = 'published'
+    AND cr."status" = 'active'
+    AND cr."stripeOnboardingComplete" = true
+    AND (
+      ${CONTENT_DOCUMENT} @@ ${buildTsQuery(terms)}
+      OR ct."title" % ${terms.normalized}
+      OR word_similarity(${terms.normalized}, ct."title") > ${WORD_SIMILARITY_THRESHOLD}
+    )
+  `;
+}
+
+/**
+ * Search content ranked by text relevance, typo similarity and recency
+ */
+export async function searchContent(options: {
+  terms: SearchTerms;
+  limit: number;
+  cursor: RankCursor | null;
+  contentType?: ContentType;
+}): Promise<SearchPage<ContentSearchResult>> {
+  const { terms, limit, cursor, contentType } = options;
+  const tsQuery = buildTsQuery(terms);
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      id: string;
+      title: string;
+      description: string | null;
+      thumbnailUrl: string | null;
+      type: ContentType;
+      duration: number | null;
+      isFree: boolean;
+      publishedAt: Date | null;
+      creatorHandle: string;
+      creatorDisplayName: string;
+      creatorAvatarUrl: string | null;
+      score: number;
+      headline: string | null;
+    }>
+  >`
+    SELECT page.*,
+      ts_headline(
+        'english',
+        coalesce(page."description", page."title"),
+        ${tsQuery},
+        ${HEADLINE_OPTIONS}
+      ) AS headline
+    FROM (
+      SELECT ranked.* FROM (
+        SELECT
+          ct."id", ct."title", ct."description", ct."thumbnailUrl", ct."type",
+          ct."duration", ct."isFree", ct."publishedAt",
+          cr."handle" AS "creatorHandle",
+          cr."displayName" AS "creatorDisplayName",
+          cr."avatarUrl" AS "creatorAvatarUrl",
+          ROUND((
+            ts_rank_cd(${CONTENT_DOCUMENT}, ${tsQuery}, 32)
+            + 0.5 * word_similarity(${terms.normalized}, ct."title")
+            + 0.1 / (1 + EXTRACT(EPOCH FROM (NOW() - coalesce(ct."publishedAt", ct."createdAt"))) / 2592000)
+          )::numeric, 6)::float8 AS score
+        FROM "Content" ct
+        JOIN "CreatorProfile" cr ON cr."id" = ct."creatorId"
+        WHERE ${contentMatchCondition(terms)}
+          ${contentType ? Prisma.sql`AND ct."type" = ${contentType}::"ContentType"` : Prisma.empty}
+      ) ranked
+      WHERE ${cursorCondition(cursor)}
+      ORDER BY ranked.score DESC, ranked.id ASC
+      LIMIT ${limit + 1}
+    ) page
+    ORDER BY page.score DESC, page.id ASC
+  `;
+
+  return toPage(rows, limit, (row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    thumbnailUrl: row.thumbnailUrl,
+    type: row.type,
+    duration: row.duration,
+    isFree: row.isFree,
+    publishedAt: row.publishedAt,
+    creator: {
+      handle: row.creatorHandle,
+      displayName: row.creatorDisplayName,
+      avatarUrl: row.creatorAvatarUrl,
+    },
+    snippet: formatSnippet(row.headline),
+  }));
+}
+
+/**
+ * Count matching content per type (ignores the type filter)
+ */
+export async function getContentTypeFacets(
+  terms: SearchTerms,
+): Promise<FacetCount<ContentType>[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ value: ContentType; count: number }>
+  >`
+    SELECT ct."type" AS value, COUNT(*)::int AS count
+    FROM "Content" ct
+    JOIN "CreatorProfile" cr ON cr."id" = ct."creatorId"
+    WHERE ${contentMatchCondition(terms)}
+    GROUP BY ct."type"
+    ORDER BY count DESC
+  `;
+
+  return rows;
+}
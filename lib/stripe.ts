@@ -158,75 +158,83 @@ export function isOnboardingComplete(account: Stripe.Account): boolean {
 }
 
 /**
- * Subscription price tiers in cents
- * Matches Prisma SubscriptionPriceTier enum
+ * Cache for Stripe Price IDs to avoid repeated lookups
+ * Key: price lookup key (see getPriceLookupKey)
  */
-export const PRICE_TIER_TO_CENTS: Record<string, number> = {
-  TIER_500: 500, // $5/month
-  TIER_1000: 1000, // $10/month
-  TIER_2000: 2000, // $20/month
-  TIER_3000: 3000, // $30/month
-};
+const priceIdCache = new Map<string, string>();
 
 /**
- * Cache for Stripe Price IDs to avoid repeated lookups
- * Key: `${tier}_platform` for platform prices (destination charges)
+ * Stable lookup key for a platform price, e.g. "bwm_month_1250"
+ * Tier prices are scoped to the tier, e.g. "bwm_tier_<tierId>_month_1250"
  */
-const priceIdCache = new Map<string, string>();
+function getPriceLookupKey(
+  amountInCents: number,
+  interval: "month" | "year",
+  tierId?: string,
+): string {
+  return tierId
+    ? `bwm_tier_${tierId}_${interval}_${amountInCents}`
+    : `bwm_${interval}_${amountInCents}`;
+}
 
 /**
- * Get or create a Stripe Price for a subscription tier on the PLATFORM account
+ * Get or create a platform Stripe Price for an amount and billing interval
  *
  * IMPORTANT: For destination charges, prices must be created on the platform account,
  * NOT on connected accounts. The transfer_data.destination in the subscription
  * routes the funds (minus application_fee_percent) to the creator's connected account.
  *
- * @param tier - Subscription price tier (TIER_500, TIER_1000, etc.)
+ * Prices are shared by every creator charging the same amount and found by
+ * lookup key. Membership tier prices get their own product per tier so the
+ * tier name shows on invoices. Existing subscriptions stay on the price they
+ * were created with, so changing a price never affects current subscribers.
+ *
+ * @param amountInCents - Amount charged per interval (cents)
+ * @param interval - Billing interval (default: month)
+ * @param tier - Membership tier the price belongs to, if any
  * @returns Stripe Price ID on the platform account
  */
-export async function getOrCreatePrice(tier: string): Promise<string> {
-  const cacheKey = `${tier}_platform`;
-
-  // Check cache first
-  if (priceIdCache.has(cacheKey)) {
-    return priceIdCache.get(cacheKey)!;
+export async function getOrCreatePrice(
+  amountInCents: number,
+  interval: "month" | "year" = "month",
+  tier?: { id: string; name: string },
+): Promise<string> {
+  if (!Number.isInteger(amountInCents) || amountInCents <= 0) {
+    throw new Error(`Invalid price amount: ${amountInCents}`);
   }
 
-  const amountInCents = PRICE_TIER_TO_CENTS[tier];
-  if (!amountInCents) {
-    throw new Error(`Invalid price tier: ${tier}`);
+  const lookupKey = getPriceLookupKey(amountInCents, interval, tier?.id);
+
+  // Check cache first
+  if (priceIdCache.has(lookupKey)) {
+    return priceIdCache.get(lookupKey)!;
   }
 
   // Search for existing price on the platform account
   const existingPrices = await stripe.prices.list({
     active: true,
-    type: "recurring",
-    limit: 100,
-    expand: ["data.product"],
+    lookup_keys: [lookupKey],
+    limit: 1,
   });
 
-  // Look for a matching price
-  const matchingPrice = existingPrices.data.find(
-    (price) =>
-      price.unit_amount === amountInCents &&
-      price.currency === "usd" &&
-      price.recurring?.interval === "month" &&
-      price.metadata?.breathwithmagic === "true" &&
-      price.metadata?.tier === tier,
-  );
-
-  if (matchingPrice) {
-    priceIdCache.set(cacheKey, matchingPrice.id);
-    return matchingPrice.id;
+  if (existingPrices.data.length > 0) {
+    priceIdCache.set(lookupKey, existingPrices.data[0].id);
+    return existingPrices.data[0].id;
   }
 
+  const displayAmount = `$${(amountInCents / 100).toFixed(2)}`;
+  const intervalLabel = interval === "year" ? "Annual" : "Monthly";
+
   // Create product first on the platform account
   const product = await stripe.products.create({
-    name: `breathwithmagic Subscription - ${tier.replace("TIER_", "$").replace("00", "")}`,
-    description: `Monthly subscription to creator content`,
+    name: tier
+      ? `breathwithmagic ${tier.name} - ${displayAmount}/${interval}`
+      : `breathwithmagic Subscription - ${displayAmount}/${interval}`,
+    description: `${intervalLabel} subscription to creator content`,
     metadata: {
       breathwithmagic: "true",
-      tier,
+      interval,
+      ...(tier && { tierId: tier.id }),
     },
   });
 
@@ -236,18 +244,46 @@ export async function getOrCreatePrice(tier: string): Promise<string> {
     unit_amount: amountInCents,
     currency: "usd",
     recurring: {
-      interval: "month",
+      interval,
     },
+    lookup_key: lookupKey,
     metadata: {
       breathwithmagic: "true",
-      tier,
+      interval,
+      ...(tier && { tierId: tier.id }),
     },
   });
 
-  priceIdCache.set(cacheKey, price.id);
+  priceIdCache.set(lookupKey, price.id);
   return price.id;
 }
 
+/**
+ * Read the amount and interval a Stripe subscription is billed at
+ *
+ * Used to record priceAtPurchase from what Stripe actually charges rather
+ * than the creator's current price.
+ *
+ * @param subscription - Stripe Subscription
+ * @returns Amount (cents) and interval, or null if the price is unusual
+ */
+export function getSubscriptionPricing(
+  subscription: Stripe.Subscription,
+): { amountInCents: number; interval: "month" | "year" } | null {
+  const price = subscription.items.data[0]?.price;
+  const interval = price?.recurring?.interval;
+
+  if (
+    !price ||
+    price.unit_amount === null ||
+    (interval !== "month" && interval !== "year")
+  ) {
+    return null;
+  }
+
+  return { amountInCents: price.unit_amount, interval };
+}
+
 /**
  * Get or create a Stripe Customer for a user
  *
@@ -313,10 +349,23 @@ export async function createSubscriptionCheckout(options: {
   creatorStripeAccountId: string;
   creatorId: string;
   userId: string;
+  tierId?: string;
   trialPeriodDays?: number;
+  /** Our PromoCode ID, recorded in metadata to count the redemption */
+  promoCodeId?: string;
+  /** Stripe promotion code to apply, from the creator's PromoCode */
+  stripePromotionCodeId?: string;
   successUrl: string;
   cancelUrl: string;
 }): Promise<Stripe.Checkout.Session> {
+  const metadata = {
+    creatorId: options.creatorId,
+    userId: options.userId,
+    ...(options.tierId && { tierId: options.tierId }),
+    ...(options.promoCodeId && { promoCodeId: options.promoCodeId }),
+    platform: "breathwithmagic",
+  };
+
   const session = await stripe.checkout.sessions.create({
     customer: options.customerId,
     mode: "subscription",
@@ -332,28 +381,279 @@ export async function createSubscriptionCheckout(options: {
         destination: options.creatorStripeAccountId,
       },
       trial_period_days: options.trialPeriodDays,
-      metadata: {
-        creatorId: options.creatorId,
-        userId: options.userId,
-        platform: "breathwithmagic",
+      metadata,
+    },
+    metadata,
+    success_url: options.successUrl,
+    cancel_url: options.cancelUrl,
+    // Creator promo codes are applied server-side so a code only works for
+    // its own creator. Stripe doesn't allow both options on one session.
+    ...(options.stripePromotionCodeId
+      ? { discounts: [{ promotion_code: options.stripePromotionCodeId }] }
+      : { allow_promotion_codes: true }),
+    // Collect billing address for tax purposes
+    billing_address_collection: "auto",
+  });
+
+  return session;
+}
+
+/**
+ * Platform fee for a one-time payment, in cents
+ *
+ * @param amountInCents - Total charged to the buyer
+ */
+export function calculatePlatformFee(amountInCents: number): number {
+  return Math.round((amountInCents * PLATFORM_FEE_PERCENT) / 100);
+}
+
+/**
+ * Create a Checkout session for a one-time purchase (content or program)
+ *
+ * Uses a destination charge in payment mode. The platform fee is taken as
+ * application_fee_amount since application_fee_percent only applies to
+ * subscriptions. Prices are passed inline, so no Price objects are created.
+ *
+ * @param options - Checkout session options
+ * @returns Stripe Checkout Session
+ */
+export async function createPurchaseCheckout(options: {
+  customerId: string;
+  amountInCents: number;
+  productName: string;
+  creatorStripeAccountId: string;
+  creatorId: string;
+  userId: string;
+  contentId?: string;
+  programId?: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<Stripe.Checkout.Session> {
+  const metadata: Record<string, string> = {
+    type: "purchase",
+    creatorId: options.creatorId,
+    userId: options.userId,
+    platform: "breathwithmagic",
+  };
+  if (options.contentId) metadata.contentId = options.contentId;
+  if (options.programId) metadata.programId = options.programId;
+
+  const session = await stripe.checkout.sessions.create({
+    customer: options.customerId,
+    mode: "payment",
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          unit_amount: options.amountInCents,
+          product_data: {
+            name: options.productName,
+          },
+        },
+        quantity: 1,
       },
+    ],
+    payment_intent_data: {
+      application_fee_amount: calculatePlatformFee(options.amountInCents),
+      transfer_data: {
+        destination: options.creatorStripeAccountId,
+      },
+      metadata,
     },
-    metadata: {
-      creatorId: options.creatorId,
-      userId: options.userId,
-      platform: "breathwithmagic",
+    metadata,
+    success_url: options.successUrl,
+    cancel_url: options.cancelUrl,
+    billing_address_collection: "auto",
+  });
+
+  return session;
+}
+
+/**
+ * Create a Checkout session for a gift membership
+ *
+ * A one-time destination charge like createPurchaseCheckout. The recipient
+ * redeems the gift code later for a subscription without Stripe billing.
+ *
+ * @param options - Checkout session options
+ * @returns Stripe Checkout Session
+ */
+export async function createGiftCheckout(options: {
+  customerId: string;
+  amountInCents: number;
+  productName: string;
+  creatorStripeAccountId: string;
+  creatorId: string;
+  userId: string;
+  giftId: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<Stripe.Checkout.Session> {
+  const metadata = {
+    type: "gift",
+    giftId: options.giftId,
+    creatorId: options.creatorId,
+    userId: options.userId,
+    platform: "breathwithmagic",
+  };
+
+  const session = await stripe.checkout.sessions.create({
+    customer: options.customerId,
+    mode: "payment",
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          unit_amount: options.amountInCents,
+          product_data: {
+            name: options.productName,
+          },
+        },
+        quantity: 1,
+      },
+    ],
+    payment_intent_data: {
+      application_fee_amount: calculatePlatformFee(options.amountInCents),
+      transfer_data: {
+        destination: options.creatorStripeAccountId,
+      },
+      metadata,
     },
+    metadata,
+    success_url: options.successUrl,
+    cancel_url: options.cancelUrl,
+    billing_address_collection: "auto",
+  });
+
+  return session;
+}
+
+/**
+ * Create a Checkout session for a paid message request
+ *
+ * A one-time destination charge like createPurchaseCheckout. The request
+ * reaches the creator's inbox once the webhook sees the payment.
+ *
+ * @param options - Checkout session options
+ * @returns Stripe Checkout Session
+ */
+export async function createMessageRequestCheckout(options: {
+  customerId: string;
+  amountInCents: number;
+  creatorName: string;
+  creatorStripeAccountId: string;
+  creatorId: string;
+  userId: string;
+  messageRequestId: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<Stripe.Checkout.Session> {
+  const metadata = {
+    type: "message_request",
+    messageRequestId: options.messageRequestId,
+    creatorId: options.creatorId,
+    userId: options.userId,
+    platform: "breathwithmagic",
+  };
+
+  const session = await stripe.checkout.sessions.create({
+    customer: options.customerId,
+    mode: "payment",
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          unit_amount: options.amountInCents,
+          product_data: {
+            name: `Message request to ${options.creatorName}`,
+          },
+        },
+        quantity: 1,
+      },
+    ],
+    payment_intent_data: {
+      application_fee_amount: calculatePlatformFee(options.amountInCents),
+      transfer_data: {
+        destination: options.creatorStripeAccountId,
+      },
+      metadata,
+    },
+    metadata,
     success_url: options.successUrl,
     cancel_url: options.cancelUrl,
-    // Allow promotion codes for future marketing
-    allow_promotion_codes: true,
-    // Collect billing address for tax purposes
     billing_address_collection: "auto",
   });
 
   return session;
 }
 
+/**
+ * Create the Stripe coupon and promotion code behind a creator promo code
+ *
+ * Both live on the platform account, like subscription prices. The
+ * promotion code's customer-facing code is left for Stripe to generate
+ * since codes must be unique platform-wide; subscribers only ever type the
+ * creator's code, which we resolve to this promotion code ourselves.
+ *
+ * @param options - Discount terms; amountOffCents is in USD cents
+ * @returns Stripe coupon and promotion code IDs
+ */
+export async function createPromotionCode(options: {
+  creatorId: string;
+  promoCodeId: string;
+  name: string;
+  percentOff: number | null;
+  amountOffCents: number | null;
+  duration: Stripe.CouponCreateParams.Duration;
+  durationInMonths: number | null;
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+}): Promise<{ couponId: string; promotionCodeId: string }> {
+  const metadata = {
+    creatorId: options.creatorId,
+    promoCodeId: options.promoCodeId,
+    platform: "breathwithmagic",
+  };
+
+  const coupon = await stripe.coupons.create({
+    name: options.name,
+    duration: options.duration,
+    ...(options.durationInMonths && {
+      duration_in_months: options.durationInMonths,
+    }),
+    ...(options.percentOff
+      ? { percent_off: options.percentOff }
+      : { amount_off: options.amountOffCents ?? 0, currency: "usd" }),
+    metadata,
+  });
+
+  const promotionCode = await stripe.promotionCodes.create({
+    promotion: { type: "coupon", coupon: coupon.id },
+    ...(options.maxRedemptions && {
+      max_redemptions: options.maxRedemptions,
+    }),
+    ...(options.expiresAt && {
+      expires_at: Math.floor(options.expiresAt.getTime() / 1000),
+    }),
+    metadata,
+  });
+
+  return { couponId: coupon.id, promotionCodeId: promotionCode.id };
+}
+
+/**
+ * Turn a promotion code on or off (archiving or restoring a promo code)
+ *
+ * @param promotionCodeId - Stripe Promotion Code ID
+ * @param active - Whether the code can be used
+ */
+export async function setPromotionCodeActive(
+  promotionCodeId: string,
+  active: boolean,
+): Promise<Stripe.PromotionCode> {
+  return stripe.promotionCodes.update(promotionCodeId, { active });
+}
+
 /**
  * Create a billing portal session for subscription management
  *
@@ -405,6 +705,110 @@ export async function reactivateSubscription(
   return subscription;
 }
 
+/**
+ * Pause or resume payment collection on a subscription
+ *
+ * While paused, invoices are voided instead of charged and the
+ * subscription stays active in Stripe. Used when an admin suspends a
+ * creator so subscribers aren't billed for content they can't see, and
+ * when a subscriber pauses instead of canceling. Stripe resumes
+ * collection by itself at resumesAt.
+ *
+ * @param subscriptionId - Stripe Subscription ID
+ * @param paused - True to pause collection, false to resume it
+ * @param resumesAt - When to resume collection (pausing only)
+ * @returns Updated Stripe Subscription
+ */
+export async function setSubscriptionCollectionPaused(
+  subscriptionId: string,
+  paused: boolean,
+  resumesAt?: Date,
+): Promise<Stripe.Subscription> {
+  return stripe.subscriptions.update(subscriptionId, {
+    pause_collection: paused
+      ? {
+          behavior: "void",
+          ...(resumesAt && {
+            resumes_at: Math.floor(resumesAt.getTime() / 1000),
+          }),
+        }
+      : "",
+  });
+}
+
+/**
+ * Take a percentage off a subscription's next invoice
+ *
+ * Backs a creator's retention offer with a single-use coupon on the
+ * platform account. Discounts already on the subscription, like a
+ * repeating promo code, are kept.
+ *
+ * @param subscriptionId - Stripe Subscription ID
+ * @param options - Percent off and the creator making the offer
+ * @returns Updated Stripe Subscription
+ */
+export async function applySubscriptionDiscount(
+  subscriptionId: string,
+  options: { percentOff: number; creatorId: string },
+): Promise<Stripe.Subscription> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+  const coupon = await stripe.coupons.create({
+    name: `${options.percentOff}% off to stay`,
+    duration: "once",
+    percent_off: options.percentOff,
+    max_redemptions: 1,
+    metadata: {
+      creatorId: options.creatorId,
+      subscriptionId,
+      platform: "breathwithmagic",
+    },
+  });
+
+  return stripe.subscriptions.update(subscriptionId, {
+    discounts: [
+      ...subscription.discounts.map((discount) => ({
+        discount: typeof discount === "string" ? discount : discount.id,
+      })),
+      { coupon: coupon.id },
+    ],
+  });
+}
+
+/**
+ * Move a subscription to another membership tier's price
+ *
+ * Upgrades are invoiced immediately for the prorated difference so access
+ * isn't granted before payment. Downgrades credit the unused time against
+ * the next invoice.
+ *
+ * @param subscriptionId - Stripe Subscription ID
+ * @param options - New price, tier, and whether this is an upgrade
+ * @returns Updated Stripe Subscription
+ */
+export async function changeSubscriptionTier(
+  subscriptionId: string,
+  options: { priceId: string; tierId: string; isUpgrade: boolean },
+): Promise<Stripe.Subscription> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const item = subscription.items.data[0];
+
+  if (!item) {
+    throw new Error(`Subscription ${subscriptionId} has no items`);
+  }
+
+  return stripe.subscriptions.update(subscriptionId, {
+    items: [{ id: item.id, price: options.priceId }],
+    proration_behavior: options.isUpgrade
+      ? "always_invoice"
+      : "create_prorations",
+    payment_behavior: options.isUpgrade
+      ? "error_if_incomplete"
+      : "allow_incomplete",
+    metadata: { tierId: options.tierId },
+  });
+}
+
 /**
  * Retrieve a subscription from Stripe
  *
@@ -417,6 +821,206 @@ export async function retrieveSubscription(
   return stripe.subscriptions.retrieve(subscriptionId);
 }
 
+// =============================================================================
+// REFUNDS & DISPUTES
+// =============================================================================
+
+/**
+ * Prorated refunds are available within 7 days of billing (PRD: Refund Policy)
+ */
+export const REFUND_WINDOW_DAYS = 7;
+
+/**
+ * The most recent successful payment on a subscription
+ */
+export interface SubscriptionPayment {
+  invoiceId: string;
+  paymentIntentId: string;
+  amountPaid: number;
+  currency: string;
+  paidAt: Date;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Get the latest paid invoice for a subscription along with its PaymentIntent
+ *
+ * @param subscriptionId - Stripe Subscription ID
+ * @returns The latest payment, or null if nothing has been charged yet
+ */
+export async function getLatestSubscriptionPayment(
+  subscriptionId: string,
+): Promise<SubscriptionPayment | null> {
+  const invoices = await stripe.invoices.list({
+    subscription: subscriptionId,
+    status: "paid",
+    limit: 1,
+    expand: ["data.payments"],
+  });
+
+  const invoice = invoices.data[0];
+  if (!invoice?.id || invoice.amount_paid === 0) {
+    // No invoice yet, or a $0 trial invoice - nothing to refund
+    return null;
+  }
+
+  const payment = invoice.payments?.data.find(
+    (p) => p.status === "paid" && p.payment.type === "payment_intent",
+  );
+  const paymentIntent = payment?.payment.payment_intent;
+  if (!paymentIntent) {
+    return null;
+  }
+
+  const period = invoice.lines.data[0]?.period;
+  const paidAt = invoice.status_transitions.paid_at ?? invoice.created;
+
+  return {
+    invoiceId: invoice.id,
+    paymentIntentId:
+      typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id,
+    amountPaid: invoice.amount_paid,
+    currency: invoice.currency,
+    paidAt: new Date(paidAt * 1000),
+    periodStart: new Date((period?.start ?? invoice.period_start) * 1000),
+    periodEnd: new Date((period?.end ?? invoice.period_end) * 1000),
+  };
+}
+
+/**
+ * Calculate a prorated refund for the unused part of the billing period
+ *
+ * @param payment - The payment being refunded
+ * @param now - Reference time (defaults to now)
+ * @returns Refund amount in cents (rounded down)
+ */
+export function calculateProratedRefund(
+  payment: SubscriptionPayment,
+  now: Date = new Date(),
+): number {
+  const periodMs = payment.periodEnd.getTime() - payment.periodStart.getTime();
+  const remainingMs = payment.periodEnd.getTime() - now.getTime();
+
+  if (periodMs <= 0 || remainingMs <= 0) {
+    return 0;
+  }
+
+  const fraction = Math.min(1, remainingMs / periodMs);
+  return Math.floor(payment.amountPaid * fraction);
+}
+
+/**
+ * Check whether a payment is still inside the refund window
+ *
+ * @param payment - The payment being refunded
+ * @param now - Reference time (defaults to now)
+ */
+export function isWithinRefundWindow(
+  payment: SubscriptionPayment,
+  now: Date = new Date(),
+): boolean {
+  const windowMs = REFUND_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return now.getTime() - payment.paidAt.getTime() <= windowMs;
+}
+
+/**
+ * Refund a subscription payment
+ *
+ * The platform absorbs refunds (PRD: Refund Policy), so the transfer to the
+ * creator and the application fee are NOT reversed.
+ *
+ * @param options - Refund options
+ * @returns Created Stripe Refund
+ */
+export async function createSubscriptionRefund(options: {
+  paymentIntentId: string;
+  amount: number;
+  reason?: Stripe.RefundCreateParams.Reason;
+  metadata?: Record<string, string>;
+}): Promise<Stripe.Refund> {
+  return stripe.refunds.create({
+    payment_intent: options.paymentIntentId,
+    amount: options.amount,
+    reason: options.reason,
+    reverse_transfer: false,
+    refund_application_fee: false,
+    metadata: {
+      ...options.metadata,
+      platform: "breathwithmagic",
+    },
+  });
+}
+
+/**
+ * Refund a declined message request in full
+ *
+ * Unlike subscription refunds, the creator didn't keep what was paid for,
+ * so the transfer and the application fee are reversed too.
+ *
+ * @param paymentIntentId - The request's PaymentIntent
+ * @param messageRequestId - Recorded on the refund for the audit trail
+ * @returns Created Stripe Refund
+ */
+export async function refundMessageRequest(
+  paymentIntentId: string,
+  messageRequestId: string,
+): Promise<Stripe.Refund> {
+  return stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    reason: "requested_by_customer",
+    reverse_transfer: true,
+    refund_application_fee: true,
+    metadata: {
+      messageRequestId,
+      platform: "breathwithmagic",
+    },
+  });
+}
+
+/**
+ * Cancel a subscription immediately (used after refunds and lost disputes)
+ *
+ * @param subscriptionId - Stripe Subscription ID
+ * @returns Canceled Stripe Subscription
+ */
+export async function cancelSubscriptionImmediately(
+  subscriptionId: string,
+): Promise<Stripe.Subscription> {
+  return stripe.subscriptions.cancel(subscriptionId, { prorate: false });
+}
+
+/**
+ * Find the Stripe Subscription a PaymentIntent paid for
+ *
+ * Charges no longer reference their invoice directly, so this goes
+ * through the InvoicePayment that links the PaymentIntent to an invoice.
+ *
+ * @param paymentIntentId - Stripe PaymentIntent ID
+ * @returns Stripe Subscription ID, or null for non-subscription payments
+ */
+export async function getSubscriptionIdForPaymentIntent(
+  paymentIntentId: string,
+): Promise<string | null> {
+  const invoicePayments = await stripe.invoicePayments.list({
+    payment: { type: "payment_intent", payment_intent: paymentIntentId },
+    limit: 1,
+    expand: ["data.invoice"],
+  });
+
+  const invoice = invoicePayments.data[0]?.invoice;
+  if (!invoice || typeof invoice === "string" || invoice.deleted) {
+    return null;
+  }
+
+  const subscription = invoice.parent?.subscription_details?.subscription;
+  if (!subscription) {
+    return null;
+  }
+
+  return typeof subscription === "string" ? subscription : subscription.id;
+}
+
 /**
  * Type exports for use in other files
  */
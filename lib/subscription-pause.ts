@@ -0,0 +1,45 @@
+/**
+ * Subscription Pause Helpers
+ *
+ * Subscribers on a monthly plan can pause for a few months, either from
+ * their subscriptions page or by taking a creator's pause retention offer.
+ * A pause is scheduled, not immediate: the subscription stays active until
+ * the end of the period already paid for (pauseStartsAt), then the
+ * Stripe webhook marks it paused once the next period starts. Stripe voids
+ * the invoices in between and resumes billing on its own at pausedUntil.
+ *
+ * The pause dates are saved before the pause is sent to Stripe, since the
+ * webhook can arrive before Stripe's response does.
+ */
+
+import { addMonths } from "date-fns";
+
+/**
+ * When a pause taken now would start and end
+ *
+ * The pause starts at the end of the current paid period, so the
+ * subscriber doesn't lose the days they've paid for, and lasts the given
+ * number of months from there.
+ */
+export function getPauseDates(
+  currentPeriodEnd: Date,
+  months: number,
+): { pauseStartsAt: Date; pausedUntil: Date } {
+  return {
+    pauseStartsAt: new Date(currentPeriodEnd),
+    pausedUntil: addMonths(currentPeriodEnd, months),
+  };
+}
+
+/**
+ * Whether a scheduled pause has reached its start
+ *
+ * Lets access checks stop an active subscription at pauseStartsAt even if
+ * the webhook marking it paused hasn't arrived yet.
+ */
+export function hasPauseStarted(
+  pauseStartsAt: Date | null,
+  now = new Date(),
+): boolean {
+  return !!pauseStartsAt && pauseStartsAt <= now;
+}
@@ -0,0 +1,171 @@
+/**
+ * Membership Tier Helpers
+ *
+ * Creators can offer several membership tiers, ranked from 1 upwards.
+ * Content, programs and DMs can require a minimum tier; a subscriber has
+ * access when their tier's rank is at least the required rank.
+ *
+ * Subscriptions without a tier (creators who don't use tiers, or members
+ * who joined before tiers were added) rank 0, so they only unlock items
+ * without a tier requirement.
+ */
+
+import type { BillingInterval, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getTierPriceForInterval } from "@/lib/pricing";
+
+/**
+ * Rank of a subscription without a tier, and of items open to any subscriber
+ */
+export const UNTIERED_RANK = 0;
+
+/**
+ * Tier fields shown to subscribers and creators
+ */
+export const tierSummarySelect = {
+  id: true,
+  name: true,
+  description: true,
+  rank: true,
+  priceCents: true,
+} satisfies Prisma.MembershipTierSelect;
+
+export type TierSummary = Prisma.MembershipTierGetPayload<{
+  select: typeof tierSummarySelect;
+}>;
+
+/**
+ * Tier fields shown to the creator managing their tiers
+ */
+export const creatorTierSelect = {
+  ...tierSummarySelect,
+  archivedAt: true,
+  createdAt: true,
+  _count: {
+    select: {
+      subscriptions: { where: { status: { in: ["active", "trialing"] } } },
+    },
+  },
+} satisfies Prisma.MembershipTierSelect;
+
+type CreatorTier = Prisma.MembershipTierGetPayload<{
+  select: typeof creatorTierSelect;
+}>;
+
+/**
+ * Format a tier for the creator tier management API
+ */
+export function formatCreatorTier(tier: CreatorTier) {
+  return {
+    id: tier.id,
+    name: tier.name,
+    description: tier.description,
+    rank: tier.rank,
+    priceCents: tier.priceCents,
+    archivedAt: tier.archivedAt?.toISOString() ?? null,
+    createdAt: tier.createdAt.toISOString(),
+    subscriberCount: tier._count.subscriptions,
+  };
+}
+
+/**
+ * Relation args for a creator's joinable tiers, lowest first
+ */
+export const joinableTiersArgs = {
+  where: { archivedAt: null },
+  orderBy: { rank: "asc" },
+  select: tierSummarySelect,
+} satisfies Prisma.CreatorProfile$membershipTiersArgs;
+
+/**
+ * A tier as offered to an existing subscriber switching tiers
+ */
+export interface TierOption {
+  id: string;
+  name: string;
+  rank: number;
+  /** Price for the subscriber's billing interval (null if not offered) */
+  priceCents: number | null;
+}
+
+/**
+ * Content fields that determine the tier required to access it
+ */
+export const requiredTierSelect = {
+  minTier: { select: { rank: true } },
+  program: { select: { minTier: { select: { rank: true } } } },
+} satisfies Prisma.ContentSelect;
+
+/**
+ * Tier rank required to access a piece of content
+ * The stricter of the content's own tier and its program's tier applies.
+ */
+export function getRequiredTierRank(content: {
+  minTier: { rank: number } | null;
+  program: { minTier: { rank: number } | null } | null;
+}): number {
+  return Math.max(
+    content.minTier?.rank ?? UNTIERED_RANK,
+    content.program?.minTier?.rank ?? UNTIERED_RANK,
+  );
+}
+
+/**
+ * Tiers new subscribers can join, lowest first
+ */
+export async function getJoinableTiers(
+  creatorId: string,
+): Promise<TierSummary[]> {
+  return prisma.membershipTier.findMany({
+    ...joinableTiersArgs,
+    where: { ...joinableTiersArgs.where, creatorId },
+  });
+}
+
+/**
+ * Whether a tier belongs to a creator
+ * Used to validate tier requirements set on content, programs and DMs.
+ */
+export async function isCreatorTier(
+  creatorId: string,
+  tierId: string,
+): Promise<boolean> {
+  const tier = await prisma.membershipTier.findFirst({
+    where: { id: tierId, creatorId },
+    select: { id: true },
+  });
+
+  return tier !== null;
+}
+
+/**
+ * Price a creator's tiers for a subscriber's billing interval
+ */
+export function toTierOptions(
+  tiers: TierSummary[],
+  annualDiscountPercent: number | null,
+  interval: BillingInterval,
+): TierOption[] {
+  return tiers.map((tier) => ({
+    id: tier.id,
+    name: tier.name,
+    rank: tier.rank,
+    priceCents: getTierPriceForInterval(tier, annualDiscountPercent, interval),
+  }));
+}
+
+/**
+ * Tier rank of a user's subscription to a creator
+ * Doesn't check whether the subscription is active; callers do that.
+ */
+export async function getSubscriptionTierRank(
+  userId: string,
+  creatorId: string,
+): Promise<number> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { userId_creatorId: { userId, creatorId } },
+    select: { tier: { select: { rank: true } } },
+  });
+
+  return subscription?.tier?.rank ?? UNTIERED_RANK;
+}
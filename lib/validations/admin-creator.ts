@@ -0,0 +1,126 @@
+/**
+ * Admin Creator Management Validation Schemas
+ *
+ * Zod schemas for the admin creators API
+ */
+import { z } from "zod";
+
+// =============================================================================
+// ENUMS (matching Prisma schema)
+// =============================================================================
+
+export const creatorStatusSchema = z.enum([
+  "pending_setup",
+  "active",
+  "suspended",
+  "deactivated",
+]);
+
+export const creatorAdminActionTypeSchema = z.enum([
+  "suspend",
+  "reinstate",
+  "verify",
+  "unverify",
+  "feature",
+  "unfeature",
+]);
+
+// =============================================================================
+// ADMIN CREATOR SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for listing creators with filters (admin)
+ */
+export const adminCreatorListQuerySchema = z.object({
+  /** Matches handle, display name or the creator's email */
+  q: z.string().trim().max(100).optional(),
+  status: creatorStatusSchema.optional(),
+  verified: z.enum(["true", "false"]).optional(),
+  featured: z.enum(["true", "false"]).optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Schema for an admin action on a creator
+ *
+ * Suspensions require a reason; it's shown to the creator and kept in the
+ * audit trail.
+ */
+export const creatorAdminActionSchema = z
+  .object({
+    action: creatorAdminActionTypeSchema,
+    reason: z
+      .string()
+      .trim()
+      .max(1000, "Reason must be 1000 characters or less")
+      .optional(),
+  })
+  .refine((data) => data.action !== "suspend" || !!data.reason, {
+    message: "A reason is required to suspend a creator",
+    path: ["reason"],
+  });
+
+// =============================================================================
+// TYPE EXPORTS
+// =============================================================================
+
+export type CreatorStatus = z.infer<typeof creatorStatusSchema>;
+export type CreatorAdminActionType = z.infer<
+  typeof creatorAdminActionTypeSchema
+>;
+export type AdminCreatorListQuery = z.infer<typeof adminCreatorListQuerySchema>;
+export type CreatorAdminActionInput = z.infer<typeof creatorAdminActionSchema>;
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Get human-readable label for creator status
+ */
+export function getCreatorStatusLabel(status: CreatorStatus): string {
+  const labels: Record<CreatorStatus, string> = {
+    pending_setup: "Pending setup",
+    active: "Active",
+    suspended: "Suspended",
+    deactivated: "Deactivated",
+  };
+  return labels[status];
+}
+
+/**
+ * Get badge variant for creator status
+ */
+export function getCreatorStatusVariant(
+  status: CreatorStatus,
+): "default" | "secondary" | "outline" | "destructive" {
+  switch (status) {
+    case "active":
+      return "default";
+    case "suspended":
+      return "destructive";
+    case "deactivated":
+      return "outline";
+    default:
+      return "secondary";
+  }
+}
+
+/**
+ * Get human-readable label for an admin action in the audit trail
+ */
+export function getCreatorAdminActionLabel(
+  action: CreatorAdminActionType,
+): string {
+  const labels: Record<CreatorAdminActionType, string> = {
+    suspend: "Suspended",
+    reinstate: "Reinstated",
+    verify: "Verified",
+    unverify: "Removed verification",
+    feature: "Featured",
+    unfeature: "Removed from featured",
+  };
+  return labels[action];
+}
@@ -4,6 +4,22 @@
  * Zod schemas for validating analytics API data
  */
 import { z } from "zod";
+import type {
+  CancellationCause,
+  CancellationReason,
+  RetentionOffer,
+} from "@prisma/client";
+import {
+  annualDiscountPercentSchema,
+  customPriceCentsSchema,
+  dmDailyLimitSchema,
+  dmMinSubscribedDaysSchema,
+  dmRequestPriceCentsSchema,
+  retentionDiscountPercentSchema,
+  retentionPauseMonthsSchema,
+  trialDaysSchema,
+  winBackDelayDaysSchema,
+} from "@/lib/validations/creator";
 
 // =============================================================================
 // PERIOD SCHEMA
@@ -30,6 +46,25 @@ export const subscriberListQuerySchema = z.object({
   status: z.enum(["active", "trialing", "all"]).default("all"),
 });
 
+// =============================================================================
+// EXPORT QUERY SCHEMAS
+// =============================================================================
+
+export const exportFormatSchema = z.enum(["csv", "json"]);
+
+export const subscriberExportQuerySchema = subscriberListQuerySchema
+  .pick({ search: true, status: true })
+  .extend({ format: exportFormatSchema.default("csv") });
+
+/**
+ * content: per-content views and completions; views: views by day
+ */
+export const analyticsExportQuerySchema = z.object({
+  report: z.enum(["content", "views"]),
+  period: analyticsPeriodSchema.default("30d"),
+  format: exportFormatSchema.default("csv"),
+});
+
 // =============================================================================
 // CREATOR SETTINGS UPDATE SCHEMA
 // =============================================================================
@@ -65,8 +100,28 @@ export const creatorSettingsUpdateSchema = z.object({
   subscriptionPrice: z
     .enum(["TIER_500", "TIER_1000", "TIER_2000", "TIER_3000"])
     .optional(),
+  // Custom monthly price in cents; null returns to the preset tier
+  customPriceCents: customPriceCentsSchema.optional(),
+  // Annual plan discount; null turns the annual plan off
+  annualDiscountPercent: annualDiscountPercentSchema.optional(),
   trialEnabled: z.boolean().optional(),
+  trialDays: trialDaysSchema.optional(),
   dmEnabled: z.boolean().optional(),
+  // Lowest tier allowed to send DMs; null lets any subscriber message
+  dmMinTierId: z.string().cuid().nullable().optional(),
+  // Subscription age required to send DMs; null lets new subscribers message
+  dmMinSubscribedDays: dmMinSubscribedDaysSchema.optional(),
+  // Whether followers and ineligible subscribers can send one request
+  dmFollowerRequests: z.boolean().optional(),
+  // Price to send a request; null makes requests free
+  dmRequestPriceCents: dmRequestPriceCentsSchema.optional(),
+  // Cap on DMs received per 24 hours; null removes the cap
+  dmDailyLimit: dmDailyLimitSchema.optional(),
+  // Offers shown before canceling; null turns each offer off
+  retentionDiscountPercent: retentionDiscountPercentSchema.optional(),
+  retentionPauseMonths: retentionPauseMonthsSchema.optional(),
+  // Days until the win-back email; null turns it off
+  winBackDelayDays: winBackDelayDaysSchema.optional(),
 });
 
 // =============================================================================
@@ -76,6 +131,9 @@ export const creatorSettingsUpdateSchema = z.object({
 export type AnalyticsPeriod = z.infer<typeof analyticsPeriodSchema>;
 export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
 export type SubscriberListQuery = z.infer<typeof subscriberListQuerySchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type SubscriberExportQuery = z.infer<typeof subscriberExportQuerySchema>;
+export type AnalyticsExportQuery = z.infer<typeof analyticsExportQuerySchema>;
 export type CreatorSettingsUpdate = z.infer<typeof creatorSettingsUpdateSchema>;
 
 // =============================================================================
@@ -85,8 +143,15 @@ export type CreatorSettingsUpdate = z.infer<typeof creatorSettingsUpdateSchema>;
 export interface AnalyticsResponse {
   totalViews: number;
   completionRate: number;
-  totalRevenue: number;
-  revenueGrowth: number;
+  /** Monthly recurring revenue in cents, from paid subscription periods */
+  mrr: number;
+  /** Period earnings in cents, from the earnings ledger */
+  grossEarnings: number;
+  platformFees: number;
+  netEarnings: number;
+  earningsGrowth: number;
+  /** Percent of paying subscriptions lost in the period; null for all time */
+  churnRate: number | null;
   subscriberCount: number;
   subscriberGrowth: number;
   topContent: Array<{
@@ -99,6 +164,68 @@ export interface AnalyticsResponse {
     date: string;
     views: number;
   }>;
+  payouts: Array<{
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+    arrivalDate: string | null;
+  }>;
+}
+
+/**
+ * A group of subscribers compared by retention and trial conversion
+ */
+export interface CohortSegment {
+  label: string;
+  subscribers: number;
+  /** Percent still subscribed */
+  retentionRate: number;
+  /** Subscribers whose free trial has ended */
+  trials: number;
+  /** Percent of those trials that became paid, null without trials */
+  trialConversionRate: number | null;
+}
+
+export interface CohortAnalyticsResponse {
+  /** Subscribers grouped by the month they subscribed, newest first */
+  cohorts: Array<{
+    /** YYYY-MM */
+    month: string;
+    subscribers: number;
+    /**
+     * Percent still subscribed 0, 1, 2... months after subscribing, for
+     * as many months as the cohort has been around
+     */
+    retention: number[];
+    trials: number;
+    trialConversions: number;
+  }>;
+  trialConversion: {
+    trials: number;
+    converted: number;
+    rate: number;
+  };
+  /** Why subscriptions ended; a null cause predates tracking */
+  cancellations: Array<{
+    cause: CancellationCause | null;
+    count: number;
+  }>;
+  /**
+   * Cancellation survey answers from subscribers who canceled in the last
+   * 12 months or are set to, most common first
+   */
+  cancellationReasons: Array<{
+    reason: CancellationReason;
+    count: number;
+  }>;
+  /** Retention offers taken instead of canceling in the last 12 months */
+  retentionOffers: Array<{
+    offer: RetentionOffer;
+    count: number;
+  }>;
+  /** Subscribers by what they completed early on (see lib/cohorts.ts) */
+  engagement: CohortSegment[];
 }
 
 export interface SubscriberItem {
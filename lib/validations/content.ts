@@ -13,11 +13,60 @@ export const contentTypeSchema = z.enum(["video", "audio", "text"]);
 
 export const contentStatusSchema = z.enum([
   "draft",
+  "scheduled",
   "published",
   "archived",
   "deleted",
 ]);
 
+export const mediaStatusSchema = z.enum([
+  "uploading",
+  "processing",
+  "ready",
+  "errored",
+]);
+
+export const MIN_PURCHASE_PRICE_CENTS = 100;
+export const MAX_PURCHASE_PRICE_CENTS = 50000;
+
+/**
+ * One-time purchase price in cents (null = subscribers only)
+ */
+export const purchasePriceCentsSchema = z
+  .number()
+  .int("Price must be a whole number of cents")
+  .min(MIN_PURCHASE_PRICE_CENTS, "Price must be at least $1")
+  .max(MAX_PURCHASE_PRICE_CENTS, "Price must be $500 or less")
+  .nullable();
+
+/**
+ * Lowest membership tier with access (null = any subscriber)
+ */
+export const minTierIdSchema = z.string().cuid().nullable();
+
+// Releases can be scheduled up to a year ahead
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+// Program items can unlock up to a year after a subscriber starts
+export const MAX_UNLOCK_OFFSET_DAYS = 365;
+
+/**
+ * Days after a subscriber starts a program that an item unlocks
+ * (null or 0 = available from the start)
+ */
+export const unlockOffsetDaysSchema = z
+  .number()
+  .int("Unlock day must be a whole number of days")
+  .min(0, "Unlock day can't be negative")
+  .max(MAX_UNLOCK_OFFSET_DAYS, "Items must unlock within a year")
+  .nullable();
+
+/**
+ * Future publish time for scheduled content and programs
+ * Range checks happen in getScheduleError so stored times can be revalidated.
+ */
+export const scheduledAtSchema = z.coerce.date().nullable();
+
 // =============================================================================
 // CONTENT SCHEMAS
 // =============================================================================
@@ -46,9 +95,14 @@ export const createContentSchema = z.object({
     .optional()
     .nullable(),
   isFree: z.boolean().default(false),
+  priceCents: purchasePriceCentsSchema.optional(),
+  minTierId: minTierIdSchema.optional(),
   status: contentStatusSchema.default("draft"),
+  // Required when status is "scheduled"
+  scheduledAt: scheduledAtSchema.optional(),
   programId: z.string().cuid().optional().nullable(),
   sortOrder: z.number().int().optional().nullable(),
+  unlockOffsetDays: unlockOffsetDaysSchema.optional(),
 });
 
 /**
@@ -75,9 +129,13 @@ export const updateContentSchema = z.object({
     .optional()
     .nullable(),
   isFree: z.boolean().optional(),
+  priceCents: purchasePriceCentsSchema.optional(),
+  minTierId: minTierIdSchema.optional(),
   status: contentStatusSchema.optional(),
+  scheduledAt: scheduledAtSchema.optional(),
   programId: z.string().cuid().optional().nullable(),
   sortOrder: z.number().int().optional().nullable(),
+  unlockOffsetDays: unlockOffsetDaysSchema.optional(),
 });
 
 /**
@@ -123,7 +181,10 @@ export const createProgramSchema = z.object({
     .nullable(),
   thumbnailUrl: z.string().url().optional().nullable(),
   isFree: z.boolean().default(false),
+  priceCents: purchasePriceCentsSchema.optional(),
+  minTierId: minTierIdSchema.optional(),
   sortOrder: z.number().int().default(0),
+  scheduledAt: scheduledAtSchema.optional(),
 });
 
 /**
@@ -143,8 +204,11 @@ export const updateProgramSchema = z.object({
     .nullable(),
   thumbnailUrl: z.string().url().optional().nullable(),
   isFree: z.boolean().optional(),
+  priceCents: purchasePriceCentsSchema.optional(),
+  minTierId: minTierIdSchema.optional(),
   sortOrder: z.number().int().optional(),
   publishedAt: z.coerce.date().optional().nullable(),
+  scheduledAt: scheduledAtSchema.optional(),
 });
 
 /**
@@ -263,6 +327,7 @@ export const richTextContentSchema = z
 
 export type ContentType = z.infer<typeof contentTypeSchema>;
 export type ContentStatus = z.infer<typeof contentStatusSchema>;
+export type MediaStatus = z.infer<typeof mediaStatusSchema>;
 export type CreateContent = z.infer<typeof createContentSchema>;
 export type UpdateContent = z.infer<typeof updateContentSchema>;
 export type ContentListQuery = z.infer<typeof contentListQuerySchema>;
@@ -282,11 +347,14 @@ export type VideoUploadUrlRequest = z.infer<typeof videoUploadUrlSchema>;
 
 /**
  * Check if content is ready to be published
+ *
+ * Video can't be published until Stream has finished encoding it.
  */
 export function canPublishContent(content: {
   type: ContentType;
   title: string;
   mediaUrl: string | null;
+  mediaStatus?: MediaStatus | null;
   duration: number | null;
 }): { canPublish: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -306,12 +374,62 @@ export function canPublishContent(content: {
     }
   }
 
+  if (
+    content.type === "video" &&
+    content.mediaUrl &&
+    content.mediaStatus !== "ready"
+  ) {
+    errors.push(
+      content.mediaStatus === "errored"
+        ? "Video processing failed. Upload the video again."
+        : "Video is still processing",
+    );
+  }
+
   return {
     canPublish: errors.length === 0,
     errors,
   };
 }
 
+/**
+ * Get a creator-facing label for a video's processing state
+ */
+export function getMediaStatusLabel(status: MediaStatus): string {
+  const labels: Record<MediaStatus, string> = {
+    uploading: "Uploading",
+    processing: "Processing",
+    ready: "Ready",
+    errored: "Processing failed",
+  };
+  return labels[status];
+}
+
+/**
+ * Check a scheduled publish time
+ *
+ * @returns An error message, or null if the time can be scheduled
+ */
+export function getScheduleError(
+  scheduledAt: Date | null | undefined,
+  now: Date = new Date(),
+): string | null {
+  if (!scheduledAt) {
+    return "Choose a date and time to publish";
+  }
+
+  if (scheduledAt.getTime() <= now.getTime()) {
+    return "Scheduled time must be in the future";
+  }
+
+  const maxAheadMs = MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000;
+  if (scheduledAt.getTime() - now.getTime() > maxAheadMs) {
+    return `Releases can be scheduled up to ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`;
+  }
+
+  return null;
+}
+
 /**
  * Format duration in seconds to human-readable string
  */
@@ -353,6 +471,8 @@ export function getContentStatusVariant(
       return "default";
     case "draft":
       return "secondary";
+    case "scheduled":
+      return "outline";
     case "archived":
       return "outline";
     case "deleted":
@@ -46,6 +46,112 @@ export const subscriptionPriceTierSchema = z.enum([
   "TIER_3000",
 ]);
 
+// Custom monthly price bounds in cents ($3 - $200)
+export const MIN_MONTHLY_PRICE_CENTS = 300;
+export const MAX_MONTHLY_PRICE_CENTS = 20000;
+
+// Annual plan discount bounds (percent off 12 monthly payments)
+export const MIN_ANNUAL_DISCOUNT_PERCENT = 5;
+export const MAX_ANNUAL_DISCOUNT_PERCENT = 50;
+export const DEFAULT_ANNUAL_DISCOUNT_PERCENT = 20;
+
+// Custom monthly price in cents; null = use the preset tier
+export const customPriceCentsSchema = z
+  .number()
+  .int("Price must be a whole number of cents")
+  .min(MIN_MONTHLY_PRICE_CENTS, "Price must be at least $3/month")
+  .max(MAX_MONTHLY_PRICE_CENTS, "Price must be no more than $200/month")
+  .nullable();
+
+// Annual plan discount percent; null = no annual plan
+export const annualDiscountPercentSchema = z
+  .number()
+  .int("Discount must be a whole percentage")
+  .min(MIN_ANNUAL_DISCOUNT_PERCENT, "Annual discount must be at least 5%")
+  .max(MAX_ANNUAL_DISCOUNT_PERCENT, "Annual discount must be no more than 50%")
+  .nullable();
+
+// Free trial length bounds in days
+export const MIN_TRIAL_DAYS = 1;
+export const MAX_TRIAL_DAYS = 90;
+export const DEFAULT_TRIAL_DAYS = 7;
+
+// Free trial length for new subscribers, used when the trial is enabled
+export const trialDaysSchema = z
+  .number()
+  .int("Trial length must be a whole number of days")
+  .min(MIN_TRIAL_DAYS, "Trial must be at least 1 day")
+  .max(MAX_TRIAL_DAYS, "Trial must be no more than 90 days");
+
+// DM policy bounds
+export const MAX_DM_MIN_SUBSCRIBED_DAYS = 365;
+export const DEFAULT_DM_MIN_SUBSCRIBED_DAYS = 30;
+export const MAX_DM_DAILY_LIMIT = 500;
+export const DEFAULT_DM_DAILY_LIMIT = 50;
+export const MIN_DM_REQUEST_PRICE_CENTS = 100;
+export const MAX_DM_REQUEST_PRICE_CENTS = 10000;
+export const DEFAULT_DM_REQUEST_PRICE_CENTS = 500;
+
+// Days a subscriber must wait before messaging; null = no wait
+export const dmMinSubscribedDaysSchema = z
+  .number()
+  .int("Waiting period must be a whole number of days")
+  .min(1, "Waiting period must be at least 1 day")
+  .max(
+    MAX_DM_MIN_SUBSCRIBED_DAYS,
+    "Waiting period must be no more than 365 days",
+  )
+  .nullable();
+
+// Direct messages received per rolling 24 hours; null = no limit
+export const dmDailyLimitSchema = z
+  .number()
+  .int("Daily limit must be a whole number")
+  .min(1, "Daily limit must be at least 1 message")
+  .max(MAX_DM_DAILY_LIMIT, "Daily limit must be no more than 500 messages")
+  .nullable();
+
+// Price in cents to send a message request; null = free requests
+export const dmRequestPriceCentsSchema = z
+  .number()
+  .int("Price must be a whole number of cents")
+  .min(MIN_DM_REQUEST_PRICE_CENTS, "Request price must be at least $1")
+  .max(MAX_DM_REQUEST_PRICE_CENTS, "Request price must be $100 or less")
+  .nullable();
+
+// Retention offer and win-back bounds
+export const MIN_RETENTION_DISCOUNT_PERCENT = 10;
+export const MAX_RETENTION_DISCOUNT_PERCENT = 100;
+export const DEFAULT_RETENTION_DISCOUNT_PERCENT = 50;
+export const MAX_RETENTION_PAUSE_MONTHS = 3;
+export const DEFAULT_RETENTION_PAUSE_MONTHS = 1;
+export const MAX_WIN_BACK_DELAY_DAYS = 90;
+export const DEFAULT_WIN_BACK_DELAY_DAYS = 14;
+
+// Percent off one month for subscribers who start canceling; null = no offer
+export const retentionDiscountPercentSchema = z
+  .number()
+  .int("Discount must be a whole percentage")
+  .min(MIN_RETENTION_DISCOUNT_PERCENT, "Discount must be at least 10%")
+  .max(MAX_RETENTION_DISCOUNT_PERCENT, "Discount must be no more than 100%")
+  .nullable();
+
+// Months subscribers can pause instead of canceling; null = no offer
+export const retentionPauseMonthsSchema = z
+  .number()
+  .int("Pause length must be a whole number of months")
+  .min(1, "Pause must be at least 1 month")
+  .max(MAX_RETENTION_PAUSE_MONTHS, "Pause must be no more than 3 months")
+  .nullable();
+
+// Days after a subscription ends to send the win-back email; null = never
+export const winBackDelayDaysSchema = z
+  .number()
+  .int("Delay must be a whole number of days")
+  .min(1, "Delay must be at least 1 day")
+  .max(MAX_WIN_BACK_DELAY_DAYS, "Delay must be no more than 90 days")
+  .nullable();
+
 // Step 1: Handle Selection
 export const handleSelectionSchema = z.object({
   handle: handleSchema,
@@ -70,6 +176,8 @@ export const profileSetupSchema = z.object({
 export const categoryPricingSchema = z.object({
   category: creatorCategorySchema,
   subscriptionPrice: subscriptionPriceTierSchema,
+  customPriceCents: customPriceCentsSchema.default(null),
+  annualDiscountPercent: annualDiscountPercentSchema.default(null),
   trialEnabled: z.boolean().default(true),
 });
 
@@ -89,6 +197,8 @@ export const creatorOnboardingSchema = z.object({
   avatarUrl: z.string().url().optional().nullable(),
   category: creatorCategorySchema,
   subscriptionPrice: subscriptionPriceTierSchema,
+  customPriceCents: customPriceCentsSchema.default(null),
+  annualDiscountPercent: annualDiscountPercentSchema.default(null),
   trialEnabled: z.boolean().default(true),
 });
 
@@ -17,6 +17,13 @@ export const feedQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
+/**
+ * Schema for continue watching query params
+ */
+export const continueWatchingQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+
 /**
  * Schema for creator content feed query params
  */
@@ -40,6 +47,8 @@ export const recordContentViewSchema = z.object({
     .min(0)
     .max(86400) // Max 24 hours
     .optional(),
+  /** Current playback position in seconds, for resuming */
+  position: z.number().int().min(0).max(86400).optional(),
   completed: z.boolean().optional(),
 });
 
@@ -58,5 +67,8 @@ export type FeedQuery = z.infer<typeof feedQuerySchema>;
 export type CreatorContentFeedQuery = z.infer<
   typeof creatorContentFeedQuerySchema
 >;
+export type ContinueWatchingQuery = z.infer<
+  typeof continueWatchingQuerySchema
+>;
 export type RecordContentView = z.infer<typeof recordContentViewSchema>;
 export type UpdateWatchProgress = z.infer<typeof updateWatchProgressSchema>;
@@ -0,0 +1,68 @@
+/**
+ * Gift Validation Schemas
+ *
+ * Zod schemas for buying and redeeming gift memberships
+ */
+import { z } from "zod";
+
+/**
+ * Gift lengths offered at checkout, in months
+ */
+export const GIFT_MONTH_OPTIONS = [1, 3, 6, 12] as const;
+
+/**
+ * Gift status enum matching Prisma
+ */
+export const giftStatusSchema = z.enum([
+  "pending",
+  "paid",
+  "redeemed",
+  "refunded",
+]);
+
+/**
+ * Schema for starting a gift checkout
+ */
+export const createGiftSchema = z.object({
+  creatorId: z.string().cuid(),
+  months: z
+    .number()
+    .int()
+    .refine(
+      (months) => (GIFT_MONTH_OPTIONS as readonly number[]).includes(months),
+      "Choose a gift length of 1, 3, 6, or 12 months",
+    ),
+  // Tier to gift; defaults to the lowest tier when the creator offers tiers
+  tierId: z.string().cuid().optional(),
+});
+
+/**
+ * Schema for redeeming a gift code
+ * Codes are case-insensitive and may be typed with or without dashes.
+ */
+export const redeemGiftSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, "Enter your gift code")
+    .max(40, "That doesn't look like a gift code"),
+});
+
+/**
+ * Schema for gift checkout metadata
+ */
+export const giftMetadataSchema = z.object({
+  type: z.literal("gift"),
+  giftId: z.string().min(1),
+  creatorId: z.string().min(1),
+  userId: z.string().min(1),
+  platform: z.literal("breathwithmagic").optional(),
+});
+
+/**
+ * Type exports
+ */
+export type GiftStatus = z.infer<typeof giftStatusSchema>;
+export type CreateGiftInput = z.infer<typeof createGiftSchema>;
+export type RedeemGiftInput = z.infer<typeof redeemGiftSchema>;
+export type GiftMetadata = z.infer<typeof giftMetadataSchema>;
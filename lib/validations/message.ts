@@ -4,6 +4,11 @@
  * Zod schemas for validating message data including broadcasts and DMs
  */
 import { z } from "zod";
+import {
+  audioMimeTypes,
+  imageMimeTypes,
+  scheduledAtSchema,
+} from "./content";
 
 // =============================================================================
 // MESSAGE SCHEMAS
@@ -16,23 +21,122 @@ import { z } from "zod";
 export const MAX_MESSAGE_LENGTH = 5000;
 
 /**
- * Schema for sending a broadcast message
- * PRD: Creator can send message to ALL their subscribers at once
+ * Longest audio attachment, in seconds - voice notes and short replies
  */
-export const broadcastMessageSchema = z.object({
-  content: z
-    .string()
-    .min(1, "Message content is required")
+export const MAX_AUDIO_ATTACHMENT_DURATION = 5 * 60;
+
+/**
+ * Maximum attachment file sizes
+ */
+export const MAX_AUDIO_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_IMAGE_ATTACHMENT_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Allowed audio attachment MIME types
+ * Adds the formats browsers record voice notes in (WebM, MP4)
+ */
+export const audioAttachmentMimeTypes = [
+  ...audioMimeTypes,
+  "audio/webm",
+  "audio/mp4",
+] as const;
+
+/**
+ * Attachment kinds a message can carry
+ */
+export const messageAttachmentTypes = ["audio", "image"] as const;
+
+export type MessageAttachmentType = (typeof messageAttachmentTypes)[number];
+
+/**
+ * Schema for an uploaded attachment sent with a message
+ */
+export const messageAttachmentSchema = z.object({
+  type: z.enum(messageAttachmentTypes),
+  key: z.string().min(1, "Attachment key is required"),
+  duration: z
+    .number()
+    .int()
+    .min(1)
     .max(
-      MAX_MESSAGE_LENGTH,
-      `Message must be ${MAX_MESSAGE_LENGTH} characters or less`,
+      MAX_AUDIO_ATTACHMENT_DURATION,
+      `Audio must be ${MAX_AUDIO_ATTACHMENT_DURATION / 60} minutes or less`,
     )
-    .trim()
-    .refine((val) => val.length > 0, {
-      message: "Message cannot be empty or only whitespace",
-    }),
+    .optional(),
+});
+
+/**
+ * Message text, which may be left empty when there's an attachment
+ */
+const messageContentSchema = z
+  .string()
+  .max(
+    MAX_MESSAGE_LENGTH,
+    `Message must be ${MAX_MESSAGE_LENGTH} characters or less`,
+  )
+  .trim()
+  .default("");
+
+/**
+ * Require text, an attachment, or both
+ */
+function hasContentOrAttachment(message: {
+  content: string;
+  attachment?: MessageAttachment;
+}): boolean {
+  return message.content.length > 0 || !!message.attachment;
+}
+
+/**
+ * Who a broadcast can be sent to
+ */
+export const broadcastAudiences = [
+  "subscribers",
+  "trialing",
+  "long_term_subscribers",
+  "followers_not_subscribed",
+] as const;
+
+export type BroadcastAudience = (typeof broadcastAudiences)[number];
+
+/**
+ * Default minimum subscription age for the long-term subscribers audience
+ */
+export const DEFAULT_MIN_SUBSCRIBED_DAYS = 90;
+
+const minSubscribedDaysSchema = z.coerce
+  .number()
+  .int()
+  .min(1, "Minimum is 1 day")
+  .max(3650, "Maximum is 3650 days");
+
+/**
+ * Schema for previewing a broadcast audience's size
+ */
+export const broadcastAudienceQuerySchema = z.object({
+  audience: z.enum(broadcastAudiences).default("subscribers"),
+  minSubscribedDays: minSubscribedDaysSchema.optional(),
 });
 
+/**
+ * Schema for sending or scheduling a broadcast message
+ * PRD: Creator can send message to ALL their subscribers at once. The
+ * audience can be narrowed to a segment, and the send scheduled for later.
+ */
+export const broadcastMessageSchema = z
+  .object({
+    content: messageContentSchema,
+    attachment: messageAttachmentSchema.optional(),
+    audience: z.enum(broadcastAudiences).default("subscribers"),
+    minSubscribedDays: minSubscribedDaysSchema.optional(),
+    /** Send at this time instead of now */
+    scheduledAt: scheduledAtSchema.optional(),
+  })
+  .refine(hasContentOrAttachment, {
+    message: "Message cannot be empty or only whitespace",
+    path: ["content"],
+  });
+
 /**
  * Schema for message list query parameters (cursor-based pagination)
  */
@@ -70,21 +174,85 @@ export const markSingleReadSchema = z.object({
  * Schema for sending a direct message (1:1 DM)
  * PRD: Subscriber can message creator (if DMs enabled), creator can reply
  */
-export const directMessageSchema = z.object({
+export const directMessageSchema = z
+  .object({
+    receiverId: z.string().min(1, "Receiver ID is required"),
+    content: messageContentSchema,
+    attachment: messageAttachmentSchema.optional(),
+  })
+  .refine(hasContentOrAttachment, {
+    message: "Message cannot be empty or only whitespace",
+    path: ["content"],
+  });
+
+/**
+ * Schema for sending a message request to a creator
+ * Requests are text only; attachments can follow once it's accepted
+ */
+export const messageRequestSchema = z.object({
   receiverId: z.string().min(1, "Receiver ID is required"),
-  content: z
-    .string()
-    .min(1, "Message content is required")
-    .max(
-      MAX_MESSAGE_LENGTH,
-      `Message must be ${MAX_MESSAGE_LENGTH} characters or less`,
-    )
-    .trim()
-    .refine((val) => val.length > 0, {
-      message: "Message cannot be empty or only whitespace",
-    }),
+  content: messageContentSchema.refine((content) => content.length > 0, {
+    message: "Message cannot be empty or only whitespace",
+  }),
+});
+
+/**
+ * Schema for paid message request checkout metadata
+ */
+export const messageRequestMetadataSchema = z.object({
+  type: z.literal("message_request"),
+  messageRequestId: z.string().min(1),
+  creatorId: z.string().min(1),
+  userId: z.string().min(1),
+  platform: z.literal("breathwithmagic").optional(),
+});
+
+/**
+ * Schema for a creator accepting or declining a message request
+ */
+export const messageRequestResponseSchema = z.object({
+  action: z.enum(["accept", "decline"]),
+});
+
+/**
+ * Schema for listing a creator's pending message requests
+ */
+export const messageRequestListQuerySchema = z.object({
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
+/**
+ * Schema for requesting a message attachment upload URL
+ */
+export const attachmentUploadUrlSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("audio"),
+    filename: z.string().min(1, "Filename is required"),
+    contentType: z.enum(audioAttachmentMimeTypes, {
+      message:
+        "Invalid audio format. Supported formats: MP3, WAV, OGG, AAC, M4A, WebM",
+    }),
+    fileSize: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_AUDIO_ATTACHMENT_SIZE, "Audio file must be 10MB or less"),
+  }),
+  z.object({
+    type: z.literal("image"),
+    filename: z.string().min(1, "Filename is required"),
+    contentType: z.enum(imageMimeTypes, {
+      message: "Invalid image format. Supported formats: JPEG, PNG, WebP, GIF",
+    }),
+    fileSize: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_IMAGE_ATTACHMENT_SIZE, "Image file must be 5MB or less"),
+  }),
+]);
+
 /**
  * Schema for conversation list query parameters
  */
@@ -101,16 +269,47 @@ export const conversationMessagesQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(50),
 });
 
+/**
+ * Schema for blocking or muting a conversation partner
+ */
+export const conversationSettingsSchema = z
+  .object({
+    isBlocked: z.boolean().optional(),
+    isMuted: z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.isBlocked !== undefined || data.isMuted !== undefined,
+    { message: "Nothing to update" },
+  );
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
 
 export type BroadcastMessage = z.infer<typeof broadcastMessageSchema>;
+export type BroadcastAudienceQuery = z.infer<
+  typeof broadcastAudienceQuerySchema
+>;
 export type DirectMessage = z.infer<typeof directMessageSchema>;
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+export type MessageRequestInput = z.infer<typeof messageRequestSchema>;
+export type MessageRequestMetadata = z.infer<
+  typeof messageRequestMetadataSchema
+>;
+export type MessageRequestResponse = z.infer<
+  typeof messageRequestResponseSchema
+>;
+export type MessageRequestListQuery = z.infer<
+  typeof messageRequestListQuerySchema
+>;
+export type AttachmentUploadUrlRequest = z.infer<
+  typeof attachmentUploadUrlSchema
+>;
 export type ConversationListQuery = z.infer<typeof conversationListQuerySchema>;
 export type ConversationMessagesQuery = z.infer<
   typeof conversationMessagesQuerySchema
 >;
+export type ConversationSettings = z.infer<typeof conversationSettingsSchema>;
 export type MessageListQuery = z.infer<typeof messageListQuerySchema>;
 export type CreatorMessagesQuery = z.infer<typeof creatorMessagesQuerySchema>;
 export type MarkRead = z.infer<typeof markReadSchema>;
@@ -137,6 +336,34 @@ export function getMessageCharacterInfo(content: string): {
   return { count, remaining, isOverLimit, percentUsed };
 }
 
+/**
+ * Label for an attachment, used where a message is previewed as text
+ */
+export function getAttachmentLabel(type: MessageAttachmentType): string {
+  return type === "audio" ? "Voice note" : "Photo";
+}
+
+/**
+ * Describe a broadcast audience, e.g. "Subscribers for 90+ days"
+ */
+export function getBroadcastAudienceLabel(
+  audience: BroadcastAudience,
+  minSubscribedDays?: number | null,
+): string {
+  switch (audience) {
+    case "subscribers":
+      return "All subscribers";
+    case "trialing":
+      return "Subscribers on a free trial";
+    case "long_term_subscribers":
+      return `Subscribers for ${
+        minSubscribedDays ?? DEFAULT_MIN_SUBSCRIBED_DAYS
+      }+ days`;
+    case "followers_not_subscribed":
+      return "Followers who haven't subscribed";
+  }
+}
+
 /**
  * Truncate message content for preview
  */
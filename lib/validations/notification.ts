@@ -4,6 +4,95 @@
  * Zod schemas for validating notification-related requests
  */
 import { z } from "zod";
+import type { NotificationType } from "@prisma/client";
+
+// =============================================================================
+// NOTIFICATION TYPES AND CHANNELS
+// =============================================================================
+
+/**
+ * Channels a notification can be delivered on
+ */
+export const notificationChannels = ["inApp", "email", "push"] as const;
+
+/**
+ * The email preference that controls a notification type's email
+ */
+export type NotificationEmailPreference =
+  | "newContent"
+  | "newMessage"
+  | "trialReminders"
+  | "paymentAlerts";
+
+/**
+ * Notification types as shown in notification settings
+ *
+ * Types with an email preference send an email as well; the rest are
+ * in-app and push only.
+ */
+export const notificationTypeInfo: Record<
+  NotificationType,
+  {
+    label: string;
+    description: string;
+    emailPreference?: NotificationEmailPreference;
+  }
+> = {
+  new_content: {
+    label: "New content",
+    description: "Creators you follow or subscribe to publish something new.",
+    emailPreference: "newContent",
+  },
+  new_message: {
+    label: "Messages",
+    description: "You receive a direct message or message request.",
+    emailPreference: "newMessage",
+  },
+  trial_ending: {
+    label: "Trial reminders",
+    description: "Your free trial is about to end.",
+    emailPreference: "trialReminders",
+  },
+  payment_failed: {
+    label: "Payment problems",
+    description: "A subscription payment didn't go through.",
+    emailPreference: "paymentAlerts",
+  },
+  subscription_renewed: {
+    label: "Renewals",
+    description: "A subscription renews.",
+  },
+  subscription_refunded: {
+    label: "Refunds",
+    description: "A subscriber is refunded (creators only).",
+  },
+  payment_disputed: {
+    label: "Disputes",
+    description: "A subscriber disputes a payment (creators only).",
+  },
+  creator_suspended: {
+    label: "Creator suspensions",
+    description: "A creator you subscribe to, or your account, is suspended.",
+  },
+  creator_reinstated: {
+    label: "Creator reinstatements",
+    description: "A suspended creator you subscribe to is back.",
+  },
+};
+
+export const notificationTypes = Object.keys(
+  notificationTypeInfo,
+) as NotificationType[];
+
+/**
+ * How new content notifications are sent (matches DigestMode)
+ */
+export const digestModes = ["immediate", "daily", "weekly"] as const;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Local hour daily and weekly digests are sent after
+export const DIGEST_HOUR = 8;
 
 // =============================================================================
 // NOTIFICATION SCHEMAS
@@ -35,17 +124,152 @@ export const markNotificationsReadSchema = z
     message: "Either notificationIds or all: true must be provided",
   });
 
+/**
+ * Schema for updating notification channel preferences
+ *
+ * Only the listed types and channels change. Email can only be set for
+ * types that send one.
+ */
+export const notificationPreferencesUpdateSchema = z.object({
+  preferences: z
+    .array(
+      z
+        .object({
+          type: z.enum(notificationTypes),
+          inApp: z.boolean().optional(),
+          email: z.boolean().optional(),
+          push: z.boolean().optional(),
+        })
+        .refine(
+          (pref) =>
+            pref.email === undefined ||
+            !!notificationTypeInfo[pref.type].emailPreference,
+          { message: "This notification type doesn't send emails" },
+        ),
+    )
+    .min(1, "No preferences to update")
+    .max(notificationTypes.length),
+});
+
+// Push services are always HTTPS; the server posts to this URL
+const pushEndpointSchema = z
+  .string()
+  .url("Invalid push endpoint")
+  .refine((url) => url.startsWith("https://"), {
+    message: "Push endpoints must use HTTPS",
+  });
+
+/**
+ * Schema for registering a browser for web push
+ * Matches PushSubscription.toJSON() in the browser
+ */
+export const pushSubscriptionSchema = z.object({
+  endpoint: pushEndpointSchema,
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+/**
+ * Schema for removing a browser's push subscription
+ */
+export const pushUnsubscribeSchema = z.object({
+  endpoint: pushEndpointSchema,
+});
+
+// Minutes after midnight
+const timeOfDaySchema = z.number().int().min(0).max(MINUTES_PER_DAY - 1);
+
+/**
+ * Schema for updating a user's digest mode, quiet hours and time zone
+ */
+export const notificationScheduleSchema = z.object({
+  digestMode: z.enum(digestModes),
+  quietHours: z
+    .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+    .refine((hours) => hours.start !== hours.end, {
+      message: "Quiet hours must start and end at different times",
+    })
+    .nullable(),
+  timeZone: z.string().refine(isValidTimeZone, {
+    message: "Invalid time zone",
+  }),
+});
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
 
 export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
 export type MarkNotificationsRead = z.infer<typeof markNotificationsReadSchema>;
+export type NotificationChannel = (typeof notificationChannels)[number];
+export type NotificationPreferencesUpdate = z.infer<
+  typeof notificationPreferencesUpdateSchema
+>;
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
+export type DigestModeOption = (typeof digestModes)[number];
+export type NotificationScheduleUpdate = z.infer<
+  typeof notificationScheduleSchema
+>;
+
+/**
+ * A notification type's channels in notification settings
+ */
+export interface NotificationPreferenceRow {
+  type: NotificationType;
+  inApp: boolean;
+  /** Null for types that don't send an email */
+  email: boolean | null;
+  push: boolean;
+}
+
+/**
+ * A user's notification schedule in notification settings
+ */
+export interface NotificationScheduleSettings {
+  digestMode: DigestModeOption;
+  /** Minutes after midnight in the user's time zone; null when off */
+  quietHours: { start: number; end: number } | null;
+  /** Null until the user saves their schedule */
+  timeZone: string | null;
+}
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
+/**
+ * Check if a string is an IANA time zone name the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format minutes after midnight as HH:MM, as used by time inputs
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parse an HH:MM time input value into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < MINUTES_PER_DAY ? minutes : null;
+}
+
 /**
  * Format relative time for notifications
  * Consistent with message time formatting
@@ -0,0 +1,284 @@
+/**
+ * Subscriber Onboarding Validation Schemas
+ *
+ * Zod schemas and option metadata for the subscriber onboarding quiz.
+ * Answer values are stored as plain strings on UserOnboarding.
+ *
+ * @see docs/subscriber-onboarding-architecture.md
+ */
+import { z } from "zod";
+
+// =============================================================================
+// STEPS
+// =============================================================================
+
+/**
+ * Ordered onboarding steps. UserOnboarding.currentStep stores the index
+ * into this list so the flow can be resumed on another device.
+ */
+export const ONBOARDING_STEPS = [
+  "welcome",
+  "q-goal",
+  "q-experience",
+  "q-time",
+  "q-commitment",
+  "q-modalities",
+  "recommendations",
+] as const;
+
+export const onboardingStepSchema = z.enum(ONBOARDING_STEPS);
+
+/**
+ * Version of the personalization consent copy shown on the welcome step.
+ * Bump when the wording changes so we can tell which text a user agreed to.
+ */
+export const ONBOARDING_CONSENT_VERSION = "2026-01";
+
+// =============================================================================
+// QUIZ ANSWER SCHEMAS
+// =============================================================================
+
+export const primaryGoalSchema = z.enum([
+  "stress_relief",
+  "better_sleep",
+  "anxiety",
+  "spiritual_growth",
+  "physical_wellness",
+]);
+
+export const experienceLevelSchema = z.enum([
+  "beginner",
+  "occasional",
+  "regular",
+  "advanced",
+]);
+
+export const preferredTimeSchema = z.enum([
+  "morning",
+  "afternoon",
+  "evening",
+  "varies",
+]);
+
+export const timeCommitmentSchema = z.enum([
+  "5min",
+  "10min",
+  "20min",
+  "30min_plus",
+]);
+
+export const wellnessModalitySchema = z.enum([
+  "breathwork",
+  "meditation",
+  "yoga",
+  "sound_healing",
+  "movement",
+]);
+
+/**
+ * All quiz questions are optional - recommendations are generated
+ * from whatever the user chose to answer
+ */
+export const quizAnswersSchema = z.object({
+  primaryGoal: primaryGoalSchema.optional(),
+  experienceLevel: experienceLevelSchema.optional(),
+  preferredTime: preferredTimeSchema.optional(),
+  timeCommitment: timeCommitmentSchema.optional(),
+  interestedModalities: z.array(wellnessModalitySchema).max(5).optional(),
+});
+
+// =============================================================================
+// API REQUEST SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for starting (or restarting) onboarding
+ */
+export const onboardingStartSchema = z.object({
+  restart: z.boolean().default(false),
+});
+
+/**
+ * Schema for saving progress after each step
+ */
+export const onboardingProgressSchema = z.object({
+  step: onboardingStepSchema,
+  answers: quizAnswersSchema.optional(),
+  consentGiven: z.boolean().optional(),
+});
+
+/**
+ * Schema for skipping onboarding
+ */
+export const onboardingSkipSchema = z.object({
+  fromStep: onboardingStepSchema.optional(),
+});
+
+/**
+ * Schema for completing onboarding
+ */
+export const onboardingCompleteSchema = z.object({
+  answers: quizAnswersSchema.default({}),
+});
+
+// =============================================================================
+// TYPE EXPORTS
+// =============================================================================
+
+export type OnboardingStep = z.infer<typeof onboardingStepSchema>;
+export type PrimaryGoal = z.infer<typeof primaryGoalSchema>;
+export type ExperienceLevel = z.infer<typeof experienceLevelSchema>;
+export type PreferredTime = z.infer<typeof preferredTimeSchema>;
+export type TimeCommitment = z.infer<typeof timeCommitmentSchema>;
+export type WellnessModality = z.infer<typeof wellnessModalitySchema>;
+export type QuizAnswers = z.infer<typeof quizAnswersSchema>;
+export type OnboardingProgress = z.infer<typeof onboardingProgressSchema>;
+export type OnboardingComplete = z.infer<typeof onboardingCompleteSchema>;
+
+// =============================================================================
+// OPTION DISPLAY INFO
+// =============================================================================
+
+export const primaryGoalInfo: Record<
+  PrimaryGoal,
+  { label: string; description: string }
+> = {
+  stress_relief: {
+    label: "Reduce stress & find calm",
+    description: "Slow down and settle your nervous system",
+  },
+  better_sleep: {
+    label: "Sleep better",
+    description: "Wind down and rest more deeply",
+  },
+  anxiety: {
+    label: "Manage anxiety",
+    description: "Tools for anxious moments",
+  },
+  spiritual_growth: {
+    label: "Deepen spiritual practice",
+    description: "Explore presence and inner work",
+  },
+  physical_wellness: {
+    label: "Improve physical wellness",
+    description: "Move, stretch and feel at home in your body",
+  },
+};
+
+export const experienceLevelInfo: Record<
+  ExperienceLevel,
+  { label: string; description: string }
+> = {
+  beginner: {
+    label: "Brand new to wellness practices",
+    description: "I'm just getting started",
+  },
+  occasional: {
+    label: "I've tried a few times",
+    description: "Familiar, but not a habit yet",
+  },
+  regular: {
+    label: "I practice regularly",
+    description: "A few times a week",
+  },
+  advanced: {
+    label: "I have a deep, consistent practice",
+    description: "Practice is part of my daily life",
+  },
+};
+
+export const preferredTimeInfo: Record<
+  PreferredTime,
+  { label: string; description: string }
+> = {
+  morning: { label: "Morning", description: "Wake up & energize" },
+  afternoon: { label: "Afternoon", description: "Midday reset" },
+  evening: { label: "Evening", description: "Wind down & rest" },
+  varies: { label: "It varies for me", description: "Whenever I find time" },
+};
+
+export const timeCommitmentInfo: Record<
+  TimeCommitment,
+  { label: string; description: string }
+> = {
+  "5min": { label: "5 minutes or less", description: "Short resets" },
+  "10min": { label: "Around 10 minutes", description: "A focused session" },
+  "20min": { label: "Around 20 minutes", description: "Time to settle in" },
+  "30min_plus": {
+    label: "30 minutes or more",
+    description: "Longer, immersive practice",
+  },
+};
+
+export const wellnessModalityInfo: Record<
+  WellnessModality,
+  { label: string; description: string }
+> = {
+  breathwork: { label: "Breathwork", description: "Breathing techniques" },
+  meditation: { label: "Meditation", description: "Guided stillness" },
+  yoga: { label: "Yoga", description: "Postures and mindful movement" },
+  sound_healing: {
+    label: "Sound healing",
+    description: "Healing through sound",
+  },
+  movement: {
+    label: "Movement & somatic",
+    description: "Body-based practices",
+  },
+};
+
+/**
+ * Get the step name for a stored step index, clamped to valid range
+ */
+export function getOnboardingStep(index: number): OnboardingStep {
+  const clamped = Math.min(Math.max(index, 0), ONBOARDING_STEPS.length - 1);
+  return ONBOARDING_STEPS[clamped];
+}
+
+/**
+ * Client-facing onboarding state returned by all onboarding endpoints
+ */
+export interface OnboardingState {
+  status: "NOT_STARTED" | "IN_PROGRESS" | "SKIPPED" | "COMPLETED";
+  currentStep: OnboardingStep;
+  stepIndex: number;
+  canResume: boolean;
+  consentGiven: boolean;
+  answers: QuizAnswers;
+  recommendedCreatorIds: string[];
+}
+
+/**
+ * Convert a UserOnboarding record into the client-facing state.
+ * Unknown stored answer values are dropped rather than trusted.
+ */
+export function toOnboardingState(record: {
+  status: OnboardingState["status"];
+  currentStep: number;
+  consentGiven: boolean;
+  primaryGoal: string | null;
+  experienceLevel: string | null;
+  preferredTime: string | null;
+  timeCommitment: string | null;
+  interestedModalities: string[];
+  recommendedCreatorIds: string[];
+}): OnboardingState {
+  const answers = quizAnswersSchema.safeParse({
+    primaryGoal: record.primaryGoal ?? undefined,
+    experienceLevel: record.experienceLevel ?? undefined,
+    preferredTime: record.preferredTime ?? undefined,
+    timeCommitment: record.timeCommitment ?? undefined,
+    interestedModalities: record.interestedModalities,
+  });
+
+  return {
+    status: record.status,
+    currentStep: getOnboardingStep(record.currentStep),
+    stepIndex: record.currentStep,
+    canResume:
+      record.status === "IN_PROGRESS" || record.status === "NOT_STARTED",
+    consentGiven: record.consentGiven,
+    answers: answers.success ? answers.data : {},
+    recommendedCreatorIds: record.recommendedCreatorIds,
+  };
+}
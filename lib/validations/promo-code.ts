@@ -0,0 +1,116 @@
+/**
+ * Promo Code Validation Schemas
+ *
+ * Zod schemas for creator-managed promo codes
+ */
+import { z } from "zod";
+import { MAX_TRIAL_DAYS, trialDaysSchema } from "@/lib/validations/creator";
+
+// A creator can have at most this many codes (including archived ones)
+export const MAX_PROMO_CODES = 50;
+
+// Longest a repeating discount can last
+export const MAX_PROMO_DURATION_MONTHS = 12;
+
+/**
+ * Promo duration enum matching Prisma
+ */
+export const promoDurationSchema = z.enum(["once", "repeating", "forever"]);
+
+/**
+ * Code subscribers type in, e.g. "LAUNCH50"
+ * Codes are case-insensitive and stored uppercase.
+ */
+export const promoCodeSchema = z
+  .string()
+  .trim()
+  .min(3, "Code must be at least 3 characters")
+  .max(30, "Code must be 30 characters or less")
+  .regex(
+    /^[A-Za-z0-9_-]+$/,
+    "Code can only contain letters, numbers, dashes, and underscores",
+  )
+  .transform((code) => code.toUpperCase());
+
+/**
+ * Schema for creating a promo code
+ * A code gives a discount, a custom trial length, or both.
+ */
+export const createPromoCodeSchema = z
+  .object({
+    code: promoCodeSchema,
+    percentOff: z
+      .number()
+      .int("Discount must be a whole percentage")
+      .min(1, "Discount must be at least 1%")
+      .max(100, "Discount can't be more than 100%")
+      .nullable()
+      .default(null),
+    amountOffCents: z
+      .number()
+      .int("Discount must be a whole number of cents")
+      .min(50, "Discount must be at least $0.50")
+      .max(20000, "Discount must be no more than $200")
+      .nullable()
+      .default(null),
+    duration: promoDurationSchema.default("once"),
+    durationInMonths: z
+      .number()
+      .int()
+      .min(1, "Discount must last at least 1 month")
+      .max(
+        MAX_PROMO_DURATION_MONTHS,
+        `Discount can last at most ${MAX_PROMO_DURATION_MONTHS} months`,
+      )
+      .nullable()
+      .default(null),
+    trialDays: trialDaysSchema.nullable().default(null),
+    maxRedemptions: z
+      .number()
+      .int()
+      .min(1, "Limit must be at least 1")
+      .nullable()
+      .default(null),
+    expiresAt: z.coerce.date().nullable().default(null),
+  })
+  .refine((data) => data.percentOff === null || data.amountOffCents === null, {
+    message: "Choose either a percentage or an amount off",
+    path: ["percentOff"],
+  })
+  .refine(
+    (data) =>
+      data.percentOff !== null ||
+      data.amountOffCents !== null ||
+      data.trialDays !== null,
+    {
+      message: `Add a discount or a free trial of up to ${MAX_TRIAL_DAYS} days`,
+      path: ["percentOff"],
+    },
+  )
+  .refine(
+    (data) => (data.duration === "repeating") === (data.durationInMonths !== null),
+    {
+      message: "Choose how many months the discount lasts",
+      path: ["durationInMonths"],
+    },
+  )
+  .refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+    message: "Expiry must be in the future",
+    path: ["expiresAt"],
+  });
+
+/**
+ * Schema for updating a promo code
+ * Discount terms are fixed once created; codes can only be archived or
+ * restored.
+ */
+export const updatePromoCodeSchema = z.object({
+  archived: z.boolean(),
+});
+
+/**
+ * Type exports
+ */
+export type PromoDuration = z.infer<typeof promoDurationSchema>;
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
@@ -0,0 +1,44 @@
+/**
+ * Purchase Validation Schemas
+ *
+ * Zod schemas for one-time (pay-per-view) purchases
+ */
+import { z } from "zod";
+
+/**
+ * Purchase status enum matching Prisma
+ */
+export const purchaseStatusSchema = z.enum(["completed", "refunded"]);
+
+/**
+ * Schema for starting a purchase checkout
+ * Exactly one of contentId or programId must be provided.
+ */
+export const createPurchaseSchema = z
+  .object({
+    contentId: z.string().cuid().optional(),
+    programId: z.string().cuid().optional(),
+  })
+  .refine((data) => !!data.contentId !== !!data.programId, {
+    message: "Provide either contentId or programId",
+    path: ["contentId"],
+  });
+
+/**
+ * Schema for purchase checkout metadata
+ */
+export const purchaseMetadataSchema = z.object({
+  type: z.literal("purchase"),
+  creatorId: z.string().min(1),
+  userId: z.string().min(1),
+  contentId: z.string().optional(),
+  programId: z.string().optional(),
+  platform: z.literal("breathwithmagic").optional(),
+});
+
+/**
+ * Type exports
+ */
+export type PurchaseStatus = z.infer<typeof purchaseStatusSchema>;
+export type CreatePurchaseInput = z.infer<typeof createPurchaseSchema>;
+export type PurchaseMetadata = z.infer<typeof purchaseMetadataSchema>;
@@ -0,0 +1,77 @@
+/**
+ * Refund Validation Schemas
+ *
+ * Zod schemas for the admin refunds API
+ *
+ * @see docs/prd.md "Refunds & Disputes"
+ */
+import { z } from "zod";
+
+// =============================================================================
+// ENUMS (matching Prisma schema)
+// =============================================================================
+
+export const paymentEventTypeSchema = z.enum([
+  "refund",
+  "dispute_opened",
+  "dispute_won",
+  "dispute_lost",
+]);
+
+/**
+ * full: refund the whole latest payment
+ * prorated: refund the unused part of the current billing period
+ */
+export const refundAmountTypeSchema = z.enum(["full", "prorated"]);
+
+/**
+ * Matches Stripe's refund reasons
+ */
+export const refundReasonSchema = z.enum([
+  "requested_by_customer",
+  "duplicate",
+  "fraudulent",
+]);
+
+// =============================================================================
+// REFUND SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for issuing a refund (admin action)
+ */
+export const createRefundSchema = z.object({
+  subscriptionId: z.string().cuid(),
+  amountType: refundAmountTypeSchema.default("prorated"),
+  reason: refundReasonSchema.default("requested_by_customer"),
+  notes: z
+    .string()
+    .max(5000, "Notes must be 5000 characters or less")
+    .optional()
+    .nullable(),
+  /** Allow refunds after the 7-day window (recorded in the audit trail) */
+  overridePolicy: z.boolean().default(false),
+  /** Cancel the subscription and end access along with the refund */
+  endSubscription: z.boolean().default(true),
+});
+
+/**
+ * Schema for listing refunds and disputes with filters (admin)
+ */
+export const paymentEventListQuerySchema = z.object({
+  type: paymentEventTypeSchema.optional(),
+  creatorId: z.string().cuid().optional(),
+  subscriptionId: z.string().cuid().optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// =============================================================================
+// TYPE EXPORTS
+// =============================================================================
+
+export type PaymentEventType = z.infer<typeof paymentEventTypeSchema>;
+export type RefundAmountType = z.infer<typeof refundAmountTypeSchema>;
+export type RefundReason = z.infer<typeof refundReasonSchema>;
+export type CreateRefundInput = z.infer<typeof createRefundSchema>;
+export type PaymentEventListQuery = z.infer<typeof paymentEventListQuerySchema>;
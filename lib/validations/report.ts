@@ -1,7 +1,7 @@
 /**
  * Content Report Validation Schemas
  *
- * Zod schemas for validating content report data
+ * Zod schemas for validating content and message report data
  *
  * @see PRD Phase 6, Task 18: Content Moderation
  */
@@ -43,6 +43,23 @@ export const createReportSchema = z.object({
     .nullable(),
 });
 
+/**
+ * Reasons a direct message or broadcast can be reported for
+ */
+export const messageReportReasonSchema = reportReasonSchema.extract([
+  "HARASSMENT",
+  "SPAM",
+  "INAPPROPRIATE",
+  "OTHER",
+]);
+
+/**
+ * Schema for reporting a message
+ */
+export const createMessageReportSchema = createReportSchema.extend({
+  reason: messageReportReasonSchema,
+});
+
 /**
  * Schema for updating a report (admin action)
  */
@@ -75,6 +92,15 @@ export const moderationActionSchema = z.object({
   notifyCreator: z.boolean().default(true),
 });
 
+/**
+ * Schema for moderation action on a reported message
+ */
+export const messageModerationActionSchema = z.object({
+  action: z.enum(["delete", "warn_sender"]),
+  reason: z.string().max(1000, "Reason must be 1000 characters or less"),
+  notifySender: z.boolean().default(true),
+});
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
@@ -85,6 +111,11 @@ export type CreateReport = z.infer<typeof createReportSchema>;
 export type UpdateReport = z.infer<typeof updateReportSchema>;
 export type ReportListQuery = z.infer<typeof reportListQuerySchema>;
 export type ModerationAction = z.infer<typeof moderationActionSchema>;
+export type MessageReportReason = z.infer<typeof messageReportReasonSchema>;
+export type CreateMessageReport = z.infer<typeof createMessageReportSchema>;
+export type MessageModerationAction = z.infer<
+  typeof messageModerationActionSchema
+>;
 
 // =============================================================================
 // HELPER FUNCTIONS
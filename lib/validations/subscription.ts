@@ -13,21 +13,70 @@ export const subscriptionStatusSchema = z.enum([
   "canceled",
   "past_due",
   "trialing",
+  "paused",
 ]);
 
+/**
+ * Billing interval enum matching Prisma
+ */
+export const billingIntervalSchema = z.enum(["month", "year"]);
+
 /**
  * Schema for creating a subscription (checkout session)
  */
 export const createSubscriptionSchema = z.object({
   // Creator ID is from the route parameter, not body
+  interval: billingIntervalSchema.default("month"),
+  // Tier to join; defaults to the lowest tier when the creator offers tiers
+  tierId: z.string().cuid().optional(),
+  // Creator promo code typed by the subscriber, e.g. "LAUNCH50"
+  promoCode: z.string().trim().min(1).max(30).optional(),
+});
+
+/**
+ * Schema for moving a subscription to another tier
+ */
+export const changeTierSchema = z.object({
+  tierId: z.string().cuid(),
+});
+
+/**
+ * Longest a subscriber can pause for, in months
+ */
+export const MAX_PAUSE_MONTHS = 3;
+
+/**
+ * Schema for pausing a subscription
+ */
+export const pauseSubscriptionSchema = z.object({
+  pauseMonths: z
+    .number()
+    .int("Pause length must be a whole number of months")
+    .min(1, "Pause must be at least 1 month")
+    .max(MAX_PAUSE_MONTHS, "Pause must be no more than 3 months"),
 });
 
+/**
+ * Schema for PATCH /api/subscriptions/[id]
+ * Sends one of tierId, pauseMonths or resume; an empty body reactivates a
+ * subscription that's set to cancel.
+ */
+export const updateSubscriptionSchema = z
+  .object({
+    tierId: changeTierSchema.shape.tierId,
+    pauseMonths: pauseSubscriptionSchema.shape.pauseMonths,
+    resume: z.literal(true),
+  })
+  .partial();
+
 /**
  * Schema for subscription webhook metadata
  */
 export const subscriptionMetadataSchema = z.object({
   creatorId: z.string().min(1),
   userId: z.string().min(1),
+  tierId: z.string().optional(),
+  promoCodeId: z.string().optional(),
   platform: z.literal("breathwithmagic").optional(),
 });
 
@@ -40,11 +89,49 @@ export const subscriptionListQuerySchema = z.object({
   status: subscriptionStatusSchema.optional(),
 });
 
+/**
+ * Cancellation survey reasons matching Prisma
+ */
+export const cancellationReasonSchema = z.enum([
+  "too_expensive",
+  "not_using",
+  "missing_content",
+  "technical_issues",
+  "taking_a_break",
+  "other",
+]);
+
+/**
+ * Cancellation survey reasons as shown to subscribers and creators
+ */
+export const cancellationReasonLabels: Record<CancellationReason, string> = {
+  too_expensive: "It's too expensive",
+  not_using: "I'm not using it enough",
+  missing_content: "The content isn't what I'm looking for",
+  technical_issues: "Technical problems",
+  taking_a_break: "I'm taking a break",
+  other: "Something else",
+};
+
 /**
  * Schema for subscription cancellation
+ * Subscription ID comes from the route; the body is the survey answer.
  */
 export const cancelSubscriptionSchema = z.object({
-  // No body required - subscription ID comes from route
+  reason: cancellationReasonSchema,
+  feedback: z
+    .string()
+    .trim()
+    .max(500, "Feedback must be no more than 500 characters")
+    .optional(),
+});
+
+/**
+ * Schema for accepting a retention offer instead of canceling
+ * Carries the survey answers given before the offer was shown.
+ */
+export const retentionOfferSchema = cancelSubscriptionSchema.extend({
+  offer: z.enum(["discount", "pause"]),
 });
 
 /**
@@ -58,6 +145,13 @@ export const billingPortalSchema = z.object({
  * Type exports
  */
 export type SubscriptionStatus = z.infer<typeof subscriptionStatusSchema>;
+export type BillingInterval = z.infer<typeof billingIntervalSchema>;
+export type CancellationReason = z.infer<typeof cancellationReasonSchema>;
+export type CancelSubscriptionInput = z.infer<typeof cancelSubscriptionSchema>;
+export type RetentionOfferInput = z.infer<typeof retentionOfferSchema>;
+export type ChangeTierInput = z.infer<typeof changeTierSchema>;
+export type PauseSubscriptionInput = z.infer<typeof pauseSubscriptionSchema>;
+export type UpdateSubscriptionInput = z.infer<typeof updateSubscriptionSchema>;
 export type SubscriptionMetadata = z.infer<typeof subscriptionMetadataSchema>;
 export type SubscriptionListQuery = z.infer<typeof subscriptionListQuerySchema>;
 export type BillingPortalRequest = z.infer<typeof billingPortalSchema>;
@@ -0,0 +1,49 @@
+/**
+ * Membership Tier Validation Schemas
+ *
+ * Zod schemas for creator-defined membership tiers
+ */
+import { z } from "zod";
+import { customPriceCentsSchema } from "@/lib/validations/creator";
+
+// A creator can offer at most this many tiers (including archived ones)
+export const MAX_MEMBERSHIP_TIERS = 5;
+
+const tierNameSchema = z
+  .string()
+  .min(1, "Tier name is required")
+  .max(40, "Tier name must be 40 characters or less")
+  .trim();
+
+const tierDescriptionSchema = z
+  .string()
+  .max(500, "Description must be 500 characters or less")
+  .nullable();
+
+/**
+ * Schema for creating a tier
+ * New tiers are ranked above the creator's existing tiers.
+ */
+export const createTierSchema = z.object({
+  name: tierNameSchema,
+  description: tierDescriptionSchema.optional(),
+  priceCents: customPriceCentsSchema.unwrap(),
+});
+
+/**
+ * Schema for updating a tier
+ * Price changes only apply to new subscribers and tier changes.
+ */
+export const updateTierSchema = z.object({
+  name: tierNameSchema.optional(),
+  description: tierDescriptionSchema.optional(),
+  priceCents: customPriceCentsSchema.unwrap().optional(),
+  // Archived tiers keep their members but can't be joined
+  archived: z.boolean().optional(),
+});
+
+/**
+ * Type exports
+ */
+export type CreateTierInput = z.infer<typeof createTierSchema>;
+export type UpdateTierInput = z.infer<typeof updateTierSchema>;
@@ -0,0 +1,120 @@
+/**
+ * Watch Progress
+ *
+ * Resume positions and the "continue watching" rail, built on the
+ * ContentView rows the players update while media plays.
+ */
+
+import type { ContentView } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkBatchContentAccess } from "@/lib/middleware/subscription-check";
+
+// Within this many seconds of the end, playback starts over instead
+const RESUME_END_MARGIN_SECONDS = 10;
+
+/**
+ * Where playback should resume for a viewer
+ *
+ * Finished content starts from the beginning, as does content left right
+ * at the end. Views from before positions were saved fall back to the
+ * furthest point reached.
+ *
+ * @returns Position in seconds
+ */
+export function getResumePosition(
+  view: Pick<ContentView, "position" | "watchDuration" | "completedAt"> | null,
+  duration: number | null,
+): number {
+  if (!view || view.completedAt) {
+    return 0;
+  }
+
+  const position = view.position ?? view.watchDuration ?? 0;
+
+  if (duration && position >= duration - RESUME_END_MARGIN_SECONDS) {
+    return 0;
+  }
+
+  return position;
+}
+
+/**
+ * In-progress videos and audio for a user, most recently watched first
+ *
+ * Only content the user can still play is included: published, from an
+ * active creator, and free, covered by their subscription tier, or
+ * purchased. Content from a lapsed subscription drops out until they
+ * resubscribe.
+ */
+export async function getContinueWatching(userId: string, limit: number) {
+  const views = await prisma.contentView.findMany({
+    where: {
+      userId,
+      completedAt: null,
+      OR: [
+        { position: { gt: 0 } },
+        { position: null, watchDuration: { gt: 0 } },
+      ],
+      content: {
+        type: { in: ["video", "audio"] },
+        status: "published",
+        creator: { status: "active" },
+      },
+    },
+    orderBy: { lastWatchedAt: "desc" },
+    // Extra rows cover content filtered out below
+    take: limit * 3,
+    select: {
+      position: true,
+      watchDuration: true,
+      completedAt: true,
+      lastWatchedAt: true,
+      content: {
+        select: {
+          id: true,
+          type: true,
+          title: true,
+          thumbnailUrl: true,
+          duration: true,
+          isFree: true,
+          creator: {
+            select: {
+              id: true,
+              handle: true,
+              displayName: true,
+              avatarUrl: true,
+              category: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // A content item can have more than one view row; keep the latest
+  const seen = new Set<string>();
+  const latestViews = views.filter((view) => {
+    if (seen.has(view.content.id)) return false;
+    seen.add(view.content.id);
+    return true;
+  });
+
+  const accessMap = await checkBatchContentAccess(
+    userId,
+    latestViews.map((view) => view.content.id),
+  );
+
+  return latestViews
+    .filter((view) => accessMap.get(view.content.id))
+    .map((view) => ({
+      ...view.content,
+      position: getResumePosition(view, view.content.duration),
+      lastWatchedAt: view.lastWatchedAt.toISOString(),
+    }))
+    .filter((item) => item.position > 0)
+    .slice(0, limit);
+}
+
+export type ContinueWatchingItem = Awaited<
+  ReturnType<typeof getContinueWatching>
+>[number];
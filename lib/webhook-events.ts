@@ -0,0 +1,60 @@
+/**
+ * Webhook Idempotency Helpers
+ *
+ * Shared by every inbound webhook handler (Stripe, Clerk, ...) so each
+ * provider event is applied at most once. Event IDs are recorded in the
+ * ProcessedWebhookEvent table AFTER successful handling to prevent data loss.
+ *
+ * Provider event IDs are globally unique and carry distinct prefixes
+ * (Stripe "evt_", Svix "msg_"), so a single table serves all providers.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Check if an event has already been processed (idempotency check).
+ *
+ * @param eventId - The provider event ID
+ * @returns true if event was already processed, false if it's new
+ */
+export async function isEventAlreadyProcessed(
+  eventId: string,
+): Promise<boolean> {
+  const existingEvent = await prisma.processedWebhookEvent.findUnique({
+    where: { eventId },
+  });
+  return existingEvent !== null;
+}
+
+/**
+ * Mark an event as processed AFTER successful handling.
+ * This ensures we don't mark events as processed if handling fails.
+ *
+ * @param eventId - The provider event ID
+ * @param eventType - The type of event
+ */
+export async function markEventProcessed(
+  eventId: string,
+  eventType: string,
+): Promise<void> {
+  try {
+    await prisma.processedWebhookEvent.create({
+      data: { eventId, eventType },
+    });
+  } catch (error: unknown) {
+    // P2002 is Prisma's unique constraint violation error
+    // If event was already processed (race condition), that's fine
+    if (
+      error &&
+      typeof error === "object" &&
+      "code" in error &&
+      error.code === "P2002"
+    ) {
+      console.log(
+        `Event ${eventId} was already marked as processed (race condition handled)`,
+      );
+      return;
+    }
+    throw error; // Real error, re-throw
+  }
+}
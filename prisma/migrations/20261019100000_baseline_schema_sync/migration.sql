@@ -0,0 +1,88 @@
+-- Brings databases created from the init migration up to the schema the
+-- app already used: admin flags, email preferences and content reports.
+-- Databases set up with `prisma db push` already have all of this, so
+-- every statement is safe to run again.
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "ReportReason" AS ENUM ('INAPPROPRIATE', 'SPAM', 'HARASSMENT', 'COPYRIGHT', 'MISLEADING', 'OTHER');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "ReportStatus" AS ENUM ('PENDING', 'REVIEWED', 'ACTION_TAKEN', 'DISMISSED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "isAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "EmailPreferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "newContent" BOOLEAN NOT NULL DEFAULT true,
+    "newMessage" BOOLEAN NOT NULL DEFAULT true,
+    "trialReminders" BOOLEAN NOT NULL DEFAULT true,
+    "paymentAlerts" BOOLEAN NOT NULL DEFAULT true,
+    "subscriptionUpdates" BOOLEAN NOT NULL DEFAULT true,
+    "marketing" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailPreferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ContentReport" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" "ReportReason" NOT NULL,
+    "description" TEXT,
+    "status" "ReportStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContentReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "EmailPreferences_userId_key" ON "EmailPreferences"("userId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "EmailPreferences_userId_idx" ON "EmailPreferences"("userId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ContentReport_status_createdAt_idx" ON "ContentReport"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ContentReport_contentId_idx" ON "ContentReport"("contentId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ContentReport_reporterId_idx" ON "ContentReport"("reporterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ContentReport_contentId_reporterId_key" ON "ContentReport"("contentId", "reporterId");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "EmailPreferences" ADD CONSTRAINT "EmailPreferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ContentReport" ADD CONSTRAINT "ContentReport_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ContentReport" ADD CONSTRAINT "ContentReport_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PaymentEventType" AS ENUM ('refund', 'dispute_opened', 'dispute_won', 'dispute_lost');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'subscription_refunded';
+ALTER TYPE "NotificationType" ADD VALUE 'payment_disputed';
+
+-- CreateTable
+CREATE TABLE "PaymentEvent" (
+    "id" TEXT NOT NULL,
+    "type" "PaymentEventType" NOT NULL,
+    "subscriptionId" TEXT,
+    "userId" TEXT,
+    "creatorId" TEXT,
+    "stripeChargeId" TEXT,
+    "stripeRefundId" TEXT,
+    "stripeDisputeId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "reason" TEXT,
+    "initiatedById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentEvent_stripeRefundId_key" ON "PaymentEvent"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_type_createdAt_idx" ON "PaymentEvent"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_subscriptionId_idx" ON "PaymentEvent"("subscriptionId");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_creatorId_createdAt_idx" ON "PaymentEvent"("creatorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_stripeDisputeId_idx" ON "PaymentEvent"("stripeDisputeId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentEvent" ADD CONSTRAINT "PaymentEvent_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
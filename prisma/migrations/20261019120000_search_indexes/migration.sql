@@ -0,0 +1,28 @@
+-- Enable trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "CreatorProfile_displayName_trgm_idx" ON "CreatorProfile" USING GIN ("displayName" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "CreatorProfile_handle_trgm_idx" ON "CreatorProfile" USING GIN ("handle" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Content_title_trgm_idx" ON "Content" USING GIN ("title" gin_trgm_ops);
+
+-- Full-text document indexes. Prisma can't express expression indexes, so
+-- these live only in SQL. The expressions must match lib/search.ts exactly
+-- for the planner to use them.
+
+-- CreateIndex
+CREATE INDEX "CreatorProfile_search_idx" ON "CreatorProfile" USING GIN ((
+  setweight(to_tsvector('english', coalesce("displayName", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("handle", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("bio", '')), 'C')
+));
+
+-- CreateIndex
+CREATE INDEX "Content_search_idx" ON "Content" USING GIN ((
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B')
+));
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "BillingInterval" AS ENUM ('month', 'year');
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "annualDiscountPercent" INTEGER,
+ADD COLUMN     "customPriceCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "billingInterval" "BillingInterval" NOT NULL DEFAULT 'month';
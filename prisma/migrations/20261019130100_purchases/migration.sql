@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "PurchaseStatus" AS ENUM ('completed', 'refunded');
+
+-- AlterTable
+ALTER TABLE "Program" ADD COLUMN     "priceCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN     "priceCents" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Purchase" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "contentId" TEXT,
+    "programId" TEXT,
+    "status" "PurchaseStatus" NOT NULL DEFAULT 'completed',
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "stripeCheckoutSessionId" TEXT NOT NULL,
+    "stripePaymentIntentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Purchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Purchase_stripeCheckoutSessionId_key" ON "Purchase"("stripeCheckoutSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Purchase_stripePaymentIntentId_key" ON "Purchase"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_userId_contentId_idx" ON "Purchase"("userId", "contentId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_userId_programId_idx" ON "Purchase"("userId", "programId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_creatorId_createdAt_idx" ON "Purchase"("creatorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_programId_fkey" FOREIGN KEY ("programId") REFERENCES "Program"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "dmMinTierId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Program" ADD COLUMN     "minTierId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN     "minTierId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "tierId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MembershipTier" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "name" VARCHAR(40) NOT NULL,
+    "description" TEXT,
+    "rank" INTEGER NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MembershipTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MembershipTier_creatorId_rank_key" ON "MembershipTier"("creatorId", "rank");
+
+-- CreateIndex
+CREATE INDEX "Subscription_tierId_idx" ON "Subscription"("tierId");
+
+-- AddForeignKey
+ALTER TABLE "CreatorProfile" ADD CONSTRAINT "CreatorProfile_dmMinTierId_fkey" FOREIGN KEY ("dmMinTierId") REFERENCES "MembershipTier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MembershipTier" ADD CONSTRAINT "MembershipTier_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Program" ADD CONSTRAINT "Program_minTierId_fkey" FOREIGN KEY ("minTierId") REFERENCES "MembershipTier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Content" ADD CONSTRAINT "Content_minTierId_fkey" FOREIGN KEY ("minTierId") REFERENCES "MembershipTier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_tierId_fkey" FOREIGN KEY ("tierId") REFERENCES "MembershipTier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ContentStatus" ADD VALUE 'scheduled';
+
+-- AlterTable
+ALTER TABLE "Program" ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Program_scheduledAt_idx" ON "Program"("scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "Content_status_scheduledAt_idx" ON "Content"("status", "scheduledAt");
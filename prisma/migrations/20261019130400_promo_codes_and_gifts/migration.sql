@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "PromoDuration" AS ENUM ('once', 'repeating', 'forever');
+
+-- CreateEnum
+CREATE TYPE "GiftStatus" AS ENUM ('pending', 'paid', 'redeemed', 'refunded');
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "trialDays" INTEGER NOT NULL DEFAULT 7;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "giftId" TEXT,
+ADD COLUMN     "promoCodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromoCode" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "code" VARCHAR(30) NOT NULL,
+    "percentOff" INTEGER,
+    "amountOffCents" INTEGER,
+    "duration" "PromoDuration" NOT NULL DEFAULT 'once',
+    "durationInMonths" INTEGER,
+    "trialDays" INTEGER,
+    "maxRedemptions" INTEGER,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "stripeCouponId" TEXT,
+    "stripePromotionCodeId" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Gift" (
+    "id" TEXT NOT NULL,
+    "purchaserId" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "tierId" TEXT,
+    "months" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "code" TEXT NOT NULL,
+    "status" "GiftStatus" NOT NULL DEFAULT 'pending',
+    "stripeCheckoutSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "redeemedById" TEXT,
+    "redeemedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Gift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_stripeCouponId_key" ON "PromoCode"("stripeCouponId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_stripePromotionCodeId_key" ON "PromoCode"("stripePromotionCodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_creatorId_code_key" ON "PromoCode"("creatorId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_code_key" ON "Gift"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_stripeCheckoutSessionId_key" ON "Gift"("stripeCheckoutSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_stripePaymentIntentId_key" ON "Gift"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "Gift_purchaserId_createdAt_idx" ON "Gift"("purchaserId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Gift_creatorId_idx" ON "Gift"("creatorId");
+
+-- CreateIndex
+CREATE INDEX "Subscription_giftId_idx" ON "Subscription"("giftId");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_giftId_fkey" FOREIGN KEY ("giftId") REFERENCES "Gift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCode" ADD CONSTRAINT "PromoCode_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_purchaserId_fkey" FOREIGN KEY ("purchaserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_tierId_fkey" FOREIGN KEY ("tierId") REFERENCES "MembershipTier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "CreatorAdminActionType" AS ENUM ('suspend', 'reinstate', 'verify', 'unverify', 'feature', 'unfeature');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'creator_suspended';
+ALTER TYPE "NotificationType" ADD VALUE 'creator_reinstated';
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "suspendedAt" TIMESTAMP(3),
+ADD COLUMN     "suspensionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "CreatorAdminAction" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "action" "CreatorAdminActionType" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreatorAdminAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreatorAdminAction_creatorId_createdAt_idx" ON "CreatorAdminAction"("creatorId", "createdAt");
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "MediaStatus" AS ENUM ('uploading', 'processing', 'ready', 'errored');
+
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN     "mediaError" TEXT,
+ADD COLUMN     "mediaProgress" INTEGER,
+ADD COLUMN     "mediaStatus" "MediaStatus";
+
+-- CreateIndex
+CREATE INDEX "Content_mediaUrl_idx" ON "Content"("mediaUrl");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ContentView" ADD COLUMN     "lastWatchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "position" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ContentView_userId_lastWatchedAt_idx" ON "ContentView"("userId", "lastWatchedAt");
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "MessageAttachmentType" AS ENUM ('audio', 'image');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "attachmentDuration" INTEGER,
+ADD COLUMN     "attachmentKey" TEXT,
+ADD COLUMN     "attachmentType" "MessageAttachmentType";
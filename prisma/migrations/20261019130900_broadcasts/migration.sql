@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "BroadcastAudience" AS ENUM ('subscribers', 'trialing', 'long_term_subscribers', 'followers_not_subscribed');
+
+-- CreateEnum
+CREATE TYPE "BroadcastStatus" AS ENUM ('scheduled', 'sending', 'sent');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "broadcastId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Broadcast" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "attachmentType" "MessageAttachmentType",
+    "attachmentKey" TEXT,
+    "attachmentDuration" INTEGER,
+    "audience" "BroadcastAudience" NOT NULL DEFAULT 'subscribers',
+    "minSubscribedDays" INTEGER,
+    "status" "BroadcastStatus" NOT NULL DEFAULT 'scheduled',
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "deliveryCursor" TEXT,
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Broadcast_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Broadcast_creatorId_createdAt_idx" ON "Broadcast"("creatorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Broadcast_status_scheduledAt_idx" ON "Broadcast"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_broadcastId_receiverId_key" ON "Message"("broadcastId", "receiverId");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_broadcastId_fkey" FOREIGN KEY ("broadcastId") REFERENCES "Broadcast"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Broadcast" ADD CONSTRAINT "Broadcast_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
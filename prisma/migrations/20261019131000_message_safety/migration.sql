@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "ContentReport" ADD COLUMN     "messageExcerpt" TEXT,
+ADD COLUMN     "messageId" TEXT,
+ADD COLUMN     "reportedUserId" TEXT,
+ALTER COLUMN "contentId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "UserBlock" (
+    "id" TEXT NOT NULL,
+    "blockerId" TEXT NOT NULL,
+    "blockedId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConversationMute" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "partnerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationMute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserBlock_blockedId_idx" ON "UserBlock"("blockedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserBlock_blockerId_blockedId_key" ON "UserBlock"("blockerId", "blockedId");
+
+-- CreateIndex
+CREATE INDEX "ConversationMute_partnerId_idx" ON "ConversationMute"("partnerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationMute_userId_partnerId_key" ON "ConversationMute"("userId", "partnerId");
+
+-- CreateIndex
+CREATE INDEX "ContentReport_reportedUserId_idx" ON "ContentReport"("reportedUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentReport_messageId_reporterId_key" ON "ContentReport"("messageId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "ContentReport" ADD CONSTRAINT "ContentReport_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContentReport" ADD CONSTRAINT "ContentReport_reportedUserId_fkey" FOREIGN KEY ("reportedUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserBlock" ADD CONSTRAINT "UserBlock_blockerId_fkey" FOREIGN KEY ("blockerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserBlock" ADD CONSTRAINT "UserBlock_blockedId_fkey" FOREIGN KEY ("blockedId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationMute" ADD CONSTRAINT "ConversationMute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationMute" ADD CONSTRAINT "ConversationMute_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
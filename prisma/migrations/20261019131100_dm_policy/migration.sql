@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "MessageRequestStatus" AS ENUM ('awaiting_payment', 'pending', 'accepted', 'declined');
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "dmDailyLimit" INTEGER,
+ADD COLUMN     "dmFollowerRequests" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "dmMinSubscribedDays" INTEGER,
+ADD COLUMN     "dmRequestPriceCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing subscriptions started when they were created
+UPDATE "Subscription" SET "startedAt" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "MessageRequest" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "status" "MessageRequestStatus" NOT NULL DEFAULT 'pending',
+    "amount" INTEGER,
+    "stripeCheckoutSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MessageRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageRequest_stripeCheckoutSessionId_key" ON "MessageRequest"("stripeCheckoutSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageRequest_stripePaymentIntentId_key" ON "MessageRequest"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "MessageRequest_creatorId_status_createdAt_idx" ON "MessageRequest"("creatorId", "status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageRequest_creatorId_senderId_key" ON "MessageRequest"("creatorId", "senderId");
+
+-- AddForeignKey
+ALTER TABLE "MessageRequest" ADD CONSTRAINT "MessageRequest_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageRequest" ADD CONSTRAINT "MessageRequest_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
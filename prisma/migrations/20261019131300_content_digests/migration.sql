@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "DigestMode" AS ENUM ('immediate', 'daily', 'weekly');
+
+-- CreateTable
+CREATE TABLE "NotificationSettings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "digestMode" "DigestMode" NOT NULL DEFAULT 'immediate',
+    "quietHoursStart" INTEGER,
+    "quietHoursEnd" INTEGER,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DigestItem" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DigestItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationSettings_userId_key" ON "NotificationSettings"("userId");
+
+-- CreateIndex
+CREATE INDEX "DigestItem_userId_createdAt_idx" ON "DigestItem"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DigestItem_userId_contentId_key" ON "DigestItem"("userId", "contentId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationSettings" ADD CONSTRAINT "NotificationSettings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DigestItem" ADD CONSTRAINT "DigestItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DigestItem" ADD CONSTRAINT "DigestItem_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('subscription', 'purchase', 'gift', 'message_request', 'refund', 'payout');
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "userId" TEXT,
+    "stripeObjectId" TEXT NOT NULL,
+    "stripeSubscriptionId" TEXT,
+    "grossAmount" INTEGER NOT NULL,
+    "platformFee" INTEGER NOT NULL,
+    "netAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "payoutStatus" TEXT,
+    "arrivalDate" TIMESTAMP(3),
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEntry_stripeObjectId_key" ON "LedgerEntry"("stripeObjectId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_creatorId_type_occurredAt_idx" ON "LedgerEntry"("creatorId", "type", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_stripeSubscriptionId_idx" ON "LedgerEntry"("stripeSubscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "CreatorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
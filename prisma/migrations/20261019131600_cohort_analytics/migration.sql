@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "CancellationCause" AS ENUM ('requested', 'payment_failed', 'refunded', 'gift_ended');
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "canceledAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationCause" "CancellationCause",
+ADD COLUMN     "trialEndsAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Subscription_creatorId_createdAt_idx" ON "Subscription"("creatorId", "createdAt");
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "CancellationReason" AS ENUM ('too_expensive', 'not_using', 'missing_content', 'technical_issues', 'taking_a_break', 'other');
+
+-- CreateEnum
+CREATE TYPE "RetentionOffer" AS ENUM ('discount');
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "retentionDiscountPercent" INTEGER,
+ADD COLUMN     "winBackDelayDays" INTEGER DEFAULT 14;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "cancellationFeedback" TEXT,
+ADD COLUMN     "cancellationReason" "CancellationReason",
+ADD COLUMN     "retentionOffer" "RetentionOffer",
+ADD COLUMN     "retentionOfferAcceptedAt" TIMESTAMP(3),
+ADD COLUMN     "winBackEmailAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Subscription_status_winBackEmailAt_idx" ON "Subscription"("status", "winBackEmailAt");
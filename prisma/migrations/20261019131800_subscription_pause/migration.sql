@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "SubscriptionStatus" ADD VALUE 'paused';
+
+-- AlterEnum
+ALTER TYPE "RetentionOffer" ADD VALUE 'pause';
+
+-- AlterTable
+ALTER TABLE "CreatorProfile" ADD COLUMN     "retentionPauseMonths" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "pauseStartsAt" TIMESTAMP(3),
+ADD COLUMN     "pausedUntil" TIMESTAMP(3);
@@ -0,0 +1,53 @@
+/**
+ * Service Worker - Web Push
+ *
+ * Shows the push notifications sent by lib/push.ts and opens the
+ * notification's page when it's clicked. Registered from notification
+ * settings when the user turns on push for their device.
+ */
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      // Newer notifications of the same type replace older ones
+      tag: payload.type,
+      data: { link: payload.link },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+
+  const url = new URL(
+    event.notification.data?.link || "/",
+    self.location.origin,
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        // Reuse an open tab if there is one; tabs opened before the
+        // worker was registered can't be navigated, so open a new one
+        const client = clients.find((c) =>
+          c.url.startsWith(self.location.origin),
+        );
+        if (!client) return self.clients.openWindow(url);
+        return client
+          .navigate(url)
+          .then((navigated) => navigated?.focus())
+          .catch(() => self.clients.openWindow(url));
+      }),
+  );
+});